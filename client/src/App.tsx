@@ -2,14 +2,23 @@ import { Switch, Route } from "wouter";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { ThemeProvider } from "./contexts/theme-provider";
+import { AuthProvider } from "@/hooks/use-auth";
 import { Toaster } from "@/components/ui/toaster";
 import Home from "@/pages/home";
+import History from "@/pages/history";
+import Settings from "@/pages/settings";
+import ApiDocs from "@/pages/api-docs";
+import Project from "@/pages/project";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/history" component={History} />
+      <Route path="/settings" component={Settings} />
+      <Route path="/docs" component={ApiDocs} />
+      <Route path="/project" component={Project} />
       {/* Add additional routes here */}
       <Route component={NotFound} />
     </Switch>
@@ -20,8 +29,10 @@ function App() {
   return (
     <ThemeProvider defaultTheme="light" storageKey="sourcexchange-theme">
       <QueryClientProvider client={queryClient}>
-        <Router />
-        <Toaster />
+        <AuthProvider>
+          <Router />
+          <Toaster />
+        </AuthProvider>
       </QueryClientProvider>
     </ThemeProvider>
   );
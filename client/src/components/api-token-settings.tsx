@@ -0,0 +1,140 @@
+import { useState, type FormEvent } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { CreatedApiToken, PublicApiToken } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { API_TOKENS_URL, createApiToken, invalidateApiTokens, revokeApiToken } from "@/lib/api-tokens";
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+// The new token, which the server never returns again
+function NewToken({ created, onDone }: { created: CreatedApiToken; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(created.token);
+    toast({ title: "Token copied" });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-green-200 bg-green-50 p-4 dark:border-green-900 dark:bg-green-950/40">
+      <p className="text-sm text-green-800 dark:text-green-300">
+        Copy the token for <strong>{created.apiToken.name}</strong> now; it will not be shown again.
+      </p>
+      <div className="flex gap-2">
+        <code className="flex-1 truncate rounded bg-white px-3 py-2 font-mono text-sm dark:bg-slate-900">
+          {created.token}
+        </code>
+        <Button variant="outline" size="sm" onClick={copy} className="gap-1.5 h-auto">
+          <Copy className="h-3.5 w-3.5" />
+          Copy
+        </Button>
+      </div>
+      <p className="text-xs text-slate-600 dark:text-slate-400 font-mono break-all">
+        {`curl -H "Authorization: Bearer ${created.token}" ${window.location.origin}/api/me`}
+      </p>
+      <Button size="sm" onClick={onDone}>Done</Button>
+    </div>
+  );
+}
+
+export function ApiTokenSettings() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const { data: tokens, isLoading } = useQuery<PublicApiToken[]>({ queryKey: [API_TOKENS_URL] });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: authErrorMessage(error), variant: "destructive" });
+  };
+
+  const create = useMutation({
+    mutationFn: createApiToken,
+    onSuccess: (result) => {
+      setName("");
+      setCreated(result);
+      void invalidateApiTokens();
+    },
+    onError: onError("Could not create token"),
+  });
+
+  const revoke = useMutation({
+    mutationFn: revokeApiToken,
+    onSuccess: () => {
+      void invalidateApiTokens();
+      toast({ title: "Token revoked" });
+    },
+    onError: onError("Could not revoke token"),
+  });
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (name.trim()) create.mutate(name);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Scripts and CI jobs can call the API as you by sending a token in an{" "}
+        <code className="font-mono text-xs">Authorization: Bearer</code> header. See the{" "}
+        <Link href="/docs" className="text-primary underline-offset-4 hover:underline">API documentation</Link>.
+      </p>
+
+      {created ? (
+        <NewToken created={created} onDone={() => setCreated(null)} />
+      ) : (
+        <form onSubmit={submit} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Token name, e.g. GitHub Actions"
+            maxLength={64}
+            aria-label="Token name"
+          />
+          <Button type="submit" disabled={!name.trim() || create.isPending} className="gap-1.5">
+            {create.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Create
+          </Button>
+        </form>
+      )}
+
+      {isLoading ? (
+        <Skeleton className="h-12 w-full" />
+      ) : tokens && tokens.length > 0 ? (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700 rounded-md border border-slate-200 dark:border-slate-700">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex flex-wrap items-center gap-3 px-4 py-3">
+              <KeyRound className="h-4 w-4 text-slate-400" />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{token.name}</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">
+                  <span className="font-mono">{token.prefix}…</span>
+                  {` · created ${formatDate(token.createdAt)} · last used ${formatDate(token.lastUsedAt)}`}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => revoke.mutate(token.id)}
+                disabled={revoke.isPending && revoke.variables === token.id}
+                className="gap-1.5 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-950/40"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                Revoke
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500 dark:text-slate-400">You have no API tokens.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { credentialsSchema, type Credentials, type LoginResult } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
+import { Loader2 } from "lucide-react";
+
+type AuthMode = "login" | "register";
+
+interface AuthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface CredentialsFormProps {
+  mode: AuthMode;
+  onSuccess: (result: LoginResult) => void;
+}
+
+// Signing in only needs both fields; the registration rules apply to new accounts
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "Enter your username"),
+  password: z.string().min(1, "Enter your password"),
+});
+
+function CredentialsForm({ mode, onSuccess }: CredentialsFormProps) {
+  const { loginMutation, registerMutation } = useAuth();
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+  const form = useForm<Credentials>({
+    resolver: zodResolver(mode === "login" ? loginSchema : credentialsSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const submit = form.handleSubmit((credentials) => mutation.mutate(credentials, { onSuccess }));
+
+  return (
+    <Form {...form}>
+      <form onSubmit={submit} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete={mode === "login" ? "current-password" : "new-password"}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={mutation.isPending}>
+          {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {mode === "login" ? "Sign in" : "Create account"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export function AuthDialog({ open, onOpenChange }: AuthDialogProps) {
+  const { verifyLoginMutation } = useAuth();
+  const [mode, setMode] = useState<AuthMode>("login");
+  // The password checked out and the account wants its second factor
+  const [needsSecondFactor, setNeedsSecondFactor] = useState(false);
+
+  const changeOpen = (next: boolean) => {
+    if (!next) setNeedsSecondFactor(false);
+    onOpenChange(next);
+  };
+  const close = () => changeOpen(false);
+  const signedIn = (result: LoginResult) => {
+    if ("twoFactorRequired" in result) setNeedsSecondFactor(true);
+    else close();
+  };
+
+  if (needsSecondFactor) {
+    return (
+      <Dialog open={open} onOpenChange={changeOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Two-factor authentication</DialogTitle>
+            <DialogDescription>
+              Enter the 6-digit code from your authenticator app.
+            </DialogDescription>
+          </DialogHeader>
+          <TwoFactorCodeInput
+            submitLabel="Verify"
+            isPending={verifyLoginMutation.isPending}
+            onSubmit={(code) => verifyLoginMutation.mutate({ code }, { onSuccess: close })}
+          />
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={changeOpen}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mode === "login" ? "Sign in" : "Create an account"}</DialogTitle>
+          <DialogDescription>
+            Signed-in conversions are saved to your own history.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as AuthMode)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login">Sign in</TabsTrigger>
+            <TabsTrigger value="register">Register</TabsTrigger>
+          </TabsList>
+          <TabsContent value="login" className="pt-2">
+            <CredentialsForm mode="login" onSuccess={signedIn} />
+          </TabsContent>
+          <TabsContent value="register" className="pt-2">
+            <CredentialsForm mode="register" onSuccess={signedIn} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,16 +1,26 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { editor } from "monaco-editor";
+import type { CodeConversion, ConversionDiagnostic, ConversionOptions, ConverterInfo } from "@shared/schema";
 import { LanguageSelector } from "@/components/language-selector";
 import { SkillLevelSelector } from "@/components/skill-level-selector";
+import { ConversionOptionsPanel } from "@/components/conversion-options-panel";
 import { CodeEditor } from "@/components/ui/code-editor";
 import { CodeExplanation } from "@/components/code-explanation";
 import { OutputConsole } from "@/components/output-console";
+import { ConversionDiagnostics } from "@/components/conversion-diagnostics";
+import { VerificationReport } from "@/components/verification-report";
+import { ProgramInputPanel, type ProgramInputValue } from "@/components/program-input-panel";
 import { CodeLoading } from "@/components/code-loading";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { useCodeConversion } from "@/hooks/use-code-conversion";
-import { getLanguageById } from "@/lib/supported-languages";
-import { Clipboard, X, Play, ArrowRightLeft, ArrowDown, Sparkles } from "lucide-react";
+import { useLinkedHighlighting } from "@/hooks/use-linked-highlighting";
+import { getLanguageById, supportedLanguages } from "@/lib/supported-languages";
+import { diagnosticMarkers, toMonacoRange } from "@/lib/diagnostics";
+import { parseArguments, type ProgramInput } from "@/lib/sandbox";
+import { Clipboard, X, Play, ShieldCheck, ArrowRightLeft, ArrowDown, Sparkles } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { motion, AnimatePresence } from "framer-motion";
@@ -181,13 +191,19 @@ result=$(add 5 3)
 echo "The sum is: $result"`,
 };
 
-export function CodeConverter() {
-  const [sourceLanguage, setSourceLanguage] = useState<string>("javascript");
-  const [targetLanguage, setTargetLanguage] = useState<string>("python");
-  const [skillLevel, setSkillLevel] = useState("beginner");
+interface CodeConverterProps {
+  // A conversion from the history to start from instead of the example
+  saved?: CodeConversion;
+}
+
+export function CodeConverter({ saved }: CodeConverterProps) {
+  const [sourceLanguage, setSourceLanguage] = useState<string>(saved?.sourceLanguage ?? "javascript");
+  const [targetLanguage, setTargetLanguage] = useState<string>(saved?.targetLanguage ?? "python");
+  const [skillLevel, setSkillLevel] = useState(saved?.skillLevel ?? "beginner");
   const [generateReadme, setGenerateReadme] = useState(false);
   const [generateApi, setGenerateApi] = useState(false);
-  const [isAnimating, setIsAnimating] = useState(false);
+  const [options, setOptions] = useState<ConversionOptions>(saved?.options ?? {});
+  const [programInput, setProgramInput] = useState<ProgramInputValue>({ stdin: "", args: "" });
   const { toast } = useToast();
   
   // Use the example for the selected language, or default to JavaScript
@@ -196,12 +212,62 @@ export function CodeConverter() {
   const {
     convert,
     isConverting,
+    progress,
     result,
     runCode,
+    isRunning,
+    acceptsInput,
     runOutput,
-    clearOutput,
+    runExit,
+    runError,
+    sendInput,
+    endInput,
+    stopRun,
+    verifyCode,
+    isVerifying,
   } = useCodeConversion();
 
+  // Source the current result was converted from; source markers only apply while it is unchanged
+  const [convertedSource, setConvertedSource] = useState<string | null>(null);
+  const sourceInSync = sourceCode === convertedSource;
+  const { sourceEditor, targetEditor, onSourceMount, onTargetMount } = useLinkedHighlighting(
+    result?.sourceMap,
+    sourceInSync
+  );
+
+  const targetMarkers = useMemo(
+    () => (result ? diagnosticMarkers(result.diagnostics, "targetRange") : []),
+    [result]
+  );
+  const sourceMarkers = useMemo(
+    () => (result && sourceInSync ? diagnosticMarkers(result.diagnostics, "sourceRange") : []),
+    [result, sourceInSync]
+  );
+
+  // Highlights a diagnostic in both editors
+  const revealDiagnostic = (diagnostic: ConversionDiagnostic) => {
+    const targets: [editor.IStandaloneCodeEditor | null, ConversionDiagnostic["sourceRange"]][] = [
+      [targetEditor.current, diagnostic.targetRange],
+      [sourceInSync ? sourceEditor.current : null, diagnostic.sourceRange],
+    ];
+    for (const [instance, range] of targets) {
+      if (!instance || !range) continue;
+      const monacoRange = toMonacoRange(range);
+      instance.setSelection(monacoRange);
+      instance.revealRangeInCenter(monacoRange);
+    }
+  };
+
+  // Targets without a registered converter for the current source language
+  const { data: converters } = useQuery<ConverterInfo[]>({ queryKey: ["/api/converters"] });
+  const unsupportedTargets = converters
+    ? supportedLanguages
+        .map((language) => language.id)
+        .filter((id) => !converters.some(
+          (converter) => converter.sourceLanguage === sourceLanguage && converter.targetLanguage === id
+        ))
+    : [];
+
   const handleConvertCode = () => {
     if (!sourceCode?.trim()) {
       toast({
@@ -212,23 +278,16 @@ export function CodeConverter() {
       return;
     }
 
-    // Start the animation
-    setIsAnimating(true);
-    
-    // Wait for animation to complete before sending the request
-    setTimeout(() => {
-      convert({
-        sourceCode,
-        sourceLanguage,
-        targetLanguage,
-        skillLevel: skillLevel as "beginner" | "intermediate" | "advanced",
-        generateReadme,
-        generateApi,
-      });
-      
-      // Stop the animation after conversion is done
-      setTimeout(() => setIsAnimating(false), 500);
-    }, 600);
+    setConvertedSource(sourceCode);
+    convert({
+      sourceCode,
+      sourceLanguage,
+      targetLanguage,
+      skillLevel: skillLevel as "beginner" | "intermediate" | "advanced",
+      generateReadme,
+      generateApi,
+      options,
+    });
   };
 
   const copyCode = (code: string) => {
@@ -246,13 +305,23 @@ export function CodeConverter() {
   const executeTargetCode = () => {
     if (!result?.targetCode) return;
     
-    clearOutput();
-    runCode(
-      result.targetCode,
-      getLanguageById(targetLanguage).displayName
-    );
+    runCode(result.targetCode, targetLanguage, runInput());
+  };
+
+  // Runs the source the result was converted from and the result with the same input
+  const verifyTargetCode = () => {
+    if (!result?.targetCode || convertedSource === null) return;
+
+    // The pickers may have changed since; verify the pair that was converted
+    const converted = result.converter ?? { sourceLanguage, targetLanguage };
+    verifyCode(convertedSource, converted.sourceLanguage, converted.targetLanguage, runInput());
   };
 
+  const runInput = (): ProgramInput => ({
+    stdin: programInput.stdin || undefined,
+    args: parseArguments(programInput.args),
+  });
+
   // Swap source and target languages
   const swapLanguages = () => {
     const tempLang = sourceLanguage;
@@ -260,11 +329,16 @@ export function CodeConverter() {
     setTargetLanguage(tempLang);
   };
 
+  // Set until the effects below have run once, so they keep the saved code and options
+  const restoring = useRef(saved !== undefined);
+
   // Make sure languages are different and update source code
   useEffect(() => {
     // Update source code when language changes - safely access as key
     const langExample = sourceLanguage as keyof typeof CODE_EXAMPLES;
-    if (CODE_EXAMPLES[langExample]) {
+    if (restoring.current && saved) {
+      setSourceCode(saved.sourceCode);
+    } else if (CODE_EXAMPLES[langExample]) {
       setSourceCode(CODE_EXAMPLES[langExample]);
     } else {
       // Fallback to JavaScript if the language isn't in our examples
@@ -282,6 +356,16 @@ export function CodeConverter() {
     }
   }, [sourceLanguage, targetLanguage]);
 
+  // A target version only means something for the language it was picked for
+  useEffect(() => {
+    if (restoring.current) return;
+    setOptions(({ targetVersion, ...rest }) => rest);
+  }, [targetLanguage]);
+
+  useEffect(() => {
+    restoring.current = false;
+  }, []);
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
       {/* Settings panel */}
@@ -323,6 +407,7 @@ export function CodeConverter() {
                 value={targetLanguage}
                 onChange={setTargetLanguage}
                 excludeValue={sourceLanguage}
+                disabledValues={unsupportedTargets}
               />
             </div>
           </div>
@@ -335,7 +420,7 @@ export function CodeConverter() {
           <Button
             className="w-full py-6 bg-primary hover:bg-primary/90 text-white rounded-lg shadow-md transition-all hover:shadow-lg hover:-translate-y-0.5 flex items-center justify-center"
             onClick={handleConvertCode}
-            disabled={isConverting || isAnimating}
+            disabled={isConverting}
           >
             {isConverting ? (
               <motion.div
@@ -365,6 +450,24 @@ export function CodeConverter() {
         
         <Separator className="my-6" />
         
+        <div>
+          <h3 className="font-semibold mb-3">Output Style</h3>
+          <ConversionOptionsPanel
+            targetLanguage={targetLanguage}
+            value={options}
+            onChange={setOptions}
+          />
+        </div>
+        
+        <Separator className="my-6" />
+        
+        <div>
+          <h3 className="font-semibold mb-3">Program Input</h3>
+          <ProgramInputPanel value={programInput} onChange={setProgramInput} />
+        </div>
+        
+        <Separator className="my-6" />
+        
         <div>
           <h3 className="font-semibold mb-3">Additional Options</h3>
           <div className="space-y-3">
@@ -384,9 +487,9 @@ export function CodeConverter() {
       <div className="lg:col-span-4 space-y-6">
         {/* Code editors */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 relative">
-          {/* Cute mascots loading animation */}
+          {/* Progress of the conversion in flight */}
           <AnimatePresence>
-            {(isAnimating || isConverting) && (
+            {isConverting && (
               <motion.div 
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
@@ -397,6 +500,7 @@ export function CodeConverter() {
                   <CodeLoading
                     isLoading={true}
                     text={`Converting ${getLanguageById(sourceLanguage).displayName} to ${getLanguageById(targetLanguage).displayName}...`}
+                    progress={progress}
                   />
                 </div>
               </motion.div>
@@ -441,6 +545,8 @@ export function CodeConverter() {
                 onChange={setSourceCode}
                 language={getLanguageById(sourceLanguage)}
                 height="300px"
+                markers={sourceMarkers}
+                onMount={onSourceMount}
               />
             </div>
           </motion.div>
@@ -473,23 +579,71 @@ export function CodeConverter() {
                   onClick={executeTargetCode}
                   className="h-8 w-8 rounded-full text-slate-500 hover:text-primary hover:bg-slate-100 dark:hover:bg-slate-700 transition-all"
                   title="Run code"
-                  disabled={!result?.targetCode}
+                  disabled={!result?.targetCode || isRunning}
                 >
                   <Play className="h-4 w-4" />
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={verifyTargetCode}
+                  className="h-8 w-8 rounded-full text-slate-500 hover:text-primary hover:bg-slate-100 dark:hover:bg-slate-700 transition-all"
+                  title="Verify: run both programs and compare their output"
+                  disabled={!result?.targetCode || isVerifying}
+                >
+                  <ShieldCheck className="h-4 w-4" />
+                </Button>
               </div>
             </div>
             <div className="bg-slate-50 dark:bg-slate-900">
               <CodeEditor
-                value={result?.targetCode || "// Converted code will appear here"}
+                value={(isConverting && progress.code) || result?.targetCode || "// Converted code will appear here"}
                 language={getLanguageById(targetLanguage)}
                 readOnly
                 height="300px"
+                markers={targetMarkers}
+                onMount={onTargetMount}
               />
             </div>
           </motion.div>
         </div>
         
+        {/* Diagnostics panel */}
+        <AnimatePresence>
+          {result && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              transition={{ duration: 0.3 }}
+            >
+              <ConversionDiagnostics
+                diagnostics={result.diagnostics}
+                confidence={result.confidence}
+                onSelect={revealDiagnostic}
+              />
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Verification report */}
+        <AnimatePresence>
+          {result?.verification && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              transition={{ duration: 0.3 }}
+            >
+              <VerificationReport
+                report={result.verification}
+                sourceLanguage={getLanguageById(sourceLanguage).displayName}
+                targetLanguage={getLanguageById(targetLanguage).displayName}
+              />
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Explanation panel */}
         <AnimatePresence>
           {result?.explanation && (
@@ -508,14 +662,24 @@ export function CodeConverter() {
         
         {/* Output console */}
         <AnimatePresence>
-          {runOutput && (
+          {(isRunning || runExit || runError) && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: 20 }}
               transition={{ duration: 0.3 }}
             >
-              <OutputConsole output={runOutput} />
+              <OutputConsole
+                language={getLanguageById(targetLanguage).displayName}
+                output={runOutput}
+                exit={runExit}
+                isRunning={isRunning}
+                error={runError}
+                acceptsInput={acceptsInput}
+                onInput={sendInput}
+                onEndInput={endInput}
+                onStop={stopRun}
+              />
             </motion.div>
           )}
         </AnimatePresence>
@@ -1,68 +1,81 @@
 import { motion } from "framer-motion";
+import type { ConversionStage } from "@shared/schema";
+import { Progress } from "@/components/ui/progress";
+import { progressFraction, type ConversionProgress } from "@/lib/conversion-stream";
+import { Check, Circle, Loader2 } from "lucide-react";
+
+const STAGE_LABELS: Record<ConversionStage, string> = {
+  parse: "Parsing the source",
+  transform: "Adapting names for the target",
+  emit: "Writing the converted code",
+  verify: "Running both programs",
+  docs: "Writing the explanation",
+};
 
 export interface CodeLoadingProps {
   isLoading: boolean;
   text?: string;
+  // Reported by the server while it converts; without stages only the spinner is shown
+  progress?: ConversionProgress;
+}
+
+function StageRow({ stage, progress }: { stage: ConversionStage; progress: ConversionProgress }) {
+  const finished = progress.finished.includes(stage);
+  const running = progress.current === stage;
+  const { done, total, name } = progress.declarations;
+
+  return (
+    <li className={`flex items-center gap-2 text-sm ${finished || running ? "" : "text-gray-400 dark:text-gray-500"}`}>
+      {finished ? (
+        <Check className="h-4 w-4 text-green-600" />
+      ) : running ? (
+        <Loader2 className="h-4 w-4 animate-spin text-violet-500" />
+      ) : (
+        <Circle className="h-4 w-4" />
+      )}
+      <span>{STAGE_LABELS[stage]}</span>
+      {stage === "emit" && total > 0 && (
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {done}/{total}{running && name ? ` · ${name}` : ""}
+        </span>
+      )}
+    </li>
+  );
 }
 
-export function CodeLoading({ isLoading, text }: CodeLoadingProps) {
+export function CodeLoading({ isLoading, text, progress }: CodeLoadingProps) {
   if (!isLoading) return null;
-  
+  const streaming = progress !== undefined && progress.stages.length > 0;
+
   return (
     <div className="flex flex-col items-center justify-center p-8 rounded-lg">
-      <motion.div 
+      <motion.div
         initial={{ opacity: 0, scale: 0.8 }}
         animate={{ opacity: 1, scale: 1 }}
         exit={{ opacity: 0, scale: 0.8 }}
         transition={{ duration: 0.5 }}
         className="flex flex-col items-center"
       >
-        {/* Minimalistic loading animation */}
-        <div className="mb-4">
-          <svg 
-            viewBox="0 0 100 100" 
-            fill="none" 
-            xmlns="http://www.w3.org/2000/svg"
-            className="w-16 h-16"
-          >
-            <motion.circle
-              cx="50"
-              cy="50"
-              r="40"
-              stroke="currentColor"
-              strokeWidth="5"
-              strokeLinecap="round"
-              className="text-violet-500"
-              fill="transparent"
-              animate={{ 
-                strokeDasharray: [0, 251],
-                rotate: [0, 360]
-              }}
-              transition={{ 
-                duration: 2,
-                repeat: Infinity,
-                ease: "easeInOut"
-              }}
-            />
-            <motion.path
-              d="M50 30L50 70M30 50L70 50"
-              stroke="currentColor"
-              strokeWidth="5"
-              strokeLinecap="round"
-              className="text-amber-400"
-              animate={{ 
-                rotate: [0, 180, 360],
-                opacity: [1, 0.6, 1]
-              }}
-              transition={{ 
-                duration: 3,
-                repeat: Infinity,
-                ease: "easeInOut"
-              }}
-            />
-          </svg>
-        </div>
-        
+        {streaming ? (
+          <div className="mb-4 w-64 space-y-3">
+            <Progress value={Math.round(progressFraction(progress) * 100)} className="h-2" />
+            <ul className="space-y-1.5">
+              {progress.stages.map((stage) => (
+                <StageRow key={stage} stage={stage} progress={progress} />
+              ))}
+            </ul>
+            {progress.diagnostics.length > 0 && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                {progress.diagnostics.length} issue{progress.diagnostics.length === 1 ? "" : "s"} found so far
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="mb-4">
+            <Loader2 className="w-12 h-12 animate-spin text-violet-500" />
+          </div>
+        )}
+
         <div className="text-center">
           <p className="text-sm text-gray-600 dark:text-gray-300">
             {text || "Converting your code..."}
@@ -71,4 +84,4 @@ export function CodeLoading({ isLoading, text }: CodeLoadingProps) {
       </motion.div>
     </div>
   );
-}
\ No newline at end of file
+}
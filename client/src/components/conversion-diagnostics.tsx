@@ -0,0 +1,70 @@
+import type { ConversionDiagnostic, DiagnosticSeverity } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, AlertTriangle, CheckCircle2, Info, ListChecks } from "lucide-react";
+
+interface ConversionDiagnosticsProps {
+  diagnostics: ConversionDiagnostic[];
+  confidence: number;
+  // Called when a row is clicked, e.g. to reveal the spot in the editors
+  onSelect?: (diagnostic: ConversionDiagnostic) => void;
+}
+
+const SEVERITY_ICONS: Record<DiagnosticSeverity, JSX.Element> = {
+  error: <AlertCircle className="h-4 w-4 text-red-500 shrink-0" />,
+  warning: <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0" />,
+  info: <Info className="h-4 w-4 text-sky-500 shrink-0" />,
+};
+
+// Errors first, then by position in the converted code
+const SEVERITY_ORDER: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export function ConversionDiagnostics({ diagnostics, confidence, onSelect }: ConversionDiagnosticsProps) {
+  const sorted = [...diagnostics].sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      (a.targetRange?.start.line ?? 0) - (b.targetRange?.start.line ?? 0)
+  );
+  const percent = Math.round(confidence * 100);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
+        <h3 className="font-medium flex items-center">
+          <ListChecks className="w-4 h-4 mr-2 text-primary" />
+          Needs Review ({diagnostics.length})
+        </h3>
+        <Badge variant={percent >= 90 ? "secondary" : percent >= 70 ? "outline" : "destructive"}>
+          Confidence {percent}%
+        </Badge>
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="p-4 text-sm text-slate-600 dark:text-slate-400 flex items-center">
+          <CheckCircle2 className="h-4 w-4 mr-2 text-green-500" />
+          Everything was converted without remarks.
+        </div>
+      ) : (
+        <ul className="max-h-64 overflow-auto divide-y divide-slate-200 dark:divide-slate-700">
+          {sorted.map((diagnostic, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                onClick={() => onSelect?.(diagnostic)}
+                className="w-full text-left px-4 py-2 flex items-start gap-3 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors"
+              >
+                {SEVERITY_ICONS[diagnostic.severity]}
+                <span className="flex-1 text-sm">{diagnostic.message}</span>
+                <span className="text-xs text-slate-500 dark:text-slate-400 font-mono whitespace-nowrap">
+                  {diagnostic.sourceRange && `source ${diagnostic.sourceRange.start.line}`}
+                  {diagnostic.sourceRange && diagnostic.targetRange && " → "}
+                  {diagnostic.targetRange && `target ${diagnostic.targetRange.start.line}`}
+                </span>
+                <Badge variant="outline" className="font-mono">{diagnostic.code}</Badge>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
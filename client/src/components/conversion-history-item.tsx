@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import type { CodeConversion } from "@shared/schema";
+import { CodeEditor } from "@/components/ui/code-editor";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { getLanguageById } from "@/lib/supported-languages";
+import { ArrowRight, ChevronDown, ExternalLink, Trash2 } from "lucide-react";
+
+interface ConversionHistoryItemProps {
+  conversion: CodeConversion;
+  onDelete: (id: number) => void;
+  isDeleting?: boolean;
+}
+
+// First non-empty line of the source, as a recognisable title
+function preview(code: string): string {
+  return code.split("\n").find((line) => line.trim())?.trim() ?? "";
+}
+
+export function ConversionHistoryItem({ conversion, onDelete, isDeleting }: ConversionHistoryItemProps) {
+  const [open, setOpen] = useState(false);
+  const source = getLanguageById(conversion.sourceLanguage);
+  const target = getLanguageById(conversion.targetLanguage);
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="bg-white dark:bg-slate-800 rounded-lg shadow border border-slate-200 dark:border-slate-700 overflow-hidden"
+    >
+      <CollapsibleTrigger className="w-full text-left px-4 py-3 flex items-center gap-3 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+        <span className="flex items-center gap-1.5 font-medium whitespace-nowrap">
+          {source.displayName}
+          <ArrowRight className="h-3.5 w-3.5 text-slate-400" />
+          {target.displayName}
+        </span>
+        <span className="flex-1 truncate font-mono text-xs text-slate-500 dark:text-slate-400">
+          {preview(conversion.sourceCode)}
+        </span>
+        {conversion.diagnostics.length > 0 && (
+          <Badge variant="outline">{conversion.diagnostics.length} to review</Badge>
+        )}
+        <span className="text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">
+          {new Date(conversion.createdAt).toLocaleString()}
+        </span>
+        <ChevronDown className={`h-4 w-4 text-slate-400 transition-transform ${open ? "rotate-180" : ""}`} />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="border-t border-slate-200 dark:border-slate-700">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-px bg-slate-200 dark:bg-slate-700">
+          <CodeEditor value={conversion.sourceCode} language={source} readOnly height="240px" />
+          <CodeEditor value={conversion.targetCode} language={target} readOnly height="240px" />
+        </div>
+        <div className="px-4 py-2 flex items-center justify-between gap-3">
+          <span className="text-xs text-slate-500 dark:text-slate-400">
+            {`Skill level ${conversion.skillLevel}`}
+            {conversion.engineVersion && ` · converter ${conversion.engineVersion}`}
+          </span>
+          <div className="flex gap-2">
+            <Button asChild variant="outline" size="sm" className="gap-1.5">
+              <Link href={`/?conversion=${conversion.id}`}>
+                <ExternalLink className="h-3.5 w-3.5" />
+                Open in converter
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDelete(conversion.id)}
+              disabled={isDeleting}
+              className="gap-1.5 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-950/40"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
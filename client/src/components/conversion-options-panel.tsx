@@ -0,0 +1,147 @@
+import { useId } from "react";
+import { TARGET_VERSIONS, type ConversionOptions } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+
+interface ConversionOptionsPanelProps {
+  targetLanguage: string;
+  value: ConversionOptions;
+  onChange: (value: ConversionOptions) => void;
+}
+
+// Select value standing for "leave it to the converter"
+const DEFAULT = "default";
+
+const INDENT_CHOICES: Record<string, ConversionOptions["indent"]> = {
+  "spaces-2": { style: "spaces", width: 2 },
+  "spaces-4": { style: "spaces", width: 4 },
+  "tabs": { style: "tabs", width: 1 },
+};
+
+const NAMING_CHOICES: { value: NonNullable<ConversionOptions["naming"]>; label: string }[] = [
+  { value: "preserve", label: "Keep source names" },
+  { value: "target", label: "Target language style" },
+  { value: "camelCase", label: "camelCase" },
+  { value: "snake_case", label: "snake_case" },
+];
+
+const triggerClassName = "w-full bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600";
+
+export function ConversionOptionsPanel({
+  targetLanguage,
+  value,
+  onChange,
+}: ConversionOptionsPanelProps) {
+  const id = useId();
+  const versions = TARGET_VERSIONS[targetLanguage] ?? [];
+  const hasQuotes = targetLanguage === "javascript" || targetLanguage === "python";
+
+  // Sets one option, dropping it when it goes back to the default
+  const update = <K extends keyof ConversionOptions>(key: K, option: ConversionOptions[K] | undefined) => {
+    const next = { ...value };
+    if (option === undefined) delete next[key];
+    else next[key] = option;
+    onChange(next);
+  };
+
+  const indentValue = Object.entries(INDENT_CHOICES).find(
+    ([, choice]) => choice?.style === value.indent?.style && (choice?.style === "tabs" || choice?.width === value.indent?.width)
+  )?.[0] ?? DEFAULT;
+
+  return (
+    <div className="space-y-3">
+      {versions.length > 0 && (
+        <div className="space-y-1.5">
+          <Label htmlFor={`${id}-version`} className="text-sm">Target Version</Label>
+          <Select
+            value={value.targetVersion ?? DEFAULT}
+            onValueChange={(version) => update("targetVersion", version === DEFAULT ? undefined : version)}
+          >
+            <SelectTrigger id={`${id}-version`} className={triggerClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT}>Latest</SelectItem>
+              {versions.map((version) => (
+                <SelectItem key={version} value={version}>
+                  {version.startsWith("es") ? version.toUpperCase() : version}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Label htmlFor={`${id}-indent`} className="text-sm">Indentation</Label>
+        <Select value={indentValue} onValueChange={(choice) => update("indent", INDENT_CHOICES[choice])}>
+          <SelectTrigger id={`${id}-indent`} className={triggerClassName}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT}>Language default</SelectItem>
+            <SelectItem value="spaces-2">2 spaces</SelectItem>
+            <SelectItem value="spaces-4">4 spaces</SelectItem>
+            <SelectItem value="tabs">Tabs</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor={`${id}-naming`} className="text-sm">Identifier Names</Label>
+        <Select
+          value={value.naming ?? "preserve"}
+          onValueChange={(naming) => update("naming", naming === "preserve" ? undefined : naming as ConversionOptions["naming"])}
+        >
+          <SelectTrigger id={`${id}-naming`} className={triggerClassName}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {NAMING_CHOICES.map((choice) => (
+              <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {hasQuotes && (
+        <div className="space-y-1.5">
+          <Label className="text-sm">Quotes</Label>
+          <RadioGroup
+            value={value.quotes ?? "double"}
+            onValueChange={(quotes) => update("quotes", quotes === "double" ? undefined : "single")}
+            className="flex space-x-4"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="double" id={`${id}-double`} />
+              <Label htmlFor={`${id}-double`} className="font-normal">Double</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="single" id={`${id}-single`} />
+              <Label htmlFor={`${id}-single`} className="font-normal">Single</Label>
+            </div>
+          </RadioGroup>
+        </div>
+      )}
+
+      {targetLanguage === "javascript" && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`${id}-semicolons`} className="text-sm">Semicolons</Label>
+          <Switch
+            id={`${id}-semicolons`}
+            checked={value.semicolons ?? true}
+            onCheckedChange={(semicolons) => update("semicolons", semicolons ? undefined : false)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
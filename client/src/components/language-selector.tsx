@@ -14,6 +14,8 @@ interface LanguageSelectorProps {
   onChange: (value: string) => void;
   label: string;
   excludeValue?: string;
+  // Languages shown but not selectable, e.g. targets without a converter
+  disabledValues?: string[];
 }
 
 export function LanguageSelector({
@@ -21,6 +23,7 @@ export function LanguageSelector({
   onChange,
   label,
   excludeValue,
+  disabledValues = [],
 }: LanguageSelectorProps) {
   const id = useId();
   
@@ -40,8 +43,15 @@ export function LanguageSelector({
         </SelectTrigger>
         <SelectContent>
           {filteredLanguages.map((language) => (
-            <SelectItem key={language.id} value={language.id}>
+            <SelectItem
+              key={language.id}
+              value={language.id}
+              disabled={disabledValues.includes(language.id)}
+            >
               {language.displayName}
+              {disabledValues.includes(language.id) && (
+                <span className="ml-2 text-xs text-slate-400">not supported</span>
+              )}
             </SelectItem>
           ))}
         </SelectContent>
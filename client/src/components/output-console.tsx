@@ -1,30 +1,129 @@
-import { useRef, useEffect } from "react";
+import { useRef, useEffect, useState, type FormEvent, type KeyboardEvent } from "react";
+import type { RunExit } from "@shared/schema";
+import type { ConsoleEntry } from "@/hooks/use-code-conversion";
+import { Button } from "@/components/ui/button";
+import { Square } from "lucide-react";
 
 interface OutputConsoleProps {
-  output: string;
+  language: string;
+  output: ConsoleEntry[];
+  exit: RunExit | null;
+  isRunning: boolean;
+  // Why the run could not start or was cut off, e.g. no interpreter on the server
+  error?: string | null;
+  // Whether the running program still reads typed input
+  acceptsInput?: boolean;
+  onInput?: (line: string) => void;
+  onEndInput?: () => void;
+  onStop?: () => void;
 }
 
-export function OutputConsole({ output }: OutputConsoleProps) {
+const LIMIT_MESSAGES: Record<NonNullable<RunExit["limit"]>, string> = {
+  "cpu": "CPU time limit exceeded",
+  "memory": "memory limit exceeded",
+  "wall-clock": "time limit exceeded",
+  "output": "output limit exceeded",
+};
+
+const ENTRY_CLASSES: Record<ConsoleEntry["stream"], string> = {
+  stdout: "",
+  stderr: "text-red-400",
+  stdin: "text-sky-300",
+};
+
+// Footer line describing how the run ended
+function exitSummary(exit: RunExit): string {
+  const duration = exit.durationMs < 1000 ? `${exit.durationMs} ms` : `${(exit.durationMs / 1000).toFixed(2)} s`;
+  if (exit.limit) return `Stopped after ${duration}: ${LIMIT_MESSAGES[exit.limit]}`;
+  if (exit.stopped) return `Stopped after ${duration}`;
+  return `Exited with code ${exit.exitCode ?? "unknown"} in ${duration}`;
+}
+
+export function OutputConsole({
+  language,
+  output,
+  exit,
+  isRunning,
+  error,
+  acceptsInput,
+  onInput,
+  onEndInput,
+  onStop,
+}: OutputConsoleProps) {
   const consoleRef = useRef<HTMLDivElement>(null);
+  const [line, setLine] = useState("");
 
   // Auto-scroll to bottom when output changes
   useEffect(() => {
     if (consoleRef.current) {
       consoleRef.current.scrollTop = consoleRef.current.scrollHeight;
     }
-  }, [output]);
+  }, [output, isRunning, error]);
+
+  const submitLine = (event: FormEvent) => {
+    event.preventDefault();
+    onInput?.(line);
+    setLine("");
+  };
+
+  // Ctrl+D ends the input, as in a terminal
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.ctrlKey && event.key === "d") {
+      event.preventDefault();
+      if (line) onInput?.(line);
+      setLine("");
+      onEndInput?.();
+    }
+  };
+
+  const failed = exit !== null && (exit.limit !== undefined || exit.stopped || exit.exitCode !== 0);
 
   return (
     <div className="bg-white dark:bg-slate-800 rounded-lg shadow overflow-hidden">
-      <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+      <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
         <h3 className="font-medium">Output Console</h3>
+        {isRunning && onStop && (
+          <Button variant="outline" size="sm" onClick={onStop} className="h-7 gap-1.5" title="Stop the program">
+            <Square className="h-3 w-3 fill-current" />
+            Stop
+          </Button>
+        )}
       </div>
-      <div 
+      <div
         ref={consoleRef}
-        className="p-4 bg-slate-900 text-slate-100 font-mono text-sm h-32 overflow-auto whitespace-pre-wrap"
+        className="p-4 bg-slate-900 text-slate-100 font-mono text-sm min-h-32 max-h-96 overflow-auto whitespace-pre-wrap"
       >
-        {output || "> Ready to execute code..."}
+        {isRunning && output.length === 0 && <div className="text-slate-400">{`> Running ${language} code...`}</div>}
+        {output.map((entry, index) => (
+          <span key={index} className={ENTRY_CLASSES[entry.stream]}>{entry.text}</span>
+        ))}
+        {error && <div className="text-red-400">{`> ${error}`}</div>}
+        {!isRunning && !error && !exit && output.length === 0 && "> Ready to execute code..."}
       </div>
+      {isRunning && acceptsInput && (
+        <form onSubmit={submitLine} className="flex items-center gap-2 px-4 py-2 bg-slate-900 border-t border-slate-700 font-mono text-sm">
+          <span className="text-sky-300">&gt;</span>
+          <input
+            value={line}
+            onChange={(event) => setLine(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type input and press Enter (Ctrl+D to end input)"
+            aria-label="Program input"
+            className="flex-1 bg-transparent text-slate-100 placeholder:text-slate-500 outline-none"
+          />
+        </form>
+      )}
+      {exit && (
+        <div
+          className={`px-4 py-2 border-t font-mono text-xs ${
+            failed
+              ? "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950/40 dark:text-amber-400 dark:border-amber-900"
+              : "bg-slate-50 text-slate-500 border-slate-200 dark:bg-slate-900 dark:text-slate-400 dark:border-slate-700"
+          }`}
+        >
+          {exitSummary(exit)}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,47 @@
+import { useId } from "react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+export interface ProgramInputValue {
+  stdin: string;
+  // Argument line as typed; see parseArguments
+  args: string;
+}
+
+interface ProgramInputPanelProps {
+  value: ProgramInputValue;
+  onChange: (value: ProgramInputValue) => void;
+}
+
+const fieldClassName = "bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 font-mono text-sm";
+
+export function ProgramInputPanel({ value, onChange }: ProgramInputPanelProps) {
+  const id = useId();
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <Label htmlFor={`${id}-stdin`} className="text-sm">Standard Input</Label>
+        <Textarea
+          id={`${id}-stdin`}
+          value={value.stdin}
+          onChange={(event) => onChange({ ...value, stdin: event.target.value })}
+          placeholder="One line per prompt"
+          rows={3}
+          className={fieldClassName}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`${id}-args`} className="text-sm">Arguments</Label>
+        <Input
+          id={`${id}-args`}
+          value={value.args}
+          onChange={(event) => onChange({ ...value, args: event.target.value })}
+          placeholder='e.g. 10 "two words"'
+          className={fieldClassName}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,24 @@
 import { useState } from "react";
 import { useTheme } from "@/contexts/theme-provider";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AuthDialog } from "@/components/auth-dialog";
 import { Link } from "wouter";
-import { Moon, Sun, Menu, Code, Sparkles } from "lucide-react";
+import { Moon, Sun, Menu, Code, Sparkles, History, LogIn, LogOut, Settings, User, BookOpen, FolderArchive } from "lucide-react";
 
 export function SiteHeader() {
   const { theme, toggleTheme } = useTheme();
+  const { user, logoutMutation } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [authOpen, setAuthOpen] = useState(false);
 
   return (
     <header className="sticky top-0 z-50 bg-white dark:bg-slate-800 shadow-md backdrop-blur-sm bg-white/90 dark:bg-slate-800/90">
@@ -40,7 +52,60 @@ export function SiteHeader() {
         </div>
         
         {/* Right side */}
-        <div className="w-10">
+        <div className="flex justify-end items-center min-w-10">
+          <Button asChild variant="ghost" size="sm" className="hidden sm:inline-flex gap-1.5">
+            <Link href="/history">
+              <History className="h-4 w-4" />
+              History
+            </Link>
+          </Button>
+          <Button asChild variant="ghost" size="sm" className="hidden sm:inline-flex gap-1.5">
+            <Link href="/project">
+              <FolderArchive className="h-4 w-4" />
+              Project
+            </Link>
+          </Button>
+          <Button asChild variant="ghost" size="sm" className="hidden sm:inline-flex gap-1.5">
+            <Link href="/docs">
+              <BookOpen className="h-4 w-4" />
+              API
+            </Link>
+          </Button>
+          {user ? (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="hidden sm:inline-flex gap-1.5">
+                  <User className="h-4 w-4" />
+                  {user.username}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Signed in as {user.username}</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href="/history">
+                    <History className="h-4 w-4 mr-2" />
+                    My history
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/settings">
+                    <Settings className="h-4 w-4 mr-2" />
+                    Settings
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => logoutMutation.mutate()}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign out
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ) : (
+            <Button variant="ghost" size="sm" className="hidden sm:inline-flex gap-1.5" onClick={() => setAuthOpen(true)}>
+              <LogIn className="h-4 w-4" />
+              Sign in
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -53,12 +118,68 @@ export function SiteHeader() {
           
           {mobileMenuOpen && (
             <div className="absolute top-full right-0 w-48 mt-2 py-2 bg-white dark:bg-slate-800 rounded-lg shadow-lg z-50 animate-in fade-in slide-in-from-top-5 duration-300">
-              {/* Mobile menu is empty now since we removed Examples link */}
-              <div className="px-4 py-2 text-sm text-slate-400">No menu items</div>
+              <Link
+                href="/history"
+                onClick={() => setMobileMenuOpen(false)}
+                className="flex items-center gap-2 px-4 py-2 text-sm hover:bg-slate-100 dark:hover:bg-slate-700"
+              >
+                <History className="h-4 w-4" />
+                History
+              </Link>
+              <Link
+                href="/project"
+                onClick={() => setMobileMenuOpen(false)}
+                className="flex items-center gap-2 px-4 py-2 text-sm hover:bg-slate-100 dark:hover:bg-slate-700"
+              >
+                <FolderArchive className="h-4 w-4" />
+                Project
+              </Link>
+              <Link
+                href="/docs"
+                onClick={() => setMobileMenuOpen(false)}
+                className="flex items-center gap-2 px-4 py-2 text-sm hover:bg-slate-100 dark:hover:bg-slate-700"
+              >
+                <BookOpen className="h-4 w-4" />
+                API
+              </Link>
+              {user && (
+                <Link
+                  href="/settings"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className="flex items-center gap-2 px-4 py-2 text-sm hover:bg-slate-100 dark:hover:bg-slate-700"
+                >
+                  <Settings className="h-4 w-4" />
+                  Settings
+                </Link>
+              )}
+              {user ? (
+                <button
+                  onClick={() => {
+                    setMobileMenuOpen(false);
+                    logoutMutation.mutate();
+                  }}
+                  className="w-full flex items-center gap-2 px-4 py-2 text-sm hover:bg-slate-100 dark:hover:bg-slate-700"
+                >
+                  <LogOut className="h-4 w-4" />
+                  Sign out {user.username}
+                </button>
+              ) : (
+                <button
+                  onClick={() => {
+                    setMobileMenuOpen(false);
+                    setAuthOpen(true);
+                  }}
+                  className="w-full flex items-center gap-2 px-4 py-2 text-sm hover:bg-slate-100 dark:hover:bg-slate-700"
+                >
+                  <LogIn className="h-4 w-4" />
+                  Sign in
+                </button>
+              )}
             </div>
           )}
         </div>
       </div>
+      <AuthDialog open={authOpen} onOpenChange={setAuthOpen} />
     </header>
   );
 }
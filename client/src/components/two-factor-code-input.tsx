@@ -0,0 +1,93 @@
+import { useState, type FormEvent } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp";
+import { Loader2 } from "lucide-react";
+
+interface TwoFactorCodeInputProps {
+  onSubmit: (code: string) => void;
+  submitLabel: string;
+  isPending?: boolean;
+  // Whether a recovery code may be entered instead, which enrollment does not allow
+  allowRecoveryCode?: boolean;
+}
+
+const CODE_LENGTH = 6;
+
+// Asks for the code from the authenticator app, or optionally a recovery code
+export function TwoFactorCodeInput({
+  onSubmit,
+  submitLabel,
+  isPending,
+  allowRecoveryCode = true,
+}: TwoFactorCodeInputProps) {
+  const [recoveryMode, setRecoveryMode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const complete = recoveryMode ? code.trim().length > 0 : code.length === CODE_LENGTH;
+
+  const submit = (event?: FormEvent) => {
+    event?.preventDefault();
+    if (complete && !isPending) onSubmit(code);
+  };
+
+  const toggleMode = () => {
+    setRecoveryMode(!recoveryMode);
+    setCode("");
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      {recoveryMode ? (
+        <Input
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          aria-label="Recovery code"
+          className="font-mono"
+          autoFocus
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={CODE_LENGTH}
+            pattern={REGEXP_ONLY_DIGITS}
+            value={code}
+            onChange={setCode}
+            onComplete={(value: string) => !isPending && onSubmit(value)}
+            autoComplete="one-time-code"
+            aria-label="Authentication code"
+            autoFocus
+          >
+            <InputOTPGroup>
+              <InputOTPSlot index={0} />
+              <InputOTPSlot index={1} />
+              <InputOTPSlot index={2} />
+            </InputOTPGroup>
+            <InputOTPSeparator />
+            <InputOTPGroup>
+              <InputOTPSlot index={3} />
+              <InputOTPSlot index={4} />
+              <InputOTPSlot index={5} />
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+      <Button type="submit" className="w-full" disabled={!complete || isPending}>
+        {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {submitLabel}
+      </Button>
+      {allowRecoveryCode && (
+        <button
+          type="button"
+          onClick={toggleMode}
+          className="w-full text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+        >
+          {recoveryMode ? "Use the code from your authenticator app" : "Use a recovery code instead"}
+        </button>
+      )}
+    </form>
+  );
+}
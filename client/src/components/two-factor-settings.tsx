@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { PublicUser, TwoFactorSetup } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  invalidateUser,
+  replaceRecoveryCodes,
+  setupTwoFactor,
+} from "@/lib/two-factor";
+import { Copy, Download, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+
+interface TwoFactorSettingsProps {
+  user: PublicUser;
+}
+
+// What the enabled state asks a code for
+type ConfirmAction = "disable" | "replace";
+
+function RecoveryCodeList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Recovery codes copied" });
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "sourcexchange-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-slate-100 dark:bg-slate-900 p-4 font-mono text-sm">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={copy} className="gap-1.5">
+          <Copy className="h-3.5 w-3.5" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={download} className="gap-1.5">
+          <Download className="h-3.5 w-3.5" />
+          Download
+        </Button>
+        <Button size="sm" onClick={onDone} className="ml-auto">
+          I have saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorSettings({ user }: TwoFactorSettingsProps) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirming, setConfirming] = useState<ConfirmAction | null>(null);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: authErrorMessage(error), variant: "destructive" });
+  };
+
+  const start = useMutation({
+    mutationFn: setupTwoFactor,
+    onSuccess: setSetup,
+    onError: onError("Could not start two-factor setup"),
+  });
+
+  const enable = useMutation({
+    mutationFn: enableTwoFactor,
+    onSuccess: (result) => {
+      setSetup(null);
+      setRecoveryCodes(result.recoveryCodes);
+      void invalidateUser();
+      toast({ title: "Two-factor authentication enabled" });
+    },
+    onError: onError("Could not enable two-factor authentication"),
+  });
+
+  const disable = useMutation({
+    mutationFn: disableTwoFactor,
+    onSuccess: () => {
+      setConfirming(null);
+      void invalidateUser();
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: onError("Could not disable two-factor authentication"),
+  });
+
+  const replace = useMutation({
+    mutationFn: replaceRecoveryCodes,
+    onSuccess: (result) => {
+      setConfirming(null);
+      setRecoveryCodes(result.recoveryCodes);
+    },
+    onError: onError("Could not replace recovery codes"),
+  });
+
+  if (recoveryCodes) {
+    return <RecoveryCodeList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Scan this QR code with an authenticator app such as Google Authenticator, 1Password or
+          Authy, then enter the 6-digit code it shows.
+        </p>
+        <div className="flex flex-col items-center gap-2">
+          <img src={setup.qrCode} alt="QR code for your authenticator app" className="w-48 h-48 rounded-md bg-white p-2" />
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Can't scan it? Enter this key instead:
+          </p>
+          <code className="text-sm font-mono break-all text-center">{setup.secret}</code>
+        </div>
+        <div className="max-w-xs mx-auto">
+          <TwoFactorCodeInput
+            submitLabel="Enable"
+            allowRecoveryCode={false}
+            isPending={enable.isPending}
+            onSubmit={(code) => enable.mutate(code)}
+          />
+        </div>
+        <Button variant="ghost" size="sm" className="w-full" onClick={() => setSetup(null)}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  if (!user.twoFactorEnabled) {
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">Off</Badge>
+          <span className="text-sm text-slate-600 dark:text-slate-400">
+            Require a code from your phone as well as your password.
+          </span>
+        </div>
+        <Button onClick={() => start.mutate()} disabled={start.isPending} className="gap-1.5">
+          {start.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+          Enable
+        </Button>
+      </div>
+    );
+  }
+
+  if (confirming) {
+    const isDisabling = confirming === "disable";
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          {isDisabling
+            ? "Enter a code from your authenticator app, or a recovery code, to turn two-factor authentication off."
+            : "Enter a code from your authenticator app, or a recovery code, to replace all of your recovery codes."}
+        </p>
+        <div className="max-w-xs mx-auto">
+          <TwoFactorCodeInput
+            submitLabel={isDisabling ? "Disable" : "Replace codes"}
+            isPending={isDisabling ? disable.isPending : replace.isPending}
+            onSubmit={(code) => (isDisabling ? disable.mutate(code) : replace.mutate(code))}
+          />
+        </div>
+        <Button variant="ghost" size="sm" className="w-full" onClick={() => setConfirming(null)}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4">
+      <div className="flex items-center gap-2">
+        <Badge className="bg-green-600 hover:bg-green-600">On</Badge>
+        <span className="text-sm text-slate-600 dark:text-slate-400">
+          Signing in asks for a code from your authenticator app.
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => setConfirming("replace")} className="gap-1.5">
+          <KeyRound className="h-4 w-4" />
+          New recovery codes
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => setConfirming("disable")}
+          className="gap-1.5 text-red-600 hover:text-red-700"
+        >
+          <ShieldOff className="h-4 w-4" />
+          Disable
+        </Button>
+      </div>
+    </div>
+  );
+}
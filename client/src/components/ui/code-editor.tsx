@@ -9,15 +9,21 @@ interface CodeEditorProps {
   language: SupportedLanguage;
   readOnly?: boolean;
   height?: string;
+  // Problems to underline, e.g. conversion diagnostics
+  markers?: editor.IMarkerData[];
   onMount?: (editor: editor.IStandaloneCodeEditor) => void;
 }
 
+// Marker owner used for every marker set through the `markers` prop
+const MARKER_OWNER = "code-editor";
+
 export function CodeEditor({
   value,
   onChange,
   language,
   readOnly = false,
   height = "300px",
+  markers,
   onMount,
 }: CodeEditorProps) {
   const editorRef = useRef<HTMLDivElement>(null);
@@ -88,6 +94,14 @@ export function CodeEditor({
     }
   }, [value, language.monacoLanguage, readOnly, onChange, onMount]);
 
+  // The editor is re-created when the value changes, so markers are re-applied with it
+  useEffect(() => {
+    const model = monacoEditorRef.current?.getModel();
+    if (model) {
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, markers ?? []);
+    }
+  }, [markers, value, language.monacoLanguage, readOnly, onChange, onMount]);
+
   // Update language when it changes
   useEffect(() => {
     if (monacoEditorRef.current) {
@@ -0,0 +1,69 @@
+import type { RunResult, VerificationMismatch, VerificationReport as Report } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, ShieldCheck, XCircle } from "lucide-react";
+
+interface VerificationReportProps {
+  report: Report;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+const FIELD_LABELS: Record<VerificationMismatch["field"], string> = {
+  stdout: "Standard output",
+  stderr: "Error output",
+  exitCode: "Exit code",
+  limit: "Resource limit",
+};
+
+function runSummary(result: RunResult): string {
+  if (result.limit) return `stopped (${result.limit} limit)`;
+  return `exit ${result.exitCode ?? "unknown"}, ${result.durationMs} ms`;
+}
+
+export function VerificationReport({ report, sourceLanguage, targetLanguage }: VerificationReportProps) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
+        <h3 className="font-medium flex items-center">
+          <ShieldCheck className="w-4 h-4 mr-2 text-primary" />
+          Behavior Verification
+        </h3>
+        <Badge variant={report.passed ? "secondary" : "destructive"}>
+          {report.passed ? "Passed" : "Failed"}
+        </Badge>
+      </div>
+
+      <div className="px-4 py-2 text-xs text-slate-500 dark:text-slate-400 font-mono flex flex-wrap gap-x-6">
+        <span>{`${sourceLanguage}: ${runSummary(report.source)}`}</span>
+        <span>{`${targetLanguage}: ${runSummary(report.target)}`}</span>
+      </div>
+
+      {report.passed ? (
+        <div className="px-4 pb-4 text-sm text-slate-600 dark:text-slate-400 flex items-center">
+          <CheckCircle2 className="h-4 w-4 mr-2 text-green-500" />
+          Both programs produced the same output and exit code.
+        </div>
+      ) : (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700 border-t border-slate-200 dark:border-slate-700">
+          {report.mismatches.map((mismatch) => (
+            <li key={mismatch.field} className="px-4 py-2 text-sm">
+              <div className="flex items-center gap-2 mb-1">
+                <XCircle className="h-4 w-4 text-red-500 shrink-0" />
+                <span className="font-medium">{FIELD_LABELS[mismatch.field]}</span>
+                {mismatch.line !== undefined && (
+                  <span className="text-xs text-slate-500 dark:text-slate-400">line {mismatch.line}</span>
+                )}
+              </div>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 font-mono text-xs">
+                <dt className="text-slate-500 dark:text-slate-400">{sourceLanguage}</dt>
+                <dd className="whitespace-pre-wrap break-all">{mismatch.source}</dd>
+                <dt className="text-slate-500 dark:text-slate-400">{targetLanguage}</dt>
+                <dd className="whitespace-pre-wrap break-all">{mismatch.target}</dd>
+              </dl>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { createContext, useContext } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import type { Credentials, LoginResult, PublicUser, TwoFactorCode } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { invalidateConversions } from "@/lib/conversions";
+import { useToast } from "@/hooks/use-toast";
+
+type AuthContextState = {
+  // null when signed out
+  user: PublicUser | null;
+  isLoading: boolean;
+  // Resolves to { twoFactorRequired: true } when verifyLoginMutation must follow
+  loginMutation: UseMutationResult<LoginResult, Error, Credentials>;
+  verifyLoginMutation: UseMutationResult<PublicUser, Error, TwoFactorCode>;
+  registerMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextState | null>(null);
+
+// apiRequest errors read "<status>: <body>"; show the server's message instead
+export function authErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : "An unknown error occurred";
+  const body = message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.errors?.[0]?.message ?? parsed.message ?? body;
+  } catch {
+    return body;
+  }
+}
+
+// Signing in or out changes whose history is shown
+function setUser(user: PublicUser | null) {
+  queryClient.setQueryData(["/api/me"], user);
+  void invalidateConversions();
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: authErrorMessage(error), variant: "destructive" });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<LoginResult> => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      if (!("twoFactorRequired" in result)) setUser(result);
+    },
+    onError: onError("Sign in failed"),
+  });
+
+  const verifyLoginMutation = useMutation({
+    mutationFn: async (code: TwoFactorCode): Promise<PublicUser> => {
+      const res = await apiRequest("POST", "/api/login/2fa", code);
+      return res.json();
+    },
+    onSuccess: setUser,
+    onError: onError("Sign in failed"),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<PublicUser> => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return res.json();
+    },
+    onSuccess: setUser,
+    onError: onError("Registration failed"),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => setUser(null),
+    onError: onError("Sign out failed"),
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{ user: user ?? null, isLoading, loginMutation, verifyLoginMutation, registerMutation, logoutMutation }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
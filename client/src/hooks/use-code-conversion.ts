@@ -1,21 +1,63 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { convertCode } from "@/lib/github";
-import { ConvertCodeRequest, ConvertCodeResponse } from "@shared/schema";
+import {
+  applyStreamEvent,
+  convertCodeWithProgress,
+  INITIAL_PROGRESS,
+  type ConversionProgress,
+} from "@/lib/conversion-stream";
+import { invalidateConversions } from "@/lib/conversions";
+import {
+  ConvertCodeRequest,
+  ConvertCodeResponse,
+  OutputStream,
+  RunExit,
+  VerifyConversionRequest,
+} from "@shared/schema";
+import {
+  isRunnable,
+  openRunSession,
+  runErrorMessage,
+  type RunSession,
+  verifyConversion,
+  type ProgramInput,
+  type RunnableLanguage,
+} from "@/lib/sandbox";
 import { useToast } from "@/hooks/use-toast";
 
+// A piece of the console: program output, or input the user typed
+export interface ConsoleEntry {
+  stream: OutputStream | "stdin";
+  text: string;
+}
+
+// Appends to the last entry when it is from the same stream, so a long run stays a short list
+function appendEntry(entries: ConsoleEntry[], stream: ConsoleEntry["stream"], text: string): ConsoleEntry[] {
+  const last = entries[entries.length - 1];
+  if (last?.stream === stream) return [...entries.slice(0, -1), { stream, text: last.text + text }];
+  return [...entries, { stream, text }];
+}
+
 export function useCodeConversion() {
   const [result, setResult] = useState<ConvertCodeResponse | null>(null);
-  const [runOutput, setRunOutput] = useState<string>("");
+  const [progress, setProgress] = useState<ConversionProgress>(INITIAL_PROGRESS);
   const { toast } = useToast();
 
   const mutation = useMutation({
-    mutationFn: (request: ConvertCodeRequest) => convertCode(request),
+    mutationFn: (request: ConvertCodeRequest) => {
+      setProgress(INITIAL_PROGRESS);
+      return convertCodeWithProgress(request, (event) => setProgress((current) => applyStreamEvent(current, event)));
+    },
     onSuccess: (data) => {
       setResult(data);
+      // It was saved, so cached history pages are out of date
+      void invalidateConversions();
       toast({
         title: "Code converted successfully",
-        description: "Your code has been converted to the target language.",
+        description:
+          data.converter?.path.kind === "ir"
+            ? `Converted through the shared IR (${data.converter.path.steps.join(" → ")}).`
+            : "Your code has been converted to the target language.",
       });
     },
     onError: (error) => {
@@ -27,41 +69,128 @@ export function useCodeConversion() {
     },
   });
 
-  const runCode = (code: string, language: string) => {
-    // In a real app, this would make an API call to run the code
-    // For this demo, we'll simulate it with a realistic output based on the language
-    
-    const timestamp = new Date().toLocaleTimeString();
-    setRunOutput(`> Running ${language} code...\n`);
-    
-    // Simulate some processing time
-    setTimeout(() => {
-      if (code.includes("fibonacci")) {
-        setRunOutput(prev => 
-          `${prev}Fibonacci sequence: [0, 1, 1, 2, 3, 5, 8, 13, 21, 34]\n` +
-          `> Execution completed in 0.${Math.floor(Math.random() * 900 + 100)}s at ${timestamp}`
-        );
-      } else if (code.includes("print") || code.includes("console.log")) {
-        setRunOutput(prev => 
-          `${prev}Hello, world!\n` +
-          `> Execution completed in 0.${Math.floor(Math.random() * 900 + 100)}s at ${timestamp}`
-        );
-      } else {
-        setRunOutput(prev => 
-          `${prev}> Code executed successfully with no output\n` +
-          `> Execution completed in 0.${Math.floor(Math.random() * 900 + 100)}s at ${timestamp}`
-        );
-      }
-    }, 1500);
+  const session = useRef<RunSession | null>(null);
+  const [runOutput, setRunOutput] = useState<ConsoleEntry[]>([]);
+  const [runExit, setRunExit] = useState<RunExit | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [acceptsInput, setAcceptsInput] = useState(false);
+
+  // A program still running when the page goes away is stopped with its connection
+  useEffect(() => () => session.current?.close(), []);
+
+  const verify = useMutation({
+    mutationFn: (request: VerifyConversionRequest) => verifyConversion(request),
+    onSuccess: (verification, variables) => {
+      // The report belongs to the conversion it checked, which the server saved it on
+      setResult((current) => current && { ...current, verification });
+      if (variables.conversionId !== undefined) void invalidateConversions();
+      toast({
+        title: verification.passed ? "Conversion verified" : "Verification failed",
+        description: verification.passed
+          ? "Both programs printed the same output and exit code."
+          : `${verification.mismatches.length} difference(s) between the original and converted program.`,
+        variant: verification.passed ? "default" : "destructive",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error verifying conversion",
+        description: runErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Toasts and returns false for languages the sandbox cannot run
+  const checkRunnable = (language: string): language is RunnableLanguage => {
+    if (isRunnable(language)) return true;
+    toast({
+      title: "Cannot run this language",
+      description: `Running ${language} code is not supported yet.`,
+      variant: "destructive",
+    });
+    return false;
+  };
+
+  const clearOutput = () => {
+    session.current?.close();
+    session.current = null;
+    setRunOutput([]);
+    setRunExit(null);
+    setRunError(null);
+    setIsRunning(false);
+    setAcceptsInput(false);
+  };
+
+  // Streams the program's output into the console; without stdin up front it reads typed input
+  const runCode = (code: string, language: string, input: ProgramInput = {}) => {
+    if (!checkRunnable(language)) return;
+    clearOutput();
+    setIsRunning(true);
+    setAcceptsInput(input.stdin === undefined);
+    const finish = () => {
+      session.current = null;
+      setIsRunning(false);
+      setAcceptsInput(false);
+    };
+    session.current = openRunSession({ code, language, ...input }, {
+      onOutput: (stream, text) => setRunOutput((entries) => appendEntry(entries, stream, text)),
+      onExit: (exit) => {
+        finish();
+        setRunExit(exit);
+      },
+      onError: (message) => {
+        finish();
+        setRunError(message);
+      },
+    });
+  };
+
+  // Sends a line to the running program and echoes it in the console
+  const sendInput = (line: string) => {
+    session.current?.write(`${line}\n`);
+    setRunOutput((entries) => appendEntry(entries, "stdin", `${line}\n`));
+  };
+
+  const endInput = () => {
+    session.current?.end();
+    setAcceptsInput(false);
+  };
+
+  const stopRun = () => session.current?.stop();
+
+  // Runs the conversion's source and target with the same input and attaches the report to the result
+  const verifyCode = (
+    sourceCode: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    input: ProgramInput = {}
+  ) => {
+    if (!result || !checkRunnable(sourceLanguage) || !checkRunnable(targetLanguage)) return;
+    // The saved conversion only takes the report while the source is still the one converted
+    const conversionId = sourceCode === mutation.variables?.sourceCode ? result.conversionId : undefined;
+    verify.mutate({ sourceCode, sourceLanguage, targetCode: result.targetCode, targetLanguage, conversionId, ...input });
   };
 
   return {
     convert: mutation.mutate,
     isConverting: mutation.isPending,
+    // Stages, code and diagnostics of the conversion in flight, as the server streams them
+    progress,
     result,
     error: mutation.error,
     runCode,
+    isRunning,
+    acceptsInput,
     runOutput,
-    clearOutput: () => setRunOutput(""),
+    runExit,
+    runError,
+    sendInput,
+    endInput,
+    stopRun,
+    clearOutput,
+    verifyCode,
+    isVerifying: verify.isPending,
   };
 }
@@ -0,0 +1,65 @@
+import { useCallback, useMemo, useRef } from "react";
+import type { editor } from "monaco-editor";
+import type { SourceMap } from "@shared/schema";
+import { lineSpans, spansForSourceLine, type LineSpan } from "@/lib/source-map";
+import { toMonacoRange } from "@/lib/diagnostics";
+
+const LINE_HIGHLIGHT: editor.IModelDecorationOptions = { isWholeLine: true, className: "linked-highlight" };
+const SPAN_HIGHLIGHT: editor.IModelDecorationOptions = { className: "linked-highlight" };
+
+/**
+ * Links the cursor of the source and target editors through a conversion's
+ * source map: the cursor line in one editor lights up the code it maps to in
+ * the other. `sourceInSync` must be false once the source has been edited
+ * since the conversion, as the map no longer describes it.
+ */
+export function useLinkedHighlighting(sourceMap: SourceMap | undefined, sourceInSync: boolean) {
+  const spans = useMemo(() => (sourceMap ? lineSpans(sourceMap) : []), [sourceMap]);
+
+  // Read through a ref so the mount callbacks stay stable; new callbacks would re-create the editors
+  const state = useRef<{ spans: LineSpan[]; sourceInSync: boolean }>({ spans, sourceInSync });
+  state.current = { spans, sourceInSync };
+
+  const sourceEditor = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const targetEditor = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const sourceDecorations = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const targetDecorations = useRef<editor.IEditorDecorationsCollection | null>(null);
+
+  const highlight = useCallback((matches: LineSpan[]) => {
+    const { sourceInSync } = state.current;
+    targetDecorations.current?.set(
+      matches.map(({ targetLine }) => ({
+        range: { startLineNumber: targetLine, startColumn: 1, endLineNumber: targetLine, endColumn: 1 },
+        options: LINE_HIGHLIGHT,
+      }))
+    );
+    sourceDecorations.current?.set(
+      sourceInSync && matches.length > 0 ? [{ range: toMonacoRange(matches[0].source), options: SPAN_HIGHLIGHT }] : []
+    );
+  }, []);
+
+  const onSourceMount = useCallback(
+    (instance: editor.IStandaloneCodeEditor) => {
+      sourceEditor.current = instance;
+      sourceDecorations.current = instance.createDecorationsCollection();
+      instance.onDidChangeCursorPosition(({ position }) => {
+        const { spans, sourceInSync } = state.current;
+        highlight(sourceInSync ? spansForSourceLine(spans, position.lineNumber) : []);
+      });
+    },
+    [highlight]
+  );
+
+  const onTargetMount = useCallback(
+    (instance: editor.IStandaloneCodeEditor) => {
+      targetEditor.current = instance;
+      targetDecorations.current = instance.createDecorationsCollection();
+      instance.onDidChangeCursorPosition(({ position }) => {
+        highlight(state.current.spans.filter(({ targetLine }) => targetLine === position.lineNumber));
+      });
+    },
+    [highlight]
+  );
+
+  return { sourceEditor, targetEditor, onSourceMount, onTargetMount };
+}
@@ -0,0 +1,18 @@
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CreatedApiToken } from "@shared/schema";
+
+// Query key of the signed-in user's tokens; it doubles as the URL the default query function fetches
+export const API_TOKENS_URL = "/api/tokens";
+
+export async function createApiToken(name: string): Promise<CreatedApiToken> {
+  const res = await apiRequest("POST", API_TOKENS_URL, { name });
+  return res.json();
+}
+
+export async function revokeApiToken(id: number): Promise<void> {
+  await apiRequest("DELETE", `${API_TOKENS_URL}/${id}`);
+}
+
+export function invalidateApiTokens(): Promise<void> {
+  return queryClient.invalidateQueries({ queryKey: [API_TOKENS_URL] });
+}
@@ -0,0 +1,109 @@
+import {
+  CONVERT_STREAM_PATH,
+  type ConversionDiagnostic,
+  type ConversionStage,
+  type ConvertCodeRequest,
+  type ConvertCodeResponse,
+  type ConvertStreamEvent,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+const EVENT_TYPES: ConvertStreamEvent["type"][] = ["start", "stage", "partial", "diagnostic", "result", "failure"];
+
+/** How far a streamed conversion has got. */
+export interface ConversionProgress {
+  // Every stage the conversion runs, in order; empty until the stream starts
+  stages: ConversionStage[];
+  finished: ConversionStage[];
+  current?: ConversionStage;
+  // Top-level declarations emitted so far, and how many there are
+  declarations: { done: number; total: number; name?: string };
+  // The target code emitted so far
+  code: string;
+  diagnostics: ConversionDiagnostic[];
+}
+
+export const INITIAL_PROGRESS: ConversionProgress = {
+  stages: [],
+  finished: [],
+  declarations: { done: 0, total: 0 },
+  code: "",
+  diagnostics: [],
+};
+
+export function applyStreamEvent(progress: ConversionProgress, event: ConvertStreamEvent): ConversionProgress {
+  switch (event.type) {
+    case "start":
+      return { ...INITIAL_PROGRESS, stages: event.stages };
+    case "stage":
+      return event.status === "started"
+        ? { ...progress, current: event.stage }
+        : { ...progress, current: undefined, finished: [...progress.finished, event.stage] };
+    case "partial":
+      return {
+        ...progress,
+        declarations: { done: event.index, total: event.total, name: event.name },
+        code: progress.code + event.code,
+      };
+    case "diagnostic":
+      return { ...progress, diagnostics: [...progress.diagnostics, event.diagnostic] };
+    default:
+      return progress;
+  }
+}
+
+/** Share of the conversion done, from 0 to 1; the emit stage advances with each declaration. */
+export function progressFraction(progress: ConversionProgress): number {
+  if (progress.stages.length === 0) return 0;
+  const { done, total } = progress.declarations;
+  const emitting = progress.current === "emit" && total > 0 ? done / total : 0;
+  return (progress.finished.length + emitting) / progress.stages.length;
+}
+
+// The event of one Server-Sent Events message, or undefined for a comment or an event of another kind
+function parseMessage(message: string): ConvertStreamEvent | undefined {
+  const data = message
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice("data:".length).replace(/^ /, ""))
+    .join("\n");
+  if (!data) return undefined;
+  const event: ConvertStreamEvent = JSON.parse(data);
+  return EVENT_TYPES.includes(event.type) ? event : undefined;
+}
+
+/**
+ * Converts through POST /api/convert/stream, passing each event to `onEvent`,
+ * and resolves to the saved conversion. The request goes in the body, so code
+ * of any length streams. Failures, whether refused before the stream opens or
+ * sent as its "failure" event, are thrown as "status: body", like apiRequest.
+ */
+export async function convertCodeWithProgress(
+  request: ConvertCodeRequest,
+  onEvent: (event: ConvertStreamEvent) => void
+): Promise<ConvertCodeResponse> {
+  const response = await apiRequest("POST", CONVERT_STREAM_PATH, request);
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) throw new Error("The connection to the server was lost");
+      buffered += value;
+
+      // A blank line ends each message
+      let end: number;
+      while ((end = buffered.indexOf("\n\n")) !== -1) {
+        const event = parseMessage(buffered.slice(0, end));
+        buffered = buffered.slice(end + 2);
+        if (!event) continue;
+        onEvent(event);
+        if (event.type === "result") return event.result;
+        if (event.type === "failure") throw new Error(`${event.status}: ${JSON.stringify(event.error)}`);
+      }
+    }
+  } finally {
+    void reader.cancel();
+  }
+}
@@ -0,0 +1,52 @@
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ListConversionsQuery } from "@shared/schema";
+
+// Query key of a page of history; it doubles as the URL the default query function fetches
+export function conversionsUrl(query: Partial<ListConversionsQuery>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    params.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+  const search = params.toString();
+  return search ? `/api/conversions?${search}` : "/api/conversions";
+}
+
+// Refetches every cached history page and saved conversion
+export function invalidateConversions(): Promise<void> {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/conversions"),
+  });
+}
+
+export async function deleteConversion(id: number): Promise<void> {
+  await apiRequest("DELETE", `/api/conversions/${id}`);
+}
+
+export type DateRange = "any" | "today" | "yesterday" | "week" | "month";
+
+export const DATE_RANGE_LABELS: Record<DateRange, string> = {
+  any: "Any time",
+  today: "Today",
+  yesterday: "Yesterday",
+  week: "Last 7 days",
+  month: "Last 30 days",
+};
+
+// Bounds of a range in local days, as the from/to filters of the history
+export function dateRangeBounds(range: DateRange, now = new Date()): Pick<ListConversionsQuery, "from" | "to"> {
+  const startOfDay = (daysAgo: number) =>
+    new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysAgo);
+  switch (range) {
+    case "any":
+      return {};
+    case "today":
+      return { from: startOfDay(0) };
+    case "yesterday":
+      return { from: startOfDay(1), to: startOfDay(0) };
+    case "week":
+      return { from: startOfDay(6) };
+    case "month":
+      return { from: startOfDay(29) };
+  }
+}
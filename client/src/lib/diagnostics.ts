@@ -0,0 +1,36 @@
+import * as monaco from "monaco-editor";
+import type { ConversionDiagnostic, DiagnosticSeverity, SourceRange } from "@shared/schema";
+
+const MARKER_SEVERITY: Record<DiagnosticSeverity, monaco.MarkerSeverity> = {
+  error: monaco.MarkerSeverity.Error,
+  warning: monaco.MarkerSeverity.Warning,
+  info: monaco.MarkerSeverity.Info,
+};
+
+// Diagnostic ranges use 0-based columns; Monaco counts columns from 1
+export function toMonacoRange(range: SourceRange): monaco.IRange {
+  return {
+    startLineNumber: range.start.line,
+    startColumn: range.start.column + 1,
+    endLineNumber: range.end.line,
+    endColumn: range.end.column + 1,
+  };
+}
+
+/** Editor markers for the diagnostics that have a range on the given side. */
+export function diagnosticMarkers(
+  diagnostics: ConversionDiagnostic[],
+  side: "sourceRange" | "targetRange"
+): monaco.editor.IMarkerData[] {
+  return diagnostics.flatMap((diagnostic) => {
+    const range = diagnostic[side];
+    if (!range) return [];
+    return [{
+      ...toMonacoRange(range),
+      severity: MARKER_SEVERITY[diagnostic.severity],
+      code: diagnostic.code,
+      message: diagnostic.message,
+      source: "converter",
+    }];
+  });
+}
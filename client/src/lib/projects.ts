@@ -0,0 +1,80 @@
+import type { JobStatus, PublicJob } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export const JOBS_URL = "/api/jobs";
+
+// Archive types the upload accepts, as `accept` for a file input
+export const PROJECT_ARCHIVE_ACCEPT = ".zip,.tar,.tar.gz,.tgz";
+
+// How often a queued or running job is checked on
+const JOB_POLL_MS = 1000;
+
+export interface ConvertedProject {
+  archive: Blob;
+  filename: string;
+}
+
+/** Thrown by convertProject when its job is cancelled. */
+export class JobCancelledError extends Error {
+  constructor() {
+    super("The conversion was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+export function isJobUnfinished(status: JobStatus): boolean {
+  return status === "queued" || status === "running";
+}
+
+/**
+ * Uploads a zip or tarball as a background job, passing the job to `onJob`
+ * each time it is checked on, and resolves to the converted project's
+ * archive once the job succeeds. Errors are thrown as "status: body", like
+ * apiRequest.
+ */
+export async function convertProject(
+  file: File,
+  targetLanguage: string,
+  onJob?: (job: PublicJob) => void
+): Promise<ConvertedProject> {
+  const res = await fetch(`${JOBS_URL}?${new URLSearchParams({ targetLanguage })}`, {
+    method: "POST",
+    // The server tells the format from the bytes, so an unknown type is sent as plain binary
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  let job: PublicJob = await res.json();
+  onJob?.(job);
+  while (isJobUnfinished(job.status)) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_MS));
+    job = await (await apiRequest("GET", `${JOBS_URL}/${job.id}`)).json();
+    onJob?.(job);
+  }
+  if (job.status === "cancelled") throw new JobCancelledError();
+  if (job.failure) throw new Error(`${job.failure.status}: ${JSON.stringify(job.failure.error)}`);
+
+  const download = await apiRequest("GET", job.archiveUrl!);
+  const disposition = download.headers.get("Content-Disposition") ?? "";
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `project-${targetLanguage}.zip`;
+  return { archive: await download.blob(), filename };
+}
+
+/** Cancels a queued or running job; convertProject then throws JobCancelledError. */
+export async function cancelJob(id: string): Promise<void> {
+  await apiRequest("DELETE", `${JOBS_URL}/${id}`);
+}
+
+export function downloadProject({ archive, filename }: ConvertedProject): void {
+  const url = URL.createObjectURL(archive);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
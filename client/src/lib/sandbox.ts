@@ -0,0 +1,105 @@
+import { apiRequest } from "@/lib/queryClient";
+import {
+  RUN_SOCKET_PATH,
+  RUNNABLE_LANGUAGES,
+  type OutputStream,
+  type RunCodeRequest,
+  type RunExit,
+  type RunSocketClientMessage,
+  type RunSocketServerMessage,
+  type VerificationReport,
+  type VerifyConversionRequest,
+} from "@shared/schema";
+
+export type RunnableLanguage = RunCodeRequest["language"];
+
+// What a program is started with, shared by Run and Verify
+export type ProgramInput = Pick<RunCodeRequest, "stdin" | "args">;
+
+export function isRunnable(language: string): language is RunnableLanguage {
+  return (RUNNABLE_LANGUAGES as readonly string[]).includes(language);
+}
+
+export interface RunSessionHandlers {
+  onOutput: (stream: OutputStream, text: string) => void;
+  onExit: (exit: RunExit) => void;
+  // The program could not be started or the connection was lost
+  onError: (message: string) => void;
+}
+
+/** A program running on the server over the run socket. */
+export interface RunSession {
+  write: (text: string) => void;
+  // Closes the program's stdin
+  end: () => void;
+  stop: () => void;
+  // Drops the connection, which also stops the program
+  close: () => void;
+}
+
+/**
+ * Starts a program over the run socket. Output arrives through `handlers` as
+ * the program writes it; exactly one of onExit and onError is called last.
+ */
+export function openRunSession(request: RunCodeRequest, handlers: RunSessionHandlers): RunSession {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const socket = new WebSocket(`${protocol}//${window.location.host}${RUN_SOCKET_PATH}`);
+  let settled = false;
+  // Messages sent before the connection opens are held until it does
+  const outbox: RunSocketClientMessage[] = [{ type: "start", ...request }];
+  const send = (message: RunSocketClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    else if (socket.readyState === WebSocket.CONNECTING) outbox.push(message);
+  };
+
+  socket.onopen = () => {
+    for (const message of outbox.splice(0)) socket.send(JSON.stringify(message));
+  };
+  socket.onmessage = (event) => {
+    const message: RunSocketServerMessage = JSON.parse(event.data);
+    if (message.type === "output") {
+      handlers.onOutput(message.stream, message.text);
+    } else if (!settled) {
+      settled = true;
+      if (message.type === "exit") handlers.onExit(message.exit);
+      else handlers.onError(message.message);
+    }
+  };
+  socket.onclose = () => {
+    if (settled) return;
+    settled = true;
+    handlers.onError("The connection to the sandbox was lost");
+  };
+
+  return {
+    write: (text) => send({ type: "stdin", text }),
+    end: () => send({ type: "eof" }),
+    stop: () => send({ type: "stop" }),
+    close: () => {
+      settled = true;
+      socket.close();
+    },
+  };
+}
+
+export async function verifyConversion(request: VerifyConversionRequest): Promise<VerificationReport> {
+  const response = await apiRequest("POST", "/api/verify", request);
+  return await response.json();
+}
+
+// Splits an argument line on whitespace, keeping quoted arguments together
+export function parseArguments(line: string): string[] {
+  return Array.from(line.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g), (match) => match[1] ?? match[2] ?? match[3]);
+}
+
+// apiRequest errors read "<status>: <body>"; the body's own message is more useful
+export function runErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : "An unknown error occurred";
+  const body = message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.error ?? parsed.message ?? body;
+  } catch {
+    return body;
+  }
+}
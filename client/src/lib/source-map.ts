@@ -0,0 +1,48 @@
+import { TraceMap, eachMapping } from "@jridgewell/trace-mapping";
+import type { SourceMap, SourceRange } from "@shared/schema";
+
+/** The source span one line of converted code was produced from. */
+export interface LineSpan {
+  targetLine: number;
+  source: SourceRange;
+}
+
+type Position = SourceRange["start"];
+
+function isBefore(a: Position, b: Position): boolean {
+  return a.line < b.line || (a.line === b.line && a.column < b.column);
+}
+
+/**
+ * Reads a converter source map into one span per target line. Converters map
+ * the start and end of every line, so the extremes of a line's segments
+ * cover the originating statement.
+ */
+export function lineSpans(sourceMap: SourceMap): LineSpan[] {
+  const spans = new Map<number, SourceRange>();
+
+  eachMapping(new TraceMap(sourceMap), (mapping) => {
+    if (mapping.originalLine === null) return;
+    const position = { line: mapping.originalLine, column: mapping.originalColumn };
+    const span = spans.get(mapping.generatedLine);
+    if (!span) {
+      spans.set(mapping.generatedLine, { start: position, end: position });
+    } else if (isBefore(position, span.start)) {
+      span.start = position;
+    } else if (isBefore(span.end, position)) {
+      span.end = position;
+    }
+  });
+
+  return Array.from(spans, ([targetLine, source]) => ({ targetLine, source }));
+}
+
+/** Target lines produced from the innermost source spans containing `sourceLine`. */
+export function spansForSourceLine(spans: LineSpan[], sourceLine: number): LineSpan[] {
+  const containing = spans.filter(({ source }) => source.start.line <= sourceLine && sourceLine <= source.end.line);
+  if (containing.length === 0) return [];
+
+  const height = ({ source }: LineSpan) => source.end.line - source.start.line;
+  const smallest = Math.min(...containing.map(height));
+  return containing.filter((span) => height(span) === smallest);
+}
@@ -0,0 +1,28 @@
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PublicUser, RecoveryCodes, TwoFactorSetup } from "@shared/schema";
+
+// Starts an enrollment; the returned secret only takes effect once enableTwoFactor confirms it
+export async function setupTwoFactor(): Promise<TwoFactorSetup> {
+  const res = await apiRequest("POST", "/api/2fa/setup");
+  return res.json();
+}
+
+export async function enableTwoFactor(code: string): Promise<RecoveryCodes> {
+  const res = await apiRequest("POST", "/api/2fa/enable", { code });
+  return res.json();
+}
+
+export async function disableTwoFactor(code: string): Promise<PublicUser> {
+  const res = await apiRequest("POST", "/api/2fa/disable", { code });
+  return res.json();
+}
+
+export async function replaceRecoveryCodes(code: string): Promise<RecoveryCodes> {
+  const res = await apiRequest("POST", "/api/2fa/recovery-codes", { code });
+  return res.json();
+}
+
+// Refetches the signed-in user, whose twoFactorEnabled flag just changed
+export function invalidateUser(): Promise<void> {
+  return queryClient.invalidateQueries({ queryKey: ["/api/me"] });
+}
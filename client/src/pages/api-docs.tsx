@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { OPENAPI_PATH } from "@shared/schema";
+import { SiteHeader } from "@/components/site-header";
+import { SiteFooter } from "@/components/site-footer";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { BookOpen, ChevronDown, FileJson } from "lucide-react";
+
+// The parts of an OpenAPI 3 document this page renders
+interface JsonSchema {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  enum?: unknown[];
+  nullable?: boolean;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+}
+
+interface Parameter {
+  name: string;
+  in: string;
+  required: boolean;
+  schema: JsonSchema;
+}
+
+interface Content {
+  content?: Record<string, { schema: JsonSchema }>;
+}
+
+interface Operation {
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: Parameter[];
+  requestBody?: Content;
+  responses: Record<string, Content & { description: string }>;
+}
+
+interface OpenApiDocument {
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const METHOD_CLASSES: Record<string, string> = {
+  get: "bg-sky-600 hover:bg-sky-600",
+  post: "bg-green-600 hover:bg-green-600",
+  delete: "bg-red-600 hover:bg-red-600",
+};
+
+// Nested objects deeper than this are only named, to keep the page readable
+const MAX_DEPTH = 4;
+
+function refName(ref: string): string {
+  return ref.split("/").pop() ?? ref;
+}
+
+// One-line description of a schema's type, e.g. "string[]" or "integer, nullable"
+function typeLabel(schema: JsonSchema): string {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.anyOf) return schema.anyOf.map(typeLabel).join(" | ");
+  let label = schema.type === "array" && schema.items ? `${typeLabel(schema.items)}[]` : schema.type ?? "any";
+  if (schema.format) label += ` (${schema.format})`;
+  if (schema.nullable) label += ", nullable";
+  return label;
+}
+
+function constraints(schema: JsonSchema): string[] {
+  const notes: string[] = [];
+  if (schema.enum) notes.push(`one of ${schema.enum.map((value) => JSON.stringify(value)).join(", ")}`);
+  if (schema.minimum !== undefined) notes.push(`min ${schema.minimum}`);
+  if (schema.maximum !== undefined) notes.push(`max ${schema.maximum}`);
+  if (schema.default !== undefined) notes.push(`default ${JSON.stringify(schema.default)}`);
+  return notes;
+}
+
+function SchemaView({ schema, schemas, depth = 0 }: {
+  schema: JsonSchema;
+  schemas: Record<string, JsonSchema>;
+  depth?: number;
+}) {
+  const resolved = schema.$ref ? schemas[refName(schema.$ref)] ?? schema : schema;
+  const target = resolved.type === "array" && resolved.items ? resolved.items : resolved;
+  const object = target.$ref ? schemas[refName(target.$ref)] ?? target : target;
+
+  if (!object.properties || depth >= MAX_DEPTH) {
+    return <span className="font-mono text-xs text-slate-500 dark:text-slate-400">{typeLabel(resolved)}</span>;
+  }
+
+  return (
+    <ul className={depth > 0 ? "mt-1 ml-4 border-l border-slate-200 dark:border-slate-700 pl-3 space-y-1" : "space-y-1"}>
+      {Object.entries(object.properties).map(([name, property]) => (
+        <li key={name} className="text-sm">
+          <span className="font-mono font-medium">{name}</span>
+          {!object.required?.includes(name) && <span className="text-slate-400">?</span>}
+          <span className="ml-2 font-mono text-xs text-slate-500 dark:text-slate-400">{typeLabel(property)}</span>
+          {constraints(property).length > 0 && (
+            <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">{constraints(property).join("; ")}</span>
+          )}
+          {(property.properties || property.items?.properties || property.$ref) && (
+            <SchemaView schema={property} schemas={schemas} depth={depth + 1} />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function OperationView({ method, path, operation, schemas }: {
+  method: string;
+  path: string;
+  operation: Operation;
+  schemas: Record<string, JsonSchema>;
+}) {
+  const [open, setOpen] = useState(false);
+  const requestSchema = operation.requestBody?.content?.["application/json"]?.schema;
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="bg-white dark:bg-slate-800 rounded-lg shadow border border-slate-200 dark:border-slate-700 overflow-hidden"
+    >
+      <CollapsibleTrigger className="w-full text-left px-4 py-3 flex items-center gap-3 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+        <Badge className={`w-16 justify-center uppercase ${METHOD_CLASSES[method] ?? ""}`}>{method}</Badge>
+        <span className="font-mono text-sm">{path}</span>
+        <span className="flex-1 truncate text-sm text-slate-500 dark:text-slate-400">{operation.summary}</span>
+        <ChevronDown className={`h-4 w-4 text-slate-400 transition-transform ${open ? "rotate-180" : ""}`} />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="border-t border-slate-200 dark:border-slate-700 px-4 py-3 space-y-4">
+        {operation.description && <p className="text-sm">{operation.description}</p>}
+
+        {operation.parameters && operation.parameters.length > 0 && (
+          <section>
+            <h4 className="text-sm font-semibold mb-1">Parameters</h4>
+            <ul className="space-y-1">
+              {operation.parameters.map((parameter) => (
+                <li key={parameter.name} className="text-sm">
+                  <span className="font-mono font-medium">{parameter.name}</span>
+                  {!parameter.required && <span className="text-slate-400">?</span>}
+                  <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">
+                    {`${parameter.in} · ${[typeLabel(parameter.schema), ...constraints(parameter.schema)].join("; ")}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {requestSchema && (
+          <section>
+            <h4 className="text-sm font-semibold mb-1">
+              Request body <span className="font-normal text-slate-500">{typeLabel(requestSchema)}</span>
+            </h4>
+            <SchemaView schema={requestSchema} schemas={schemas} />
+          </section>
+        )}
+
+        <section>
+          <h4 className="text-sm font-semibold mb-1">Responses</h4>
+          <ul className="space-y-2">
+            {Object.entries(operation.responses).map(([status, response]) => {
+              const schema = response.content?.["application/json"]?.schema;
+              return (
+                <li key={status} className="text-sm">
+                  <span className="font-mono font-medium">{status}</span>
+                  <span className="ml-2">{response.description}</span>
+                  {schema && status.startsWith("2") && (
+                    <div className="mt-1 ml-4">
+                      <SchemaView schema={schema} schemas={schemas} />
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export default function ApiDocs() {
+  const { data: document, isLoading } = useQuery<OpenApiDocument>({ queryKey: [OPENAPI_PATH] });
+
+  // Operations grouped by their first tag, in document order
+  const groups = new Map<string, { method: string; path: string; operation: Operation }[]>();
+  for (const [path, methods] of Object.entries(document?.paths ?? {})) {
+    for (const [method, operation] of Object.entries(methods)) {
+      const tag = operation.tags[0] ?? "Other";
+      groups.set(tag, [...(groups.get(tag) ?? []), { method, path, operation }]);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900 dark:bg-slate-900 dark:text-slate-50">
+      <SiteHeader />
+
+      <main className="container mx-auto px-4 py-6 flex-grow space-y-6 max-w-4xl">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h1 className="text-2xl font-semibold flex items-center">
+            <BookOpen className="w-5 h-5 mr-2 text-primary" />
+            API Documentation
+          </h1>
+          <a
+            href={OPENAPI_PATH}
+            target="_blank"
+            rel="noreferrer"
+            className="flex items-center gap-1.5 text-sm text-primary underline-offset-4 hover:underline"
+          >
+            <FileJson className="h-4 w-4" />
+            OpenAPI 3 document
+          </a>
+        </div>
+
+        {isLoading || !document ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }, (_, index) => <Skeleton key={index} className="h-12 w-full" />)}
+          </div>
+        ) : (
+          <>
+            <p className="text-slate-600 dark:text-slate-400">{document.info.description}</p>
+            <pre className="rounded-lg bg-slate-900 text-slate-100 p-4 text-sm overflow-x-auto">
+              {`curl -X POST ${window.location.origin}/api/convert \\
+  -H "Authorization: Bearer $SOURCEXCHANGE_TOKEN" \\
+  -H "Content-Type: application/json" \\
+  -d '{"sourceCode": "print(1)", "sourceLanguage": "python", "targetLanguage": "javascript", "skillLevel": "beginner"}'`}
+            </pre>
+            {Array.from(groups, ([tag, operations]) => (
+              <section key={tag} className="space-y-3">
+                <h2 className="text-lg font-semibold">{tag}</h2>
+                {operations.map(({ method, path, operation }) => (
+                  <OperationView
+                    key={`${method} ${path}`}
+                    method={method}
+                    path={path}
+                    operation={operation}
+                    schemas={document.components.schemas}
+                  />
+                ))}
+              </section>
+            ))}
+          </>
+        )}
+      </main>
+
+      <SiteFooter />
+    </div>
+  );
+}
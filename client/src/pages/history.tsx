@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { ConversionPage } from "@shared/schema";
+import { SiteHeader } from "@/components/site-header";
+import { SiteFooter } from "@/components/site-footer";
+import { ConversionHistoryItem } from "@/components/conversion-history-item";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supportedLanguages } from "@/lib/supported-languages";
+import {
+  conversionsUrl,
+  DATE_RANGE_LABELS,
+  dateRangeBounds,
+  deleteConversion,
+  invalidateConversions,
+  type DateRange,
+} from "@/lib/conversions";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { History as HistoryIcon } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+// Select value for "no filter"
+const ANY = "any";
+
+const triggerClassName = "w-44 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700";
+
+export default function History() {
+  const [sourceLanguage, setSourceLanguage] = useState(ANY);
+  const [targetLanguage, setTargetLanguage] = useState(ANY);
+  const [range, setRange] = useState<DateRange>("any");
+  const [page, setPage] = useState(1);
+  const { toast } = useToast();
+  const { user, isLoading: isLoadingUser } = useAuth();
+
+  const url = conversionsUrl({
+    page,
+    pageSize: PAGE_SIZE,
+    sourceLanguage: sourceLanguage === ANY ? undefined : sourceLanguage,
+    targetLanguage: targetLanguage === ANY ? undefined : targetLanguage,
+    ...dateRangeBounds(range),
+  });
+  // Only signed-in users have a history
+  const { data, isLoading } = useQuery<ConversionPage>({ queryKey: [url], enabled: user !== null });
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  // Deleting the last conversion on the last page leaves nothing to show there
+  useEffect(() => {
+    if (page > pageCount) setPage(pageCount);
+  }, [page, pageCount]);
+
+  const remove = useMutation({
+    mutationFn: deleteConversion,
+    onSuccess: () => {
+      void invalidateConversions();
+      toast({ title: "Conversion deleted" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error deleting conversion",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Changing a filter starts again from the first page
+  const filter = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900 dark:bg-slate-900 dark:text-slate-50">
+      <SiteHeader />
+
+      <main className="container mx-auto px-4 py-6 flex-grow space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h1 className="text-2xl font-semibold flex items-center">
+            <HistoryIcon className="w-5 h-5 mr-2 text-primary" />
+            Conversion History
+          </h1>
+          <div className="flex flex-wrap gap-2">
+            <Select value={sourceLanguage} onValueChange={filter(setSourceLanguage)}>
+              <SelectTrigger className={triggerClassName} aria-label="Source language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any source</SelectItem>
+                {supportedLanguages.map((language) => (
+                  <SelectItem key={language.id} value={language.id}>{language.displayName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={targetLanguage} onValueChange={filter(setTargetLanguage)}>
+              <SelectTrigger className={triggerClassName} aria-label="Target language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any target</SelectItem>
+                {supportedLanguages.map((language) => (
+                  <SelectItem key={language.id} value={language.id}>{language.displayName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={range} onValueChange={filter((value: string) => setRange(value as DateRange))}>
+              <SelectTrigger className={triggerClassName} aria-label="Date">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DATE_RANGE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoadingUser || (user && isLoading) ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }, (_, index) => <Skeleton key={index} className="h-12 w-full" />)}
+          </div>
+        ) : data && data.conversions.length > 0 ? (
+          <div className="space-y-3">
+            {data.conversions.map((conversion) => (
+              <ConversionHistoryItem
+                key={conversion.id}
+                conversion={conversion}
+                onDelete={remove.mutate}
+                isDeleting={remove.isPending && remove.variables === conversion.id}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-slate-500 dark:text-slate-400 py-12">
+            {user ? "No conversions match these filters." : "Sign in to keep a history of your conversions."}
+          </p>
+        )}
+
+        {data && data.total > data.pageSize && (
+          <div className="flex items-center justify-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <span className="text-sm text-slate-600 dark:text-slate-400">
+              Page {page} of {pageCount}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+              Next
+            </Button>
+          </div>
+        )}
+      </main>
+
+      <SiteFooter />
+    </div>
+  );
+}
@@ -1,13 +1,24 @@
 import { useState, useEffect } from "react";
+import { useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import type { CodeConversion } from "@shared/schema";
 import { SiteHeader } from "@/components/site-header";
 import { SiteFooter } from "@/components/site-footer";
 import { CodeConverter } from "@/components/code-converter";
 import { CodeExamples } from "@/components/code-examples";
+import { Skeleton } from "@/components/ui/skeleton";
 import { motion } from "framer-motion";
 
 export default function Home() {
   const [showExamples, setShowExamples] = useState(false);
 
+  // ?conversion=<id> opens a conversion from the history
+  const savedId = new URLSearchParams(useSearch()).get("conversion");
+  const { data: saved, isLoading: isLoadingSaved } = useQuery<CodeConversion>({
+    queryKey: [`/api/conversions/${savedId}`],
+    enabled: savedId !== null,
+  });
+
   // Switch between converter and examples tabs
   const toggleView = (view: 'converter' | 'examples') => {
     setShowExamples(view === 'examples');
@@ -59,7 +70,13 @@ export default function Home() {
           animate={{ opacity: 1, scale: 1 }}
           transition={{ duration: 0.4, delay: 0.1 }}
         >
-          {showExamples ? <CodeExamples /> : <CodeConverter />}
+          {showExamples ? (
+            <CodeExamples />
+          ) : savedId !== null && isLoadingSaved ? (
+            <Skeleton className="h-96 w-full" />
+          ) : (
+            <CodeConverter key={saved?.id ?? "new"} saved={saved} />
+          )}
         </motion.div>
       </main>
       
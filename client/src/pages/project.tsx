@@ -0,0 +1,144 @@
+import { useId, useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { MAX_PROJECT_ARCHIVE_BYTES, MAX_PROJECT_FILES, type ConverterInfo, type PublicJob } from "@shared/schema";
+import { SiteHeader } from "@/components/site-header";
+import { SiteFooter } from "@/components/site-footer";
+import { LanguageSelector } from "@/components/language-selector";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { supportedLanguages } from "@/lib/supported-languages";
+import {
+  cancelJob,
+  convertProject,
+  downloadProject,
+  isJobUnfinished,
+  JobCancelledError,
+  PROJECT_ARCHIVE_ACCEPT,
+} from "@/lib/projects";
+import { FolderArchive, Loader2, X } from "lucide-react";
+
+// Languages a project's source files may be written in
+const PROJECT_SOURCE_LANGUAGES = ["javascript", "python"];
+
+export default function Project() {
+  const { toast } = useToast();
+  const fileId = useId();
+  const [file, setFile] = useState<File | null>(null);
+  const [targetLanguage, setTargetLanguage] = useState("python");
+  // The background job converting the project, while there is one
+  const [job, setJob] = useState<PublicJob | null>(null);
+
+  // Targets neither project language converts to
+  const { data: converters } = useQuery<ConverterInfo[]>({ queryKey: ["/api/converters"] });
+  const unsupportedTargets = converters
+    ? supportedLanguages
+        .map((language) => language.id)
+        .filter((id) => !converters.some(
+          (converter) => PROJECT_SOURCE_LANGUAGES.includes(converter.sourceLanguage) && converter.targetLanguage === id
+        ))
+    : [];
+
+  const convert = useMutation({
+    mutationFn: ({ file, targetLanguage }: { file: File; targetLanguage: string }) =>
+      convertProject(file, targetLanguage, setJob),
+    onSettled: () => setJob(null),
+    onSuccess: (project) => {
+      downloadProject(project);
+      toast({ title: "Project converted", description: `Downloaded ${project.filename}` });
+    },
+    onError: (error: Error) => {
+      if (error instanceof JobCancelledError) {
+        toast({ title: "Conversion cancelled" });
+        return;
+      }
+      toast({ title: "Could not convert project", description: authErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const cancel = async () => {
+    if (!job) return;
+    try {
+      await cancelJob(job.id);
+    } catch (error) {
+      // The job finished meanwhile, and convertProject reports how
+      if (!(error instanceof Error && error.message.startsWith("409:"))) {
+        toast({ title: "Could not cancel", description: authErrorMessage(error), variant: "destructive" });
+      }
+    }
+  };
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!file) return;
+    if (file.size > MAX_PROJECT_ARCHIVE_BYTES) {
+      toast({
+        title: "Archive too large",
+        description: `Upload an archive of at most ${MAX_PROJECT_ARCHIVE_BYTES / (1024 * 1024)} MB`,
+        variant: "destructive",
+      });
+      return;
+    }
+    convert.mutate({ file, targetLanguage });
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900 dark:bg-slate-900 dark:text-slate-50">
+      <SiteHeader />
+
+      <main className="container mx-auto px-4 py-6 flex-grow space-y-6 max-w-3xl">
+        <h1 className="text-2xl font-semibold flex items-center">
+          <FolderArchive className="w-5 h-5 mr-2 text-primary" />
+          Convert a Project
+        </h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Upload an archive</CardTitle>
+            <CardDescription>
+              A .zip or tarball of a JavaScript or Python project with up to {MAX_PROJECT_FILES} files. Every
+              source file is converted and imports between them are rewritten; you get back an archive of the
+              converted tree with a README and a per-file diagnostics report.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={submit} className="space-y-4">
+              <div className="space-y-1.5">
+                <Label htmlFor={fileId} className="text-sm font-medium">Archive</Label>
+                <Input
+                  id={fileId}
+                  type="file"
+                  accept={PROJECT_ARCHIVE_ACCEPT}
+                  onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+                />
+              </div>
+              <LanguageSelector
+                value={targetLanguage}
+                onChange={setTargetLanguage}
+                label="Convert to"
+                disabledValues={unsupportedTargets}
+              />
+              <div className="flex items-center gap-2">
+                <Button type="submit" disabled={!file || convert.isPending} className="gap-1.5">
+                  {convert.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <FolderArchive className="h-4 w-4" />}
+                  {job?.status === "queued" ? "Waiting in queue..." : job?.status === "running" ? "Converting..." : "Convert project"}
+                </Button>
+                {job && isJobUnfinished(job.status) && (
+                  <Button type="button" variant="outline" onClick={cancel} className="gap-1.5">
+                    <X className="h-4 w-4" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+
+      <SiteFooter />
+    </div>
+  );
+}
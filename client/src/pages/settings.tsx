@@ -0,0 +1,60 @@
+import { SiteHeader } from "@/components/site-header";
+import { SiteFooter } from "@/components/site-footer";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { ApiTokenSettings } from "@/components/api-token-settings";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/use-auth";
+import { Settings as SettingsIcon } from "lucide-react";
+
+export default function Settings() {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900 dark:bg-slate-900 dark:text-slate-50">
+      <SiteHeader />
+
+      <main className="container mx-auto px-4 py-6 flex-grow space-y-6 max-w-3xl">
+        <h1 className="text-2xl font-semibold flex items-center">
+          <SettingsIcon className="w-5 h-5 mr-2 text-primary" />
+          Account Settings
+        </h1>
+
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : user ? (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Two-factor authentication</CardTitle>
+                <CardDescription>
+                  Protect {user.username} with a time-based code from an authenticator app.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TwoFactorSettings user={user} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>API tokens</CardTitle>
+                <CardDescription>
+                  Personal tokens for calling the REST API from scripts and CI.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ApiTokenSettings />
+              </CardContent>
+            </Card>
+          </>
+        ) : (
+          <p className="text-center text-slate-500 dark:text-slate-400 py-12">
+            Sign in to manage your account.
+          </p>
+        )}
+      </main>
+
+      <SiteFooter />
+    </div>
+  );
+}
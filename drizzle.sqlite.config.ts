@@ -0,0 +1,11 @@
+import { defineConfig } from "drizzle-kit";
+
+// Migrations for STORAGE=sqlite; the server applies them on startup
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./server/sqlite-schema.ts",
+  dialect: "turso",
+  dbCredentials: {
+    url: `file:${process.env.SQLITE_PATH ?? "data/sourcexchange.db"}`,
+  },
+});
@@ -0,0 +1,24 @@
+CREATE TABLE "code_conversions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source_code" text NOT NULL,
+	"target_code" text NOT NULL,
+	"source_language" text NOT NULL,
+	"target_language" text NOT NULL,
+	"explanation" jsonb NOT NULL,
+	"skill_level" text NOT NULL,
+	"options" jsonb NOT NULL,
+	"engine_version" text,
+	"diagnostics" jsonb NOT NULL,
+	"user_id" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "code_conversions" ADD CONSTRAINT "code_conversions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "code_conversions_user_id_created_at_idx" ON "code_conversions" USING btree ("user_id","created_at");
\ No newline at end of file
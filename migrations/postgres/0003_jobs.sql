@@ -0,0 +1,17 @@
+CREATE TABLE "jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"kind" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"input" jsonb NOT NULL,
+	"input_archive" text,
+	"result" jsonb,
+	"output_archive" text,
+	"failure" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"started_at" timestamp with time zone,
+	"finished_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "jobs_status_created_at_idx" ON "jobs" USING btree ("status","created_at");
\ No newline at end of file
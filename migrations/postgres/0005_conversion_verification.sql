@@ -0,0 +1 @@
+ALTER TABLE "code_conversions" ADD COLUMN "verification" jsonb;
\ No newline at end of file
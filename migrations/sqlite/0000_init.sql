@@ -0,0 +1,24 @@
+CREATE TABLE `code_conversions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`source_code` text NOT NULL,
+	`target_code` text NOT NULL,
+	`source_language` text NOT NULL,
+	`target_language` text NOT NULL,
+	`explanation` text NOT NULL,
+	`skill_level` text NOT NULL,
+	`options` text NOT NULL,
+	`engine_version` text,
+	`diagnostics` text NOT NULL,
+	`user_id` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `code_conversions_user_id_created_at_idx` ON `code_conversions` (`user_id`,`created_at`);--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);
\ No newline at end of file
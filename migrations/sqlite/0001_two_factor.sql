@@ -0,0 +1,3 @@
+ALTER TABLE `users` ADD `totp_secret` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `totp_last_used_step` integer;--> statement-breakpoint
+ALTER TABLE `users` ADD `recovery_codes` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` integer,
+	`kind` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`input` text NOT NULL,
+	`input_archive` text,
+	`result` text,
+	`output_archive` text,
+	`failure` text,
+	`created_at` integer NOT NULL,
+	`started_at` integer,
+	`finished_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `jobs_status_created_at_idx` ON `jobs` (`status`,`created_at`);
\ No newline at end of file
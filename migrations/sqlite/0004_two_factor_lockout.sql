@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `two_factor_failures` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `two_factor_locked_until` integer;
\ No newline at end of file
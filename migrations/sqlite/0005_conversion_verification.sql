@@ -0,0 +1 @@
+ALTER TABLE `code_conversions` ADD `verification` text;
\ No newline at end of file
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { OPENAPI_PATH, type CreatedApiToken, type PublicApiToken } from "@shared/schema";
+import { storage } from "./storage";
+import { startTestServer, type TestClient, type TestServer } from "./test-server";
+
+let server: TestServer;
+let accounts = 0;
+
+async function signedInClient(): Promise<{ client: TestClient; id: number }> {
+  const client = server.client();
+  const response = await client.request("POST", "/api/register", { username: `tokens${++accounts}`, password: "correct horse" });
+  return { client, id: (await response.json()).id };
+}
+
+async function createToken(client: TestClient, name = "ci"): Promise<CreatedApiToken> {
+  const response = await client.request("POST", "/api/tokens", { name });
+  assert.equal(response.status, 201);
+  return response.json();
+}
+
+// A request from a script: no session cookie, only the token
+const withToken = (token: string, method: string, path: string, body?: unknown) =>
+  server.client().request(method, path, body, { Authorization: `Bearer ${token}` });
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+describe("API tokens", () => {
+  it("are shown once and listed without the secret", async () => {
+    const { client } = await signedInClient();
+    const { token, apiToken } = await createToken(client);
+    assert.ok(token.startsWith(apiToken.prefix));
+
+    const listed: PublicApiToken[] = await (await client.request("GET", "/api/tokens")).json();
+    assert.deepEqual(listed.map((listedToken) => listedToken.id), [apiToken.id]);
+    assert.ok(!JSON.stringify(listed).includes(token));
+    assert.equal(await storage.getApiTokenByHash(token), undefined);
+  });
+
+  it("sign requests in as their owner and record their use", async () => {
+    const { client, id } = await signedInClient();
+    const { token, apiToken } = await createToken(client);
+
+    const response = await withToken(token, "GET", "/api/me");
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).id, id);
+    assert.equal((await withToken(token, "GET", "/api/conversions")).status, 200);
+    assert.ok((await storage.listApiTokens(id)).find((stored) => stored.id === apiToken.id)!.lastUsedAt);
+  });
+
+  it("reject an unknown token or a malformed header", async () => {
+    const response = await withToken("sxk_unknown", "GET", "/api/me");
+    assert.equal(response.status, 401);
+    assert.equal(response.headers.get("www-authenticate"), 'Bearer realm="api"');
+    assert.equal((await server.client().request("GET", "/api/me", undefined, { Authorization: "Basic abc" })).status, 401);
+  });
+
+  it("cannot manage tokens or two-factor authentication", async () => {
+    const { client } = await signedInClient();
+    const { token } = await createToken(client);
+    assert.equal((await withToken(token, "POST", "/api/tokens", { name: "more" })).status, 403);
+    assert.equal((await withToken(token, "GET", "/api/tokens")).status, 403);
+    assert.equal((await withToken(token, "POST", "/api/2fa/setup")).status, 403);
+  });
+
+  it("stop working once revoked, and only their owner can revoke them", async () => {
+    const { client } = await signedInClient();
+    const { client: other } = await signedInClient();
+    const { token, apiToken } = await createToken(client);
+
+    assert.equal((await other.request("DELETE", `/api/tokens/${apiToken.id}`)).status, 404);
+    assert.equal((await client.request("DELETE", `/api/tokens/${apiToken.id}`)).status, 204);
+    assert.equal((await withToken(token, "GET", "/api/me")).status, 401);
+  });
+});
+
+describe("OpenAPI document", () => {
+  it("describes the conversion API and its bearer authentication", async () => {
+    const response = await server.client().request("GET", OPENAPI_PATH);
+    assert.equal(response.status, 200);
+    const document = await response.json();
+    assert.match(document.openapi, /^3\./);
+    assert.ok(document.paths["/api/convert"].post);
+    assert.ok(document.components.schemas.ConvertCodeRequest);
+    assert.ok(document.components.schemas.ConvertCodeResponse);
+    assert.equal(document.components.securitySchemes.bearerAuth.scheme, "bearer");
+  });
+});
@@ -0,0 +1,66 @@
+import { createHash, randomBytes } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { ApiToken, PublicApiToken } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The token the request signed in with, if it sent one
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+// Marks tokens in logs and secret scanners as ours
+const TOKEN_PREFIX = "sxk_";
+// Characters kept in the clear so that a token can be told apart in the list
+const VISIBLE_LENGTH = TOKEN_PREFIX.length + 6;
+// Last use is recorded at most this often, not on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/** A new random token, with the hash and prefix to store for it. */
+export function generateApiToken(): { token: string; tokenHash: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, VISIBLE_LENGTH) };
+}
+
+// Tokens are long and random, so a fast hash is enough to keep them unreadable at rest
+function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function toPublicApiToken({ userId, tokenHash, ...token }: ApiToken): PublicApiToken {
+  return token;
+}
+
+function rejectToken(res: Response, message: string) {
+  res.setHeader("WWW-Authenticate", 'Bearer realm="api"');
+  res.status(401).json({ message });
+}
+
+/**
+ * Signs a request in as the owner of the personal API token in its
+ * `Authorization: Bearer` header. Requests without the header keep their
+ * session, if any; a header with an unknown token is rejected outright.
+ */
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header) return next();
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  if (!match) return rejectToken(res, "Authorization header must be 'Bearer <token>'");
+  try {
+    const apiToken = await storage.getApiTokenByHash(hashApiToken(match[1]));
+    const user = apiToken && await storage.getUser(apiToken.userId);
+    if (!apiToken || !user) return rejectToken(res, "Invalid API token");
+    req.user = user;
+    req.apiToken = apiToken;
+    const now = new Date();
+    if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await storage.markApiTokenUsed(apiToken.id, now);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { after, before, describe, it } from "node:test";
+import { verifyPassword } from "./auth";
+import { storage } from "./storage";
+import { startTestServer, type TestClient, type TestServer } from "./test-server";
+
+// The RFC 6238 test secret, "12345678901234567890", in base32
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const PASSWORD = "correct horse";
+
+// The authenticator app's code for a time step, computed here independently of server/totp.ts
+function totpCode(step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac("sha1", "12345678901234567890").update(counter).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  return String((digest.readUInt32BE(offset) & 0x7fffffff) % 1_000_000).padStart(6, "0");
+}
+
+const currentStep = () => Math.floor(Date.now() / 30_000);
+
+let server: TestServer;
+let accounts = 0;
+
+// A signed-in client whose account has two-factor authentication turned on
+async function userWithTwoFactor(): Promise<{ client: TestClient; id: number; username: string }> {
+  const client = server.client();
+  const username = `user${++accounts}`;
+  const response = await client.request("POST", "/api/register", { username, password: PASSWORD });
+  assert.equal(response.status, 201);
+  const { id } = await response.json();
+  await storage.updateUser(id, { totpSecret: SECRET });
+  return { client, id, username };
+}
+
+// A client that has given its password and still owes the second factor
+async function pendingLogin(username: string): Promise<TestClient> {
+  const client = server.client();
+  const response = await client.request("POST", "/api/login", { username, password: PASSWORD });
+  assert.deepEqual(await response.json(), { twoFactorRequired: true });
+  return client;
+}
+
+const statuses = (responses: globalThis.Response[]) => responses.map((response) => response.status).sort();
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+describe("accounts", () => {
+  it("registers and signs in at once, keeping only a hash of the password", async () => {
+    const client = server.client();
+    const username = `user${++accounts}`;
+    const response = await client.request("POST", "/api/register", { username, password: PASSWORD });
+    assert.equal(response.status, 201);
+    const user = await response.json();
+    assert.deepEqual(user, { id: user.id, username, twoFactorEnabled: false });
+    assert.deepEqual(await (await client.request("GET", "/api/me")).json(), user);
+
+    const stored = (await storage.getUser(user.id))!.password;
+    assert.notEqual(stored, PASSWORD);
+    assert.equal(await verifyPassword(PASSWORD, stored), true);
+  });
+
+  it("refuses a taken username or a short password", async () => {
+    const username = `user${++accounts}`;
+    assert.equal((await server.client().request("POST", "/api/register", { username, password: PASSWORD })).status, 201);
+    assert.equal((await server.client().request("POST", "/api/register", { username, password: PASSWORD })).status, 409);
+    assert.equal((await server.client().request("POST", "/api/register", { username: `user${++accounts}`, password: "short" })).status, 400);
+  });
+
+  it("signs in with the right password and out again", async () => {
+    const username = `user${++accounts}`;
+    await server.client().request("POST", "/api/register", { username, password: PASSWORD });
+
+    const client = server.client();
+    assert.equal((await client.request("POST", "/api/login", { username, password: "wrong password" })).status, 401);
+    assert.equal((await client.request("GET", "/api/me")).status, 401);
+    assert.equal((await client.request("POST", "/api/login", { username, password: PASSWORD })).status, 200);
+    assert.equal((await client.request("GET", "/api/me")).status, 200);
+    assert.equal((await client.request("POST", "/api/logout")).status, 204);
+    assert.equal((await client.request("GET", "/api/me")).status, 401);
+  });
+
+  it("saves conversions to the signed-in user's history only", async () => {
+    const request = { sourceCode: "console.log(1);", sourceLanguage: "javascript", targetLanguage: "python", skillLevel: "beginner" };
+    const client = server.client();
+    const { id } = await (await client.request("POST", "/api/register", { username: `user${++accounts}`, password: PASSWORD })).json();
+
+    const { conversionId } = await (await client.request("POST", "/api/convert", request)).json();
+    assert.equal((await storage.getCodeConversion(conversionId))!.userId, id);
+    // Without an account there is no history to save to
+    const anonymous = await (await server.client().request("POST", "/api/convert", request)).json();
+    assert.equal(anonymous.conversionId, undefined);
+  });
+});
+
+describe("two-factor sign-in", () => {
+  it("signs in once the TOTP code checks out", async () => {
+    const { username } = await userWithTwoFactor();
+    const client = await pendingLogin(username);
+    assert.equal((await client.request("GET", "/api/me")).status, 401);
+
+    const response = await client.request("POST", "/api/login/2fa", { code: totpCode(currentStep()) });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).twoFactorEnabled, true);
+    assert.equal((await client.request("GET", "/api/me")).status, 200);
+  });
+
+  it("refuses a code that was already used", async () => {
+    const { username } = await userWithTwoFactor();
+    const code = totpCode(currentStep());
+    assert.equal((await (await pendingLogin(username)).request("POST", "/api/login/2fa", { code })).status, 200);
+    assert.equal((await (await pendingLogin(username)).request("POST", "/api/login/2fa", { code })).status, 401);
+  });
+
+  it("accepts a code sent twice at once only once", async () => {
+    const { client } = await userWithTwoFactor();
+    const code = totpCode(currentStep());
+    const responses = await Promise.all([
+      client.request("POST", "/api/2fa/recovery-codes", { code }),
+      client.request("POST", "/api/2fa/recovery-codes", { code }),
+    ]);
+    assert.deepEqual(statuses(responses), [200, 403]);
+  });
+
+  it("locks the account after five wrong codes", async () => {
+    const { username } = await userWithTwoFactor();
+    const client = await pendingLogin(username);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      assert.equal((await client.request("POST", "/api/login/2fa", { code: "000000" })).status, 401);
+    }
+
+    // Locked against the account, so a fresh login with the right code is refused too
+    const response = await (await pendingLogin(username)).request("POST", "/api/login/2fa", { code: totpCode(currentStep()) });
+    assert.equal(response.status, 429);
+    assert.ok(Number(response.headers.get("retry-after")) > 0);
+  });
+
+  it("checks no more than five codes guessed in parallel", async () => {
+    const { id, username } = await userWithTwoFactor();
+    const client = await pendingLogin(username);
+    const responses = await Promise.all(
+      Array.from({ length: 12 }, () => client.request("POST", "/api/login/2fa", { code: "000000" })),
+    );
+    assert.deepEqual(statuses(responses), [...Array(5).fill(401), ...Array(7).fill(429)]);
+    assert.ok((await storage.getUser(id))!.twoFactorLockedUntil! > new Date());
+  });
+
+  it("counts wrong codes sent to turn two-factor authentication off", async () => {
+    const { client, id } = await userWithTwoFactor();
+    for (let attempt = 0; attempt < 3; attempt++) {
+      assert.equal((await client.request("POST", "/api/2fa/disable", { code: "000000" })).status, 403);
+    }
+    for (let attempt = 0; attempt < 2; attempt++) {
+      assert.equal((await client.request("POST", "/api/2fa/recovery-codes", { code: "000000" })).status, 403);
+    }
+
+    const response = await client.request("POST", "/api/2fa/disable", { code: totpCode(currentStep()) });
+    assert.equal(response.status, 429);
+    assert.equal((await storage.getUser(id))!.totpSecret, SECRET);
+  });
+});
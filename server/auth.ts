@@ -0,0 +1,419 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import QRCode from "qrcode";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authenticateApiToken, generateApiToken, toPublicApiToken } from "./api-tokens";
+import { consumeRecoveryCode, generateRecoveryCodes, generateTotpSecret, totpUri, verifyTotp } from "./totp";
+import {
+  createApiTokenSchema,
+  credentialsSchema,
+  twoFactorCodeSchema,
+  type CreatedApiToken,
+  type LoginResult,
+  type PublicUser,
+  type RecoveryCodes,
+  type TwoFactorSetup,
+  type User as StoredUser,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Secret being enrolled, until the first code confirms it
+    pendingTotpSecret?: string;
+    // User whose password checked out but who still owes a second factor
+    twoFactorUserId?: number;
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// Wrong second factors an account allows before it refuses them for a while
+const MAX_TWO_FACTOR_FAILURES = 5;
+const TWO_FACTOR_LOCKOUT_MS = 15 * 60 * 1000;
+// Shown by authenticator apps next to the account name
+const TOTP_ISSUER = "SourceXchange";
+
+// Route parameter of the API token endpoints
+const apiTokenIdSchema = z.coerce.number().int().positive();
+
+/** Hashes a password with a random salt, as `hash.salt` in hex. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+/** Checks a password against a hash made by `hashPassword`, in constant time. */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function toPublicUser(user: StoredUser): PublicUser {
+  return { id: user.id, username: user.username, twoFactorEnabled: user.totpSecret !== null };
+}
+
+/**
+ * Checks a second factor, either a TOTP code or an unused recovery code,
+ * and records it as used. Returns the updated user, or null when the code
+ * is wrong.
+ */
+async function checkSecondFactor(user: StoredUser, code: string): Promise<StoredUser | null> {
+  if (!user.totpSecret) return null;
+  const step = verifyTotp(user.totpSecret, code, user.totpLastUsedStep);
+  if (step !== null) {
+    // Claimed in storage, so that the same code sent twice at once only works once
+    return (await storage.claimTotpStep(user.id, step)) ?? null;
+  }
+  const remaining = consumeRecoveryCode(user.recoveryCodes, code);
+  if (remaining) {
+    return (await storage.updateUser(user.id, { recoveryCodes: remaining })) ?? null;
+  }
+  return null;
+}
+
+type SecondFactorAttempt =
+  | { outcome: "verified"; user: StoredUser }
+  | { outcome: "invalid" }
+  | { outcome: "locked"; retryAfterMs: number };
+
+/**
+ * Checks a second factor against the account's lockout. Every check is
+ * counted before the code is looked at, so parallel guesses cannot get
+ * past MAX_TWO_FACTOR_FAILURES; a right code clears the count.
+ */
+async function attemptSecondFactor(user: StoredUser, code: string): Promise<SecondFactorAttempt> {
+  const counted = await storage.countTwoFactorAttempt(user.id, new Date());
+  if (!counted) {
+    const lockedUntil = (await storage.getUser(user.id))?.twoFactorLockedUntil;
+    return { outcome: "locked", retryAfterMs: Math.max((lockedUntil?.getTime() ?? 0) - Date.now(), 0) };
+  }
+  const lock = () => storage.updateUser(user.id, {
+    twoFactorFailures: 0,
+    twoFactorLockedUntil: new Date(Date.now() + TWO_FACTOR_LOCKOUT_MS),
+  });
+  if (counted.twoFactorFailures > MAX_TWO_FACTOR_FAILURES) {
+    await lock();
+    return { outcome: "locked", retryAfterMs: TWO_FACTOR_LOCKOUT_MS };
+  }
+
+  const verified = await checkSecondFactor(counted, code);
+  if (verified) {
+    return { outcome: "verified", user: (await storage.updateUser(user.id, { twoFactorFailures: 0 })) ?? verified };
+  }
+  if (counted.twoFactorFailures === MAX_TWO_FACTOR_FAILURES) await lock();
+  return { outcome: "invalid" };
+}
+
+function sendLockedOut(res: Response, retryAfterMs: number) {
+  return res
+    .status(429)
+    .set("Retry-After", String(Math.ceil(retryAfterMs / 1000)))
+    .json({ message: "Too many wrong codes; try again later" });
+}
+
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ message: "Not signed in" });
+  }
+  next();
+}
+
+// For the routes that manage credentials, so that a leaked API token cannot mint more or turn off 2FA
+function requireSessionUser(req: Request, res: Response, next: NextFunction) {
+  if (req.apiToken) {
+    return res.status(403).json({ message: "Sign in with your password to manage API tokens and two-factor authentication" });
+  }
+  requireUser(req, res, next);
+}
+
+// Without a configured secret sessions only last until the server restarts
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  console.warn("SESSION_SECRET is not set; using a random secret, so sessions end on restart");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Adds cookie sessions, username/password login with optional TOTP
+ * two-factor authentication, personal API tokens sent as bearer tokens,
+ * and the account routes under /api.
+ * Must run before any route that reads `req.user`.
+ */
+export function setupAuth(app: Express) {
+  // Secure cookies need the original protocol when behind a proxy
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  // A bearer token takes precedence over the session cookie
+  app.use("/api", authenticateApiToken);
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      done(null, user);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted account simply ends the session
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { username, password } = credentialsSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      const user = await storage.createUser({ username, password: await hashPassword(password) });
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error registering user:", error);
+      res.status(500).json({ message: "Failed to register", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (error: unknown, user: StoredUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      // The session only signs in once the second factor checks out too
+      if (user.totpSecret) {
+        req.session.twoFactorUserId = user.id;
+        const body: LoginResult = { twoFactorRequired: true };
+        return res.json(body);
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // Second step of signing in to an account with two-factor authentication
+  app.post("/api/login/2fa", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const userId = req.session.twoFactorUserId;
+      const user = userId === undefined ? undefined : await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ message: "Sign in with your password first" });
+      }
+      // Counted against the account, so that signing in again or from elsewhere buys no more guesses
+      const attempt = await attemptSecondFactor(user, code);
+      if (attempt.outcome === "locked") return sendLockedOut(res, attempt.retryAfterMs);
+      if (attempt.outcome === "invalid") {
+        return res.status(401).json({ message: "Invalid code" });
+      }
+      const verified = attempt.user;
+      // Logging in regenerates the session, which drops the pending state
+      req.login(verified, (error) => {
+        if (error) return next(error);
+        res.json(toPublicUser(verified));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error verifying second factor:", error);
+      res.status(500).json({ message: "Failed to sign in", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.status(204).end();
+    });
+  });
+
+  app.get("/api/me", (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Starts enrolling an authenticator app; nothing changes until /api/2fa/enable
+  app.post("/api/2fa/setup", requireSessionUser, async (req: Request, res: Response) => {
+    try {
+      const user = req.user!;
+      if (user.totpSecret) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+      const secret = generateTotpSecret();
+      req.session.pendingTotpSecret = secret;
+      const otpauthUri = totpUri(secret, user.username, TOTP_ISSUER);
+      const body: TwoFactorSetup = { secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) };
+      res.json(body);
+    } catch (error) {
+      console.error("Error setting up two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to set up two-factor authentication", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/2fa/enable", requireSessionUser, async (req: Request, res: Response) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const secret = req.session.pendingTotpSecret;
+      if (!secret) {
+        return res.status(409).json({ message: "Start the two-factor setup first" });
+      }
+      const step = verifyTotp(secret, code);
+      if (step === null) {
+        return res.status(403).json({ message: "Invalid code" });
+      }
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUser(req.user!.id, { totpSecret: secret, totpLastUsedStep: step, recoveryCodes: hashes });
+      delete req.session.pendingTotpSecret;
+      const body: RecoveryCodes = { recoveryCodes: codes };
+      res.json(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/2fa/disable", requireSessionUser, async (req: Request, res: Response) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      if (!req.user!.totpSecret) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+      const attempt = await attemptSecondFactor(req.user!, code);
+      if (attempt.outcome === "locked") return sendLockedOut(res, attempt.retryAfterMs);
+      if (attempt.outcome === "invalid") {
+        return res.status(403).json({ message: "Invalid code" });
+      }
+      const user = await storage.updateUser(req.user!.id, {
+        totpSecret: null,
+        totpLastUsedStep: null,
+        recoveryCodes: [],
+      });
+      res.json(toPublicUser(user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication", error: (error as Error).message });
+    }
+  });
+
+  // Replaces every recovery code, for when they were lost or used up
+  app.post("/api/2fa/recovery-codes", requireSessionUser, async (req: Request, res: Response) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      if (!req.user!.totpSecret) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+      const attempt = await attemptSecondFactor(req.user!, code);
+      if (attempt.outcome === "locked") return sendLockedOut(res, attempt.retryAfterMs);
+      if (attempt.outcome === "invalid") {
+        return res.status(403).json({ message: "Invalid code" });
+      }
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUser(req.user!.id, { recoveryCodes: hashes });
+      const body: RecoveryCodes = { recoveryCodes: codes };
+      res.json(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error replacing recovery codes:", error);
+      res.status(500).json({ message: "Failed to replace recovery codes", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/tokens", requireSessionUser, async (req: Request, res: Response) => {
+    try {
+      const tokens = await storage.listApiTokens(req.user!.id);
+      res.json(tokens.map(toPublicApiToken));
+    } catch (error) {
+      console.error("Error listing API tokens:", error);
+      res.status(500).json({ message: "Failed to list API tokens", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/tokens", requireSessionUser, async (req: Request, res: Response) => {
+    try {
+      const { name } = createApiTokenSchema.parse(req.body);
+      const { token, tokenHash, prefix } = generateApiToken();
+      const apiToken = await storage.createApiToken({ userId: req.user!.id, name, tokenHash, prefix });
+      const body: CreatedApiToken = { apiToken: toPublicApiToken(apiToken), token };
+      res.status(201).json(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "Failed to create API token", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/tokens/:id", requireSessionUser, async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteApiToken(apiTokenIdSchema.parse(req.params.id), req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token", error: (error as Error).message });
+    }
+  });
+}
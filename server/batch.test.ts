@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { MAX_BATCH_ITEMS, type ConvertBatchItemResult, type ConvertBatchResponse, type ConvertCodeRequest } from "@shared/schema";
+import { convertBatch, NDJSON_CONTENT_TYPE } from "./batch";
+import { startTestServer, type TestServer } from "./test-server";
+
+let server: TestServer;
+
+const item: ConvertCodeRequest = {
+  sourceCode: "console.log(1);",
+  sourceLanguage: "javascript",
+  targetLanguage: "python",
+  skillLevel: "beginner",
+};
+
+const batch = (body: unknown, headers?: Record<string, string>) =>
+  server.client().request("POST", "/api/convert/batch", body, headers);
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+describe("batch conversion", () => {
+  it("answers every item in order, failing only the items that fail", async () => {
+    const response = await batch({
+      items: [item, { sourceCode: "" }, { ...item, targetLanguage: "cobol" }, { ...item, sourceCode: "let = ;" }],
+    });
+    assert.equal(response.status, 200);
+    const { results, succeeded, failed }: ConvertBatchResponse = await response.json();
+    assert.deepEqual([succeeded, failed], [1, 3]);
+    assert.deepEqual(
+      results.map((result) => [result.index, result.ok ? 200 : result.status]),
+      [[0, 200], [1, 400], [2, 422], [3, 422]]
+    );
+    assert.equal(results[0].ok && results[0].result.targetCode, "print(1)");
+  });
+
+  it("streams one JSON line per item with Accept: application/x-ndjson", async () => {
+    const items = Array.from({ length: 5 }, (_, index) => ({ ...item, sourceCode: `console.log(${index});` }));
+    const response = await batch({ items, concurrency: 2 }, { Accept: NDJSON_CONTENT_TYPE });
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get("content-type")!, /^application\/x-ndjson/);
+
+    const lines: ConvertBatchItemResult[] = (await response.text()).trimEnd().split("\n").map((line) => JSON.parse(line));
+    assert.deepEqual(lines.map((line) => line.index).sort(), [0, 1, 2, 3, 4]);
+    for (const line of lines) assert.equal(line.ok && line.result.targetCode, `print(${line.index})`);
+  });
+
+  it("refuses an empty or oversized batch, or too much concurrency", async () => {
+    assert.equal((await batch({ items: [] })).status, 400);
+    assert.equal((await batch({ items: Array(MAX_BATCH_ITEMS + 1).fill(item) })).status, 400);
+    assert.equal((await batch({ items: [item], concurrency: 100 })).status, 400);
+  });
+});
+
+describe("convertBatch", () => {
+  it("runs no more items at once than its concurrency", async () => {
+    let running = 0;
+    let most = 0;
+    await convertBatch(Array(6).fill(item), {
+      concurrency: 2,
+      userId: null,
+      isCancelled: () => {
+        most = Math.max(most, ++running);
+        return false;
+      },
+      onResult: () => {
+        running--;
+      },
+    });
+    assert.equal(most, 2);
+  });
+
+  it("skips the items not started once cancelled", async () => {
+    let finished = 0;
+    const results = await convertBatch(Array(4).fill(item), {
+      concurrency: 1,
+      userId: null,
+      isCancelled: () => finished > 0,
+      onResult: () => {
+        finished++;
+      },
+    });
+    assert.deepEqual(results.map((result) => result.index), [0]);
+  });
+});
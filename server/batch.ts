@@ -0,0 +1,65 @@
+import { z } from "zod";
+import {
+  convertBatchSchema,
+  convertCodeSchema,
+  MAX_BATCH_ITEMS,
+  type ConvertBatchItemResult,
+} from "@shared/schema";
+import { conversionErrorResponse, convertAndSave } from "./conversion";
+
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+// Only the envelope is checked up front; convertBatch validates each item on its own
+export const batchEnvelopeSchema = convertBatchSchema.extend({
+  items: z.array(z.unknown()).min(1, "At least one item is required").max(MAX_BATCH_ITEMS),
+});
+
+export interface BatchOptions {
+  concurrency: number;
+  // Whose history the conversions are saved to; null for the anonymous one
+  userId: number | null;
+  // Called as each item finishes, in completion order; the next item waits for it
+  onResult?: (result: ConvertBatchItemResult) => void | Promise<void>;
+  // Checked before each item starts; once true, the remaining items are skipped
+  isCancelled?: () => boolean;
+}
+
+// Validates and converts one item, turning any failure into an error result
+async function convertItem(item: unknown, index: number, userId: number | null): Promise<ConvertBatchItemResult> {
+  const parsed = convertCodeSchema.safeParse(item);
+  if (!parsed.success) {
+    return { index, ok: false, status: 400, error: { message: "Validation error", errors: parsed.error.errors } };
+  }
+  try {
+    return { index, ok: true, result: await convertAndSave(parsed.data, userId) };
+  } catch (error) {
+    const { status, body } = conversionErrorResponse(error);
+    return { index, ok: false, status, error: body };
+  }
+}
+
+/**
+ * Converts every item with at most `concurrency` in flight. Failures are
+ * reported per item rather than failing the batch. Resolves to the results
+ * in item order; items skipped after cancellation are left out.
+ */
+export async function convertBatch(items: unknown[], options: BatchOptions): Promise<ConvertBatchItemResult[]> {
+  const results: ConvertBatchItemResult[] = new Array(items.length);
+  let next = 0;
+
+  // Each worker takes the next unstarted item until none are left
+  const worker = async () => {
+    while (next < items.length && !options.isCancelled?.()) {
+      const index = next++;
+      const result = await convertItem(items[index], index, options.userId);
+      results[index] = result;
+      await options.onResult?.(result);
+    }
+  };
+
+  const workers = Math.min(options.concurrency, items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results.filter((result) => result !== undefined);
+}
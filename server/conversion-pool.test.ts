@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { ConvertCodeRequest } from "@shared/schema";
+import { conversionErrorResponse } from "./conversion";
+import { ConversionLimitError, ConversionPool, PoolSaturatedError, type PoolLimits } from "./conversion-pool";
+import { SourceParseError } from "./converter/errors";
+import { startTestServer, type TestServer } from "./test-server";
+
+const request: ConvertCodeRequest = {
+  sourceCode: "console.log(1);",
+  sourceLanguage: "javascript",
+  targetLanguage: "python",
+  skillLevel: "beginner",
+};
+
+// A program long enough to keep a worker busy for a while and fill a small heap
+const huge: ConvertCodeRequest = {
+  ...request,
+  sourceCode: Array.from({ length: 100_000 }, (_, index) => `const value${index} = [${index}, "text", { index: ${index} }];`).join("\n"),
+};
+
+const pool = (changes: Partial<PoolLimits>) => new ConversionPool({ workers: 1, maxQueued: 1, timeoutMs: 30_000, memoryMb: 256, ...changes });
+
+describe("ConversionPool", () => {
+  it("converts on a worker and rebuilds the errors callers tell apart", async () => {
+    const workers = pool({});
+    assert.equal((await workers.run({ kind: "convert", request })).targetCode, "print(1)");
+    await assert.rejects(workers.run({ kind: "convert", request: { ...request, sourceCode: "let = ;" } }), SourceParseError);
+  });
+
+  it("fails a conversion over its time limit and frees its worker", async () => {
+    const workers = pool({ timeoutMs: 100 });
+    await assert.rejects(workers.run({ kind: "convert", request: huge }), (error: ConversionLimitError) => error.limit === "time");
+    assert.deepEqual([workers.stats().timedOut, workers.stats().busy], [1, 0]);
+  });
+
+  it("fails a conversion that fills its worker's heap and carries on", async () => {
+    const workers = pool({ memoryMb: 64 });
+    await assert.rejects(workers.run({ kind: "convert", request: huge }), (error: ConversionLimitError) => error.limit === "memory");
+    assert.equal(workers.stats().outOfMemory, 1);
+    assert.equal((await workers.run({ kind: "convert", request })).targetCode, "print(1)");
+  });
+
+  it("refuses work while every worker is busy and the queue is full", async () => {
+    const workers = pool({ maxQueued: 0 });
+    const running = workers.run({ kind: "convert", request });
+    await assert.rejects(workers.run({ kind: "convert", request }), PoolSaturatedError);
+
+    // Callers bounding their own concurrency wait regardless
+    const waiting = workers.run({ kind: "convert", request }, { ignoreQueueLimit: true });
+    assert.deepEqual({ ...workers.stats(), rejected: 1 }, { workers: 1, busy: 1, queued: 1, rejected: 1, timedOut: 0, outOfMemory: 0 });
+    await Promise.all([running, waiting]);
+    assert.equal(workers.stats().busy, 0);
+  });
+
+  it("drops a waiting task once its signal aborts", async () => {
+    const workers = pool({});
+    const running = workers.run({ kind: "convert", request });
+    const controller = new AbortController();
+    const waiting = workers.run({ kind: "convert", request }, { signal: controller.signal });
+    controller.abort(new Error("gone"));
+    await assert.rejects(waiting, /gone/);
+    assert.equal(workers.stats().queued, 0);
+    await running;
+  });
+});
+
+describe("pool state over HTTP", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(() => server.close());
+
+  it("answers saturation with 503 and Retry-After", () => {
+    const { status, headers } = conversionErrorResponse(new PoolSaturatedError(3));
+    assert.equal(status, 503);
+    assert.deepEqual(headers, { "Retry-After": "3" });
+  });
+
+  it("reports the queue depth and the workers' state as metrics", async () => {
+    const response = await server.client().request("GET", "/api/metrics");
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get("content-type")!, /version=0\.0\.4/);
+    const text = await response.text();
+    assert.match(text, /^sourcexchange_conversion_queue_depth 0$/m);
+    assert.match(text, /^sourcexchange_conversion_rejected_total \d+$/m);
+    assert.match(text, /^sourcexchange_conversion_workers\{state="busy"\} \d+$/m);
+  });
+});
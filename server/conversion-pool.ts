@@ -0,0 +1,312 @@
+import { availableParallelism } from "os";
+import { Worker, type WorkerOptions } from "worker_threads";
+import type {
+  ConvertCodeRequest,
+  ConvertCodeResponse,
+  ConvertProjectQuery,
+  ConvertStreamEvent,
+  ConvertStreamRequest,
+} from "@shared/schema";
+import { SourceParseError, UnsupportedLanguagePairError, UnsupportedOptionError } from "./converter/errors";
+import { ArchiveError, ProjectTooLargeError } from "./project/errors";
+import type { ProjectConversion } from "./project";
+import { RuntimeUnavailableError, SandboxBusyError } from "./sandbox/errors";
+import { runSlots } from "./sandbox/slots";
+import { log } from "./vite";
+
+/** Work a conversion worker does, with what it resolves to. */
+export type ConversionTask =
+  | { kind: "convert"; request: ConvertCodeRequest }
+  | { kind: "stream"; request: ConvertStreamRequest }
+  | { kind: "project"; data: Uint8Array; query: ConvertProjectQuery };
+
+interface TaskResults {
+  convert: ConvertCodeResponse;
+  // Undefined when the stream was cancelled
+  stream: ConvertCodeResponse | undefined;
+  project: ProjectConversion;
+}
+
+// An error as it crosses from a worker: its name, message and own fields
+export type SerializedError = { name: string; message: string; stack?: string } & Record<string, unknown>;
+
+export type WorkerRequest = { id: number; task: ConversionTask } | { id: number; cancel: true };
+
+export type WorkerResponse =
+  | { id: number; event: ConvertStreamEvent }
+  | { id: number; result: unknown }
+  | { id: number; error: SerializedError };
+
+/**
+ * Thrown when every worker is busy and the queue is full. The route layer
+ * reports it as a 503 with Retry-After.
+ */
+export class PoolSaturatedError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super("Every conversion worker is busy; try again shortly");
+    this.name = "PoolSaturatedError";
+  }
+}
+
+/**
+ * Thrown when a conversion runs longer or needs more memory than a task may.
+ * The route layer reports it to the client as a 422.
+ */
+export class ConversionLimitError extends Error {
+  constructor(public readonly limit: "time" | "memory", message: string) {
+    super(message);
+    this.name = "ConversionLimitError";
+  }
+}
+
+// Errors a worker throws that callers tell apart, rebuilt with their class on this side
+const KNOWN_ERRORS = new Map<string, { prototype: Error }>([
+  ["SourceParseError", SourceParseError],
+  ["UnsupportedLanguagePairError", UnsupportedLanguagePairError],
+  ["UnsupportedOptionError", UnsupportedOptionError],
+  ["ArchiveError", ArchiveError],
+  ["ProjectTooLargeError", ProjectTooLargeError],
+  ["RuntimeUnavailableError", RuntimeUnavailableError],
+  ["SandboxBusyError", SandboxBusyError],
+]);
+
+function deserializeError(serialized: SerializedError): Error {
+  const prototype = KNOWN_ERRORS.get(serialized.name)?.prototype ?? Error.prototype;
+  return Object.assign(Object.create(prototype), serialized);
+}
+
+export interface PoolLimits {
+  workers: number;
+  // Tasks that may wait for a worker before more are refused
+  maxQueued: number;
+  // Wall-clock time of one task
+  timeoutMs: number;
+  // Heap of each worker, so of the task it runs
+  memoryMb: number;
+}
+
+export interface RunOptions {
+  // Called with each event a "stream" task sends, in order
+  onEvent?: (event: ConvertStreamEvent) => void;
+  // Drops a waiting task, or asks a running one to stop between stages
+  signal?: AbortSignal;
+  // Queue even when the queue is full, for callers that bound their own concurrency
+  ignoreQueueLimit?: boolean;
+}
+
+interface QueuedTask {
+  id: number;
+  task: ConversionTask;
+  options: RunOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PooledWorker {
+  worker: Worker;
+  // The task it is running, if any
+  current?: QueuedTask & { timer: NodeJS.Timeout; startedAt: number };
+}
+
+/** Counters and gauges of the pool, as /api/metrics reports them. */
+export interface PoolStats {
+  workers: number;
+  busy: number;
+  queued: number;
+  rejected: number;
+  timedOut: number;
+  outOfMemory: number;
+}
+
+/**
+ * Starts a worker on conversion-worker.js, bundled next to the server. Under
+ * tsx the worker runs from source, which Node only loads once tsx is
+ * registered in the worker as well.
+ */
+function startWorker(options: WorkerOptions): Worker {
+  if (!import.meta.url.endsWith(".ts")) {
+    return new Worker(new URL("./conversion-worker.js", import.meta.url), options);
+  }
+  const source = JSON.stringify(new URL("./conversion-worker.ts", import.meta.url).href);
+  return new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${source}); });`,
+    { ...options, eval: true }
+  );
+}
+
+/**
+ * Runs conversions on a fixed set of worker threads, so that a huge paste
+ * keeps one worker busy rather than the event loop. Tasks wait their turn in
+ * order; when too many wait, run() refuses with PoolSaturatedError. A task
+ * that outlives its time limit or its worker's heap is failed with
+ * ConversionLimitError and the worker replaced. Workers start on first use.
+ */
+export class ConversionPool {
+  private readonly workers: PooledWorker[] = [];
+  private readonly queue: QueuedTask[] = [];
+  private nextId = 1;
+  private rejected = 0;
+  private timedOut = 0;
+  private outOfMemory = 0;
+  // Moving average of how long a task takes, for Retry-After
+  private averageTaskMs = 1000;
+
+  constructor(private readonly limits: PoolLimits) {}
+
+  run<K extends ConversionTask["kind"]>(
+    task: Extract<ConversionTask, { kind: K }> & { kind: K },
+    options: RunOptions = {}
+  ): Promise<TaskResults[K]> {
+    if (options.signal?.aborted) return Promise.reject(options.signal.reason);
+    if (!options.ignoreQueueLimit && this.idleWorker() === undefined && this.queue.length >= this.limits.maxQueued) {
+      this.rejected++;
+      return Promise.reject(new PoolSaturatedError(this.retryAfterSeconds()));
+    }
+
+    return new Promise((resolve, reject) => {
+      const queued: QueuedTask = { id: this.nextId++, task, options, resolve: resolve as (result: unknown) => void, reject };
+      this.queue.push(queued);
+      options.signal?.addEventListener("abort", () => this.abort(queued), { once: true });
+      this.dispatch();
+    });
+  }
+
+  stats(): PoolStats {
+    return {
+      workers: this.limits.workers,
+      busy: this.workers.filter((pooled) => pooled.current).length,
+      queued: this.queue.length,
+      rejected: this.rejected,
+      timedOut: this.timedOut,
+      outOfMemory: this.outOfMemory,
+    };
+  }
+
+  // The queue has room again once a worker frees up, which takes about as long as a task
+  private retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil(this.averageTaskMs / 1000));
+  }
+
+  private idleWorker(): PooledWorker | undefined {
+    const idle = this.workers.find((pooled) => !pooled.current);
+    if (idle || this.workers.length >= this.limits.workers) return idle;
+    return this.spawn();
+  }
+
+  // Hands waiting tasks to idle workers
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const pooled = this.idleWorker();
+      if (!pooled) return;
+      const queued = this.queue.shift()!;
+      const timer = setTimeout(() => this.fail(pooled, "time"), this.limits.timeoutMs);
+      pooled.current = { ...queued, timer, startedAt: performance.now() };
+      pooled.worker.postMessage({ id: queued.id, task: queued.task } satisfies WorkerRequest);
+    }
+  }
+
+  private abort(queued: QueuedTask): void {
+    const index = this.queue.indexOf(queued);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+      queued.reject(queued.options.signal!.reason);
+      return;
+    }
+    const pooled = this.workers.find((candidate) => candidate.current?.id === queued.id);
+    pooled?.worker.postMessage({ id: queued.id, cancel: true } satisfies WorkerRequest);
+  }
+
+  private spawn(): PooledWorker {
+    const worker = startWorker({
+      // Programs a worker runs to verify a stream count against the server's cap on runs
+      workerData: { runSlots: runSlots.buffer },
+      resourceLimits: {
+        maxOldGenerationSizeMb: this.limits.memoryMb,
+        maxYoungGenerationSizeMb: Math.max(1, Math.floor(this.limits.memoryMb / 8)),
+      },
+    });
+    const pooled: PooledWorker = { worker };
+    this.workers.push(pooled);
+
+    worker.on("message", (message: WorkerResponse) => {
+      const current = pooled.current;
+      if (!current || current.id !== message.id) return;
+      if ("event" in message) {
+        current.options.onEvent?.(message.event);
+        return;
+      }
+      this.finish(pooled);
+      if ("error" in message) current.reject(deserializeError(message.error));
+      else current.resolve(message.result);
+    });
+    worker.on("error", (error: Error & { code?: string }) => {
+      if (error.code === "ERR_WORKER_OUT_OF_MEMORY") this.fail(pooled, "memory");
+      else this.fail(pooled, error);
+    });
+    worker.on("exit", (exitCode) => {
+      if (pooled.current) this.fail(pooled, new Error(`The conversion worker exited with code ${exitCode}`));
+      else this.remove(pooled);
+    });
+    // An idle pool does not keep the process alive
+    worker.unref();
+    return pooled;
+  }
+
+  // Frees a worker whose task has settled and starts the next one
+  private finish(pooled: PooledWorker): void {
+    if (pooled.current) {
+      clearTimeout(pooled.current.timer);
+      this.averageTaskMs = 0.8 * this.averageTaskMs + 0.2 * (performance.now() - pooled.current.startedAt);
+    }
+    pooled.current = undefined;
+    queueMicrotask(() => this.dispatch());
+  }
+
+  // Fails the worker's task and replaces the worker, which may be stuck or out of heap
+  private fail(pooled: PooledWorker, reason: "time" | "memory" | Error): void {
+    const current = pooled.current;
+    pooled.current = undefined;
+    this.remove(pooled);
+    void pooled.worker.terminate();
+    if (current) {
+      clearTimeout(current.timer);
+      if (reason === "time") {
+        this.timedOut++;
+        current.reject(new ConversionLimitError("time", `The conversion took longer than ${this.limits.timeoutMs / 1000} seconds`));
+      } else if (reason === "memory") {
+        this.outOfMemory++;
+        current.reject(new ConversionLimitError("memory", `The conversion needed more than ${this.limits.memoryMb} MB of memory`));
+      } else {
+        current.reject(reason);
+      }
+    } else if (reason instanceof Error) {
+      log(`Conversion worker failed: ${reason.stack ?? reason.message}`, "conversion-pool");
+    }
+    this.dispatch();
+  }
+
+  private remove(pooled: PooledWorker): void {
+    const index = this.workers.indexOf(pooled);
+    if (index !== -1) this.workers.splice(index, 1);
+  }
+}
+
+// A whole number from the environment, or `fallback` when unset or invalid
+function envInteger(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * CONVERSION_WORKERS sets the number of workers (one fewer than the CPUs by
+ * default), CONVERSION_QUEUE_LIMIT how many tasks may wait for one,
+ * CONVERSION_TIMEOUT_MS and CONVERSION_MEMORY_MB the limits of each task.
+ */
+export const POOL_LIMITS: PoolLimits = {
+  workers: envInteger("CONVERSION_WORKERS", Math.max(1, availableParallelism() - 1)),
+  maxQueued: envInteger("CONVERSION_QUEUE_LIMIT", 32),
+  timeoutMs: envInteger("CONVERSION_TIMEOUT_MS", 30_000),
+  memoryMb: envInteger("CONVERSION_MEMORY_MB", 512),
+};
+
+export const conversionPool = new ConversionPool(POOL_LIMITS);
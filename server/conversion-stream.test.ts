@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { CONVERT_STREAM_PATH } from "@shared/schema";
+import { startTestServer, type TestServer } from "./test-server";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+// The `event:` names of a Server-Sent Events body, in order
+const eventNames = (body: string) => body.split("\n").filter((line) => line.startsWith("event: ")).map((line) => line.slice(7));
+
+describe("conversion stream", () => {
+  it("sends the stages and ends with the result", async () => {
+    const response = await server.client().request("POST", CONVERT_STREAM_PATH, {
+      sourceCode: "console.log(1 + 2);",
+      sourceLanguage: "javascript",
+      targetLanguage: "python",
+      skillLevel: "beginner",
+    });
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get("content-type")!, /^text\/event-stream/);
+
+    const events = eventNames(await response.text());
+    assert.equal(events[0], "start");
+    assert.ok(events.includes("stage"));
+    assert.equal(events.at(-1), "result");
+  });
+
+  it("answers other methods with 405 rather than the client app", async () => {
+    for (const method of ["GET", "PUT"]) {
+      const response = await server.client().request(method, CONVERT_STREAM_PATH);
+      assert.equal(response.status, 405);
+      assert.equal(response.headers.get("allow"), "POST");
+      assert.match(response.headers.get("content-type")!, /^application\/json/);
+    }
+  });
+});
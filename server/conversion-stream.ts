@@ -0,0 +1,176 @@
+import type {
+  ConversionDiagnostic,
+  ConversionStage,
+  ConvertCodeResponse,
+  ConvertStreamEvent,
+  ConvertStreamRequest,
+  VerifyConversionRequest,
+} from "@shared/schema";
+import { converterRegistry } from "./converter/converters";
+import { confidenceScore, noteDiagnostic, withNotes, type ConversionResult } from "./converter/diagnostics";
+import { UnsupportedLanguagePairError } from "./converter/errors";
+import type * as ir from "./converter/ir";
+import { declaredNames } from "./converter/modules";
+import { originLines, withSourceContent } from "./converter/source-map";
+import { converterSummary, documentConversion } from "./github-api";
+import { verifyConversion } from "./sandbox/verify";
+
+export const EVENT_STREAM_CONTENT_TYPE = "text/event-stream";
+
+export interface StreamOptions {
+  // Called with each event in order; the conversion waits for it
+  onEvent: (event: ConvertStreamEvent) => void | Promise<void>;
+  // Checked before each stage; once true, the conversion stops
+  isCancelled?: () => boolean;
+}
+
+// A piece of the target code, as the "partial" event sends it, and the diagnostics found in it
+type DeclarationChunk = Omit<Extract<ConvertStreamEvent, { type: "partial" }>, "type"> & {
+  diagnostics: ConversionDiagnostic[];
+};
+
+/**
+ * Cuts the target code into consecutive pieces, one per top-level statement
+ * of the source, where the source map shows the output of the next statement
+ * starting. Output an emitter wrote out of order, such as imports it added
+ * at the top, stays in the piece it appears in, so the pieces always join
+ * into the whole code. Statements without output of their own add no piece.
+ */
+function declarationChunks(module: ir.Module | undefined, result: ConversionResult): DeclarationChunk[] {
+  const statements = module?.body.filter((statement) => statement.loc) ?? [];
+  if (statements.length === 0) return [{ index: 1, total: 1, code: result.code, diagnostics: result.diagnostics }];
+
+  const lines = result.code.split("\n");
+  const origins = originLines(result.sourceMap);
+  const owners = lines.map((_, index) => {
+    const line = origins[index];
+    if (line === undefined) return -1;
+    return statements.findIndex(({ loc }) => loc!.start.line <= line && line <= loc!.end.line);
+  });
+
+  const chunks: DeclarationChunk[] = [];
+  let start = 0;
+  statements.forEach((statement, index) => {
+    let end = start;
+    while (end < lines.length && owners[end] <= index) end++;
+    if (index === statements.length - 1) end = lines.length;
+    if (end === start) return;
+    const code = lines.slice(start, end).join("\n") + (end < lines.length ? "\n" : "");
+    const diagnostics = result.diagnostics.filter((diagnostic) => {
+      // Diagnostics about no line in particular come with the last piece
+      const line = diagnostic.targetRange ? diagnostic.targetRange.start.line - 1 : lines.length - 1;
+      return line >= start && line < end;
+    });
+    chunks.push({ index: index + 1, total: statements.length, name: declaredNames(statement)[0], code, diagnostics });
+    start = end;
+  });
+  return chunks;
+}
+
+// Lets other requests and the writes already queued go first between stages
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Converts the code one stage at a time, sending each stage as it starts and
+ * finishes, the target code a top-level declaration at a time and the
+ * diagnostics with the code they are about. Resolves to the finished
+ * conversion, for the caller to save and send as the "result" event, or to
+ * undefined once cancelled. Errors are thrown for the caller to report; they
+ * are thrown before the first event when the language pair is not supported.
+ */
+export async function streamConversion(
+  streamRequest: ConvertStreamRequest,
+  options: StreamOptions
+): Promise<ConvertCodeResponse | undefined> {
+  const { verify, stdin, ...request } = streamRequest;
+  const { sourceCode, sourceLanguage, targetLanguage } = request;
+  const converter = converterRegistry.get(sourceLanguage, targetLanguage);
+  if (!converter) {
+    throw new UnsupportedLanguagePairError(sourceLanguage, targetLanguage);
+  }
+
+  const { stages } = converter;
+  const planned: ConversionStage[] = [
+    ...(stages ? (["parse", "transform"] as const) : []),
+    "emit",
+    ...(verify ? (["verify"] as const) : []),
+    "docs",
+  ];
+  await options.onEvent({ type: "start", stages: planned });
+
+  let cancelled = false;
+  const run = async <T>(stage: ConversionStage, work: () => T | Promise<T>): Promise<T | undefined> => {
+    await yieldToEventLoop();
+    cancelled ||= options.isCancelled?.() ?? false;
+    if (cancelled) return undefined;
+    await options.onEvent({ type: "stage", stage, status: "started" });
+    const value = await work();
+    await options.onEvent({ type: "stage", stage, status: "finished" });
+    return value;
+  };
+  const sendDiagnostics = async (diagnostics: ConversionDiagnostic[]) => {
+    for (const diagnostic of diagnostics) await options.onEvent({ type: "diagnostic", diagnostic });
+  };
+  const sendChunks = async (module: ir.Module | undefined, result: ConversionResult) => {
+    for (const { diagnostics, ...chunk } of declarationChunks(module, result)) {
+      await options.onEvent({ type: "partial", ...chunk });
+      await sendDiagnostics(diagnostics);
+    }
+  };
+
+  let result: ConversionResult | undefined;
+  if (stages) {
+    const module = await run("parse", () => stages.parse(sourceCode));
+    if (!module) return;
+    const transformed = await run("transform", () => stages.transform(module, request.options));
+    if (!transformed) return;
+    // Renaming notes have no place in the output yet, so they go out as soon as they are found
+    await sendDiagnostics(transformed.notes.map(noteDiagnostic));
+    const emitted = await run("emit", async () => {
+      const emitted = stages.emit(transformed.module, request.options);
+      await sendChunks(module, emitted);
+      return emitted;
+    });
+    result = emitted && withNotes(emitted, transformed.notes);
+  } else {
+    // Converters that are not built on the IR run as a single step
+    result = await run("emit", async () => {
+      const converted = converter.convert(sourceCode, request.options);
+      await sendChunks(undefined, converted);
+      return converted;
+    });
+  }
+  if (!result) return;
+  const { code: targetCode, diagnostics, sourceMap } = result;
+
+  let verification: ConvertCodeResponse["verification"];
+  if (verify) {
+    verification = await run("verify", () =>
+      verifyConversion({
+        sourceCode,
+        // The request only asks to verify languages the sandbox runs
+        sourceLanguage: sourceLanguage as VerifyConversionRequest["sourceLanguage"],
+        targetCode,
+        targetLanguage: targetLanguage as VerifyConversionRequest["targetLanguage"],
+        stdin,
+      })
+    );
+    if (!verification) return;
+  }
+
+  const docs = await run("docs", () => documentConversion(request, targetCode));
+  if (!docs) return;
+
+  const response: ConvertCodeResponse = {
+    targetCode,
+    ...docs,
+    diagnostics,
+    confidence: confidenceScore(diagnostics, sourceCode),
+    sourceMap: withSourceContent(sourceMap, sourceCode),
+    converter: converterSummary(converter),
+  };
+  if (verification) response.verification = verification;
+  return response;
+}
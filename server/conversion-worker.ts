@@ -0,0 +1,51 @@
+import { parentPort } from "worker_threads";
+import type { ConversionTask, SerializedError, WorkerRequest, WorkerResponse } from "./conversion-pool";
+import { streamConversion } from "./conversion-stream";
+import { convertCodeWithGitHub } from "./github-api";
+import { convertProjectArchive } from "./project";
+
+// Entry point of a ConversionPool worker: runs one task at a time and answers with its result or error
+
+const port = parentPort!;
+
+// Ids of running tasks asked to stop
+const cancelled = new Set<number>();
+
+function post(message: WorkerResponse): void {
+  port.postMessage(message);
+}
+
+// Own fields, such as a parse error's position, travel with the error
+function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) return { name: "Error", message: String(error) };
+  return { ...error, name: error.name, message: error.message, stack: error.stack };
+}
+
+function runTask(id: number, task: ConversionTask): Promise<unknown> | unknown {
+  switch (task.kind) {
+    case "convert":
+      return convertCodeWithGitHub(task.request);
+    case "stream":
+      return streamConversion(task.request, {
+        onEvent: (event) => post({ id, event }),
+        isCancelled: () => cancelled.has(id),
+      });
+    case "project":
+      return convertProjectArchive(task.data, task.query);
+  }
+}
+
+port.on("message", async (message: WorkerRequest) => {
+  if ("cancel" in message) {
+    cancelled.add(message.id);
+    return;
+  }
+  const { id, task } = message;
+  try {
+    post({ id, result: await runTask(id, task) });
+  } catch (error) {
+    post({ id, error: serializeError(error) });
+  } finally {
+    cancelled.delete(id);
+  }
+});
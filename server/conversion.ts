@@ -0,0 +1,107 @@
+import type { ConvertCodeRequest, ConvertCodeResponse } from "@shared/schema";
+import { storage } from "./storage";
+import { ConversionLimitError, conversionPool, PoolSaturatedError } from "./conversion-pool";
+import { SourceParseError, UnsupportedLanguagePairError, UnsupportedOptionError } from "./converter/errors";
+import { ArchiveError, ProjectTooLargeError } from "./project/errors";
+import { SandboxBusyError } from "./sandbox/errors";
+
+// What a failed conversion answers; `body` always has a `message`
+export interface ConversionErrorResponse {
+  status: number;
+  body: { message: string; error?: string; [key: string]: unknown };
+  headers?: Record<string, string>;
+}
+
+/**
+ * Converts the code on a pool worker and saves the result to `userId`'s
+ * history, or to the anonymous history when it is null.
+ */
+export async function convertAndSave(
+  request: ConvertCodeRequest,
+  userId: number | null
+): Promise<ConvertCodeResponse> {
+  return saveConversion(request, await conversionPool.run({ kind: "convert", request }), userId);
+}
+
+/**
+ * Saves a finished conversion to the user's history and returns it with its
+ * id. Anonymous conversions are not kept, since no one could be told apart
+ * as their owner.
+ */
+export async function saveConversion(
+  request: ConvertCodeRequest,
+  result: ConvertCodeResponse,
+  userId: number | null
+): Promise<ConvertCodeResponse> {
+  if (userId === null) return result;
+  const conversion = await storage.createCodeConversion({
+    sourceCode: request.sourceCode,
+    targetCode: result.targetCode,
+    sourceLanguage: request.sourceLanguage,
+    targetLanguage: request.targetLanguage,
+    explanation: result.explanation,
+    skillLevel: request.skillLevel,
+    options: request.options ?? {},
+    engineVersion: result.converter?.version ?? null,
+    diagnostics: result.diagnostics,
+    verification: result.verification ?? null,
+    userId,
+  });
+  return { ...result, conversionId: conversion.id };
+}
+
+/** The status and body a conversion error is reported with. */
+export function conversionErrorResponse(error: unknown): ConversionErrorResponse {
+  if (error instanceof UnsupportedLanguagePairError) {
+    return {
+      status: 422,
+      body: {
+        message: "Language pair not supported",
+        error: error.message,
+        sourceLanguage: error.sourceLanguage,
+        targetLanguage: error.targetLanguage,
+      },
+    };
+  }
+  if (error instanceof SourceParseError) {
+    return {
+      status: 422,
+      body: {
+        message: `Could not parse ${error.language} source code`,
+        error: error.message,
+        position: error.position,
+      },
+    };
+  }
+  if (error instanceof UnsupportedOptionError) {
+    return {
+      status: 422,
+      body: {
+        message: "Conversion option not supported",
+        error: error.message,
+        option: error.option,
+      },
+    };
+  }
+  if (error instanceof ConversionLimitError) {
+    return {
+      status: 422,
+      body: { message: "Conversion exceeded its limits", error: error.message, limit: error.limit },
+    };
+  }
+  if (error instanceof PoolSaturatedError || error instanceof SandboxBusyError) {
+    return {
+      status: 503,
+      body: { message: "Server busy", error: error.message },
+      headers: { "Retry-After": String(error.retryAfterSeconds) },
+    };
+  }
+  if (error instanceof ArchiveError) {
+    return { status: 400, body: { message: error.message } };
+  }
+  if (error instanceof ProjectTooLargeError) {
+    return { status: 413, body: { message: error.message } };
+  }
+  console.error("Error in code conversion:", error);
+  return { status: 500, body: { message: "Failed to convert code", error: (error as Error).message } };
+}
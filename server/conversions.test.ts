@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { CodeConversion, ConversionPage, ConvertCodeRequest } from "@shared/schema";
+import { startTestServer, type TestClient, type TestServer } from "./test-server";
+
+let server: TestServer;
+let accounts = 0;
+
+async function signedInClient(): Promise<TestClient> {
+  const client = server.client();
+  const response = await client.request("POST", "/api/register", { username: `history${++accounts}`, password: "correct horse" });
+  assert.equal(response.status, 201);
+  return client;
+}
+
+async function convert(client: TestClient, changes: Partial<ConvertCodeRequest> = {}): Promise<number> {
+  const response = await client.request("POST", "/api/convert", {
+    sourceCode: "console.log(1 + 2);",
+    sourceLanguage: "javascript",
+    targetLanguage: "python",
+    skillLevel: "beginner",
+    ...changes,
+  });
+  assert.equal(response.status, 200);
+  return (await response.json()).conversionId;
+}
+
+async function list(client: TestClient, query = ""): Promise<ConversionPage> {
+  const response = await client.request("GET", `/api/conversions${query}`);
+  assert.equal(response.status, 200);
+  return response.json();
+}
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+describe("conversion history", () => {
+  it("saves each conversion with its options, engine version and diagnostics", async () => {
+    const client = await signedInClient();
+    const id = await convert(client, { sourceLanguage: "python", targetLanguage: "javascript", sourceCode: "if not items:\n    pass\n", options: { semicolons: false } });
+
+    const response = await client.request("GET", `/api/conversions/${id}`);
+    assert.equal(response.status, 200);
+    const saved: CodeConversion = await response.json();
+    assert.equal(saved.skillLevel, "beginner");
+    assert.deepEqual(saved.options, { semicolons: false });
+    assert.ok(saved.engineVersion);
+    assert.deepEqual(saved.diagnostics.map((diagnostic) => diagnostic.code), ["truthiness"]);
+  });
+
+  it("lists newest first, a page at a time, filtered by language and date", async () => {
+    const client = await signedInClient();
+    const first = await convert(client);
+    const second = await convert(client, { targetLanguage: "swift" });
+    const third = await convert(client);
+
+    const page = await list(client, "?pageSize=2");
+    assert.equal(page.total, 3);
+    assert.deepEqual(page.conversions.map((conversion) => conversion.id), [third, second]);
+    assert.deepEqual((await list(client, "?pageSize=2&page=2")).conversions.map((conversion) => conversion.id), [first]);
+
+    assert.deepEqual((await list(client, "?targetLanguage=swift")).conversions.map((conversion) => conversion.id), [second]);
+    const tomorrow = new Date(Date.now() + 86_400_000).toISOString();
+    assert.equal((await list(client, `?from=${tomorrow}`)).total, 0);
+    assert.equal((await list(client, `?to=${tomorrow}`)).total, 3);
+  });
+
+  it("deletes a conversion once", async () => {
+    const client = await signedInClient();
+    const id = await convert(client);
+    assert.equal((await client.request("DELETE", `/api/conversions/${id}`)).status, 204);
+    assert.equal((await client.request("DELETE", `/api/conversions/${id}`)).status, 404);
+    assert.equal((await client.request("GET", `/api/conversions/${id}`)).status, 404);
+  });
+
+  it("keeps each user's history to themselves", async () => {
+    const owner = await signedInClient();
+    const other = await signedInClient();
+    const id = await convert(owner);
+
+    assert.equal((await list(other)).total, 0);
+    assert.equal((await other.request("GET", `/api/conversions/${id}`)).status, 404);
+    assert.equal((await other.request("DELETE", `/api/conversions/${id}`)).status, 404);
+    assert.equal((await server.client().request("GET", "/api/conversions")).status, 401);
+  });
+
+  it("refuses a malformed id or query", async () => {
+    const client = await signedInClient();
+    assert.equal((await client.request("GET", "/api/conversions/abc")).status, 400);
+    assert.equal((await client.request("GET", "/api/conversions?pageSize=1000")).status, 400);
+  });
+});
@@ -0,0 +1,35 @@
+import { ConverterRegistry } from "../registry";
+import { parseJavaScript } from "../parsers/javascript";
+import { parsePython } from "../parsers/python";
+import { emitTransformedGo, transformForGo } from "../emitters/go";
+import { emitTransformedJavaScript, transformForJavaScript } from "../emitters/javascript";
+import { emitTransformedKotlin, transformForKotlin } from "../emitters/kotlin";
+import { emitTransformedPython, transformForPython } from "../emitters/python";
+import { emitTransformedSwift, transformForSwift } from "../emitters/swift";
+import { javascriptToPython } from "./javascript-python";
+import { javascriptToSwift } from "./javascript-swift";
+import { pythonToJavaScript } from "./python-javascript";
+
+export const converterRegistry = new ConverterRegistry();
+
+converterRegistry.register(javascriptToPython);
+converterRegistry.register(javascriptToSwift);
+converterRegistry.register(pythonToJavaScript);
+
+// Front-ends and back-ends cover every other pair through the IR, e.g. Python to Swift
+converterRegistry.registerFrontEnd({
+  language: "javascript",
+  supportedConstructs: javascriptToPython.supportedConstructs,
+  parse: parseJavaScript,
+});
+converterRegistry.registerFrontEnd({
+  language: "python",
+  supportedConstructs: pythonToJavaScript.supportedConstructs,
+  parse: parsePython,
+});
+
+converterRegistry.registerBackEnd({ language: "javascript", transform: transformForJavaScript, emit: emitTransformedJavaScript });
+converterRegistry.registerBackEnd({ language: "python", transform: transformForPython, emit: emitTransformedPython });
+converterRegistry.registerBackEnd({ language: "swift", transform: transformForSwift, emit: emitTransformedSwift });
+converterRegistry.registerBackEnd({ language: "kotlin", transform: transformForKotlin, emit: emitTransformedKotlin });
+converterRegistry.registerBackEnd({ language: "go", transform: transformForGo, emit: emitTransformedGo });
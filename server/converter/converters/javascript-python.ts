@@ -0,0 +1,32 @@
+import type { Converter } from "../registry";
+import { parseJavaScript } from "../parsers/javascript";
+import { emitPython, emitTransformedPython, transformForPython } from "../emitters/python";
+
+export const javascriptToPython: Converter = {
+  sourceLanguage: "javascript",
+  targetLanguage: "python",
+  version: "1.0.0",
+  capabilities: {
+    parsing: "ast",
+    preservesComments: true,
+    handlesMultiLineStatements: true,
+  },
+  supportedConstructs: [
+    "functions",
+    "arrow-functions",
+    "classes",
+    "variables",
+    "destructuring",
+    "if/else",
+    "for",
+    "for-of",
+    "for-in",
+    "while",
+    "do-while",
+    "switch",
+    "try/catch",
+    "template-literals",
+  ],
+  convert: (sourceCode, options) => emitPython(parseJavaScript(sourceCode), options),
+  stages: { parse: parseJavaScript, transform: transformForPython, emit: emitTransformedPython },
+};
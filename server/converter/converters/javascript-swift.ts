@@ -0,0 +1,33 @@
+import type { Converter } from "../registry";
+import { parseJavaScript } from "../parsers/javascript";
+import { emitSwift, emitTransformedSwift, transformForSwift } from "../emitters/swift";
+
+export const javascriptToSwift: Converter = {
+  sourceLanguage: "javascript",
+  targetLanguage: "swift",
+  version: "1.0.0",
+  capabilities: {
+    parsing: "ast",
+    preservesComments: true,
+    handlesMultiLineStatements: true,
+  },
+  supportedConstructs: [
+    "functions",
+    "arrow-functions",
+    "classes",
+    "getters/setters",
+    "variables",
+    "destructuring",
+    "if/else",
+    "for",
+    "for-of",
+    "for-in",
+    "while",
+    "do-while",
+    "switch",
+    "try/catch",
+    "template-literals",
+  ],
+  convert: (sourceCode, options) => emitSwift(parseJavaScript(sourceCode), options),
+  stages: { parse: parseJavaScript, transform: transformForSwift, emit: emitTransformedSwift },
+};
@@ -0,0 +1,32 @@
+import type { Converter } from "../registry";
+import { parsePython } from "../parsers/python";
+import { emitJavaScript, emitTransformedJavaScript, transformForJavaScript } from "../emitters/javascript";
+
+export const pythonToJavaScript: Converter = {
+  sourceLanguage: "python",
+  targetLanguage: "javascript",
+  version: "1.0.0",
+  capabilities: {
+    parsing: "ast",
+    preservesComments: true,
+    handlesMultiLineStatements: true,
+  },
+  supportedConstructs: [
+    "functions",
+    "lambdas",
+    "classes",
+    "decorators",
+    "variables",
+    "tuple-unpacking",
+    "if/elif/else",
+    "for",
+    "while",
+    "try/except/finally",
+    "with",
+    "comprehensions",
+    "f-strings",
+    "slicing",
+  ],
+  convert: (sourceCode, options) => emitJavaScript(parsePython(sourceCode), options),
+  stages: { parse: parsePython, transform: transformForJavaScript, emit: emitTransformedJavaScript },
+};
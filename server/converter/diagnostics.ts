@@ -0,0 +1,121 @@
+import type { ConversionDiagnostic, DiagnosticSeverity, SourceMap } from "@shared/schema";
+import type * as ir from "./ir";
+import type { CodeWriter } from "./emitters/code-writer";
+
+/** A problem found while emitting, before its place in the output is known. */
+export interface ConversionNote {
+  severity: DiagnosticSeverity;
+  // Stable kebab-case identifier, e.g. "unsupported-statement"
+  code: string;
+  message: string;
+  loc?: ir.SourceRange;
+}
+
+/** Output of a converter, front-end plus back-end or dedicated. */
+export interface ConversionResult {
+  code: string;
+  diagnostics: ConversionDiagnostic[];
+  // Maps positions in `code` back to the source
+  sourceMap: SourceMap;
+}
+
+/** A module rewritten for a target before it is emitted, with what the rewrite had to report. */
+export interface TransformResult {
+  module: ir.Module;
+  notes: ConversionNote[];
+}
+
+interface RecordedNote {
+  note: ConversionNote;
+  // 0-based indices of the first and last output line the note is about
+  firstLine: number;
+  lastLine: number;
+}
+
+/**
+ * Ties the notes an emitter raises to the output lines they describe, so each
+ * one can be reported with both a source and a target range.
+ */
+export class DiagnosticCollector {
+  private recorded: RecordedNote[] = [];
+
+  record(note: ConversionNote, firstLine: number, lastLine = firstLine): void {
+    this.recorded.push({ note, firstLine, lastLine });
+  }
+
+  // Notes without their output lines, for emitters whose text is re-indented into another one
+  notes(): ConversionNote[] {
+    return this.recorded.map(({ note }) => note);
+  }
+
+  // Moves every recorded note down after lines were inserted at the top of the output
+  shift(lines: number): void {
+    for (const recorded of this.recorded) {
+      recorded.firstLine += lines;
+      recorded.lastLine += lines;
+    }
+  }
+
+  resolve(writer: CodeWriter): ConversionDiagnostic[] {
+    return this.recorded.map(({ note, firstLine, lastLine }) => {
+      const diagnostic: ConversionDiagnostic = {
+        severity: note.severity,
+        code: note.code,
+        message: note.message,
+      };
+      if (note.loc) diagnostic.sourceRange = note.loc;
+
+      const first = writer.lineAt(firstLine);
+      const last = writer.lineAt(lastLine);
+      if (first !== undefined && last !== undefined) {
+        diagnostic.targetRange = {
+          start: { line: firstLine + 1, column: first.length - first.trimStart().length },
+          end: { line: lastLine + 1, column: last.length },
+        };
+      }
+      return diagnostic;
+    });
+  }
+}
+
+const SEVERITY_WEIGHT: Record<DiagnosticSeverity, number> = {
+  error: 1,
+  warning: 0.5,
+  info: 0.1,
+};
+
+/**
+ * Share of the source lines that converted without remarks. Each line counts
+ * against the score once, weighted by the most severe diagnostic covering it.
+ */
+export function confidenceScore(diagnostics: ConversionDiagnostic[], sourceCode: string): number {
+  const sourceLines = sourceCode.split("\n").filter((line) => line.trim() !== "").length;
+  if (sourceLines === 0) return 1;
+
+  const weights = new Map<number, number>();
+  for (const diagnostic of diagnostics) {
+    const weight = SEVERITY_WEIGHT[diagnostic.severity];
+    const start = diagnostic.sourceRange?.start.line ?? 0;
+    const end = diagnostic.sourceRange?.end.line ?? start;
+    for (let line = start; line <= end; line++) {
+      weights.set(line, Math.max(weights.get(line) ?? 0, weight));
+    }
+  }
+
+  let penalty = 0;
+  for (const weight of Array.from(weights.values())) penalty += weight;
+  return Math.round(Math.max(0, 1 - penalty / sourceLines) * 100) / 100;
+}
+
+/** The diagnostic for a note raised before emitting, which has no place in the output. */
+export function noteDiagnostic(note: ConversionNote): ConversionDiagnostic {
+  const diagnostic: ConversionDiagnostic = { severity: note.severity, code: note.code, message: note.message };
+  if (note.loc) diagnostic.sourceRange = note.loc;
+  return diagnostic;
+}
+
+/** Adds notes raised before emitting to a result. */
+export function withNotes(result: ConversionResult, notes: ConversionNote[]): ConversionResult {
+  if (notes.length === 0) return result;
+  return { ...result, diagnostics: [...notes.map(noteDiagnostic), ...result.diagnostics] };
+}
@@ -0,0 +1,70 @@
+import type { SourceRange } from "../ir";
+
+/**
+ * Line-oriented output buffer that tracks indentation for emitters.
+ */
+export class CodeWriter {
+  private lines: string[] = [];
+  // Source range each line was written for, used to build the source map
+  private origins: (SourceRange | undefined)[] = [];
+  private depth = 0;
+  // Range attributed to the lines written from now on
+  origin?: SourceRange;
+
+  constructor(private readonly indentUnit: string) {}
+
+  line(text = ""): void {
+    this.lines.push(text === "" ? "" : this.indentUnit.repeat(this.depth) + text);
+    this.origins.push(text === "" ? undefined : this.origin);
+  }
+
+  // Adds to the end of a line written earlier (the last one by default), e.g. a comment after a statement
+  append(text: string, index = this.lines.length - 1): void {
+    if (index < 0 || index >= this.lines.length) this.line(text.trimStart());
+    else this.lines[index] += text;
+  }
+
+  // Avoids stacking blank lines when several sections each ask for a separator
+  blankLine(): void {
+    if (this.lines.length > 0 && this.lines[this.lines.length - 1] !== "") {
+      this.lines.push("");
+      this.origins.push(undefined);
+    }
+  }
+
+  indent(): void {
+    this.depth++;
+  }
+
+  dedent(): void {
+    this.depth = Math.max(0, this.depth - 1);
+  }
+
+  block(body: () => void): void {
+    this.indent();
+    body();
+    this.dedent();
+  }
+
+  // Inserts lines above everything written so far, e.g. imports discovered while emitting
+  prepend(lines: string[]): void {
+    this.lines.unshift(...lines);
+    this.origins.unshift(...lines.map(() => undefined));
+  }
+
+  lineAt(index: number): string | undefined {
+    return this.lines[index];
+  }
+
+  originAt(index: number): SourceRange | undefined {
+    return this.origins[index];
+  }
+
+  get lineCount(): number {
+    return this.lines.length;
+  }
+
+  toString(): string {
+    return this.lines.join("\n");
+  }
+}
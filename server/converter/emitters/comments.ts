@@ -0,0 +1,126 @@
+import type * as ir from "../ir";
+
+/** Types printed in a doc comment, keyed by parameter name. */
+export interface DocTypes {
+  params: Map<string, string>;
+  returns?: string;
+}
+
+/** Lines for a leading or trailing comment in a language whose line comments start with `prefix`. */
+export function commentLines(comment: ir.Comment, prefix: "//" | "#"): string[] {
+  const lines = comment.text.split("\n");
+  if (!comment.block || prefix === "#") return lines.map((line) => (line ? `${prefix} ${line}` : prefix));
+  if (lines.length === 1) return [`/* ${lines[0]} */`];
+  return ["/*", ...lines.map((line) => (line ? ` * ${line}` : " *")), " */"];
+}
+
+/** Text appended to a statement's last line for a comment that followed it. */
+export function inlineComment(comment: ir.Comment, prefix: "//" | "#"): string {
+  const text = comment.text.replace(/\s*\n\s*/g, " ");
+  if (prefix === "#") return `  # ${text}`;
+  return comment.block ? ` /* ${text} */` : ` // ${text}`;
+}
+
+/** A JSDoc block. Types come from `types` when given, otherwise from the doc itself. */
+export function formatJsDoc(doc: ir.DocComment, types?: DocTypes): string[] {
+  const body = descriptionLines(doc);
+  const tags: string[] = [];
+  for (const param of doc.params) {
+    const type = types ? types.params.get(param.name) : param.type;
+    tags.push(joinWords("@param", type && `{${type}}`, param.name, param.description));
+  }
+  if (doc.returns) {
+    const type = types ? types.returns : doc.returns.type;
+    tags.push(joinWords("@returns", type && `{${type}}`, doc.returns.description));
+  }
+  for (const thrown of doc.throws) {
+    tags.push(joinWords("@throws", thrown.type && `{${thrown.type}}`, thrown.description));
+  }
+  if (body.length > 0 && tags.length > 0) body.push("");
+  body.push(...tags);
+
+  if (body.length === 1) return [`/** ${body[0]} */`];
+  return ["/**", ...body.map((line) => (line ? ` * ${line}` : " *")), " */"];
+}
+
+/** A Google-style docstring. Parameter types are left to the signature's hints. */
+export function formatDocstring(doc: ir.DocComment): string[] {
+  const body = descriptionLines(doc);
+  const section = (title: string, entries: string[]) => {
+    if (entries.length === 0) return;
+    if (body.length > 0) body.push("");
+    body.push(`${title}:`, ...entries.map((entry) => `    ${entry}`));
+  };
+  section("Args", doc.params.map((param) => `${param.name}: ${param.description}`.trimEnd()));
+  section("Returns", doc.returns ? [doc.returns.description] : []);
+  section("Raises", doc.throws.map((thrown) => (thrown.type ? `${thrown.type}: ${thrown.description}` : thrown.description).trimEnd()));
+
+  const escaped = body.map((line) => line.replace(/\\/g, "\\\\").replace(/"""/g, '\\"\\"\\"'));
+  if (escaped.length === 1 && !escaped[0].endsWith('"')) return [`"""${escaped[0]}"""`];
+  return [`"""${escaped[0] ?? ""}`, ...escaped.slice(1), '"""'];
+}
+
+/** Swift markup (`///` with `- Parameter`, `- Returns:` and `- Throws:`). */
+export function formatSwiftDoc(doc: ir.DocComment): string[] {
+  const body = descriptionLines(doc);
+  const fields: string[] = [];
+  if (doc.params.length === 1) {
+    fields.push(`- Parameter ${doc.params[0].name}: ${doc.params[0].description}`.trimEnd());
+  } else if (doc.params.length > 1) {
+    fields.push("- Parameters:", ...doc.params.map((param) => `  - ${param.name}: ${param.description}`.trimEnd()));
+  }
+  if (doc.returns) fields.push(`- Returns: ${doc.returns.description}`.trimEnd());
+  if (doc.throws.length > 0) fields.push(`- Throws: ${doc.throws.map(throwsText).join("; ")}`.trimEnd());
+  if (body.length > 0 && fields.length > 0) body.push("");
+  return [...body, ...fields].map((line) => (line ? `/// ${line}` : "///"));
+}
+
+/** A KDoc block. */
+export function formatKDoc(doc: ir.DocComment): string[] {
+  const body = descriptionLines(doc);
+  const tags = [
+    ...doc.params.map((param) => joinWords("@param", param.name, param.description)),
+    ...(doc.returns ? [joinWords("@return", doc.returns.description)] : []),
+    ...doc.throws.map((thrown) => joinWords("@throws", thrown.type, thrown.description)),
+  ];
+  if (body.length > 0 && tags.length > 0) body.push("");
+  body.push(...tags);
+  if (body.length === 1) return [`/** ${body[0]} */`];
+  return ["/**", ...body.map((line) => (line ? ` * ${line}` : " *")), " */"];
+}
+
+/** A Go doc comment, which by convention opens with the declared name. */
+export function formatGoDoc(name: string, doc: ir.DocComment): string[] {
+  const body = descriptionLines(doc);
+  if (body.length > 0 && !body[0].startsWith(name)) body[0] = `${name} ${lowerFirst(body[0])}`;
+  const details = [
+    ...doc.params.filter((param) => param.description).map((param) => `${param.name}: ${param.description}`),
+    ...(doc.returns?.description ? [`Returns ${lowerFirst(doc.returns.description)}`] : []),
+    ...doc.throws.map((thrown) => `Fails with ${throwsText(thrown)}`),
+  ];
+  if (body.length > 0 && details.length > 0) body.push("");
+  body.push(...details);
+  return body.map((line) => (line ? `// ${line}` : "//"));
+}
+
+/** The doc with thrown error types renamed to the target language's classes. */
+export function renameThrows(doc: ir.DocComment, classes: Record<string, string>): ir.DocComment {
+  const rename = (type?: string) => (type && Object.prototype.hasOwnProperty.call(classes, type) ? classes[type] : type);
+  return { ...doc, throws: doc.throws.map((thrown) => ({ ...thrown, type: rename(thrown.type) })) };
+}
+
+function descriptionLines(doc: ir.DocComment): string[] {
+  return doc.description ? doc.description.split("\n").map((line) => line.trimEnd()) : [];
+}
+
+function throwsText(thrown: { type?: string; description: string }): string {
+  return thrown.type ? `${thrown.type} ${lowerFirst(thrown.description)}`.trim() : thrown.description;
+}
+
+function joinWords(...words: (string | undefined)[]): string {
+  return words.filter(Boolean).join(" ");
+}
+
+function lowerFirst(text: string): string {
+  return /^[A-Z](?![A-Z])/.test(text) ? text[0].toLowerCase() + text.slice(1) : text;
+}
@@ -0,0 +1,134 @@
+import type * as ir from "../ir";
+import { CodeWriter } from "./code-writer";
+import { commentLines, inlineComment } from "./comments";
+import { DiagnosticCollector, type ConversionNote } from "../diagnostics";
+import { droppedImportNotes } from "../modules";
+import { walk } from "../walk";
+import type { EmitOptions } from "../options";
+import type { IdiomMapper, IdiomMatch } from "../idioms";
+import type { DiagnosticSeverity } from "@shared/schema";
+
+/**
+ * What every emitter shares: the writer, the notes raised while printing a
+ * statement, comments and imports of packages outside the project.
+ */
+export abstract class Emitter {
+  protected readonly writer: CodeWriter;
+  protected readonly diagnostics = new DiagnosticCollector();
+  // Notes raised while printing the current statement, recorded against its first line
+  protected notes: ConversionNote[] = [];
+  // Statement being printed; notes without a node of their own point at it
+  protected statement?: ir.Statement;
+  protected idioms!: IdiomMapper;
+  // Names the module uses and temporaries taken so far, shared with nested emitters
+  protected takenNames = new Set<string>();
+  // The update of a `for` loop printed as a `while` loop, run before each `continue` of it
+  protected continueUpdates = new Map<ir.ContinueStatement, ir.Expression>();
+  // The target as diagnostics name it, e.g. "Swift"
+  protected abstract readonly targetName: string;
+  // Starts a line comment, e.g. "//"
+  protected abstract readonly commentPrefix: "//" | "#";
+
+  constructor(protected readonly options: EmitOptions) {
+    this.writer = new CodeWriter(options.indent);
+  }
+
+  protected emitComments(comments: ir.Comment[] | undefined): void {
+    for (const comment of comments ?? []) {
+      if (!comment.text) continue;
+      this.withOrigin(comment, () => commentLines(comment, this.commentPrefix).forEach((line) => this.writer.line(line)));
+    }
+  }
+
+  // Keeps the blank line between a file header or section comment and the code below it
+  protected separateDetachedComments(statement: ir.Statement): void {
+    const last = statement.leadingComments?.[statement.leadingComments.length - 1]?.loc?.end.line;
+    const next = (statement.doc ?? statement).loc?.start.line;
+    if (last !== undefined && next !== undefined && next > last + 1) this.writer.blankLine();
+  }
+
+  // Goes on the last line printed for the node, or on its first if the node was a single
+  // line in the source (`if (x) return; // why`), or on its own line if nothing was printed
+  protected emitInlineComment(node: ir.Statement | ir.ClassMember, before: number): void {
+    const comment = node.inlineComment;
+    if (!comment) return;
+    if (this.writer.lineCount === before) {
+      this.emitComments([comment]);
+      return;
+    }
+    const singleLine = node.loc !== undefined && node.loc.start.line === comment.loc?.start.line;
+    this.writer.append(inlineComment(comment, this.commentPrefix), singleLine ? before : undefined);
+  }
+
+  // Attributes the lines written by `body` to `node` in the source map
+  protected withOrigin(node: { loc?: ir.SourceRange }, body: () => void): void {
+    const outer = this.writer.origin;
+    this.writer.origin = node.loc ?? outer;
+    body();
+    this.writer.origin = outer;
+  }
+
+  protected note(code: string, message: string, node?: { loc?: ir.SourceRange }, severity: DiagnosticSeverity = "warning"): void {
+    this.notes.push({ severity, code, message, loc: node?.loc ?? this.statement?.loc });
+  }
+
+  // Ties pending notes to the next line written
+  protected flushNotes(): void {
+    for (const note of this.notes) {
+      this.diagnostics.record(note, this.writer.lineCount);
+    }
+    this.notes = [];
+  }
+
+  // Writes code that may span several lines (e.g. closures) at the current indentation
+  protected write(code: string): void {
+    this.flushNotes();
+    for (const line of code.split("\n")) {
+      this.writer.line(line);
+    }
+  }
+
+  // Keeps temporaries clear of every name in `module`
+  protected reserveNames(module: ir.Module): void {
+    walk(module, (node) => {
+      if ("name" in node && typeof node.name === "string") this.takenNames.add(node.name);
+      if ("params" in node) for (const param of node.params) this.takenNames.add(param.name);
+    });
+  }
+
+  // A name for a value the output holds on to, e.g. "destructured", then "destructured2"
+  protected temporary(base: string): string {
+    let name = base;
+    for (let suffix = 2; this.takenNames.has(name); suffix++) name = `${base}${suffix}`;
+    this.takenNames.add(name);
+    return name;
+  }
+
+  // What a reviewer should know about a library construct printed through the idiom table
+  protected noteIdiom(match: IdiomMatch, node: ir.Expression): void {
+    if (match.note) this.note("idiom", `${match.name}: ${match.note}`, node, "info");
+    if (match.dropped.length > 0) {
+      const names = match.dropped.map((arg) => arg.name).join(", ");
+      this.note("keyword-arguments", `keyword arguments (${names}) of ${match.name} were dropped`, match.dropped[0]);
+    }
+    if (match.ignoredParams.length > 0) {
+      const names = match.ignoredParams.map((param) => param.name).join(", ");
+      this.note("callback-parameters", `the ${match.name} callback is passed the element and its index only, so ${names} is undefined`, match.ignoredParams[0], "error");
+    }
+  }
+
+  // Modules of the project have no counterpart by default; emitters that print them override this
+  protected emitImport(statement: ir.ImportDeclaration): void {
+    if (statement.module.parents === undefined) this.emitPackageImport(statement);
+    else this.notes.push(...droppedImportNotes(statement, this.targetName));
+  }
+
+  // A package outside the project, dropped when the idiom table maps its uses
+  protected emitPackageImport(statement: ir.ImportDeclaration): void {
+    if (this.idioms.mapsImport(statement)) {
+      this.note("import-mapped", `Uses of ${statement.specifier} are mapped to ${this.targetName} equivalents, so its import was dropped`, statement, "info");
+      return;
+    }
+    this.note("import-not-translated", `${statement.specifier} is not a module of this project; import a ${this.targetName} equivalent by hand`, statement);
+  }
+}
@@ -0,0 +1,60 @@
+import type * as ir from "../ir";
+import type { TransformResult } from "../diagnostics";
+import { someNode, walk } from "../walk";
+
+const hasElse = (node: ir.Node): node is ir.TryStatement => node.kind === "TryStatement" && !!node.orelse;
+
+/**
+ * Python's `try … else` runs the else block only when the try body finished
+ * without raising, outside the handlers. Targets without it get a flag the
+ * try body sets as its last statement, tested after the handlers:
+ *
+ *     let succeeded = false;
+ *     try { body; succeeded = true; } catch …
+ *     if (succeeded) { else block }
+ *
+ * A `finally` block wraps all three, since it runs after the else block.
+ */
+export function lowerTryElse(module: ir.Module): TransformResult {
+  if (!someNode(module, hasElse)) return { module, notes: [] };
+
+  const copy = structuredClone(module);
+  const taken = new Set<string>();
+  walk(copy, (node) => {
+    if ("name" in node && typeof node.name === "string") taken.add(node.name);
+    if ("params" in node) for (const param of node.params) taken.add(param.name);
+  });
+
+  const lower = (statements: ir.Statement[]) => {
+    for (let index = 0; index < statements.length; index++) {
+      const statement = statements[index];
+      if (!statement || !hasElse(statement)) continue;
+
+      let flag = "succeeded";
+      for (let suffix = 2; taken.has(flag); suffix++) flag = `succeeded${suffix}`;
+      taken.add(flag);
+
+      const { orelse, finalizer, ...rest } = statement;
+      const assign = (value: boolean): ir.ExpressionStatement => ({
+        kind: "ExpressionStatement",
+        expression: { kind: "AssignmentExpression", operator: "=", target: { kind: "Identifier", name: flag }, value: { kind: "Literal", value } },
+      });
+      const lowered: ir.Statement[] = [
+        { kind: "VariableDeclaration", constant: false, blockScoped: true, declarations: [{ target: { kind: "Identifier", name: flag }, init: { kind: "Literal", value: false } }] },
+        { ...rest, block: [...statement.block, assign(true)] },
+        { kind: "IfStatement", test: { kind: "Identifier", name: flag }, consequent: orelse! },
+      ];
+      const replacement = finalizer ? [{ kind: "TryStatement", block: lowered, handlers: [], finalizer, loc: statement.loc } satisfies ir.TryStatement] : lowered;
+      statements.splice(index, 1, ...replacement);
+      index += replacement.length - 1;
+    }
+  };
+
+  // Parents are visited before their children, so tries nested in a lowered one are reached too
+  walk(copy, (node) => {
+    for (const value of Object.values(node)) {
+      if (Array.isArray(value)) lower(value as ir.Statement[]);
+    }
+  });
+  return { module: copy, notes: [] };
+}
@@ -0,0 +1,1069 @@
+import type * as ir from "../ir";
+import { Emitter } from "./emitter";
+import { lowerTryElse } from "./exceptions";
+import { someNodeInScope } from "../walk";
+import { switchBranches } from "./switches";
+import { isPackageLevel, packageLevelNames, splitFileComments } from "./scripts";
+import { withNotes, type ConversionResult, type TransformResult } from "../diagnostics";
+import { applyNaming } from "../naming";
+import { resolveOptions } from "../options";
+import { buildSourceMap } from "../source-map";
+import { IdiomMapper, idiomTable, renderIdiom, type IdiomMatch } from "../idioms";
+import { inferTypes, type FunctionLike, type Type, type TypeInfo } from "../inference";
+import { commentLines, formatGoDoc } from "./comments";
+import type { ConversionOptions } from "@shared/schema";
+
+/** Print Go source from an IR module. */
+export function emitGo(module: ir.Module, options?: ConversionOptions): ConversionResult {
+  const transformed = transformForGo(module, options);
+  return withNotes(emitTransformedGo(transformed.module, options), transformed.notes);
+}
+
+/** Rewrites a module for Go: its naming convention, then Python `try … else` blocks. */
+export function transformForGo(module: ir.Module, options?: ConversionOptions): TransformResult {
+  const named = applyNaming(module, resolveOptions("go", options).naming);
+  const lowered = lowerTryElse(named.module);
+  return { module: lowered.module, notes: [...named.notes, ...lowered.notes] };
+}
+
+/** Emits Go from a module transformForGo returned. */
+export function emitTransformedGo(module: ir.Module, options?: ConversionOptions): ConversionResult {
+  return new GoEmitter(resolveOptions("go", options)).emitModule(module);
+}
+
+// Go precedence levels, loosest first
+const PREC = {
+  // Idiom results that are whole statements, such as `xs = append(xs, x)`
+  statement: 0,
+  or: 1,
+  and: 2,
+  comparison: 3,
+  additive: 4,
+  multiplicative: 5,
+  unary: 6,
+  postfix: 7,
+  atom: 8,
+};
+
+const BINARY_OPERATORS: Partial<Record<ir.BinaryOperator, [string, number]>> = {
+  "+": ["+", PREC.additive],
+  "-": ["-", PREC.additive],
+  "|": ["|", PREC.additive],
+  "^": ["^", PREC.additive],
+  "*": ["*", PREC.multiplicative],
+  "/": ["/", PREC.multiplicative],
+  "//": ["/", PREC.multiplicative],
+  "%": ["%", PREC.multiplicative],
+  "&": ["&", PREC.multiplicative],
+  "<<": ["<<", PREC.multiplicative],
+  ">>": [">>", PREC.multiplicative],
+  "==": ["==", PREC.comparison],
+  "!=": ["!=", PREC.comparison],
+  "<": ["<", PREC.comparison],
+  "<=": ["<=", PREC.comparison],
+  ">": [">", PREC.comparison],
+  ">=": [">=", PREC.comparison],
+};
+
+const ERROR_CLASSES = new Set(["Error", "TypeError", "RangeError", "SyntaxError", "ReferenceError"]);
+
+interface Emitted {
+  code: string;
+  prec: number;
+}
+
+/** The class whose members are being printed, for `this`, `super` and static members. */
+interface ClassContext {
+  name: string;
+  receiver: string;
+  base?: string;
+}
+
+class GoEmitter extends Emitter {
+  protected readonly targetName = "Go";
+  protected readonly commentPrefix = "//";
+  private types!: TypeInfo;
+  // Import lines required by library mappings, shared with nested emitters
+  private imports = new Set<string>();
+  // Static members by class name; they become package-level functions and variables
+  private statics = new Map<string, Set<string>>();
+  private currentClass?: ClassContext;
+  private pythonSource = false;
+
+  emitModule(source: ir.Module): ConversionResult {
+    // Split first, so the statement that lost the file header is the one that gets typed
+    const { header: fileComments, body } = splitFileComments(source.body);
+    const module = { ...source, body };
+    this.types = inferTypes(module);
+    this.idioms = new IdiomMapper(idiomTable(module.sourceLanguage, "go"), module, this.types);
+    this.reserveNames(module);
+    this.pythonSource = module.sourceLanguage === "python";
+    for (const statement of module.body) {
+      if (statement.kind !== "ClassDeclaration") continue;
+      this.statics.set(statement.name, new Set(statement.members.filter((member) => member.isStatic).map((member) => member.name)));
+    }
+
+    // Go only allows declarations at package level; everything else runs from main()
+    const global = packageLevelNames(body);
+    const declarations = body.filter((statement) => isPackageLevel(statement, global));
+    const script = body.filter((statement) => !isPackageLevel(statement, global));
+
+    this.emitStatements(declarations, true);
+    if (script.length > 0) {
+      if (declarations.length > 0) this.writer.blankLine();
+      this.writer.line("func main() {");
+      this.emitBlock(script);
+      this.writer.line("}");
+    }
+    this.flushNotes();
+
+    const header = [...fileComments.flatMap((comment) => commentLines(comment, "//")), "package main", ""];
+    if (this.imports.size > 0) header.push(...Array.from(this.imports).sort(), "");
+    this.writer.prepend(header);
+    this.diagnostics.shift(header.length);
+    return {
+      code: this.writer.toString(),
+      diagnostics: this.diagnostics.resolve(this.writer),
+      sourceMap: buildSourceMap(this.writer),
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private emitStatements(statements: ir.Statement[], packageLevel = false): void {
+    let previousEnd: number | undefined;
+
+    for (const statement of statements) {
+      const startLine = (statement.leadingComments?.[0] ?? statement.doc ?? statement).loc?.start.line;
+      // Declarations are moved out of the script, so blank lines between them are kept unconditionally
+      const separated = packageLevel && statement.kind !== "VariableDeclaration";
+      if (previousEnd !== undefined && (separated || (startLine !== undefined && startLine > previousEnd + 1))) {
+        this.writer.blankLine();
+      }
+
+      this.emitComments(statement.leadingComments);
+      this.separateDetachedComments(statement);
+      if (statement.doc) this.emitDoc(statement.doc, declaredName(statement));
+      const outer = this.statement;
+      this.statement = statement;
+      const before = this.writer.lineCount;
+      this.withOrigin(statement, () => {
+        if (packageLevel && statement.kind === "VariableDeclaration") this.emitPackageVariable(statement);
+        else this.emitStatement(statement);
+      });
+      this.statement = outer;
+      this.emitInlineComment(statement, before);
+      this.emitComments(statement.trailingComments);
+
+      const lastComment = statement.trailingComments?.[statement.trailingComments.length - 1];
+      previousEnd = lastComment?.loc?.end.line ?? statement.loc?.end.line ?? 0;
+    }
+  }
+
+  // Go doc comments are plain `//` lines that start with the declared name
+  private emitDoc(doc: ir.DocComment, name: string): void {
+    this.withOrigin(doc, () => formatGoDoc(name, doc).forEach((line) => this.writer.line(line)));
+  }
+
+  private emitBlock(statements: ir.Statement[]): void {
+    this.writer.block(() => this.emitStatements(statements));
+  }
+
+  private emitStatement(statement: ir.Statement): void {
+    switch (statement.kind) {
+      case "FunctionDeclaration":
+        this.noteDecorators(statement.decorators);
+        this.emitFunction(`func ${statement.name}`, statement);
+        break;
+
+      case "ClassDeclaration":
+        this.noteDecorators(statement.decorators);
+        this.emitClass(statement);
+        break;
+
+      case "VariableDeclaration":
+        this.emitVariableDeclaration(statement);
+        break;
+
+      case "ExpressionStatement":
+        this.write(this.expressionStatement(statement.expression));
+        break;
+
+      case "ReturnStatement":
+        this.write(statement.argument ? `return ${this.expr(statement.argument).code}` : "return");
+        break;
+
+      case "IfStatement":
+        this.emitIf(statement);
+        this.writer.line("}");
+        break;
+
+      case "WhileStatement": {
+        const forever = statement.test.kind === "Literal" && statement.test.value === true;
+        this.write(forever ? "for {" : `for ${this.expr(statement.test).code} {`);
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+      }
+
+      case "DoWhileStatement": {
+        if (someNodeInScope(statement.body, (node) => node.kind === "ContinueStatement")) {
+          this.note("loop-continue", "`continue` inside this loop skips the loop condition", statement, "error");
+        }
+        const test = this.sub(statement.test, PREC.unary);
+        this.write("for {");
+        this.writer.block(() => {
+          this.emitStatements(statement.body);
+          this.writer.line(`if !${test} {`);
+          this.writer.block(() => this.writer.line("break"));
+          this.writer.line("}");
+        });
+        this.writer.line("}");
+        break;
+      }
+
+      case "ForStatement":
+        this.emitFor(statement);
+        break;
+
+      case "ForEachStatement":
+        this.write(`${this.rangeClause(statement.target, statement.iterable, statement.over)} {`);
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+
+      case "SwitchStatement":
+        this.emitSwitch(statement);
+        break;
+
+      case "BreakStatement":
+        this.writer.line("break");
+        break;
+
+      case "ContinueStatement":
+        this.writer.line("continue");
+        break;
+
+      case "ThrowStatement":
+        this.write(`panic(${this.expr(statement.argument).code})`);
+        break;
+
+      case "TryStatement":
+        this.emitTry(statement);
+        break;
+
+      case "WithStatement":
+        this.note("context-manager", "context managers have no Go equivalent; release resources with defer");
+        this.write("{");
+        this.writer.block(() => {
+          for (const item of statement.items) {
+            const context = this.expr(item.context).code;
+            this.write(item.target ? `${this.pattern(item.target)} := ${context}` : `_ = ${context}`);
+          }
+          this.emitStatements(statement.body);
+        });
+        this.writer.line("}");
+        break;
+
+      case "BlockStatement":
+        this.writer.line("{");
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+
+      case "ImportDeclaration":
+        this.emitImport(statement);
+        break;
+
+      case "ExportDeclaration":
+        // Every file of the project sees the others' declarations
+        break;
+
+      case "UnsupportedStatement": {
+        // The original code is kept as comments, covered by an error diagnostic
+        const first = this.writer.lineCount;
+        for (const line of statement.text.split("\n")) {
+          this.writer.line(`// ${line}`);
+        }
+        this.diagnostics.record(
+          { severity: "error", code: "unsupported-statement", message: statement.reason, loc: statement.loc },
+          first,
+          this.writer.lineCount - 1
+        );
+        break;
+      }
+    }
+  }
+
+  private noteDecorators(decorators: ir.Expression[] | undefined): void {
+    for (const decorator of decorators ?? []) {
+      this.note("decorator", `decorator @${this.expr(decorator).code} must be applied by hand`, decorator);
+    }
+  }
+
+  private signature(fn: FunctionLike, returns: Type = this.types.returns(fn)): string {
+    const paramList = fn.params.map((param) => {
+      const type = this.types.parameter(param);
+      if (param.defaultValue) {
+        this.note("default-parameter", `Go has no default parameter values; callers must pass ${param.name}`, param);
+      }
+      if (param.rest) return `${param.name} ...${goType(type.kind === "array" ? type.element : type)}`;
+      return `${param.name} ${goType(type)}`;
+    });
+
+    if (fn.isAsync) this.note("async-function", "async functions have no Go equivalent; run them in a goroutine", fn);
+    const result = returns.kind === "void" ? "" : ` ${goType(returns)}`;
+    return `(${paramList.join(", ")})${result}`;
+  }
+
+  private emitFunction(head: string, fn: FunctionLike): void {
+    this.write(`${head}${this.signature(fn)} {`);
+    this.emitBlock(fn.body);
+    this.writer.line("}");
+  }
+
+  // Classes become a struct, a NewX constructor function and methods on *X
+  private emitClass(node: ir.ClassDeclaration): void {
+    const base = node.superClass?.kind === "Identifier" ? node.superClass.name : undefined;
+    if (node.superClass && !base) {
+      this.note("class-base", "only named base classes can be embedded", node.superClass, "error");
+    }
+    if (base) {
+      this.note("class-embedding", `${base} is embedded, so its methods are promoted but not overridable`, node.superClass, "info");
+    }
+
+    const receiver = receiverName(node);
+    const outer = this.currentClass;
+    this.currentClass = { name: node.name, receiver, base };
+
+    const fields = new Map(this.types.properties(node));
+    const instanceProperties = node.members.filter(
+      (member): member is ir.PropertyDefinition => member.kind === "PropertyDefinition" && !member.isStatic
+    );
+    for (const member of node.members) {
+      if (member.kind === "MethodDefinition") fields.delete(member.name);
+    }
+
+    this.write(`type ${node.name} struct {`);
+    this.writer.block(() => {
+      if (base) this.writer.line(base);
+      for (const [name, type] of Array.from(fields.entries())) {
+        this.writer.line(`${name} ${goType(type.kind === "none" ? { kind: "any" } : type)}`);
+      }
+    });
+    this.writer.line("}");
+
+    for (const member of node.members) {
+      if (member.kind !== "PropertyDefinition" || !member.isStatic) continue;
+      this.writer.blankLine();
+      this.emitMember(member, `${node.name}${capitalize(member.name)}`, () => {
+        const value = member.value ? ` = ${this.expr(member.value).code}` : ` ${goType(member.value ? this.types.typeOf(member.value) : { kind: "any" })}`;
+        this.write(`var ${node.name}${capitalize(member.name)}${value}`);
+      });
+    }
+
+    const constructor = node.members.find(
+      (member): member is ir.MethodDefinition => member.kind === "MethodDefinition" && member.role === "constructor"
+    );
+    this.writer.blankLine();
+    if (constructor) this.emitMember(constructor, `New${node.name}`, () => this.emitConstructor(node, constructor, instanceProperties));
+    else this.withOrigin(node, () => this.emitConstructor(node, constructor, instanceProperties));
+
+    for (const member of node.members) {
+      if (member.kind !== "MethodDefinition" || member.role === "constructor") continue;
+      this.writer.blankLine();
+      this.emitMember(member, member.isStatic ? `${node.name}${capitalize(methodName(member))}` : methodName(member), () => this.emitMethod(node, member));
+    }
+
+    this.currentClass = outer;
+  }
+
+  private emitConstructor(node: ir.ClassDeclaration, constructor: ir.MethodDefinition | undefined, properties: ir.PropertyDefinition[]): void {
+    const receiver = this.currentClass!.receiver;
+    const returns: Type = { kind: "class", name: node.name };
+    const head = constructor ? this.signature(constructor, returns) : ` () ${goType(returns)}`;
+    this.write(`func New${node.name}${head.trimStart()} {`);
+    this.writer.block(() => {
+      this.writer.line(`${receiver} := &${node.name}{}`);
+      for (const property of properties) {
+        if (!property.value) continue;
+        this.withOrigin(property, () => this.write(`${receiver}.${property.name} = ${this.expr(property.value!).code}`));
+      }
+      if (constructor) this.emitStatements(constructor.body);
+      this.writer.line(`return ${receiver}`);
+    });
+    this.writer.line("}");
+  }
+
+  // Prints a member with its comments and doc comment, which opens with the Go name `docName`
+  private emitMember(member: ir.ClassMember, docName: string, body: () => void): void {
+    this.emitComments(member.leadingComments);
+    if (member.doc) this.emitDoc(member.doc, docName);
+    const start = this.writer.lineCount;
+    this.withOrigin(member, body);
+    this.emitInlineComment(member, start);
+    this.emitComments(member.trailingComments);
+  }
+
+  private emitMethod(node: ir.ClassDeclaration, member: ir.MethodDefinition): void {
+    const name = methodName(member);
+    if (member.role === "get" || member.role === "set") {
+      this.note("accessor", `the ${member.role}ter became a method; property accesses are not rewritten to calls`, member);
+    }
+
+    if (member.isStatic) {
+      this.emitFunction(`func ${node.name}${capitalize(name)}`, member);
+      return;
+    }
+    this.emitFunction(`func (${this.currentClass!.receiver} *${node.name}) ${name}`, member);
+  }
+
+  // Top-level variables that functions refer to are declared at package level
+  private emitPackageVariable(declaration: ir.VariableDeclaration): void {
+    for (const { target, init } of declaration.declarations) {
+      if (target.kind !== "Identifier") continue;
+      const type = this.types.variable(target);
+      if (!init || (init.kind === "Literal" && init.value === null)) {
+        this.write(`var ${target.name} ${goType(type.kind === "none" ? { kind: "any" } : type)}`);
+      } else {
+        this.write(`var ${target.name} = ${this.initializer(init, type)}`);
+      }
+    }
+  }
+
+  private emitVariableDeclaration(declaration: ir.VariableDeclaration): void {
+    for (const { target, init } of declaration.declarations) {
+      if (target.kind === "ObjectPattern" || target.kind === "ArrayPattern") {
+        this.emitDestructuring(target, init);
+        continue;
+      }
+
+      const type = this.types.variable(target);
+      if (!init || (init.kind === "Literal" && init.value === null)) {
+        this.write(`var ${target.name} ${goType(type.kind === "none" ? { kind: "any" } : type)}`);
+        continue;
+      }
+      this.write(`${target.name} := ${this.initializer(init, type)}`);
+    }
+  }
+
+  // Empty literals take the element type the variable is used with later
+  private initializer(init: ir.Expression, type: Type): string {
+    const empty =
+      (init.kind === "ArrayExpression" && init.elements.length === 0) ||
+      (init.kind === "ObjectExpression" && init.properties.length === 0);
+    return empty && (type.kind === "array" || type.kind === "dict") ? `${goType(type)}{}` : this.expr(init).code;
+  }
+
+  private emitDestructuring(target: ir.ArrayPattern | ir.ObjectPattern, init?: ir.Expression): void {
+    let source = init ? this.sub(init, PREC.postfix) : "nil";
+
+    if (init && init.kind !== "Identifier") {
+      const temporary = this.temporary("destructured");
+      this.write(`${temporary} := ${source}`);
+      source = temporary;
+    }
+
+    if (target.kind === "ArrayPattern") {
+      target.elements.forEach((element, index) => {
+        if (!element) return;
+        const isRest = target.rest && index === target.elements.length - 1;
+        const fallback = target.defaults?.[index];
+        if (fallback) this.note("destructuring-default", "default values in destructuring are dropped", fallback, "error");
+        this.write(`${this.pattern(element)} := ${isRest ? `${source}[${index}:]` : `${source}[${index}]`}`);
+      });
+    } else {
+      for (const property of target.properties) {
+        if (property.defaultValue) {
+          this.note("destructuring-default", "default values in destructuring are dropped", property.defaultValue, "error");
+        }
+        this.write(`${this.pattern(property.value)} := ${source}["${property.key}"]`);
+      }
+      if (target.rest) {
+        this.note("object-rest", "Go has no rest properties; copy the remaining keys into a new map by hand", target.rest, "error");
+      }
+    }
+  }
+
+  private expressionStatement(expression: ir.Expression): string {
+    if (expression.kind === "UpdateExpression") {
+      return `${this.expr(expression.argument).code}${expression.operator}`;
+    }
+    if (expression.kind === "AssignmentExpression") {
+      const target = this.assignmentTarget(expression.target);
+      const value = this.expr(expression.value);
+      switch (expression.operator) {
+        case "??=":
+          return `if ${target} == nil {\n${this.options.indent}${target} = ${value.code}\n}`;
+        case "||=":
+          return `${target} = ${target} || ${this.wrap(value, PREC.or + 1)}`;
+        case "&&=":
+          return `${target} = ${target} && ${this.wrap(value, PREC.and + 1)}`;
+        case "**=":
+          this.imports.add('import "math"');
+          return `${target} = math.Pow(${target}, ${value.code})`;
+        case "//=":
+          return `${target} /= ${value.code}`;
+        case ">>>=":
+          this.note("unsigned-shift", "unsigned right shift depends on the operand type in Go", expression);
+          return `${target} >>= ${value.code}`;
+        default:
+          return `${target} ${expression.operator} ${value.code}`;
+      }
+    }
+    if (expression.kind === "UnaryExpression" && expression.operator === "delete" && expression.argument.kind === "MemberExpression") {
+      const { object, property, computed } = expression.argument;
+      const key = computed ? this.expr(property).code : `"${this.expr(property).code}"`;
+      return `delete(${this.expr(object).code}, ${key})`;
+    }
+    return this.expr(expression).code;
+  }
+
+  // Prints an if/else-if chain, leaving the final closing brace to the caller
+  private emitIf(statement: ir.IfStatement): void {
+    this.write(`if ${this.expr(statement.test).code} {`);
+    this.emitBlock(statement.consequent);
+
+    if (statement.alternate && statement.alternate.length > 0) {
+      this.emitElse(statement.alternate);
+    }
+  }
+
+  private emitElse(alternate: ir.Statement[]): void {
+    const [first] = alternate;
+    if (alternate.length === 1 && first.kind === "IfStatement" && !first.leadingComments) {
+      const test = this.expr(first.test).code;
+      this.flushNotes();
+      this.writer.line(`} else if ${test} {`);
+      this.emitBlock(first.consequent);
+      if (first.alternate && first.alternate.length > 0) this.emitElse(first.alternate);
+      return;
+    }
+    this.writer.line("} else {");
+    this.emitBlock(alternate);
+  }
+
+  // Go keeps the three-clause loop, as long as each clause is a single simple statement
+  private emitFor(loop: ir.ForStatement): void {
+    let init = "";
+    if (loop.init?.kind === "VariableDeclaration") {
+      const declarators = loop.init.declarations;
+      if (declarators.every((declarator) => declarator.target.kind === "Identifier" && declarator.init)) {
+        const names = declarators.map((declarator) => (declarator.target as ir.Identifier).name);
+        const values = declarators.map((declarator) => this.expr(declarator.init!).code);
+        init = `${names.join(", ")} := ${values.join(", ")}`;
+      } else {
+        this.emitVariableDeclaration(loop.init);
+      }
+    } else if (loop.init) {
+      init = this.expressionStatement(loop.init);
+    }
+
+    const test = loop.test ? this.expr(loop.test).code : "";
+    const updates = loop.update?.kind === "SequenceExpression" ? loop.update.expressions : loop.update ? [loop.update] : [];
+    let update = "";
+    if (updates.length === 1) {
+      update = this.expressionStatement(updates[0]);
+    } else if (updates.length > 1) {
+      // `i++, j--` is not a Go statement; a parallel assignment is
+      const targets = updates.map((item) => (item.kind === "UpdateExpression" ? item.argument : item.kind === "AssignmentExpression" ? item.target : item));
+      const values = updates.map((item) => {
+        if (item.kind === "UpdateExpression") return `${this.sub(item.argument, PREC.additive)} ${item.operator === "++" ? "+" : "-"} 1`;
+        if (item.kind === "AssignmentExpression" && item.operator.length > 1 && item.operator !== "==") {
+          return `${this.assignmentTarget(item.target)} ${item.operator.slice(0, -1)} ${this.sub(item.value, PREC.multiplicative)}`;
+        }
+        return item.kind === "AssignmentExpression" ? this.expr(item.value).code : this.expr(item).code;
+      });
+      update = `${targets.map((item) => this.assignmentTarget(item)).join(", ")} = ${values.join(", ")}`;
+    }
+
+    this.write(init || update ? `for ${init}; ${test}; ${update} {` : `for ${test}${test ? " " : ""}{`);
+    this.emitBlock(loop.body);
+    this.writer.line("}");
+  }
+
+  private rangeClause(target: ir.Pattern, iterable: ir.Expression, over: "values" | "keys"): string {
+    // Python's range() outside a plain counting loop, e.g. in a comprehension
+    if (this.pythonSource && target.kind === "Identifier" && iterable.kind === "CallExpression") {
+      const { callee, arguments: args } = iterable;
+      if (callee.kind === "Identifier" && callee.name === "range" && args.length === 1) {
+        return `for ${target.name} := range ${this.expr(args[0]).code}`;
+      }
+      if (callee.kind === "Identifier" && callee.name === "range" && args.length === 2) {
+        return `for ${target.name} := ${this.expr(args[0]).code}; ${target.name} < ${this.sub(args[1], PREC.comparison + 1)}; ${target.name}++`;
+      }
+    }
+
+    const source = this.expr(iterable).code;
+    if (over === "keys") return `for ${this.pattern(target)} := range ${source}`;
+    // Two-element patterns take the index or key Go's range yields first
+    if (target.kind === "ArrayPattern" && target.elements.length === 2 && !target.rest) {
+      return `for ${this.pattern(target)} := range ${source}`;
+    }
+    return `for _, ${this.pattern(target)} := range ${source}`;
+  }
+
+  private emitSwitch(statement: ir.SwitchStatement): void {
+    this.write(`switch ${this.expr(statement.discriminant).code} {`);
+
+    // Empty cases fall through, which Go expresses as a combined case list
+    for (const branch of switchBranches(statement)) {
+      this.writer.line(branch.isDefault ? "default:" : `case ${branch.tests.map((test) => this.expr(test).code).join(", ")}:`);
+      this.writer.block(() => {
+        this.emitStatements(branch.body);
+        if (branch.fallsThrough) this.writer.line("fallthrough");
+      });
+    }
+    this.writer.line("}");
+  }
+
+  // try/catch becomes a function literal whose deferred recover() runs the handler
+  private emitTry(statement: ir.TryStatement): void {
+    this.note("try-recover", "try/catch became a deferred recover(); only panics are caught", statement, "info");
+    if (someNodeInScope(statement.block, (node) => node.kind === "ReturnStatement")) {
+      this.note("try-return", "`return` inside the try block now only leaves the wrapping function literal", statement, "error");
+    }
+
+    this.write("func() {");
+    this.writer.block(() => {
+      // Deferred calls run last-in first-out, so the finalizer is registered first
+      if (statement.finalizer) {
+        this.writer.line("defer func() {");
+        this.emitBlock(statement.finalizer);
+        this.writer.line("}()");
+      }
+
+      const [handler, ...others] = statement.handlers;
+      if (handler) {
+        if (others.length > 0 || handler.types?.length) {
+          this.note("catch-types", "recover() catches every panic; exception types are not checked", handler.types?.[0]);
+        }
+        const param = handler.param ?? "r";
+        this.writer.line("defer func() {");
+        this.writer.block(() => {
+          this.writer.line(`if ${param} := recover(); ${param} != nil {`);
+          this.emitBlock(handler.body);
+          this.writer.line("}");
+        });
+        this.writer.line("}()");
+      }
+      this.emitStatements(statement.block);
+    });
+    this.writer.line("}()");
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  private wrap(emitted: Emitted, minPrec: number): string {
+    return emitted.prec < minPrec ? `(${emitted.code})` : emitted.code;
+  }
+
+  private sub(expression: ir.Expression, minPrec: number): string {
+    return this.wrap(this.expr(expression), minPrec);
+  }
+
+  private pattern(pattern: ir.Pattern): string {
+    switch (pattern.kind) {
+      case "Identifier":
+        return pattern.name;
+      case "ArrayPattern":
+        if (pattern.defaults) this.note("array-default", "defaults of missing elements are not supported in this position", pattern, "error");
+        return pattern.elements.map((element) => (element ? this.pattern(element) : "_")).join(", ");
+      case "ObjectPattern":
+        this.note("object-destructuring", "object destructuring is not supported in this position", pattern, "error");
+        return "destructured";
+    }
+  }
+
+  private assignmentTarget(target: ir.Expression | ir.Pattern): string {
+    if (target.kind === "ArrayPattern" || target.kind === "ObjectPattern") {
+      return this.pattern(target);
+    }
+    return this.expr(target).code;
+  }
+
+  private args(args: ir.Expression[]): string {
+    return args.map((arg) => this.expr(arg).code).join(", ");
+  }
+
+  private expr(expression: ir.Expression): Emitted {
+    switch (expression.kind) {
+      case "Identifier": {
+        const idiom = this.idioms.identifier(expression);
+        if (idiom) return this.idiom(idiom, expression);
+        return { code: expression.name, prec: PREC.atom };
+      }
+
+      case "Literal":
+        return { code: this.literal(expression), prec: PREC.atom };
+
+      case "TemplateLiteral": {
+        if (expression.expressions.length === 0) return { code: JSON.stringify(expression.quasis.join("")), prec: PREC.atom };
+        this.imports.add('import "fmt"');
+        const format = expression.quasis.map((quasi) => quasi.replace(/%/g, "%%")).join("%v");
+        return { code: `fmt.Sprintf(${JSON.stringify(format)}, ${this.args(expression.expressions)})`, prec: PREC.postfix };
+      }
+
+      case "ArrayExpression": {
+        const type = this.types.typeOf(expression);
+        const element = type.kind === "array" ? goType(type.element) : "any";
+        return { code: `[]${element}{${this.args(expression.elements)}}`, prec: PREC.postfix };
+      }
+
+      case "ObjectExpression": {
+        const type = this.types.typeOf(expression);
+        const entries = expression.properties.map((property) => {
+          if ("kind" in property) {
+            this.note("object-spread", "object spread has no Go map-literal equivalent", property, "error");
+            return `/* ...${this.expr(property.argument).code} */`;
+          }
+          const key = !property.computed && property.key.kind === "Identifier" ? `"${property.key.name}"` : this.expr(property.key).code;
+          return `${key}: ${this.expr(property.value).code}`;
+        });
+        const mapType = type.kind === "dict" ? goType(type) : "map[string]any";
+        return { code: `${mapType}{${entries.join(", ")}}`, prec: PREC.postfix };
+      }
+
+      case "BinaryExpression":
+        return this.binary(expression);
+
+      case "LogicalExpression": {
+        if (expression.operator === "??") {
+          // Go has no null-coalescing operator; an immediately called function literal stands in
+          const type = goType(this.types.typeOf(expression));
+          const left = this.expr(expression.left).code;
+          return {
+            code: `func() ${type} { if v := ${left}; v != nil { return v }; return ${this.expr(expression.right).code} }()`,
+            prec: PREC.postfix,
+          };
+        }
+        const [operator, prec] = expression.operator === "&&" ? ["&&", PREC.and] : ["||", PREC.or];
+        return {
+          code: `${this.sub(expression.left, prec)} ${operator} ${this.sub(expression.right, prec + 1)}`,
+          prec,
+        };
+      }
+
+      case "UnaryExpression":
+        switch (expression.operator) {
+          case "typeof":
+            this.imports.add('import "fmt"');
+            return { code: `fmt.Sprintf("%T", ${this.expr(expression.argument).code})`, prec: PREC.postfix };
+          case "~":
+            return { code: `^${this.sub(expression.argument, PREC.unary)}`, prec: PREC.unary };
+          case "void":
+          case "delete":
+            this.note("unsupported-operator", `\`${expression.operator}\` has no Go equivalent`, expression, "error");
+            return { code: this.expr(expression.argument).code, prec: PREC.atom };
+          default:
+            return { code: `${expression.operator}${this.sub(expression.argument, PREC.unary)}`, prec: PREC.unary };
+        }
+
+      case "UpdateExpression":
+        this.note("update-expression", "increment/decrement is a statement in Go and yields no value", expression, "error");
+        return { code: `${this.sub(expression.argument, PREC.postfix)}${expression.operator}`, prec: PREC.statement };
+
+      case "AssignmentExpression":
+        this.note("assignment-expression", "assignment is a statement in Go and yields no value", expression, "error");
+        return {
+          code: `${this.assignmentTarget(expression.target)} ${expression.operator} ${this.expr(expression.value).code}`,
+          prec: PREC.statement,
+        };
+
+      case "CallExpression":
+        return this.call(expression);
+
+      case "NewExpression": {
+        if (expression.callee.kind === "Identifier" && ERROR_CLASSES.has(expression.callee.name)) {
+          this.imports.add('import "errors"');
+          return { code: `errors.New(${this.args(expression.arguments)})`, prec: PREC.postfix };
+        }
+        if (expression.callee.kind === "Identifier") {
+          return { code: `New${expression.callee.name}(${this.args(expression.arguments)})`, prec: PREC.postfix };
+        }
+        this.note("dynamic-new", "only named classes can be constructed", expression.callee, "error");
+        return { code: `${this.sub(expression.callee, PREC.postfix)}(${this.args(expression.arguments)})`, prec: PREC.postfix };
+      }
+
+      case "MemberExpression": {
+        const idiom = this.idioms.member(expression);
+        if (idiom) return this.idiom(idiom, expression);
+        const { object, property } = expression;
+        if (expression.optional) this.note("optional-chaining", "optional chaining has no Go equivalent; check for nil first", expression);
+        if (expression.computed) {
+          return { code: `${this.sub(object, PREC.postfix)}[${this.expr(property).code}]`, prec: PREC.postfix };
+        }
+        const name = this.expr(property).code;
+        if (object.kind === "Identifier" && this.statics.get(object.name)?.has(name)) {
+          return { code: `${object.name}${capitalize(name)}`, prec: PREC.atom };
+        }
+        return { code: `${this.sub(object, PREC.postfix)}.${name}`, prec: PREC.postfix };
+      }
+
+      case "ConditionalExpression": {
+        // Go has no conditional operator; an immediately called function literal stands in
+        const type = goType(this.types.typeOf(expression));
+        const test = this.expr(expression.test).code;
+        const consequent = this.expr(expression.consequent).code;
+        const alternate = this.expr(expression.alternate).code;
+        return { code: `func() ${type} { if ${test} { return ${consequent} }; return ${alternate} }()`, prec: PREC.postfix };
+      }
+
+      case "FunctionExpression":
+        return { code: this.functionLiteral(expression), prec: PREC.atom };
+
+      case "ThisExpression":
+        if (!this.currentClass) this.note("this", "`this` outside a class has no Go equivalent", expression, "error");
+        return { code: this.currentClass?.receiver ?? "this", prec: PREC.atom };
+
+      case "SuperExpression": {
+        const context = this.currentClass;
+        return { code: context?.base ? `${context.receiver}.${context.base}` : "super", prec: PREC.postfix };
+      }
+
+      case "SpreadElement":
+        return { code: `${this.sub(expression.argument, PREC.postfix)}...`, prec: PREC.postfix };
+
+      case "AwaitExpression":
+        this.note("await", "await has no Go equivalent; use channels or a sync.WaitGroup", expression);
+        return this.expr(expression.argument);
+
+      case "YieldExpression":
+        this.note("generator", "Go has no generators; collect the yielded values in a list and return it", expression, "error");
+        return expression.argument ? this.expr(expression.argument) : { code: "nil", prec: PREC.atom };
+
+      case "SequenceExpression":
+        this.note("comma-operator", "the comma operator was split into separate statements", expression);
+        return { code: expression.expressions.map((item) => this.expr(item).code).join("; "), prec: PREC.statement };
+
+      case "ComprehensionExpression":
+        return this.comprehension(expression);
+
+      case "SliceExpression": {
+        if (expression.step) this.note("slice-step", "slice steps have no Go equivalent", expression.step, "error");
+        const start = expression.start ? this.expr(expression.start).code : "";
+        const end = expression.end ? this.expr(expression.end).code : "";
+        return { code: `${this.sub(expression.object, PREC.postfix)}[${start}:${end}]`, prec: PREC.postfix };
+      }
+
+      case "NamedArgument":
+        this.note("keyword-arguments", `Go has no keyword arguments; ${expression.name} is passed by position`, expression);
+        return this.expr(expression.value);
+
+      case "UnsupportedExpression":
+        this.note("unsupported-expression", `${expression.reason}: ${expression.text}`, expression, "error");
+        return { code: expression.text, prec: PREC.atom };
+    }
+  }
+
+  // Comprehensions become a function literal that fills a slice or map in nested range loops
+  private comprehension(expression: ir.ComprehensionExpression): Emitted {
+    const type = this.types.typeOf(expression);
+    let resultType: string;
+    let add: string;
+    switch (expression.collection) {
+      case "dict":
+        resultType = type.kind === "dict" ? goType(type) : "map[any]any";
+        add = `result[${this.expr(expression.key!).code}] = ${this.expr(expression.element).code}`;
+        break;
+      case "set":
+        resultType = `map[${type.kind === "array" ? goType(type.element) : "any"}]bool`;
+        add = `result[${this.expr(expression.element).code}] = true`;
+        break;
+      default:
+        resultType = type.kind === "array" ? goType(type) : "[]any";
+        add = `result = append(result, ${this.expr(expression.element).code})`;
+    }
+
+    const lines = [`func() ${resultType} {`, `${this.options.indent}result := ${resultType}{}`];
+    let depth = 1;
+    const open = (line: string) => lines.push(`${this.options.indent.repeat(depth++)}${line} {`);
+    for (const clause of expression.clauses) {
+      open(this.rangeClause(clause.target, clause.iterable, "values"));
+      for (const condition of clause.conditions) open(`if ${this.expr(condition).code}`);
+    }
+    lines.push(`${this.options.indent.repeat(depth)}${add}`);
+    while (depth > 1) lines.push(`${this.options.indent.repeat(--depth)}}`);
+    lines.push(`${this.options.indent}return result`, "}()");
+    return { code: lines.join("\n"), prec: PREC.postfix };
+  }
+
+  private literal(literal: ir.Literal): string {
+    if (literal.value === null) return "nil";
+    if (typeof literal.value === "boolean") return String(literal.value);
+    if (typeof literal.value === "string") return JSON.stringify(literal.value);
+
+    const raw = literal.raw;
+    if (raw && /^(0[xob][0-9a-fA-F_]+|[1-9][\d_]*(\.\d[\d_]*)?([eE][+-]?\d+)?|0(\.\d+)?([eE][+-]?\d+)?)$/.test(raw)) {
+      return raw;
+    }
+    return String(literal.value);
+  }
+
+  private binary(expression: ir.BinaryExpression): Emitted {
+    const left = expression.left;
+    const right = expression.right;
+
+    const idiom = this.idioms.binary(expression);
+    if (idiom) return this.idiom(idiom, expression);
+
+    switch (expression.operator) {
+      case "**":
+        this.imports.add('import "math"');
+        return { code: `math.Pow(float64(${this.expr(left).code}), float64(${this.expr(right).code}))`, prec: PREC.postfix };
+      case "in":
+        return {
+          code: `func() bool { _, ok := ${this.expr(right).code}[${this.expr(left).code}]; return ok }()`,
+          prec: PREC.postfix,
+        };
+      case "instanceof":
+        return {
+          code: `func() bool { _, ok := any(${this.expr(left).code}).(*${this.expr(right).code}); return ok }()`,
+          prec: PREC.postfix,
+        };
+      case ">>>":
+        this.note("unsigned-shift", "unsigned right shift depends on the operand type in Go", right);
+        return { code: `${this.sub(left, PREC.multiplicative)} >> ${this.sub(right, PREC.multiplicative + 1)}`, prec: PREC.multiplicative };
+    }
+
+    const [operator, prec] = BINARY_OPERATORS[expression.operator]!;
+    return {
+      code: `${this.operand(expression, left, right, prec)} ${operator} ${this.operand(expression, right, left, prec + 1)}`,
+      prec,
+    };
+  }
+
+  // Go never mixes int and float64, so int operands beside a float64, and both
+  // operands of a true division, are converted by hand
+  private operand(expression: ir.BinaryExpression, operand: ir.Expression, other: ir.Expression, minPrec: number): string {
+    const type = this.types.typeOf(operand).kind;
+    const otherType = this.types.typeOf(other).kind;
+    const trueDivision = expression.operator === "/" && otherType === "int";
+    if (type !== "int" || !(otherType === "double" || trueDivision) || ["&", "|", "^", "<<", ">>"].includes(expression.operator)) {
+      return this.sub(operand, minPrec);
+    }
+    // Untyped constants take the type of the other operand by themselves
+    if (operand.kind === "Literal" && otherType === "double") return this.sub(operand, minPrec);
+    if (operand.kind === "Literal" && /^\d+$/.test(this.literal(operand))) return `${this.literal(operand)}.0`;
+    return `float64(${this.expr(operand).code})`;
+  }
+
+  private call(call: ir.CallExpression): Emitted {
+    const { callee } = call;
+
+    if (callee.kind === "SuperExpression") {
+      const context = this.currentClass;
+      if (!context?.base) {
+        this.note("super-call", "super() needs a named base class", call, "error");
+        return { code: `super(${this.args(call.arguments)})`, prec: PREC.postfix };
+      }
+      return { code: `${context.receiver}.${context.base} = *New${context.base}(${this.args(call.arguments)})`, prec: PREC.statement };
+    }
+
+    const idiom = this.idioms.call(call);
+    if (idiom) return this.idiom(idiom, call);
+
+    if (call.optional) this.note("optional-chaining", "optional calls have no Go equivalent; check for nil first", call);
+    if (callee.kind === "MemberExpression" && this.types.typeOf(callee.object).kind === "array") {
+      this.note("slice-method", "Go slices have no methods; rewrite this call as a loop", call, "error");
+    }
+    return { code: `${this.sub(callee, PREC.postfix)}(${this.args(call.arguments)})`, prec: PREC.postfix };
+  }
+
+  // Library construct printed through the idiom table of the language pair
+  private idiom(match: IdiomMatch, node: ir.Expression): Emitted {
+    for (const line of match.imports) this.imports.add(line);
+    this.noteIdiom(match, node);
+
+    const { code, loose } = renderIdiom(match, (expression, slot) =>
+      slot === "loose" ? this.expr(expression).code : this.sub(expression, PREC.postfix)
+    );
+    // `xs = append(xs, x)` and the like can only stand as statements
+    const statement = /^[\w.[\]]+ = /.test(code);
+    return { code, prec: statement ? PREC.statement : loose ? PREC.or : PREC.postfix };
+  }
+
+  private functionLiteral(fn: ir.FunctionExpression): string {
+    const returns = this.types.returns(fn);
+    const head = `func${this.signature(fn, returns)}`;
+
+    if (fn.expressionBody) {
+      const body = this.expr(fn.expressionBody).code;
+      return `${head} { ${returns.kind === "void" ? body : `return ${body}`} }`;
+    }
+
+    // Multi-statement bodies are printed with a nested emitter and re-indented by the caller
+    const nested = new GoEmitter(this.options);
+    nested.idioms = this.idioms;
+    nested.imports = this.imports;
+    nested.types = this.types;
+    nested.takenNames = this.takenNames;
+    nested.statics = this.statics;
+    nested.currentClass = this.currentClass;
+    nested.pythonSource = this.pythonSource;
+    nested.writer.indent();
+    nested.statement = this.statement;
+    nested.emitStatements(fn.body);
+    nested.flushNotes();
+    // The body's notes are reported against the statement that contains the function
+    this.notes.push(...nested.diagnostics.notes());
+    return `${head} {\n${nested.writer.toString()}\n}`;
+  }
+}
+
+// Go receivers are conventionally the lower-cased initial of the type
+function receiverName(node: ir.ClassDeclaration): string {
+  const initial = node.name.charAt(0).toLowerCase();
+  const taken = node.members.some(
+    (member) => member.kind === "MethodDefinition" && member.params.some((param) => param.name === initial)
+  );
+  return taken || !/^[a-z]$/.test(initial) ? "self" : initial;
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function goType(type: Type): string {
+  switch (type.kind) {
+    case "int":
+      return "int";
+    case "double":
+      return "float64";
+    case "string":
+      return "string";
+    case "bool":
+      return "bool";
+    case "array":
+      return `[]${goType(type.element)}`;
+    case "dict":
+      return `map[${goType(type.key)}]${goType(type.value)}`;
+    case "optional":
+      // Objects are already pointers; other values that may be nil are boxed
+      return type.wrapped.kind === "class" ? goType(type.wrapped) : "any";
+    case "class":
+      return `*${type.name}`;
+    case "void":
+    case "none":
+    case "any":
+      return "any";
+  }
+}
+
+// Setters become `setX` methods
+function methodName(member: ir.MethodDefinition): string {
+  return member.role === "set" ? `set${capitalize(member.name)}` : member.name;
+}
+
+// Name a Go doc comment should open with; empty for statements that declare nothing
+function declaredName(statement: ir.Statement): string {
+  if (statement.kind === "FunctionDeclaration" || statement.kind === "ClassDeclaration") return statement.name;
+  if (statement.kind === "VariableDeclaration" && statement.declarations[0]?.target.kind === "Identifier") {
+    return statement.declarations[0].target.name;
+  }
+  return "";
+}
@@ -0,0 +1,1564 @@
+import type * as ir from "../ir";
+import { Emitter } from "./emitter";
+import { lowerTryElse } from "./exceptions";
+import { someNodeInScope, walk } from "../walk";
+import { withNotes, type ConversionResult, type TransformResult } from "../diagnostics";
+import { applyNaming } from "../naming";
+import { declaredNames, javaScriptModulePath, moduleExports } from "../modules";
+import { resolveOptions, supportsVersion } from "../options";
+import { buildSourceMap } from "../source-map";
+import { IdiomMapper, idiomTable, renderIdiom, type IdiomMatch } from "../idioms";
+import { inferTypes, type FunctionLike, type Type, type TypeInfo } from "../inference";
+import { formatJsDoc, renameThrows, type DocTypes } from "./comments";
+import type { ConversionOptions } from "@shared/schema";
+
+/** Print JavaScript source from an IR module. */
+export function emitJavaScript(module: ir.Module, options?: ConversionOptions): ConversionResult {
+  const transformed = transformForJavaScript(module, options);
+  return withNotes(emitTransformedJavaScript(transformed.module, options), transformed.notes);
+}
+
+/** Rewrites a module for JavaScript: its naming convention, then Python `try … else` blocks. */
+export function transformForJavaScript(module: ir.Module, options?: ConversionOptions): TransformResult {
+  const named = applyNaming(module, resolveOptions("javascript", options).naming);
+  const lowered = lowerTryElse(named.module);
+  return { module: lowered.module, notes: [...named.notes, ...lowered.notes] };
+}
+
+/** Emits JavaScript from a module transformForJavaScript returned. */
+export function emitTransformedJavaScript(module: ir.Module, options?: ConversionOptions): ConversionResult {
+  return new JavaScriptEmitter(resolveOptions("javascript", options)).emitModule(module);
+}
+
+// Binding strength of JavaScript expressions, loosest first
+const PREC = {
+  sequence: 1,
+  assignment: 2,
+  conditional: 3,
+  nullish: 4,
+  or: 5,
+  and: 6,
+  bitOr: 7,
+  bitXor: 8,
+  bitAnd: 9,
+  equality: 10,
+  relational: 11,
+  shift: 12,
+  additive: 13,
+  multiplicative: 14,
+  exponent: 15,
+  unary: 16,
+  update: 17,
+  postfix: 18,
+  atom: 19,
+};
+
+const BINARY_OPERATORS: Partial<Record<ir.BinaryOperator, [string, number]>> = {
+  "+": ["+", PREC.additive],
+  "-": ["-", PREC.additive],
+  "*": ["*", PREC.multiplicative],
+  "/": ["/", PREC.multiplicative],
+  "//": ["/", PREC.multiplicative],
+  "%": ["%", PREC.multiplicative],
+  "**": ["**", PREC.exponent],
+  "==": ["===", PREC.equality],
+  "!=": ["!==", PREC.equality],
+  "<": ["<", PREC.relational],
+  "<=": ["<=", PREC.relational],
+  ">": [">", PREC.relational],
+  ">=": [">=", PREC.relational],
+  "in": ["in", PREC.relational],
+  "instanceof": ["instanceof", PREC.relational],
+  "&": ["&", PREC.bitAnd],
+  "|": ["|", PREC.bitOr],
+  "^": ["^", PREC.bitXor],
+  "<<": ["<<", PREC.shift],
+  ">>": [">>", PREC.shift],
+  ">>>": [">>>", PREC.shift],
+};
+
+// Python exception classes and the JavaScript error thrown in their place
+const ERROR_CLASSES: Record<string, string> = {
+  Exception: "Error",
+  BaseException: "Error",
+  ValueError: "Error",
+  KeyError: "Error",
+  IndexError: "RangeError",
+  ZeroDivisionError: "RangeError",
+  RuntimeError: "Error",
+  AssertionError: "Error",
+  NotImplementedError: "Error",
+  AttributeError: "TypeError",
+  TypeError: "TypeError",
+  NameError: "ReferenceError",
+};
+
+// Python types whose values JavaScript tells apart with `typeof`
+const PRIMITIVE_TYPES: Record<string, string> = {
+  str: "string",
+  float: "number",
+  bool: "boolean",
+};
+
+const RESERVED_WORDS = new Set([
+  "arguments", "await", "break", "case", "catch", "class", "const", "continue", "debugger", "default",
+  "delete", "do", "else", "enum", "eval", "export", "extends", "false", "finally", "for", "function",
+  "if", "implements", "import", "in", "instanceof", "interface", "let", "new", "null", "package",
+  "private", "protected", "public", "return", "static", "super", "switch", "this", "throw", "true",
+  "try", "typeof", "var", "void", "while", "with", "yield",
+]);
+
+interface Emitted {
+  code: string;
+  prec: number;
+}
+
+class JavaScriptEmitter extends Emitter {
+  protected readonly targetName = "JavaScript";
+  protected readonly commentPrefix = "//";
+  // True while printing a class method body, where nested functions must keep `this`
+  private inMethod = false;
+  // Import lines required by library mappings, shared with nested emitters
+  private imports = new Set<string>();
+  private sourceLanguage!: string;
+  private types!: TypeInfo;
+  // Base class of the class being printed, which ES5 output calls by name instead of `super`
+  private superClass?: string;
+  // Index loops written for ES5 for-of, numbering their counters apart
+  private loopCounter = 0;
+  // What the module exports, as exported name to top-level name; undefined for scripts
+  private exports?: Map<string, string>;
+  // Statements of the module itself, the only ones that can be exported
+  private topLevel = new Set<ir.Statement>();
+  // Exported names already written as `export` on their declarations
+  private readonly exportedInline = new Set<string>();
+  // Remainders compared with zero, which is zero whatever the sign
+  private zeroTests = new Set<ir.Expression>();
+
+  emitModule(module: ir.Module): ConversionResult {
+    this.sourceLanguage = module.sourceLanguage;
+    this.types = inferTypes(module);
+    this.idioms = new IdiomMapper(idiomTable(module.sourceLanguage, "javascript"), module, this.types);
+    this.exports = moduleExports(module);
+    this.topLevel = new Set(module.body);
+    walk(module, (node) => {
+      if (node.kind !== "BinaryExpression" || !["==", "!=", "===", "!=="].includes(node.operator)) return;
+      for (const [side, other] of [[node.left, node.right], [node.right, node.left]]) {
+        if (side.kind === "BinaryExpression" && side.operator === "%" && other.kind === "Literal" && other.value === 0) this.zeroTests.add(side);
+      }
+    });
+    this.emitStatements(module.body);
+    this.flushNotes();
+    this.emitExports();
+
+    if (this.imports.size > 0) {
+      const header = [...Array.from(this.imports).sort(), ""];
+      this.writer.prepend(header);
+      this.diagnostics.shift(header.length);
+    }
+    return {
+      code: this.writer.toString(),
+      diagnostics: this.diagnostics.resolve(this.writer),
+      sourceMap: buildSourceMap(this.writer),
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private emitStatements(statements: ir.Statement[]): void {
+    let previousEnd: number | undefined;
+
+    for (const statement of statements) {
+      const startLine = (statement.leadingComments?.[0] ?? statement.doc ?? statement).loc?.start.line;
+      if (previousEnd !== undefined && startLine !== undefined && startLine > previousEnd + 1) {
+        this.writer.blankLine();
+      }
+
+      this.emitComments(statement.leadingComments);
+      this.separateDetachedComments(statement);
+      if (statement.doc) this.emitDoc(statement.doc, documentedFunction(statement));
+      const outer = this.statement;
+      this.statement = statement;
+      const before = this.writer.lineCount;
+      this.withOrigin(statement, () => this.emitStatement(statement));
+      this.statement = outer;
+      this.emitInlineComment(statement, before);
+      this.emitComments(statement.trailingComments);
+
+      const lastComment = statement.trailingComments?.[statement.trailingComments.length - 1];
+      previousEnd = lastComment?.loc?.end.line ?? statement.loc?.end.line;
+    }
+  }
+
+  // JSDoc written in the source keeps its own types; docs from other languages get the inferred ones
+  private emitDoc(doc: ir.DocComment, fn?: FunctionLike): void {
+    let types: DocTypes | undefined;
+    if (this.sourceLanguage !== "javascript" && fn) {
+      const returns = this.types.returns(fn);
+      types = {
+        params: new Map(fn.params.flatMap((param) => {
+          const type = jsDocType(this.types.parameter(param));
+          return type ? [[param.name, type] as const] : [];
+        })),
+        returns: returns.kind === "void" ? undefined : jsDocType(returns),
+      };
+    }
+    const lines = formatJsDoc(renameThrows(doc, ERROR_CLASSES), types);
+    this.withOrigin(doc, () => lines.forEach((line) => this.writer.line(line)));
+  }
+
+  private emitBlock(statements: ir.Statement[]): void {
+    this.writer.block(() => this.emitStatements(statements));
+  }
+
+  private emitStatement(statement: ir.Statement): void {
+    switch (statement.kind) {
+      case "FunctionDeclaration":
+        this.emitFunctionDeclaration(statement);
+        break;
+
+      case "ClassDeclaration":
+        this.emitClass(statement);
+        break;
+
+      case "VariableDeclaration": {
+        const names = declaredNames(statement);
+        const exported = names.length === statement.declarations.length ? this.exportKeyword(statement, names) : "";
+        this.write(this.terminate(`${exported}${this.variableDeclaration(statement)}`));
+        break;
+      }
+
+      case "ExpressionStatement":
+        this.write(this.terminate(this.expressionStatement(statement.expression)));
+        break;
+
+      case "ReturnStatement":
+        this.write(this.terminate(statement.argument ? `return ${this.expr(statement.argument).code}` : "return"));
+        break;
+
+      case "IfStatement":
+        this.emitIf(statement);
+        this.writer.line("}");
+        break;
+
+      case "WhileStatement":
+        this.write(`while (${this.truthy(statement.test).code}) {`);
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+
+      case "DoWhileStatement": {
+        const test = this.expr(statement.test).code;
+        this.write("do {");
+        this.emitBlock(statement.body);
+        this.writer.line(this.terminate(`} while (${test})`));
+        break;
+      }
+
+      case "ForStatement": {
+        const init = statement.init
+          ? statement.init.kind === "VariableDeclaration"
+            ? this.variableDeclaration(statement.init)
+            : this.expr(statement.init).code
+          : "";
+        const test = statement.test ? this.expr(statement.test).code : "";
+        const update = statement.update ? this.expressionStatement(statement.update) : "";
+        this.write(`for (${init}; ${test}; ${update}) {`);
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+      }
+
+      case "ForEachStatement":
+        this.emitForEach(statement);
+        break;
+
+      case "SwitchStatement":
+        this.write(`switch (${this.expr(statement.discriminant).code}) {`);
+        this.writer.block(() => {
+          for (const switchCase of statement.cases) {
+            this.writer.line(switchCase.test ? `case ${this.expr(switchCase.test).code}:` : "default:");
+            this.emitBlock(switchCase.body);
+          }
+        });
+        this.writer.line("}");
+        break;
+
+      case "BreakStatement":
+        this.writer.line(this.terminate("break"));
+        break;
+
+      case "ContinueStatement":
+        this.writer.line(this.terminate("continue"));
+        break;
+
+      case "ThrowStatement":
+        this.emitThrow(statement);
+        break;
+
+      case "TryStatement":
+        this.emitTry(statement);
+        break;
+
+      case "WithStatement":
+        this.emitWith(statement.items, statement.body);
+        break;
+
+      case "BlockStatement":
+        this.writer.line("{");
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+
+      case "ImportDeclaration":
+        this.emitImport(statement);
+        break;
+
+      case "ExportDeclaration":
+        // Written with the module's other exports at its end
+        break;
+
+      case "UnsupportedStatement": {
+        // The original code is kept as comments, covered by an error diagnostic
+        const first = this.writer.lineCount;
+        for (const line of statement.text.split("\n")) {
+          this.writer.line(`// ${line}`);
+        }
+        this.diagnostics.record(
+          { severity: "error", code: "unsupported-statement", message: statement.reason, loc: statement.loc },
+          first,
+          this.writer.lineCount - 1
+        );
+        break;
+      }
+    }
+  }
+
+  protected emitImport(statement: ir.ImportDeclaration): void {
+    const { module: reference, specifiers } = statement;
+    if (reference.parents === undefined) {
+      this.emitPackageImport(statement);
+      return;
+    }
+
+    const from = this.string(javaScriptModulePath(reference));
+    if (specifiers.some((specifier) => specifier.imported === "*" && !specifier.local) && !(statement.reexport && this.supports("es2015"))) {
+      this.note("wildcard-import", `JavaScript cannot import every name of ${statement.specifier}; import the names used by hand`);
+    }
+
+    const lines: string[] = [];
+    if (!this.supports("es2015")) {
+      // CommonJS: `require()` returns the module's exports object, or the value it assigned to `module.exports`
+      const required = `require(${from})`;
+      if (specifiers.length === 0) lines.push(required);
+      for (const { imported, local } of specifiers) {
+        if (!local) continue;
+        lines.push(`var ${this.name(local)} = ${imported === "*" || imported === "default" ? required : `${required}.${imported}`}`);
+      }
+    } else {
+      if (specifiers.length === 0) lines.push(`import ${from}`);
+      if (statement.reexport && specifiers.some((specifier) => specifier.imported === "*" && !specifier.local)) lines.push(`export * from ${from}`);
+      for (const { imported, local } of specifiers) {
+        if (imported === "*" && local) lines.push(`import * as ${this.name(local)} from ${from}`);
+      }
+      const clause = specifiers.filter((specifier) => specifier.imported === "default" && specifier.local).map((specifier) => this.name(specifier.local!));
+      const named = specifiers
+        .filter((specifier) => specifier.imported !== "*" && specifier.imported !== "default")
+        .map(({ imported, local }) => (!local || local === imported ? imported : `${imported} as ${this.name(local)}`));
+      if (named.length > 0) clause.push(`{ ${named.join(", ")} }`);
+      if (clause.length > 0) lines.push(`import ${clause.join(", ")} from ${from}`);
+    }
+    lines.forEach((line) => this.write(this.terminate(line)));
+  }
+
+  // `export ` for a top-level declaration whose names are all exported as themselves, or
+  // `export default ` for a function or class that is the default export; "" otherwise
+  private exportKeyword(statement: ir.Statement, names: string[]): string {
+    if (!this.exports || !this.topLevel.has(statement) || !this.supports("es2015") || names.length === 0) return "";
+    const entries = Array.from(this.exports.entries());
+    const exportedAs = names.map((name) => entries.filter(([, local]) => local === name).map(([exported]) => exported));
+    if (exportedAs.every((exported, index) => exported.length === 1 && exported[0] === names[index])) {
+      names.forEach((name) => this.exportedInline.add(name));
+      return "export ";
+    }
+    if (names.length === 1 && exportedAs[0].length === 1 && exportedAs[0][0] === "default" && statement.kind !== "VariableDeclaration") {
+      this.exportedInline.add("default");
+      return "export default ";
+    }
+    return "";
+  }
+
+  // Exports not written on their declarations, e.g. aliases or names a Python module imports from others
+  private emitExports(): void {
+    const rest = Array.from(this.exports?.entries() ?? []).filter(([exported]) => !this.exportedInline.has(exported));
+    if (rest.length === 0) return;
+    this.writer.blankLine();
+    if (this.supports("es2015")) {
+      const names = rest.map(([exported, local]) => (exported === local ? this.name(local) : `${this.name(local)} as ${exported}`));
+      this.writer.line(this.terminate(`export { ${names.join(", ")} }`));
+    } else if (rest.length === 1 && rest[0][0] === "default") {
+      this.writer.line(this.terminate(`module.exports = ${this.name(rest[0][1])}`));
+    } else {
+      rest.forEach(([exported, local]) => this.writer.line(this.terminate(`exports.${exported} = ${this.name(local)}`)));
+    }
+  }
+
+  private params(params: ir.Parameter[]): string {
+    // With a rest parameter, the keyword arguments' options object arrives in it (see emitParameterDefaults)
+    if (params.some((param) => param.rest)) params = params.filter((param) => !param.keywords);
+
+    // A rest parameter must come last
+    const restIndex = params.findIndex((param) => param.rest);
+    if (restIndex >= 0 && restIndex < params.length - 1) {
+      this.note("parameter-order", `parameters after ...${params[restIndex].name} were moved before it`, params[restIndex]);
+      params = [...params.slice(0, restIndex), ...params.slice(restIndex + 1), params[restIndex]];
+    }
+
+    // ES5 functions fill in rest and default values in their body instead
+    if (!this.supports("es2015")) {
+      return params.filter((param) => !param.rest).map((param) => this.name(param.name)).join(", ");
+    }
+    return params
+      .map((param) => {
+        const name = this.name(param.name);
+        if (param.rest) return `...${name}`;
+        return param.defaultValue ? `${name} = ${this.expr(param.defaultValue).code}` : name;
+      })
+      .join(", ");
+  }
+
+  private emitFunctionDeclaration(fn: ir.FunctionDeclaration): void {
+    const name = this.name(fn.name);
+    const isAsync = this.asyncKeyword(fn);
+    const star = this.generatorStar(fn);
+    const usesThis = usesLexicalThis(fn.body);
+
+    if (this.inMethod && usesThis && (!this.supports("es2015") || star)) {
+      // A bound function keeps the enclosing method's `this`; arrows cannot be generators
+      this.write(`${this.supports("es2015") ? "const" : "var"} ${name} = ${isAsync}function${star}(${this.params(fn.params)}) {`);
+      this.emitFunctionBody(fn.body, true, fn.params);
+      this.writer.line(this.terminate("}.bind(this)"));
+    } else if (this.inMethod && usesThis) {
+      // An arrow function keeps the enclosing method's `this`
+      this.write(`const ${name} = ${isAsync}(${this.params(fn.params)}) => {`);
+      this.emitFunctionBody(fn.body, true, fn.params);
+      this.writer.line(this.terminate("}"));
+    } else {
+      this.write(`${this.exportKeyword(fn, [fn.name])}${isAsync}function${star} ${name}(${this.params(fn.params)}) {`);
+      this.emitFunctionBody(fn.body, this.inMethod, fn.params);
+      this.writer.line("}");
+    }
+
+    this.emitDecoratorCalls(name, fn.decorators);
+  }
+
+  private emitFunctionBody(body: ir.Statement[], inMethod: boolean, params: ir.Parameter[] = []): void {
+    const outer = this.inMethod;
+    this.inMethod = inMethod;
+    this.writer.block(() => {
+      this.emitParameterDefaults(params);
+      this.emitStatements(body);
+    });
+    this.inMethod = outer;
+  }
+
+  // ES5 has no rest or default parameters, so the body fills them in
+  private emitParameterDefaults(params: ir.Parameter[]): void {
+    const rest = params.find((param) => param.rest);
+    const keywords = rest && params.find((param) => param.keywords);
+    if (this.supports("es2015")) {
+      if (keywords) this.emitKeywordsParameter(keywords, rest);
+      return;
+    }
+    const positional = params.filter((param) => !param.rest && param !== keywords).length;
+    for (const param of params) {
+      const name = this.name(param.name);
+      if (param.rest) {
+        this.write(this.terminate(`var ${name} = Array.prototype.slice.call(arguments, ${positional})`));
+        if (keywords) this.emitKeywordsParameter(keywords, param);
+      } else if (param === keywords) {
+        continue;
+      } else if (param.defaultValue) {
+        this.write(`if (${name} === undefined) {`);
+        this.writer.block(() => this.write(this.terminate(`${name} = ${this.sub(param.defaultValue!, PREC.assignment)}`)));
+        this.writer.line("}");
+      }
+    }
+  }
+
+  // `def f(*args, **kwargs)`: calls pass keyword arguments as a trailing options object, which lands in `args`
+  private emitKeywordsParameter(keywords: ir.Parameter, rest: ir.Parameter): void {
+    const args = this.name(rest.name);
+    const last = `${args}[${args}.length - 1]`;
+    const declaration = this.supports("es2015") ? "const" : "var";
+    this.note("keyword-arguments", `**${keywords.name} is taken from ${args} when its last item is a plain object`, keywords, "info");
+    this.write(this.terminate(`${declaration} ${this.name(keywords.name)} = Object.prototype.toString.call(${last}) === "[object Object]" ? ${args}.pop() : {}`));
+  }
+
+  // `async` before ES2017 is kept but reported, since the target cannot run it
+  private asyncKeyword(fn: { isAsync: boolean; loc?: ir.SourceRange }): string {
+    if (!fn.isAsync) return "";
+    if (!this.supports("es2017")) {
+      this.note("target-version", `async functions need ES2017 or later, not ${this.options.version}`, fn);
+    }
+    return "async ";
+  }
+
+  // Generators before ES2015 are kept but reported, like `async`
+  private generatorStar(fn: { isGenerator?: boolean; loc?: ir.SourceRange }): string {
+    if (!fn.isGenerator) return "";
+    if (!this.supports("es2015")) {
+      this.note("target-version", `generators need ES2015 or later, not ${this.options.version}`, fn);
+    }
+    return "*";
+  }
+
+  // Python's special methods that JavaScript calls by another name
+  private methodName(member: ir.MethodDefinition): string {
+    if (member.role === "constructor") return "constructor";
+    return this.sourceLanguage === "python" && member.name === "__str__" ? "toString" : member.name;
+  }
+
+  // Ends a statement; without semicolons, guards a line that would otherwise continue the one above
+  private terminate(code: string): string {
+    if (this.options.semicolons) return `${code};`;
+    return /^[([`+\-/]/.test(code) ? `;${code}` : code;
+  }
+
+  private supports(minimum: string): boolean {
+    return supportsVersion(this.options.version, minimum);
+  }
+
+  // `@a @b def f` means `f = a(b(f))`
+  private emitDecoratorCalls(name: string, decorators: ir.Expression[] | undefined): void {
+    if (!decorators || decorators.length === 0) return;
+    let code = name;
+    for (const decorator of [...decorators].reverse()) {
+      code = `${this.sub(decorator, PREC.postfix)}(${code})`;
+    }
+    this.write(this.terminate(`${name} = ${code}`));
+  }
+
+  private emitClass(node: ir.ClassDeclaration): void {
+    const name = this.name(node.name);
+    const { members, statics } = this.lowerFields(node);
+    const outerSuper = this.superClass;
+    this.superClass = node.superClass ? this.sub(node.superClass, PREC.postfix) : undefined;
+
+    if (this.supports("es2015")) {
+      this.emitClassBody(node, members);
+    } else {
+      this.emitPrototypeClass(node, members);
+    }
+    for (const field of statics) {
+      this.emitComments(field.leadingComments);
+      const start = this.writer.lineCount;
+      this.withOrigin(field, () => {
+        this.write(this.terminate(`${name}.${field.name} = ${field.value ? this.sub(field.value, PREC.assignment) : "undefined"}`));
+      });
+      this.emitInlineComment(field, start);
+    }
+
+    this.superClass = outerSuper;
+    this.emitDecoratorCalls(name, node.decorators);
+  }
+
+  private emitClassBody(node: ir.ClassDeclaration, members: ir.ClassMember[]): void {
+    const base = this.superClass ? ` extends ${this.superClass}` : "";
+    this.write(`${this.exportKeyword(node, [node.name])}class ${this.name(node.name)}${base} {`);
+
+    this.writer.block(() => {
+      const before = this.writer.lineCount;
+
+      for (const member of members) {
+        if (member.kind !== "PropertyDefinition") continue;
+        this.emitComments(member.leadingComments);
+        if (member.doc) this.emitDoc(member.doc);
+        const start = this.writer.lineCount;
+        this.withOrigin(member, () => {
+          const head = `${member.isStatic ? "static " : ""}${this.name(member.name)}`;
+          this.write(this.terminate(member.value ? `${head} = ${this.expr(member.value).code}` : head));
+        });
+        this.emitInlineComment(member, start);
+        this.emitComments(member.trailingComments);
+      }
+
+      for (const member of members) {
+        if (member.kind !== "MethodDefinition") continue;
+        if (this.writer.lineCount > before) this.writer.blankLine();
+        this.emitComments(member.leadingComments);
+        if (member.doc) this.emitDoc(member.doc, member);
+        const start = this.writer.lineCount;
+        this.withOrigin(member, () => {
+          for (const decorator of member.decorators ?? []) {
+            this.note("decorator", `decorator @${this.expr(decorator).code} must be applied by hand`, decorator);
+          }
+
+          const modifiers = [
+            member.isStatic ? "static " : "",
+            this.asyncKeyword(member),
+            member.role === "get" ? "get " : member.role === "set" ? "set " : "",
+            this.generatorStar(member),
+          ].join("");
+          this.write(`${modifiers}${this.methodName(member)}(${this.params(member.params)}) {`);
+          this.emitFunctionBody(this.constructorBody(node, member), true, member.params);
+          this.writer.line("}");
+        });
+        this.emitInlineComment(member, start);
+        this.emitComments(member.trailingComments);
+      }
+    });
+
+    this.writer.line("}");
+  }
+
+  // ES5 has no class syntax: a constructor function, with methods on its prototype
+  private emitPrototypeClass(node: ir.ClassDeclaration, members: ir.ClassMember[]): void {
+    const name = this.name(node.name);
+    const methods = members.filter((member): member is ir.MethodDefinition => member.kind === "MethodDefinition");
+    const constructor = methods.find((method) => method.role === "constructor");
+
+    if (constructor) {
+      this.emitComments(constructor.leadingComments);
+      if (constructor.doc) this.emitDoc(constructor.doc, constructor);
+    }
+    this.withOrigin(constructor ?? node, () => {
+      this.write(`function ${name}(${this.params(constructor?.params ?? [])}) {`);
+      if (constructor) {
+        this.emitFunctionBody(this.constructorBody(node, constructor), true, constructor.params);
+      } else {
+        this.writer.block(() => {
+          if (this.superClass) this.write(this.terminate(`${this.superClass}.apply(this, arguments)`));
+        });
+      }
+      this.writer.line("}");
+    });
+    if (this.superClass) {
+      this.write(this.terminate(`${name}.prototype = Object.create(${this.superClass}.prototype)`));
+      this.write(this.terminate(`${name}.prototype.constructor = ${name}`));
+    }
+
+    const accessors = new Set<string>();
+    for (const member of methods) {
+      if (member === constructor) continue;
+      const owner = member.isStatic ? name : `${name}.prototype`;
+      for (const decorator of member.decorators ?? []) {
+        this.note("decorator", `decorator @${this.expr(decorator).code} must be applied by hand`, decorator);
+      }
+
+      if (member.role === "get" || member.role === "set") {
+        // A getter and setter pair is defined together
+        if (accessors.has(`${owner}.${member.name}`)) continue;
+        accessors.add(`${owner}.${member.name}`);
+        this.writer.blankLine();
+        const pair = methods.filter((other) => other.name === member.name && other.isStatic === member.isStatic && (other.role === "get" || other.role === "set"));
+        this.emitComments(member.leadingComments);
+        this.withOrigin(member, () => {
+          this.write(`Object.defineProperty(${owner}, ${this.string(member.name)}, {`);
+          this.writer.block(() => {
+            for (const accessor of pair) {
+              this.writer.line(`${accessor.role}: function(${this.params(accessor.params)}) {`);
+              this.emitFunctionBody(accessor.body, true, accessor.params);
+              this.writer.line("},");
+            }
+            this.writer.line("configurable: true,");
+          });
+          this.writer.line(this.terminate("})"));
+        });
+        continue;
+      }
+
+      this.writer.blankLine();
+      this.emitComments(member.leadingComments);
+      if (member.doc) this.emitDoc(member.doc, member);
+      const start = this.writer.lineCount;
+      this.withOrigin(member, () => {
+        this.write(`${owner}.${this.methodName(member)} = ${this.asyncKeyword(member)}function${this.generatorStar(member)}(${this.params(member.params)}) {`);
+        this.emitFunctionBody(member.body, true, member.params);
+        this.writer.line(this.terminate("}"));
+      });
+      this.emitInlineComment(member, start);
+      this.emitComments(member.trailingComments);
+    }
+  }
+
+  // A derived class must call super() before it can use `this`
+  private constructorBody(node: ir.ClassDeclaration, member: ir.MethodDefinition): ir.Statement[] {
+    if (member.role !== "constructor" || !node.superClass || someNodeInScope(member.body, isSuperCall)) return member.body;
+    return [superCall([]), ...member.body];
+  }
+
+  // Fields arrive with ES2022: instance fields are assigned in the constructor, static ones after the class
+  private lowerFields(node: ir.ClassDeclaration): { members: ir.ClassMember[]; statics: ir.PropertyDefinition[] } {
+    const fields = node.members.filter((member): member is ir.PropertyDefinition => member.kind === "PropertyDefinition");
+    if (this.supports("es2022") || fields.length === 0) return { members: node.members, statics: [] };
+
+    const assignments = fields
+      .filter((field) => !field.isStatic && field.value)
+      .map((field): ir.Statement => ({
+        kind: "ExpressionStatement",
+        expression: {
+          kind: "AssignmentExpression",
+          operator: "=",
+          target: { kind: "MemberExpression", object: { kind: "ThisExpression" }, property: { kind: "Identifier", name: field.name }, computed: false },
+          value: field.value!,
+        },
+        loc: field.loc,
+        leadingComments: field.leadingComments,
+        inlineComment: field.inlineComment,
+      }));
+    let members = node.members.filter((member) => member.kind !== "PropertyDefinition");
+    if (assignments.length > 0) {
+      let constructor = members.find((member): member is ir.MethodDefinition => member.kind === "MethodDefinition" && member.role === "constructor");
+      if (!constructor) {
+        // A derived class passes its arguments on, as the implicit constructor would
+        const args: ir.Identifier = { kind: "Identifier", name: "args" };
+        constructor = node.superClass
+          ? { kind: "MethodDefinition", role: "constructor", name: "constructor", isStatic: false, isAsync: false, params: [{ name: "args", rest: true }], body: [superCall([{ kind: "SpreadElement", argument: args }])] }
+          : { kind: "MethodDefinition", role: "constructor", name: "constructor", isStatic: false, isAsync: false, params: [], body: [] };
+        members = [constructor, ...members];
+      }
+      const body = this.constructorBody(node, constructor);
+      const superIndex = body.findIndex((statement) => statement.kind === "ExpressionStatement" && isSuperCall(statement.expression));
+      const withFields = [...body.slice(0, superIndex + 1), ...assignments, ...body.slice(superIndex + 1)];
+      const original = constructor;
+      members = members.map((member) => (member === original ? { ...original, body: withFields } : member));
+    }
+    return { members, statics: fields.filter((field) => field.isStatic) };
+  }
+
+  private variableDeclaration(declaration: ir.VariableDeclaration): string {
+    const hasInit = declaration.declarations.every((declarator) => declarator.init);
+    const keyword = !this.supports("es2015") ? "var" : declaration.constant && hasInit ? "const" : "let";
+    const declarators = declaration.declarations.map(({ target, init }) =>
+      init ? `${this.pattern(target)} = ${this.sub(init, PREC.assignment)}` : this.pattern(target)
+    );
+    return `${keyword} ${declarators.join(", ")}`;
+  }
+
+  private expressionStatement(expression: ir.Expression): string {
+    const code = this.expr(expression).code;
+    // A leading `{` or `function` would start a block or declaration instead
+    if (code.startsWith("{") || code.startsWith("function") || code.startsWith("class")) {
+      return `(${code})`;
+    }
+    return code;
+  }
+
+  // Prints an if/else-if chain, leaving the final closing brace to the caller
+  private emitIf(statement: ir.IfStatement): void {
+    this.write(`if (${this.truthy(statement.test).code}) {`);
+    this.emitBlock(statement.consequent);
+
+    if (statement.alternate && statement.alternate.length > 0) {
+      this.emitElse(statement.alternate);
+    }
+  }
+
+  private emitElse(alternate: ir.Statement[]): void {
+    const [first] = alternate;
+    if (alternate.length === 1 && first.kind === "IfStatement" && !first.leadingComments) {
+      const test = this.truthy(first.test).code;
+      this.flushNotes();
+      this.writer.line(`} else if (${test}) {`);
+      this.emitBlock(first.consequent);
+      if (first.alternate && first.alternate.length > 0) this.emitElse(first.alternate);
+      return;
+    }
+    this.writer.line("} else {");
+    this.emitBlock(alternate);
+  }
+
+  private emitForEach(statement: ir.ForEachStatement): void {
+    const iterable = this.expr(statement.iterable).code;
+    const target = this.pattern(statement.target);
+
+    if (!this.supports("es2015")) {
+      if (statement.over === "keys") {
+        this.write(`for (var ${target} in ${iterable}) {`);
+        this.emitBlock(statement.body);
+      } else {
+        // for-of arrives with ES2015, so arrays and strings are walked by index
+        const suffix = this.loopCounter++ === 0 ? "" : String(this.loopCounter);
+        const [index, items] = [`_i${suffix}`, `_items${suffix}`];
+        this.note("target-version", "for-of was rewritten as an index loop, which only walks arrays and strings", statement.iterable, "info");
+        this.write(`for (var ${index} = 0, ${items} = ${iterable}; ${index} < ${items}.length; ${index}++) {`);
+        this.writer.block(() => {
+          this.writer.line(this.terminate(`var ${target} = ${items}[${index}]`));
+          this.emitStatements(statement.body);
+        });
+      }
+      this.writer.line("}");
+      return;
+    }
+
+    const reassigned = someNodeInScope(statement.body, (node) =>
+      node.kind === "AssignmentExpression" && node.target.kind === "Identifier" &&
+      patternNames(statement.target).includes(node.target.name)
+    );
+    const keyword = reassigned ? "let" : "const";
+    const operator = statement.over === "keys" ? "in" : "of";
+    this.write(`for (${keyword} ${target} ${operator} ${iterable}) {`);
+    this.emitBlock(statement.body);
+    this.writer.line("}");
+  }
+
+  private emitThrow(statement: ir.ThrowStatement): void {
+    const argument = statement.argument;
+    if (argument.kind === "Literal" || argument.kind === "TemplateLiteral") {
+      this.write(this.terminate(`throw new Error(${this.expr(argument).code})`));
+      return;
+    }
+    this.write(this.terminate(`throw ${this.expr(argument).code}`));
+  }
+
+  private emitTry(statement: ir.TryStatement): void {
+    const handlers = statement.handlers;
+    // Classes JavaScript can tell apart; the others are all `Error`, which catches every error
+    const specific = (handler: ir.CatchClause) => (handler.types ?? []).filter((type) => this.errorClass(type) !== "Error");
+    const isCatchAll = (handler: ir.CatchClause) =>
+      !handler.types || handler.types.some((type) => type.kind === "Identifier" && (type.name === "Exception" || type.name === "BaseException"));
+
+    for (const handler of handlers) {
+      const collapsed = (handler.types ?? [])
+        .filter((type): type is ir.Identifier => type.kind === "Identifier" && ERROR_CLASSES[type.name] === "Error")
+        .map((type) => type.name)
+        .filter((name) => name !== "Exception" && name !== "BaseException");
+      if (collapsed.length > 0) {
+        const message = `${collapsed.join(", ")} has no JavaScript counterpart, so it is caught like any other Error`;
+        this.note("exception-type", message, handler);
+      }
+    }
+
+    this.write("try {");
+    this.emitBlock(statement.block);
+
+    // Handlers after one that catches everything can never run. The first handler that only
+    // catches everything in JavaScript goes last, so the typed handlers after it still run.
+    const catchAllIndex = handlers.findIndex(isCatchAll);
+    const reachable = catchAllIndex >= 0 ? handlers.slice(0, catchAllIndex + 1) : handlers;
+    const fallback = reachable.find((handler) => isCatchAll(handler) || specific(handler).length < handler.types!.length);
+    const claimed = new Set<string>();
+    const chain: { handler: ir.CatchClause; test: string[] }[] = [];
+    for (const handler of reachable) {
+      const test = specific(handler).map((type) => this.errorClass(type)).filter((name) => !claimed.has(name));
+      test.forEach((name) => claimed.add(name));
+      if (handler === fallback) continue;
+      if (test.length === 0) this.note("exception-type", "this handler can never run: an earlier one catches the same errors", handler);
+      else chain.push({ handler, test });
+    }
+    for (const handler of handlers.slice(reachable.length)) {
+      this.note("exception-type", "this handler can never run: an earlier one catches every error", handler);
+    }
+
+    if (chain.length === 0 && fallback) {
+      const param = fallback.param;
+      // Catch without a binding arrives with ES2019
+      const binding = param ? this.name(param) : this.supports("es2019") ? undefined : "error";
+      this.writer.line(binding ? `} catch (${binding}) {` : "} catch {");
+      this.emitBlock(fallback.body);
+    } else if (chain.length > 0) {
+      // Typed handlers become an instanceof chain inside a single catch
+      const error = reachable.find((handler) => handler.param)?.param ?? "error";
+      const bound = (handler: ir.CatchClause): ir.Statement[] => handler.param && handler.param !== error
+        ? [{ kind: "VariableDeclaration", constant: true, declarations: [{ target: { kind: "Identifier", name: handler.param }, init: { kind: "Identifier", name: error } }] }, ...handler.body]
+        : handler.body;
+
+      this.writer.line(`} catch (${this.name(error)}) {`);
+      this.writer.block(() => {
+        chain.forEach(({ handler, test }, index) => {
+          const condition = test.map((name) => `${this.name(error)} instanceof ${name}`).join(" || ");
+          this.writer.line(`${index === 0 ? "if" : "} else if"} (${condition}) {`);
+          this.emitBlock(bound(handler));
+        });
+
+        this.writer.line("} else {");
+        if (fallback) {
+          this.emitBlock(bound(fallback));
+        } else {
+          // Errors no handler matches keep propagating
+          this.writer.block(() => this.writer.line(this.terminate(`throw ${this.name(error)}`)));
+        }
+        this.writer.line("}");
+      });
+    }
+
+    if (statement.finalizer) {
+      this.writer.line("} finally {");
+      this.emitBlock(statement.finalizer);
+    }
+    this.writer.line("}");
+  }
+
+  private errorClass(type: ir.Expression): string {
+    if (type.kind === "Identifier" && ERROR_CLASSES[type.name]) return ERROR_CLASSES[type.name];
+    return this.sub(type, PREC.postfix);
+  }
+
+  // `with open(p) as f:` becomes a try/finally that closes `f`
+  private emitWith(items: ir.WithItem[], body: ir.Statement[]): void {
+    const [item, ...rest] = items;
+    if (!item) {
+      this.emitStatements(body);
+      return;
+    }
+
+    const resource = item.target?.kind === "Identifier" ? this.name(item.target.name) : "resource";
+    const binding = item.target && item.target.kind !== "Identifier" ? this.pattern(item.target) : resource;
+    const message = "context manager: check that the resource is released by close()";
+    this.note("context-manager", message, item.context, "info");
+    this.write(this.terminate(`${this.supports("es2015") ? "const" : "var"} ${binding} = ${this.expr(item.context).code}`));
+    this.writer.line("try {");
+    this.writer.block(() => this.emitWith(rest, body));
+    this.writer.line("} finally {");
+    this.writer.block(() => this.writer.line(this.terminate(`${resource}.close()`)));
+    this.writer.line("}");
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  private wrap(emitted: Emitted, minPrec: number): string {
+    return emitted.prec < minPrec ? `(${emitted.code})` : emitted.code;
+  }
+
+  private sub(expression: ir.Expression, minPrec: number): string {
+    return this.wrap(this.expr(expression), minPrec);
+  }
+
+  private name(name: string): string {
+    return RESERVED_WORDS.has(name) ? `${name}_` : name;
+  }
+
+  private pattern(pattern: ir.Pattern): string {
+    if (pattern.kind !== "Identifier" && !this.supports("es2015")) {
+      this.note("target-version", "destructuring needs ES2015 or later", pattern);
+    }
+    switch (pattern.kind) {
+      case "Identifier":
+        return this.name(pattern.name);
+      case "ArrayPattern": {
+        const elements = pattern.elements.map((element, index) => {
+          const fallback = pattern.defaults?.[index];
+          return element ? `${this.pattern(element)}${fallback ? ` = ${this.expr(fallback).code}` : ""}` : "";
+        });
+        if (pattern.rest) elements[elements.length - 1] = `...${elements[elements.length - 1]}`;
+        return `[${elements.join(", ")}]`;
+      }
+      case "ObjectPattern": {
+        const properties = pattern.properties.map((property) => {
+          const value = this.pattern(property.value);
+          let code = property.value.kind === "Identifier" && value === property.key ? value : `${property.key}: ${value}`;
+          if (property.defaultValue) code += ` = ${this.expr(property.defaultValue).code}`;
+          return code;
+        });
+        if (pattern.rest) {
+          if (!this.supports("es2018")) this.note("target-version", "rest properties need ES2018 or later", pattern.rest);
+          properties.push(`...${this.name(pattern.rest.name)}`);
+        }
+        return `{ ${properties.join(", ")} }`;
+      }
+    }
+  }
+
+  private assignmentTarget(target: ir.Expression | ir.Pattern): string {
+    if (target.kind === "ArrayPattern" || target.kind === "ObjectPattern") {
+      return this.pattern(target);
+    }
+    return this.sub(target, PREC.postfix);
+  }
+
+  private args(args: ir.Expression[]): string {
+    const positional = args.filter((arg) => arg.kind !== "NamedArgument");
+    const named = args.filter((arg): arg is ir.NamedArgument => arg.kind === "NamedArgument");
+    const codes = positional.map((arg) => this.sub(arg, PREC.assignment));
+
+    if (named.length > 0) {
+      // Keyword arguments travel as one trailing options object
+      const message = `keyword arguments (${named.map((arg) => arg.name).join(", ")}) are passed as an options object`;
+      this.note("keyword-arguments", message, named[0]);
+      codes.push(`{ ${named.map((arg) => `${this.propertyKey(arg.name)}: ${this.sub(arg.value, PREC.assignment)}`).join(", ")} }`);
+    }
+    return codes.join(", ");
+  }
+
+  private propertyKey(key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : this.string(key);
+  }
+
+  // A string literal in the configured quote style
+  private string(value: string): string {
+    const json = JSON.stringify(value);
+    if (this.options.quote === '"') return json;
+    return `'${json.slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+  }
+
+  private expr(expression: ir.Expression): Emitted {
+    switch (expression.kind) {
+      case "Identifier": {
+        const idiom = this.idioms.identifier(expression);
+        if (idiom) return this.idiom(idiom, expression);
+        return { code: this.name(expression.name), prec: PREC.atom };
+      }
+
+      case "Literal":
+        return { code: this.literal(expression), prec: expression.value !== null && typeof expression.value === "number" && expression.value < 0 ? PREC.unary : PREC.atom };
+
+      case "TemplateLiteral": {
+        if (!this.supports("es2015")) return this.concatenation(expression);
+        let body = "";
+        expression.quasis.forEach((quasi, index) => {
+          body += quasi.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$\{/g, "\\${");
+          if (index < expression.expressions.length) body += `\${${this.expr(expression.expressions[index]).code}}`;
+        });
+        return { code: `\`${body}\``, prec: PREC.atom };
+      }
+
+      case "ArrayExpression":
+        return { code: `[${expression.elements.map((element) => this.sub(element, PREC.assignment)).join(", ")}]`, prec: PREC.atom };
+
+      case "ObjectExpression": {
+        if (expression.properties.length === 0) return { code: "{}", prec: PREC.atom };
+        if (!this.supports("es2018") && expression.properties.some((property) => "kind" in property)) {
+          return this.objectAssign(expression);
+        }
+        const entries = expression.properties.map((property) => {
+          if ("kind" in property) return `...${this.sub(property.argument, PREC.assignment)}`;
+          const value = this.sub(property.value, PREC.assignment);
+          if (property.key.kind === "Literal" && (typeof property.key.value === "string" || typeof property.key.value === "number")) {
+            return `${typeof property.key.value === "string" ? this.propertyKey(property.key.value) : property.key.value}: ${value}`;
+          }
+          return `[${this.expr(property.key).code}]: ${value}`;
+        });
+        return { code: `{ ${entries.join(", ")} }`, prec: PREC.atom };
+      }
+
+      case "BinaryExpression":
+        return this.binary(expression);
+
+      case "LogicalExpression": {
+        const [operator, prec] = expression.operator === "&&"
+          ? ["&&", PREC.and]
+          : expression.operator === "||"
+            ? ["||", PREC.or]
+            : ["??", PREC.nullish];
+        if (operator === "??" && !this.supports("es2020")) return this.nullCheck(expression.left, this.expr(expression.right));
+        // `??` cannot be mixed with `&&` or `||` without parentheses
+        const operandMin = operator === "??" ? PREC.bitOr : prec;
+        return {
+          code: `${this.sub(expression.left, operandMin)} ${operator} ${this.sub(expression.right, Math.max(operandMin, prec + 1))}`,
+          prec,
+        };
+      }
+
+      case "UnaryExpression": {
+        if (expression.operator === "!") return this.truthy(expression.argument, true);
+        const operator = ["typeof", "void", "delete"].includes(expression.operator) ? `${expression.operator} ` : expression.operator;
+        return { code: `${operator}${this.sub(expression.argument, PREC.unary)}`, prec: PREC.unary };
+      }
+
+      case "UpdateExpression": {
+        const argument = this.sub(expression.argument, PREC.postfix);
+        return {
+          code: expression.prefix ? `${expression.operator}${argument}` : `${argument}${expression.operator}`,
+          prec: PREC.update,
+        };
+      }
+
+      case "AssignmentExpression": {
+        const target = this.assignmentTarget(expression.target);
+        const value = this.sub(expression.value, PREC.assignment);
+        if (expression.operator === "//=") {
+          return { code: `${target} = Math.floor(${target} / ${value})`, prec: PREC.assignment };
+        }
+        if (expression.operator === "**=" && !this.supports("es2016")) {
+          return { code: `${target} = Math.pow(${target}, ${value})`, prec: PREC.assignment };
+        }
+        // Logical assignment arrives with ES2021
+        if (["&&=", "||=", "??="].includes(expression.operator) && !this.supports("es2021")) {
+          const assign: Emitted = { code: `(${target} = ${value})`, prec: PREC.atom };
+          if (expression.operator === "??=") return this.nullCheck(expression.target as ir.Expression, assign);
+          const operator = expression.operator.slice(0, 2);
+          return { code: `${target} ${operator} ${assign.code}`, prec: operator === "&&" ? PREC.and : PREC.or };
+        }
+        return { code: `${target} ${expression.operator} ${value}`, prec: PREC.assignment };
+      }
+
+      case "CallExpression":
+        return this.call(expression);
+
+      case "NewExpression": {
+        const callee = expression.callee.kind === "Identifier" && ERROR_CLASSES[expression.callee.name]
+          ? ERROR_CLASSES[expression.callee.name]
+          : this.sub(expression.callee, PREC.postfix);
+        return { code: `new ${callee}(${this.args(expression.arguments)})`, prec: PREC.postfix };
+      }
+
+      case "MemberExpression": {
+        const idiom = this.idioms.member(expression);
+        if (idiom) return this.idiom(idiom, expression);
+        if (expression.optional && !this.supports("es2020")) {
+          return this.optionalCheck(expression.object, this.expr({ ...expression, optional: false }));
+        }
+        const object = this.memberObject(expression.object);
+        const optional = expression.optional ? "?." : "";
+        const { property } = expression;
+
+        if (!expression.computed && property.kind === "Identifier") {
+          return { code: `${object}${optional || "."}${property.name}`, prec: PREC.postfix };
+        }
+        // Negative indexes count from the end, as in Python
+        if (isNegativeNumber(property) && !this.supports("es2022")) {
+          return { code: `${object}.slice(${this.expr(property).code})[0]`, prec: PREC.postfix };
+        }
+        if (isNegativeNumber(property)) {
+          return { code: `${object}${optional || "."}at(${this.expr(property).code})`, prec: PREC.postfix };
+        }
+        return { code: `${object}${optional}[${this.expr(property).code}]`, prec: PREC.postfix };
+      }
+
+      case "ConditionalExpression":
+        return {
+          code: `${this.wrap(this.truthy(expression.test), PREC.nullish)} ? ${this.sub(expression.consequent, PREC.assignment)} : ${this.sub(expression.alternate, PREC.assignment)}`,
+          prec: PREC.conditional,
+        };
+
+      case "FunctionExpression":
+        return this.functionExpression(expression);
+
+      case "ThisExpression":
+        return { code: "this", prec: PREC.atom };
+
+      case "SuperExpression":
+        // ES5 methods reach the base class through its prototype
+        if (!this.supports("es2015")) return { code: `${this.superClass ?? "Object"}.prototype`, prec: PREC.postfix };
+        return { code: "super", prec: PREC.atom };
+
+      case "SpreadElement":
+        if (!this.supports("es2015")) this.note("target-version", "spread syntax needs ES2015 or later", expression);
+        return { code: `...${this.sub(expression.argument, PREC.assignment)}`, prec: PREC.assignment };
+
+      case "AwaitExpression":
+        return { code: `await ${this.sub(expression.argument, PREC.unary)}`, prec: PREC.unary };
+
+      case "YieldExpression": {
+        const keyword = expression.delegate ? "yield*" : "yield";
+        return { code: expression.argument ? `${keyword} ${this.sub(expression.argument, PREC.assignment)}` : keyword, prec: PREC.assignment };
+      }
+
+      case "SequenceExpression":
+        return {
+          code: expression.expressions.map((item) => this.sub(item, PREC.assignment)).join(", "),
+          prec: PREC.sequence,
+        };
+
+      case "ComprehensionExpression":
+        return this.comprehension(expression);
+
+      case "SliceExpression":
+        return this.slice(expression);
+
+      case "NamedArgument":
+        this.note("keyword-arguments", `keyword argument ${expression.name} outside a call`, expression);
+        return this.expr(expression.value);
+
+      case "UnsupportedExpression":
+        this.note("unsupported-expression", `${expression.reason}: ${expression.text}`, expression, "error");
+        return { code: expression.text, prec: PREC.atom };
+    }
+  }
+
+  // Numeric literals need parentheses before `.` (`(1).toString()`)
+  private memberObject(object: ir.Expression): string {
+    const code = this.sub(object, PREC.postfix);
+    return object.kind === "Literal" && typeof object.value === "number" && /^\d+$/.test(code) ? `(${code})` : code;
+  }
+
+  // `a ?? b` before ES2020
+  private nullCheck(left: ir.Expression, fallback: Emitted): Emitted {
+    const code = this.sub(left, PREC.relational);
+    this.noteRepeated(left);
+    return { code: `${code} != null ? ${code} : ${this.wrap(fallback, PREC.assignment)}`, prec: PREC.conditional };
+  }
+
+  // `a?.b` and `f?.()` before ES2020
+  private optionalCheck(object: ir.Expression, access: Emitted): Emitted {
+    this.noteRepeated(object);
+    return { code: `${this.sub(object, PREC.relational)} == null ? undefined : ${this.wrap(access, PREC.assignment)}`, prec: PREC.conditional };
+  }
+
+  private noteRepeated(expression: ir.Expression): void {
+    if (isSimpleReference(expression)) return;
+    this.note("target-version", "the null check evaluates its operand twice; store it in a variable if that has side effects", expression, "info");
+  }
+
+  // Template literals arrive with ES2015, so ES5 joins the parts with `+`
+  private concatenation(template: ir.TemplateLiteral): Emitted {
+    const parts: string[] = [];
+    template.quasis.forEach((quasi, index) => {
+      // A leading empty string keeps `${a}${b}` from adding numbers
+      if (quasi || (index === 0 && !template.quasis[1])) parts.push(this.string(quasi));
+      if (index < template.expressions.length) parts.push(this.sub(template.expressions[index], PREC.additive + 1));
+    });
+    return parts.length === 1 ? { code: parts[0], prec: PREC.atom } : { code: parts.join(" + "), prec: PREC.additive };
+  }
+
+  // Object spread arrives with ES2018, so the parts are merged in order by Object.assign
+  private objectAssign(expression: ir.ObjectExpression): Emitted {
+    if (!this.supports("es2015")) this.note("target-version", "Object.assign needs ES2015 or later", expression);
+    const parts = ["{}"];
+    let group: ir.ObjectExpression["properties"] = [];
+    const flush = () => {
+      if (group.length > 0) parts.push(this.expr({ kind: "ObjectExpression", properties: group }).code);
+      group = [];
+    };
+    for (const property of expression.properties) {
+      if ("kind" in property) {
+        flush();
+        parts.push(this.sub(property.argument, PREC.assignment));
+      } else {
+        group.push(property);
+      }
+    }
+    flush();
+    return { code: `Object.assign(${parts.join(", ")})`, prec: PREC.postfix };
+  }
+
+  private literal(literal: ir.Literal): string {
+    if (literal.value === null) return literal.raw === "undefined" ? "undefined" : "null";
+    if (typeof literal.value === "boolean") return String(literal.value);
+    if (typeof literal.value === "string") return this.string(literal.value);
+
+    const raw = literal.raw;
+    if (raw && /^(0[xXoObB][0-9a-fA-F]+(_[0-9a-fA-F]+)*|(0|[1-9]\d*(_\d+)*)(\.\d+(_\d+)*)?([eE][+-]?\d+)?)$/.test(raw)) {
+      return raw;
+    }
+    return String(literal.value);
+  }
+
+  private binary(expression: ir.BinaryExpression): Emitted {
+    const { left, right } = expression;
+
+    const idiom = this.idioms.binary(expression);
+    if (idiom) return this.idiom(idiom, expression);
+
+    if (expression.operator === "%" && this.floorsRemainder(expression)) {
+      const divisor = this.sub(right, PREC.multiplicative + 1);
+      return { code: `(${this.sub(left, PREC.multiplicative)} % ${divisor} + ${divisor}) % ${divisor}`, prec: PREC.multiplicative };
+    }
+    if (expression.operator === "**" && !this.supports("es2016")) {
+      return { code: `Math.pow(${this.sub(left, PREC.assignment)}, ${this.sub(right, PREC.assignment)})`, prec: PREC.postfix };
+    }
+    if (expression.operator === "**") {
+      // The base of `**` cannot be a unary expression
+      return { code: `${this.sub(left, PREC.update)} ** ${this.sub(right, PREC.exponent)}`, prec: PREC.exponent };
+    }
+
+    const [operator, prec] = BINARY_OPERATORS[expression.operator]!;
+    return { code: `${this.sub(left, prec)} ${operator} ${this.sub(right, prec + 1)}`, prec };
+  }
+
+  /**
+   * Python's `%` takes the sign of the divisor and JavaScript's that of the
+   * dividend, so Python remainders are adjusted, except where both agree: a
+   * non-negative literal dividend, or a remainder compared with zero.
+   */
+  private floorsRemainder(expression: ir.BinaryExpression): boolean {
+    if (this.sourceLanguage !== "python" || this.types.typeOf(expression.left).kind === "string") return false;
+    const { left } = expression;
+    if (left.kind === "Literal" && typeof left.value === "number" && left.value >= 0) return false;
+    return !this.zeroTests.has(expression);
+  }
+
+  // Python treats empty lists and dicts as false, JavaScript treats every object as true
+  private truthy(expression: ir.Expression, negated = false): Emitted {
+    if (this.sourceLanguage === "python" && expression.kind === "LogicalExpression" && expression.operator !== "??" && !negated) {
+      const prec = expression.operator === "&&" ? PREC.and : PREC.or;
+      const left = this.wrap(this.truthy(expression.left), prec);
+      return { code: `${left} ${expression.operator} ${this.wrap(this.truthy(expression.right), prec + 1)}`, prec };
+    }
+    if (this.sourceLanguage === "python") {
+      const type = this.types.typeOf(expression);
+      const size = type.kind === "array"
+        ? `${this.sub(expression, PREC.postfix)}.length`
+        : type.kind === "dict" ? `Object.keys(${this.sub(expression, PREC.assignment)}).length` : undefined;
+      if (size) return { code: `${size} ${negated ? "===" : "!=="} 0`, prec: PREC.equality };
+      if ((type.kind === "any" || type.kind === "optional") && (expression.kind === "Identifier" || expression.kind === "MemberExpression")) {
+        const name = this.expr(expression).code;
+        this.note("truthiness", `An empty list or dict is true in JavaScript; compare its length if ${name} may be one`, expression, "info");
+      }
+    }
+    if (!negated) return this.expr(expression);
+    const operand = expression.kind === "LogicalExpression" ? this.truthy(expression) : this.expr(expression);
+    return { code: `!${this.wrap(operand, PREC.unary)}`, prec: PREC.unary };
+  }
+
+  // `isinstance(value, type)`, with Python's built-in types tested the JavaScript way
+  private isinstance(value: ir.Expression, types: ir.Expression): Emitted {
+    const tests = (types.kind === "ArrayExpression" ? types.elements : [types]).map((type) => this.typeTest(value, type));
+    if (tests.length === 1) return tests[0];
+    return { code: tests.map((test) => this.wrap(test, PREC.or + 1)).join(" || "), prec: PREC.or };
+  }
+
+  private typeTest(value: ir.Expression, type: ir.Expression): Emitted {
+    const name = type.kind === "Identifier" ? type.name : undefined;
+    const primitive = name && PRIMITIVE_TYPES[name];
+    if (primitive) return { code: `typeof ${this.sub(value, PREC.unary)} === "${primitive}"`, prec: PREC.equality };
+    if (name === "int") return { code: `Number.isInteger(${this.sub(value, PREC.assignment)})`, prec: PREC.postfix };
+    if (name === "list" || name === "tuple") return { code: `Array.isArray(${this.sub(value, PREC.assignment)})`, prec: PREC.postfix };
+    if (name === "dict") {
+      const subject = this.sub(value, PREC.relational + 1);
+      return { code: `typeof ${this.sub(value, PREC.unary)} === "object" && ${subject} !== null && !Array.isArray(${subject})`, prec: PREC.and };
+    }
+    const constructor = name === "set" ? "Set" : (name && ERROR_CLASSES[name]) ?? this.sub(type, PREC.relational + 1);
+    return { code: `${this.sub(value, PREC.relational)} instanceof ${constructor}`, prec: PREC.relational };
+  }
+
+  private call(call: ir.CallExpression): Emitted {
+    const { callee } = call;
+
+    if (callee.kind === "SuperExpression" && !this.supports("es2015")) {
+      const [first] = call.arguments;
+      if (call.arguments.length === 1 && first.kind === "SpreadElement") {
+        return { code: `${this.superClass ?? "Object"}.apply(this, ${this.sub(first.argument, PREC.assignment)})`, prec: PREC.postfix };
+      }
+      return { code: `${this.superClass ?? "Object"}.call(${["this", ...call.arguments.map((arg) => this.sub(arg, PREC.assignment))].join(", ")})`, prec: PREC.postfix };
+    }
+    if (callee.kind === "SuperExpression") {
+      return { code: `super(${this.args(call.arguments)})`, prec: PREC.postfix };
+    }
+    if (callee.kind === "MemberExpression" && callee.object.kind === "SuperExpression" && !this.supports("es2015")) {
+      const args = this.args(call.arguments);
+      return { code: `${this.sub(callee, PREC.postfix)}.call(this${args ? `, ${args}` : ""})`, prec: PREC.postfix };
+    }
+    if (call.optional && !this.supports("es2020")) {
+      return this.optionalCheck(callee, this.expr({ ...call, optional: false }));
+    }
+
+    const idiom = this.idioms.call(call);
+    if (idiom) return this.idiom(idiom, call);
+
+    if (this.sourceLanguage === "python" && callee.kind === "Identifier" && callee.name === "isinstance" && call.arguments.length === 2) {
+      return this.isinstance(call.arguments[0], call.arguments[1]);
+    }
+    if (callee.kind === "Identifier" && callee.name === "format") {
+      const formatted = this.format(call.arguments);
+      if (formatted) return formatted;
+    }
+
+    const optional = call.optional ? "?." : "";
+    return { code: `${this.memberObject(callee)}${optional}(${this.args(call.arguments)})`, prec: PREC.postfix };
+  }
+
+  // `format(value, spec)`, which the Python parser uses for f-string format specifiers
+  private format(args: ir.Expression[]): Emitted | null {
+    const [value, spec] = args;
+    if (!value || spec?.kind !== "Literal" || typeof spec.value !== "string") return null;
+    const fixed = /^\.(\d+)f$/.exec(spec.value);
+    if (fixed) {
+      return { code: `${this.memberObject(value)}.toFixed(${fixed[1]})`, prec: PREC.postfix };
+    }
+    this.note("format-specifier", `format specifier "${spec.value}" is not applied`, spec);
+    return { code: `String(${this.expr(value).code})`, prec: PREC.postfix };
+  }
+
+  // Library construct printed through the idiom table of the language pair
+  private idiom(match: IdiomMatch, node: ir.Expression): Emitted {
+    for (const line of match.imports) this.imports.add(line);
+    this.noteIdiom(match, node);
+
+    const { code, loose } = renderIdiom(match, (expression, slot) =>
+      this.sub(expression, slot === "loose" ? PREC.assignment : PREC.postfix)
+    );
+    if (!this.supports("es2015") && /=>|\.\.\./.test(code)) {
+      this.note("target-version", `${match.name} is written with ES2015 syntax`, node);
+    }
+    return { code, prec: loose ? PREC.assignment : PREC.postfix };
+  }
+
+  private functionExpression(fn: ir.FunctionExpression): Emitted {
+    const isAsync = this.asyncKeyword(fn);
+    const star = this.generatorStar(fn);
+    const params = this.params(fn.params);
+    const es5 = !this.supports("es2015");
+
+    if (fn.expressionBody && !es5 && !star) {
+      const body = this.expr(fn.expressionBody);
+      const code = body.code.startsWith("{") ? `(${body.code})` : this.wrap(body, PREC.assignment);
+      return { code: `${isAsync}(${params}) => ${code}`, prec: PREC.assignment };
+    }
+    const statements: ir.Statement[] = fn.expressionBody ? [{ kind: "ReturnStatement", argument: fn.expressionBody }] : fn.body;
+
+    // Multi-statement bodies are printed with a nested emitter and re-indented by the caller
+    const nested = new JavaScriptEmitter(this.options);
+    nested.inMethod = this.inMethod || fn.isArrow;
+    nested.idioms = this.idioms;
+    nested.imports = this.imports;
+    nested.sourceLanguage = this.sourceLanguage;
+    nested.types = this.types;
+    nested.superClass = this.superClass;
+    nested.zeroTests = this.zeroTests;
+    nested.writer.indent();
+    nested.statement = this.statement;
+    nested.emitParameterDefaults(fn.params);
+    nested.emitStatements(statements);
+    nested.flushNotes();
+    // The body's notes are reported against the statement that contains the function
+    this.notes.push(...nested.diagnostics.notes());
+    const body = nested.writer.toString();
+
+    if (es5) {
+      // Arrows keep the enclosing `this`, which an ES5 function only gets by binding it
+      const code = `${isAsync}function${star}${fn.name ? ` ${fn.name}` : ""}(${params}) {\n${body}\n}`;
+      return fn.isArrow && usesLexicalThis(statements) ? { code: `${code}.bind(this)`, prec: PREC.postfix } : { code, prec: PREC.atom };
+    }
+    const head = fn.isArrow && !star ? `${isAsync}(${params}) =>` : `${isAsync}function${star}${fn.name ? ` ${fn.name}` : ""}(${params})`;
+    return { code: `${head} {\n${body}\n}`, prec: fn.isArrow ? PREC.assignment : PREC.atom };
+  }
+
+  // A one-expression callback for the array methods comprehensions are built from
+  private callback(param: string, body: string): string {
+    if (this.supports("es2015")) return `${param} => ${body.startsWith("{") ? `(${body})` : body}`;
+    return `function${param} { ${this.terminate(`return ${body}`)} }`;
+  }
+
+  // Comprehensions become filter/map chains; nested clauses use flatMap
+  private comprehension(expression: ir.ComprehensionExpression): Emitted {
+    const element = expression.key
+      ? `[${this.expr(expression.key).code}, ${this.sub(expression.element, PREC.assignment)}]`
+      : this.expr(expression.element).code;
+
+    const chain = (index: number): string => {
+      const clause = expression.clauses[index];
+      const param = `(${this.pattern(clause.target)})`;
+      let code = this.memberObject(clause.iterable);
+      for (const condition of clause.conditions) {
+        code += `.filter(${this.callback(param, this.sub(condition, PREC.assignment))})`;
+      }
+
+      if (index < expression.clauses.length - 1) {
+        if (!this.supports("es2019")) this.note("target-version", "flatMap needs ES2019 or later", clause.iterable);
+        return `${code}.flatMap(${this.callback(param, chain(index + 1))})`;
+      }
+      const isIdentity = !expression.key && clause.target.kind === "Identifier" &&
+        expression.element.kind === "Identifier" && expression.element.name === clause.target.name;
+      if (isIdentity) {
+        if (clause.conditions.length > 0) return code;
+        return this.supports("es2015") ? `[...${code}]` : `${code}.slice()`;
+      }
+      return `${code}.map(${this.callback(param, element)})`;
+    };
+
+    const code = chain(0);
+    switch (expression.collection) {
+      case "dict":
+        if (!this.supports("es2019")) this.note("target-version", "Object.fromEntries needs ES2019 or later", expression);
+        return { code: `Object.fromEntries(${code})`, prec: PREC.postfix };
+      case "set":
+        return { code: `new Set(${code})`, prec: PREC.postfix };
+      default:
+        return { code, prec: PREC.postfix };
+    }
+  }
+
+  private slice(expression: ir.SliceExpression): Emitted {
+    const object = this.memberObject(expression.object);
+    const { start, end, step } = expression;
+
+    if (step) {
+      // `[::-1]` reverses a copy
+      if (!start && !end && isNegativeNumber(step) && step.kind === "UnaryExpression" && step.argument.kind === "Literal" && step.argument.value === 1) {
+        return { code: this.supports("es2015") ? `[...${object}].reverse()` : `${object}.slice().reverse()`, prec: PREC.postfix };
+      }
+      this.note("slice-step", "slice steps have no JavaScript equivalent", step, "error");
+    }
+
+    const args: string[] = [];
+    if (start || end) args.push(start ? this.expr(start).code : "0");
+    if (end) args.push(this.expr(end).code);
+    return { code: `${object}.slice(${args.join(", ")})`, prec: PREC.postfix };
+  }
+}
+
+function isSuperCall(node: ir.Node): boolean {
+  return node.kind === "CallExpression" && node.callee.kind === "SuperExpression";
+}
+
+function isSimpleReference(expression: ir.Expression): boolean {
+  if (expression.kind === "Identifier" || expression.kind === "ThisExpression") return true;
+  return expression.kind === "MemberExpression" && !expression.computed && !expression.optional && isSimpleReference(expression.object);
+}
+
+function superCall(args: ir.Expression[]): ir.Statement {
+  return { kind: "ExpressionStatement", expression: { kind: "CallExpression", callee: { kind: "SuperExpression" }, arguments: args } };
+}
+
+// Whether `this` is used in the body or in the arrow functions inside it, which share it
+function usesLexicalThis(root: unknown): boolean {
+  let found = false;
+  walk(root, (node) => {
+    if (found) return false;
+    if (node.kind === "ThisExpression") found = true;
+    return !found && node.kind !== "FunctionDeclaration" && node.kind !== "ClassDeclaration" && !(node.kind === "FunctionExpression" && !node.isArrow);
+  });
+  return found;
+}
+
+function isNegativeNumber(expression: ir.Expression): boolean {
+  return (
+    (expression.kind === "UnaryExpression" && expression.operator === "-" && expression.argument.kind === "Literal" && typeof expression.argument.value === "number") ||
+    (expression.kind === "Literal" && typeof expression.value === "number" && expression.value < 0)
+  );
+}
+
+function patternNames(pattern: ir.Pattern): string[] {
+  switch (pattern.kind) {
+    case "Identifier":
+      return [pattern.name];
+    case "ArrayPattern":
+      return pattern.elements.flatMap((element) => (element ? patternNames(element) : []));
+    case "ObjectPattern":
+      return [...pattern.properties.flatMap((property) => patternNames(property.value)), ...(pattern.rest ? [pattern.rest.name] : [])];
+  }
+}
+
+// Function whose signature a statement's doc comment describes
+function documentedFunction(statement: ir.Statement): FunctionLike | undefined {
+  if (statement.kind === "FunctionDeclaration") return statement;
+  if (statement.kind !== "VariableDeclaration") return undefined;
+  const init = statement.declarations[0]?.init;
+  return init?.kind === "FunctionExpression" ? init : undefined;
+}
+
+// JSDoc spelling of an inferred type; unknown types are left out
+function jsDocType(type: Type): string | undefined {
+  switch (type.kind) {
+    case "int":
+    case "double":
+      return "number";
+    case "string":
+      return "string";
+    case "bool":
+      return "boolean";
+    case "array": {
+      const element = jsDocType(type.element) ?? "*";
+      return element.includes("|") ? `Array<${element}>` : `${element}[]`;
+    }
+    case "dict":
+      return `Object<${jsDocType(type.key) ?? "*"}, ${jsDocType(type.value) ?? "*"}>`;
+    case "optional": {
+      const wrapped = jsDocType(type.wrapped);
+      return wrapped ? `${wrapped}|null` : undefined;
+    }
+    case "class":
+      return type.name;
+    case "none":
+      return "null";
+    case "void":
+    case "any":
+      return undefined;
+  }
+}
@@ -0,0 +1,1098 @@
+import type * as ir from "../ir";
+import { Emitter } from "./emitter";
+import { lowerTryElse } from "./exceptions";
+import { isBlockScopedLoop, loopContinues, matchCountingLoop } from "./loops";
+import { inlineFallthrough, switchBranches } from "./switches";
+import { isPackageLevel, packageLevelNames, splitFileComments } from "./scripts";
+import { walk } from "../walk";
+import { withNotes, type ConversionResult, type TransformResult } from "../diagnostics";
+import { applyNaming } from "../naming";
+import { exportedNames } from "../modules";
+import { resolveOptions } from "../options";
+import { buildSourceMap } from "../source-map";
+import { IdiomMapper, idiomTable, renderIdiom, type IdiomMatch } from "../idioms";
+import { inferTypes, type FunctionLike, type Type, type TypeInfo } from "../inference";
+import { formatKDoc, renameThrows } from "./comments";
+import type { ConversionOptions } from "@shared/schema";
+
+/** Print Kotlin source from an IR module. */
+export function emitKotlin(module: ir.Module, options?: ConversionOptions): ConversionResult {
+  const transformed = transformForKotlin(module, options);
+  return withNotes(emitTransformedKotlin(transformed.module, options), transformed.notes);
+}
+
+/** Rewrites a module for Kotlin: its naming convention, then Python `try … else` blocks. */
+export function transformForKotlin(module: ir.Module, options?: ConversionOptions): TransformResult {
+  const named = applyNaming(module, resolveOptions("kotlin", options).naming);
+  const lowered = lowerTryElse(named.module);
+  return { module: lowered.module, notes: [...named.notes, ...lowered.notes] };
+}
+
+/** Emits Kotlin from a module transformForKotlin returned. */
+export function emitTransformedKotlin(module: ir.Module, options?: ConversionOptions): ConversionResult {
+  return new KotlinEmitter(resolveOptions("kotlin", options)).emitModule(module);
+}
+
+// Kotlin precedence levels, loosest first
+const PREC = {
+  assignment: 1,
+  disjunction: 2,
+  conjunction: 3,
+  equality: 4,
+  comparison: 5,
+  namedCheck: 6,
+  elvis: 7,
+  infix: 8,
+  range: 9,
+  additive: 10,
+  multiplicative: 11,
+  prefix: 12,
+  postfix: 13,
+  atom: 14,
+};
+
+const BINARY_OPERATORS: Partial<Record<ir.BinaryOperator, [string, number]>> = {
+  "+": ["+", PREC.additive],
+  "-": ["-", PREC.additive],
+  "*": ["*", PREC.multiplicative],
+  "/": ["/", PREC.multiplicative],
+  "//": ["/", PREC.multiplicative],
+  "%": ["%", PREC.multiplicative],
+  // Bitwise operators are infix functions in Kotlin
+  "&": ["and", PREC.infix],
+  "|": ["or", PREC.infix],
+  "^": ["xor", PREC.infix],
+  "<<": ["shl", PREC.infix],
+  ">>": ["shr", PREC.infix],
+  ">>>": ["ushr", PREC.infix],
+  "==": ["==", PREC.equality],
+  "!=": ["!=", PREC.equality],
+  "<": ["<", PREC.comparison],
+  "<=": ["<=", PREC.comparison],
+  ">": [">", PREC.comparison],
+  ">=": [">=", PREC.comparison],
+  in: ["in", PREC.namedCheck],
+  instanceof: ["is", PREC.namedCheck],
+};
+
+const ERROR_CLASSES: Record<string, string> = {
+  Error: "Exception",
+  TypeError: "IllegalArgumentException",
+  RangeError: "IndexOutOfBoundsException",
+  SyntaxError: "IllegalArgumentException",
+  ReferenceError: "IllegalStateException",
+  // Python's built-in exceptions
+  ValueError: "IllegalArgumentException",
+  KeyError: "NoSuchElementException",
+  IndexError: "IndexOutOfBoundsException",
+  ZeroDivisionError: "ArithmeticException",
+  RuntimeError: "RuntimeException",
+};
+
+interface Emitted {
+  code: string;
+  prec: number;
+}
+
+class KotlinEmitter extends Emitter {
+  protected readonly targetName = "Kotlin";
+  protected readonly commentPrefix = "//";
+  private types!: TypeInfo;
+  // Import lines required by library mappings, shared with nested emitters
+  private imports = new Set<string>();
+  // Method names and base class of each class in the module, to mark overrides
+  private classes = new Map<string, { base?: string; methods: Set<string> }>();
+  // Top-level names other modules import; undefined for scripts
+  private exported?: Set<string>;
+  // Statements of the module itself, the only ones that can be exported
+  private topLevel = new Set<ir.Statement>();
+
+  emitModule(source: ir.Module): ConversionResult {
+    // Split first, so the statement that lost the file header is the one that gets typed
+    const { header: fileComments, body } = splitFileComments(source.body);
+    const module = { ...source, body };
+    this.types = inferTypes(module);
+    this.idioms = new IdiomMapper(idiomTable(module.sourceLanguage, "kotlin"), module, this.types);
+    this.reserveNames(module);
+    this.exported = exportedNames(module);
+    walk(module, (node) => {
+      if (node.kind !== "ClassDeclaration") return;
+      const base = node.superClass?.kind === "Identifier" ? node.superClass.name : undefined;
+      const methods = node.members.filter((member) => member.kind === "MethodDefinition" && member.role === "method");
+      this.classes.set(node.name, { base, methods: new Set(methods.map((member) => member.name)) });
+    });
+
+    // Kotlin only allows declarations at the top level; everything else runs from main()
+    const global = packageLevelNames(body);
+    this.exported?.forEach((name) => global.add(name));
+    const declarations = body.filter((statement) => isPackageLevel(statement, global));
+    const script = body.filter((statement) => !isPackageLevel(statement, global));
+    this.topLevel = new Set(declarations);
+
+    if (fileComments.length > 0) {
+      this.emitComments(fileComments);
+      this.writer.blankLine();
+    }
+    this.emitStatements(declarations);
+    if (script.length > 0) {
+      if (declarations.length > 0) this.writer.blankLine();
+      this.writer.line("fun main() {");
+      this.emitBlock(script);
+      this.writer.line("}");
+    }
+    this.flushNotes();
+
+    if (this.imports.size > 0) {
+      const header = [...Array.from(this.imports).sort(), ""];
+      this.writer.prepend(header);
+      this.diagnostics.shift(header.length);
+    }
+    return {
+      code: this.writer.toString(),
+      diagnostics: this.diagnostics.resolve(this.writer),
+      sourceMap: buildSourceMap(this.writer),
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private emitStatements(statements: ir.Statement[]): void {
+    let previousEnd: number | undefined;
+
+    for (const statement of statements) {
+      const startLine = (statement.leadingComments?.[0] ?? statement.doc ?? statement).loc?.start.line;
+      if (previousEnd !== undefined && startLine !== undefined && startLine > previousEnd + 1) {
+        this.writer.blankLine();
+      }
+
+      this.emitComments(statement.leadingComments);
+      this.separateDetachedComments(statement);
+      if (statement.doc) this.emitDoc(statement.doc);
+      const outer = this.statement;
+      this.statement = statement;
+      const before = this.writer.lineCount;
+      this.withOrigin(statement, () => this.emitStatement(statement));
+      this.statement = outer;
+      this.emitInlineComment(statement, before);
+      this.emitComments(statement.trailingComments);
+
+      const lastComment = statement.trailingComments?.[statement.trailingComments.length - 1];
+      previousEnd = lastComment?.loc?.end.line ?? statement.loc?.end.line;
+    }
+  }
+
+  private emitDoc(doc: ir.DocComment): void {
+    this.withOrigin(doc, () => formatKDoc(renameThrows(doc, ERROR_CLASSES)).forEach((line) => this.writer.line(line)));
+  }
+
+  private emitBlock(statements: ir.Statement[]): void {
+    this.writer.block(() => this.emitStatements(statements));
+  }
+
+  private emitStatement(statement: ir.Statement): void {
+    switch (statement.kind) {
+      case "FunctionDeclaration":
+        this.noteDecorators(statement.decorators);
+        this.emitFunction(`fun ${statement.name}`, statement, this.visibility(statement, statement.name));
+        break;
+
+      case "ClassDeclaration":
+        this.noteDecorators(statement.decorators);
+        this.emitClass(statement);
+        break;
+
+      case "VariableDeclaration":
+        this.emitVariableDeclaration(statement);
+        break;
+
+      case "ExpressionStatement":
+        this.write(this.expressionStatement(statement.expression));
+        break;
+
+      case "ReturnStatement":
+        this.write(statement.argument ? `return ${this.expr(statement.argument).code}` : "return");
+        break;
+
+      case "IfStatement":
+        this.emitIf(statement);
+        this.writer.line("}");
+        break;
+
+      case "WhileStatement":
+        this.write(`while (${this.expr(statement.test).code}) {`);
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+
+      case "DoWhileStatement": {
+        const test = this.expr(statement.test).code;
+        this.write("do {");
+        this.emitBlock(statement.body);
+        this.writer.line(`} while (${test})`);
+        break;
+      }
+
+      case "ForStatement":
+        this.emitFor(statement);
+        break;
+
+      case "ForEachStatement": {
+        const iterable = this.sub(statement.iterable, PREC.postfix);
+        const source = statement.over === "keys" ? `${iterable}.keys` : this.expr(statement.iterable).code;
+        this.write(`for (${this.pattern(statement.target)} in ${source}) {`);
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+      }
+
+      case "SwitchStatement":
+        this.emitWhen(statement);
+        break;
+
+      case "BreakStatement":
+        this.writer.line("break");
+        break;
+
+      case "ContinueStatement": {
+        const update = this.continueUpdates.get(statement);
+        if (update) this.write(this.expressionStatement(update));
+        this.writer.line("continue");
+        break;
+      }
+
+      case "ThrowStatement":
+        this.emitThrow(statement);
+        break;
+
+      case "TryStatement":
+        this.emitTry(statement);
+        break;
+
+      case "WithStatement":
+        this.note("context-manager", "context managers have no Kotlin equivalent; use `.use { }` on Closeable resources");
+        this.write("run {");
+        this.writer.block(() => {
+          for (const item of statement.items) {
+            const context = this.expr(item.context).code;
+            this.write(item.target ? `val ${this.pattern(item.target)} = ${context}` : context);
+          }
+          this.emitStatements(statement.body);
+        });
+        this.writer.line("}");
+        break;
+
+      case "BlockStatement":
+        this.writer.line("run {");
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+
+      case "ImportDeclaration":
+        this.emitImport(statement);
+        break;
+
+      case "ExportDeclaration":
+        // Every file of the project sees the others' declarations
+        break;
+
+      case "UnsupportedStatement": {
+        // The original code is kept as comments, covered by an error diagnostic
+        const first = this.writer.lineCount;
+        for (const line of statement.text.split("\n")) {
+          this.writer.line(`// ${line}`);
+        }
+        this.diagnostics.record(
+          { severity: "error", code: "unsupported-statement", message: statement.reason, loc: statement.loc },
+          first,
+          this.writer.lineCount - 1
+        );
+        break;
+      }
+    }
+  }
+
+  private noteDecorators(decorators: ir.Expression[] | undefined): void {
+    for (const decorator of decorators ?? []) {
+      this.note("decorator", `decorator @${this.expr(decorator).code} must be applied by hand`, decorator);
+    }
+  }
+
+  private signature(fn: FunctionLike): string {
+    const paramList = fn.params.map((param) => {
+      const type = this.types.parameter(param);
+      if (param.rest) return `vararg ${param.name}: ${kotlinType(type.kind === "array" ? type.element : type)}`;
+      const defaultValue = param.defaultValue ? ` = ${this.expr(param.defaultValue).code}` : "";
+      return `${param.name}: ${kotlinType(type)}${defaultValue}`;
+    });
+
+    const returns = this.types.returns(fn);
+    return `(${paramList.join(", ")})${returns.kind === "void" ? "" : `: ${kotlinType(returns)}`}`;
+  }
+
+  private emitFunction(head: string, fn: FunctionLike, visibility = ""): void {
+    if (fn.isAsync) {
+      this.note("async-function", "async functions became suspend functions; call them from a coroutine", fn, "info");
+    }
+    this.write(`${visibility}${fn.isAsync ? "suspend " : ""}${head}${this.signature(fn)} {`);
+    this.emitBlock(fn.body);
+    this.writer.line("}");
+  }
+
+  private emitClass(node: ir.ClassDeclaration): void {
+    const hasConstructor = node.members.some((member) => member.kind === "MethodDefinition" && member.role === "constructor");
+    // A class with a constructor of its own delegates to the base class from that constructor
+    const head = hasConstructor ? node.name : `${node.name}()`;
+    const base = node.superClass ? ` : ${this.sub(node.superClass, PREC.postfix)}${hasConstructor ? "" : "()"}` : "";
+    // Source classes can be subclassed freely
+    this.write(`${this.visibility(node, node.name)}open class ${head}${base} {`);
+
+    this.writer.block(() => {
+      const before = this.writer.lineCount;
+      const statics: ir.ClassMember[] = [];
+
+      const inferred = new Map(this.types.properties(node));
+      for (const member of node.members) {
+        if (member.isStatic) {
+          statics.push(member);
+          continue;
+        }
+        if (member.kind !== "PropertyDefinition") continue;
+        const type = inferred.get(member.name);
+        inferred.delete(member.name);
+        this.emitMember(member, () => this.emitProperty(member, type));
+      }
+
+      // Properties Kotlin needs declared for `this.x = ...` assignments in the methods
+      for (const member of node.members) inferred.delete(member.name);
+      for (const [name, type] of Array.from(inferred.entries())) {
+        this.writer.line(`var ${name}: ${kotlinType(type.kind === "none" ? optionalOf(type) : type)}`);
+      }
+
+      const accessors = collectAccessors(node.members.filter((member) => !member.isStatic));
+      for (const member of node.members) {
+        if (member.kind !== "MethodDefinition" || member.isStatic) continue;
+        if (this.writer.lineCount > before) this.writer.blankLine();
+        this.emitMember(member, () => this.emitMethod(member, accessors, node));
+      }
+
+      if (statics.length > 0) {
+        if (this.writer.lineCount > before) this.writer.blankLine();
+        this.emitCompanion(statics);
+      }
+    });
+
+    this.writer.line("}");
+  }
+
+  // Static members live in the class's companion object
+  private emitCompanion(members: ir.ClassMember[]): void {
+    this.writer.line("companion object {");
+    this.writer.block(() => {
+      const before = this.writer.lineCount;
+      const accessors = collectAccessors(members);
+      for (const member of members) {
+        if (member.kind === "PropertyDefinition") {
+          this.emitMember(member, () => this.emitProperty(member, member.value ? this.types.typeOf(member.value) : undefined));
+          continue;
+        }
+        if (this.writer.lineCount > before) this.writer.blankLine();
+        this.emitMember(member, () => this.emitMethod(member, accessors));
+      }
+    });
+    this.writer.line("}");
+  }
+
+  // Prints a member with its comments and KDoc
+  private emitMember(member: ir.ClassMember, body: () => void): void {
+    this.emitComments(member.leadingComments);
+    if (member.doc) this.emitDoc(member.doc);
+    const start = this.writer.lineCount;
+    this.withOrigin(member, body);
+    this.emitInlineComment(member, start);
+    this.emitComments(member.trailingComments);
+  }
+
+  private emitProperty(member: ir.PropertyDefinition, type: Type | undefined): void {
+    const declaration = member.value
+      ? `var ${member.name}: ${kotlinType(type ?? { kind: "any" })} = ${this.expr(member.value).code}`
+      : `var ${member.name}: ${kotlinType(optionalOf(type))} = null`;
+    this.write(declaration);
+  }
+
+  private emitMethod(member: ir.MethodDefinition, accessors: Map<string, Accessors>, node?: ir.ClassDeclaration): void {
+    if (member.role === "constructor") {
+      this.emitConstructor(member, node);
+    } else if (member.role === "get" || member.role === "set") {
+      // Getter and setter share one property, printed at the first of them
+      const entry = accessors.get(member.name);
+      if (!entry) return;
+      accessors.delete(member.name);
+      this.emitComputedProperty(member.name, entry);
+    } else {
+      const modifier = node && this.overrides(node, member.name) ? "override" : "open";
+      this.emitFunction(`${modifier} fun ${member.name}`, member);
+    }
+  }
+
+  private overrides(node: ir.ClassDeclaration, name: string): boolean {
+    const seen = new Set<string>();
+    let base = this.classes.get(node.name)?.base;
+    while (base && !seen.has(base)) {
+      seen.add(base);
+      const info = this.classes.get(base);
+      if (info?.methods.has(name)) return true;
+      base = info?.base;
+    }
+    return false;
+  }
+
+  // A secondary constructor; a leading `super(...)` call moves into its delegation clause
+  private emitConstructor(member: ir.MethodDefinition, node?: ir.ClassDeclaration): void {
+    let body = member.body;
+    let delegation = "";
+    const [first] = body;
+    if (
+      first?.kind === "ExpressionStatement" &&
+      first.expression.kind === "CallExpression" &&
+      first.expression.callee.kind === "SuperExpression"
+    ) {
+      delegation = ` : super(${this.args(first.expression.arguments)})`;
+      body = body.slice(1);
+    } else if (node?.superClass) {
+      delegation = " : super()";
+    }
+    this.write(`constructor${this.signature(member)}${delegation} {`);
+    this.emitBlock(body);
+    this.writer.line("}");
+  }
+
+  private emitComputedProperty(name: string, { get, set }: Accessors): void {
+    const type = get ? this.types.returns(get) : set?.params[0] ? this.types.parameter(set.params[0]) : undefined;
+    // Computed properties have no backing field, so `set` needs a getter to pair with
+    this.writer.line(`${set ? "var" : "val"} ${name}: ${kotlinType(type ?? { kind: "any" })}`);
+    this.writer.block(() => {
+      if (get) {
+        this.writer.line("get() {");
+        this.emitBlock(get.body);
+        this.writer.line("}");
+      } else {
+        this.note("setter-only", `property ${name} has a setter but no getter`, set, "error");
+        this.write("get() = TODO()");
+      }
+      if (set) {
+        const param = set.params[0]?.name ?? "value";
+        this.writer.line(`set(${param}) {`);
+        this.emitBlock(set.body);
+        this.writer.line("}");
+      }
+    });
+  }
+
+  private emitVariableDeclaration(declaration: ir.VariableDeclaration): void {
+    const keyword = declaration.constant ? "val" : "var";
+
+    for (const { target, init } of declaration.declarations) {
+      if (target.kind === "ObjectPattern" || target.kind === "ArrayPattern") {
+        this.emitDestructuring(keyword, target, init);
+        continue;
+      }
+
+      const type = this.types.variable(target);
+      const visibility = this.visibility(declaration, target.name);
+      if (!init && type.kind !== "optional" && type.kind !== "none" && type.kind !== "any") {
+        // Kotlin checks that every path assigns it before use
+        this.write(`${visibility}var ${target.name}: ${kotlinType(type)}`);
+        continue;
+      }
+      if (!init || (init.kind === "Literal" && init.value === null)) {
+        this.write(`${visibility}var ${target.name}: ${kotlinType(optionalOf(type))} = null`);
+        continue;
+      }
+
+      let annotation = "";
+      const empty =
+        (init.kind === "ArrayExpression" && init.elements.length === 0) ||
+        (init.kind === "ObjectExpression" && init.properties.length === 0);
+      if (empty) annotation = `: ${kotlinType(type)}`;
+
+      this.write(`${visibility}${keyword} ${target.name}${annotation} = ${this.expr(init).code}`);
+    }
+  }
+
+  // `private ` for the top-level declarations of a module that other modules may not import
+  private visibility(statement: ir.Statement, name: string): string {
+    return this.topLevel.has(statement) && this.exported && !this.exported.has(name) ? "private " : "";
+  }
+
+  private emitDestructuring(keyword: string, target: ir.ArrayPattern | ir.ObjectPattern, init?: ir.Expression): void {
+    let source = init ? this.sub(init, PREC.postfix) : "null";
+
+    if (target.kind === "ArrayPattern" && !target.rest && !target.defaults) {
+      this.write(`${keyword} ${this.pattern(target)} = ${init ? this.expr(init).code : source}`);
+      return;
+    }
+
+    if (init && init.kind !== "Identifier") {
+      const temporary = this.temporary("destructured");
+      this.write(`val ${temporary} = ${source}`);
+      source = temporary;
+    }
+
+    if (target.kind === "ArrayPattern") {
+      target.elements.forEach((element, index) => {
+        if (!element) return;
+        const isRest = target.rest && index === target.elements.length - 1;
+        const fallback = target.defaults?.[index];
+        let value = isRest ? `${source}.drop(${index})` : `${source}[${index}]`;
+        if (fallback && !isRest) value = `${source}.getOrElse(${index}) { ${this.expr(fallback).code} }`;
+        this.write(`${keyword} ${this.pattern(element)} = ${value}`);
+      });
+    } else {
+      for (const property of target.properties) {
+        const fallback = property.defaultValue ? ` ?: ${this.sub(property.defaultValue, PREC.elvis)}` : "";
+        this.write(`${keyword} ${this.pattern(property.value)} = ${source}["${property.key}"]${fallback}`);
+      }
+      if (target.rest) {
+        const keys = target.properties.map((property) => `"${property.key}"`).join(", ");
+        this.write(`${keyword} ${target.rest.name} = ${source}.filterKeys { it !in setOf(${keys}) }`);
+      }
+    }
+  }
+
+  private expressionStatement(expression: ir.Expression): string {
+    if (expression.kind === "UpdateExpression") {
+      return `${this.expr(expression.argument).code}${expression.operator}`;
+    }
+    if (expression.kind === "AssignmentExpression") {
+      const target = this.assignmentTarget(expression.target);
+      const value = this.expr(expression.value);
+      switch (expression.operator) {
+        case "??=":
+          return `${target} = ${target} ?: ${this.wrap(value, PREC.elvis)}`;
+        case "||=":
+          return `${target} = ${target} || ${this.wrap(value, PREC.disjunction + 1)}`;
+        case "&&=":
+          return `${target} = ${target} && ${this.wrap(value, PREC.conjunction + 1)}`;
+        case "**=":
+          this.imports.add("import kotlin.math.pow");
+          return `${target} = ${target}.toDouble().pow(${value.code})`;
+        case "//=":
+          return `${target} /= ${value.code}`;
+        case "&=":
+        case "|=":
+        case "^=":
+        case "<<=":
+        case ">>=":
+        case ">>>=": {
+          const [operator] = BINARY_OPERATORS[expression.operator.slice(0, -1) as ir.BinaryOperator]!;
+          return `${target} = ${target} ${operator} ${this.wrap(value, PREC.infix + 1)}`;
+        }
+        default:
+          return `${target} ${expression.operator} ${value.code}`;
+      }
+    }
+    return this.expr(expression).code;
+  }
+
+  // Prints an if/else-if chain, leaving the final closing brace to the caller
+  private emitIf(statement: ir.IfStatement): void {
+    this.write(`if (${this.expr(statement.test).code}) {`);
+    this.emitBlock(statement.consequent);
+
+    if (statement.alternate && statement.alternate.length > 0) {
+      this.emitElse(statement.alternate);
+    }
+  }
+
+  private emitElse(alternate: ir.Statement[]): void {
+    const [first] = alternate;
+    if (alternate.length === 1 && first.kind === "IfStatement" && !first.leadingComments) {
+      const test = this.expr(first.test).code;
+      this.flushNotes();
+      this.writer.line(`} else if (${test}) {`);
+      this.emitBlock(first.consequent);
+      if (first.alternate && first.alternate.length > 0) this.emitElse(first.alternate);
+      return;
+    }
+    this.writer.line("} else {");
+    this.emitBlock(alternate);
+  }
+
+  private emitFor(loop: ir.ForStatement): void {
+    const counting = matchCountingLoop(loop);
+
+    if (counting) {
+      const start = this.sub(counting.start, PREC.infix + 1);
+      const end = this.sub(counting.end, PREC.infix + 1);
+      const stepIsOne = counting.step.kind === "Literal" && counting.step.value === 1;
+
+      let range: string;
+      if (counting.descending) {
+        // `downTo` always includes its bound
+        const bound = counting.inclusive ? end : `${this.sub(counting.end, PREC.additive)} + 1`;
+        range = `${start} downTo ${counting.inclusive ? bound : `(${bound})`}`;
+      } else {
+        range = counting.inclusive ? `${this.sub(counting.start, PREC.range + 1)}..${this.sub(counting.end, PREC.range + 1)}` : `${start} until ${end}`;
+      }
+      if (!stepIsOne) range += ` step ${this.sub(counting.step, PREC.infix + 1)}`;
+
+      this.write(`for (${counting.variable} in ${range}) {`);
+      this.emitBlock(loop.body);
+      this.writer.line("}");
+      return;
+    }
+
+    // General loops become `init; while (test) { body; update }`
+    // A `let` in `init` belongs to the loop alone, so the loop gets a block that ends its scope
+    const scoped = isBlockScopedLoop(loop);
+    if (scoped) {
+      this.write("run {");
+      this.writer.indent();
+    }
+    if (loop.init) {
+      if (loop.init.kind === "VariableDeclaration") {
+        this.emitVariableDeclaration(loop.init);
+      } else {
+        this.write(this.expressionStatement(loop.init));
+      }
+    }
+    if (loop.update) loopContinues(loop).forEach((statement) => this.continueUpdates.set(statement, loop.update!));
+
+    this.write(`while (${loop.test ? this.expr(loop.test).code : "true"}) {`);
+    this.writer.block(() => {
+      this.emitStatements(loop.body);
+      if (loop.update) this.write(this.expressionStatement(loop.update));
+    });
+    this.writer.line("}");
+    if (scoped) {
+      this.writer.dedent();
+      this.writer.line("}");
+    }
+  }
+
+  private emitWhen(statement: ir.SwitchStatement): void {
+    // Empty cases fall through, which Kotlin expresses as a combined branch
+    const branches = switchBranches(statement);
+    if (branches.some((branch) => branch.fallsThrough)) {
+      this.note("switch-fallthrough", "A case without `break` runs on into the next; its branch repeats the statements it falls into", statement, "info");
+    }
+    this.write(`when (${this.expr(statement.discriminant).code}) {`);
+    this.writer.indent();
+
+    // Branches no longer fall into each other, so `else` can move to the end, where Kotlin requires it
+    const groups = inlineFallthrough(branches);
+    const ordered = [...groups.filter((group) => !group.isDefault), ...groups.filter((group) => group.isDefault)];
+    for (const group of ordered) {
+      const condition = group.isDefault ? "else" : group.tests.map((test) => this.expr(test).code).join(", ");
+      this.writer.line(`${condition} -> {`);
+      this.emitBlock(group.body);
+      this.writer.line("}");
+    }
+    this.writer.dedent();
+    this.writer.line("}");
+  }
+
+  private emitThrow(statement: ir.ThrowStatement): void {
+    const argument = statement.argument;
+    if (argument.kind === "Literal" || argument.kind === "TemplateLiteral") {
+      this.write(`throw Exception(${this.expr(argument).code})`);
+      return;
+    }
+    this.write(`throw ${this.expr(argument).code}`);
+  }
+
+  private emitTry(statement: ir.TryStatement): void {
+    this.writer.line("try {");
+    this.emitBlock(statement.block);
+
+    for (const handler of statement.handlers) {
+      const param = handler.param ?? "e";
+      const types = (handler.types ?? []).map((type) => this.expr(type).code);
+      if (types.length > 1) {
+        this.note("multi-catch", "Kotlin catches one exception type per clause; the handler is repeated", handler.types![1]);
+      }
+      for (const type of types.length > 0 ? types : ["Exception"]) {
+        this.writer.line(`} catch (${param}: ${ERROR_CLASSES[type] ?? type}) {`);
+        this.emitBlock(handler.body);
+      }
+    }
+    if (statement.finalizer) {
+      this.writer.line("} finally {");
+      this.emitBlock(statement.finalizer);
+    }
+    this.writer.line("}");
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  private wrap(emitted: Emitted, minPrec: number): string {
+    return emitted.prec < minPrec ? `(${emitted.code})` : emitted.code;
+  }
+
+  private sub(expression: ir.Expression, minPrec: number): string {
+    return this.wrap(this.expr(expression), minPrec);
+  }
+
+  private pattern(pattern: ir.Pattern): string {
+    switch (pattern.kind) {
+      case "Identifier":
+        return pattern.name;
+      case "ArrayPattern":
+        if (pattern.defaults) this.note("array-default", "defaults of missing elements are not supported in this position", pattern, "error");
+        return `(${pattern.elements.map((element) => (element ? this.pattern(element) : "_")).join(", ")})`;
+      case "ObjectPattern":
+        this.note("object-destructuring", "object destructuring is not supported in this position", pattern, "error");
+        return "destructured";
+    }
+  }
+
+  private assignmentTarget(target: ir.Expression | ir.Pattern): string {
+    if (target.kind === "ArrayPattern" || target.kind === "ObjectPattern") {
+      this.note("destructuring-assignment", "Kotlin only destructures in declarations", target, "error");
+      return this.pattern(target);
+    }
+    return this.expr(target).code;
+  }
+
+  private args(args: ir.Expression[]): string {
+    return args.map((arg) => this.expr(arg).code).join(", ");
+  }
+
+  private expr(expression: ir.Expression): Emitted {
+    switch (expression.kind) {
+      case "Identifier": {
+        const idiom = this.idioms.identifier(expression);
+        if (idiom) return this.idiom(idiom, expression);
+        return { code: expression.name, prec: PREC.atom };
+      }
+
+      case "Literal":
+        return { code: this.literal(expression), prec: PREC.atom };
+
+      case "TemplateLiteral": {
+        let body = "";
+        expression.quasis.forEach((quasi, index) => {
+          body += escapeKotlinString(quasi);
+          if (index < expression.expressions.length) body += `\${${this.expr(expression.expressions[index]).code}}`;
+        });
+        return { code: `"${body}"`, prec: PREC.atom };
+      }
+
+      case "ArrayExpression":
+        return { code: `mutableListOf(${expression.elements.map((element) => this.expr(element).code).join(", ")})`, prec: PREC.postfix };
+
+      case "ObjectExpression": {
+        const entries = expression.properties.map((property) => {
+          if ("kind" in property) {
+            this.note("object-spread", "object spread has no Kotlin map-literal equivalent", property, "error");
+            return `/* ...${this.expr(property.argument).code} */`;
+          }
+          const key = !property.computed && property.key.kind === "Identifier" ? `"${property.key.name}"` : this.expr(property.key).code;
+          return `${key} to ${this.sub(property.value, PREC.infix + 1)}`;
+        });
+        return { code: `mutableMapOf(${entries.join(", ")})`, prec: PREC.postfix };
+      }
+
+      case "BinaryExpression":
+        return this.binary(expression);
+
+      case "LogicalExpression": {
+        const [operator, prec] = expression.operator === "&&"
+          ? ["&&", PREC.conjunction]
+          : expression.operator === "||"
+            ? ["||", PREC.disjunction]
+            : ["?:", PREC.elvis];
+        return {
+          code: `${this.sub(expression.left, prec)} ${operator} ${this.sub(expression.right, prec + 1)}`,
+          prec,
+        };
+      }
+
+      case "UnaryExpression":
+        switch (expression.operator) {
+          case "typeof":
+            return { code: `${this.sub(expression.argument, PREC.postfix)}::class.simpleName`, prec: PREC.postfix };
+          case "~":
+            return { code: `${this.sub(expression.argument, PREC.postfix)}.inv()`, prec: PREC.postfix };
+          case "void":
+          case "delete":
+            this.note("unsupported-operator", `\`${expression.operator}\` has no Kotlin equivalent`, expression, "error");
+            return { code: this.expr(expression.argument).code, prec: PREC.atom };
+          default:
+            return { code: `${expression.operator}${this.sub(expression.argument, PREC.prefix)}`, prec: PREC.prefix };
+        }
+
+      case "UpdateExpression": {
+        const argument = this.sub(expression.argument, PREC.postfix);
+        return expression.prefix
+          ? { code: `${expression.operator}${argument}`, prec: PREC.prefix }
+          : { code: `${argument}${expression.operator}`, prec: PREC.postfix };
+      }
+
+      case "AssignmentExpression":
+        this.note("assignment-expression", "assignments are not expressions in Kotlin", expression, "error");
+        return {
+          code: `${this.assignmentTarget(expression.target)} ${expression.operator} ${this.expr(expression.value).code}`,
+          prec: PREC.assignment,
+        };
+
+      case "CallExpression":
+        return this.call(expression);
+
+      case "NewExpression": {
+        let callee = this.sub(expression.callee, PREC.postfix);
+        if (expression.callee.kind === "Identifier") callee = ERROR_CLASSES[expression.callee.name] ?? callee;
+        return { code: `${callee}(${this.args(expression.arguments)})`, prec: PREC.postfix };
+      }
+
+      case "MemberExpression": {
+        const idiom = this.idioms.member(expression);
+        if (idiom) return this.idiom(idiom, expression);
+        const object = this.sub(expression.object, PREC.postfix);
+        if (expression.computed) {
+          const index = `[${this.expr(expression.property).code}]`;
+          return { code: expression.optional ? `${object}?.get(${index.slice(1, -1)})` : `${object}${index}`, prec: PREC.postfix };
+        }
+        // Maps have no members for their keys
+        if (this.types.typeOf(expression.object).kind === "dict" && expression.property.kind === "Identifier") {
+          const key = `"${escapeKotlinString(expression.property.name)}"`;
+          return { code: expression.optional ? `${object}?.get(${key})` : `${object}[${key}]`, prec: PREC.postfix };
+        }
+        return { code: `${object}${expression.optional ? "?." : "."}${this.expr(expression.property).code}`, prec: PREC.postfix };
+      }
+
+      case "ConditionalExpression":
+        return {
+          code: `if (${this.expr(expression.test).code}) ${this.expr(expression.consequent).code} else ${this.expr(expression.alternate).code}`,
+          prec: PREC.assignment,
+        };
+
+      case "FunctionExpression":
+        return { code: this.lambda(expression), prec: PREC.atom };
+
+      case "ThisExpression":
+        return { code: "this", prec: PREC.atom };
+
+      case "SuperExpression":
+        return { code: "super", prec: PREC.atom };
+
+      case "SpreadElement":
+        // Only arrays spread into vararg parameters
+        return { code: `*${this.sub(expression.argument, PREC.postfix)}.toTypedArray()`, prec: PREC.prefix };
+
+      case "AwaitExpression":
+        this.note("await", "suspend calls need no await in Kotlin", expression, "info");
+        return this.expr(expression.argument);
+
+      case "YieldExpression":
+        this.note("generator", "Kotlin has no generators; collect the yielded values in a list and return it", expression, "error");
+        return expression.argument ? this.expr(expression.argument) : { code: "null", prec: PREC.atom };
+
+      case "SequenceExpression":
+        this.note("comma-operator", "the comma operator was split into separate statements", expression);
+        return { code: expression.expressions.map((item) => this.expr(item).code).join("; "), prec: PREC.assignment };
+
+      case "ComprehensionExpression":
+        return this.comprehension(expression);
+
+      case "SliceExpression": {
+        if (expression.step) this.note("slice-step", "slice steps have no Kotlin range equivalent", expression.step, "error");
+        const object = this.sub(expression.object, PREC.postfix);
+        const start = expression.start ? this.sub(expression.start, PREC.range + 1) : "0";
+        const end = expression.end ? this.sub(expression.end, PREC.infix + 1) : `${object}.size`;
+        return { code: `${object}.slice(${start} until ${end})`, prec: PREC.postfix };
+      }
+
+      case "NamedArgument":
+        return { code: `${expression.name} = ${this.expr(expression.value).code}`, prec: PREC.atom };
+
+      case "UnsupportedExpression":
+        this.note("unsupported-expression", `${expression.reason}: ${expression.text}`, expression, "error");
+        return { code: expression.text, prec: PREC.atom };
+    }
+  }
+
+  // Comprehensions become filter/map chains; nested clauses use flatMap
+  private comprehension(expression: ir.ComprehensionExpression): Emitted {
+    const element = expression.key
+      ? `${this.sub(expression.key, PREC.infix + 1)} to ${this.sub(expression.element, PREC.infix + 1)}`
+      : this.expr(expression.element).code;
+
+    const chain = (index: number): string => {
+      const clause = expression.clauses[index];
+      const target = this.pattern(clause.target);
+      let code = this.sub(clause.iterable, PREC.postfix);
+      for (const condition of clause.conditions) {
+        code += `.filter { ${target} -> ${this.expr(condition).code} }`;
+      }
+      if (index === expression.clauses.length - 1) {
+        return `${code}.map { ${target} -> ${element} }`;
+      }
+      return `${code}.flatMap { ${target} -> ${chain(index + 1)} }`;
+    };
+
+    const code = chain(0);
+    switch (expression.collection) {
+      case "dict":
+        return { code: `${code}.toMap()`, prec: PREC.postfix };
+      case "set":
+        return { code: `${code}.toSet()`, prec: PREC.postfix };
+      default:
+        return { code, prec: PREC.postfix };
+    }
+  }
+
+  private literal(literal: ir.Literal): string {
+    if (literal.value === null) return "null";
+    if (typeof literal.value === "boolean") return String(literal.value);
+    if (typeof literal.value === "string") return `"${escapeKotlinString(literal.value)}"`;
+
+    const raw = literal.raw;
+    if (raw && /^(0[xb][0-9a-fA-F_]+|[1-9][\d_]*(\.\d[\d_]*)?([eE][+-]?\d+)?|0(\.\d+)?([eE][+-]?\d+)?)$/.test(raw)) {
+      return raw;
+    }
+    return String(literal.value);
+  }
+
+  private binary(expression: ir.BinaryExpression): Emitted {
+    const left = expression.left;
+    const right = expression.right;
+
+    const idiom = this.idioms.binary(expression);
+    if (idiom) return this.idiom(idiom, expression);
+
+    if (expression.operator === "**") {
+      this.imports.add("import kotlin.math.pow");
+      return { code: `${this.sub(left, PREC.postfix)}.toDouble().pow(${this.expr(right).code})`, prec: PREC.postfix };
+    }
+
+    const [operator, prec] = BINARY_OPERATORS[expression.operator]!;
+    // Kotlin comparisons are non-associative
+    const leftMin = prec === PREC.comparison || prec === PREC.namedCheck ? prec + 1 : prec;
+    // Int / Int truncates in Kotlin, unlike true division in the source
+    const trueDivision =
+      expression.operator === "/" && this.types.typeOf(left).kind === "int" && this.types.typeOf(right).kind === "int";
+    const leftCode = trueDivision ? `${this.sub(left, PREC.postfix)}.toDouble()` : this.sub(left, leftMin);
+    return { code: `${leftCode} ${operator} ${this.sub(right, prec + 1)}`, prec };
+  }
+
+  private call(call: ir.CallExpression): Emitted {
+    const { callee } = call;
+
+    if (callee.kind === "SuperExpression") {
+      this.note("super-call", "Kotlin calls the base constructor from the constructor header", call, "error");
+      return { code: `super(${this.args(call.arguments)})`, prec: PREC.postfix };
+    }
+
+    const idiom = this.idioms.call(call);
+    if (idiom) return this.idiom(idiom, call);
+
+    const target = call.optional ? `${this.sub(callee, PREC.postfix)}?.invoke` : this.sub(callee, PREC.postfix);
+    return { code: `${target}(${this.args(call.arguments)})`, prec: PREC.postfix };
+  }
+
+  // Library construct printed through the idiom table of the language pair
+  private idiom(match: IdiomMatch, node: ir.Expression): Emitted {
+    for (const line of match.imports) this.imports.add(line);
+    this.noteIdiom(match, node);
+
+    const { code, loose } = renderIdiom(match, (expression, slot) =>
+      slot === "loose" ? this.expr(expression).code : this.sub(expression, PREC.postfix)
+    );
+    return { code, prec: loose ? PREC.assignment : PREC.postfix };
+  }
+
+  // Expression bodies become lambdas; block bodies become anonymous functions so `return` keeps its meaning
+  private lambda(fn: ir.FunctionExpression): string {
+    const params = fn.params.map((param) => `${param.name}: ${kotlinType(this.types.parameter(param))}`).join(", ");
+
+    if (fn.expressionBody) {
+      return `{ ${params ? `${params} -> ` : ""}${this.expr(fn.expressionBody).code} }`;
+    }
+
+    const returns = this.types.returns(fn);
+    const head = `fun(${params})${returns.kind === "void" ? "" : `: ${kotlinType(returns)}`}`;
+
+    // Multi-statement bodies are printed with a nested emitter and re-indented by the caller
+    const nested = new KotlinEmitter(this.options);
+    nested.idioms = this.idioms;
+    nested.imports = this.imports;
+    nested.types = this.types;
+    nested.takenNames = this.takenNames;
+    nested.classes = this.classes;
+    nested.writer.indent();
+    nested.statement = this.statement;
+    nested.emitStatements(fn.body);
+    nested.flushNotes();
+    // The body's notes are reported against the statement that contains the function
+    this.notes.push(...nested.diagnostics.notes());
+    return `${head} {\n${nested.writer.toString()}\n}`;
+  }
+}
+
+interface Accessors {
+  get?: ir.MethodDefinition;
+  set?: ir.MethodDefinition;
+}
+
+function collectAccessors(members: ir.ClassMember[]): Map<string, Accessors> {
+  const accessors = new Map<string, Accessors>();
+  for (const member of members) {
+    if (member.kind === "MethodDefinition" && (member.role === "get" || member.role === "set")) {
+      const entry = accessors.get(member.name) ?? {};
+      entry[member.role] = member;
+      accessors.set(member.name, entry);
+    }
+  }
+  return accessors;
+}
+
+function kotlinType(type: Type): string {
+  switch (type.kind) {
+    case "int":
+      return "Int";
+    case "double":
+      return "Double";
+    case "string":
+      return "String";
+    case "bool":
+      return "Boolean";
+    case "array":
+      return `MutableList<${kotlinType(type.element)}>`;
+    case "dict":
+      return `MutableMap<${kotlinType(type.key)}, ${kotlinType(type.value)}>`;
+    case "optional":
+      return `${kotlinType(type.wrapped)}?`;
+    case "class":
+      return type.name;
+    case "void":
+      return "Unit";
+    case "none":
+    case "any":
+      return "Any?";
+  }
+}
+
+// Type of a variable that may still hold null
+function optionalOf(type: Type | undefined): Type {
+  if (!type || type.kind === "any" || type.kind === "none") return { kind: "any" };
+  return type.kind === "optional" ? type : { kind: "optional", wrapped: type };
+}
+
+function escapeKotlinString(text: string): string {
+  return text.replace(/[\\"$\n\r\t]|[\u0000-\u001f]/g, (char) => {
+    switch (char) {
+      case "\\": return "\\\\";
+      case '"': return '\\"';
+      case "$": return "\\$";
+      case "\n": return "\\n";
+      case "\r": return "\\r";
+      case "\t": return "\\t";
+      default: return `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`;
+    }
+  });
+}
@@ -0,0 +1,200 @@
+import type * as ir from "../ir";
+import type { ConversionNote } from "../diagnostics";
+import { renameBindingsIn } from "../naming";
+import { someNode, walk } from "../walk";
+
+/** A C-style `for` loop that simply counts from `start` towards `end`. */
+export interface CountingLoop {
+  variable: string;
+  start: ir.Expression;
+  end: ir.Expression;
+  // True for `<=` / `>=` bounds
+  inclusive: boolean;
+  descending: boolean;
+  // Magnitude of the step; always positive
+  step: ir.Expression;
+}
+
+const ONE: ir.Literal = { kind: "Literal", value: 1, raw: "1" };
+
+/**
+ * Recognise `for (let i = a; i < b; i++)` and its variants so emitters can
+ * print a range loop. Returns null for anything else, including loops whose
+ * body reassigns the counter.
+ */
+export function matchCountingLoop(loop: ir.ForStatement): CountingLoop | null {
+  const { init, test, update } = loop;
+  if (!init || !test || !update) return null;
+
+  let variable: string;
+  let start: ir.Expression;
+
+  if (init.kind === "VariableDeclaration") {
+    if (init.declarations.length !== 1) return null;
+    const [declarator] = init.declarations;
+    if (declarator.target.kind !== "Identifier" || !declarator.init) return null;
+    variable = declarator.target.name;
+    start = declarator.init;
+  } else if (init.kind === "AssignmentExpression" && init.operator === "=" && init.target.kind === "Identifier") {
+    variable = init.target.name;
+    start = init.value;
+  } else {
+    return null;
+  }
+
+  if (test.kind !== "BinaryExpression" || !isIdentifier(test.left, variable)) return null;
+
+  let descending: boolean;
+  let step: ir.Expression;
+
+  if (update.kind === "UpdateExpression" && isIdentifier(update.argument, variable)) {
+    descending = update.operator === "--";
+    step = ONE;
+  } else if (
+    update.kind === "AssignmentExpression" &&
+    (update.operator === "+=" || update.operator === "-=") &&
+    isIdentifier(update.target, variable)
+  ) {
+    descending = update.operator === "-=";
+    step = update.value;
+  } else {
+    return null;
+  }
+
+  const ascendingTest = test.operator === "<" || test.operator === "<=";
+  const descendingTest = test.operator === ">" || test.operator === ">=";
+  if ((descending && !descendingTest) || (!descending && !ascendingTest)) return null;
+
+  if (assignsTo(loop.body, variable)) return null;
+
+  return {
+    variable,
+    start,
+    end: test.right,
+    inclusive: test.operator === "<=" || test.operator === ">=",
+    descending,
+    step,
+  };
+}
+
+function isIdentifier(node: ir.Expression | ir.Pattern, name: string): boolean {
+  return node.kind === "Identifier" && node.name === name;
+}
+
+function assignsTo(body: ir.Statement[], name: string): boolean {
+  return someNode(body, (node) =>
+    (node.kind === "AssignmentExpression" && isIdentifier(node.target, name)) ||
+    (node.kind === "UpdateExpression" && isIdentifier(node.argument, name))
+  );
+}
+
+// Nodes whose `continue` statements and variables are their own
+const LOOPS = new Set<string>(["ForStatement", "ForEachStatement", "WhileStatement", "DoWhileStatement"]);
+const FUNCTIONS = new Set<string>(["FunctionDeclaration", "FunctionExpression", "MethodDefinition", "ClassDeclaration"]);
+
+/** The `continue` statements that start the next iteration of `loop` rather than of a loop inside it. */
+export function loopContinues(loop: ir.ForStatement): Set<ir.ContinueStatement> {
+  const continues = new Set<ir.ContinueStatement>();
+  walk(loop.body, (node) => {
+    if (node.kind === "ContinueStatement") continues.add(node);
+    return !LOOPS.has(node.kind) && !FUNCTIONS.has(node.kind);
+  });
+  return continues;
+}
+
+/** True for `for (let i = …; …)`, whose variables belong to the loop alone. */
+export function isBlockScopedLoop(node: ir.Node): node is ir.ForStatement & { init: ir.VariableDeclaration } {
+  return node.kind === "ForStatement" && node.init?.kind === "VariableDeclaration" && node.init.blockScoped === true;
+}
+
+/**
+ * Python loops do not scope their variables, so `for (let i …)` would
+ * overwrite an `i` of the function or module around it. Renames the variables
+ * of such loops where the name is used outside them too, e.g. to `i2`.
+ */
+export function scopeLoopVariables(module: ir.Module): { module: ir.Module; notes: ConversionNote[] } {
+  if (!someNode(module, isBlockScopedLoop)) return { module, notes: [] };
+
+  const copy = structuredClone(module);
+  const taken = new Set<string>();
+  walk(copy, (node) => {
+    if ("name" in node && typeof node.name === "string") taken.add(node.name);
+    if ("params" in node) for (const param of node.params) taken.add(param.name);
+  });
+
+  // The module and every function, each with the loops directly in it
+  const scopes: { body: ir.Statement[]; params: ir.Parameter[] }[] = [{ body: copy.body, params: [] }];
+  walk(copy, (visited) => {
+    const node = visited as ir.Node | ir.ClassMember;
+    if (node.kind === "FunctionDeclaration" || node.kind === "FunctionExpression" || node.kind === "MethodDefinition") {
+      scopes.push({ body: node.body, params: node.params });
+    }
+  });
+
+  const notes: ConversionNote[] = [];
+  for (const scope of scopes) {
+    const loops: ir.ForStatement[] = [];
+    walk(scope.body, (node) => {
+      if (isBlockScopedLoop(node)) loops.push(node);
+      return !FUNCTIONS.has(node.kind);
+    });
+
+    for (const loop of loops) {
+      for (const name of declaredNames(loop.init as ir.VariableDeclaration)) {
+        // Other loops of their own `name` may reuse it, unless this loop is inside one
+        const skipped = new Set<ir.Node>(loops.filter((other) => other === loop || (declares(other, name) && !someNode(other, (node) => node === loop))));
+        if (!scope.params.some((param) => param.name === name) && !usesName(scope.body, name, skipped)) continue;
+
+        let renamed = name;
+        for (let suffix = 2; taken.has(renamed); suffix++) renamed = `${name}${suffix}`;
+        taken.add(renamed);
+        renameBindingsIn(loop, new Map([[name, renamed]]));
+        notes.push({
+          severity: "info",
+          code: "loop-variable",
+          message: `Python loops do not scope their variables, so ${name} of this loop is renamed to ${renamed} to leave the other ${name} alone`,
+          loc: loop.loc,
+        });
+      }
+    }
+  }
+  return { module: copy, notes };
+}
+
+function declaredNames(declaration: ir.VariableDeclaration): string[] {
+  const names: string[] = [];
+  walk(declaration.declarations.map((declarator) => declarator.target), (node) => {
+    if (node.kind === "Identifier") names.push(node.name);
+  });
+  return names;
+}
+
+function declares(loop: ir.ForStatement, name: string): boolean {
+  return isBlockScopedLoop(loop) && declaredNames(loop.init).includes(name);
+}
+
+// Whether code outside the skipped loops refers to `name`; functions with a `name` of their own do not
+function usesName(root: unknown, name: string, skipped: Set<ir.Node>): boolean {
+  let found = false;
+  walk(root, (visited) => {
+    const node = visited as ir.Node | ir.ClassMember;
+    if (found || skipped.has(node as ir.Node)) return false;
+    if ((node.kind === "FunctionDeclaration" || node.kind === "FunctionExpression" || node.kind === "MethodDefinition") && bindsName(node, name)) {
+      return false;
+    }
+    if (node.kind === "Identifier" && node.name === name) found = true;
+    return !found;
+  });
+  return found;
+}
+
+function bindsName(fn: ir.FunctionDeclaration | ir.FunctionExpression | ir.MethodDefinition, name: string): boolean {
+  if (fn.params.some((param) => param.name === name)) return true;
+  let found = false;
+  walk(fn.body, (node) => {
+    if (found) return false;
+    if (node.kind === "VariableDeclaration" && declaredNames(node).includes(name)) found = true;
+    return !found && !FUNCTIONS.has(node.kind);
+  });
+  return found;
+}
@@ -0,0 +1,1202 @@
+import type * as ir from "../ir";
+import { Emitter } from "./emitter";
+import { loopContinues, matchCountingLoop, scopeLoopVariables } from "./loops";
+import { inlineFallthrough, switchBranches } from "./switches";
+import { someNodeInScope } from "../walk";
+import { withNotes, type ConversionResult, type TransformResult } from "../diagnostics";
+import { applyNaming } from "../naming";
+import { applyPythonVisibility, pythonModulePath } from "../modules";
+import { resolveOptions, supportsVersion } from "../options";
+import { buildSourceMap } from "../source-map";
+import { IdiomMapper, idiomTable, renderIdiom, type IdiomMatch } from "../idioms";
+import { inferTypes, isNumeric, type Type, type TypeInfo } from "../inference";
+import { formatDocstring, renameThrows } from "./comments";
+import type { ConversionOptions } from "@shared/schema";
+
+/** Print Python source from an IR module. */
+export function emitPython(module: ir.Module, options?: ConversionOptions): ConversionResult {
+  const transformed = transformForPython(module, options);
+  return withNotes(emitTransformedPython(transformed.module, options), transformed.notes);
+}
+
+/**
+ * Rewrites a module for Python: its naming convention, a leading underscore on
+ * names the module does not export, then loop variables Python would not scope.
+ */
+export function transformForPython(module: ir.Module, options?: ConversionOptions): TransformResult {
+  const settings = resolveOptions("python", options);
+  const named = applyNaming(module, settings.naming);
+  const visible = applyPythonVisibility(named.module);
+  const scoped = scopeLoopVariables(visible.module);
+  return { module: scoped.module, notes: [...named.notes, ...visible.notes, ...scoped.notes] };
+}
+
+/** Emits Python from a module transformForPython returned. */
+export function emitTransformedPython(module: ir.Module, options?: ConversionOptions): ConversionResult {
+  return new PythonEmitter(resolveOptions("python", options)).emitModule(module);
+}
+
+// Binding strength of Python expressions, loosest first
+const PREC = {
+  lambda: 1,
+  conditional: 2,
+  or: 3,
+  and: 4,
+  not: 5,
+  comparison: 6,
+  bitOr: 7,
+  bitXor: 8,
+  bitAnd: 9,
+  shift: 10,
+  additive: 11,
+  multiplicative: 12,
+  unary: 13,
+  power: 14,
+  await: 15,
+  postfix: 16,
+  atom: 17,
+};
+
+const BINARY_OPERATORS: Partial<Record<ir.BinaryOperator, [string, number]>> = {
+  "+": ["+", PREC.additive],
+  "-": ["-", PREC.additive],
+  "*": ["*", PREC.multiplicative],
+  "/": ["/", PREC.multiplicative],
+  "//": ["//", PREC.multiplicative],
+  "%": ["%", PREC.multiplicative],
+  "**": ["**", PREC.power],
+  "==": ["==", PREC.comparison],
+  "!=": ["!=", PREC.comparison],
+  "<": ["<", PREC.comparison],
+  "<=": ["<=", PREC.comparison],
+  ">": [">", PREC.comparison],
+  ">=": [">=", PREC.comparison],
+  "in": ["in", PREC.comparison],
+  "&": ["&", PREC.bitAnd],
+  "|": ["|", PREC.bitOr],
+  "^": ["^", PREC.bitXor],
+  "<<": ["<<", PREC.shift],
+  ">>": [">>", PREC.shift],
+};
+
+const ERROR_CLASSES: Record<string, string> = {
+  Error: "Exception",
+  TypeError: "TypeError",
+  RangeError: "ValueError",
+  SyntaxError: "SyntaxError",
+  ReferenceError: "NameError",
+};
+
+const PYTHON_KEYWORDS = new Set([
+  "False", "None", "True", "and", "as", "assert", "async", "await", "break", "class", "continue",
+  "def", "del", "elif", "else", "except", "finally", "for", "from", "global", "if", "import", "in",
+  "is", "lambda", "nonlocal", "not", "or", "pass", "raise", "return", "try", "while", "with", "yield",
+]);
+
+interface Emitted {
+  code: string;
+  prec: number;
+}
+
+// ".lib.util" to [".lib", "util"], the package a module is imported from and its name there
+function splitModulePath(path: string): [string, string] | undefined {
+  const dot = path.lastIndexOf(".");
+  const name = path.slice(dot + 1);
+  if (!name) return undefined;
+  const parent = path.slice(0, dot);
+  return [/[^.]/.test(parent) ? parent : path.slice(0, dot + 1), name];
+}
+
+class PythonEmitter extends Emitter {
+  protected readonly targetName = "Python";
+  protected readonly commentPrefix = "#";
+  // Multi-statement lambdas are printed as named functions ahead of the statement using them
+  private hoisted: { name: string; fn: ir.FunctionExpression }[] = [];
+  private lambdaCounter = 0;
+  private types!: TypeInfo;
+  // JavaScript objects become dicts, whose members are read by subscript
+  private sourceLanguage = "";
+  // Import lines required by library mappings, written above the module body
+  private readonly imports = new Set<string>();
+  // Names hints for Python before 3.10 import from `typing`, e.g. "List"
+  private readonly typingNames = new Set<string>();
+
+  emitModule(module: ir.Module): ConversionResult {
+    this.types = inferTypes(module);
+    this.idioms = new IdiomMapper(idiomTable(module.sourceLanguage, "python"), module, this.types);
+    this.reserveNames(module);
+    this.sourceLanguage = module.sourceLanguage;
+    this.emitStatements(module.body);
+    this.flushNotes();
+
+    if (this.typingNames.size > 0) {
+      this.imports.add(`from typing import ${Array.from(this.typingNames).sort().join(", ")}`);
+    }
+    if (this.imports.size > 0) {
+      const header = [...Array.from(this.imports).sort(), ""];
+      this.writer.prepend(header);
+      this.diagnostics.shift(header.length);
+    }
+    return {
+      code: this.writer.toString(),
+      diagnostics: this.diagnostics.resolve(this.writer),
+      sourceMap: buildSourceMap(this.writer),
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private emitStatements(statements: ir.Statement[]): void {
+    let previousEnd: number | undefined;
+
+    for (const statement of statements) {
+      const startLine = (statement.leadingComments?.[0] ?? statement.doc ?? statement)?.loc?.start.line;
+      if (previousEnd !== undefined && startLine !== undefined && startLine > previousEnd + 1) {
+        this.writer.blankLine();
+      }
+
+      this.emitComments(statement.leadingComments);
+      this.separateDetachedComments(statement);
+      // Functions and classes print their doc as a docstring; other declarations keep it as comments
+      if (statement.doc && !documentsDef(statement)) {
+        this.emitComments([{ text: statement.doc.description, block: false, loc: statement.doc.loc }]);
+      }
+      const outer = this.statement;
+      this.statement = statement;
+      const before = this.writer.lineCount;
+      this.withOrigin(statement, () => this.emitStatement(statement));
+      this.statement = outer;
+      this.emitInlineComment(statement, before);
+      this.emitComments(statement.trailingComments);
+
+      const lastComment = statement.trailingComments?.[statement.trailingComments.length - 1];
+      previousEnd = lastComment?.loc?.end.line ?? statement.loc?.end.line;
+    }
+  }
+
+  // Indented suite; Python needs `pass` when nothing was printed
+  private emitSuite(statements: ir.Statement[], doc?: ir.DocComment): void {
+    this.writer.block(() => {
+      const before = this.writer.lineCount;
+      if (doc) this.withOrigin(doc, () => formatDocstring(renameThrows(doc, ERROR_CLASSES)).forEach((line) => this.writer.line(line)));
+      this.emitStatements(statements);
+      if (this.writer.lineCount === before) {
+        this.writer.line("pass");
+      }
+    });
+  }
+
+  // Writes hoisted functions collected while printing the current statement's expressions,
+  // then ties its notes to the next line written
+  protected flushNotes(): void {
+    const notes = this.notes;
+    this.notes = [];
+
+    const hoisted = this.hoisted;
+    this.hoisted = [];
+    for (const { name, fn } of hoisted) {
+      this.emitFunction(name, fn.params, fn.body, fn.isAsync, undefined, this.types.returns(fn));
+    }
+
+    for (const note of notes) {
+      this.diagnostics.record(note, this.writer.lineCount);
+    }
+  }
+
+  private emitStatement(statement: ir.Statement): void {
+    switch (statement.kind) {
+      case "FunctionDeclaration":
+        this.emitDecorators(statement.decorators);
+        this.emitFunction(statement.name, statement.params, statement.body, statement.isAsync, undefined, this.types.returns(statement), statement.doc);
+        break;
+
+      case "ClassDeclaration":
+        this.emitDecorators(statement.decorators);
+        this.emitClass(statement);
+        break;
+
+      case "VariableDeclaration":
+        this.emitVariableDeclaration(statement);
+        break;
+
+      case "ExpressionStatement":
+        this.emitExpressionStatement(statement.expression);
+        break;
+
+      case "ReturnStatement": {
+        const code = statement.argument ? `return ${this.expr(statement.argument).code}` : "return";
+        this.flushNotes();
+        this.writer.line(code);
+        break;
+      }
+
+      case "IfStatement":
+        this.emitIf(statement, "if");
+        break;
+
+      case "WhileStatement": {
+        const test = this.expr(statement.test).code;
+        this.flushNotes();
+        this.writer.line(`while ${test}:`);
+        this.emitSuite(statement.body);
+        break;
+      }
+
+      case "DoWhileStatement": {
+        const test = this.sub(statement.test, PREC.not);
+        this.flushNotes();
+        this.writer.line("while True:");
+        this.writer.block(() => {
+          this.emitStatements(statement.body);
+          this.writer.line(`if not ${test}:`);
+          this.writer.block(() => this.writer.line("break"));
+        });
+        break;
+      }
+
+      case "ForStatement":
+        this.emitFor(statement);
+        break;
+
+      case "ForEachStatement": {
+        const target = this.pattern(statement.target);
+        const iterable = this.expr(statement.iterable).code;
+        this.flushNotes();
+        this.writer.line(`for ${target} in ${iterable}:`);
+        this.emitSuite(statement.body);
+        break;
+      }
+
+      case "SwitchStatement":
+        this.emitSwitch(statement);
+        break;
+
+      case "BreakStatement":
+        this.writer.line("break");
+        break;
+
+      case "ContinueStatement": {
+        const update = this.continueUpdates.get(statement);
+        if (update) this.emitExpressionStatement(update);
+        this.writer.line("continue");
+        break;
+      }
+
+      case "ThrowStatement":
+        this.emitThrow(statement);
+        break;
+
+      case "TryStatement":
+        this.writer.line("try:");
+        this.emitSuite(statement.block);
+        for (const handler of statement.handlers) {
+          this.emitHandler(handler);
+        }
+        if (statement.orelse) {
+          this.writer.line("else:");
+          this.emitSuite(statement.orelse);
+        }
+        if (statement.finalizer) {
+          this.writer.line("finally:");
+          this.emitSuite(statement.finalizer);
+        }
+        break;
+
+      case "WithStatement": {
+        const items = statement.items.map((item) => {
+          const context = this.expr(item.context).code;
+          return item.target ? `${context} as ${this.pattern(item.target, true)}` : context;
+        });
+        this.flushNotes();
+        this.writer.line(`with ${items.join(", ")}:`);
+        this.emitSuite(statement.body);
+        break;
+      }
+
+      case "BlockStatement":
+        // Python has no block scope, so nested blocks are simply inlined
+        this.emitStatements(statement.body);
+        break;
+
+      case "ImportDeclaration":
+        this.emitImport(statement);
+        break;
+
+      case "ExportDeclaration":
+        // Python exports every top-level name, so only aliases need a line; importers use a default export's own name
+        for (const { local, exported } of statement.specifiers) {
+          if (exported !== local && exported !== "default") this.writer.line(`${exported} = ${local}`);
+        }
+        break;
+
+      case "UnsupportedStatement": {
+        // The original code is kept as comments, covered by an error diagnostic
+        const first = this.writer.lineCount;
+        for (const line of statement.text.split("\n")) {
+          this.writer.line(`# ${line}`);
+        }
+        this.diagnostics.record(
+          { severity: "error", code: "unsupported-statement", message: statement.reason, loc: statement.loc },
+          first,
+          this.writer.lineCount - 1
+        );
+        break;
+      }
+    }
+  }
+
+  protected emitImport(statement: ir.ImportDeclaration): void {
+    const { module: reference, specifiers } = statement;
+    if (reference.parents === undefined) {
+      this.emitPackageImport(statement);
+      return;
+    }
+
+    const path = pythonModulePath(reference);
+    const lines: string[] = [];
+    // The module itself, for `import * as util` and imports run for their side effects
+    const namespaces = specifiers.filter((specifier) => specifier.imported === "*" && specifier.local);
+    if (specifiers.length === 0 || namespaces.length > 0) {
+      const parts = splitModulePath(path);
+      if (!parts) {
+        this.note("import-not-translated", `${statement.specifier} names the package this module belongs to, which Python cannot import by a relative name`);
+      } else {
+        const [parent, name] = parts;
+        if (specifiers.length === 0) lines.push(`from ${parent} import ${name}`);
+        for (const { local } of namespaces) lines.push(`from ${parent} import ${local === name ? name : `${name} as ${local}`}`);
+      }
+    }
+    if (specifiers.some((specifier) => specifier.imported === "*" && !specifier.local)) lines.push(`from ${path} import *`);
+
+    const names = specifiers.filter((specifier) => specifier.imported !== "*").map(({ imported, local, resolvedName }) => {
+      let name = imported;
+      if (imported === "default") {
+        name = resolvedName ?? local!;
+        if (!resolvedName) {
+          this.note("default-import", `The default export of ${statement.specifier} is assumed to be named ${local}`, statement, "info");
+        }
+      }
+      return !local || local === name ? name : `${name} as ${local}`;
+    });
+    if (names.length > 0) lines.push(`from ${path} import ${names.join(", ")}`);
+
+    this.flushNotes();
+    lines.forEach((line) => this.writer.line(line));
+  }
+
+  private emitDecorators(decorators: ir.Expression[] | undefined): void {
+    const codes = (decorators ?? []).map((decorator) => this.expr(decorator).code);
+    this.flushNotes();
+    for (const code of codes) {
+      this.writer.line(`@${code}`);
+    }
+  }
+
+  private emitHandler(handler: ir.CatchClause): void {
+    const types = handler.types?.map((type) =>
+      type.kind === "Identifier" && ERROR_CLASSES[type.name] ? ERROR_CLASSES[type.name] : this.expr(type).code
+    ) ?? ["Exception"];
+    const clause = types.length === 1 ? types[0] : `(${types.join(", ")})`;
+    this.flushNotes();
+    this.writer.line(handler.param ? `except ${clause} as ${this.name(handler.param)}:` : `except ${clause}:`);
+    this.emitSuite(handler.body);
+  }
+
+  private emitFunction(
+    name: string,
+    params: ir.Parameter[],
+    body: ir.Statement[],
+    isAsync: boolean,
+    selfParam?: string,
+    returns?: Type,
+    doc?: ir.DocComment
+  ): void {
+    const paramList = this.params(params, true);
+    if (selfParam) paramList.unshift(selfParam);
+    const hint = returns && this.typeHint(returns);
+    this.flushNotes();
+    this.writer.line(`${isAsync ? "async " : ""}def ${this.name(name)}(${paramList.join(", ")})${hint ? ` -> ${hint}` : ""}:`);
+    this.emitSuite(body, doc);
+  }
+
+  private emitClass(node: ir.ClassDeclaration): void {
+    const base = node.superClass ? `(${this.expr(node.superClass).code})` : "";
+    this.flushNotes();
+    this.writer.line(`class ${this.name(node.name)}${base}:`);
+
+    const staticProperties = node.members.filter(
+      (member): member is ir.PropertyDefinition => member.kind === "PropertyDefinition" && member.isStatic
+    );
+    const instanceProperties = node.members.filter(
+      (member): member is ir.PropertyDefinition => member.kind === "PropertyDefinition" && !member.isStatic
+    );
+    const methods = node.members.filter((member): member is ir.MethodDefinition => member.kind === "MethodDefinition");
+    const constructor = methods.find((method) => method.role === "constructor");
+
+    this.writer.block(() => {
+      const before = this.writer.lineCount;
+      const doc = node.doc;
+      if (doc) this.withOrigin(doc, () => formatDocstring(renameThrows(doc, ERROR_CLASSES)).forEach((line) => this.writer.line(line)));
+
+      for (const property of [...staticProperties, ...instanceProperties]) {
+        this.emitComments(property.leadingComments);
+        if (property.doc) this.emitComments([{ text: property.doc.description, block: false, loc: property.doc.loc }]);
+        if (!property.isStatic) {
+          this.emitComments([...(property.inlineComment ? [property.inlineComment] : []), ...(property.trailingComments ?? [])]);
+          continue;
+        }
+        const start = this.writer.lineCount;
+        this.withOrigin(property, () => {
+          const value = property.value ? this.expr(property.value).code : "None";
+          this.flushNotes();
+          this.writer.line(`${this.name(property.name)} = ${value}`);
+        });
+        this.emitInlineComment(property, start);
+        this.emitComments(property.trailingComments);
+      }
+
+      // Instance fields are initialised at the start of __init__, after any super() call
+      const fieldInitializers: ir.Statement[] = instanceProperties.map((property) => ({
+        kind: "ExpressionStatement",
+        expression: {
+          kind: "AssignmentExpression",
+          operator: "=",
+          target: {
+            kind: "MemberExpression",
+            object: { kind: "ThisExpression" },
+            property: { kind: "Identifier", name: property.name },
+            computed: false,
+          },
+          value: property.value ?? { kind: "Literal", value: null },
+        },
+      }));
+
+      if (!constructor && fieldInitializers.length > 0) {
+        this.writer.blankLine();
+        this.emitFunction("__init__", [], fieldInitializers, false, "self");
+      }
+
+      for (const method of methods) {
+        if (this.writer.lineCount > before) this.writer.blankLine();
+        const start = this.writer.lineCount;
+        this.withOrigin(method, () => {
+          this.emitComments(method.leadingComments);
+          const doc = method.doc;
+
+          if (method.role === "constructor") {
+            const body = [...method.body];
+            const superIndex = body.findIndex(isSuperCall);
+            body.splice(superIndex + 1, 0, ...fieldInitializers);
+            this.emitFunction("__init__", method.params, body, method.isAsync, "self", undefined, doc);
+          } else if (method.isStatic) {
+            this.writer.line("@staticmethod");
+            this.emitFunction(method.name, method.params, method.body, method.isAsync, undefined, this.types.returns(method), doc);
+          } else if (method.role === "get") {
+            this.writer.line("@property");
+            this.emitFunction(method.name, method.params, method.body, method.isAsync, "self", this.types.returns(method), doc);
+          } else if (method.role === "set") {
+            this.writer.line(`@${this.name(method.name)}.setter`);
+            this.emitFunction(method.name, method.params, method.body, method.isAsync, "self", undefined, doc);
+          } else {
+            this.emitFunction(method.name, method.params, method.body, method.isAsync, "self", this.types.returns(method), doc);
+          }
+        });
+        this.emitInlineComment(method, start);
+        this.emitComments(method.trailingComments);
+      }
+
+      if (this.writer.lineCount === before) {
+        this.writer.line("pass");
+      }
+    });
+  }
+
+  private emitVariableDeclaration(declaration: ir.VariableDeclaration): void {
+    for (const declarator of declaration.declarations) {
+      const { target, init } = declarator;
+
+      // `const f = (x) => ...` reads better as a named def
+      if (target.kind === "Identifier" && init?.kind === "FunctionExpression") {
+        const body: ir.Statement[] = init.expressionBody
+          ? [{ kind: "ReturnStatement", argument: init.expressionBody, loc: init.expressionBody.loc }]
+          : init.body;
+        this.emitFunction(target.name, init.params, body, init.isAsync, undefined, this.types.returns(init), declarator === declaration.declarations[0] ? declaration.doc : undefined);
+        continue;
+      }
+
+      if (target.kind === "ObjectPattern") {
+        this.emitObjectDestructuring(target, init);
+        continue;
+      }
+
+      const value = init ? this.expr(init).code : "None";
+      const left = this.pattern(target);
+      this.flushNotes();
+      this.writer.line(`${left} = ${value}`);
+    }
+  }
+
+  private emitObjectDestructuring(target: ir.ObjectPattern, init: ir.Expression | undefined): void {
+    let source = init ? this.expr(init) : { code: "None", prec: PREC.atom };
+
+    // Evaluate a complex initializer only once
+    if (init && init.kind !== "Identifier" && init.kind !== "ThisExpression") {
+      this.flushNotes();
+      const temporary = this.temporary("_destructured");
+      this.writer.line(`${temporary} = ${source.code}`);
+      source = { code: temporary, prec: PREC.atom };
+    }
+
+    for (const property of target.properties) {
+      const key = this.stringLiteral(property.key);
+      const value = property.defaultValue
+        ? `${source.code}.get(${key}, ${this.expr(property.defaultValue).code})`
+        : `${this.wrap(source, PREC.postfix)}[${key}]`;
+      this.flushNotes();
+      this.writer.line(`${this.pattern(property.value)} = ${value}`);
+    }
+
+    if (target.rest) {
+      const keys = target.properties.map((property) => this.stringLiteral(property.key));
+      const rest = keys.length === 0
+        ? `dict(${source.code})`
+        : `{key: value for key, value in ${this.wrap(source, PREC.postfix)}.items() if key not in (${keys.join(", ")}${keys.length === 1 ? "," : ""})}`;
+      this.flushNotes();
+      this.writer.line(`${this.name(target.rest.name)} = ${rest}`);
+    }
+  }
+
+  private emitExpressionStatement(expression: ir.Expression): void {
+    let code: string;
+
+    if (expression.kind === "UpdateExpression") {
+      code = `${this.expr(expression.argument).code} ${expression.operator === "++" ? "+=" : "-="} 1`;
+    } else if (expression.kind === "AssignmentExpression") {
+      code = this.assignmentStatement(expression);
+    } else if (expression.kind === "UnaryExpression" && expression.operator === "delete") {
+      code = `del ${this.expr(expression.argument).code}`;
+    } else {
+      code = this.expr(expression).code;
+    }
+
+    this.flushNotes();
+    for (const line of code.split("\n")) {
+      this.writer.line(line);
+    }
+  }
+
+  private assignmentStatement(assignment: ir.AssignmentExpression): string {
+    const target = this.assignmentTarget(assignment.target);
+    const value = this.expr(assignment.value);
+
+    switch (assignment.operator) {
+      case "??=":
+        return `if ${target} is None:\n${" ".repeat(4)}${target} = ${value.code}`;
+      case "||=":
+        return `${target} = ${target} or ${this.wrap(value, PREC.or + 1)}`;
+      case "&&=":
+        return `${target} = ${target} and ${this.wrap(value, PREC.and + 1)}`;
+      case ">>>=":
+        this.note("unsigned-shift", "unsigned right shift has no Python equivalent", assignment);
+        return `${target} >>= ${value.code}`;
+      case "+=": {
+        const { target: text } = assignment;
+        const pattern = text.kind === "ArrayPattern" || text.kind === "ObjectPattern";
+        return !pattern && this.concatenates(text, assignment.value) ? `${target} += str(${value.code})` : `${target} += ${value.code}`;
+      }
+      default:
+        return `${target} ${assignment.operator} ${value.code}`;
+    }
+  }
+
+  private emitIf(statement: ir.IfStatement, keyword: "if" | "elif"): void {
+    const test = this.expr(statement.test).code;
+
+    if (keyword === "elif" && this.hoisted.length > 0) {
+      // Hoisted code cannot sit between branches, so fall back to a nested if
+      this.writer.line("else:");
+      this.writer.block(() => {
+        this.flushNotes();
+        this.writeIf(statement, "if", test);
+      });
+      return;
+    }
+
+    this.flushNotes();
+    this.writeIf(statement, keyword, test);
+  }
+
+  private writeIf(statement: ir.IfStatement, keyword: "if" | "elif", test: string): void {
+    this.writer.line(`${keyword} ${test}:`);
+    this.emitSuite(statement.consequent);
+
+    const alternate = statement.alternate;
+    if (!alternate || alternate.length === 0) return;
+
+    const [first] = alternate;
+    if (alternate.length === 1 && first.kind === "IfStatement" && !first.leadingComments) {
+      this.emitIf(first, "elif");
+    } else {
+      this.writer.line("else:");
+      this.emitSuite(alternate);
+    }
+  }
+
+  private emitFor(loop: ir.ForStatement): void {
+    const counting = matchCountingLoop(loop);
+
+    if (counting) {
+      const args: string[] = [];
+      const start = this.expr(counting.start);
+      let end = this.expr(counting.end);
+
+      if (counting.inclusive) {
+        end = this.offset(end, counting.end, counting.descending ? -1 : 1);
+      }
+
+      const stepIsOne = counting.step.kind === "Literal" && counting.step.value === 1;
+      if (!counting.descending && stepIsOne && counting.start.kind === "Literal" && counting.start.value === 0) {
+        args.push(end.code);
+      } else {
+        args.push(start.code, end.code);
+      }
+      if (counting.descending) {
+        args.push(`-${this.sub(counting.step, PREC.unary)}`);
+      } else if (!stepIsOne) {
+        args.push(this.expr(counting.step).code);
+      }
+
+      this.flushNotes();
+      this.writer.line(`for ${this.name(counting.variable)} in range(${args.join(", ")}):`);
+      this.emitSuite(loop.body);
+      return;
+    }
+
+    // General loops become `init; while test: body; update`
+    if (loop.init) {
+      if (loop.init.kind === "VariableDeclaration") {
+        this.emitVariableDeclaration(loop.init);
+      } else {
+        this.emitExpressionStatement(loop.init);
+      }
+    }
+
+    if (loop.update) loopContinues(loop).forEach((statement) => this.continueUpdates.set(statement, loop.update!));
+
+    const test = loop.test ? this.expr(loop.test).code : "True";
+    this.flushNotes();
+    this.writer.line(`while ${test}:`);
+    this.writer.block(() => {
+      const before = this.writer.lineCount;
+      this.emitStatements(loop.body);
+      if (loop.update) this.emitExpressionStatement(loop.update);
+      if (this.writer.lineCount === before) this.writer.line("pass");
+    });
+  }
+
+  private emitSwitch(statement: ir.SwitchStatement): void {
+    let discriminant = this.expr(statement.discriminant);
+
+    const branches = switchBranches(statement);
+    if (branches.some((branch) => branch.fallsThrough)) {
+      this.note("switch-fallthrough", "A case without `break` runs on into the next; its branch repeats the statements it falls into", statement, "info");
+    }
+    const groups = inlineFallthrough(branches);
+
+    const defaultGroup = groups.find((group) => group.isDefault);
+    const caseGroups = groups.filter((group) => !group.isDefault);
+
+    if (someNodeInScope(groups.map((group) => group.body), (node) => node.kind === "BreakStatement")) {
+      this.note("switch-break", "`break` inside a switch case now applies to the enclosing loop", undefined, "error");
+    }
+
+    if (caseGroups.length === 0) {
+      this.flushNotes();
+      this.emitStatements(defaultGroup?.body ?? []);
+      return;
+    }
+
+    // Each branch compares against the discriminant, which must be evaluated only once
+    const simple = statement.discriminant.kind === "Identifier" || statement.discriminant.kind === "Literal" || statement.discriminant.kind === "ThisExpression";
+    if (caseGroups.length > 1 && !simple) {
+      const temporary = this.temporary("_subject");
+      this.flushNotes();
+      this.writer.line(`${temporary} = ${discriminant.code}`);
+      discriminant = { code: temporary, prec: PREC.atom };
+    }
+
+    const subject = this.wrap(discriminant, PREC.comparison + 1);
+    caseGroups.forEach((group, index) => {
+      const condition = group.tests.length === 1
+        ? `${subject} == ${this.sub(group.tests[0], PREC.comparison + 1)}`
+        : `${subject} in (${group.tests.map((test) => this.expr(test).code).join(", ")})`;
+      this.flushNotes();
+      this.writer.line(`${index === 0 ? "if" : "elif"} ${condition}:`);
+      this.emitSuite(group.body);
+    });
+
+    if (defaultGroup) {
+      this.writer.line("else:");
+      this.emitSuite(defaultGroup.body);
+    }
+  }
+
+  private emitThrow(statement: ir.ThrowStatement): void {
+    const argument = statement.argument;
+    let code: string;
+
+    if (argument.kind === "Literal" || argument.kind === "TemplateLiteral") {
+      code = `raise Exception(${this.expr(argument).code})`;
+    } else {
+      code = `raise ${this.expr(argument).code}`;
+    }
+
+    this.flushNotes();
+    this.writer.line(code);
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  private wrap(emitted: Emitted, minPrec: number): string {
+    return emitted.prec < minPrec ? `(${emitted.code})` : emitted.code;
+  }
+
+  private sub(expression: ir.Expression, minPrec: number): string {
+    return this.wrap(this.expr(expression), minPrec);
+  }
+
+  private name(name: string): string {
+    return PYTHON_KEYWORDS.has(name) ? `${name}_` : name;
+  }
+
+  // `end + 1` with constant folding for numeric literals
+  private offset(emitted: Emitted, expression: ir.Expression, delta: number): Emitted {
+    if (expression.kind === "Literal" && typeof expression.value === "number") {
+      return { code: String(expression.value + delta), prec: PREC.atom };
+    }
+    const operator = delta > 0 ? "+" : "-";
+    return { code: `${this.wrap(emitted, PREC.additive)} ${operator} ${Math.abs(delta)}`, prec: PREC.additive };
+  }
+
+  // Lambdas cannot carry annotations, so only `def` parameters get type hints
+  private params(params: ir.Parameter[], annotate = false): string[] {
+    return params.map((param) => {
+      let type = this.types.parameter(param);
+      if (param.rest && type.kind === "array") type = type.element;
+      const hint = annotate ? this.typeHint(type) : undefined;
+      const name = `${param.rest ? "*" : ""}${this.name(param.name)}${hint ? `: ${hint}` : ""}`;
+      if (!param.defaultValue || param.rest) return name;
+      return `${name}${hint ? " = " : "="}${this.expr(param.defaultValue).code}`;
+    });
+  }
+
+  private pattern(pattern: ir.Pattern, nested = false): string {
+    switch (pattern.kind) {
+      case "Identifier":
+        return this.name(pattern.name);
+      case "ArrayPattern": {
+        if (pattern.defaults) this.note("array-default", "Python unpacking has no defaults for missing elements; they were dropped", pattern, "error");
+        const code = pattern.elements
+          .map((element, index) => {
+            const name = element ? this.pattern(element, true) : "_";
+            return pattern.rest && index === pattern.elements.length - 1 ? `*${name}` : name;
+          })
+          .join(", ");
+        return nested || pattern.elements.length === 1 ? `(${code}${pattern.elements.length === 1 ? "," : ""})` : code;
+      }
+      case "ObjectPattern":
+        this.note("object-destructuring", "object destructuring is not supported in this position", pattern, "error");
+        return `_destructured`;
+    }
+  }
+
+  private assignmentTarget(target: ir.Expression | ir.Pattern): string {
+    if (target.kind === "ArrayPattern" || target.kind === "ObjectPattern") {
+      return this.pattern(target);
+    }
+    return this.expr(target).code;
+  }
+
+  private stringLiteral(text: string): string {
+    return `${this.options.quote}${escapeForQuote(text, this.options.quote)}${this.options.quote}`;
+  }
+
+  // `list[int]` and `int | None` need Python 3.9 and 3.10; older targets spell them through `typing`
+  private typeHint(type: Type): string | undefined {
+    return typeHint(type, supportsVersion(this.options.version, "3.10") ? undefined : this.typingNames);
+  }
+
+  private expr(expression: ir.Expression): Emitted {
+    switch (expression.kind) {
+      case "Identifier": {
+        const idiom = this.idioms.identifier(expression);
+        if (idiom) return this.idiom(idiom, expression);
+        return { code: this.name(expression.name), prec: PREC.atom };
+      }
+
+      case "Literal":
+        return { code: this.literal(expression), prec: PREC.atom };
+
+      case "TemplateLiteral":
+        return { code: this.template(expression), prec: PREC.atom };
+
+      case "ArrayExpression":
+        return { code: `[${expression.elements.map((element) => this.expr(element).code).join(", ")}]`, prec: PREC.atom };
+
+      case "ObjectExpression": {
+        const entries = expression.properties.map((property) => {
+          if ("kind" in property) return `**${this.sub(property.argument, PREC.postfix)}`;
+          return `${this.expr(property.key).code}: ${this.expr(property.value).code}`;
+        });
+        return { code: `{${entries.join(", ")}}`, prec: PREC.atom };
+      }
+
+      case "BinaryExpression":
+        return this.binary(expression);
+
+      case "LogicalExpression": {
+        if (expression.operator === "??") {
+          const left = this.sub(expression.left, PREC.comparison + 1);
+          const right = this.sub(expression.right, PREC.conditional);
+          return { code: `${left} if ${left} is not None else ${right}`, prec: PREC.conditional };
+        }
+        const [operator, prec] = expression.operator === "&&" ? ["and", PREC.and] : ["or", PREC.or];
+        return {
+          code: `${this.sub(expression.left, prec)} ${operator} ${this.sub(expression.right, prec + 1)}`,
+          prec,
+        };
+      }
+
+      case "UnaryExpression":
+        switch (expression.operator) {
+          case "!":
+            return { code: `not ${this.sub(expression.argument, PREC.not)}`, prec: PREC.not };
+          case "typeof":
+            return { code: `type(${this.expr(expression.argument).code}).__name__`, prec: PREC.postfix };
+          case "void":
+            return { code: "None", prec: PREC.atom };
+          case "delete":
+            this.note("delete-expression", "`delete` used as an expression is dropped", expression, "error");
+            return { code: `${this.expr(expression.argument).code}`, prec: PREC.atom };
+          default:
+            return { code: `${expression.operator}${this.sub(expression.argument, PREC.unary)}`, prec: PREC.unary };
+        }
+
+      case "UpdateExpression": {
+        // Only reachable outside statement position; the walrus operator keeps it an expression
+        if (!expression.prefix) {
+          const message = "postfix increment/decrement used as a value now yields the updated value";
+          this.note("postfix-update", message, expression);
+        }
+        const target = this.expr(expression.argument).code;
+        const operator = expression.operator === "++" ? "+" : "-";
+        return { code: `(${target} := ${target} ${operator} 1)`, prec: PREC.atom };
+      }
+
+      case "AssignmentExpression": {
+        if (expression.target.kind !== "Identifier" || expression.operator !== "=") {
+          const message = "this assignment used as a value cannot be written with the walrus operator";
+          this.note("assignment-expression", message, expression, "error");
+        }
+        const target = this.assignmentTarget(expression.target);
+        return { code: `(${target} := ${this.expr(expression.value).code})`, prec: PREC.atom };
+      }
+
+      case "CallExpression":
+        return this.call(expression);
+
+      case "NewExpression": {
+        const callee = expression.callee.kind === "Identifier" && ERROR_CLASSES[expression.callee.name]
+          ? ERROR_CLASSES[expression.callee.name]
+          : this.sub(expression.callee, PREC.postfix);
+        return { code: `${callee}(${this.args(expression.arguments)})`, prec: PREC.postfix };
+      }
+
+      case "MemberExpression": {
+        const idiom = this.idioms.member(expression);
+        if (idiom) return this.idiom(idiom, expression);
+        if (expression.optional) this.note("optional-chaining", "optional chaining (`?.`) has no Python equivalent", expression);
+        const object = expression.object.kind === "SuperExpression" ? "super()" : this.sub(expression.object, PREC.postfix);
+        if (expression.computed) {
+          return { code: `${object}[${this.expr(expression.property).code}]`, prec: PREC.postfix };
+        }
+        if (expression.property.kind === "Identifier" && this.isObjectLiteralValue(expression.object)) {
+          return { code: `${object}[${this.stringLiteral(expression.property.name)}]`, prec: PREC.postfix };
+        }
+        const property = expression.property.kind === "Identifier" ? expression.property.name : this.expr(expression.property).code;
+        return { code: `${object}.${this.name(property)}`, prec: PREC.postfix };
+      }
+
+      case "ConditionalExpression":
+        return {
+          code: `${this.sub(expression.consequent, PREC.or)} if ${this.sub(expression.test, PREC.or)} else ${this.sub(expression.alternate, PREC.conditional)}`,
+          prec: PREC.conditional,
+        };
+
+      case "FunctionExpression":
+        return this.lambda(expression);
+
+      case "ThisExpression":
+        return { code: "self", prec: PREC.atom };
+
+      case "SuperExpression":
+        return { code: "super()", prec: PREC.postfix };
+
+      case "SpreadElement":
+        return { code: `*${this.sub(expression.argument, PREC.postfix)}`, prec: PREC.atom };
+
+      case "AwaitExpression":
+        return { code: `await ${this.sub(expression.argument, PREC.await)}`, prec: PREC.await };
+
+      case "YieldExpression": {
+        const keyword = expression.delegate ? "yield from" : "yield";
+        return { code: expression.argument ? `${keyword} ${this.sub(expression.argument, PREC.lambda)}` : keyword, prec: PREC.lambda };
+      }
+
+      case "SequenceExpression":
+        this.note("comma-operator", "the comma operator is emulated by indexing a tuple", expression, "info");
+        return {
+          code: `(${expression.expressions.map((item) => this.expr(item).code).join(", ")})[-1]`,
+          prec: PREC.postfix,
+        };
+
+      case "ComprehensionExpression":
+        return this.comprehension(expression);
+
+      case "SliceExpression": {
+        const bounds = [expression.start, expression.end].map((bound) => (bound ? this.expr(bound).code : ""));
+        if (expression.step) bounds.push(this.expr(expression.step).code);
+        return { code: `${this.sub(expression.object, PREC.postfix)}[${bounds.join(":")}]`, prec: PREC.postfix };
+      }
+
+      case "NamedArgument":
+        return { code: `${this.name(expression.name)}=${this.expr(expression.value).code}`, prec: PREC.atom };
+
+      case "UnsupportedExpression":
+        this.note("unsupported-expression", `${expression.reason}: ${expression.text}`, expression, "error");
+        return { code: expression.text, prec: PREC.atom };
+    }
+  }
+
+  private comprehension(expression: ir.ComprehensionExpression): Emitted {
+    const element = expression.key
+      ? `${this.expr(expression.key).code}: ${this.expr(expression.element).code}`
+      : this.sub(expression.element, PREC.conditional);
+    const clauses = expression.clauses.map((clause) => {
+      let code = `for ${this.pattern(clause.target)} in ${this.sub(clause.iterable, PREC.or)}`;
+      for (const condition of clause.conditions) {
+        code += ` if ${this.sub(condition, PREC.or)}`;
+      }
+      return code;
+    });
+
+    const body = `${element} ${clauses.join(" ")}`;
+    switch (expression.collection) {
+      case "list":
+        return { code: `[${body}]`, prec: PREC.atom };
+      case "generator":
+        return { code: `(${body})`, prec: PREC.atom };
+      default:
+        return { code: `{${body}}`, prec: PREC.atom };
+    }
+  }
+
+  private literal(literal: ir.Literal): string {
+    if (literal.value === null) return "None";
+    if (literal.value === true) return "True";
+    if (literal.value === false) return "False";
+    if (typeof literal.value === "string") return this.stringLiteral(literal.value);
+
+    const raw = literal.raw;
+    if (raw && /^(0[xXoObB][0-9a-fA-F_]+|[1-9][\d_]*(\.[\d_]*)?([eE][+-]?\d+)?|0(\.\d*)?([eE][+-]?\d+)?|\.\d+([eE][+-]?\d+)?)$/.test(raw)) {
+      return raw;
+    }
+    return String(literal.value);
+  }
+
+  private template(template: ir.TemplateLiteral): string {
+    if (template.expressions.length === 0) {
+      return this.stringLiteral(template.quasis[0]);
+    }
+
+    const expressions = template.expressions.map((expression) => this.expr(expression).code);
+    // Before Python 3.12 an f-string cannot reuse its own quote character inside {}
+    const other = this.options.quote === '"' ? "'" : '"';
+    const reused = !supportsVersion(this.options.version, "3.12") && expressions.some((code) => code.includes(this.options.quote));
+    const quote = reused ? other : this.options.quote;
+
+    let body = "";
+    template.quasis.forEach((quasi, index) => {
+      body += escapeForQuote(quasi, quote).replace(/\{/g, "{{").replace(/\}/g, "}}");
+      if (index < expressions.length) body += `{${expressions[index]}}`;
+    });
+    return `f${quote}${body}${quote}`;
+  }
+
+  private binary(expression: ir.BinaryExpression): Emitted {
+    const idiom = this.idioms.binary(expression);
+    if (idiom) return this.idiom(idiom, expression);
+
+    if (expression.operator === "instanceof") {
+      return {
+        code: `isinstance(${this.expr(expression.left).code}, ${this.expr(expression.right).code})`,
+        prec: PREC.postfix,
+      };
+    }
+
+    if (expression.operator === "+" && this.concatenates(expression.left, expression.right)) {
+      return { code: `${this.sub(expression.left, PREC.additive)} + str(${this.expr(expression.right).code})`, prec: PREC.additive };
+    }
+    if (expression.operator === "+" && this.concatenates(expression.right, expression.left)) {
+      return { code: `str(${this.expr(expression.left).code}) + ${this.sub(expression.right, PREC.additive + 1)}`, prec: PREC.additive };
+    }
+
+    let entry = BINARY_OPERATORS[expression.operator];
+    if (!entry) {
+      this.note("unsigned-shift", "unsigned right shift has no Python equivalent", expression);
+      entry = [">>", PREC.shift];
+    }
+
+    const [operator, prec] = entry;
+    // Python chains comparisons (`a < b < c`), so nested comparisons always get parentheses
+    const leftMin = prec === PREC.comparison || prec === PREC.power ? prec + 1 : prec;
+    const rightMin = prec === PREC.power ? prec : prec + 1;
+
+    return {
+      code: `${this.sub(expression.left, leftMin)} ${operator} ${this.sub(expression.right, rightMin)}`,
+      prec,
+    };
+  }
+
+  // True for an object literal of JavaScript, printed as a dict
+  private isObjectLiteralValue(expression: ir.Expression): boolean {
+    if (this.sourceLanguage !== "javascript") return false;
+    const type = this.types.typeOf(expression);
+    return (type.kind === "optional" ? type.wrapped : type).kind === "dict";
+  }
+
+  // True when JavaScript's `+` turns `other` into a string to append it to `text`, where
+  // Python raises a TypeError; the caller converts `other` with str()
+  private concatenates(text: ir.Expression, other: ir.Expression): boolean {
+    if (this.sourceLanguage !== "javascript" || this.types.typeOf(text).kind !== "string") return false;
+    const type = this.types.typeOf(other);
+    if (type.kind === "string") return false;
+    if (isNumeric(type)) return true;
+    if (type.kind === "any") {
+      this.note("string-concatenation", "str() converts a value of unknown type for `+`; it spells booleans, None and lists differently from JavaScript", other, "info");
+    } else {
+      this.note("string-concatenation", "str() spells booleans, None, lists and dicts differently from JavaScript's `+`", other);
+    }
+    return true;
+  }
+
+  private args(args: ir.Expression[]): string {
+    return args.map((arg) => this.expr(arg).code).join(", ");
+  }
+
+  private call(call: ir.CallExpression): Emitted {
+    const { callee } = call;
+    if (call.optional) this.note("optional-chaining", "optional call (`?.()`) has no Python equivalent", call);
+
+    if (callee.kind === "SuperExpression") {
+      return { code: `super().__init__(${this.args(call.arguments)})`, prec: PREC.postfix };
+    }
+
+    const idiom = this.idioms.call(call);
+    if (idiom) return this.idiom(idiom, call);
+
+    return { code: `${this.sub(callee, PREC.postfix)}(${this.args(call.arguments)})`, prec: PREC.postfix };
+  }
+
+  // Library construct printed through the idiom table of the language pair
+  private idiom(match: IdiomMatch, node: ir.Expression): Emitted {
+    for (const line of match.imports) this.imports.add(line);
+    this.noteIdiom(match, node);
+
+    const { code, loose } = renderIdiom(match, (expression, slot) =>
+      slot === "loose" ? this.expr(expression).code : this.sub(expression, PREC.postfix)
+    );
+    return { code, prec: loose ? PREC.lambda : PREC.postfix };
+  }
+
+  private lambda(fn: ir.FunctionExpression): Emitted {
+    let body: ir.Expression | undefined = fn.expressionBody;
+    if (!body && fn.body.length === 1 && fn.body[0].kind === "ReturnStatement" && fn.body[0].argument) {
+      body = fn.body[0].argument;
+    }
+
+    if (body && !fn.isAsync) {
+      const params = this.params(fn.params).join(", ");
+      const code = this.sub(body, PREC.lambda);
+      return { code: params ? `lambda ${params}: ${code}` : `lambda: ${code}`, prec: PREC.lambda };
+    }
+
+    const name = fn.name ? this.name(fn.name) : `_lambda_${++this.lambdaCounter}`;
+    this.hoisted.push({ name, fn });
+    return { code: name, prec: PREC.atom };
+  }
+}
+
+// Python type hint for an inferred type; undefined when nothing useful is known.
+// With `typing`, generics use the typing module's names, which are added to it.
+function typeHint(type: Type, typing?: Set<string>): string | undefined {
+  const generic = (builtin: string, legacy: string) => {
+    if (!typing) return builtin;
+    typing.add(legacy);
+    return legacy;
+  };
+  switch (type.kind) {
+    case "int":
+      return "int";
+    case "double":
+      return "float";
+    case "string":
+      return "str";
+    case "bool":
+      return "bool";
+    case "array": {
+      const element = typeHint(type.element, typing);
+      return element ? `${generic("list", "List")}[${element}]` : "list";
+    }
+    case "dict": {
+      const key = typeHint(type.key, typing);
+      const value = typeHint(type.value, typing);
+      return key && value ? `${generic("dict", "Dict")}[${key}, ${value}]` : "dict";
+    }
+    case "optional": {
+      const wrapped = typeHint(type.wrapped, typing);
+      if (!wrapped) return undefined;
+      if (!typing) return `${wrapped} | None`;
+      typing.add("Optional");
+      return `Optional[${wrapped}]`;
+    }
+    case "class":
+      // Quoted, so a class can refer to itself before its body is complete
+      return `"${type.name}"`;
+    default:
+      return undefined;
+  }
+}
+
+// Declarations printed as a def or class, which take their doc as a docstring
+function documentsDef(statement: ir.Statement): boolean {
+  if (statement.kind === "FunctionDeclaration" || statement.kind === "ClassDeclaration") return true;
+  return statement.kind === "VariableDeclaration" && statement.declarations.some((declarator) => declarator.init?.kind === "FunctionExpression");
+}
+
+function isSuperCall(statement: ir.Statement): boolean {
+  return (
+    statement.kind === "ExpressionStatement" &&
+    statement.expression.kind === "CallExpression" &&
+    statement.expression.callee.kind === "SuperExpression"
+  );
+}
+
+function escapeForQuote(text: string, quote: string): string {
+  const escaped = JSON.stringify(text).slice(1, -1);
+  return quote === "'" ? escaped.replace(/\\"/g, '"').replace(/'/g, "\\'") : escaped;
+}
@@ -0,0 +1,52 @@
+import type * as ir from "../ir";
+import { walk } from "../walk";
+
+// Splitting a script for targets that only allow declarations at the top of a file, such as
+// Go and Kotlin: the other statements run from main()
+
+// Names of top-level variables read or written inside functions and classes
+export function packageLevelNames(body: ir.Statement[]): Set<string> {
+  const names = new Set<string>();
+  for (const statement of body) {
+    if (statement.kind !== "FunctionDeclaration" && statement.kind !== "ClassDeclaration") continue;
+    walk(statement, (node) => {
+      if (node.kind === "Identifier") names.add(node.name);
+    });
+  }
+  return names;
+}
+
+export function isPackageLevel(statement: ir.Statement, global: Set<string>): boolean {
+  switch (statement.kind) {
+    case "FunctionDeclaration":
+    case "ClassDeclaration":
+    case "ImportDeclaration":
+    case "ExportDeclaration":
+      return true;
+    case "VariableDeclaration":
+      return statement.declarations.every(
+        ({ target }) => target.kind === "Identifier" && global.has(target.name)
+      );
+    default:
+      return false;
+  }
+}
+
+// Comments at the top of the file that are set apart from the first statement
+// describe the file, and go above the package clause or imports
+export function splitFileComments(statements: ir.Statement[]): { header: ir.Comment[]; body: ir.Statement[] } {
+  const [first, ...rest] = statements;
+  const comments = first?.leadingComments ?? [];
+  let split = 0;
+  for (let i = 0; i < comments.length; i++) {
+    const end = comments[i].loc?.end.line;
+    const next = (comments[i + 1] ?? first.doc ?? first).loc?.start.line;
+    if (end !== undefined && next !== undefined && next > end + 1) split = i + 1;
+  }
+  if (split === 0) return { header: [], body: statements };
+  const remaining = comments.slice(split);
+  return {
+    header: comments.slice(0, split),
+    body: [{ ...first, leadingComments: remaining.length > 0 ? remaining : undefined }, ...rest],
+  };
+}
@@ -0,0 +1,1119 @@
+import type * as ir from "../ir";
+import { Emitter } from "./emitter";
+import { lowerTryElse } from "./exceptions";
+import { isBlockScopedLoop, loopContinues, matchCountingLoop } from "./loops";
+import { switchBranches } from "./switches";
+import { someNode, someNodeInScope, walk } from "../walk";
+import { withNotes, type ConversionResult, type TransformResult } from "../diagnostics";
+import { applyNaming } from "../naming";
+import { exportedNames } from "../modules";
+import { resolveOptions, supportsVersion } from "../options";
+import { buildSourceMap } from "../source-map";
+import { IdiomMapper, idiomTable, renderIdiom, type IdiomMatch } from "../idioms";
+import { inferTypes, isKnown, type FunctionLike, type Type, type TypeInfo } from "../inference";
+import { formatSwiftDoc } from "./comments";
+import type { ConversionOptions } from "@shared/schema";
+
+/** Print Swift source from an IR module. */
+export function emitSwift(module: ir.Module, options?: ConversionOptions): ConversionResult {
+  const transformed = transformForSwift(module, options);
+  return withNotes(emitTransformedSwift(transformed.module, options), transformed.notes);
+}
+
+/** Rewrites a module for Swift: its naming convention, then Python `try … else` blocks. */
+export function transformForSwift(module: ir.Module, options?: ConversionOptions): TransformResult {
+  const named = applyNaming(module, resolveOptions("swift", options).naming);
+  const lowered = lowerTryElse(named.module);
+  return { module: lowered.module, notes: [...named.notes, ...lowered.notes] };
+}
+
+/** Emits Swift from a module transformForSwift returned. */
+export function emitTransformedSwift(module: ir.Module, options?: ConversionOptions): ConversionResult {
+  return new SwiftEmitter(resolveOptions("swift", options)).emitModule(module);
+}
+
+// Swift precedence groups, loosest first
+const PREC = {
+  assignment: 1,
+  ternary: 2,
+  disjunction: 3,
+  conjunction: 4,
+  comparison: 5,
+  nilCoalescing: 6,
+  casting: 7,
+  range: 8,
+  additive: 9,
+  multiplicative: 10,
+  shift: 11,
+  prefix: 12,
+  postfix: 13,
+  atom: 14,
+};
+
+const BINARY_OPERATORS: Partial<Record<ir.BinaryOperator, [string, number]>> = {
+  "+": ["+", PREC.additive],
+  "-": ["-", PREC.additive],
+  "|": ["|", PREC.additive],
+  "^": ["^", PREC.additive],
+  "*": ["*", PREC.multiplicative],
+  "/": ["/", PREC.multiplicative],
+  "//": ["/", PREC.multiplicative],
+  "%": ["%", PREC.multiplicative],
+  "&": ["&", PREC.multiplicative],
+  "<<": ["<<", PREC.shift],
+  ">>": [">>", PREC.shift],
+  "==": ["==", PREC.comparison],
+  "!=": ["!=", PREC.comparison],
+  "<": ["<", PREC.comparison],
+  "<=": ["<=", PREC.comparison],
+  ">": [">", PREC.comparison],
+  ">=": [">=", PREC.comparison],
+};
+
+// Methods that change the array, dictionary or set they are called on, which Swift allows only on a `var`
+const MUTATING_METHODS = new Set([
+  // JavaScript
+  "push", "pop", "shift", "unshift", "splice", "sort", "reverse", "fill", "copyWithin", "set", "delete", "clear", "add",
+  // Python
+  "append", "extend", "insert", "remove", "update", "setdefault", "popitem", "discard",
+]);
+
+const ERROR_CLASSES = new Set(["Error", "TypeError", "RangeError", "SyntaxError", "ReferenceError"]);
+
+// Declared at the end of the output whenever converted code throws; as a LocalizedError its
+// message is what `localizedDescription` gives, which is how `error.message` is read
+const RUNTIME_ERROR_MEMBERS = [
+  "let message: String",
+  "var errorDescription: String? { message }",
+  "init(_ message: String) { self.message = message }",
+];
+
+interface Emitted {
+  code: string;
+  prec: number;
+}
+
+class SwiftEmitter extends Emitter {
+  protected readonly targetName = "Swift";
+  protected readonly commentPrefix = "//";
+  private usesRuntimeError = false;
+  // Names bound to the error in the catch blocks being printed
+  private caughtErrors = new Set<string>();
+  // Variables changed in place, which must be declared with `var` even when constant in the source
+  private mutated = new Set<string>();
+  private types!: TypeInfo;
+  // Import lines required by library mappings, shared with nested emitters
+  private imports = new Set<string>();
+  // Top-level names other modules import; undefined for scripts
+  private exported?: Set<string>;
+  // Statements of the module itself, the only ones that can be exported
+  private topLevel = new Set<ir.Statement>();
+
+  emitModule(module: ir.Module): ConversionResult {
+    this.types = inferTypes(module);
+    this.idioms = new IdiomMapper(idiomTable(module.sourceLanguage, "swift"), module, this.types);
+    this.reserveNames(module);
+    this.mutated = mutatedNames(module);
+    this.exported = exportedNames(module);
+    this.topLevel = new Set(module.body);
+    this.emitStatements(module.body);
+    this.flushNotes();
+
+    if (this.usesRuntimeError) {
+      this.imports.add("import Foundation");
+      this.writer.blankLine();
+      this.writer.line("struct RuntimeError: LocalizedError {");
+      this.writer.indent();
+      for (const line of RUNTIME_ERROR_MEMBERS) this.writer.line(line);
+      this.writer.dedent();
+      this.writer.line("}");
+    }
+    if (this.imports.size > 0) {
+      const header = [...Array.from(this.imports).sort(), ""];
+      this.writer.prepend(header);
+      this.diagnostics.shift(header.length);
+    }
+    return {
+      code: this.writer.toString(),
+      diagnostics: this.diagnostics.resolve(this.writer),
+      sourceMap: buildSourceMap(this.writer),
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private emitStatements(statements: ir.Statement[]): void {
+    let previousEnd: number | undefined;
+
+    for (const statement of statements) {
+      const startLine = (statement.leadingComments?.[0] ?? statement.doc ?? statement).loc?.start.line;
+      if (previousEnd !== undefined && startLine !== undefined && startLine > previousEnd + 1) {
+        this.writer.blankLine();
+      }
+
+      this.emitComments(statement.leadingComments);
+      this.separateDetachedComments(statement);
+      if (statement.doc) this.emitDoc(statement.doc);
+      const outer = this.statement;
+      this.statement = statement;
+      const before = this.writer.lineCount;
+      this.withOrigin(statement, () => this.emitStatement(statement));
+      this.statement = outer;
+      this.emitInlineComment(statement, before);
+      this.emitComments(statement.trailingComments);
+
+      const lastComment = statement.trailingComments?.[statement.trailingComments.length - 1];
+      previousEnd = lastComment?.loc?.end.line ?? statement.loc?.end.line;
+    }
+  }
+
+  private emitDoc(doc: ir.DocComment): void {
+    this.withOrigin(doc, () => formatSwiftDoc(doc).forEach((line) => this.writer.line(line)));
+  }
+
+  private emitBlock(statements: ir.Statement[]): void {
+    this.writer.block(() => this.emitStatements(statements));
+  }
+
+  private emitStatement(statement: ir.Statement): void {
+    switch (statement.kind) {
+      case "FunctionDeclaration":
+        this.noteDecorators(statement.decorators);
+        this.emitFunction(`${this.visibility(statement, statement.name)}func ${statement.name}`, statement);
+        break;
+
+      case "ClassDeclaration":
+        this.noteDecorators(statement.decorators);
+        this.emitClass(statement);
+        break;
+
+      case "VariableDeclaration":
+        this.emitVariableDeclaration(statement);
+        break;
+
+      case "ExpressionStatement":
+        this.write(this.expressionStatement(statement.expression));
+        break;
+
+      case "ReturnStatement":
+        this.write(statement.argument ? `return ${this.expr(statement.argument).code}` : "return");
+        break;
+
+      case "IfStatement":
+        this.emitIf(statement);
+        this.writer.line("}");
+        break;
+
+      case "WhileStatement":
+        this.write(`while ${this.expr(statement.test).code} {`);
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+
+      case "DoWhileStatement": {
+        const test = this.expr(statement.test).code;
+        this.write("repeat {");
+        this.emitBlock(statement.body);
+        this.writer.line(`} while ${test}`);
+        break;
+      }
+
+      case "ForStatement":
+        this.emitFor(statement);
+        break;
+
+      case "ForEachStatement": {
+        const iterable = this.sub(statement.iterable, PREC.postfix);
+        const source = statement.over === "keys" ? `${iterable}.keys` : this.expr(statement.iterable).code;
+        this.write(`for ${this.pattern(statement.target)} in ${source} {`);
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+      }
+
+      case "SwitchStatement":
+        this.emitSwitch(statement);
+        break;
+
+      case "BreakStatement":
+        this.writer.line("break");
+        break;
+
+      case "ContinueStatement": {
+        const update = this.continueUpdates.get(statement);
+        if (update) this.write(this.expressionStatement(update));
+        this.writer.line("continue");
+        break;
+      }
+
+      case "ThrowStatement":
+        this.emitThrow(statement);
+        break;
+
+      case "TryStatement":
+        this.emitTry(statement);
+        break;
+
+      case "WithStatement":
+        this.note("context-manager", "context managers have no Swift equivalent; release resources explicitly");
+        this.write("do {");
+        this.writer.block(() => {
+          for (const item of statement.items) {
+            const context = this.expr(item.context).code;
+            this.write(item.target ? `let ${this.pattern(item.target)} = ${context}` : `_ = ${context}`);
+          }
+          this.emitStatements(statement.body);
+        });
+        this.writer.line("}");
+        break;
+
+      case "BlockStatement":
+        this.writer.line("do {");
+        this.emitBlock(statement.body);
+        this.writer.line("}");
+        break;
+
+      case "ImportDeclaration":
+        this.emitImport(statement);
+        break;
+
+      case "ExportDeclaration":
+        // Every file of the project sees the others' declarations
+        break;
+
+      case "UnsupportedStatement": {
+        // The original code is kept as comments, covered by an error diagnostic
+        const first = this.writer.lineCount;
+        for (const line of statement.text.split("\n")) {
+          this.writer.line(`// ${line}`);
+        }
+        this.diagnostics.record(
+          { severity: "error", code: "unsupported-statement", message: statement.reason, loc: statement.loc },
+          first,
+          this.writer.lineCount - 1
+        );
+        break;
+      }
+    }
+  }
+
+  private noteDecorators(decorators: ir.Expression[] | undefined): void {
+    for (const decorator of decorators ?? []) {
+      this.note("decorator", `decorator @${this.expr(decorator).code} must be applied by hand`, decorator);
+    }
+  }
+
+  private signature(fn: FunctionLike): string {
+    const paramList = fn.params.map((param) => {
+      const type = this.types.parameter(param);
+      if (param.rest) return `_ ${param.name}: ${swiftType(type.kind === "array" ? type.element : type)}...`;
+      const defaultValue = param.defaultValue ? ` = ${this.expr(param.defaultValue).code}` : "";
+      return `_ ${param.name}: ${swiftType(type)}${defaultValue}`;
+    });
+
+    // async/await arrives with Swift 5.5; older targets keep it but are told
+    if (fn.isAsync && !supportsVersion(this.options.version, "5.5")) {
+      this.note("target-version", `async functions need Swift 5.5 or later, not ${this.options.version}`, fn);
+    }
+    const effects = [
+      fn.isAsync ? "async" : "",
+      someNodeInScope(fn.body, (node) => node.kind === "ThrowStatement") ? "throws" : "",
+    ].filter(Boolean);
+    const returns = this.types.returns(fn);
+
+    return `(${paramList.join(", ")})${effects.map((effect) => ` ${effect}`).join("")}${returns.kind === "void" ? "" : ` -> ${swiftType(returns)}`}`;
+  }
+
+  private emitFunction(head: string, fn: FunctionLike, body = fn.body): void {
+    this.write(`${head}${this.signature(fn)} {`);
+    this.emitBlock(body);
+    this.writer.line("}");
+  }
+
+  /**
+   * Swift sets a subclass's own stored properties before `super.init`, so
+   * `this.x = value` assignments right after the super call move above it.
+   * Later ones are reported, since they may need values `super.init` sets up.
+   */
+  private initBody(node: ir.ClassDeclaration, init: ir.MethodDefinition): ir.Statement[] {
+    const body = init.body;
+    const superIndex = body.findIndex((statement) => statement.kind === "ExpressionStatement" && statement.expression.kind === "CallExpression" && statement.expression.callee.kind === "SuperExpression");
+    if (!node.superClass || superIndex < 0) return body;
+
+    const own = new Set(this.types.properties(node).map(([name]) => name));
+    const assigned = (statement: ir.Statement) => {
+      if (statement.kind !== "ExpressionStatement" || statement.expression.kind !== "AssignmentExpression") return undefined;
+      const { operator, target, value } = statement.expression;
+      if (operator !== "=" || target.kind !== "MemberExpression" || target.object.kind !== "ThisExpression" || target.computed) return undefined;
+      const name = target.property.kind === "Identifier" ? target.property.name : undefined;
+      return name && own.has(name) && !someNode(value, (inner) => inner.kind === "ThisExpression" || inner.kind === "SuperExpression") ? name : undefined;
+    };
+
+    let end = superIndex + 1;
+    while (end < body.length && assigned(body[end])) end++;
+    for (const statement of body.slice(end)) {
+      const name = assigned(statement);
+      if (name) this.note("init-order", `self.${name} is set after super.init; Swift needs it set before`, statement);
+    }
+    return [...body.slice(0, superIndex), ...body.slice(superIndex + 1, end), body[superIndex], ...body.slice(end)];
+  }
+
+  private emitClass(node: ir.ClassDeclaration): void {
+    const base = node.superClass ? `: ${this.expr(node.superClass).code}` : "";
+    this.write(`${this.visibility(node, node.name)}class ${node.name}${base} {`);
+
+    this.writer.block(() => {
+      const before = this.writer.lineCount;
+
+      const inferred = new Map(this.types.properties(node));
+      for (const member of node.members) {
+        if (member.kind !== "PropertyDefinition") continue;
+        const keyword = member.isStatic ? "static var" : "var";
+        const type = member.isStatic ? (member.value ? this.types.typeOf(member.value) : undefined) : inferred.get(member.name);
+        inferred.delete(member.name);
+        this.emitComments(member.leadingComments);
+        if (member.doc) this.emitDoc(member.doc);
+        const start = this.writer.lineCount;
+        this.withOrigin(member, () => {
+          const declaration = member.value
+            ? `${keyword} ${member.name}: ${swiftType(type ?? { kind: "any" })} = ${this.expr(member.value).code}`
+            : `${keyword} ${member.name}: ${swiftType(optionalOf(type))}`;
+          this.write(declaration);
+        });
+        this.emitInlineComment(member, start);
+        this.emitComments(member.trailingComments);
+      }
+
+      // Stored properties Swift needs declared for `this.x = ...` assignments in the methods
+      for (const member of node.members) inferred.delete(member.name);
+      for (const [name, type] of Array.from(inferred.entries())) {
+        this.writer.line(`var ${name}: ${swiftType(type.kind === "none" ? optionalOf(type) : type)}`);
+      }
+
+      const accessors = new Map<string, { get?: ir.MethodDefinition; set?: ir.MethodDefinition }>();
+      for (const member of node.members) {
+        if (member.kind === "MethodDefinition" && (member.role === "get" || member.role === "set")) {
+          const entry = accessors.get(member.name) ?? {};
+          entry[member.role] = member;
+          accessors.set(member.name, entry);
+        }
+      }
+
+      for (const member of node.members) {
+        if (member.kind !== "MethodDefinition") continue;
+        if (this.writer.lineCount > before) this.writer.blankLine();
+        this.emitComments(member.leadingComments);
+        if (member.doc) this.emitDoc(member.doc);
+        const start = this.writer.lineCount;
+        this.withOrigin(member, () => {
+          if (member.role === "constructor") {
+            this.emitFunction("init", member, this.initBody(node, member));
+          } else if (member.role === "get" || member.role === "set") {
+            // Getter and setter share one computed property, printed at the first of them
+            const entry = accessors.get(member.name);
+            if (!entry) return;
+            accessors.delete(member.name);
+            this.emitComputedProperty(member.name, member.isStatic, entry);
+          } else {
+            const head = `${member.isStatic ? "static " : ""}func ${member.name}`;
+            this.emitFunction(head, member);
+          }
+        });
+        this.emitInlineComment(member, start);
+        this.emitComments(member.trailingComments);
+      }
+    });
+
+    this.writer.line("}");
+  }
+
+  private emitComputedProperty(
+    name: string,
+    isStatic: boolean,
+    { get, set }: { get?: ir.MethodDefinition; set?: ir.MethodDefinition }
+  ): void {
+    const type = get ? this.types.returns(get) : set?.params[0] ? this.types.parameter(set.params[0]) : undefined;
+    this.writer.line(`${isStatic ? "static " : ""}var ${name}: ${swiftType(type ?? { kind: "any" })} {`);
+    this.writer.block(() => {
+      if (get) {
+        this.writer.line("get {");
+        this.emitBlock(get.body);
+        this.writer.line("}");
+      }
+      if (set) {
+        const param = set.params[0]?.name ?? "newValue";
+        this.writer.line(`set(${param}) {`);
+        this.emitBlock(set.body);
+        this.writer.line("}");
+      }
+    });
+    this.writer.line("}");
+  }
+
+  private emitVariableDeclaration(declaration: ir.VariableDeclaration): void {
+    for (const { target, init } of declaration.declarations) {
+      const keyword = declaration.constant && !this.isMutated(target) ? "let" : "var";
+      if (target.kind === "ObjectPattern" || target.kind === "ArrayPattern") {
+        this.emitDestructuring(keyword, target, init);
+        continue;
+      }
+
+      const type = this.types.variable(target);
+      const visibility = this.visibility(declaration, target.name);
+      if (!init && type.kind !== "optional" && type.kind !== "none" && type.kind !== "any") {
+        // Swift checks that every path assigns it before use
+        this.write(`${visibility}var ${target.name}: ${swiftType(type)}`);
+        continue;
+      }
+      if (!init || (init.kind === "Literal" && init.value === null)) {
+        this.write(`${visibility}var ${target.name}: ${swiftType(optionalOf(type))} = nil`);
+        continue;
+      }
+
+      let annotation = "";
+      const empty =
+        (init.kind === "ArrayExpression" && init.elements.length === 0) ||
+        (init.kind === "ObjectExpression" && init.properties.length === 0);
+      if (empty) annotation = `: ${swiftType(type)}`;
+
+      this.write(`${visibility}${keyword} ${target.name}${annotation} = ${this.expr(init).code}`);
+    }
+  }
+
+  // Class instances are references, which a `let` can still change through
+  private isMutated(target: ir.Pattern): boolean {
+    return someNode(target, (node) => node.kind === "Identifier" && this.mutated.has(node.name) && this.types.variable(node).kind !== "class");
+  }
+
+  // `public ` for the top-level declarations other modules import
+  private visibility(statement: ir.Statement, name: string): string {
+    return this.topLevel.has(statement) && this.exported?.has(name) ? "public " : "";
+  }
+
+  private emitDestructuring(keyword: string, target: ir.ArrayPattern | ir.ObjectPattern, init?: ir.Expression): void {
+    let source = init ? this.sub(init, PREC.postfix) : "nil";
+
+    if (init && init.kind !== "Identifier") {
+      const temporary = this.temporary("destructured");
+      this.write(`let ${temporary} = ${source}`);
+      source = temporary;
+    }
+
+    if (target.kind === "ArrayPattern") {
+      target.elements.forEach((element, index) => {
+        if (!element) return;
+        const isRest = target.rest && index === target.elements.length - 1;
+        const fallback = target.defaults?.[index];
+        let value = isRest ? `Array(${source}[${index}...])` : `${source}[${index}]`;
+        if (fallback) value = `${source}.count > ${index} ? ${value} : ${this.sub(fallback, PREC.ternary)}`;
+        this.write(`${keyword} ${this.pattern(element)} = ${value}`);
+      });
+    } else {
+      for (const property of target.properties) {
+        const fallback = property.defaultValue ? ` ?? ${this.expr(property.defaultValue).code}` : "";
+        this.write(`${keyword} ${this.pattern(property.value)} = ${source}["${property.key}"]${fallback}`);
+      }
+      if (target.rest) {
+        const keys = target.properties.map((property) => `"${property.key}"`).join(", ");
+        this.write(`${keyword} ${target.rest.name} = ${source}.filter { ![${keys}].contains($0.key) }`);
+      }
+    }
+  }
+
+  private expressionStatement(expression: ir.Expression): string {
+    if (expression.kind === "UpdateExpression") {
+      return `${this.expr(expression.argument).code} ${expression.operator === "++" ? "+=" : "-="} 1`;
+    }
+    if (expression.kind === "AssignmentExpression") {
+      const target = this.assignmentTarget(expression.target);
+      const value = this.expr(expression.value);
+      switch (expression.operator) {
+        case "??=":
+          return `${target} = ${target} ?? ${this.wrap(value, PREC.nilCoalescing)}`;
+        case "**=":
+          return `${target} = pow(${target}, ${value.code})`;
+        case "||=":
+        case "&&=":
+        case ">>>=":
+          this.note("unsupported-operator", `\`${expression.operator}\` has no Swift equivalent`, expression, "error");
+          return `${target} = ${value.code}`;
+        default:
+          return `${target} ${expression.operator} ${value.code}`;
+      }
+    }
+    return this.expr(expression).code;
+  }
+
+  // Prints an if/else-if chain, leaving the final closing brace to the caller
+  private emitIf(statement: ir.IfStatement): void {
+    this.write(`if ${this.expr(statement.test).code} {`);
+    this.emitBlock(statement.consequent);
+
+    if (statement.alternate && statement.alternate.length > 0) {
+      this.emitElse(statement.alternate);
+    }
+  }
+
+  private emitElse(alternate: ir.Statement[]): void {
+    const [first] = alternate;
+    if (alternate.length === 1 && first.kind === "IfStatement" && !first.leadingComments) {
+      const test = this.expr(first.test).code;
+      this.flushNotes();
+      this.writer.line(`} else if ${test} {`);
+      this.emitBlock(first.consequent);
+      if (first.alternate && first.alternate.length > 0) this.emitElse(first.alternate);
+      return;
+    }
+    this.writer.line("} else {");
+    this.emitBlock(alternate);
+  }
+
+  private emitFor(loop: ir.ForStatement): void {
+    const counting = matchCountingLoop(loop);
+
+    if (counting) {
+      const start = this.sub(counting.start, PREC.range + 1);
+      const end = this.sub(counting.end, PREC.range + 1);
+      const stepIsOne = counting.step.kind === "Literal" && counting.step.value === 1;
+
+      let range: string;
+      if (!counting.descending && stepIsOne) {
+        range = `${start}${counting.inclusive ? "..." : "..<"}${end}`;
+      } else {
+        const step = this.sub(counting.step, PREC.prefix);
+        const bound = counting.inclusive ? "through" : "to";
+        range = `stride(from: ${this.expr(counting.start).code}, ${bound}: ${this.expr(counting.end).code}, by: ${counting.descending ? "-" : ""}${step})`;
+      }
+
+      this.write(`for ${counting.variable} in ${range} {`);
+      this.emitBlock(loop.body);
+      this.writer.line("}");
+      return;
+    }
+
+    // General loops become `init; while test { body; update }`
+    // A `let` in `init` belongs to the loop alone, so the loop gets a block that ends its scope
+    const scoped = isBlockScopedLoop(loop);
+    if (scoped) {
+      this.write("do {");
+      this.writer.indent();
+    }
+    if (loop.init) {
+      if (loop.init.kind === "VariableDeclaration") {
+        this.emitVariableDeclaration(loop.init);
+      } else {
+        this.write(this.expressionStatement(loop.init));
+      }
+    }
+    if (loop.update) loopContinues(loop).forEach((statement) => this.continueUpdates.set(statement, loop.update!));
+
+    this.write(`while ${loop.test ? this.expr(loop.test).code : "true"} {`);
+    this.writer.block(() => {
+      this.emitStatements(loop.body);
+      if (loop.update) this.write(this.expressionStatement(loop.update));
+    });
+    this.writer.line("}");
+    if (scoped) {
+      this.writer.dedent();
+      this.writer.line("}");
+    }
+  }
+
+  private emitSwitch(statement: ir.SwitchStatement): void {
+    this.write(`switch ${this.expr(statement.discriminant).code} {`);
+
+    // Empty cases fall through, which Swift expresses as a combined case list
+    const branches = switchBranches(statement);
+    for (const branch of branches) {
+      this.writer.line(branch.isDefault ? "default:" : `case ${branch.tests.map((test) => this.expr(test).code).join(", ")}:`);
+      this.writer.block(() => {
+        const before = this.writer.lineCount;
+        this.emitStatements(branch.body);
+        if (branch.fallsThrough) this.writer.line("fallthrough");
+        else if (this.writer.lineCount === before) this.writer.line("break");
+      });
+    }
+
+    // Swift switches must be exhaustive
+    if (!branches.some((branch) => branch.isDefault)) {
+      this.writer.line("default:");
+      this.writer.block(() => this.writer.line("break"));
+    }
+    this.writer.line("}");
+  }
+
+  private emitThrow(statement: ir.ThrowStatement): void {
+    const argument = statement.argument;
+    if (argument.kind === "Literal" || argument.kind === "TemplateLiteral") {
+      this.usesRuntimeError = true;
+      this.write(`throw RuntimeError(${this.expr(argument).code})`);
+      return;
+    }
+    this.write(`throw ${this.expr(argument).code}`);
+  }
+
+  private emitTry(statement: ir.TryStatement): void {
+    this.writer.line("do {");
+    this.writer.block(() => {
+      // `defer` runs when the do block exits, the closest match to `finally`
+      if (statement.finalizer) {
+        this.writer.line("defer {");
+        this.emitBlock(statement.finalizer);
+        this.writer.line("}");
+      }
+      this.emitStatements(statement.block);
+    });
+
+    for (const handler of statement.handlers) {
+      const types = (handler.types ?? []).map((type) => this.sub(type, PREC.casting + 1));
+      if (types.length === 1) {
+        this.writer.line(`} catch let ${handler.param ?? "error"} as ${types[0]} {`);
+      } else if (types.length > 1) {
+        const param = handler.param ?? "error";
+        this.writer.line(`} catch let ${param} where ${types.map((type) => `${param} is ${type}`).join(" || ")} {`);
+      } else {
+        this.writer.line("} catch {");
+      }
+      this.writer.block(() => {
+        if (types.length === 0 && handler.param && handler.param !== "error") {
+          this.writer.line(`let ${handler.param} = error`);
+        }
+        const caught = handler.param ?? "error";
+        const shadowed = this.caughtErrors.has(caught);
+        this.caughtErrors.add(caught);
+        this.emitStatements(handler.body);
+        if (!shadowed) this.caughtErrors.delete(caught);
+      });
+    }
+    this.writer.line("}");
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  private wrap(emitted: Emitted, minPrec: number): string {
+    return emitted.prec < minPrec ? `(${emitted.code})` : emitted.code;
+  }
+
+  private sub(expression: ir.Expression, minPrec: number): string {
+    return this.wrap(this.expr(expression), minPrec);
+  }
+
+  private pattern(pattern: ir.Pattern): string {
+    switch (pattern.kind) {
+      case "Identifier":
+        return pattern.name;
+      case "ArrayPattern":
+        if (pattern.defaults) this.note("array-default", "defaults of missing elements are not supported in this position", pattern, "error");
+        return `(${pattern.elements.map((element) => (element ? this.pattern(element) : "_")).join(", ")})`;
+      case "ObjectPattern":
+        this.note("object-destructuring", "object destructuring is not supported in this position", pattern, "error");
+        return "destructured";
+    }
+  }
+
+  private assignmentTarget(target: ir.Expression | ir.Pattern): string {
+    if (target.kind === "ArrayPattern" || target.kind === "ObjectPattern") {
+      return this.pattern(target);
+    }
+    return this.expr(target).code;
+  }
+
+  private args(args: ir.Expression[]): string {
+    return args.map((arg) => this.expr(arg).code).join(", ");
+  }
+
+  private expr(expression: ir.Expression): Emitted {
+    switch (expression.kind) {
+      case "Identifier": {
+        const idiom = this.idioms.identifier(expression);
+        if (idiom) return this.idiom(idiom, expression);
+        return { code: expression.name, prec: PREC.atom };
+      }
+
+      case "Literal":
+        return { code: this.literal(expression), prec: PREC.atom };
+
+      case "TemplateLiteral": {
+        let body = "";
+        expression.quasis.forEach((quasi, index) => {
+          body += escapeSwiftString(quasi);
+          if (index < expression.expressions.length) body += `\\(${this.expr(expression.expressions[index]).code})`;
+        });
+        return { code: `"${body}"`, prec: PREC.atom };
+      }
+
+      case "ArrayExpression": {
+        const code = `[${expression.elements.map((element) => this.expr(element).code).join(", ")}]`;
+        return this.anyCollection(expression, expression.elements, code);
+      }
+
+      case "ObjectExpression": {
+        if (expression.properties.length === 0) return { code: "[:]", prec: PREC.atom };
+        const entries = expression.properties.map((property) => {
+          if ("kind" in property) {
+            this.note("object-spread", "object spread has no Swift dictionary-literal equivalent", property, "error");
+            return `/* ...${this.expr(property.argument).code} */`;
+          }
+          return `${this.expr(property.key).code}: ${this.expr(property.value).code}`;
+        });
+        const values = expression.properties.map((property) => ("kind" in property ? property : property.value));
+        return this.anyCollection(expression, values, `[${entries.join(", ")}]`);
+      }
+
+      case "BinaryExpression":
+        return this.binary(expression);
+
+      case "LogicalExpression": {
+        const [operator, prec] = expression.operator === "&&"
+          ? ["&&", PREC.conjunction]
+          : expression.operator === "||"
+            ? ["||", PREC.disjunction]
+            : ["??", PREC.nilCoalescing];
+        // `??` is right-associative in Swift
+        const [leftMin, rightMin] = operator === "??" ? [prec + 1, prec] : [prec, prec + 1];
+        return {
+          code: `${this.sub(expression.left, leftMin)} ${operator} ${this.sub(expression.right, rightMin)}`,
+          prec,
+        };
+      }
+
+      case "UnaryExpression":
+        switch (expression.operator) {
+          case "typeof":
+            return { code: `type(of: ${this.expr(expression.argument).code})`, prec: PREC.postfix };
+          case "void":
+          case "delete":
+            this.note("unsupported-operator", `\`${expression.operator}\` has no Swift equivalent`, expression, "error");
+            return { code: this.expr(expression.argument).code, prec: PREC.atom };
+          default:
+            return { code: `${expression.operator}${this.sub(expression.argument, PREC.prefix)}`, prec: PREC.prefix };
+        }
+
+      case "UpdateExpression":
+        this.note("update-expression", "increment/decrement used as a value yields no value in Swift", expression, "error");
+        return {
+          code: `${this.expr(expression.argument).code} ${expression.operator === "++" ? "+=" : "-="} 1`,
+          prec: PREC.assignment,
+        };
+
+      case "AssignmentExpression":
+        this.note("assignment-expression", "assignment used as a value yields no value in Swift", expression, "error");
+        return {
+          code: `${this.assignmentTarget(expression.target)} ${expression.operator} ${this.expr(expression.value).code}`,
+          prec: PREC.assignment,
+        };
+
+      case "CallExpression":
+        return this.call(expression);
+
+      case "NewExpression": {
+        let callee = this.sub(expression.callee, PREC.postfix);
+        if (expression.callee.kind === "Identifier" && ERROR_CLASSES.has(expression.callee.name)) {
+          this.usesRuntimeError = true;
+          callee = "RuntimeError";
+        }
+        return { code: `${callee}(${this.args(expression.arguments)})`, prec: PREC.postfix };
+      }
+
+      case "MemberExpression": {
+        const idiom = this.idioms.member(expression);
+        if (idiom) return this.idiom(idiom, expression);
+        const object = this.sub(expression.object, PREC.postfix);
+        const optional = expression.optional ? "?" : "";
+        if (expression.computed) {
+          return { code: `${object}${optional}[${this.expr(expression.property).code}]`, prec: PREC.postfix };
+        }
+        const name = this.expr(expression.property).code;
+        // Dictionaries have no members for their keys
+        if (this.types.typeOf(expression.object).kind === "dict" && expression.property.kind === "Identifier") {
+          return { code: `${object}${optional}["${escapeSwiftString(expression.property.name)}"]`, prec: PREC.postfix };
+        }
+        if (name === "message" && expression.object.kind === "Identifier" && this.caughtErrors.has(expression.object.name)) {
+          return { code: `${object}.localizedDescription`, prec: PREC.postfix };
+        }
+        return { code: `${object}${optional}.${name}`, prec: PREC.postfix };
+      }
+
+      case "ConditionalExpression":
+        return {
+          code: `${this.sub(expression.test, PREC.ternary + 1)} ? ${this.sub(expression.consequent, PREC.ternary + 1)} : ${this.sub(expression.alternate, PREC.ternary)}`,
+          prec: PREC.ternary,
+        };
+
+      case "FunctionExpression":
+        return { code: this.closure(expression), prec: PREC.atom };
+
+      case "ThisExpression":
+        return { code: "self", prec: PREC.atom };
+
+      case "SuperExpression":
+        return { code: "super", prec: PREC.atom };
+
+      case "SpreadElement":
+        this.note("spread", "spread syntax has no direct Swift equivalent", expression, "error");
+        return { code: this.expr(expression.argument).code, prec: PREC.atom };
+
+      case "AwaitExpression":
+        return { code: `await ${this.sub(expression.argument, PREC.prefix)}`, prec: PREC.prefix };
+
+      case "YieldExpression":
+        this.note("generator", "Swift has no generators; collect the yielded values in a list and return it", expression, "error");
+        return expression.argument ? this.expr(expression.argument) : { code: "nil", prec: PREC.atom };
+
+      case "SequenceExpression":
+        this.note("comma-operator", "the comma operator was split into separate statements", expression);
+        return { code: expression.expressions.map((item) => this.expr(item).code).join("; "), prec: PREC.assignment };
+
+      case "ComprehensionExpression":
+        return this.comprehension(expression);
+
+      case "SliceExpression": {
+        if (expression.step) this.note("slice-step", "slice steps have no Swift range equivalent", expression.step, "error");
+        const start = expression.start ? this.sub(expression.start, PREC.range + 1) : "";
+        const end = expression.end ? this.sub(expression.end, PREC.range + 1) : "";
+        const range = end ? `${start}..<${end}` : `${start}...`;
+        return { code: `Array(${this.sub(expression.object, PREC.postfix)}[${range}])`, prec: PREC.postfix };
+      }
+
+      case "NamedArgument":
+        return { code: `${expression.name}: ${this.expr(expression.value).code}`, prec: PREC.atom };
+
+      case "UnsupportedExpression":
+        this.note("unsupported-expression", `${expression.reason}: ${expression.text}`, expression, "error");
+        return { code: expression.text, prec: PREC.atom };
+    }
+  }
+
+  // Comprehensions become filter/map chains; nested clauses use flatMap
+  private comprehension(expression: ir.ComprehensionExpression): Emitted {
+    const element = expression.key
+      ? `(${this.expr(expression.key).code}, ${this.expr(expression.element).code})`
+      : this.expr(expression.element).code;
+
+    const chain = (index: number): string => {
+      const clause = expression.clauses[index];
+      const target = this.pattern(clause.target);
+      let code = this.sub(clause.iterable, PREC.postfix);
+      for (const condition of clause.conditions) {
+        code += `.filter { ${target} in ${this.expr(condition).code} }`;
+      }
+      if (index === expression.clauses.length - 1) {
+        return `${code}.map { ${target} in ${element} }`;
+      }
+      return `${code}.flatMap { ${target} in ${chain(index + 1)} }`;
+    };
+
+    const code = chain(0);
+    switch (expression.collection) {
+      case "dict":
+        return { code: `Dictionary(uniqueKeysWithValues: ${code})`, prec: PREC.postfix };
+      case "set":
+        return { code: `Set(${code})`, prec: PREC.postfix };
+      default:
+        return { code, prec: PREC.postfix };
+    }
+  }
+
+  private literal(literal: ir.Literal): string {
+    if (literal.value === null) return "nil";
+    if (typeof literal.value === "boolean") return String(literal.value);
+    if (typeof literal.value === "string") return `"${escapeSwiftString(literal.value)}"`;
+
+    const raw = literal.raw;
+    if (raw && /^(0[xob][0-9a-fA-F_]+|[1-9][\d_]*(\.\d[\d_]*)?([eE][+-]?\d+)?|0(\.\d+)?([eE][+-]?\d+)?)$/.test(raw)) {
+      return raw;
+    }
+    return String(literal.value);
+  }
+
+  // Swift infers no type for a literal whose elements differ, e.g. `["a": 1, "b": "x"]`, unless told it holds Any
+  private anyCollection(literal: ir.Expression, elements: ir.Expression[], code: string): Emitted {
+    const types = elements.filter((element) => element.kind !== "SpreadElement").map((element) => this.types.typeOf(element));
+    const type = this.types.typeOf(literal);
+    const contents = type.kind === "dict" ? type.value : type.kind === "array" ? type.element : undefined;
+    if (contents?.kind !== "any" || types.length < 2 || !types.every(isKnown)) return { code, prec: PREC.atom };
+    this.note("any-collection", "The literal mixes element types, so it holds Any; cast its elements when reading them", literal);
+    return { code: `${code} as ${swiftType(type)}`, prec: PREC.casting };
+  }
+
+  private binary(expression: ir.BinaryExpression): Emitted {
+    const left = expression.left;
+    const right = expression.right;
+
+    const idiom = this.idioms.binary(expression);
+    if (idiom) return this.idiom(idiom, expression);
+
+    switch (expression.operator) {
+      case "**":
+        return { code: `pow(${this.expr(left).code}, ${this.expr(right).code})`, prec: PREC.postfix };
+      case "instanceof":
+        return { code: `${this.sub(left, PREC.casting + 1)} is ${this.sub(right, PREC.casting + 1)}`, prec: PREC.casting };
+      case "in":
+        return { code: `${this.sub(right, PREC.postfix)}[${this.expr(left).code}] != nil`, prec: PREC.comparison };
+      case ">>>":
+        this.note("unsigned-shift", "unsigned right shift has no Swift equivalent", right);
+        return { code: `${this.sub(left, PREC.shift)} >> ${this.sub(right, PREC.shift + 1)}`, prec: PREC.shift };
+    }
+
+    const [operator, prec] = BINARY_OPERATORS[expression.operator]!;
+    // Swift comparison operators are non-associative
+    const leftMin = prec === PREC.comparison ? prec + 1 : prec;
+    return {
+      code: `${this.operand(expression, left, right, leftMin)} ${operator} ${this.operand(expression, right, left, prec + 1)}`,
+      prec,
+    };
+  }
+
+  // Swift never converts Int to Double implicitly, so Int operands beside a Double, and
+  // both operands of a true division, are converted by hand
+  private operand(expression: ir.BinaryExpression, operand: ir.Expression, other: ir.Expression, minPrec: number): string {
+    const type = this.types.typeOf(operand).kind;
+    const otherType = this.types.typeOf(other).kind;
+    const trueDivision = expression.operator === "/" && otherType === "int";
+    if (type !== "int" || !(otherType === "double" || trueDivision) || ["&", "|", "^", "<<", ">>"].includes(expression.operator)) {
+      return this.sub(operand, minPrec);
+    }
+    // Integer literals take the type of the other operand by themselves
+    if (operand.kind === "Literal" && otherType === "double") return this.sub(operand, minPrec);
+    if (operand.kind === "Literal" && /^\d+$/.test(this.literal(operand))) return `${this.literal(operand)}.0`;
+    return `Double(${this.expr(operand).code})`;
+  }
+
+  private call(call: ir.CallExpression): Emitted {
+    const { callee } = call;
+
+    if (callee.kind === "SuperExpression") {
+      return { code: `super.init(${this.args(call.arguments)})`, prec: PREC.postfix };
+    }
+
+    const idiom = this.idioms.call(call);
+    if (idiom) return this.idiom(idiom, call);
+
+    const optional = call.optional ? "?" : "";
+    return { code: `${this.sub(callee, PREC.postfix)}${optional}(${this.args(call.arguments)})`, prec: PREC.postfix };
+  }
+
+  // Library construct printed through the idiom table of the language pair
+  private idiom(match: IdiomMatch, node: ir.Expression): Emitted {
+    for (const line of match.imports) this.imports.add(line);
+    this.noteIdiom(match, node);
+
+    const { code, loose } = renderIdiom(match, (expression, slot) =>
+      slot === "loose" ? this.expr(expression).code : this.sub(expression, PREC.postfix)
+    );
+    return { code, prec: loose ? PREC.assignment : PREC.postfix };
+  }
+
+  private closure(fn: ir.FunctionExpression): string {
+    for (const param of fn.params) {
+      if (param.defaultValue) this.note("closure-default", `Swift closures have no default parameter values; pass ${param.name} at every call`, param);
+    }
+    const params = fn.params.map((param) => `${param.name}: ${swiftType(this.types.parameter(param))}`).join(", ");
+    const returns = this.types.returns(fn);
+    const head = `(${params})${returns.kind === "void" ? "" : ` -> ${swiftType(returns)}`}`;
+
+    if (fn.expressionBody) {
+      return `{ ${head} in ${this.expr(fn.expressionBody).code} }`;
+    }
+
+    // Multi-statement closures are printed with a nested emitter and re-indented by the caller
+    const nested = new SwiftEmitter(this.options);
+    nested.idioms = this.idioms;
+    nested.imports = this.imports;
+    nested.types = this.types;
+    nested.takenNames = this.takenNames;
+    nested.mutated = this.mutated;
+    nested.caughtErrors = this.caughtErrors;
+    nested.writer.indent();
+    nested.statement = this.statement;
+    nested.emitStatements(fn.body);
+    nested.flushNotes();
+    // The body's notes are reported against the statement that contains the closure
+    this.notes.push(...nested.diagnostics.notes());
+    this.usesRuntimeError ||= nested.usesRuntimeError;
+    return `{ ${head} in\n${nested.writer.toString()}\n}`;
+  }
+}
+
+// Names of variables whose value is changed in place: by a mutating method, or by assigning
+// to or deleting one of its elements or members
+function mutatedNames(module: ir.Module): Set<string> {
+  const names = new Set<string>();
+  const mark = (expression: ir.Expression) => {
+    let root = expression;
+    while (root.kind === "MemberExpression") root = root.object;
+    if (root.kind === "Identifier") names.add(root.name);
+  };
+  walk(module, (node) => {
+    switch (node.kind) {
+      case "CallExpression": {
+        const { callee } = node;
+        if (callee.kind === "MemberExpression" && !callee.computed && callee.property.kind === "Identifier" && MUTATING_METHODS.has(callee.property.name)) {
+          mark(callee.object);
+        }
+        break;
+      }
+      case "AssignmentExpression":
+        if (node.target.kind === "MemberExpression") mark(node.target.object);
+        break;
+      case "UpdateExpression":
+        if (node.argument.kind === "MemberExpression") mark(node.argument.object);
+        break;
+      case "UnaryExpression":
+        if (node.operator === "delete" && node.argument.kind === "MemberExpression") mark(node.argument.object);
+        break;
+    }
+  });
+  return names;
+}
+
+function swiftType(type: Type): string {
+  switch (type.kind) {
+    case "int":
+      return "Int";
+    case "double":
+      return "Double";
+    case "string":
+      return "String";
+    case "bool":
+      return "Bool";
+    case "array":
+      return `[${swiftType(type.element)}]`;
+    case "dict":
+      return `[${swiftType(type.key)}: ${swiftType(type.value)}]`;
+    case "optional":
+      return `${swiftType(type.wrapped)}?`;
+    case "class":
+      return type.name;
+    case "void":
+      return "Void";
+    case "none":
+      return "Any?";
+    case "any":
+      return "Any";
+  }
+}
+
+// Type of a variable that may still hold nil
+function optionalOf(type: Type | undefined): Type {
+  if (!type || type.kind === "any" || type.kind === "none") return { kind: "optional", wrapped: { kind: "any" } };
+  return type.kind === "optional" ? type : { kind: "optional", wrapped: type };
+}
+
+function escapeSwiftString(text: string): string {
+  return text.replace(/[\\"\n\r\t\0]|[\u0001-\u001f]/g, (char) => {
+    switch (char) {
+      case "\\": return "\\\\";
+      case '"': return '\\"';
+      case "\n": return "\\n";
+      case "\r": return "\\r";
+      case "\t": return "\\t";
+      case "\0": return "\\0";
+      default: return `\\u{${char.charCodeAt(0).toString(16)}}`;
+    }
+  });
+}
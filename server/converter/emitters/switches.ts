@@ -0,0 +1,48 @@
+import type * as ir from "../ir";
+
+/** Cases of a switch that share one body: an empty case runs the next case's. */
+export interface SwitchBranch {
+  tests: ir.Expression[];
+  isDefault: boolean;
+  // Without the `break` that ends it
+  body: ir.Statement[];
+  // True when the body runs on into the next branch's, as a case without `break` does
+  fallsThrough: boolean;
+}
+
+// Statements after which a case does not run on into the next one
+const JUMPS = new Set<ir.Statement["kind"]>(["BreakStatement", "ReturnStatement", "ThrowStatement", "ContinueStatement"]);
+
+export function switchBranches(statement: ir.SwitchStatement): SwitchBranch[] {
+  const branches: SwitchBranch[] = [];
+  let tests: ir.Expression[] = [];
+  let isDefault = false;
+
+  for (const switchCase of statement.cases) {
+    if (switchCase.test) tests.push(switchCase.test);
+    else isDefault = true;
+    if (switchCase.body.length === 0) continue;
+
+    const last = switchCase.body[switchCase.body.length - 1];
+    const body = last.kind === "BreakStatement" ? switchCase.body.slice(0, -1) : switchCase.body;
+    branches.push({ tests, isDefault, body, fallsThrough: !JUMPS.has(last.kind) });
+    tests = [];
+    isDefault = false;
+  }
+
+  // The last branch has nothing to fall into
+  if (branches.length > 0) branches[branches.length - 1].fallsThrough = false;
+  return branches;
+}
+
+/**
+ * For targets without fallthrough: each branch that falls through gets the
+ * bodies of the branches it runs on into appended to its own.
+ */
+export function inlineFallthrough(branches: SwitchBranch[]): SwitchBranch[] {
+  return branches.map((branch, index) => {
+    const body = [...branch.body];
+    for (let next = index; branches[next].fallsThrough; next++) body.push(...branches[next + 1].body);
+    return { ...branch, body, fallsThrough: false };
+  });
+}
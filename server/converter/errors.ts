@@ -0,0 +1,44 @@
+import type { Position } from "./ir";
+
+/**
+ * Thrown when a parser cannot read the submitted source code.
+ * The route layer reports it to the client as a 422.
+ */
+export class SourceParseError extends Error {
+  constructor(
+    message: string,
+    public readonly language: string,
+    public readonly position?: Position
+  ) {
+    super(message);
+    this.name = "SourceParseError";
+  }
+}
+
+/**
+ * Thrown when no converter is registered for the requested language pair.
+ * The route layer reports it to the client as a 422.
+ */
+export class UnsupportedLanguagePairError extends Error {
+  constructor(
+    public readonly sourceLanguage: string,
+    public readonly targetLanguage: string
+  ) {
+    super(`Conversion from ${sourceLanguage} to ${targetLanguage} is not supported`);
+    this.name = "UnsupportedLanguagePairError";
+  }
+}
+
+/**
+ * Thrown when a conversion option cannot be honoured for the target language.
+ * The route layer reports it to the client as a 422.
+ */
+export class UnsupportedOptionError extends Error {
+  constructor(
+    public readonly option: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "UnsupportedOptionError";
+  }
+}
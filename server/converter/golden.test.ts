@@ -0,0 +1,45 @@
+import { readdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { converterRegistry } from "./converters";
+
+/**
+ * Golden tests: golden/<source>/<case>.<ext> is converted to every language
+ * that has a <case>.<ext> beside it, which holds the expected output. Run
+ * with UPDATE_GOLDEN=1 to rewrite the expected files from the converter.
+ */
+const GOLDEN = path.join(path.dirname(fileURLToPath(import.meta.url)), "golden");
+
+const EXTENSIONS: Record<string, string> = {
+  javascript: ".js",
+  python: ".py",
+  swift: ".swift",
+  kotlin: ".kt",
+  go: ".go",
+};
+
+const LANGUAGES = new Map(Object.entries(EXTENSIONS).map(([language, extension]) => [extension, language]));
+
+for (const source of readdirSync(GOLDEN)) {
+  const directory = path.join(GOLDEN, source);
+  const files = readdirSync(directory);
+
+  describe(`${source} to`, () => {
+    for (const input of files.filter((file) => path.extname(file) === EXTENSIONS[source])) {
+      const name = path.basename(input, EXTENSIONS[source]);
+      const expected = files.filter((file) => file !== input && path.basename(file, path.extname(file)) === name);
+
+      for (const file of expected) {
+        const target = LANGUAGES.get(path.extname(file))!;
+        it(`${target}: ${name}`, () => {
+          const code = readFileSync(path.join(directory, input), "utf8");
+          const { code: output } = converterRegistry.get(source, target)!.convert(code);
+          if (process.env.UPDATE_GOLDEN) writeFileSync(path.join(directory, file), `${output}\n`);
+          else assert.equal(`${output}\n`, readFileSync(path.join(directory, file), "utf8"));
+        });
+      }
+    }
+  });
+}
@@ -0,0 +1,5 @@
+const names = ["ada", "grace", "linus"];
+names.forEach((name, i) => console.log(i, name));
+const numbered = names.map((name, i) => `${i + 1}. ${name}`);
+const even = names.filter((name, i) => i % 2 === 0);
+console.log(numbered, even);
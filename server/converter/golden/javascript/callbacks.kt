@@ -0,0 +1,7 @@
+fun main() {
+    val names = mutableListOf("ada", "grace", "linus")
+    names.forEachIndexed { index, item -> { name: String, i: Int -> println(listOf(i, name).joinToString(" ")) }(item, index) }
+    val numbered = names.mapIndexed { index, item -> { name: String, i: Int -> "${i + 1}. ${name}" }(item, index) }
+    val even = names.filterIndexed { index, item -> { name: String, i: Int -> i % 2 == 0 }(item, index) }
+    println(listOf(numbered, even).joinToString(" "))
+}
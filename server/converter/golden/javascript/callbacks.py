@@ -0,0 +1,5 @@
+names = ["ada", "grace", "linus"]
+[(lambda name, i: print(i, name))(item, index) for index, item in enumerate(names)]
+numbered = [(lambda name, i: f"{i + 1}. {name}")(item, index) for index, item in enumerate(names)]
+even = [item for index, item in enumerate(names) if (lambda name, i: i % 2 == 0)(item, index)]
+print(numbered, even)
@@ -0,0 +1,5 @@
+let names = ["ada", "grace", "linus"]
+names.enumerated().forEach { { (name: String, i: Int) -> Any in print(i, name) }($0.element, $0.offset) }
+let numbered = names.enumerated().map { { (name: String, i: Int) -> String in "\(i + 1). \(name)" }($0.element, $0.offset) }
+let even = names.enumerated().filter { { (name: String, i: Int) -> Bool in i % 2 == 0 }($0.element, $0.offset) }.map { $0.element }
+print(numbered, even)
@@ -0,0 +1,6 @@
+function describe({ name, age }, [first, second]) {
+  return `${name} (${age}): ${first}, ${second}`;
+}
+
+const { id, ...rest } = { id: 1, kind: "user", active: true };
+console.log(describe({ name: "Ada", age: 36 }, [1, 2]), id, rest);
@@ -0,0 +1,13 @@
+fun describe(param1: MutableMap<String, Any?>, param2: MutableList<Int>): String {
+    var name = param1["name"]
+    var age = param1["age"]
+    var (first, second) = param2
+    return "${name} (${age}): ${first}, ${second}"
+}
+
+fun main() {
+    val destructured = mutableMapOf("id" to 1, "kind" to "user", "active" to true)
+    val id = destructured["id"]
+    val rest = destructured.filterKeys { it !in setOf("id") }
+    println(listOf(describe(mutableMapOf("name" to "Ada", "age" to 36), mutableListOf(1, 2)), id, rest).joinToString(" "))
+}
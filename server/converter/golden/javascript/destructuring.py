@@ -0,0 +1,10 @@
+def describe(param1: dict, param2: list[int]) -> str:
+    name = param1["name"]
+    age = param1["age"]
+    first, second = param2
+    return f"{name} ({age}): {first}, {second}"
+
+_destructured = {"id": 1, "kind": "user", "active": True}
+id = _destructured["id"]
+rest = {key: value for key, value in _destructured.items() if key not in ("id",)}
+print(describe({"name": "Ada", "age": 36}, [1, 2]), id, rest)
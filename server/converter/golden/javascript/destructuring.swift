@@ -0,0 +1,12 @@
+func describe(_ param1: [String: Any], _ param2: [Int]) -> String {
+  var name = param1["name"]
+  var age = param1["age"]
+  var first = param2[0]
+  var second = param2[1]
+  return "\(name) (\(age)): \(first), \(second)"
+}
+
+let destructured = (["id": 1, "kind": "user", "active": true] as [String: Any])
+let id = destructured["id"]
+let rest = destructured.filter { !["id"].contains($0.key) }
+print(describe(["name": "Ada", "age": 36] as [String: Any], [1, 2]), id, rest)
@@ -0,0 +1,6 @@
+function pair(values) {
+  const [first, second = 0] = values;
+  return first + second;
+}
+
+console.log(pair([3]), pair([3, 4]));
@@ -0,0 +1,9 @@
+fun pair(values: MutableList<Int>): Int {
+    val first = values[0]
+    val second = values.getOrElse(1) { 0 }
+    return first + second
+}
+
+fun main() {
+    println(listOf(pair(mutableListOf(3)), pair(mutableListOf(3, 4))).joinToString(" "))
+}
@@ -0,0 +1,7 @@
+func pair(_ values: [Int]) -> Int {
+  let first = values[0]
+  let second = values.count > 1 ? values[1] : 0
+  return first + second
+}
+
+print(pair([3]), pair([3, 4]))
@@ -0,0 +1,18 @@
+class Shape {
+  constructor(name) {
+    this.name = name;
+  }
+}
+
+class Square extends Shape {
+  constructor(side) {
+    super("square");
+    this.side = side;
+  }
+
+  area() {
+    return this.side * this.side;
+  }
+}
+
+console.log(new Square(3).area());
@@ -0,0 +1,23 @@
+open class Shape {
+    var name: Any?
+
+    constructor(name: Any?) {
+        this.name = name
+    }
+}
+
+open class Square : Shape {
+    var side: Int
+
+    constructor(side: Int) : super("square") {
+        this.side = side
+    }
+
+    open fun area(): Int {
+        return this.side * this.side
+    }
+}
+
+fun main() {
+    println(Square(3).area())
+}
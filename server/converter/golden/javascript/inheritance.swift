@@ -0,0 +1,22 @@
+class Shape {
+  var name: Any
+
+  init(_ name: Any) {
+    self.name = name
+  }
+}
+
+class Square: Shape {
+  var side: Int
+
+  init(_ side: Int) {
+    self.side = side
+    super.init("square")
+  }
+
+  func area() -> Int {
+    return self.side * self.side
+  }
+}
+
+print(Square(3).area())
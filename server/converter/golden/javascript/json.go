@@ -0,0 +1,12 @@
+package main
+
+import "encoding/json"
+import "fmt"
+
+func main() {
+	settings := map[string]any{"theme": "dark", "size": 12}
+	text := func(value any) string { text, _ := json.Marshal(value); return string(text) }(settings)
+	pretty := func(value any) string { text, _ := json.MarshalIndent(value, "", "  "); return string(text) }(settings)
+	restored := func(text string) any { var value any; json.Unmarshal([]byte(text), &value); return value }(text)
+	fmt.Println(text, pretty, restored)
+}
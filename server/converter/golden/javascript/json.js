@@ -0,0 +1,5 @@
+const settings = { theme: "dark", size: 12 };
+const text = JSON.stringify(settings);
+const pretty = JSON.stringify(settings, null, 2);
+const restored = JSON.parse(text);
+console.log(text, pretty, restored);
@@ -0,0 +1,19 @@
+package main
+
+import "fmt"
+
+func main() {
+	seen := []int{}
+	for i := 1; i < 100; i *= 2 {
+		if i == 4 {
+			continue
+		}
+		for _, step := range []int{1, 2} {
+			if step == 1 {
+				continue
+			}
+			seen = append(seen, i * step)
+		}
+	}
+	fmt.Println(seen)
+}
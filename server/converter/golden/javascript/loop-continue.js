@@ -0,0 +1,9 @@
+const seen = [];
+for (let i = 1; i < 100; i *= 2) {
+  if (i === 4) continue;
+  for (const step of [1, 2]) {
+    if (step === 1) continue;
+    seen.push(i * step);
+  }
+}
+console.log(seen);
@@ -0,0 +1,20 @@
+fun main() {
+    val seen: MutableList<Int> = mutableListOf()
+    run {
+        var i = 1
+        while (i < 100) {
+            if (i == 4) {
+                i *= 2
+                continue
+            }
+            for (step in mutableListOf(1, 2)) {
+                if (step == 1) {
+                    continue
+                }
+                seen.add(i * step)
+            }
+            i *= 2
+        }
+    }
+    println(seen)
+}
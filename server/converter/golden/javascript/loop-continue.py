@@ -0,0 +1,12 @@
+seen = []
+i = 1
+while i < 100:
+    if i == 4:
+        i *= 2
+        continue
+    for step in [1, 2]:
+        if step == 1:
+            continue
+        seen.append(i * step)
+    i *= 2
+print(seen)
@@ -0,0 +1,18 @@
+package main
+
+import "fmt"
+
+func powers(values []int) int {
+	i := len(values)
+	for i := 1; i < 10; i *= 3 {
+		fmt.Println(i)
+	}
+	for i := 2; i < 10; i *= 2 {
+		fmt.Println(i)
+	}
+	return i
+}
+
+func main() {
+	fmt.Println(powers([]int{1, 2}))
+}
@@ -0,0 +1,12 @@
+function powers(values) {
+  let i = values.length;
+  for (let i = 1; i < 10; i *= 3) {
+    console.log(i);
+  }
+  for (let i = 2; i < 10; i *= 2) {
+    console.log(i);
+  }
+  return i;
+}
+
+console.log(powers([1, 2]));
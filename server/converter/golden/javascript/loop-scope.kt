@@ -0,0 +1,22 @@
+fun powers(values: MutableList<Int>): Int {
+    var i = values.size
+    run {
+        var i = 1
+        while (i < 10) {
+            println(i)
+            i *= 3
+        }
+    }
+    run {
+        var i = 2
+        while (i < 10) {
+            println(i)
+            i *= 2
+        }
+    }
+    return i
+}
+
+fun main() {
+    println(powers(mutableListOf(1, 2)))
+}
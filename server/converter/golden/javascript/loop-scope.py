@@ -0,0 +1,13 @@
+def powers(values: list[int]) -> int:
+    i = len(values)
+    i2 = 1
+    while i2 < 10:
+        print(i2)
+        i2 *= 3
+    i3 = 2
+    while i3 < 10:
+        print(i3)
+        i3 *= 2
+    return i
+
+print(powers([1, 2]))
@@ -0,0 +1,20 @@
+func powers(_ values: [Int]) -> Int {
+  var i = values.count
+  do {
+    var i = 1
+    while i < 10 {
+      print(i)
+      i *= 3
+    }
+  }
+  do {
+    var i = 2
+    while i < 10 {
+      print(i)
+      i *= 2
+    }
+  }
+  return i
+}
+
+print(powers([1, 2]))
@@ -0,0 +1,3 @@
+const config = { name: "app", retries: 3 };
+const label = config.name + "-" + config.retries;
+console.log(label);
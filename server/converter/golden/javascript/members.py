@@ -0,0 +1,3 @@
+config = {"name": "app", "retries": 3}
+label = str(config["name"]) + "-" + str(config["retries"])
+print(label)
@@ -0,0 +1,12 @@
+package main
+
+import "fmt"
+
+func main() {
+	items := []int{}
+	items = append(items, 1)
+	counts := map[string]any{}
+	counts["a"] = 1
+	fixed := []int{1, 2}
+	fmt.Println(items, counts, fixed)
+}
@@ -0,0 +1,6 @@
+const items = [];
+items.push(1);
+const counts = {};
+counts["a"] = 1;
+const fixed = [1, 2];
+console.log(items, counts, fixed);
@@ -0,0 +1,8 @@
+fun main() {
+    val items: MutableList<Int> = mutableListOf()
+    items.add(1)
+    val counts: MutableMap<String, Any?> = mutableMapOf()
+    counts["a"] = 1
+    val fixed = mutableListOf(1, 2)
+    println(listOf(items, counts, fixed).joinToString(" "))
+}
@@ -0,0 +1,6 @@
+items = []
+items.append(1)
+counts = {}
+counts["a"] = 1
+fixed = [1, 2]
+print(items, counts, fixed)
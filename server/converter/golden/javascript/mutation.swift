@@ -0,0 +1,6 @@
+var items: [Int] = []
+items.append(1)
+var counts: [String: Any] = [:]
+counts["a"] = 1
+let fixed = [1, 2]
+print(items, counts, fixed)
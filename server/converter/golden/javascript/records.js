@@ -0,0 +1,14 @@
+const point = { x: 1, y: 2 };
+const label = "origin";
+const values = [3, 1, 2];
+console.log(point.x, label.length, values.length);
+
+const large = values.map((n) => n * 10).filter((n) => n > 10);
+const scale = (n, factor = 2) => n * factor;
+console.log(large, scale(4, 3));
+
+try {
+  throw new Error("unreadable point");
+} catch (e) {
+  console.log(e.message);
+}
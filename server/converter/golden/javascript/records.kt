@@ -0,0 +1,16 @@
+fun main() {
+    val point = mutableMapOf("x" to 1, "y" to 2)
+    val label = "origin"
+    val values = mutableListOf(3, 1, 2)
+    println(listOf(point["x"], label.length, values.size).joinToString(" "))
+
+    val large = values.map({ n: Int -> n * 10 }).filter({ n: Int -> n > 10 })
+    val scale = { n: Int, factor: Int -> n * factor }
+    println(listOf(large, scale(4, 3)).joinToString(" "))
+
+    try {
+        throw Exception("unreadable point")
+    } catch (e: Exception) {
+        println(e.message)
+    }
+}
@@ -0,0 +1,23 @@
+import Foundation
+
+let point = ["x": 1, "y": 2]
+let label = "origin"
+let values = [3, 1, 2]
+print(point["x"], label.count, values.count)
+
+let large = values.map({ (n: Int) -> Int in n * 10 }).filter({ (n: Int) -> Bool in n > 10 })
+let scale = { (n: Int, factor: Int) -> Int in n * factor }
+print(large, scale(4, 3))
+
+do {
+  throw RuntimeError("unreadable point")
+} catch {
+  let e = error
+  print(e.localizedDescription)
+}
+
+struct RuntimeError: LocalizedError {
+  let message: String
+  var errorDescription: String? { message }
+  init(_ message: String) { self.message = message }
+}
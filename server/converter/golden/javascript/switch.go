@@ -0,0 +1,17 @@
+package main
+
+func describe(code int) []string {
+	notes := []string{}
+	switch code % 100 {
+	case 0, 1:
+		notes = append(notes, "new")
+		fallthrough
+	case 2:
+		notes = append(notes, "open")
+	case 3:
+		return []string{"closed"}
+	default:
+		notes = append(notes, "unknown")
+	}
+	return notes
+}
@@ -0,0 +1,16 @@
+function describe(code) {
+  const notes = [];
+  switch (code % 100) {
+    case 0:
+    case 1:
+      notes.push("new");
+    case 2:
+      notes.push("open");
+      break;
+    case 3:
+      return ["closed"];
+    default:
+      notes.push("unknown");
+  }
+  return notes;
+}
@@ -0,0 +1,20 @@
+fun describe(code: Int): MutableList<String> {
+    val notes: MutableList<String> = mutableListOf()
+    when (code % 100) {
+        0, 1 -> {
+            notes.add("new")
+
+            notes.add("open")
+        }
+        2 -> {
+            notes.add("open")
+        }
+        3 -> {
+            return mutableListOf("closed")
+        }
+        else -> {
+            notes.add("unknown")
+        }
+    }
+    return notes
+}
@@ -0,0 +1,14 @@
+def describe(code: int) -> list[str]:
+    notes = []
+    _subject = code % 100
+    if _subject in (0, 1):
+        notes.append("new")
+
+        notes.append("open")
+    elif _subject == 2:
+        notes.append("open")
+    elif _subject == 3:
+        return ["closed"]
+    else:
+        notes.append("unknown")
+    return notes
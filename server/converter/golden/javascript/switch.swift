@@ -0,0 +1,15 @@
+func describe(_ code: Int) -> [String] {
+  var notes: [String] = []
+  switch code % 100 {
+  case 0, 1:
+    notes.append("new")
+    fallthrough
+  case 2:
+    notes.append("open")
+  case 3:
+    return ["closed"]
+  default:
+    notes.append("unknown")
+  }
+  return notes
+}
@@ -0,0 +1,6 @@
+function describe(...args) {
+  const kwargs = Object.prototype.toString.call(args[args.length - 1]) === "[object Object]" ? args.pop() : {};
+  return `${args.length} positional, ${Object.keys(kwargs).length} keyword`;
+}
+
+console.log(describe(1, 2, { sep: "-" }));
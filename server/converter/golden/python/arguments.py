@@ -0,0 +1,5 @@
+def describe(*args, **kwargs):
+    return f"{len(args)} positional, {len(kwargs)} keyword"
+
+
+print(describe(1, 2, sep="-"))
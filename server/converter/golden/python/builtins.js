@@ -0,0 +1,19 @@
+const ages = { ada: 36, alan: 41 };
+const names = ["ada", "alan"];
+console.log(Object.keys(ages).length, names.length);
+const pairs = Array.from("ab", (item, i) => [item, names[i]]);
+const line = "-".repeat(3);
+const zeros = Array.from({ length: 3 }, () => [0]).flat();
+console.log(Math.min(3, 4), Math.max(...[5, 6]), Math.min(1, 2, 3));
+if (typeof ages === "object" && ages !== null && !Array.isArray(ages) && (typeof line === "string" || Number.isInteger(line))) {
+  console.log("typed");
+}
+
+function first(items) {
+  if (items.length === 0) {
+    return null;
+  }
+  return items[0];
+}
+
+console.log((-7 % 3 + 3) % 3, 7 % 3 === 0, first(names));
@@ -0,0 +1,18 @@
+ages = {"ada": 36, "alan": 41}
+names = ["ada", "alan"]
+print(len(ages), len(names))
+pairs = zip("ab", names)
+line = "-" * 3
+zeros = [0] * 3
+print(min(3, 4), max([5, 6]), min(1, 2, 3))
+if isinstance(ages, dict) and isinstance(line, (str, int)):
+    print("typed")
+
+
+def first(items):
+    if not items:
+        return None
+    return items[0]
+
+
+print(-7 % 3, 7 % 3 == 0, first(names))
@@ -0,0 +1,21 @@
+class Account {
+  constructor(owner, balance = 0) {
+    this.owner = owner;
+    this.balance = balance;
+  }
+
+  withdraw(amount) {
+    if (amount > this.balance) {
+      throw new Error("insufficient funds");
+    }
+    this.balance -= amount;
+    return this.balance;
+  }
+}
+
+const account = new Account("ada", 10);
+try {
+  account.withdraw(20);
+} catch (error) {
+  console.log(`refused: ${error}`);
+}
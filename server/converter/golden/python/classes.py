@@ -0,0 +1,17 @@
+class Account:
+    def __init__(self, owner, balance=0):
+        self.owner = owner
+        self.balance = balance
+
+    def withdraw(self, amount):
+        if amount > self.balance:
+            raise ValueError("insufficient funds")
+        self.balance -= amount
+        return self.balance
+
+
+account = Account("ada", 10)
+try:
+    account.withdraw(20)
+except ValueError as error:
+    print(f"refused: {error}")
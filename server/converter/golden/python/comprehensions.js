@@ -0,0 +1,4 @@
+const numbers = [1, 2, 3, 4];
+const squares = numbers.map((n) => n * n);
+const evens = numbers.filter((n) => n % 2 === 0);
+console.log(`${squares.length} squares, first even ${evens[0]}`);
@@ -0,0 +1,4 @@
+numbers = [1, 2, 3, 4]
+squares = [n * n for n in numbers]
+evens = [n for n in numbers if n % 2 == 0]
+print(f"{len(squares)} squares, first even {evens[0]}")
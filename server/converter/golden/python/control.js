@@ -0,0 +1,15 @@
+function classify(n) {
+  if (n < 0) {
+    return "negative";
+  } else if (n === 0) {
+    return "zero";
+  } else {
+    return "positive";
+  }
+}
+
+let count = 3;
+while (count > 0) {
+  console.log(classify(count));
+  count -= 1;
+}
@@ -0,0 +1,13 @@
+def classify(n):
+    if n < 0:
+        return "negative"
+    elif n == 0:
+        return "zero"
+    else:
+        return "positive"
+
+
+count = 3
+while count > 0:
+    print(classify(count))
+    count -= 1
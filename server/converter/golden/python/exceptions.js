@@ -0,0 +1,23 @@
+function lookup(table, key) {
+  let value;
+  try {
+    let succeeded = false;
+    try {
+      value = table[key];
+      succeeded = true;
+    } catch (error) {
+      if (error instanceof TypeError) {
+        console.log(`missing: ${error}`);
+        return null;
+      } else {
+        return "bad";
+      }
+    }
+    if (succeeded) {
+      console.log("found");
+    }
+  } finally {
+    console.log("done");
+  }
+  return value;
+}
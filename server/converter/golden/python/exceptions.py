@@ -0,0 +1,13 @@
+def lookup(table, key):
+    try:
+        value = table[key]
+    except ValueError:
+        return "bad"
+    except (KeyError, TypeError) as error:
+        print(f"missing: {error}")
+        return None
+    else:
+        print("found")
+    finally:
+        print("done")
+    return value
@@ -0,0 +1,24 @@
+function* countdown(n) {
+  while (n > 0) {
+    yield n;
+    n -= 1;
+  }
+}
+
+class Deck {
+  constructor(cards) {
+    this.cards = cards;
+  }
+
+  toString() {
+    return `Deck of ${this.cards.length}`;
+  }
+
+  *deal() {
+    yield* this.cards;
+  }
+}
+
+for (const number of countdown(3)) {
+  console.log(number);
+}
@@ -0,0 +1,19 @@
+def countdown(n):
+    while n > 0:
+        yield n
+        n -= 1
+
+
+class Deck:
+    def __init__(self, cards):
+        self.cards = cards
+
+    def __str__(self):
+        return f"Deck of {len(self.cards)}"
+
+    def deal(self):
+        yield from self.cards
+
+
+for number in countdown(3):
+    print(number)
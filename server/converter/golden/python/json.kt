@@ -0,0 +1,9 @@
+import kotlinx.serialization.encodeToString
+import kotlinx.serialization.json.Json
+
+fun main() {
+    val settings = mutableMapOf("theme" to "dark", "size" to 12)
+    val text = Json.encodeToString(settings)
+    val restored = Json.parseToJsonElement(text)
+    println(listOf(text, restored).joinToString(" "))
+}
@@ -0,0 +1,6 @@
+import json
+
+settings = {"theme": "dark", "size": 12}
+text = json.dumps(settings)
+restored = json.loads(text)
+print(text, restored)
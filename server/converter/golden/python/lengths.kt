@@ -0,0 +1,5 @@
+fun main() {
+    val word = "hello"
+    val words = mutableListOf("a", "b")
+    println(listOf(word.length, words.size).joinToString(" "))
+}
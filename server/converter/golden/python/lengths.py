@@ -0,0 +1,3 @@
+word = "hello"
+words = ["a", "b"]
+print(len(word), len(words))
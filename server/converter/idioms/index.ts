@@ -0,0 +1,31 @@
+import { javascriptToGo } from "./javascript-go";
+import { javascriptToKotlin } from "./javascript-kotlin";
+import { javascriptToPython } from "./javascript-python";
+import { javascriptToSwift } from "./javascript-swift";
+import { pythonToGo } from "./python-go";
+import { pythonToJavaScript } from "./python-javascript";
+import { pythonToKotlin } from "./python-kotlin";
+import { pythonToSwift } from "./python-swift";
+import type { IdiomTable } from "./types";
+
+export { IdiomMapper, renderIdiom, type IdiomMatch } from "./mapper";
+export type { IdiomEntry, IdiomRule, IdiomTable } from "./types";
+
+// Keyed by "source->target"
+const TABLES: Record<string, IdiomTable> = {
+  "javascript->go": javascriptToGo,
+  "javascript->kotlin": javascriptToKotlin,
+  "javascript->python": javascriptToPython,
+  "javascript->swift": javascriptToSwift,
+  "python->go": pythonToGo,
+  "python->javascript": pythonToJavaScript,
+  "python->kotlin": pythonToKotlin,
+  "python->swift": pythonToSwift,
+};
+
+const EMPTY_TABLE: IdiomTable = { functions: {}, globals: {}, methods: {}, properties: {}, operators: {} };
+
+/** Library mappings for a language pair; pairs without a table map nothing. */
+export function idiomTable(source: string, target: string): IdiomTable {
+  return TABLES[`${source}->${target}`] ?? EMPTY_TABLE;
+}
@@ -0,0 +1,85 @@
+import type { IdiomTable } from "./types";
+
+const FMT = ['import "fmt"'];
+const MATH = ['import "math"'];
+const STRINGS = ['import "strings"'];
+const SLICES = ['import "slices"'];
+const JSON = ['import "encoding/json"'];
+
+export const javascriptToGo: IdiomTable = {
+  functions: {
+    "console.log": { template: "fmt.Println(${args})", imports: FMT },
+    "console.info": { template: "fmt.Println(${args})", imports: FMT },
+    "console.debug": { template: "fmt.Println(${args})", imports: FMT },
+    "console.warn": { template: "fmt.Fprintln(os.Stderr, ${args})", imports: [...FMT, 'import "os"'] },
+    "console.error": { template: "fmt.Fprintln(os.Stderr, ${args})", imports: [...FMT, 'import "os"'] },
+    "Math.floor": { template: "math.Floor(${0})", imports: MATH },
+    "Math.ceil": { template: "math.Ceil(${0})", imports: MATH },
+    "Math.trunc": { template: "math.Trunc(${0})", imports: MATH },
+    "Math.round": { template: "math.Round(${0})", imports: MATH, note: "math.Round rounds halves away from zero" },
+    "Math.sqrt": { template: "math.Sqrt(${0})", imports: MATH },
+    "Math.log": { template: "math.Log(${0})", imports: MATH },
+    "Math.log2": { template: "math.Log2(${0})", imports: MATH },
+    "Math.log10": { template: "math.Log10(${0})", imports: MATH },
+    "Math.exp": { template: "math.Exp(${0})", imports: MATH },
+    "Math.sin": { template: "math.Sin(${0})", imports: MATH },
+    "Math.cos": { template: "math.Cos(${0})", imports: MATH },
+    "Math.tan": { template: "math.Tan(${0})", imports: MATH },
+    "Math.atan2": { template: "math.Atan2(${0}, ${1})", imports: MATH },
+    "Math.pow": { template: "math.Pow(${0}, ${1})", imports: MATH },
+    "Math.abs": { template: "math.Abs(${0})", imports: MATH },
+    "Math.max": "max(${args})",
+    "Math.min": "min(${args})",
+    "Math.random": { template: "rand.Float64()", imports: ['import "math/rand"'] },
+    // encoding/json returns an error beside the value, so the calls are wrapped in function literals to stay expressions
+    "JSON.parse": {
+      template: { 1: "func(text string) any { var value any; json.Unmarshal([]byte(text), &value); return value }(${0})" },
+      imports: JSON,
+      note: "the error json.Unmarshal returns is discarded, and numbers are parsed as float64",
+    },
+    "JSON.stringify": {
+      template: {
+        1: "func(value any) string { text, _ := json.Marshal(value); return string(text) }(${0})",
+        3: "func(value any) string { text, _ := json.MarshalIndent(value, \"\", \"  \"); return string(text) }(${0})",
+      },
+      imports: JSON,
+      note: "the error json.Marshal returns is discarded, map keys come out sorted, and indentation is always two spaces",
+    },
+    "Array.isArray": { template: "reflect.TypeOf(${0}).Kind() == reflect.Slice", imports: ['import "reflect"'] },
+    "String": { template: "fmt.Sprint(${0})", imports: FMT },
+    "isNaN": { template: "math.IsNaN(${0})", imports: MATH },
+    "Date.now": { template: "time.Now().UnixMilli()", imports: ['import "time"'] },
+  },
+  globals: {
+    "Math.PI": { template: "math.Pi", imports: MATH },
+    "Math.E": { template: "math.E", imports: MATH },
+    "Number.MAX_SAFE_INTEGER": "9007199254740991",
+    "Infinity": { template: "math.Inf(1)", imports: MATH },
+    "NaN": { template: "math.NaN()", imports: MATH },
+  },
+  methods: {
+    push: { template: "${this} = append(${this}, ${args})" },
+    includes: { template: { 1: "slices.Contains(${this}, ${0})" }, imports: SLICES },
+    indexOf: { template: { 1: "slices.Index(${this}, ${0})" }, imports: SLICES },
+    join: { template: { 0: "strings.Join(${this}, \",\")", 1: "strings.Join(${this}, ${0})" }, imports: STRINGS },
+    toUpperCase: { template: { 0: "strings.ToUpper(${this})" }, imports: STRINGS },
+    toLowerCase: { template: { 0: "strings.ToLower(${this})" }, imports: STRINGS },
+    trim: { template: { 0: "strings.TrimSpace(${this})" }, imports: STRINGS },
+    startsWith: { template: { 1: "strings.HasPrefix(${this}, ${0})" }, imports: STRINGS },
+    endsWith: { template: { 1: "strings.HasSuffix(${this}, ${0})" }, imports: STRINGS },
+    split: { template: { 1: "strings.Split(${this}, ${0})" }, imports: STRINGS },
+    replaceAll: { template: { 2: "strings.ReplaceAll(${this}, ${0}, ${1})" }, imports: STRINGS },
+    repeat: { template: { 1: "strings.Repeat(${this}, ${0})" }, imports: STRINGS },
+    reverse: { template: { 0: "slices.Reverse(${this})" }, imports: SLICES },
+    sort: { template: { 0: "slices.Sort(${this})" }, imports: SLICES },
+    toString: { template: { 0: "fmt.Sprint(${this})" }, imports: FMT },
+    toFixed: { template: { 1: "fmt.Sprintf(\"%.*f\", ${0}, ${this})" }, imports: FMT },
+  },
+  properties: {
+    length: "len(${this})",
+  },
+  operators: {
+    // math.Pow only takes float64 arguments
+    "**": { template: "math.Pow(float64(${left}), float64(${right}))", imports: MATH },
+  },
+};
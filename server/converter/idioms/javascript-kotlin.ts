@@ -0,0 +1,101 @@
+import { printTemplates } from "./kotlin-print";
+import type { IdiomTable } from "./types";
+
+const MATH = (name: string) => [`import kotlin.math.${name}`];
+
+// kotlinx.serialization is a library: projects need the kotlinx-serialization-json dependency
+const JSON_IMPORTS = ["import kotlinx.serialization.encodeToString", "import kotlinx.serialization.json.Json"];
+
+// console.log joins its arguments with spaces; println takes exactly one value
+const PRINT = { template: printTemplates() };
+
+export const javascriptToKotlin: IdiomTable = {
+  functions: {
+    "console.log": PRINT,
+    "console.info": PRINT,
+    "console.debug": PRINT,
+    "console.warn": { template: { 1: "System.err.println(${0})" } },
+    "console.error": { template: { 1: "System.err.println(${0})" } },
+    "Math.floor": { template: "floor(${0})", imports: MATH("floor") },
+    "Math.ceil": { template: "ceil(${0})", imports: MATH("ceil") },
+    "Math.trunc": { template: "truncate(${0})", imports: MATH("truncate") },
+    "Math.round": { template: "${0}.roundToInt()", imports: MATH("roundToInt"), note: "roundToInt rounds halves up, like Math.round" },
+    "Math.sqrt": { template: "sqrt(${0})", imports: MATH("sqrt") },
+    "Math.log": { template: "ln(${0})", imports: MATH("ln") },
+    "Math.log2": { template: "log2(${0})", imports: MATH("log2") },
+    "Math.log10": { template: "log10(${0})", imports: MATH("log10") },
+    "Math.exp": { template: "exp(${0})", imports: MATH("exp") },
+    "Math.sin": { template: "sin(${0})", imports: MATH("sin") },
+    "Math.cos": { template: "cos(${0})", imports: MATH("cos") },
+    "Math.tan": { template: "tan(${0})", imports: MATH("tan") },
+    "Math.atan2": { template: "atan2(${0}, ${1})", imports: MATH("atan2") },
+    "Math.pow": { template: "${0}.toDouble().pow(${1})", imports: MATH("pow") },
+    "Math.abs": { template: "abs(${0})", imports: MATH("abs") },
+    "Math.max": { template: { 2: "maxOf(${0}, ${1})", 3: "maxOf(${0}, ${1}, ${2})" } },
+    "Math.min": { template: { 2: "minOf(${0}, ${1})", 3: "minOf(${0}, ${1}, ${2})" } },
+    "Math.random": "Math.random()",
+    "JSON.parse": {
+      template: { 1: "Json.parseToJsonElement(${0})" },
+      imports: ["import kotlinx.serialization.json.Json"],
+      note: "parseToJsonElement returns a JsonElement tree rather than maps and lists",
+    },
+    "JSON.stringify": {
+      template: { 1: "Json.encodeToString(${0})", 3: "Json { prettyPrint = true }.encodeToString(${0})" },
+      imports: JSON_IMPORTS,
+      note: "encodeToString needs a @Serializable type or a JsonElement, and pretty-prints with four spaces",
+    },
+    "Object.keys": "${0}.keys.toMutableList()",
+    "Object.values": "${0}.values.toMutableList()",
+    "Object.entries": "${0}.entries.map { it.key to it.value }",
+    "Array.isArray": "${0} is List<*>",
+    "Array.from": "${0}.toMutableList()",
+    "Number": "${0}.toDouble()",
+    "String": "${0}.toString()",
+    "parseInt": { template: { 1: "${0}.toInt()" }, note: "toInt() throws for text parseInt would partially read" },
+    "parseFloat": { template: "${0}.toDouble()", note: "toDouble() throws for text parseFloat would partially read" },
+    "isNaN": "${0}.isNaN()",
+    "Date.now": "System.currentTimeMillis()",
+  },
+  globals: {
+    "Math.PI": { template: "PI", imports: MATH("PI") },
+    "Math.E": { template: "E", imports: MATH("E") },
+    "Number.MAX_SAFE_INTEGER": "9007199254740991L",
+    "Number.EPSILON": "Math.ulp(1.0)",
+    "Infinity": "Double.POSITIVE_INFINITY",
+    "NaN": "Double.NaN",
+  },
+  methods: {
+    push: { template: { 1: "${this}.add(${0})" } },
+    pop: { template: { 0: "${this}.removeLastOrNull()" } },
+    shift: { template: { 0: "${this}.removeFirstOrNull()" } },
+    unshift: { template: { 1: "${this}.add(0, ${0})" } },
+    includes: { template: { 1: "${this}.contains(${0})" } },
+    indexOf: { template: { 1: "${this}.indexOf(${0})" } },
+    join: { template: { 0: "${this}.joinToString(\",\")", 1: "${this}.joinToString(${0})" } },
+    toUpperCase: { template: { 0: "${this}.uppercase()" } },
+    toLowerCase: { template: { 0: "${this}.lowercase()" } },
+    trim: { template: { 0: "${this}.trim()" } },
+    startsWith: { template: { 1: "${this}.startsWith(${0})" } },
+    endsWith: { template: { 1: "${this}.endsWith(${0})" } },
+    split: { template: { 1: "${this}.split(${0})" } },
+    replaceAll: { template: { 2: "${this}.replace(${0}, ${1})" } },
+    repeat: { template: { 1: "${this}.repeat(${0})" } },
+    reverse: { template: { 0: "${this}.reverse()" } },
+    sort: { template: { 0: "${this}.sort()" } },
+    map: { template: { 1: "${this}.map(${0})" }, indexed: "${this}.mapIndexed { index, item -> ${0}(item, index) }" },
+    filter: { template: { 1: "${this}.filter(${0})" }, indexed: "${this}.filterIndexed { index, item -> ${0}(item, index) }" },
+    reduce: { template: { 2: "${this}.fold(${1}, ${0})" } },
+    some: { template: { 1: "${this}.any(${0})" } },
+    every: { template: { 1: "${this}.all(${0})" } },
+    find: { template: { 1: "${this}.find(${0})" } },
+    forEach: { template: { 1: "${this}.forEach(${0})" }, indexed: "${this}.forEachIndexed { index, item -> ${0}(item, index) }" },
+    toString: { template: { 0: "${this}.toString()" } },
+    toFixed: { template: { 1: "\"%.${${0}}f\".format(${this})" } },
+  },
+  properties: {
+    length: { template: "${this}.size", typed: { string: "${this}.length" } },
+  },
+  operators: {
+    "**": { template: "${left}.toDouble().pow(${right})", imports: MATH("pow") },
+  },
+};
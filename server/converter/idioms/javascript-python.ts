@@ -0,0 +1,117 @@
+import type { IdiomTable } from "./types";
+
+const MATH = ["import math"];
+
+export const javascriptToPython: IdiomTable = {
+  functions: {
+    "console.log": "print(${args})",
+    "console.info": "print(${args})",
+    "console.debug": "print(${args})",
+    "console.warn": { template: "print(${args}, file=sys.stderr)", imports: ["import sys"] },
+    "console.error": { template: "print(${args}, file=sys.stderr)", imports: ["import sys"] },
+    "Math.floor": { template: "math.floor(${0})", imports: MATH },
+    "Math.ceil": { template: "math.ceil(${0})", imports: MATH },
+    "Math.trunc": { template: "math.trunc(${0})", imports: MATH },
+    "Math.sqrt": { template: "math.sqrt(${0})", imports: MATH },
+    "Math.log": { template: "math.log(${0})", imports: MATH },
+    "Math.log2": { template: "math.log2(${0})", imports: MATH },
+    "Math.log10": { template: "math.log10(${0})", imports: MATH },
+    "Math.exp": { template: "math.exp(${0})", imports: MATH },
+    "Math.sin": { template: "math.sin(${0})", imports: MATH },
+    "Math.cos": { template: "math.cos(${0})", imports: MATH },
+    "Math.tan": { template: "math.tan(${0})", imports: MATH },
+    "Math.atan2": { template: "math.atan2(${0}, ${1})", imports: MATH },
+    "Math.hypot": { template: "math.hypot(${args})", imports: MATH },
+    "Math.abs": "abs(${0})",
+    "Math.max": "max(${args})",
+    "Math.min": "min(${args})",
+    "Math.pow": "${0} ** ${1}",
+    "Math.round": { template: "round(${0})", note: "Python rounds halves to the nearest even number" },
+    "Math.random": { template: "random.random()", imports: ["import random"] },
+    "JSON.parse": { template: "json.loads(${0})", imports: ["import json"] },
+    "JSON.stringify": {
+      template: { 1: "json.dumps(${0})", 3: "json.dumps(${0}, indent=${2})" },
+      imports: ["import json"],
+      note: "json.dumps puts spaces after separators, unlike JSON.stringify",
+    },
+    "Object.keys": "list(${0}.keys())",
+    "Object.values": "list(${0}.values())",
+    "Object.entries": "list(${0}.items())",
+    "Object.assign": "${0}.update(${1})",
+    "Array.isArray": "isinstance(${0}, list)",
+    "Array.from": "list(${0})",
+    "Number.isInteger": "isinstance(${0}, int)",
+    "Number": "float(${0})",
+    "String": "str(${0})",
+    "Boolean": "bool(${0})",
+    "parseInt": { template: { 1: "int(${0})", 2: "int(${0}, ${1})" }, note: "int() raises on trailing text that parseInt ignores" },
+    "parseFloat": { template: "float(${0})", note: "float() raises on trailing text that parseFloat ignores" },
+    "isNaN": { template: "math.isnan(${0})", imports: MATH },
+    "Date.now": { template: "int(time.time() * 1000)", imports: ["import time"] },
+  },
+  globals: {
+    "Math.PI": { template: "math.pi", imports: MATH },
+    "Math.E": { template: "math.e", imports: MATH },
+    "Number.MAX_SAFE_INTEGER": "2 ** 53 - 1",
+    "Number.EPSILON": { template: "sys.float_info.epsilon", imports: ["import sys"] },
+    "Infinity": { template: "math.inf", imports: MATH },
+    "NaN": { template: "math.nan", imports: MATH },
+  },
+  methods: {
+    push: { template: { 1: "${this}.append(${0})" }, note: "append() returns None rather than the new length" },
+    pop: "${this}.pop()",
+    shift: "${this}.pop(0)",
+    unshift: { template: { 1: "${this}.insert(0, ${0})" } },
+    includes: "${0} in ${this}",
+    indexOf: {
+      template: { 1: "${this}.index(${0})" },
+      note: "index() raises ValueError instead of returning -1 when the value is missing",
+    },
+    join: { template: { 0: "\",\".join(${this})", 1: "${0}.join(${this})" } },
+    toUpperCase: "${this}.upper()",
+    toLowerCase: "${this}.lower()",
+    trim: "${this}.strip()",
+    trimStart: "${this}.lstrip()",
+    trimEnd: "${this}.rstrip()",
+    startsWith: { template: { 1: "${this}.startswith(${0})" } },
+    endsWith: { template: { 1: "${this}.endswith(${0})" } },
+    split: { template: { 1: "${this}.split(${0})" } },
+    replace: {
+      template: { 2: "${this}.replace(${0}, ${1}, 1)" },
+      note: "only string patterns are supported; regular expressions need the re module",
+    },
+    replaceAll: { template: { 2: "${this}.replace(${0}, ${1})" } },
+    slice: { template: { 0: "${this}[:]", 1: "${this}[${0}:]", 2: "${this}[${0}:${1}]" } },
+    substring: { template: { 1: "${this}[${0}:]", 2: "${this}[${0}:${1}]" } },
+    charAt: { template: { 1: "${this}[${0}]" } },
+    concat: { template: { 1: "${this} + ${0}" } },
+    reverse: { template: { 0: "${this}.reverse()" }, note: "reverse() returns None rather than the list" },
+    sort: { template: { 0: "${this}.sort()" }, note: "sort() returns None rather than the list" },
+    map: {
+      template: { 1: "list(map(${0}, ${this}))" },
+      indexed: "[${0}(item, index) for index, item in enumerate(${this})]",
+    },
+    filter: {
+      template: { 1: "list(filter(${0}, ${this}))" },
+      indexed: "[item for index, item in enumerate(${this}) if ${0}(item, index)]",
+    },
+    reduce: {
+      template: { 1: "functools.reduce(${0}, ${this})", 2: "functools.reduce(${0}, ${this}, ${1})" },
+      imports: ["import functools"],
+    },
+    some: { template: { 1: "any(map(${0}, ${this}))" } },
+    every: { template: { 1: "all(map(${0}, ${this}))" } },
+    find: { template: { 1: "next(filter(${0}, ${this}), None)" } },
+    forEach: {
+      template: { 1: "[${0}(item) for item in ${this}]" },
+      indexed: "[${0}(item, index) for index, item in enumerate(${this})]",
+      note: "forEach is emulated with a list comprehension",
+    },
+    toString: { template: { 0: "str(${this})" } },
+    toFixed: { template: { 1: "f\"{${this}:.{${0}}f}\"" } },
+  },
+  properties: {
+    length: "len(${this})",
+  },
+  operators: {},
+};
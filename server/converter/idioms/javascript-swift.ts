@@ -0,0 +1,98 @@
+import type { IdiomTable } from "./types";
+
+const FOUNDATION = ["import Foundation"];
+
+export const javascriptToSwift: IdiomTable = {
+  functions: {
+    "console.log": "print(${args})",
+    "console.info": "print(${args})",
+    "console.debug": "print(${args})",
+    "console.warn": "print(${args})",
+    "console.error": "print(${args})",
+    "Math.floor": { template: "floor(${0})", imports: FOUNDATION },
+    "Math.ceil": { template: "ceil(${0})", imports: FOUNDATION },
+    "Math.trunc": { template: "trunc(${0})", imports: FOUNDATION },
+    "Math.round": { template: "${0}.rounded()", note: "Swift rounds halves away from zero" },
+    "Math.sqrt": { template: "sqrt(${0})", imports: FOUNDATION },
+    "Math.log": { template: "log(${0})", imports: FOUNDATION },
+    "Math.log2": { template: "log2(${0})", imports: FOUNDATION },
+    "Math.log10": { template: "log10(${0})", imports: FOUNDATION },
+    "Math.exp": { template: "exp(${0})", imports: FOUNDATION },
+    "Math.sin": { template: "sin(${0})", imports: FOUNDATION },
+    "Math.cos": { template: "cos(${0})", imports: FOUNDATION },
+    "Math.tan": { template: "tan(${0})", imports: FOUNDATION },
+    "Math.atan2": { template: "atan2(${0}, ${1})", imports: FOUNDATION },
+    "Math.pow": { template: "pow(${0}, ${1})", imports: FOUNDATION },
+    "Math.abs": "abs(${0})",
+    "Math.max": "max(${args})",
+    "Math.min": "min(${args})",
+    "Math.random": "Double.random(in: 0..<1)",
+    "JSON.parse": {
+      template: "try JSONSerialization.jsonObject(with: Data(${0}.utf8))",
+      imports: FOUNDATION,
+      note: "JSONSerialization throws, so the enclosing function must handle errors",
+    },
+    "JSON.stringify": {
+      template: "String(data: try JSONSerialization.data(withJSONObject: ${0}), encoding: .utf8)!",
+      imports: FOUNDATION,
+      note: "JSONSerialization throws, so the enclosing function must handle errors",
+    },
+    "Object.keys": "Array(${0}.keys)",
+    "Object.values": "Array(${0}.values)",
+    "Array.isArray": "${0} is [Any]",
+    "Array.from": "Array(${0})",
+    "Number": "Double(${0})",
+    "String": "String(describing: ${0})",
+    "parseInt": { template: { 1: "Int(${0})" }, note: "Int() returns nil for text parseInt would partially read" },
+    "parseFloat": { template: "Double(${0})", note: "Double() returns nil for text parseFloat would partially read" },
+    "isNaN": "${0}.isNaN",
+    "Date.now": { template: "Int(Date().timeIntervalSince1970 * 1000)", imports: FOUNDATION },
+  },
+  globals: {
+    "Math.PI": "Double.pi",
+    "Math.E": { template: "M_E", imports: FOUNDATION },
+    "Number.MAX_SAFE_INTEGER": "9007199254740991",
+    "Number.EPSILON": "Double.ulpOfOne",
+    "Infinity": "Double.infinity",
+    "NaN": "Double.nan",
+  },
+  methods: {
+    push: { template: { 1: "${this}.append(${0})" } },
+    pop: { template: { 0: "${this}.popLast()" } },
+    shift: { template: { 0: "${this}.removeFirst()" } },
+    unshift: { template: { 1: "${this}.insert(${0}, at: 0)" } },
+    includes: { template: { 1: "${this}.contains(${0})" } },
+    indexOf: {
+      template: { 1: "${this}.firstIndex(of: ${0})" },
+      note: "firstIndex(of:) returns nil instead of -1 when the value is missing",
+    },
+    join: { template: { 0: "${this}.joined(separator: \",\")", 1: "${this}.joined(separator: ${0})" } },
+    toUpperCase: { template: { 0: "${this}.uppercased()" } },
+    toLowerCase: { template: { 0: "${this}.lowercased()" } },
+    trim: { template: { 0: "${this}.trimmingCharacters(in: .whitespacesAndNewlines)" }, imports: FOUNDATION },
+    startsWith: { template: { 1: "${this}.hasPrefix(${0})" } },
+    endsWith: { template: { 1: "${this}.hasSuffix(${0})" } },
+    split: { template: { 1: "${this}.components(separatedBy: ${0})" }, imports: FOUNDATION },
+    replaceAll: { template: { 2: "${this}.replacingOccurrences(of: ${0}, with: ${1})" }, imports: FOUNDATION },
+    reverse: { template: { 0: "${this}.reverse()" } },
+    sort: { template: { 0: "${this}.sort()" } },
+    map: { template: { 1: "${this}.map(${0})" }, indexed: "${this}.enumerated().map { ${0}($0.element, $0.offset) }" },
+    filter: {
+      template: { 1: "${this}.filter(${0})" },
+      indexed: "${this}.enumerated().filter { ${0}($0.element, $0.offset) }.map { $0.element }",
+    },
+    reduce: { template: { 2: "${this}.reduce(${1}, ${0})" } },
+    some: { template: { 1: "${this}.contains(where: ${0})" } },
+    every: { template: { 1: "${this}.allSatisfy(${0})" } },
+    find: { template: { 1: "${this}.first(where: ${0})" } },
+    forEach: { template: { 1: "${this}.forEach(${0})" }, indexed: "${this}.enumerated().forEach { ${0}($0.element, $0.offset) }" },
+    toString: { template: { 0: "String(describing: ${this})" } },
+    toFixed: { template: { 1: "String(format: \"%.\\(${0})f\", ${this})" }, imports: FOUNDATION },
+  },
+  properties: {
+    length: "${this}.count",
+  },
+  operators: {
+    "**": { template: "pow(${left}, ${right})", imports: FOUNDATION },
+  },
+};
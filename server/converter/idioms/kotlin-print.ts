@@ -0,0 +1,11 @@
+// Templates are chosen by argument count, so each count up to a sensible limit gets one
+const MAX_PRINT_ARGUMENTS = 8;
+
+/** println templates for printing any number of space-separated values. */
+export function printTemplates(): Record<number, string> {
+  const templates: Record<number, string> = { 0: "println()", 1: "println(${0})" };
+  for (let count = 2; count <= MAX_PRINT_ARGUMENTS; count++) {
+    templates[count] = "println(listOf(${args}).joinToString(\" \"))";
+  }
+  return templates;
+}
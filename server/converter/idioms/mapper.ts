@@ -0,0 +1,315 @@
+import type * as ir from "../ir";
+import type { TypeInfo } from "../inference";
+import { walk } from "../walk";
+import type { IdiomEntry, IdiomRule, IdiomTable } from "./types";
+
+/** A library construct matched against an idiom table, ready to render. */
+export interface IdiomMatch {
+  // How the construct is spelled in the source, e.g. "Math.floor" or ".push", for diagnostics
+  name: string;
+  template: string;
+  receiver?: ir.Expression;
+  left?: ir.Expression;
+  right?: ir.Expression;
+  // Positional arguments, addressed by `${0}`, `${1}`, ...
+  positional: ir.Expression[];
+  // Keyword arguments renamed for the target, appended to `${args}`
+  named: ir.NamedArgument[];
+  // Keyword arguments the target has no equivalent for
+  dropped: ir.NamedArgument[];
+  imports: string[];
+  note?: string;
+  // Parameters of the callback the template does not pass, such as the array after the index
+  ignoredParams: ir.Parameter[];
+}
+
+/**
+ * Looks up calls, member reads and operators in the idiom table of one
+ * language pair. Names the module declares itself shadow the library ones,
+ * and so do methods of the module's own classes.
+ */
+export class IdiomMapper {
+  private readonly declared = new Set<string>();
+  private readonly ownMethods = new Set<string>();
+  // Library paths of the names imports bind, e.g. "math.sqrt" for `sqrt` after `from math import sqrt`
+  private readonly importedPaths = new Map<string, string>();
+  // Member expressions that are written to or called, which must keep their spelling
+  private readonly unmappable = new WeakSet<ir.Node>();
+
+  constructor(private readonly table: IdiomTable, module: ir.Module, private readonly types?: TypeInfo) {
+    walk(module, (node) => {
+      switch (node.kind) {
+        case "VariableDeclaration":
+          for (const declaration of node.declarations) this.declarePattern(declaration.target);
+          break;
+        case "FunctionDeclaration":
+          this.declared.add(node.name);
+          break;
+        case "ImportDeclaration":
+          for (const [local, path] of importedPaths(node)) if (local !== path) this.importedPaths.set(local, path);
+          break;
+        case "ClassDeclaration":
+          this.declared.add(node.name);
+          for (const member of node.members) this.ownMethods.add(member.name);
+          break;
+        case "ForEachStatement":
+          this.declarePattern(node.target);
+          break;
+        case "TryStatement":
+          for (const handler of node.handlers) if (handler.param) this.declared.add(handler.param);
+          break;
+        case "WithStatement":
+          for (const item of node.items) if (item.target) this.declarePattern(item.target);
+          break;
+        case "ComprehensionExpression":
+          for (const clause of node.clauses) this.declarePattern(clause.target);
+          break;
+        case "AssignmentExpression":
+          this.unmappable.add(node.target);
+          if (node.target.kind === "Identifier") this.declared.add(node.target.name);
+          break;
+        case "UpdateExpression":
+          this.unmappable.add(node.argument);
+          break;
+        case "UnaryExpression":
+          if (node.operator === "delete") this.unmappable.add(node.argument);
+          break;
+        case "CallExpression":
+        case "NewExpression":
+          this.unmappable.add(node.callee);
+          break;
+      }
+      if ("params" in node) {
+        for (const param of node.params) this.declared.add(param.name);
+      }
+    });
+  }
+
+  /**
+   * True for `import math`, `from math import sqrt` (or `const path =
+   * require("path")`) of a package whose functions and globals the table maps
+   * for every name imported, so the import is not needed.
+   */
+  mapsImport(statement: ir.ImportDeclaration): boolean {
+    const paths = importedPaths(statement);
+    const keys = [this.table.functions, this.table.globals].flatMap((entries) => Object.keys(entries));
+    const mapped = (path: string) => keys.some((key) => key === path || key.startsWith(`${path}.`));
+    return paths.length > 0 && paths.length === statement.specifiers.length && paths.every(([, path]) => mapped(path));
+  }
+
+  call(call: ir.CallExpression): IdiomMatch | null {
+    const { callee } = call;
+
+    const path = this.globalPath(callee);
+    if (path) {
+      const entry = lookup(this.table.functions, path);
+      if (entry) return this.match(path, entry, { args: call.arguments });
+    }
+
+    const method = this.memberName(callee);
+    if (method && callee.kind === "MemberExpression" && !this.ownMethods.has(method)) {
+      const entry = lookup(this.table.methods, method);
+      if (entry) return this.match(`.${method}`, entry, { receiver: callee.object, args: call.arguments });
+    }
+    return null;
+  }
+
+  identifier(expression: ir.Identifier): IdiomMatch | null {
+    return this.global(expression);
+  }
+
+  member(expression: ir.MemberExpression): IdiomMatch | null {
+    if (this.unmappable.has(expression)) return null;
+
+    const global = this.global(expression);
+    if (global) return global;
+
+    const property = this.memberName(expression);
+    if (!property || this.ownMethods.has(property)) return null;
+    const entry = lookup(this.table.properties, property);
+    return entry ? this.match(`.${property}`, entry, { receiver: expression.object, args: [] }) : null;
+  }
+
+  binary(expression: ir.BinaryExpression): IdiomMatch | null {
+    const entry = lookup(this.table.operators, expression.operator);
+    if (!entry) return null;
+    return this.match(expression.operator, entry, { left: expression.left, right: expression.right, args: [] });
+  }
+
+  private global(expression: ir.Expression): IdiomMatch | null {
+    if (this.unmappable.has(expression)) return null;
+    const path = this.globalPath(expression);
+    const entry = path ? lookup(this.table.globals, path) : undefined;
+    return path && entry ? this.match(path, entry, { args: [] }) : null;
+  }
+
+  private match(
+    name: string,
+    entry: IdiomEntry,
+    parts: { receiver?: ir.Expression; left?: ir.Expression; right?: ir.Expression; args: ir.Expression[] }
+  ): IdiomMatch | null {
+    const rule = typeof entry === "string" ? { template: entry } : entry;
+    const positional = parts.args.filter((arg) => arg.kind !== "NamedArgument");
+    const keywords = parts.args.filter((arg): arg is ir.NamedArgument => arg.kind === "NamedArgument");
+
+    let template = rule.typed ? this.typedTemplate(rule.typed, parts.receiver ?? parts.left ?? positional[0]) : undefined;
+    if (template === undefined && typeof rule.template === "string") {
+      template = rule.template;
+    } else if (template === undefined && rule.template && !positional.some((arg) => arg.kind === "SpreadElement")) {
+      // A spread argument hides the argument count
+      template = rule.template[positional.length] ?? rule.variadic;
+    }
+    if (template === undefined) return null;
+
+    // JavaScript passes callbacks the element, its index and the array
+    const callback = positional[0]?.kind === "FunctionExpression" ? positional[0] : undefined;
+    const indexed = rule.indexed !== undefined && callback !== undefined && callback.params.length > 1;
+    if (indexed) template = rule.indexed!;
+
+    const named: ir.NamedArgument[] = [];
+    const dropped: ir.NamedArgument[] = [];
+    for (const arg of keywords) {
+      const rename = rule.namedArguments?.[arg.name];
+      if (rename) named.push({ ...arg, name: rename });
+      else dropped.push(arg);
+    }
+
+    return {
+      name,
+      template,
+      receiver: parts.receiver,
+      left: parts.left,
+      right: parts.right,
+      positional,
+      named,
+      dropped,
+      imports: rule.imports ?? [],
+      note: rule.note,
+      ignoredParams: indexed ? callback!.params.slice(2) : [],
+    };
+  }
+
+  private typedTemplate(typed: NonNullable<IdiomRule["typed"]>, subject: ir.Expression | undefined): string | undefined {
+    if (!subject || !this.types) return undefined;
+    let type = this.types.typeOf(subject);
+    if (type.kind === "optional") type = type.wrapped;
+    return type.kind === "string" || type.kind === "array" || type.kind === "dict" ? typed[type.kind] : undefined;
+  }
+
+  private declarePattern(pattern: ir.Pattern): void {
+    switch (pattern.kind) {
+      case "Identifier":
+        this.declared.add(pattern.name);
+        break;
+      case "ArrayPattern":
+        for (const element of pattern.elements) if (element) this.declarePattern(element);
+        break;
+      case "ObjectPattern":
+        for (const property of pattern.properties) this.declarePattern(property.value);
+        if (pattern.rest) this.declared.add(pattern.rest.name);
+        break;
+    }
+  }
+
+  private memberName(expression: ir.Expression): string | undefined {
+    if (expression.kind !== "MemberExpression" || expression.computed) return undefined;
+    return expression.property.kind === "Identifier" ? expression.property.name : undefined;
+  }
+
+  // "Math.floor" for `Math.floor`, unless the module declares its own `Math`; "math.sqrt" for an imported `sqrt`
+  private globalPath(expression: ir.Expression): string | undefined {
+    const path = dottedPath(expression);
+    if (!path) return undefined;
+    const [head, ...rest] = path.split(".");
+    if (this.declared.has(head)) return undefined;
+    const imported = this.importedPaths.get(head);
+    return imported ? [imported, ...rest].join(".") : path;
+  }
+}
+
+// [local name, library path] of each name a package import binds; none for imports of the project's own modules
+function importedPaths(statement: ir.ImportDeclaration): [string, string][] {
+  if (statement.module.parents !== undefined) return [];
+  return statement.specifiers.flatMap(({ imported, local }): [string, string][] => {
+    if (!local) return [];
+    const whole = imported === "*" || imported === "default";
+    return [[local, whole ? statement.specifier : `${statement.specifier}.${imported}`]];
+  });
+}
+
+function dottedPath(expression: ir.Expression): string | undefined {
+  if (expression.kind === "Identifier") return expression.name;
+  if (expression.kind !== "MemberExpression" || expression.computed || expression.optional) return undefined;
+  if (expression.property.kind !== "Identifier") return undefined;
+  const object = dottedPath(expression.object);
+  return object && `${object}.${expression.property.name}`;
+}
+
+// Own properties only, so names such as "constructor" never hit Object.prototype
+function lookup<T>(record: Partial<Record<string, T>>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+const PLACEHOLDER = /\$\{(this|args|left|right|\d+)\}/g;
+
+// A placeholder between these is a whole argument, element or value and needs no parentheses
+const SLOT_OPENERS = "([{,:=";
+const SLOT_CLOSERS = ")]},:";
+
+/**
+ * Fills in a matched template. `print` renders one expression, either as a
+ * complete slot ("loose") or as the operand of a postfix operator ("tight").
+ * The result is tight unless it has a leading prefix operator or top-level
+ * whitespace or operators, in which case callers should treat it as the
+ * loosest expression.
+ */
+export function renderIdiom(
+  match: IdiomMatch,
+  print: (expression: ir.Expression, slot: "loose" | "tight") => string
+): { code: string; loose: boolean } {
+  let template = match.template;
+  if (match.positional.length + match.named.length === 0) {
+    // `print(${args}, file=sys.stderr)` without arguments must not keep the comma
+    template = template.replace(/\$\{args\}, |, \$\{args\}/g, "");
+  }
+
+  const code = template.replace(PLACEHOLDER, (placeholder: string, key: string, offset: number) => {
+    if (key === "args") {
+      return [...match.positional, ...match.named].map((arg) => print(arg, "loose")).join(", ");
+    }
+
+    const expression =
+      key === "this" ? match.receiver : key === "left" ? match.left : key === "right" ? match.right : match.positional[Number(key)];
+    if (!expression) return placeholder;
+
+    const before = template.slice(0, offset).trimEnd().slice(-1);
+    const after = template.slice(offset + placeholder.length).trimStart().charAt(0);
+    const slot = (before === "" || SLOT_OPENERS.includes(before)) && (after === "" || SLOT_CLOSERS.includes(after));
+    return print(expression, slot ? "loose" : "tight");
+  });
+
+  return { code, loose: !isTight(code) };
+}
+
+function isTight(code: string): boolean {
+  if (!/^[\w$("'`[{]/.test(code)) return false;
+
+  let depth = 0;
+  let quote = "";
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = "";
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      depth--;
+    } else if (depth === 0 && (/[\s+\-*/%<>=&|?^~]/.test(char) || code.startsWith("..", i))) {
+      return false;
+    }
+  }
+  return true;
+}
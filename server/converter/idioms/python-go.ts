@@ -0,0 +1,87 @@
+import type { IdiomTable } from "./types";
+
+const FMT = ['import "fmt"'];
+const MATH = ['import "math"'];
+const STRINGS = ['import "strings"'];
+const SLICES = ['import "slices"'];
+const RAND = ['import "math/rand"'];
+const JSON = ['import "encoding/json"'];
+
+export const pythonToGo: IdiomTable = {
+  functions: {
+    print: { template: "fmt.Println(${args})", imports: FMT },
+    len: "len(${0})",
+    str: { template: { 0: "\"\"", 1: "fmt.Sprint(${0})" }, imports: FMT },
+    int: { template: { 1: "int(${0})" }, note: "int() only converts numbers in Go; parse text with strconv.Atoi" },
+    float: { template: { 1: "float64(${0})" } },
+    abs: { template: { 1: "math.Abs(${0})" }, imports: MATH },
+    max: { template: { 1: "slices.Max(${0})", 2: "max(${0}, ${1})" }, imports: SLICES },
+    min: { template: { 1: "slices.Min(${0})", 2: "min(${0}, ${1})" }, imports: SLICES },
+    round: { template: { 1: "math.Round(${0})" }, imports: MATH, note: "math.Round rounds halves away from zero" },
+    // Go's range yields the index alongside each element, and the key alongside each value
+    enumerate: { template: { 1: "${0}" } },
+    "math.floor": { template: "math.Floor(${0})", imports: MATH },
+    "math.ceil": { template: "math.Ceil(${0})", imports: MATH },
+    "math.trunc": { template: "math.Trunc(${0})", imports: MATH },
+    "math.sqrt": { template: "math.Sqrt(${0})", imports: MATH },
+    "math.log": { template: { 1: "math.Log(${0})" }, imports: MATH },
+    "math.log2": { template: "math.Log2(${0})", imports: MATH },
+    "math.log10": { template: "math.Log10(${0})", imports: MATH },
+    "math.exp": { template: "math.Exp(${0})", imports: MATH },
+    "math.sin": { template: "math.Sin(${0})", imports: MATH },
+    "math.cos": { template: "math.Cos(${0})", imports: MATH },
+    "math.tan": { template: "math.Tan(${0})", imports: MATH },
+    "math.atan2": { template: "math.Atan2(${0}, ${1})", imports: MATH },
+    "math.pow": { template: "math.Pow(${0}, ${1})", imports: MATH },
+    "math.isnan": { template: "math.IsNaN(${0})", imports: MATH },
+    // encoding/json returns an error beside the value, so the calls are wrapped in function literals to stay expressions
+    "json.loads": {
+      template: { 1: "func(text string) any { var value any; json.Unmarshal([]byte(text), &value); return value }(${0})" },
+      imports: JSON,
+      note: "the error json.Unmarshal returns is discarded, and numbers are parsed as float64",
+    },
+    "json.dumps": {
+      template: { 1: "func(value any) string { text, _ := json.Marshal(value); return string(text) }(${0})" },
+      imports: JSON,
+      note: "the error json.Marshal returns is discarded, and no spaces follow separators",
+    },
+    "random.random": { template: "rand.Float64()", imports: RAND },
+    "random.randint": { template: "${0} + rand.Intn(${1}-${0}+1)", imports: RAND },
+    "random.choice": { template: "${0}[rand.Intn(len(${0}))]", imports: RAND },
+    "time.time": { template: "float64(time.Now().UnixNano()) / 1e9", imports: ['import "time"'] },
+    "sys.exit": { template: { 0: "os.Exit(0)", 1: "os.Exit(${0})" }, imports: ['import "os"'] },
+  },
+  globals: {
+    "math.pi": { template: "math.Pi", imports: MATH },
+    "math.e": { template: "math.E", imports: MATH },
+    "math.inf": { template: "math.Inf(1)", imports: MATH },
+    "math.nan": { template: "math.NaN()", imports: MATH },
+  },
+  methods: {
+    append: { template: { 1: "${this} = append(${this}, ${0})" } },
+    extend: { template: { 1: "${this} = append(${this}, ${0}...)" } },
+    index: { template: { 1: "slices.Index(${this}, ${0})" }, imports: SLICES, note: "slices.Index returns -1 where index() would raise" },
+    copy: { template: { 0: "slices.Clone(${this})" }, imports: SLICES },
+    clear: { template: { 0: "clear(${this})" } },
+    upper: { template: { 0: "strings.ToUpper(${this})" }, imports: STRINGS },
+    lower: { template: { 0: "strings.ToLower(${this})" }, imports: STRINGS },
+    strip: { template: { 0: "strings.TrimSpace(${this})" }, imports: STRINGS },
+    startswith: { template: { 1: "strings.HasPrefix(${this}, ${0})" }, imports: STRINGS },
+    endswith: { template: { 1: "strings.HasSuffix(${this}, ${0})" }, imports: STRINGS },
+    split: { template: { 0: "strings.Fields(${this})", 1: "strings.Split(${this}, ${0})" }, imports: STRINGS },
+    join: { template: { 1: "strings.Join(${0}, ${this})" }, imports: STRINGS },
+    replace: { template: { 2: "strings.ReplaceAll(${this}, ${0}, ${1})" }, imports: STRINGS },
+    find: { template: { 1: "strings.Index(${this}, ${0})" }, imports: STRINGS },
+    items: { template: { 0: "${this}" } },
+    get: { template: { 1: "${this}[${0}]" } },
+    sort: { template: { 0: "slices.Sort(${this})" }, imports: SLICES },
+    reverse: { template: { 0: "slices.Reverse(${this})" }, imports: SLICES },
+  },
+  properties: {},
+  operators: {
+    // math.Pow only takes float64 arguments
+    "**": { template: "math.Pow(float64(${left}), float64(${right}))", imports: MATH },
+    in: { template: "slices.Contains(${right}, ${left})", imports: SLICES, note: "test map keys with `_, ok := m[key]` instead" },
+    "//": { template: "${left} / ${right}", note: "Go integer division truncates toward zero rather than flooring" },
+  },
+};
@@ -0,0 +1,104 @@
+import type { IdiomTable } from "./types";
+
+export const pythonToJavaScript: IdiomTable = {
+  functions: {
+    print: "console.log(${args})",
+    len: { template: "${0}.length", typed: { dict: "Object.keys(${0}).length" } },
+    str: { template: { 0: "\"\"", 1: "String(${0})" } },
+    int: {
+      template: { 0: "0", 1: "Math.trunc(Number(${0}))", 2: "parseInt(${0}, ${1})" },
+      note: "Number() yields NaN where int() would raise",
+    },
+    float: { template: { 1: "Number(${0})" } },
+    bool: { template: { 1: "Boolean(${0})" } },
+    abs: { template: { 1: "Math.abs(${0})" } },
+    max: { template: { 1: "Math.max(...${0})" }, variadic: "Math.max(${args})" },
+    min: { template: { 1: "Math.min(...${0})" }, variadic: "Math.min(${args})" },
+    sum: { template: { 1: "${0}.reduce((a, b) => a + b, 0)" } },
+    round: {
+      template: { 1: "Math.round(${0})", 2: "Number(${0}.toFixed(${1}))" },
+      note: "Math.round rounds halves up rather than to the nearest even number",
+    },
+    sorted: { template: { 1: "[...${0}].sort()" }, note: "sort() compares items as strings unless given a comparator" },
+    reversed: { template: { 1: "[...${0}].reverse()" } },
+    list: { template: { 0: "[]", 1: "[...${0}]" } },
+    set: { template: { 0: "new Set()", 1: "new Set(${0})" } },
+    dict: { template: { 0: "{}" } },
+    enumerate: { template: { 1: "${0}.entries()" } },
+    zip: {
+      template: { 2: "Array.from(${0}, (item, i) => [item, ${1}[i]])" },
+      note: "zip() stops at its shortest argument, while this pairs every item of the first with undefined past the end of the second",
+    },
+    range: {
+      template: {
+        1: "[...Array(${0}).keys()]",
+        2: "Array.from({ length: ${1} - ${0} }, (_, i) => ${0} + i)",
+      },
+    },
+    repr: { template: { 1: "JSON.stringify(${0})" } },
+    input: { template: { 0: "prompt()", 1: "prompt(${0})" } },
+    "math.floor": "Math.floor(${0})",
+    "math.ceil": "Math.ceil(${0})",
+    "math.trunc": "Math.trunc(${0})",
+    "math.sqrt": "Math.sqrt(${0})",
+    "math.log": { template: { 1: "Math.log(${0})" } },
+    "math.log2": "Math.log2(${0})",
+    "math.log10": "Math.log10(${0})",
+    "math.exp": "Math.exp(${0})",
+    "math.sin": "Math.sin(${0})",
+    "math.cos": "Math.cos(${0})",
+    "math.tan": "Math.tan(${0})",
+    "math.atan2": "Math.atan2(${0}, ${1})",
+    "math.hypot": "Math.hypot(${args})",
+    "math.isnan": "Number.isNaN(${0})",
+    "math.pow": "Math.pow(${0}, ${1})",
+    "json.loads": "JSON.parse(${0})",
+    "json.dumps": "JSON.stringify(${0})",
+    "random.random": "Math.random()",
+    "random.randint": "${0} + Math.floor(Math.random() * (${1} - ${0} + 1))",
+    "random.choice": "${0}[Math.floor(Math.random() * ${0}.length)]",
+    "time.time": "Date.now() / 1000",
+    "sys.exit": { template: { 0: "process.exit()", 1: "process.exit(${0})" } },
+  },
+  globals: {
+    "math.pi": "Math.PI",
+    "math.e": "Math.E",
+    "math.inf": "Infinity",
+    "math.nan": "NaN",
+  },
+  methods: {
+    append: { template: { 1: "${this}.push(${0})" } },
+    extend: { template: { 1: "${this}.push(...${0})" } },
+    insert: { template: { 2: "${this}.splice(${0}, 0, ${1})" } },
+    remove: { template: { 1: "${this}.splice(${this}.indexOf(${0}), 1)" }, note: "remove() raised when the value was missing" },
+    pop: { template: { 0: "${this}.pop()", 1: "${this}.splice(${0}, 1)[0]" } },
+    index: { template: { 1: "${this}.indexOf(${0})" }, note: "indexOf returns -1 where index() would raise" },
+    count: { template: { 1: "${this}.filter((item) => item === ${0}).length" } },
+    copy: { template: { 0: "[...${this}]" } },
+    clear: { template: { 0: "${this}.length = 0" } },
+    upper: { template: { 0: "${this}.toUpperCase()" } },
+    lower: { template: { 0: "${this}.toLowerCase()" } },
+    strip: { template: { 0: "${this}.trim()" } },
+    lstrip: { template: { 0: "${this}.trimStart()" } },
+    rstrip: { template: { 0: "${this}.trimEnd()" } },
+    startswith: { template: { 1: "${this}.startsWith(${0})" } },
+    endswith: { template: { 1: "${this}.endsWith(${0})" } },
+    split: { template: { 0: "${this}.trim().split(/\\s+/)", 1: "${this}.split(${0})" } },
+    join: { template: { 1: "${0}.join(${this})" } },
+    replace: { template: { 2: "${this}.replaceAll(${0}, ${1})" } },
+    find: { template: { 1: "${this}.indexOf(${0})" } },
+    isdigit: { template: { 0: "/^\\d+$/.test(${this})" } },
+    keys: { template: { 0: "Object.keys(${this})" } },
+    values: { template: { 0: "Object.values(${this})" } },
+    items: { template: { 0: "Object.entries(${this})" } },
+    get: { template: { 1: "${this}[${0}]", 2: "${this}[${0}] ?? ${1}" } },
+    update: { template: { 1: "Object.assign(${this}, ${0})" } },
+    sort: { template: { 0: "${this}.sort()" }, note: "sort() compares items as strings unless given a comparator" },
+  },
+  properties: {},
+  operators: {
+    in: "${right}.includes(${left})",
+    "*": { typed: { string: "${left}.repeat(${right})", array: "Array.from({ length: ${right} }, () => ${left}).flat()" } },
+    "//": "Math.floor(${left} / ${right})",
+  },
+};
@@ -0,0 +1,112 @@
+import { printTemplates } from "./kotlin-print";
+import type { IdiomTable } from "./types";
+
+const MATH = (name: string) => [`import kotlin.math.${name}`];
+
+// kotlinx.serialization is a library: projects need the kotlinx-serialization-json dependency
+const JSON_IMPORTS = ["import kotlinx.serialization.encodeToString", "import kotlinx.serialization.json.Json"];
+
+export const pythonToKotlin: IdiomTable = {
+  functions: {
+    // print() joins its arguments with spaces; println takes exactly one value
+    print: { template: printTemplates() },
+    len: { template: "${0}.size", typed: { string: "${0}.length" } },
+    str: { template: { 0: "\"\"", 1: "${0}.toString()" } },
+    int: { template: { 1: "${0}.toInt()" }, note: "toInt() on a Double truncates, like int()" },
+    float: { template: { 1: "${0}.toDouble()" } },
+    bool: { template: { 1: "(${0} as Boolean)" } },
+    abs: { template: { 1: "abs(${0})" }, imports: MATH("abs") },
+    max: { template: { 1: "${0}.max()", 2: "maxOf(${0}, ${1})" } },
+    min: { template: { 1: "${0}.min()", 2: "minOf(${0}, ${1})" } },
+    sum: { template: { 1: "${0}.sum()" } },
+    round: { template: { 1: "${0}.roundToInt()" }, imports: MATH("roundToInt"), note: "roundToInt rounds halves up" },
+    sorted: { template: { 1: "${0}.sorted()" } },
+    reversed: { template: { 1: "${0}.reversed()" } },
+    list: { template: { 0: "mutableListOf()", 1: "${0}.toMutableList()" } },
+    set: { template: { 0: "mutableSetOf()", 1: "${0}.toMutableSet()" } },
+    dict: { template: { 0: "mutableMapOf()" } },
+    enumerate: { template: { 1: "${0}.withIndex()" } },
+    zip: { template: { 2: "${0}.zip(${1})" } },
+    range: {
+      template: {
+        1: "0 until ${0}",
+        2: "${0} until ${1}",
+        3: "${0} until ${1} step ${2}",
+      },
+      note: "negative range steps need `downTo` in Kotlin",
+    },
+    repr: { template: { 1: "${0}.toString()" } },
+    isinstance: { template: { 2: "${0} is ${1}" } },
+    input: { template: { 0: "readln()" } },
+    "math.floor": { template: "floor(${0})", imports: MATH("floor") },
+    "math.ceil": { template: "ceil(${0})", imports: MATH("ceil") },
+    "math.trunc": { template: "truncate(${0})", imports: MATH("truncate") },
+    "math.sqrt": { template: "sqrt(${0})", imports: MATH("sqrt") },
+    "math.log": { template: { 1: "ln(${0})" }, imports: MATH("ln") },
+    "math.log2": { template: "log2(${0})", imports: MATH("log2") },
+    "math.log10": { template: "log10(${0})", imports: MATH("log10") },
+    "math.exp": { template: "exp(${0})", imports: MATH("exp") },
+    "math.sin": { template: "sin(${0})", imports: MATH("sin") },
+    "math.cos": { template: "cos(${0})", imports: MATH("cos") },
+    "math.tan": { template: "tan(${0})", imports: MATH("tan") },
+    "math.atan2": { template: "atan2(${0}, ${1})", imports: MATH("atan2") },
+    "math.pow": { template: "${0}.toDouble().pow(${1})", imports: MATH("pow") },
+    "math.isnan": "${0}.isNaN()",
+    "json.loads": {
+      template: { 1: "Json.parseToJsonElement(${0})" },
+      imports: ["import kotlinx.serialization.json.Json"],
+      note: "parseToJsonElement returns a JsonElement tree rather than dicts and lists",
+    },
+    "json.dumps": {
+      template: { 1: "Json.encodeToString(${0})" },
+      imports: JSON_IMPORTS,
+      note: "encodeToString needs a @Serializable type or a JsonElement, and leaves no spaces after separators",
+    },
+    "random.random": "Math.random()",
+    "random.randint": "(${0}..${1}).random()",
+    "random.choice": "${0}.random()",
+    "time.time": "System.currentTimeMillis() / 1000.0",
+    "sys.exit": { template: { 0: "kotlin.system.exitProcess(0)", 1: "kotlin.system.exitProcess(${0})" } },
+  },
+  globals: {
+    "math.pi": { template: "PI", imports: MATH("PI") },
+    "math.e": { template: "E", imports: MATH("E") },
+    "math.inf": "Double.POSITIVE_INFINITY",
+    "math.nan": "Double.NaN",
+  },
+  methods: {
+    append: { template: { 1: "${this}.add(${0})" } },
+    extend: { template: { 1: "${this}.addAll(${0})" } },
+    insert: { template: { 2: "${this}.add(${0}, ${1})" } },
+    remove: { template: { 1: "${this}.remove(${0})" } },
+    pop: { template: { 0: "${this}.removeLast()", 1: "${this}.removeAt(${0})" } },
+    index: { template: { 1: "${this}.indexOf(${0})" }, note: "indexOf returns -1 where index() would raise" },
+    count: { template: { 1: "${this}.count { it == ${0} }" } },
+    copy: { template: { 0: "${this}.toMutableList()" } },
+    clear: { template: { 0: "${this}.clear()" } },
+    upper: { template: { 0: "${this}.uppercase()" } },
+    lower: { template: { 0: "${this}.lowercase()" } },
+    strip: { template: { 0: "${this}.trim()" } },
+    lstrip: { template: { 0: "${this}.trimStart()" } },
+    rstrip: { template: { 0: "${this}.trimEnd()" } },
+    startswith: { template: { 1: "${this}.startsWith(${0})" } },
+    endswith: { template: { 1: "${this}.endsWith(${0})" } },
+    split: { template: { 0: "${this}.trim().split(Regex(\"\\\\s+\"))", 1: "${this}.split(${0})" } },
+    join: { template: { 1: "${0}.joinToString(${this})" } },
+    replace: { template: { 2: "${this}.replace(${0}, ${1})" } },
+    find: { template: { 1: "${this}.indexOf(${0})" } },
+    isdigit: { template: { 0: "${this}.all { it.isDigit() }" } },
+    keys: { template: { 0: "${this}.keys" } },
+    values: { template: { 0: "${this}.values" } },
+    items: { template: { 0: "${this}.entries.map { it.key to it.value }" } },
+    get: { template: { 1: "${this}[${0}]", 2: "${this}.getOrDefault(${0}, ${1})" } },
+    update: { template: { 1: "${this}.putAll(${0})" } },
+    sort: { template: { 0: "${this}.sort()" } },
+    reverse: { template: { 0: "${this}.reverse()" } },
+  },
+  properties: {},
+  operators: {
+    "**": { template: "${left}.toDouble().pow(${right})", imports: MATH("pow") },
+    "//": "Math.floorDiv(${left}, ${right})",
+  },
+};
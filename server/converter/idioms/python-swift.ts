@@ -0,0 +1,100 @@
+import type { IdiomTable } from "./types";
+
+const FOUNDATION = ["import Foundation"];
+
+export const pythonToSwift: IdiomTable = {
+  functions: {
+    print: { template: "print(${args})", namedArguments: { sep: "separator", end: "terminator" } },
+    len: "${0}.count",
+    str: { template: { 0: "\"\"", 1: "String(describing: ${0})" } },
+    int: { template: { 1: "Int(${0})" }, note: "Int() returns nil where int() would raise" },
+    float: { template: { 1: "Double(${0})" } },
+    bool: { template: { 1: "Bool(${0})" } },
+    abs: { template: { 1: "abs(${0})" } },
+    max: { template: { 1: "${0}.max()!", 2: "max(${0}, ${1})" } },
+    min: { template: { 1: "${0}.min()!", 2: "min(${0}, ${1})" } },
+    sum: { template: { 1: "${0}.reduce(0, +)" } },
+    round: { template: { 1: "${0}.rounded()" }, note: "Swift rounds halves away from zero" },
+    sorted: { template: { 1: "${0}.sorted()" } },
+    reversed: { template: { 1: "Array(${0}.reversed())" } },
+    list: { template: { 0: "[]", 1: "Array(${0})" } },
+    set: { template: { 0: "Set()", 1: "Set(${0})" } },
+    enumerate: { template: { 1: "${0}.enumerated()" } },
+    zip: { template: { 2: "zip(${0}, ${1})" } },
+    range: {
+      template: {
+        1: "0..<${0}",
+        2: "${0}..<${1}",
+        3: "stride(from: ${0}, to: ${1}, by: ${2})",
+      },
+    },
+    repr: { template: { 1: "String(reflecting: ${0})" } },
+    isinstance: { template: { 2: "${0} is ${1}" } },
+    input: { template: { 0: "readLine()!" } },
+    "math.floor": { template: "floor(${0})", imports: FOUNDATION },
+    "math.ceil": { template: "ceil(${0})", imports: FOUNDATION },
+    "math.trunc": { template: "trunc(${0})", imports: FOUNDATION },
+    "math.sqrt": { template: "sqrt(${0})", imports: FOUNDATION },
+    "math.log": { template: { 1: "log(${0})" }, imports: FOUNDATION },
+    "math.log2": { template: "log2(${0})", imports: FOUNDATION },
+    "math.log10": { template: "log10(${0})", imports: FOUNDATION },
+    "math.exp": { template: "exp(${0})", imports: FOUNDATION },
+    "math.sin": { template: "sin(${0})", imports: FOUNDATION },
+    "math.cos": { template: "cos(${0})", imports: FOUNDATION },
+    "math.tan": { template: "tan(${0})", imports: FOUNDATION },
+    "math.atan2": { template: "atan2(${0}, ${1})", imports: FOUNDATION },
+    "math.pow": { template: "pow(${0}, ${1})", imports: FOUNDATION },
+    "math.isnan": "${0}.isNaN",
+    "json.loads": {
+      template: "try JSONSerialization.jsonObject(with: Data(${0}.utf8))",
+      imports: FOUNDATION,
+      note: "JSONSerialization throws, so the enclosing function must handle errors",
+    },
+    "json.dumps": {
+      template: "String(data: try JSONSerialization.data(withJSONObject: ${0}), encoding: .utf8)!",
+      imports: FOUNDATION,
+      note: "JSONSerialization throws, so the enclosing function must handle errors",
+    },
+    "random.random": "Double.random(in: 0..<1)",
+    "random.randint": "Int.random(in: ${0}...${1})",
+    "random.choice": "${0}.randomElement()!",
+    "time.time": { template: "Date().timeIntervalSince1970", imports: FOUNDATION },
+  },
+  globals: {
+    "math.pi": "Double.pi",
+    "math.e": { template: "M_E", imports: FOUNDATION },
+    "math.inf": "Double.infinity",
+    "math.nan": "Double.nan",
+  },
+  methods: {
+    append: { template: { 1: "${this}.append(${0})" } },
+    extend: { template: { 1: "${this}.append(contentsOf: ${0})" } },
+    insert: { template: { 2: "${this}.insert(${1}, at: ${0})" } },
+    pop: { template: { 0: "${this}.removeLast()", 1: "${this}.remove(at: ${0})" } },
+    index: { template: { 1: "${this}.firstIndex(of: ${0})!" } },
+    count: { template: { 1: "${this}.filter { $0 == ${0} }.count" } },
+    clear: { template: { 0: "${this}.removeAll()" } },
+    upper: { template: { 0: "${this}.uppercased()" } },
+    lower: { template: { 0: "${this}.lowercased()" } },
+    strip: { template: { 0: "${this}.trimmingCharacters(in: .whitespacesAndNewlines)" }, imports: FOUNDATION },
+    startswith: { template: { 1: "${this}.hasPrefix(${0})" } },
+    endswith: { template: { 1: "${this}.hasSuffix(${0})" } },
+    split: {
+      template: { 0: "${this}.split(separator: \" \")", 1: "${this}.components(separatedBy: ${0})" },
+      imports: FOUNDATION,
+    },
+    join: { template: { 1: "${0}.joined(separator: ${this})" } },
+    replace: { template: { 2: "${this}.replacingOccurrences(of: ${0}, with: ${1})" }, imports: FOUNDATION },
+    keys: { template: { 0: "Array(${this}.keys)" } },
+    values: { template: { 0: "Array(${this}.values)" } },
+    items: { template: { 0: "Array(${this})" } },
+    get: { template: { 1: "${this}[${0}]", 2: "${this}[${0}, default: ${1}]" } },
+    sort: { template: { 0: "${this}.sort()" } },
+    reverse: { template: { 0: "${this}.reverse()" } },
+  },
+  properties: {},
+  operators: {
+    in: "${right}.contains(${left})",
+    "**": { template: "pow(${left}, ${right})", imports: FOUNDATION },
+  },
+};
@@ -0,0 +1,42 @@
+import type { BinaryOperator } from "../ir";
+
+/**
+ * How one library construct is written in the target language.
+ *
+ * Templates are target code with placeholders: `${this}` for the receiver of
+ * a method or property, `${0}`, `${1}`, ... for positional arguments,
+ * `${args}` for the whole argument list, and `${left}`/`${right}` for the
+ * operands of an operator. A plain string is a template with no extras.
+ */
+export type IdiomEntry = string | IdiomRule;
+
+export interface IdiomRule {
+  // One template, or one per positional argument count; other counts are left unmapped
+  template?: string | Record<number, string>;
+  // Template for argument counts `template` does not list, e.g. `min(a, b, c)`
+  variadic?: string;
+  // Templates for a subject of one inferred type, tried before `template`. The subject is the
+  // receiver, the left operand or the first argument; rules with no `template` map only these
+  typed?: Partial<Record<"string" | "array" | "dict", string>>;
+  // Lines the template needs at the top of the output, e.g. "import math"
+  imports?: string[];
+  // Target names for keyword arguments; any other keyword argument is dropped with a warning
+  namedArguments?: Record<string, string>;
+  // Behavioural difference a reviewer should know about, reported as an info diagnostic
+  note?: string;
+  // Template for a callback that takes the element's index as well, as in `forEach((item, i) => ...)`
+  indexed?: string;
+}
+
+/** Library mappings for one directed language pair. */
+export interface IdiomTable {
+  // Free functions and dotted globals in call position, e.g. "len" or "Math.floor"
+  functions: Record<string, IdiomEntry>;
+  // Dotted globals used as values, e.g. "Math.PI"
+  globals: Record<string, IdiomEntry>;
+  // Methods, whatever the receiver, e.g. "push"
+  methods: Record<string, IdiomEntry>;
+  // Properties read from any receiver, e.g. "length"
+  properties: Record<string, IdiomEntry>;
+  operators: Partial<Record<BinaryOperator, IdiomEntry>>;
+}
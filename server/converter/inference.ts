@@ -0,0 +1,872 @@
+import type * as ir from "./ir";
+import { someNodeInScope, walk } from "./walk";
+
+/**
+ * Language-neutral value types. `none` is the type of `null`/`None` on its
+ * own; joined with anything else it becomes an optional.
+ */
+export type Type =
+  | { kind: "int" | "double" | "string" | "bool" | "none" | "void" | "any" }
+  | { kind: "array"; element: Type }
+  | { kind: "dict"; key: Type; value: Type }
+  | { kind: "optional"; wrapped: Type }
+  | { kind: "class"; name: string };
+
+export type FunctionLike = ir.FunctionDeclaration | ir.MethodDefinition | ir.FunctionExpression;
+
+/** What the inference pass found out about one module. */
+export interface TypeInfo {
+  typeOf(expression: ir.Expression): Type;
+  parameter(param: ir.Parameter): Type;
+  // `void` when the function never returns a value
+  returns(fn: FunctionLike): Type;
+  // Type of the variable a declaration target or reference names
+  variable(identifier: ir.Identifier): Type;
+  // Instance properties of a class, from field declarations and `this.x = ...` assignments
+  properties(node: ir.ClassDeclaration): [string, Type][];
+}
+
+export const ANY: Type = { kind: "any" };
+const INT: Type = { kind: "int" };
+const DOUBLE: Type = { kind: "double" };
+const STRING: Type = { kind: "string" };
+const BOOL: Type = { kind: "bool" };
+const NONE: Type = { kind: "none" };
+
+// Results are stable long before this on real code; the cap guards against oscillation
+const MAX_ROUNDS = 10;
+
+export function inferTypes(module: ir.Module): TypeInfo {
+  return new TypeInference(module).run();
+}
+
+export function isNumeric(type: Type): boolean {
+  return type.kind === "int" || type.kind === "double";
+}
+
+export function isKnown(type: Type): boolean {
+  return type.kind !== "any" && type.kind !== "none";
+}
+
+/** Least common type of two types; undefined stands for "nothing known yet". */
+export function join(a: Type | undefined, b: Type | undefined): Type | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  if (typeKey(a) === typeKey(b)) return a;
+  if (a.kind === "any" || b.kind === "any") return ANY;
+  if (a.kind === "none") return optional(b);
+  if (b.kind === "none") return optional(a);
+  if (a.kind === "optional" || b.kind === "optional") {
+    const wrapped = join(unwrap(a), unwrap(b))!;
+    return wrapped.kind === "any" ? ANY : optional(wrapped);
+  }
+  if (isNumeric(a) && isNumeric(b)) return DOUBLE;
+  if (a.kind === "array" && b.kind === "array") return { kind: "array", element: joinKnown(a.element, b.element) };
+  if (a.kind === "dict" && b.kind === "dict") {
+    return { kind: "dict", key: joinKnown(a.key, b.key), value: joinKnown(a.value, b.value) };
+  }
+  return ANY;
+}
+
+// Inside containers an unknown part is recorded as `any` until something better turns up
+function joinKnown(a: Type, b: Type): Type {
+  if (a.kind === "any" && b.kind !== "any") return b;
+  if (b.kind === "any") return a;
+  return join(a, b)!;
+}
+
+function optional(type: Type): Type {
+  if (type.kind === "optional" || type.kind === "none" || type.kind === "any") return type;
+  return { kind: "optional", wrapped: type };
+}
+
+function unwrap(type: Type): Type {
+  return type.kind === "optional" ? type.wrapped : type;
+}
+
+function typeKey(type: Type): string {
+  switch (type.kind) {
+    case "array":
+      return `[${typeKey(type.element)}]`;
+    case "dict":
+      return `[${typeKey(type.key)}:${typeKey(type.value)}]`;
+    case "optional":
+      return `${typeKey(type.wrapped)}?`;
+    case "class":
+      return `class ${type.name}`;
+    default:
+      return type.kind;
+  }
+}
+
+function elementOf(type: Type | undefined): Type | undefined {
+  if (!type) return undefined;
+  switch (type.kind) {
+    case "array":
+      return type.element;
+    case "dict":
+      return type.key;
+    case "string":
+      return STRING;
+    default:
+      return ANY;
+  }
+}
+
+interface Binding {
+  type?: Type;
+  // Weaker evidence, such as a parameter used in arithmetic, used only when nothing else is known
+  hint?: Type;
+  // Set when the name is bound to a function or class declaration
+  fn?: FunctionLike;
+  cls?: ir.ClassDeclaration;
+}
+
+class Scope {
+  private readonly bindings = new Map<string, Binding>();
+
+  constructor(readonly parent?: Scope) {}
+
+  declare(name: string, binding: Binding = {}): Binding {
+    const existing = this.bindings.get(name);
+    if (existing) return existing;
+    this.bindings.set(name, binding);
+    return binding;
+  }
+
+  lookup(name: string): Binding | undefined {
+    return this.bindings.get(name) ?? this.parent?.lookup(name);
+  }
+}
+
+// Array methods whose callback receives the elements
+const ELEMENT_CALLBACKS = new Set(["map", "filter", "forEach", "find", "findIndex", "some", "every", "flatMap", "sort"]);
+
+const STRING_METHODS = new Set([
+  "toUpperCase", "toLowerCase", "trim", "trimStart", "trimEnd", "padStart", "padEnd", "charAt", "substring",
+  "toFixed", "repeat", "upper", "lower", "strip", "lstrip", "rstrip", "capitalize", "title", "format", "toString",
+]);
+const BOOL_METHODS = new Set([
+  "includes", "startsWith", "endsWith", "some", "every", "startswith", "endswith", "isdigit", "isalpha", "has",
+]);
+const INT_METHODS = new Set(["indexOf", "lastIndexOf", "findIndex", "index", "count", "find", "charCodeAt"]);
+// Methods returning a value of the receiver's own type
+const SAME_METHODS = new Set(["filter", "slice", "concat", "reverse", "sort", "copy", "splice"]);
+
+class TypeInference implements TypeInfo {
+  private readonly module: ir.Module;
+  private readonly python: boolean;
+  private readonly references = new Map<ir.Identifier, Binding>();
+  private readonly params = new Map<ir.Parameter, Binding>();
+  private readonly paramBindings = new Set<Binding>();
+  private readonly results = new Map<FunctionLike, Binding>();
+  private readonly classes = new Map<string, ir.ClassDeclaration>();
+  private readonly instanceProperties = new Map<ir.ClassDeclaration, Map<string, Binding>>();
+  // Class whose instance `this` refers to, per `this` expression
+  private readonly thisClass = new Map<ir.ThisExpression, ir.ClassDeclaration>();
+  private cache = new Map<ir.Expression, Type | undefined>();
+  private changed = false;
+
+  constructor(module: ir.Module) {
+    this.module = module;
+    this.python = module.sourceLanguage === "python";
+  }
+
+  run(): TypeInfo {
+    const scope = new Scope();
+    this.declare(this.module.body, scope);
+    this.resolve(this.module.body, scope);
+
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      this.changed = false;
+      this.cache = new Map();
+      this.constrain(this.module.body, undefined);
+      if (!this.changed) break;
+    }
+    this.cache = new Map();
+    return this;
+  }
+
+  // -------------------------------------------------------------------------
+  // Results
+  // -------------------------------------------------------------------------
+
+  typeOf(expression: ir.Expression): Type {
+    return this.expressionType(expression) ?? ANY;
+  }
+
+  parameter(param: ir.Parameter): Type {
+    const binding = this.params.get(param);
+    const type = binding?.type ?? binding?.hint ?? ANY;
+    return param.rest ? { kind: "array", element: type } : type;
+  }
+
+  returns(fn: FunctionLike): Type {
+    // A generator returns its iterator, whatever its `return` statements say
+    if (fn.isGenerator) return ANY;
+    const type = this.results.get(fn)?.type;
+    if (type) return type;
+    const returnsValue =
+      (fn.kind === "FunctionExpression" && !!fn.expressionBody) ||
+      someNodeInScope(fn.body, (node) => node.kind === "ReturnStatement" && !!node.argument);
+    return returnsValue ? ANY : { kind: "void" };
+  }
+
+  variable(identifier: ir.Identifier): Type {
+    const binding = this.references.get(identifier);
+    return binding?.type ?? binding?.hint ?? ANY;
+  }
+
+  properties(node: ir.ClassDeclaration): [string, Type][] {
+    const properties = this.instanceProperties.get(node) ?? new Map<string, Binding>();
+    return Array.from(properties.entries()).map(([name, binding]) => [name, binding.type ?? ANY]);
+  }
+
+  // -------------------------------------------------------------------------
+  // Binding names to declarations
+  // -------------------------------------------------------------------------
+
+  // Declares the names a function or module body binds, without entering nested functions
+  private declare(root: unknown, scope: Scope): void {
+    walk(root, (node) => {
+      switch (node.kind) {
+        case "FunctionDeclaration":
+          scope.declare(node.name).fn = node;
+          return false;
+        case "ClassDeclaration":
+          scope.declare(node.name).cls = node;
+          this.classes.set(node.name, node);
+          return false;
+        case "FunctionExpression":
+          return false;
+        case "VariableDeclaration":
+          for (const declaration of node.declarations) this.declarePattern(declaration.target, scope);
+          break;
+        case "ForEachStatement":
+          this.declarePattern(node.target, scope);
+          break;
+        case "TryStatement":
+          for (const handler of node.handlers) if (handler.param) scope.declare(handler.param);
+          break;
+        case "WithStatement":
+          for (const item of node.items) if (item.target) this.declarePattern(item.target, scope);
+          break;
+        case "ComprehensionExpression":
+          for (const clause of node.clauses) this.declarePattern(clause.target, scope);
+          break;
+      }
+    });
+  }
+
+  private declarePattern(pattern: ir.Pattern, scope: Scope): void {
+    switch (pattern.kind) {
+      case "Identifier":
+        scope.declare(pattern.name);
+        break;
+      case "ArrayPattern":
+        for (const element of pattern.elements) if (element) this.declarePattern(element, scope);
+        break;
+      case "ObjectPattern":
+        for (const property of pattern.properties) this.declarePattern(property.value, scope);
+        if (pattern.rest) scope.declare(pattern.rest.name);
+        break;
+    }
+  }
+
+  // Links every identifier to its binding; names declared nowhere become module-level bindings
+  private resolve(root: unknown, scope: Scope, cls?: ir.ClassDeclaration): void {
+    walk(root, (node) => {
+      switch (node.kind) {
+        case "Identifier": {
+          let binding = scope.lookup(node.name);
+          if (!binding) {
+            let outermost = scope;
+            while (outermost.parent) outermost = outermost.parent;
+            binding = outermost.declare(node.name);
+          }
+          this.references.set(node, binding);
+          return false;
+        }
+        case "ThisExpression":
+          if (cls) this.thisClass.set(node, cls);
+          return false;
+        case "MemberExpression":
+          this.resolve(node.object, scope, cls);
+          if (node.computed) this.resolve(node.property, scope, cls);
+          return false;
+        case "ObjectExpression":
+          for (const property of node.properties) {
+            if ("kind" in property) {
+              this.resolve(property, scope, cls);
+            } else {
+              if (property.computed) this.resolve(property.key, scope, cls);
+              this.resolve(property.value, scope, cls);
+            }
+          }
+          return false;
+        case "FunctionDeclaration":
+        case "FunctionExpression":
+          this.enterFunction(node, scope, cls);
+          return false;
+        case "ClassDeclaration":
+          if (node.superClass) this.resolve(node.superClass, scope, cls);
+          this.resolve(node.decorators, scope, cls);
+          for (const member of node.members) {
+            if (member.kind === "MethodDefinition") {
+              this.resolve(member.decorators, scope, node);
+              this.enterFunction(member, scope, node);
+            } else if (member.value) {
+              this.resolve(member.value, scope, node);
+            }
+          }
+          return false;
+      }
+    });
+  }
+
+  private enterFunction(fn: FunctionLike, parent: Scope, cls?: ir.ClassDeclaration): void {
+    if (fn.kind === "FunctionDeclaration") this.resolve(fn.decorators, parent, cls);
+    this.results.set(fn, {});
+
+    const scope = new Scope(parent);
+    for (const param of fn.params) {
+      const binding = scope.declare(param.name);
+      this.params.set(param, binding);
+      this.paramBindings.add(binding);
+      if (param.defaultValue) this.resolve(param.defaultValue, parent, cls);
+    }
+    // A named function expression can refer to itself
+    if (fn.kind === "FunctionExpression" && fn.name) scope.declare(fn.name).fn = fn;
+
+    const body = fn.kind === "FunctionExpression" && fn.expressionBody ? fn.expressionBody : fn.body;
+    this.declare(body, scope);
+    this.resolve(body, scope, cls);
+  }
+
+  // -------------------------------------------------------------------------
+  // Constraints
+  // -------------------------------------------------------------------------
+
+  private assign(binding: Binding | undefined, type: Type | undefined): void {
+    if (!binding || !type) return;
+    const joined = join(binding.type, type);
+    if (joined && (!binding.type || typeKey(joined) !== typeKey(binding.type))) {
+      binding.type = joined;
+      this.changed = true;
+    }
+  }
+
+  private hint(expression: ir.Expression, type: Type): void {
+    if (expression.kind !== "Identifier") return;
+    const binding = this.references.get(expression);
+    if (binding && !binding.type && !binding.hint && this.paramBindings.has(binding)) {
+      binding.hint = type;
+      this.changed = true;
+    }
+  }
+
+  private assignPattern(pattern: ir.Pattern, type: Type | undefined): void {
+    switch (pattern.kind) {
+      case "Identifier":
+        this.assign(this.references.get(pattern), type);
+        break;
+      case "ArrayPattern":
+        pattern.elements.forEach((element, index) => {
+          if (!element) return;
+          const isRest = pattern.rest && index === pattern.elements.length - 1;
+          this.assignPattern(element, isRest ? type : elementOf(type));
+        });
+        break;
+      case "ObjectPattern":
+        for (const property of pattern.properties) {
+          this.assignPattern(property.value, type?.kind === "dict" ? type.value : undefined);
+        }
+        if (pattern.rest) this.assignPattern(pattern.rest, type);
+        break;
+    }
+  }
+
+  private property(cls: ir.ClassDeclaration, name: string): Binding {
+    let properties = this.instanceProperties.get(cls);
+    if (!properties) {
+      properties = new Map();
+      this.instanceProperties.set(cls, properties);
+    }
+    let binding = properties.get(name);
+    if (!binding) {
+      binding = {};
+      properties.set(name, binding);
+    }
+    return binding;
+  }
+
+  // Property binding behind `object.name`, when `object` is an instance of a class in the module
+  private memberBinding(member: ir.MemberExpression): Binding | undefined {
+    if (member.computed || member.property.kind !== "Identifier") return undefined;
+    const cls = this.classOf(member.object);
+    if (!cls) return undefined;
+    const name = member.property.name;
+    for (let current: ir.ClassDeclaration | undefined = cls; current; current = this.superClass(current)) {
+      const existing = this.instanceProperties.get(current)?.get(name);
+      if (existing) return existing;
+    }
+    return this.property(cls, name);
+  }
+
+  private classOf(expression: ir.Expression): ir.ClassDeclaration | undefined {
+    if (expression.kind === "ThisExpression") return this.thisClass.get(expression);
+    const type = this.expressionType(expression);
+    return type?.kind === "class" ? this.classes.get(type.name) : undefined;
+  }
+
+  private superClass(cls: ir.ClassDeclaration): ir.ClassDeclaration | undefined {
+    return cls.superClass?.kind === "Identifier" ? this.classes.get(cls.superClass.name) : undefined;
+  }
+
+  private method(cls: ir.ClassDeclaration | undefined, name: string): ir.MethodDefinition | undefined {
+    for (let current = cls; current; current = this.superClass(current)) {
+      const found = current.members.find(
+        (member): member is ir.MethodDefinition => member.kind === "MethodDefinition" && member.name === name
+      );
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  // Function a call reaches, when it can be told statically
+  private callee(callee: ir.Expression): FunctionLike | undefined {
+    if (callee.kind === "Identifier") {
+      const binding = this.references.get(callee);
+      if (binding?.fn) return binding.fn;
+      if (binding?.cls) return this.method(binding.cls, "constructor");
+      return undefined;
+    }
+    if (callee.kind === "MemberExpression" && !callee.computed && callee.property.kind === "Identifier") {
+      const method = this.method(this.classOf(callee.object), callee.property.name);
+      return method?.role === "method" ? method : undefined;
+    }
+    if (callee.kind === "FunctionExpression") return callee;
+    return undefined;
+  }
+
+  private passArguments(fn: FunctionLike | undefined, args: ir.Expression[]): void {
+    if (!fn) return;
+    const positional = args.filter((arg) => arg.kind !== "NamedArgument");
+    // A rest parameter takes every positional argument from its own on
+    const restIndex = fn.params.findIndex((candidate) => candidate.rest);
+    positional.forEach((arg, index) => {
+      if (arg.kind === "SpreadElement") return;
+      const param = restIndex >= 0 && index >= restIndex ? fn.params[restIndex] : fn.params[index];
+      if (!param || param.keywords) return;
+      this.assign(this.params.get(param), this.expressionType(arg));
+    });
+    for (const arg of args) {
+      if (arg.kind !== "NamedArgument") continue;
+      const param = fn.params.find((candidate) => candidate.name === arg.name);
+      if (param) this.assign(this.params.get(param), this.expressionType(arg.value));
+    }
+  }
+
+  // Applies the constraints of every node below `root`; `fn` is the function being walked
+  private constrain(root: unknown, fn: FunctionLike | undefined, cls?: ir.ClassDeclaration): void {
+    walk(root, (node) => {
+      switch (node.kind) {
+        case "FunctionDeclaration":
+        case "FunctionExpression":
+          this.constrainFunction(node, cls);
+          return false;
+
+        case "ClassDeclaration":
+          for (const member of node.members) {
+            if (member.kind === "MethodDefinition") {
+              this.constrainFunction(member, node);
+            } else if (member.value) {
+              this.constrain(member.value, fn, node);
+              if (!member.isStatic) this.assign(this.property(node, member.name), this.expressionType(member.value));
+            }
+          }
+          return false;
+
+        case "VariableDeclaration":
+          for (const { target, init } of node.declarations) {
+            if (init) this.assignPattern(target, this.expressionType(init));
+            // A parameter destructured by name holds an object
+            if (init && target.kind === "ObjectPattern") this.hint(init, { kind: "dict", key: STRING, value: ANY });
+          }
+          break;
+
+        case "ReturnStatement":
+          if (fn && node.argument) this.assign(this.results.get(fn), this.expressionType(node.argument));
+          break;
+
+        case "ForEachStatement": {
+          const iterable = this.expressionType(node.iterable);
+          if (node.over === "keys") {
+            this.assignPattern(node.target, iterable?.kind === "dict" ? iterable.key : this.python ? elementOf(iterable) : STRING);
+          } else {
+            this.assignPattern(node.target, elementOf(iterable));
+          }
+          break;
+        }
+
+        case "ComprehensionExpression":
+          for (const clause of node.clauses) this.assignPattern(clause.target, elementOf(this.expressionType(clause.iterable)));
+          break;
+
+        case "AssignmentExpression":
+          this.constrainAssignment(node);
+          break;
+
+        case "UpdateExpression":
+          if (node.argument.kind === "Identifier") this.assign(this.references.get(node.argument), INT);
+          break;
+
+        case "BinaryExpression":
+          this.constrainOperands(node);
+          break;
+
+        case "CallExpression":
+          this.constrainCall(node);
+          break;
+
+        case "NewExpression":
+          this.passArguments(this.callee(node.callee), node.arguments);
+          break;
+      }
+    });
+  }
+
+  private constrainFunction(fn: FunctionLike, cls: ir.ClassDeclaration | undefined): void {
+    for (const param of fn.params) {
+      if (param.defaultValue) {
+        this.constrain(param.defaultValue, fn, cls);
+        this.assign(this.params.get(param), this.expressionType(param.defaultValue));
+      }
+    }
+    if (fn.kind === "FunctionExpression" && fn.expressionBody) {
+      this.constrain(fn.expressionBody, fn, cls);
+      this.assign(this.results.get(fn), this.expressionType(fn.expressionBody));
+      return;
+    }
+    this.constrain(fn.body, fn, cls);
+  }
+
+  private constrainAssignment(node: ir.AssignmentExpression): void {
+    const value = this.expressionType(node.value);
+    let type: Type | undefined = value;
+    if (node.operator !== "=" && node.operator !== "??=" && node.target.kind !== "ArrayPattern" && node.target.kind !== "ObjectPattern") {
+      const current = this.expressionType(node.target);
+      type = arithmetic(node.operator.slice(0, -1), current, value, this.python);
+    }
+
+    if (node.target.kind === "MemberExpression") {
+      this.assign(this.memberBinding(node.target), type);
+      // `items[i] = value` tells us about the element type of `items`
+      if (node.target.computed && node.target.object.kind === "Identifier" && node.operator === "=") {
+        const container = this.expressionType(node.target.object);
+        if (container?.kind === "array") this.assign(this.references.get(node.target.object), { kind: "array", element: value ?? ANY });
+      }
+      return;
+    }
+    const target = node.target;
+    if (target.kind === "Identifier" || target.kind === "ArrayPattern" || target.kind === "ObjectPattern") {
+      this.assignPattern(target, type);
+    }
+  }
+
+  // A parameter used in arithmetic or an ordering comparison with a number is probably a number
+  private constrainOperands(node: ir.BinaryExpression): void {
+    if (!["-", "*", "/", "//", "%", "**", "<", "<=", ">", ">="].includes(node.operator)) return;
+    const left = this.expressionType(node.left);
+    const right = this.expressionType(node.right);
+    if (right && isNumeric(right)) this.hint(node.left, right);
+    if (left && isNumeric(left)) this.hint(node.right, left);
+  }
+
+  private constrainCall(node: ir.CallExpression): void {
+    const fn = this.callee(node.callee);
+    this.passArguments(fn, node.arguments);
+
+    const { callee } = node;
+    if (callee.kind !== "MemberExpression" || callee.computed || callee.property.kind !== "Identifier") return;
+    const method = callee.property.name;
+    const receiver = this.expressionType(callee.object);
+
+    // Growing a list refines its element type
+    if (["push", "append", "unshift", "insert"].includes(method) && callee.object.kind === "Identifier") {
+      const added = node.arguments[method === "insert" ? 1 : 0];
+      const binding = this.references.get(callee.object);
+      if (added && binding && (!receiver || receiver.kind === "array")) {
+        this.assign(binding, { kind: "array", element: this.expressionType(added) ?? ANY });
+      }
+    }
+
+    // Callbacks of array methods receive the elements
+    if (receiver?.kind === "array") {
+      const callback = node.arguments[0];
+      if (callback?.kind !== "FunctionExpression") return;
+      // An `any` element is not known yet, e.g. that of a `map` whose callback is still being typed
+      const element = receiver.element.kind === "any" ? undefined : receiver.element;
+      if (ELEMENT_CALLBACKS.has(method) && callback.params[0]) {
+        this.assign(this.params.get(callback.params[0]), element);
+        if (method === "sort" && callback.params[1]) this.assign(this.params.get(callback.params[1]), element);
+        if (method !== "sort" && callback.params[1]) this.assign(this.params.get(callback.params[1]), INT);
+      } else if (method === "reduce") {
+        const initial = node.arguments[1];
+        if (callback.params[0]) this.assign(this.params.get(callback.params[0]), initial ? this.expressionType(initial) : element);
+        if (callback.params[1]) this.assign(this.params.get(callback.params[1]), element);
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Expression types
+  // -------------------------------------------------------------------------
+
+  private expressionType(expression: ir.Expression): Type | undefined {
+    if (this.cache.has(expression)) return this.cache.get(expression);
+    // Guards against cycles such as `x = x + 1` while the result is being computed
+    this.cache.set(expression, undefined);
+    const type = this.computeType(expression);
+    this.cache.set(expression, type);
+    return type;
+  }
+
+  private computeType(expression: ir.Expression): Type | undefined {
+    switch (expression.kind) {
+      case "Identifier": {
+        if (expression.name === "NaN" || expression.name === "Infinity") return DOUBLE;
+        const binding = this.references.get(expression);
+        if (binding?.cls) return undefined;
+        return binding?.type ?? binding?.hint;
+      }
+
+      case "Literal":
+        if (expression.value === null) return NONE;
+        if (typeof expression.value === "string") return STRING;
+        if (typeof expression.value === "boolean") return BOOL;
+        return Number.isInteger(expression.value) && !/[.eE]/.test(expression.raw ?? "") ? INT : DOUBLE;
+
+      case "TemplateLiteral":
+        return STRING;
+
+      case "ArrayExpression": {
+        let element: Type | undefined;
+        for (const item of expression.elements) {
+          element = join(element, item.kind === "SpreadElement" ? elementOf(this.expressionType(item.argument)) : this.expressionType(item));
+        }
+        return { kind: "array", element: element ?? ANY };
+      }
+
+      case "ObjectExpression": {
+        let value: Type | undefined;
+        for (const property of expression.properties) {
+          if ("kind" in property) return { kind: "dict", key: STRING, value: ANY };
+          value = join(value, this.expressionType(property.value));
+        }
+        return { kind: "dict", key: STRING, value: value ?? ANY };
+      }
+
+      case "BinaryExpression": {
+        const left = this.expressionType(expression.left);
+        const right = this.expressionType(expression.right);
+        return binaryType(expression.operator, left, right, this.python);
+      }
+
+      case "LogicalExpression": {
+        const left = this.expressionType(expression.left);
+        const right = this.expressionType(expression.right);
+        return expression.operator === "??" ? join(left && unwrap(left), right) : join(left, right);
+      }
+
+      case "UnaryExpression":
+        switch (expression.operator) {
+          case "!":
+          case "delete":
+            return BOOL;
+          case "typeof":
+            return STRING;
+          case "void":
+            return NONE;
+          case "~":
+            return INT;
+          default: {
+            const argument = this.expressionType(expression.argument);
+            return argument && isNumeric(argument) ? argument : undefined;
+          }
+        }
+
+      case "UpdateExpression":
+        return this.expressionType(expression.argument) ?? INT;
+
+      case "AssignmentExpression":
+        return this.expressionType(expression.value);
+
+      case "CallExpression":
+        return this.callType(expression);
+
+      case "NewExpression":
+        if (expression.callee.kind === "Identifier" && this.classes.has(expression.callee.name)) {
+          return { kind: "class", name: expression.callee.name };
+        }
+        return undefined;
+
+      case "MemberExpression":
+        return this.memberType(expression);
+
+      case "ConditionalExpression":
+        return join(this.expressionType(expression.consequent), this.expressionType(expression.alternate));
+
+      case "SpreadElement":
+        return elementOf(this.expressionType(expression.argument));
+
+      case "SequenceExpression":
+        return this.expressionType(expression.expressions[expression.expressions.length - 1]);
+
+      case "ComprehensionExpression": {
+        const element = this.expressionType(expression.element) ?? ANY;
+        if (expression.collection === "dict") {
+          return { kind: "dict", key: (expression.key && this.expressionType(expression.key)) ?? ANY, value: element };
+        }
+        return expression.collection === "set" ? ANY : { kind: "array", element };
+      }
+
+      case "SliceExpression":
+        return this.expressionType(expression.object);
+
+      case "ThisExpression": {
+        const cls = this.thisClass.get(expression);
+        return cls ? { kind: "class", name: cls.name } : undefined;
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  private memberType(expression: ir.MemberExpression): Type | undefined {
+    const object = this.expressionType(expression.object);
+
+    if (expression.computed) {
+      if (object?.kind === "array") return object.element;
+      if (object?.kind === "dict") return object.value;
+      if (object?.kind === "string") return STRING;
+      return undefined;
+    }
+    if (expression.property.kind !== "Identifier") return undefined;
+
+    const name = expression.property.name;
+    if (name === "length" && (!object || object.kind === "array" || object.kind === "string")) return INT;
+    if (expression.object.kind === "Identifier" && expression.object.name === "Math" && /^[A-Z0-9_]+$/.test(name)) return DOUBLE;
+    if (expression.object.kind === "Identifier" && expression.object.name === "math" && ["pi", "e", "inf", "nan", "tau"].includes(name)) {
+      return DOUBLE;
+    }
+    // A property of a JavaScript object literal, which is a dict in the other languages
+    if (!this.python && object?.kind === "dict") return object.value;
+
+    const cls = this.classOf(expression.object);
+    if (!cls) return undefined;
+    const getter = cls.members.find(
+      (member): member is ir.MethodDefinition => member.kind === "MethodDefinition" && member.role === "get" && member.name === name
+    );
+    if (getter) return this.results.get(getter)?.type;
+    return this.memberBinding(expression)?.type;
+  }
+
+  private callType(call: ir.CallExpression): Type | undefined {
+    const { callee } = call;
+    const args = call.arguments.filter((arg) => arg.kind !== "NamedArgument");
+    const first = args[0] && this.expressionType(args[0]);
+
+    if (callee.kind === "Identifier" && this.references.get(callee)?.cls) return { kind: "class", name: callee.name };
+    const fn = this.callee(callee);
+    if (fn) return this.results.get(fn)?.type;
+
+    const path = dottedName(callee);
+    switch (path) {
+      case "len": case "int": case "ord": case "parseInt": case "Math.floor": case "Math.ceil":
+      case "Math.round": case "Math.trunc": case "math.floor": case "math.ceil":
+        return INT;
+      case "float": case "parseFloat": case "Number": case "Math.sqrt": case "Math.random": case "Math.pow":
+      case "math.sqrt": case "random.random": case "Date.now":
+        return DOUBLE;
+      case "str": case "String": case "repr": case "chr": case "input": case "JSON.stringify": case "json.dumps": case "format":
+        return STRING;
+      case "bool": case "Boolean": case "isinstance": case "Array.isArray": case "isNaN": case "callable":
+        return BOOL;
+      case "range":
+        return { kind: "array", element: INT };
+      case "abs": case "Math.abs": case "round":
+        return first && isNumeric(first) ? (path === "round" && args.length === 1 ? INT : first) : undefined;
+      case "sum":
+        return elementOf(first);
+      case "min": case "max": case "Math.min": case "Math.max":
+        return args.length === 1 && !path.startsWith("Math.") ? elementOf(first) : args.map((arg) => this.expressionType(arg)).reduce(join, undefined);
+      case "sorted": case "list": case "reversed": case "Array.from":
+        return first?.kind === "array" ? first : first?.kind === "string" ? { kind: "array", element: STRING } : undefined;
+      case "Object.keys":
+        return { kind: "array", element: STRING };
+    }
+
+    if (callee.kind !== "MemberExpression" || callee.computed || callee.property.kind !== "Identifier") return undefined;
+    const method = callee.property.name;
+    const receiver = this.expressionType(callee.object);
+
+    if (STRING_METHODS.has(method)) return STRING;
+    if (BOOL_METHODS.has(method)) return BOOL;
+    if (INT_METHODS.has(method) && (method !== "find" || receiver?.kind === "string")) return INT;
+    if (method === "split") return { kind: "array", element: STRING };
+    if (method === "join") return STRING;
+    if (SAME_METHODS.has(method) && receiver && (receiver.kind === "array" || receiver.kind === "string")) return receiver;
+    if (method === "pop" || method === "shift") return receiver?.kind === "array" ? receiver.element : undefined;
+    if (method === "push") return INT;
+    if (method === "get" && receiver?.kind === "dict") return args.length > 1 ? receiver.value : join(receiver.value, NONE);
+
+    const callback = args[0];
+    if (method === "map" && callback?.kind === "FunctionExpression") {
+      return { kind: "array", element: this.results.get(callback)?.type ?? ANY };
+    }
+    if (method === "find" && receiver?.kind === "array") return join(receiver.element, NONE);
+    if (method === "reduce" && receiver?.kind === "array") {
+      return args[1] ? this.expressionType(args[1]) : receiver.element;
+    }
+    return undefined;
+  }
+}
+
+function binaryType(operator: string, left: Type | undefined, right: Type | undefined, python: boolean): Type | undefined {
+  switch (operator) {
+    case "==": case "!=": case "<": case "<=": case ">": case ">=": case "in": case "instanceof":
+      return BOOL;
+    case "&": case "|": case "^": case "<<": case ">>": case ">>>":
+      return INT;
+    default:
+      return arithmetic(operator, left, right, python);
+  }
+}
+
+function arithmetic(operator: string, left: Type | undefined, right: Type | undefined, python: boolean): Type | undefined {
+  if (operator === "+") {
+    if (left?.kind === "string" || right?.kind === "string") return python && left?.kind !== right?.kind ? undefined : STRING;
+    if (left?.kind === "array" && right?.kind === "array") return join(left, right);
+  }
+  if (operator === "*" && python && left?.kind === "string") return STRING;
+  if (operator === "??") return join(left && unwrap(left), right);
+  if (operator === "||" || operator === "&&") return join(left, right);
+
+  if (!left || !right || !isNumeric(left) || !isNumeric(right)) {
+    // One known numeric side is enough to guess, e.g. `n - 1` with `n` still unknown
+    const known = left && isNumeric(left) ? left : right && isNumeric(right) ? right : undefined;
+    if (!known || (left && !isNumeric(left)) || (right && !isNumeric(right))) return undefined;
+    return operator === "/" ? DOUBLE : known;
+  }
+  if (operator === "/") return DOUBLE;
+  return join(left, right);
+}
+
+function dottedName(expression: ir.Expression): string | undefined {
+  if (expression.kind === "Identifier") return expression.name;
+  if (expression.kind !== "MemberExpression" || expression.computed || expression.property.kind !== "Identifier") return undefined;
+  const object = dottedName(expression.object);
+  return object && `${object}.${expression.property.name}`;
+}
@@ -0,0 +1,562 @@
+/**
+ * Language-neutral intermediate representation (IR).
+ *
+ * Parsers lower their source AST into these nodes and emitters print target
+ * code from them, so a parser never needs to know which emitter will run.
+ */
+
+export interface Position {
+  // 1-based line number
+  line: number;
+  // 0-based column
+  column: number;
+}
+
+export interface SourceRange {
+  start: Position;
+  end: Position;
+}
+
+interface BaseNode {
+  loc?: SourceRange;
+}
+
+export interface Comment {
+  text: string;
+  // Block comments (`/* */`) as opposed to line comments
+  block: boolean;
+  loc?: SourceRange;
+}
+
+export interface DocParam {
+  name: string;
+  // Type as written in the source documentation, e.g. "number" or "list[int]"
+  type?: string;
+  description: string;
+}
+
+/** Documentation of a declaration, from a JSDoc block or a docstring. */
+export interface DocComment {
+  // Free text before the tagged sections; paragraphs are separated by blank lines
+  description: string;
+  params: DocParam[];
+  returns?: { type?: string; description: string };
+  throws: { type?: string; description: string }[];
+  loc?: SourceRange;
+}
+
+/** Base for statements and class members, which can carry source comments. */
+interface BaseStatement extends BaseNode {
+  leadingComments?: Comment[];
+  // Comments left over at the end of the enclosing block
+  trailingComments?: Comment[];
+  // Comment after the statement on its last line
+  inlineComment?: Comment;
+  // JSDoc block above the statement, or the docstring of a Python def or class
+  doc?: DocComment;
+}
+
+export interface Module extends BaseNode {
+  kind: "Module";
+  // Language the module was parsed from; emitters pick library mappings by it
+  sourceLanguage: string;
+  body: Statement[];
+  // Set by the module graph when other modules of the project import this one: the names they
+  // import from it, leaving out modules only imported whole, as by `import * as m`
+  importedNames?: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Patterns and parameters
+// ---------------------------------------------------------------------------
+
+export interface ArrayPattern extends BaseNode {
+  kind: "ArrayPattern";
+  elements: (Pattern | null)[];
+  // The last element collects the remaining items (`[first, ...rest]`)
+  rest?: boolean;
+  // Default of each element the source gives one (`[a, b = 9]`), by index
+  defaults?: (Expression | null)[];
+}
+
+export interface ObjectPattern extends BaseNode {
+  kind: "ObjectPattern";
+  properties: { key: string; value: Pattern; defaultValue?: Expression }[];
+  // Collects the properties not named before it (`{ a, ...others }`)
+  rest?: Identifier;
+}
+
+export type Pattern = Identifier | ArrayPattern | ObjectPattern;
+
+export interface Parameter extends BaseNode {
+  name: string;
+  defaultValue?: Expression;
+  rest?: boolean;
+  // Python's `**kwargs`, which takes the keyword arguments no other parameter does
+  keywords?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Statements
+// ---------------------------------------------------------------------------
+
+// How a top-level declaration is exported from its module, e.g. `export function` or `export default class`
+export type ExportKind = "named" | "default";
+
+export interface FunctionDeclaration extends BaseStatement {
+  kind: "FunctionDeclaration";
+  name: string;
+  params: Parameter[];
+  body: Statement[];
+  isAsync: boolean;
+  isGenerator: boolean;
+  // Python-style decorators, outermost first
+  decorators?: Expression[];
+  exported?: ExportKind;
+}
+
+export interface MethodDefinition extends BaseStatement {
+  kind: "MethodDefinition";
+  role: "constructor" | "method" | "get" | "set";
+  name: string;
+  isStatic: boolean;
+  isAsync: boolean;
+  isGenerator?: boolean;
+  params: Parameter[];
+  body: Statement[];
+  decorators?: Expression[];
+}
+
+export interface PropertyDefinition extends BaseStatement {
+  kind: "PropertyDefinition";
+  name: string;
+  isStatic: boolean;
+  value?: Expression;
+}
+
+export type ClassMember = MethodDefinition | PropertyDefinition;
+
+export interface ClassDeclaration extends BaseStatement {
+  kind: "ClassDeclaration";
+  name: string;
+  superClass?: Expression;
+  members: ClassMember[];
+  decorators?: Expression[];
+  exported?: ExportKind;
+}
+
+export interface VariableDeclarator extends BaseNode {
+  target: Pattern;
+  init?: Expression;
+}
+
+export interface VariableDeclaration extends BaseStatement {
+  kind: "VariableDeclaration";
+  // True for bindings that are never reassigned (`const` in JavaScript)
+  constant: boolean;
+  // True for bindings that end with their block (`let` and `const` in JavaScript)
+  blockScoped?: boolean;
+  declarations: VariableDeclarator[];
+  exported?: ExportKind;
+}
+
+export interface ExpressionStatement extends BaseStatement {
+  kind: "ExpressionStatement";
+  expression: Expression;
+}
+
+export interface ReturnStatement extends BaseStatement {
+  kind: "ReturnStatement";
+  argument?: Expression;
+}
+
+export interface IfStatement extends BaseStatement {
+  kind: "IfStatement";
+  test: Expression;
+  consequent: Statement[];
+  // An `else if` chain is represented as a single nested IfStatement
+  alternate?: Statement[];
+}
+
+export interface WhileStatement extends BaseStatement {
+  kind: "WhileStatement";
+  test: Expression;
+  body: Statement[];
+}
+
+export interface DoWhileStatement extends BaseStatement {
+  kind: "DoWhileStatement";
+  test: Expression;
+  body: Statement[];
+}
+
+/** C-style `for (init; test; update)` loop. */
+export interface ForStatement extends BaseStatement {
+  kind: "ForStatement";
+  init?: VariableDeclaration | Expression;
+  test?: Expression;
+  update?: Expression;
+  body: Statement[];
+}
+
+/** Loop over the values (or keys) of an iterable. */
+export interface ForEachStatement extends BaseStatement {
+  kind: "ForEachStatement";
+  target: Pattern;
+  iterable: Expression;
+  over: "values" | "keys";
+  body: Statement[];
+}
+
+export interface SwitchCase extends BaseNode {
+  // Undefined for the `default` case
+  test?: Expression;
+  body: Statement[];
+}
+
+export interface SwitchStatement extends BaseStatement {
+  kind: "SwitchStatement";
+  discriminant: Expression;
+  cases: SwitchCase[];
+}
+
+export interface BreakStatement extends BaseStatement {
+  kind: "BreakStatement";
+}
+
+export interface ContinueStatement extends BaseStatement {
+  kind: "ContinueStatement";
+}
+
+export interface ThrowStatement extends BaseStatement {
+  kind: "ThrowStatement";
+  argument: Expression;
+}
+
+export interface CatchClause extends BaseNode {
+  param?: string;
+  // Exception classes this clause handles; undefined catches everything
+  types?: Expression[];
+  body: Statement[];
+}
+
+export interface TryStatement extends BaseStatement {
+  kind: "TryStatement";
+  block: Statement[];
+  // Tried in order, like Python `except` clauses
+  handlers: CatchClause[];
+  // Python's `else` block, run when the try block raised nothing
+  orelse?: Statement[];
+  finalizer?: Statement[];
+}
+
+export interface WithItem extends BaseNode {
+  context: Expression;
+  target?: Pattern;
+}
+
+/** Python `with` block: each context is released when the body exits. */
+export interface WithStatement extends BaseStatement {
+  kind: "WithStatement";
+  items: WithItem[];
+  body: Statement[];
+}
+
+export interface BlockStatement extends BaseStatement {
+  kind: "BlockStatement";
+  body: Statement[];
+}
+
+/**
+ * The module an import names: a file relative to the importing one, or a
+ * package such as "fs" or "os.path".
+ */
+export interface ModuleReference {
+  // Directories up from the importing file's own; undefined for packages
+  parents?: number;
+  // Path below that directory without an extension, or the package name split on dots
+  path: string[];
+  // The reference names a directory: its index.js or __init__.py
+  isPackage?: boolean;
+}
+
+export interface ImportSpecifier {
+  // Name the module exports: "default" for its default export, "*" for the module itself
+  imported: string;
+  // Name bound in the importing module; absent for Python's `from m import *`
+  local?: string;
+  // For "default", the name the exporting module declares it under, once the module graph knows it
+  resolvedName?: string;
+}
+
+/** `import`, `require()` or Python's `import` and `from ... import`. */
+export interface ImportDeclaration extends BaseStatement {
+  kind: "ImportDeclaration";
+  module: ModuleReference;
+  // As written in the source, e.g. "./util" or "..util"
+  specifier: string;
+  // Empty for imports run only for their side effects
+  specifiers: ImportSpecifier[];
+  // `export ... from`: the imported names are exported again
+  reexport: boolean;
+  // `require()`, whose result is whatever the module assigned to `module.exports`
+  commonJs?: boolean;
+}
+
+/** `export { local as exported }` or `module.exports = { ... }`; `exported` is "default" for the default export. */
+export interface ExportDeclaration extends BaseStatement {
+  kind: "ExportDeclaration";
+  specifiers: { local: string; exported: string }[];
+}
+
+/** A statement the parser could not lower; `text` holds the original source. */
+export interface UnsupportedStatement extends BaseStatement {
+  kind: "UnsupportedStatement";
+  text: string;
+  reason: string;
+}
+
+export type Statement =
+  | FunctionDeclaration
+  | ClassDeclaration
+  | VariableDeclaration
+  | ExpressionStatement
+  | ReturnStatement
+  | IfStatement
+  | WhileStatement
+  | DoWhileStatement
+  | ForStatement
+  | ForEachStatement
+  | SwitchStatement
+  | BreakStatement
+  | ContinueStatement
+  | ThrowStatement
+  | TryStatement
+  | WithStatement
+  | BlockStatement
+  | ImportDeclaration
+  | ExportDeclaration
+  | UnsupportedStatement;
+
+// ---------------------------------------------------------------------------
+// Expressions
+// ---------------------------------------------------------------------------
+
+export interface Identifier extends BaseNode {
+  kind: "Identifier";
+  name: string;
+}
+
+export interface Literal extends BaseNode {
+  kind: "Literal";
+  // `null` covers both JavaScript `null`/`undefined` and Python `None`
+  value: string | number | boolean | null;
+  raw?: string;
+}
+
+/** String interpolation: `quasis` always has one more entry than `expressions`. */
+export interface TemplateLiteral extends BaseNode {
+  kind: "TemplateLiteral";
+  quasis: string[];
+  expressions: Expression[];
+}
+
+export interface ArrayExpression extends BaseNode {
+  kind: "ArrayExpression";
+  elements: Expression[];
+}
+
+export interface ObjectProperty extends BaseNode {
+  key: Expression;
+  // True when the key is an expression rather than a plain name (`{[k]: v}`)
+  computed: boolean;
+  value: Expression;
+}
+
+export interface ObjectExpression extends BaseNode {
+  kind: "ObjectExpression";
+  properties: (ObjectProperty | SpreadElement)[];
+}
+
+// "//" is floor division; "in" tests membership (key, element or substring)
+export type BinaryOperator =
+  | "+" | "-" | "*" | "/" | "//" | "%" | "**"
+  | "==" | "!=" | "<" | "<=" | ">" | ">="
+  | "&" | "|" | "^" | "<<" | ">>" | ">>>"
+  | "in" | "instanceof";
+
+export interface BinaryExpression extends BaseNode {
+  kind: "BinaryExpression";
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface LogicalExpression extends BaseNode {
+  kind: "LogicalExpression";
+  operator: "&&" | "||" | "??";
+  left: Expression;
+  right: Expression;
+}
+
+export interface UnaryExpression extends BaseNode {
+  kind: "UnaryExpression";
+  operator: "!" | "-" | "+" | "~" | "typeof" | "void" | "delete";
+  argument: Expression;
+}
+
+export interface UpdateExpression extends BaseNode {
+  kind: "UpdateExpression";
+  operator: "++" | "--";
+  prefix: boolean;
+  argument: Expression;
+}
+
+export interface AssignmentExpression extends BaseNode {
+  kind: "AssignmentExpression";
+  // "=" or a compound operator such as "+="
+  operator: string;
+  target: Expression | Pattern;
+  value: Expression;
+}
+
+export interface CallExpression extends BaseNode {
+  kind: "CallExpression";
+  callee: Expression;
+  arguments: Expression[];
+  optional?: boolean;
+}
+
+export interface NewExpression extends BaseNode {
+  kind: "NewExpression";
+  callee: Expression;
+  arguments: Expression[];
+}
+
+export interface MemberExpression extends BaseNode {
+  kind: "MemberExpression";
+  object: Expression;
+  // An Identifier holding the property name unless `computed` is set
+  property: Expression;
+  computed: boolean;
+  optional?: boolean;
+}
+
+export interface ConditionalExpression extends BaseNode {
+  kind: "ConditionalExpression";
+  test: Expression;
+  consequent: Expression;
+  alternate: Expression;
+}
+
+export interface FunctionExpression extends BaseNode {
+  kind: "FunctionExpression";
+  name?: string;
+  params: Parameter[];
+  body: Statement[];
+  // Set for concise-bodied lambdas such as `x => x * 2`
+  expressionBody?: Expression;
+  isArrow: boolean;
+  isAsync: boolean;
+  isGenerator?: boolean;
+}
+
+export interface ThisExpression extends BaseNode {
+  kind: "ThisExpression";
+}
+
+export interface SuperExpression extends BaseNode {
+  kind: "SuperExpression";
+}
+
+export interface SpreadElement extends BaseNode {
+  kind: "SpreadElement";
+  argument: Expression;
+}
+
+export interface AwaitExpression extends BaseNode {
+  kind: "AwaitExpression";
+  argument: Expression;
+}
+
+export interface YieldExpression extends BaseNode {
+  kind: "YieldExpression";
+  // Undefined for a bare `yield`
+  argument?: Expression;
+  // True for `yield*`, Python's `yield from`
+  delegate: boolean;
+}
+
+export interface SequenceExpression extends BaseNode {
+  kind: "SequenceExpression";
+  expressions: Expression[];
+}
+
+export interface ComprehensionClause extends BaseNode {
+  target: Pattern;
+  iterable: Expression;
+  // `if` filters applied to this clause
+  conditions: Expression[];
+}
+
+/** List, set, dict or generator comprehension such as `[x * 2 for x in xs if x]`. */
+export interface ComprehensionExpression extends BaseNode {
+  kind: "ComprehensionExpression";
+  collection: "list" | "set" | "dict" | "generator";
+  // For dict comprehensions `element` is the value and `key` the key
+  element: Expression;
+  key?: Expression;
+  clauses: ComprehensionClause[];
+}
+
+/** Slice of a sequence, `object[start:end:step]`. */
+export interface SliceExpression extends BaseNode {
+  kind: "SliceExpression";
+  object: Expression;
+  start?: Expression;
+  end?: Expression;
+  step?: Expression;
+}
+
+/** Keyword argument in a call, `name=value`; only valid in call argument lists. */
+export interface NamedArgument extends BaseNode {
+  kind: "NamedArgument";
+  name: string;
+  value: Expression;
+}
+
+/** An expression the parser could not lower; `text` holds the original source. */
+export interface UnsupportedExpression extends BaseNode {
+  kind: "UnsupportedExpression";
+  text: string;
+  reason: string;
+}
+
+export type Expression =
+  | Identifier
+  | Literal
+  | TemplateLiteral
+  | ArrayExpression
+  | ObjectExpression
+  | BinaryExpression
+  | LogicalExpression
+  | UnaryExpression
+  | UpdateExpression
+  | AssignmentExpression
+  | CallExpression
+  | NewExpression
+  | MemberExpression
+  | ConditionalExpression
+  | FunctionExpression
+  | ThisExpression
+  | SuperExpression
+  | SpreadElement
+  | AwaitExpression
+  | YieldExpression
+  | SequenceExpression
+  | ComprehensionExpression
+  | SliceExpression
+  | NamedArgument
+  | UnsupportedExpression;
+
+export type Node = Module | Statement | Expression | Pattern;
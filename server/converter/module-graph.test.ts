@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { convertProject } from "../project";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Converts a project given as path → source and answers the converted files the same way
+function convertFiles(files: Record<string, string>, targetLanguage: string): Record<string, string> {
+  const { files: converted } = convertProject(
+    Object.entries(files).map(([path, text]) => ({ path, data: encoder.encode(text) })),
+    { targetLanguage }
+  );
+  return Object.fromEntries(converted.map((file) => [file.path, decoder.decode(file.data)]));
+}
+
+describe("module graph", () => {
+  it("turns ES module imports into relative Python imports", () => {
+    const files = convertFiles(
+      {
+        "src/app.js": 'import { total } from "./util.js";\nimport helper from "./lib/helper.js";\nconsole.log(total([1, 2]), helper());\n',
+        "src/util.js": "export function total(items) {\n  return items.length;\n}\n",
+        "src/lib/helper.js": "export default function helper() {\n  return 1;\n}\n",
+      },
+      "python"
+    );
+    assert.equal(files["src/app.py"], "from .util import total\nfrom .lib.helper import helper\nprint(total([1, 2]), helper())\n");
+    assert.equal(files["src/lib/__init__.py"], "");
+  });
+
+  it("turns CommonJS require() of module.exports into Python imports", () => {
+    const files = convertFiles(
+      {
+        "app.js": 'const greet = require("./greet");\nconst { total } = require("./math");\nconsole.log(greet("ada"), total);\n',
+        "greet.js": 'function greet(name) {\n  return "hi " + name;\n}\nmodule.exports = greet;\n',
+        "math.js": "const total = 3;\nmodule.exports = { total };\n",
+      },
+      "python"
+    );
+    assert.match(files["app.py"], /^from \.greet import greet\nfrom \.math import total\n/);
+    assert.equal(files["math.py"], "total = 3\n");
+  });
+
+  it("turns relative Python imports into ES module imports, submodules into namespaces", () => {
+    const files = convertFiles(
+      {
+        "__init__.py": "",
+        "app.py": "from .shapes import area\nfrom . import util\nprint(area(2), util.double(3))\n",
+        "shapes.py": "def area(side):\n    return side * side\n",
+        "util.py": "def double(n):\n    return n * 2\n",
+      },
+      "javascript"
+    );
+    assert.equal(
+      files["app.js"],
+      'import { area } from "./shapes.js";\nimport * as util from "./util.js";\nconsole.log(area(2), util.double(3));\n'
+    );
+    assert.match(files["util.js"], /^export function double/);
+  });
+
+  it("keeps what a module does not export private in the target", () => {
+    const python = convertFiles(
+      {
+        "app.js": 'import { total } from "./util.js";\nconsole.log(total([1]));\n',
+        "util.js": "export function total(items) {\n  return items.length;\n}\nfunction hidden() {}\n",
+      },
+      "python"
+    );
+    assert.match(python["util.py"], /^def total\(items\)/m);
+    assert.match(python["util.py"], /^def _hidden\(\)/m);
+
+    const javascript = convertFiles(
+      { "app.py": "from .shapes import area\n", "shapes.py": "def area(side):\n    return side\n\ndef _check(side):\n    return side\n" },
+      "javascript"
+    );
+    assert.match(javascript["shapes.js"], /^export function area/m);
+    assert.match(javascript["shapes.js"], /^function _check/m);
+
+    const swift = convertFiles(
+      {
+        "app.js": 'import { total } from "./util.js";\nconsole.log(total([1]));\n',
+        "util.js": "export function total(items) {\n  return items.length;\n}\nfunction hidden() {\n  return 0;\n}\n",
+      },
+      "swift"
+    );
+    assert.match(swift["util.swift"], /^public func total/m);
+    assert.match(swift["util.swift"], /^func hidden/m);
+  });
+
+  it("warns about a relative import naming no file of the project", () => {
+    const { report } = convertProject(
+      [{ path: "app.js", data: encoder.encode('import { x } from "./nowhere.js";\nconsole.log(x);\n') }],
+      { targetLanguage: "python" }
+    );
+    assert.deepEqual(report.files[0].diagnostics.map((diagnostic) => diagnostic.code), ["unresolved-import"]);
+  });
+});
@@ -0,0 +1,149 @@
+import type * as ir from "./ir";
+import type { ConversionNote } from "./diagnostics";
+import { declaredNames, moduleExports } from "./modules";
+
+// Files a reference to a module resolves to, tried in order
+const MODULE_EXTENSIONS = [".js", ".mjs", ".cjs", ".py"];
+const PACKAGE_FILES = ["index.js", "index.mjs", "index.cjs", "__init__.py"];
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+function isPackageFile(path: string): boolean {
+  return PACKAGE_FILES.includes(path.slice(path.lastIndexOf("/") + 1));
+}
+
+// The project file a relative import in `from` names, if there is one
+function resolveReference(from: string, reference: ir.ModuleReference, files: Set<string>): string | undefined {
+  const directory = dirname(from).split("/").filter(Boolean);
+  for (let parent = 0; parent < (reference.parents ?? 0); parent++) {
+    if (directory.length === 0) return undefined;
+    directory.pop();
+  }
+  const base = [...directory, ...reference.path].join("/");
+  const candidates = reference.isPackage || reference.path.length === 0 ? [] : MODULE_EXTENSIONS.map((extension) => `${base}${extension}`);
+  candidates.push(...PACKAGE_FILES.map((file) => (base ? `${base}/${file}` : file)));
+  return candidates.find((candidate) => files.has(candidate));
+}
+
+// Whether a module declares `name` or imports it, so that importing it from the module works
+function definesName(module: ir.Module, name: string): boolean {
+  return module.body.some((statement) =>
+    statement.kind === "ImportDeclaration"
+      ? statement.specifiers.some((specifier) => specifier.local === name)
+      : declaredNames(statement).includes(name)
+  );
+}
+
+/**
+ * Python's `from .pkg import name` imports the submodule pkg/name.py unless
+ * the package itself defines `name`, and the parser reads `from . import name`
+ * as the submodule; either is corrected here once the project's files are
+ * known. Submodules become namespace imports, as JavaScript's
+ * `import * as name from "./pkg/name.js"` would be.
+ */
+function resolvePythonImport(path: string, statement: ir.ImportDeclaration, modules: Map<string, ir.Module>): ir.ImportDeclaration[] {
+  const { module: reference, specifiers } = statement;
+  const files = new Set(modules.keys());
+
+  const [only] = specifiers;
+  if (specifiers.length === 1 && only.imported === "*" && only.local && resolveReference(path, reference, files) === undefined) {
+    const name = reference.path[reference.path.length - 1];
+    const packageReference: ir.ModuleReference = { parents: reference.parents, path: reference.path.slice(0, -1), isPackage: true };
+    const target = resolveReference(path, packageReference, files);
+    if (target === undefined || !definesName(modules.get(target)!, name)) return [statement];
+    // ".util" to "." and "..lib.util" to "..lib"
+    const specifier = statement.specifier.slice(0, -name.length).replace(/([^.])\.$/, "$1");
+    return [{ ...statement, module: packageReference, specifier, specifiers: [{ imported: name, local: only.local }] }];
+  }
+
+  const target = resolveReference(path, reference, files);
+  if (target === undefined || !isPackageFile(target)) return [statement];
+  const isSubmodule = (name: string) =>
+    !definesName(modules.get(target)!, name) &&
+    resolveReference(path, { parents: reference.parents, path: [...reference.path, name] }, files) !== undefined;
+  const submodules = specifiers.filter((specifier) => specifier.local && isSubmodule(specifier.imported));
+  if (submodules.length === 0) return [statement];
+
+  const split: ir.ImportDeclaration[] = submodules.map((specifier) => ({
+    kind: "ImportDeclaration",
+    module: { parents: reference.parents, path: [...reference.path, specifier.imported] },
+    specifier: `${statement.specifier}.${specifier.imported}`,
+    specifiers: [{ imported: "*", local: specifier.local }],
+    reexport: statement.reexport,
+    loc: statement.loc,
+  }));
+  const rest = specifiers.filter((specifier) => !submodules.includes(specifier));
+  if (rest.length > 0) split.unshift({ ...statement, specifiers: rest });
+  // Comments stay with the first import
+  split[0] = { ...split[0], leadingComments: statement.leadingComments, doc: statement.doc };
+  return split;
+}
+
+/**
+ * Links the parsed modules of a project, keyed by their path in it: resolves
+ * every relative import to the module it names and fills in what emitters
+ * need to translate it between module systems. Imported modules learn their
+ * `importedNames`, default imports learn the name the default export is
+ * declared under, and CommonJS `require()` of a module assigning a single
+ * value to `module.exports` becomes a default import. Modules are updated in
+ * place; the returned notes, by path, are for imports naming no module of
+ * the project.
+ */
+export function linkModules(modules: Map<string, ir.Module>): Map<string, ConversionNote[]> {
+  const files = new Set(modules.keys());
+  const notes = new Map<string, ConversionNote[]>();
+  const resolved = new Map<ir.ImportDeclaration, string>();
+
+  for (const [path, module] of Array.from(modules.entries())) {
+    if (module.sourceLanguage === "python") {
+      module.body = module.body.flatMap((statement) =>
+        statement.kind === "ImportDeclaration" && statement.module.parents !== undefined
+          ? resolvePythonImport(path, statement, modules)
+          : [statement]
+      );
+    }
+
+    for (const statement of module.body) {
+      if (statement.kind !== "ImportDeclaration" || statement.module.parents === undefined) continue;
+      const target = resolveReference(path, statement.module, files);
+      if (target === undefined) {
+        notes.set(path, [
+          ...(notes.get(path) ?? []),
+          { severity: "warning", code: "unresolved-import", message: `${statement.specifier} is not a module of the project`, loc: statement.loc },
+        ]);
+        continue;
+      }
+      resolved.set(statement, target);
+      const imported = modules.get(target)!;
+      const names = statement.specifiers.flatMap((specifier) => (specifier.imported === "*" ? [] : [specifier.imported]));
+      imported.importedNames = [...(imported.importedNames ?? []), ...names];
+
+      // "./lib/index.js" and "./lib" both name the package lib
+      if (isPackageFile(target)) {
+        const last = statement.module.path[statement.module.path.length - 1];
+        const path = last === "index" || last === "__init__" ? statement.module.path.slice(0, -1) : statement.module.path;
+        statement.module = { ...statement.module, path, isPackage: true };
+      }
+    }
+  }
+
+  // Whether a module counts as imported decides what Python modules export, so this waits for every import to be resolved
+  const exports = new Map(Array.from(modules.entries()).map(([path, module]) => [path, moduleExports(module)]));
+  for (const [statement, target] of Array.from(resolved.entries())) {
+    const targetExports = exports.get(target);
+    const defaultName = targetExports?.get("default");
+    statement.specifiers = statement.specifiers.map((specifier) => {
+      if (specifier.imported === "default" && defaultName !== undefined) return { ...specifier, resolvedName: defaultName };
+      // A default import of a module without one gets the module itself, as it does from CommonJS
+      if (specifier.imported === "default" && targetExports) return { imported: "*", local: specifier.local };
+      if (specifier.imported === "*" && specifier.local && statement.commonJs && defaultName !== undefined) {
+        return { imported: "default", local: specifier.local, resolvedName: defaultName };
+      }
+      return specifier;
+    });
+  }
+  return notes;
+}
@@ -0,0 +1,184 @@
+import type * as ir from "./ir";
+import type { ConversionNote } from "./diagnostics";
+import { renameBindings, toSnakeCase } from "./naming";
+
+/** A file or directory name Python can import, e.g. "stringUtils" or "string-utils" to "string_utils". */
+export function pythonModuleName(name: string): string {
+  const snake = toSnakeCase(name.replace(/[^\w]+/g, "_"));
+  return /^\d/.test(snake) ? `_${snake}` : snake;
+}
+
+/** Names a top-level statement declares. */
+export function declaredNames(statement: ir.Statement): string[] {
+  switch (statement.kind) {
+    case "FunctionDeclaration":
+    case "ClassDeclaration":
+      return [statement.name];
+    case "VariableDeclaration":
+      return statement.declarations.flatMap((declarator) =>
+        declarator.target.kind === "Identifier" ? [declarator.target.name] : []
+      );
+    default:
+      return [];
+  }
+}
+
+// The names listed in a Python module's `__all__`, if it has one
+function pythonAll(module: ir.Module): string[] | undefined {
+  for (const statement of module.body) {
+    if (statement.kind !== "VariableDeclaration") continue;
+    const declarator = statement.declarations.find((item) => item.target.kind === "Identifier" && item.target.name === "__all__");
+    const list = declarator?.init;
+    if (list?.kind === "ArrayExpression") {
+      return list.elements.flatMap((element) =>
+        element.kind === "Literal" && typeof element.value === "string" ? [element.value] : []
+      );
+    }
+  }
+  return undefined;
+}
+
+function isModuleSyntax(statement: ir.Statement): boolean {
+  return statement.kind === "ImportDeclaration" || statement.kind === "ExportDeclaration" ||
+    ((statement.kind === "FunctionDeclaration" || statement.kind === "ClassDeclaration" || statement.kind === "VariableDeclaration") &&
+      statement.exported !== undefined);
+}
+
+/**
+ * What a module exports, as exported name to the top-level name it refers to
+ * ("default" for the default export). Undefined for scripts: a JavaScript file
+ * without import or export syntax, or a Python file nothing imports that has
+ * neither relative imports nor `__all__`. JavaScript exports are explicit;
+ * Python modules export `__all__`, or every name they declare without a
+ * leading underscore plus the imported names other modules import from them,
+ * as from an `__init__.py`.
+ */
+export function moduleExports(module: ir.Module): Map<string, string> | undefined {
+  const exports = new Map<string, string>();
+
+  if (module.sourceLanguage !== "python") {
+    if (!module.body.some(isModuleSyntax)) return undefined;
+    for (const statement of module.body) {
+      if (statement.kind === "ExportDeclaration") {
+        for (const { local, exported } of statement.specifiers) exports.set(exported, local);
+      } else if (statement.kind === "ImportDeclaration" && statement.reexport) {
+        for (const specifier of statement.specifiers) {
+          if (specifier.local) exports.set(specifier.local, specifier.local);
+        }
+      } else if ("exported" in statement && statement.exported) {
+        for (const name of declaredNames(statement)) exports.set(statement.exported === "default" ? "default" : name, name);
+      }
+    }
+    return exports;
+  }
+
+  const all = pythonAll(module);
+  const relative = module.body.some((statement) => statement.kind === "ImportDeclaration" && statement.module.parents !== undefined);
+  if (!all && !relative && !module.importedNames) return undefined;
+
+  if (all) {
+    for (const name of all) exports.set(name, name);
+    return exports;
+  }
+  const requested = new Set(module.importedNames);
+  for (const statement of module.body) {
+    if (statement.kind === "ImportDeclaration") {
+      for (const { local } of statement.specifiers) {
+        if (local && requested.has(local)) exports.set(local, local);
+      }
+      continue;
+    }
+    for (const name of declaredNames(statement)) {
+      if (!name.startsWith("_")) exports.set(name, name);
+    }
+  }
+  return exports;
+}
+
+/**
+ * The top-level names a module exports under any name; undefined for scripts,
+ * including entry points that import other modules but export nothing.
+ */
+export function exportedNames(module: ir.Module): Set<string> | undefined {
+  const exports = moduleExports(module);
+  if (!exports || (exports.size === 0 && !module.importedNames)) return undefined;
+  return new Set(exports.values());
+}
+
+/**
+ * Gives the top-level names a JavaScript module does not export a leading
+ * underscore, Python's mark for names internal to a module. Names whose
+ * underscored spelling is taken are left alone and reported.
+ */
+export function applyPythonVisibility(module: ir.Module): { module: ir.Module; notes: ConversionNote[] } {
+  const exported = module.sourceLanguage === "python" ? undefined : exportedNames(module);
+  if (!exported) return { module, notes: [] };
+
+  const declared = module.body.flatMap((statement) => declaredNames(statement).map((name) => ({ name, statement })));
+  const taken = new Set(declared.map(({ name }) => name));
+  const renames = new Map<string, string>();
+  const notes: ConversionNote[] = [];
+
+  for (const { name, statement } of declared) {
+    if (exported.has(name) || name.startsWith("_") || renames.has(name)) continue;
+    if (taken.has(`_${name}`)) {
+      notes.push({
+        severity: "info",
+        code: "visibility-collision",
+        message: `${name} is not exported but keeps its name because _${name} is taken`,
+        loc: statement.loc,
+      });
+      continue;
+    }
+    renames.set(name, `_${name}`);
+  }
+  return { module: renames.size > 0 ? renameBindings(module, renames) : module, notes };
+}
+
+/**
+ * The dotted name a Python `from` clause gives for a module reference, e.g.
+ * ".util" or "..lib.helpers"; packages keep their name.
+ */
+export function pythonModulePath(reference: ir.ModuleReference): string {
+  if (reference.parents === undefined) return reference.path.join(".");
+  const path = reference.path.filter((segment) => segment !== "index" && segment !== "__init__").map(pythonModuleName);
+  return ".".repeat(reference.parents + 1) + path.join(".");
+}
+
+/**
+ * The specifier an ES module imports a module reference by, e.g. "./util.js"
+ * or "../lib/index.js"; packages keep their name.
+ */
+export function javaScriptModulePath(reference: ir.ModuleReference): string {
+  if (reference.parents === undefined) return reference.path.join("/");
+  const path = reference.path.map((segment) => (segment === "__init__" ? "index" : segment));
+  if (reference.isPackage || path.length === 0) path.push("index");
+  const prefix = reference.parents === 0 ? "./" : "../".repeat(reference.parents);
+  return `${prefix}${path.join("/")}.js`;
+}
+
+/**
+ * Notes for a relative import dropped by a target whose files share one
+ * namespace (a Swift module, a Kotlin or Go package): the import itself is
+ * not needed, but names it bound under another spelling are.
+ */
+export function droppedImportNotes(statement: ir.ImportDeclaration, language: string): ConversionNote[] {
+  const renamed = statement.specifiers.flatMap(({ imported, local, resolvedName }) => {
+    const declared = imported === "default" ? resolvedName : imported;
+    return local && local !== declared ? [local] : [];
+  });
+  if (renamed.length === 0) {
+    return [{
+      severity: "info",
+      code: "import-dropped",
+      message: `${language} files of one project see each other's declarations, so the import of ${statement.specifier} was dropped`,
+      loc: statement.loc,
+    }];
+  }
+  return [{
+    severity: "warning",
+    code: "import-dropped",
+    message: `The import of ${statement.specifier} was dropped; use the names it declares instead of ${renamed.join(", ")}`,
+    loc: statement.loc,
+  }];
+}
@@ -0,0 +1,285 @@
+import type * as ir from "./ir";
+import type { ConversionNote } from "./diagnostics";
+import type { NamingConvention } from "./options";
+import { walk } from "./walk";
+
+// Methods the runtime calls by name, which must keep their spelling
+const PROTOCOL_MEMBERS = new Set(["constructor", "toString", "valueOf", "toJSON", "length"]);
+
+type NamedNode = ir.Node | ir.ClassMember;
+
+/**
+ * Renames the variables, functions, parameters and class members a module
+ * declares to `convention`. Names the module only uses (library globals,
+ * properties of other objects) keep their spelling, as do class names. A name
+ * whose new spelling would clash with another name is left alone and reported.
+ * Names imported from or exported to other modules of the project follow the
+ * convention too, so both sides of an import agree.
+ */
+export function applyNaming(module: ir.Module, convention: NamingConvention): { module: ir.Module; notes: ConversionNote[] } {
+  if (convention === "preserve") return { module, notes: [] };
+
+  const convert = convention === "snake_case" ? toSnakeCase : toCamelCase;
+  if (hasModuleInterface(module)) {
+    module = structuredClone(module);
+    renameModuleInterface(module, convert);
+  }
+  const { bindings, members, used } = collectNames(module);
+
+  const candidates = new Map<string, string>();
+  for (const name of Array.from(new Set([...Array.from(bindings.keys()), ...Array.from(members.keys())]))) {
+    const renamed = convert(name);
+    if (renamed !== name) candidates.set(name, renamed);
+  }
+
+  // Drop renames that collide with each other or with a name that stays, until none do
+  const notes: ConversionNote[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const staying = new Set(Array.from(used).filter((name) => !candidates.has(name)));
+    const byTarget = new Map<string, string[]>();
+    for (const [name, renamed] of Array.from(candidates.entries())) {
+      byTarget.set(renamed, [...(byTarget.get(renamed) ?? []), name]);
+    }
+    for (const [renamed, names] of Array.from(byTarget.entries())) {
+      if (names.length === 1 && !staying.has(renamed)) continue;
+      for (const name of names) {
+        candidates.delete(name);
+        const clash = staying.has(renamed) ? `the existing name ${renamed}` : names.filter((other) => other !== name).join(", ");
+        notes.push({
+          severity: "warning",
+          code: "naming-collision",
+          message: `${name} was not renamed to ${renamed} because it would clash with ${clash}`,
+          loc: bindings.get(name) ?? members.get(name),
+        });
+      }
+      changed = true;
+    }
+  }
+  if (candidates.size === 0) return { module, notes };
+
+  const renamedBindings = new Map(Array.from(candidates.entries()).filter(([name]) => bindings.has(name)));
+  const renamedMembers = new Map(Array.from(candidates.entries()).filter(([name]) => members.has(name)));
+  const copy = structuredClone(module);
+  renameNames(copy, renamedBindings, renamedMembers);
+  return { module: copy, notes };
+}
+
+/** `fooBar` → `foo_bar`; CONSTANT_CASE, PascalCase and dunder names are kept. */
+export function toSnakeCase(name: string): string {
+  const [, prefix, core, suffix] = /^(_*)(.*?)(_*)$/.exec(name)!;
+  if (!core || !/[a-z]/.test(core) || /^[A-Z]/.test(core) || (prefix === "__" && suffix === "__")) return name;
+  const snake = core
+    .replace(/([a-z\d])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .toLowerCase();
+  return `${prefix}${snake}${suffix}`;
+}
+
+/** `foo_bar` → `fooBar`; CONSTANT_CASE, PascalCase and dunder names are kept. */
+export function toCamelCase(name: string): string {
+  const [, prefix, core, suffix] = /^(_*)(.*?)(_*)$/.exec(name)!;
+  if (!core.includes("_") || !/[a-z]/.test(core) || /^[A-Z]/.test(core) || (prefix === "__" && suffix === "__")) return name;
+  const camel = core.replace(/_+([a-zA-Z\d])/g, (_, letter: string) => letter.toUpperCase());
+  return `${prefix}${camel}${suffix}`;
+}
+
+function hasModuleInterface(module: ir.Module): boolean {
+  return module.body.some((statement) =>
+    (statement.kind === "ImportDeclaration" && statement.module.parents !== undefined) ||
+    statement.kind === "ExportDeclaration" ||
+    (statement.kind === "VariableDeclaration" && statement.declarations.some(isPythonAll))
+  );
+}
+
+function isPythonAll(declarator: ir.VariableDeclarator): boolean {
+  return declarator.target.kind === "Identifier" && declarator.target.name === "__all__";
+}
+
+// Converts the names a module imports from the project, exports under an alias or lists in `__all__`
+function renameModuleInterface(module: ir.Module, convert: (name: string) => string): void {
+  const rename = (name: string) => (name === "default" || name === "*" ? name : convert(name));
+  for (const statement of module.body) {
+    if (statement.kind === "ImportDeclaration" && statement.module.parents !== undefined) {
+      for (const specifier of statement.specifiers) {
+        specifier.imported = rename(specifier.imported);
+        if (specifier.resolvedName) specifier.resolvedName = rename(specifier.resolvedName);
+      }
+    } else if (statement.kind === "ExportDeclaration") {
+      for (const specifier of statement.specifiers) specifier.exported = rename(specifier.exported);
+    } else if (statement.kind === "VariableDeclaration") {
+      for (const declarator of statement.declarations) {
+        if (!isPythonAll(declarator) || declarator.init?.kind !== "ArrayExpression") continue;
+        for (const element of declarator.init.elements) {
+          if (element.kind !== "Literal" || typeof element.value !== "string" || rename(element.value) === element.value) continue;
+          element.value = rename(element.value);
+          element.raw = undefined;
+        }
+      }
+    }
+  }
+}
+
+interface CollectedNames {
+  // Variables, functions and parameters, with where each is first declared
+  bindings: Map<string, ir.SourceRange | undefined>;
+  // Methods, properties and `this.x` fields of the module's classes
+  members: Map<string, ir.SourceRange | undefined>;
+  // Every name that appears in the module, declared or not
+  used: Set<string>;
+}
+
+function collectNames(module: ir.Module): CollectedNames {
+  const bindings = new Map<string, ir.SourceRange | undefined>();
+  const members = new Map<string, ir.SourceRange | undefined>();
+  const used = new Set<string>();
+
+  const bind = (name: string | undefined, loc?: ir.SourceRange) => {
+    if (name && !bindings.has(name)) bindings.set(name, loc);
+  };
+  const bindPattern = (pattern: ir.Pattern | undefined) => {
+    walk(pattern, (node) => {
+      if (node.kind === "Identifier") bind(node.name, node.loc);
+    });
+  };
+  const bindParams = (params: ir.Parameter[]) => params.forEach((param) => bind(param.name, param.loc));
+
+  walk(module, (visited) => {
+    const node = visited as NamedNode;
+    switch (node.kind) {
+      case "Identifier":
+        used.add(node.name);
+        break;
+      case "MemberExpression":
+        if (!node.computed && node.property.kind === "Identifier") used.add(node.property.name);
+        break;
+      case "VariableDeclaration":
+        node.declarations.forEach((declarator) => bindPattern(declarator.target));
+        break;
+      case "FunctionDeclaration":
+        bind(node.name, node.loc);
+        bindParams(node.params);
+        break;
+      case "FunctionExpression":
+        bind(node.name, node.loc);
+        bindParams(node.params);
+        break;
+      case "ClassDeclaration":
+        used.add(node.name);
+        for (const member of node.members) {
+          if (member.kind === "MethodDefinition") bindParams(member.params);
+          if (member.kind === "MethodDefinition" && member.role === "constructor") continue;
+          if (!PROTOCOL_MEMBERS.has(member.name) && !members.has(member.name)) members.set(member.name, member.loc);
+        }
+        // Fields a class only creates by assigning `this.x`
+        walk(node.members, (inner) => {
+          if (
+            inner.kind === "AssignmentExpression" &&
+            inner.target.kind === "MemberExpression" &&
+            inner.target.object.kind === "ThisExpression" &&
+            !inner.target.computed &&
+            inner.target.property.kind === "Identifier"
+          ) {
+            const name = inner.target.property.name;
+            if (!PROTOCOL_MEMBERS.has(name) && !members.has(name)) members.set(name, inner.loc);
+          }
+        });
+        break;
+      case "ForEachStatement":
+        bindPattern(node.target);
+        break;
+      case "TryStatement":
+        node.handlers.forEach((handler) => bind(handler.param, handler.loc));
+        break;
+      case "WithStatement":
+        node.items.forEach((item) => bindPattern(item.target));
+        break;
+      case "ComprehensionExpression":
+        node.clauses.forEach((clause) => bindPattern(clause.target));
+        break;
+      case "AssignmentExpression":
+        if (node.target.kind === "Identifier") bind(node.target.name, node.target.loc);
+        break;
+      case "ImportDeclaration":
+        node.specifiers.forEach((specifier) => bind(specifier.local, node.loc));
+        break;
+      case "ExportDeclaration":
+        node.specifiers.forEach((specifier) => used.add(specifier.local));
+        break;
+    }
+  });
+
+  // Declared names count as used even when nothing refers to them
+  for (const name of Array.from(bindings.keys()).concat(Array.from(members.keys()))) used.add(name);
+  return { bindings, members, used };
+}
+
+/**
+ * Renames variables, functions and classes by `renames`, declarations and
+ * references alike, returning a renamed copy of the module.
+ */
+export function renameBindings(module: ir.Module, renames: Map<string, string>): ir.Module {
+  const copy = structuredClone(module);
+  renameNames(copy, renames, new Map());
+  return copy;
+}
+
+/** Renames variables by `renames` below `root` only, in place. */
+export function renameBindingsIn(root: unknown, renames: Map<string, string>): void {
+  renameNames(root, renames, new Map());
+}
+
+function renameNames(root: unknown, bindings: Map<string, string>, members: Map<string, string>): void {
+  const rename = (name: string) => bindings.get(name) ?? name;
+  const renameParams = (params: ir.Parameter[]) => params.forEach((param) => (param.name = rename(param.name)));
+  const renameDoc = (doc: ir.DocComment | undefined) => doc?.params.forEach((param) => (param.name = rename(param.name)));
+
+  const visit = (root: unknown) => walk(root, (visited) => {
+    const node = visited as NamedNode;
+    if ("doc" in node) renameDoc(node.doc);
+    switch (node.kind) {
+      case "Identifier":
+        node.name = rename(node.name);
+        break;
+      case "MemberExpression":
+        if (!node.computed && node.property.kind === "Identifier") {
+          node.property.name = members.get(node.property.name) ?? node.property.name;
+          visit(node.object);
+          return false;
+        }
+        break;
+      case "FunctionDeclaration":
+        node.name = rename(node.name);
+        renameParams(node.params);
+        break;
+      case "ClassDeclaration":
+        node.name = rename(node.name);
+        break;
+      case "FunctionExpression":
+        if (node.name) node.name = rename(node.name);
+        renameParams(node.params);
+        break;
+      case "MethodDefinition":
+        if (node.role !== "constructor") node.name = members.get(node.name) ?? node.name;
+        renameParams(node.params);
+        break;
+      case "PropertyDefinition":
+        node.name = members.get(node.name) ?? node.name;
+        break;
+      case "TryStatement":
+        node.handlers.forEach((handler) => handler.param && (handler.param = rename(handler.param)));
+        break;
+      case "NamedArgument":
+        node.name = rename(node.name);
+        break;
+      case "ImportDeclaration":
+        node.specifiers.forEach((specifier) => specifier.local && (specifier.local = rename(specifier.local)));
+        break;
+      case "ExportDeclaration":
+        node.specifiers.forEach((specifier) => (specifier.local = rename(specifier.local)));
+        break;
+    }
+  });
+  visit(root);
+}
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ConversionOptions } from "@shared/schema";
+import { converterRegistry } from "./converters";
+import { UnsupportedOptionError } from "./errors";
+import { resolveOptions, supportsVersion } from "./options";
+
+const convert = (source: string, target: string, code: string, options?: ConversionOptions) =>
+  converterRegistry.get(source, target)!.convert(code, options);
+
+describe("resolveOptions", () => {
+  it("fills in the target's own defaults", () => {
+    assert.deepEqual(resolveOptions("python"), { indent: "    ", quote: '"', semicolons: true, version: "3.12", naming: "preserve" });
+    assert.equal(resolveOptions("go").indent, "\t");
+  });
+
+  it("follows the target's naming convention for \"target\"", () => {
+    assert.equal(resolveOptions("python", { naming: "target" }).naming, "snake_case");
+    assert.equal(resolveOptions("swift", { naming: "target" }).naming, "camelCase");
+  });
+
+  it("matches target versions whatever their case and refuses unknown ones", () => {
+    assert.equal(resolveOptions("javascript", { targetVersion: "ES5" }).version, "es5");
+    assert.throws(() => resolveOptions("javascript", { targetVersion: "es3" }), UnsupportedOptionError);
+    assert.throws(() => resolveOptions("go", { targetVersion: "1.22" }), UnsupportedOptionError);
+  });
+});
+
+describe("supportsVersion", () => {
+  it("compares editions and dotted versions numerically", () => {
+    assert.equal(supportsVersion("es2015", "es5"), true);
+    assert.equal(supportsVersion("es5", "es2015"), false);
+    assert.equal(supportsVersion("3.12", "3.8"), true);
+    assert.equal(supportsVersion("", "5.9"), true);
+  });
+});
+
+describe("conversion options", () => {
+  it("indent, quote and end statements as asked", () => {
+    const { code } = convert("python", "javascript", 'def greet(name):\n    return "hi " + name\n', {
+      indent: { style: "spaces", width: 4 },
+      quotes: "single",
+      semicolons: false,
+    });
+    assert.equal(code, "function greet(name) {\n    return 'hi ' + name\n}");
+  });
+
+  it("write only what the target version has", () => {
+    const code = 'name = "x"\nprint(f"hi {name}")\n';
+    assert.equal(convert("python", "javascript", code, { targetVersion: "es5" }).code, 'var name = "x";\nconsole.log("hi " + name);');
+    assert.equal(convert("python", "javascript", code, { targetVersion: "es2022" }).code, 'const name = "x";\nconsole.log(`hi ${name}`);');
+  });
+
+  it("rename to the target's convention, leaving names that would clash", () => {
+    const { code, diagnostics } = convert(
+      "javascript",
+      "python",
+      'const userName = "a";\nconst user_name = "b";\nconst itemCount = 2;\nconsole.log(userName, user_name, itemCount);',
+      { naming: "target" }
+    );
+    assert.match(code, /^item_count = 2$/m);
+    assert.match(code, /^userName = "a"$/m);
+    assert.deepEqual(diagnostics.map((diagnostic) => diagnostic.code), ["naming-collision"]);
+  });
+});
@@ -0,0 +1,72 @@
+import { TARGET_VERSIONS, type ConversionOptions } from "@shared/schema";
+import { UnsupportedOptionError } from "./errors";
+
+export type NamingConvention = "preserve" | "camelCase" | "snake_case";
+
+/** Conversion options with every choice filled in for one target language. */
+export interface EmitOptions {
+  // One level of indentation, e.g. "    " or "\t"
+  indent: string;
+  quote: '"' | "'";
+  semicolons: boolean;
+  // One of TARGET_VERSIONS for the language, or "" for targets without versions
+  version: string;
+  naming: NamingConvention;
+}
+
+// Indentation each language is written with unless the options say otherwise
+const DEFAULT_INDENT: Record<string, string> = {
+  javascript: "  ",
+  python: "    ",
+  swift: "  ",
+  kotlin: "    ",
+  go: "\t",
+};
+
+/**
+ * Fills in the target's defaults. Throws UnsupportedOptionError for a target
+ * version the language does not have; versions match whatever their case,
+ * so "ES5" is "es5".
+ */
+export function resolveOptions(language: string, options: ConversionOptions = {}): EmitOptions {
+  const versions = TARGET_VERSIONS[language] ?? [];
+  const targetVersion = options.targetVersion?.toLowerCase();
+  if (targetVersion && !versions.includes(targetVersion)) {
+    const supported = versions.length > 0 ? `; choose one of ${versions.join(", ")}` : "";
+    throw new UnsupportedOptionError("targetVersion", `${language} has no target version ${options.targetVersion}${supported}`);
+  }
+
+  const indent = options.indent
+    ? options.indent.style === "tabs" ? "\t" : " ".repeat(options.indent.width)
+    : DEFAULT_INDENT[language] ?? "  ";
+  const naming = options.naming === "target"
+    ? language === "python" ? "snake_case" : "camelCase"
+    : options.naming ?? "preserve";
+
+  return {
+    indent,
+    quote: options.quotes === "single" ? "'" : '"',
+    semicolons: options.semicolons ?? true,
+    version: targetVersion ?? versions[versions.length - 1] ?? "",
+    naming,
+  };
+}
+
+/**
+ * True when `version` is `minimum` or newer, e.g. "es2015" against "es2020"
+ * or "3.8" against "3.10". Targets without versions support everything.
+ */
+export function supportsVersion(version: string, minimum: string): boolean {
+  if (!version) return true;
+  const [a, b] = [versionParts(version), versionParts(minimum)];
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if ((a[i] ?? 0) !== (b[i] ?? 0)) return (a[i] ?? 0) > (b[i] ?? 0);
+  }
+  return true;
+}
+
+// ES5 predates the year-numbered editions
+function versionParts(version: string): number[] {
+  if (version === "es5") return [2009];
+  return version.replace(/^es/, "").split(".").map(Number);
+}
@@ -0,0 +1,192 @@
+import type * as ir from "../ir";
+
+/**
+ * Reads the body of a `/** ... *\/` block (without the delimiters) into a
+ * DocComment. `@param`, `@returns` and `@throws` become structured entries;
+ * any other tag stays in the description as written.
+ */
+export function parseJsDoc(body: string, loc?: ir.SourceRange): ir.DocComment {
+  const doc: ir.DocComment = { description: "", params: [], throws: [], loc };
+  const description: string[] = [];
+  // Entry that continuation lines are appended to
+  let current: { type?: string; description: string } | undefined;
+
+  for (const line of blockCommentLines(body.replace(/^\*/, ""))) {
+    const tag = /^@(\w+)\s*(.*)$/.exec(line);
+    if (!tag) {
+      if (current && line) current.description = `${current.description} ${line.trim()}`.trim();
+      else {
+        current = undefined;
+        description.push(line);
+      }
+      continue;
+    }
+
+    const [, name, rest] = tag;
+    const { type, text } = takeBracedType(rest);
+    switch (name) {
+      case "param":
+      case "arg":
+      case "argument": {
+        const match = /^(\[[^\]]*\]|[\w$.]+)\s*(?:-\s*)?([\s\S]*)$/.exec(text);
+        if (!match) break;
+        // `[name=default]` marks an optional parameter
+        const paramName = match[1].replace(/^\[|\]$/g, "").split("=")[0];
+        // Properties of an options parameter (`opts.verbose`) are folded into its description
+        if (paramName.includes(".")) {
+          const owner = doc.params.find((param) => param.name === paramName.split(".")[0]);
+          if (owner) {
+            owner.description = `${owner.description} ${paramName.split(".").slice(1).join(".")}: ${match[2]}`.trim();
+            current = owner;
+            break;
+          }
+        }
+        const param: ir.DocParam = { name: paramName, description: match[2].trim() };
+        if (type) param.type = type;
+        doc.params.push(param);
+        current = param;
+        break;
+      }
+      case "returns":
+      case "return":
+        current = doc.returns = { type, description: text.replace(/^-\s*/, "") };
+        break;
+      case "throws":
+      case "exception":
+        current = { type, description: text.replace(/^-\s*/, "") };
+        doc.throws.push(current);
+        break;
+      default:
+        current = undefined;
+        description.push(line);
+    }
+  }
+
+  doc.description = trimBlankLines(description).join("\n");
+  return doc;
+}
+
+const PARAM_SECTIONS = /^(Args|Arguments|Parameters|Params|Keyword Args|Keyword Arguments):$/;
+const RETURN_SECTIONS = /^(Returns|Return|Yields):$/;
+const RAISE_SECTIONS = /^(Raises|Throws):$/;
+
+/**
+ * Reads a dedented Python docstring into a DocComment. Google-style
+ * sections (`Args:`, `Returns:`, `Raises:`) and reST fields (`:param x:`,
+ * `:returns:`, `:raises E:`) are recognised; other text is the description.
+ */
+export function parseDocstring(text: string, loc?: ir.SourceRange): ir.DocComment {
+  const doc: ir.DocComment = { description: "", params: [], throws: [], loc };
+  const description: string[] = [];
+  let section: "params" | "returns" | "raises" | undefined;
+  // Entry that continuation lines are appended to, and the column it started at
+  let current: { type?: string; description: string } | undefined;
+  let currentIndent = 0;
+  const fieldTypes = new Map<string, string>();
+
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    const indent = raw.search(/\S/);
+
+    const heading = PARAM_SECTIONS.test(line) ? "params" : RETURN_SECTIONS.test(line) ? "returns" : RAISE_SECTIONS.test(line) ? "raises" : undefined;
+    if (heading) {
+      section = heading;
+      current = undefined;
+      continue;
+    }
+
+    const field = /^:(param|parameter|arg|type|returns?|rtype|raises?)(?:\s+([^:]+))?:\s*(.*)$/.exec(line);
+    if (field) {
+      section = undefined;
+      currentIndent = indent;
+      const [, kind, subject, rest] = field;
+      if (kind === "type" && subject) {
+        fieldTypes.set(subject.trim(), rest);
+        current = undefined;
+      } else if (kind === "rtype") {
+        doc.returns = { description: "", ...doc.returns, type: rest };
+        current = undefined;
+      } else if (kind.startsWith("return")) {
+        current = doc.returns = { ...doc.returns, description: rest };
+      } else if (kind.startsWith("raise")) {
+        current = { type: subject?.trim(), description: rest };
+        doc.throws.push(current);
+      } else if (subject) {
+        // `:param int x:` puts the type before the name
+        const words = subject.trim().split(/\s+/);
+        const param: ir.DocParam = { name: words[words.length - 1], description: rest };
+        if (words.length > 1) param.type = words.slice(0, -1).join(" ");
+        doc.params.push(param);
+        current = param;
+      }
+      continue;
+    }
+
+    if (!line) {
+      current = undefined;
+      if (!section) description.push("");
+      continue;
+    }
+    // Continuation lines are indented past the start of their entry
+    if (current && indent > currentIndent) {
+      current.description = `${current.description} ${line}`.trim();
+      continue;
+    }
+    if (section && indent === 0) section = undefined;
+
+    currentIndent = indent;
+    if (!section) {
+      current = undefined;
+      description.push(line);
+    } else if (section === "params") {
+      const match = /^\*{0,2}(\w+)\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/.exec(line);
+      if (!match) continue;
+      const param: ir.DocParam = { name: match[1], description: match[3] };
+      if (match[2]) param.type = match[2];
+      doc.params.push(param);
+      current = param;
+    } else if (section === "returns") {
+      // `int: the total` names the type first
+      const match = /^([A-Za-z_][\w.[\], |]*):\s+(.*)$/.exec(line);
+      current = doc.returns = match ? { type: match[1], description: match[2] } : { description: line };
+    } else {
+      const match = /^([\w.]+):\s*(.*)$/.exec(line);
+      current = match ? { type: match[1], description: match[2] } : { description: line };
+      doc.throws.push(current);
+    }
+  }
+
+  for (const param of doc.params) {
+    const type = fieldTypes.get(param.name);
+    if (!param.type && type) param.type = type;
+  }
+  doc.description = trimBlankLines(description).join("\n");
+  return doc;
+}
+
+/** Lines of a `/* *\/` comment body, without the ` * ` decoration or common indentation. */
+export function blockCommentLines(body: string): string[] {
+  const lines = body.split("\n").map((line) => line.replace(/^\s*\*(?!\/) ?/, "").trimEnd());
+  return trimBlankLines(lines.map((line, index) => (index === 0 ? line.trim() : line)));
+}
+
+// `{number} rest` gives the braced type and the rest of the line
+function takeBracedType(text: string): { type?: string; text: string } {
+  if (!text.startsWith("{")) return { text };
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "{") depth++;
+    else if (text[i] === "}" && --depth === 0) {
+      return { type: text.slice(1, i).trim(), text: text.slice(i + 1).trim() };
+    }
+  }
+  return { text };
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+}
@@ -0,0 +1,848 @@
+import * as acorn from "acorn";
+import type * as ir from "../ir";
+import { SourceParseError } from "../errors";
+import { blockCommentLines, parseJsDoc } from "./doc-comments";
+
+/**
+ * Parse JavaScript source into an ESTree AST with acorn and lower it into IR.
+ * Module syntax is tried first; plain scripts (e.g. using `with` or legacy
+ * octal literals) are retried in sloppy mode.
+ */
+export function parseJavaScript(source: string): ir.Module {
+  let program: acorn.Program;
+  let comments: acorn.Comment[] = [];
+
+  try {
+    program = acorn.parse(source, { ecmaVersion: "latest", sourceType: "module", locations: true, onComment: comments });
+  } catch {
+    comments = [];
+    try {
+      program = acorn.parse(source, {
+        ecmaVersion: "latest",
+        sourceType: "script",
+        locations: true,
+        allowReturnOutsideFunction: true,
+        onComment: comments,
+      });
+    } catch (error) {
+      const syntaxError = error as SyntaxError & { loc?: { line: number; column: number } };
+      throw new SourceParseError(
+        syntaxError.message,
+        "javascript",
+        syntaxError.loc ? { line: syntaxError.loc.line, column: syntaxError.loc.column } : undefined
+      );
+    }
+  }
+
+  return new JavaScriptLowering(source, comments).lowerProgram(program);
+}
+
+// "./lib/util.js" to { parents: 0, path: ["lib", "util"] }; bare specifiers name packages
+function moduleReference(specifier: string): ir.ModuleReference {
+  if (!specifier.startsWith(".")) return { path: [specifier] };
+  let parents = 0;
+  const path: string[] = [];
+  for (const segment of specifier.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment !== "..") path.push(segment);
+    else if (path.length > 0) path.pop();
+    else parents++;
+  }
+  if (path.length === 0 || specifier.endsWith("/")) return { parents, path, isPackage: true };
+  path[path.length - 1] = path[path.length - 1].replace(/\.[mc]?jsx?$/, "");
+  return { parents, path };
+}
+
+// The module of `require("m")`, if `node` is such a call
+function requiredModule(node: acorn.Expression | null | undefined): string | undefined {
+  if (node?.type !== "CallExpression" || node.callee.type !== "Identifier" || node.callee.name !== "require") return undefined;
+  const [argument] = node.arguments;
+  return node.arguments.length === 1 && argument.type === "Literal" && typeof argument.value === "string" ? argument.value : undefined;
+}
+
+// "" for `module.exports`, "x" for `exports.x` and `module.exports.x`; undefined for anything else
+function commonJsExport(node: acorn.Pattern | acorn.Expression): string | undefined {
+  if (node.type !== "MemberExpression" || node.computed || node.property.type !== "Identifier") return undefined;
+  const isModuleExports = (object: acorn.Node) =>
+    object.type === "MemberExpression" &&
+    (object as acorn.MemberExpression).object.type === "Identifier" &&
+    ((object as acorn.MemberExpression).object as acorn.Identifier).name === "module" &&
+    ((object as acorn.MemberExpression).property as acorn.Identifier).name === "exports";
+  if (node.object.type === "Identifier" && node.object.name === "module" && node.property.name === "exports") return "";
+  if ((node.object.type === "Identifier" && node.object.name === "exports") || isModuleExports(node.object)) return node.property.name;
+  return undefined;
+}
+
+function moduleExportName(node: acorn.Identifier | acorn.Literal): string {
+  return node.type === "Identifier" ? node.name : String(node.value);
+}
+
+class JavaScriptLowering {
+  // Index of the first comment not yet attached to (or skipped past by) a statement
+  private nextComment = 0;
+  // Statements of the program itself, where imports and exports can appear
+  private readonly topLevel = new Set<acorn.Node>();
+
+  constructor(
+    private readonly source: string,
+    private readonly comments: acorn.Comment[]
+  ) {}
+
+  lowerProgram(program: acorn.Program): ir.Module {
+    program.body.forEach((node) => this.topLevel.add(node));
+    return {
+      kind: "Module",
+      sourceLanguage: "javascript",
+      body: this.lowerStatements(program.body, program.end),
+      loc: this.loc(program),
+    };
+  }
+
+  private loc(node: acorn.Node): ir.SourceRange | undefined {
+    if (!node.loc) return undefined;
+    return {
+      start: { line: node.loc.start.line, column: node.loc.start.column },
+      end: { line: node.loc.end.line, column: node.loc.end.column },
+    };
+  }
+
+  private text(node: acorn.Node): string {
+    return this.source.slice(node.start, node.end);
+  }
+
+  private unsupportedStatement(node: acorn.Node, reason: string): ir.UnsupportedStatement {
+    return { kind: "UnsupportedStatement", text: this.text(node), reason, loc: this.loc(node) };
+  }
+
+  private unsupportedExpression(node: acorn.Node, reason: string): ir.UnsupportedExpression {
+    return { kind: "UnsupportedExpression", text: this.text(node), reason, loc: this.loc(node) };
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private lowerStatements(nodes: Array<acorn.Statement | acorn.ModuleDeclaration>, end: number): ir.Statement[] {
+    const statements: ir.Statement[] = [];
+    for (const node of nodes) {
+      const { comments, doc } = this.takeLeadingComments(node.start);
+      const [lowered, ...more] = (this.topLevel.has(node) && this.lowerModuleSyntax(node)) || [this.lowerStatement(node)];
+      if (!lowered) continue;
+      this.attachComments(lowered, node, comments, doc);
+      statements.push(lowered, ...more.filter((statement): statement is ir.Statement => statement !== null));
+    }
+
+    const trailingComments = this.takeComments(end);
+    if (trailingComments.length > 0 && statements.length > 0) {
+      statements[statements.length - 1].trailingComments = trailingComments;
+    }
+    return statements;
+  }
+
+  // Comments the statement couldn't place inside itself (e.g. within an
+  // expression) are printed above it, and one after it on its last line stays inline
+  private attachComments(lowered: ir.Statement | ir.ClassMember, node: acorn.Node, comments: ir.Comment[], doc?: ir.DocComment): void {
+    const leading = [...comments, ...this.takeComments(node.end)];
+    if (leading.length > 0) lowered.leadingComments = leading;
+    if (doc) lowered.doc = doc;
+    const inline = this.takeInlineComment(node.end);
+    if (inline) lowered.inlineComment = inline;
+  }
+
+  private takeComments(before: number): ir.Comment[] {
+    const taken: ir.Comment[] = [];
+    while (this.nextComment < this.comments.length && this.comments[this.nextComment].end <= before) {
+      taken.push(this.toComment(this.comments[this.nextComment++]));
+    }
+    return taken;
+  }
+
+  // A `/** */` block directly above the statement is its doc comment rather than a plain comment
+  private takeLeadingComments(before: number): { comments: ir.Comment[]; doc?: ir.DocComment } {
+    const first = this.nextComment;
+    const comments = this.takeComments(before);
+    const last = this.nextComment > first ? this.comments[this.nextComment - 1] : undefined;
+    if (!last || last.type !== "Block" || !last.value.startsWith("*") || last.value.startsWith("**")) return { comments };
+    const gap = this.source.slice(last.end, before);
+    if (gap.trim() !== "" || gap.split("\n").length > 2) return { comments };
+
+    comments.pop();
+    return { comments, doc: parseJsDoc(last.value, this.loc(last as unknown as acorn.Node)) };
+  }
+
+  private takeInlineComment(after: number): ir.Comment | undefined {
+    const comment = this.comments[this.nextComment];
+    if (!comment || comment.start < after || /\S|\n/.test(this.source.slice(after, comment.start))) return undefined;
+    this.nextComment++;
+    return this.toComment(comment);
+  }
+
+  private toComment(comment: acorn.Comment): ir.Comment {
+    const loc = this.loc(comment as unknown as acorn.Node);
+    if (comment.type === "Line") return { text: comment.value.trim(), block: false, loc };
+    return { text: blockCommentLines(comment.value).join("\n"), block: true, loc };
+  }
+
+  // Blocks are flattened so `if (x) foo();` and `if (x) { foo(); }` look the same
+  private lowerBody(node: acorn.Statement): ir.Statement[] {
+    if (node.type === "BlockStatement") {
+      return this.lowerStatements(node.body, node.end);
+    }
+    const lowered = this.lowerStatement(node);
+    return lowered ? [lowered] : [];
+  }
+
+  private lowerStatement(node: acorn.Statement | acorn.ModuleDeclaration): ir.Statement | null {
+    const loc = this.loc(node);
+
+    switch (node.type) {
+      case "EmptyStatement":
+      case "DebuggerStatement":
+        return null;
+
+      case "ExpressionStatement":
+        // Directive prologues such as "use strict" have no meaning in other languages
+        if ("directive" in node && node.directive) return null;
+        return { kind: "ExpressionStatement", expression: this.lowerExpression(node.expression), loc };
+
+      case "BlockStatement":
+        return { kind: "BlockStatement", body: this.lowerStatements(node.body, node.end), loc };
+
+      case "VariableDeclaration":
+        return this.lowerVariableDeclaration(node);
+
+      case "FunctionDeclaration":
+        return {
+          kind: "FunctionDeclaration",
+          name: node.id.name,
+          ...this.lowerFunction(node),
+          isAsync: node.async,
+          isGenerator: node.generator,
+          loc,
+        };
+
+      case "ClassDeclaration":
+        return this.lowerClass(node);
+
+      case "ReturnStatement":
+        return {
+          kind: "ReturnStatement",
+          argument: node.argument ? this.lowerExpression(node.argument) : undefined,
+          loc,
+        };
+
+      case "IfStatement":
+        return {
+          kind: "IfStatement",
+          test: this.lowerExpression(node.test),
+          consequent: this.lowerBody(node.consequent),
+          alternate: node.alternate ? this.lowerBody(node.alternate) : undefined,
+          loc,
+        };
+
+      case "WhileStatement":
+        return { kind: "WhileStatement", test: this.lowerExpression(node.test), body: this.lowerBody(node.body), loc };
+
+      case "DoWhileStatement":
+        return { kind: "DoWhileStatement", test: this.lowerExpression(node.test), body: this.lowerBody(node.body), loc };
+
+      case "ForStatement":
+        return {
+          kind: "ForStatement",
+          init: node.init
+            ? node.init.type === "VariableDeclaration"
+              ? this.lowerVariableDeclaration(node.init)
+              : this.lowerExpression(node.init)
+            : undefined,
+          test: node.test ? this.lowerExpression(node.test) : undefined,
+          update: node.update ? this.lowerExpression(node.update) : undefined,
+          body: this.lowerBody(node.body),
+          loc,
+        };
+
+      case "ForOfStatement":
+      case "ForInStatement": {
+        let target: ir.Pattern;
+        if (node.left.type === "VariableDeclaration") {
+          target = this.lowerPattern(node.left.declarations[0].id);
+        } else {
+          target = this.lowerPattern(node.left);
+        }
+        return {
+          kind: "ForEachStatement",
+          target,
+          iterable: this.lowerExpression(node.right),
+          over: node.type === "ForOfStatement" ? "values" : "keys",
+          body: this.lowerBody(node.body),
+          loc,
+        };
+      }
+
+      case "SwitchStatement":
+        return {
+          kind: "SwitchStatement",
+          discriminant: this.lowerExpression(node.discriminant),
+          cases: node.cases.map((switchCase) => ({
+            test: switchCase.test ? this.lowerExpression(switchCase.test) : undefined,
+            body: this.lowerStatements(switchCase.consequent, switchCase.end),
+            loc: this.loc(switchCase),
+          })),
+          loc,
+        };
+
+      case "BreakStatement":
+        if (node.label) return this.unsupportedStatement(node, "Labeled break statements");
+        return { kind: "BreakStatement", loc };
+
+      case "ContinueStatement":
+        if (node.label) return this.unsupportedStatement(node, "Labeled continue statements");
+        return { kind: "ContinueStatement", loc };
+
+      case "ThrowStatement":
+        return { kind: "ThrowStatement", argument: this.lowerExpression(node.argument), loc };
+
+      case "TryStatement":
+        return {
+          kind: "TryStatement",
+          block: this.lowerStatements(node.block.body, node.block.end),
+          handlers: node.handler
+            ? [{
+                param: node.handler.param?.type === "Identifier" ? node.handler.param.name : undefined,
+                body: this.lowerStatements(node.handler.body.body, node.handler.body.end),
+                loc: this.loc(node.handler),
+              }]
+            : [],
+          finalizer: node.finalizer ? this.lowerStatements(node.finalizer.body, node.finalizer.end) : undefined,
+          loc,
+        };
+
+      case "LabeledStatement":
+        return this.unsupportedStatement(node, "Labeled statements");
+
+      case "WithStatement":
+        return this.unsupportedStatement(node, "`with` statements");
+
+      default:
+        return this.unsupportedStatement(node, `${node.type} is not supported`);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Modules
+  // -------------------------------------------------------------------------
+
+  // ES module declarations and their CommonJS counterparts (`require()`, `module.exports`,
+  // `exports.x`); undefined for any other statement
+  private lowerModuleSyntax(node: acorn.Statement | acorn.ModuleDeclaration): ir.Statement[] | undefined {
+    const loc = this.loc(node);
+
+    switch (node.type) {
+      case "ImportDeclaration": {
+        const specifiers = node.specifiers.map((specifier): ir.ImportSpecifier => {
+          switch (specifier.type) {
+            case "ImportDefaultSpecifier":
+              return { imported: "default", local: specifier.local.name };
+            case "ImportNamespaceSpecifier":
+              return { imported: "*", local: specifier.local.name };
+            case "ImportSpecifier":
+              return { imported: moduleExportName(specifier.imported), local: specifier.local.name };
+          }
+        });
+        return [this.importDeclaration(String(node.source.value), specifiers, false, loc)];
+      }
+
+      case "ExportNamedDeclaration": {
+        if (node.declaration) {
+          const declaration = this.lowerStatement(node.declaration) as ir.FunctionDeclaration | ir.ClassDeclaration | ir.VariableDeclaration;
+          return [{ ...declaration, exported: "named" }];
+        }
+        const specifiers = node.specifiers.map((specifier) => ({
+          local: moduleExportName(specifier.local),
+          exported: moduleExportName(specifier.exported),
+        }));
+        if (node.source) {
+          const reexported = specifiers.map(({ local, exported }) => ({ imported: local, local: exported }));
+          return [this.importDeclaration(String(node.source.value), reexported, true, loc)];
+        }
+        return [{ kind: "ExportDeclaration", specifiers, loc }];
+      }
+
+      case "ExportDefaultDeclaration": {
+        const declaration = node.declaration;
+        const name = "id" in declaration && declaration.id ? declaration.id.name : "_default";
+        if (declaration.type === "FunctionDeclaration" || declaration.type === "ClassDeclaration") {
+          return [this.exportedDeclaration(name, declaration, "default", loc)];
+        }
+        return [this.exportedValue("default", declaration, loc)];
+      }
+
+      case "ExportAllDeclaration": {
+        const specifier: ir.ImportSpecifier = node.exported ? { imported: "*", local: moduleExportName(node.exported) } : { imported: "*" };
+        return [this.importDeclaration(String(node.source.value), [specifier], true, loc)];
+      }
+
+      case "VariableDeclaration": {
+        // `const x = require("m")` and `const { a, b: c } = require("m")`
+        const [declarator] = node.declarations;
+        const source = node.declarations.length === 1 ? requiredModule(declarator.init) : undefined;
+        if (source === undefined) return undefined;
+        if (declarator.id.type === "Identifier") {
+          return [this.importDeclaration(source, [{ imported: "*", local: declarator.id.name }], false, loc, true)];
+        }
+        if (declarator.id.type !== "ObjectPattern") return undefined;
+        const specifiers: ir.ImportSpecifier[] = [];
+        for (const property of declarator.id.properties) {
+          if (property.type !== "Property" || property.computed || property.key.type !== "Identifier" || property.value.type !== "Identifier") {
+            return undefined;
+          }
+          specifiers.push({ imported: property.key.name, local: property.value.name });
+        }
+        return [this.importDeclaration(source, specifiers, false, loc, true)];
+      }
+
+      case "ExpressionStatement": {
+        const expression = node.expression;
+        const source = requiredModule(expression);
+        if (source !== undefined) return [this.importDeclaration(source, [], false, loc, true)];
+        if (expression.type !== "AssignmentExpression" || expression.operator !== "=") return undefined;
+        const exported = commonJsExport(expression.left);
+        if (exported === undefined) return undefined;
+        if (exported) return [this.exportedValue(exported, expression.right, loc)];
+
+        // `module.exports = { a, b: c }` exports each property; anything else is the default export
+        const value = expression.right;
+        const properties = value.type === "ObjectExpression" ? value.properties : [];
+        const plain = properties.every((property) =>
+          property.type === "Property" && !property.computed && property.kind === "init" && property.key.type === "Identifier"
+        );
+        if (value.type !== "ObjectExpression" || !plain) return [this.exportedValue("default", value, loc)];
+
+        const statements: ir.Statement[] = [];
+        const specifiers: ir.ExportDeclaration["specifiers"] = [];
+        for (const property of properties as acorn.Property[]) {
+          const key = (property.key as acorn.Identifier).name;
+          if (property.value.type === "Identifier") specifiers.push({ local: property.value.name, exported: key });
+          else statements.push(this.exportedValue(key, property.value as acorn.Expression, this.loc(property)));
+        }
+        if (specifiers.length > 0) statements.push({ kind: "ExportDeclaration", specifiers, loc });
+        return statements;
+      }
+    }
+    return undefined;
+  }
+
+  private importDeclaration(
+    specifier: string,
+    specifiers: ir.ImportSpecifier[],
+    reexport: boolean,
+    loc: ir.SourceRange | undefined,
+    commonJs = false
+  ): ir.ImportDeclaration {
+    const declaration: ir.ImportDeclaration = { kind: "ImportDeclaration", module: moduleReference(specifier), specifier, specifiers, reexport, loc };
+    if (commonJs) declaration.commonJs = true;
+    return declaration;
+  }
+
+  // A function or class declared under `name` and exported, e.g. `export default function () {}`
+  private exportedDeclaration(
+    name: string,
+    node: acorn.Function | acorn.Class,
+    exported: ir.ExportKind,
+    loc: ir.SourceRange | undefined
+  ): ir.FunctionDeclaration | ir.ClassDeclaration {
+    if (!("params" in node)) {
+      return { ...this.lowerClass(node as acorn.ClassDeclaration), name, exported, loc };
+    }
+    const { params, body, expressionBody } = this.lowerFunction(node);
+    return {
+      kind: "FunctionDeclaration",
+      name,
+      params,
+      body: expressionBody ? [{ kind: "ReturnStatement", argument: expressionBody, loc: this.loc(node.body) }] : body,
+      isAsync: node.async,
+      isGenerator: node.generator,
+      exported,
+      loc,
+    };
+  }
+
+  // `exported` bound to a value: an export of the name itself for an identifier, else a declaration of it
+  private exportedValue(exported: string, value: acorn.Expression, loc: ir.SourceRange | undefined): ir.Statement {
+    const name = exported === "default" ? ("id" in value && value.id ? value.id.name : "_default") : exported;
+    const kind: ir.ExportKind = exported === "default" ? "default" : "named";
+    switch (value.type) {
+      case "Identifier":
+        return { kind: "ExportDeclaration", specifiers: [{ local: value.name, exported }], loc };
+      case "FunctionExpression":
+      case "ArrowFunctionExpression":
+      case "ClassExpression":
+        return this.exportedDeclaration(name, value, kind, loc);
+      default:
+        return {
+          kind: "VariableDeclaration",
+          constant: true,
+          declarations: [{ target: { kind: "Identifier", name, loc }, init: this.lowerExpression(value), loc }],
+          exported: kind,
+          loc,
+        };
+    }
+  }
+
+  private lowerVariableDeclaration(node: acorn.VariableDeclaration): ir.VariableDeclaration {
+    return {
+      kind: "VariableDeclaration",
+      constant: node.kind === "const",
+      blockScoped: node.kind !== "var",
+      declarations: node.declarations.map((declarator) => ({
+        target: this.lowerPattern(declarator.id),
+        init: declarator.init ? this.lowerExpression(declarator.init) : undefined,
+        loc: this.loc(declarator),
+      })),
+      loc: this.loc(node),
+    };
+  }
+
+  private lowerClass(node: acorn.ClassDeclaration | acorn.ClassExpression): ir.ClassDeclaration {
+    const members: ir.ClassMember[] = [];
+
+    for (const member of node.body.body) {
+      const { comments, doc } = this.takeLeadingComments(member.start);
+      let lowered: ir.ClassMember | undefined;
+      if (member.type === "MethodDefinition") {
+        lowered = {
+          kind: "MethodDefinition",
+          role: member.kind,
+          name: this.propertyName(member.key, member.computed),
+          isStatic: member.static,
+          isAsync: member.value.async,
+          isGenerator: member.value.generator,
+          ...this.lowerFunction(member.value),
+          loc: this.loc(member),
+        };
+      } else if (member.type === "PropertyDefinition") {
+        lowered = {
+          kind: "PropertyDefinition",
+          name: this.propertyName(member.key, member.computed),
+          isStatic: member.static,
+          value: member.value ? this.lowerExpression(member.value) : undefined,
+          loc: this.loc(member),
+        };
+      }
+      if (!lowered) continue;
+      this.attachComments(lowered, member, comments, doc);
+      members.push(lowered);
+    }
+    const trailingComments = this.takeComments(node.body.end);
+    if (trailingComments.length > 0 && members.length > 0) {
+      members[members.length - 1].trailingComments = trailingComments;
+    }
+
+    return {
+      kind: "ClassDeclaration",
+      name: node.id?.name ?? "AnonymousClass",
+      superClass: node.superClass ? this.lowerExpression(node.superClass) : undefined,
+      members,
+      loc: this.loc(node),
+    };
+  }
+
+  private propertyName(key: acorn.Expression | acorn.PrivateIdentifier, computed: boolean): string {
+    if (key.type === "PrivateIdentifier") return `_${key.name}`;
+    if (!computed && key.type === "Identifier") return key.name;
+    if (key.type === "Literal") return String(key.value);
+    return this.text(key);
+  }
+
+  /**
+   * Parameters and body of a function. A destructured parameter becomes a
+   * plain one named after its position, unpacked by a declaration at the top
+   * of the body; a concise arrow with one gets a block body to hold it.
+   */
+  private lowerFunction(node: acorn.Function): Pick<ir.FunctionExpression, "params" | "body" | "expressionBody"> {
+    const unpacked: ir.Statement[] = [];
+    const params = node.params.map((param, index): ir.Parameter => {
+      const target = param.type === "AssignmentPattern" ? param.left : param.type === "RestElement" ? param.argument : param;
+      let name = target.type === "Identifier" ? target.name : this.text(target);
+      if (target.type === "ObjectPattern" || target.type === "ArrayPattern") {
+        name = unusedName(`param${index + 1}`, this.text(node));
+        unpacked.push({
+          kind: "VariableDeclaration",
+          constant: false,
+          declarations: [{ target: this.lowerPattern(target), init: { kind: "Identifier", name }, loc: this.loc(param) }],
+          loc: this.loc(param),
+        });
+      }
+      if (param.type === "AssignmentPattern") return { name, defaultValue: this.lowerExpression(param.right), loc: this.loc(param) };
+      if (param.type === "RestElement") return { name, rest: true, loc: this.loc(param) };
+      return { name, loc: this.loc(param) };
+    });
+
+    if (node.body.type === "BlockStatement") {
+      return { params, body: [...unpacked, ...this.lowerStatements(node.body.body, node.body.end)] };
+    }
+    const expressionBody = this.lowerExpression(node.body);
+    if (unpacked.length === 0) return { params, body: [], expressionBody };
+    return { params, body: [...unpacked, { kind: "ReturnStatement", argument: expressionBody, loc: this.loc(node.body) }] };
+  }
+
+  private lowerPattern(node: acorn.Pattern): ir.Pattern {
+    switch (node.type) {
+      case "Identifier":
+        return { kind: "Identifier", name: node.name, loc: this.loc(node) };
+
+      case "ArrayPattern": {
+        const defaults = node.elements.map((element) => (element?.type === "AssignmentPattern" ? this.lowerExpression(element.right) : null));
+        return {
+          kind: "ArrayPattern",
+          elements: node.elements.map((element) => (element ? this.lowerPattern(element) : null)),
+          rest: node.elements[node.elements.length - 1]?.type === "RestElement" || undefined,
+          defaults: defaults.some((value) => value) ? defaults : undefined,
+          loc: this.loc(node),
+        };
+      }
+
+      case "ObjectPattern": {
+        const rest = node.properties.find((property): property is acorn.RestElement => property.type === "RestElement");
+        return {
+          kind: "ObjectPattern",
+          properties: node.properties.flatMap((property) => {
+            if (property.type !== "Property") return [];
+            const key = this.propertyName(property.key, property.computed);
+            if (property.value.type === "AssignmentPattern") {
+              return [{
+                key,
+                value: this.lowerPattern(property.value.left),
+                defaultValue: this.lowerExpression(property.value.right),
+              }];
+            }
+            return [{ key, value: this.lowerPattern(property.value as acorn.Pattern) }];
+          }),
+          // Only a name may follow `...` in an object pattern
+          rest: rest?.argument.type === "Identifier" ? { kind: "Identifier", name: rest.argument.name, loc: this.loc(rest) } : undefined,
+          loc: this.loc(node),
+        };
+      }
+
+      case "AssignmentPattern":
+        return this.lowerPattern(node.left);
+
+      case "RestElement":
+        return this.lowerPattern(node.argument);
+
+      default:
+        // MemberExpression targets only occur in assignments, handled by the caller
+        return { kind: "Identifier", name: this.text(node), loc: this.loc(node) };
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  private lowerExpression(node: acorn.Expression | acorn.Super | acorn.SpreadElement | acorn.PrivateIdentifier): ir.Expression {
+    const loc = this.loc(node);
+
+    switch (node.type) {
+      case "Identifier":
+        if (node.name === "undefined") return { kind: "Literal", value: null, raw: "undefined", loc };
+        return { kind: "Identifier", name: node.name, loc };
+
+      case "PrivateIdentifier":
+        return { kind: "Identifier", name: `_${node.name}`, loc };
+
+      case "Literal":
+        if (node.regex) return this.unsupportedExpression(node, "Regular expression literals");
+        if (typeof node.value === "bigint") return { kind: "Literal", value: Number(node.value), raw: node.raw, loc };
+        return { kind: "Literal", value: node.value as string | number | boolean | null, raw: node.raw, loc };
+
+      case "TemplateLiteral":
+        return {
+          kind: "TemplateLiteral",
+          quasis: node.quasis.map((quasi) => quasi.value.cooked ?? quasi.value.raw),
+          expressions: node.expressions.map((expression) => this.lowerExpression(expression)),
+          loc,
+        };
+
+      case "ArrayExpression":
+        return {
+          kind: "ArrayExpression",
+          elements: node.elements.map((element) =>
+            element ? this.lowerExpression(element) : { kind: "Literal", value: null } as ir.Literal
+          ),
+          loc,
+        };
+
+      case "ObjectExpression":
+        return {
+          kind: "ObjectExpression",
+          properties: node.properties.map((property) => {
+            if (property.type === "SpreadElement") {
+              return { kind: "SpreadElement", argument: this.lowerExpression(property.argument), loc: this.loc(property) };
+            }
+            const key: ir.Expression = property.computed
+              ? this.lowerExpression(property.key)
+              : { kind: "Literal", value: this.propertyName(property.key, false), loc: this.loc(property.key) };
+            return {
+              key,
+              computed: property.computed,
+              value: this.lowerExpression(property.value as acorn.Expression),
+              loc: this.loc(property),
+            };
+          }),
+          loc,
+        };
+
+      case "BinaryExpression": {
+        const operator = normalizeBinaryOperator(node.operator);
+        if (!operator) return this.unsupportedExpression(node, `Operator ${node.operator}`);
+        return {
+          kind: "BinaryExpression",
+          operator,
+          left: this.lowerExpression(node.left),
+          right: this.lowerExpression(node.right),
+          loc,
+        };
+      }
+
+      case "LogicalExpression":
+        return {
+          kind: "LogicalExpression",
+          operator: node.operator,
+          left: this.lowerExpression(node.left),
+          right: this.lowerExpression(node.right),
+          loc,
+        };
+
+      case "UnaryExpression":
+        return { kind: "UnaryExpression", operator: node.operator, argument: this.lowerExpression(node.argument), loc };
+
+      case "UpdateExpression":
+        return {
+          kind: "UpdateExpression",
+          operator: node.operator,
+          prefix: node.prefix,
+          argument: this.lowerExpression(node.argument),
+          loc,
+        };
+
+      case "AssignmentExpression":
+        return {
+          kind: "AssignmentExpression",
+          operator: node.operator,
+          target: node.left.type === "MemberExpression"
+            ? this.lowerExpression(node.left)
+            : this.lowerPattern(node.left),
+          value: this.lowerExpression(node.right),
+          loc,
+        };
+
+      case "CallExpression":
+        return {
+          kind: "CallExpression",
+          callee: this.lowerExpression(node.callee),
+          arguments: node.arguments.map((argument) => this.lowerExpression(argument)),
+          optional: node.optional || undefined,
+          loc,
+        };
+
+      case "NewExpression":
+        return {
+          kind: "NewExpression",
+          callee: this.lowerExpression(node.callee),
+          arguments: node.arguments.map((argument) => this.lowerExpression(argument)),
+          loc,
+        };
+
+      case "MemberExpression":
+        return {
+          kind: "MemberExpression",
+          object: this.lowerExpression(node.object),
+          property: node.computed
+            ? this.lowerExpression(node.property)
+            : { kind: "Identifier", name: this.propertyName(node.property, false), loc: this.loc(node.property) },
+          computed: node.computed,
+          optional: node.optional || undefined,
+          loc,
+        };
+
+      case "ChainExpression":
+        return this.lowerExpression(node.expression);
+
+      case "ParenthesizedExpression":
+        return this.lowerExpression(node.expression);
+
+      case "ConditionalExpression":
+        return {
+          kind: "ConditionalExpression",
+          test: this.lowerExpression(node.test),
+          consequent: this.lowerExpression(node.consequent),
+          alternate: this.lowerExpression(node.alternate),
+          loc,
+        };
+
+      case "ArrowFunctionExpression":
+      case "FunctionExpression": {
+        return {
+          kind: "FunctionExpression",
+          name: node.type === "FunctionExpression" ? node.id?.name : undefined,
+          ...this.lowerFunction(node),
+          isArrow: node.type === "ArrowFunctionExpression",
+          isAsync: node.async,
+          isGenerator: node.generator,
+          loc,
+        };
+      }
+
+      case "ThisExpression":
+        return { kind: "ThisExpression", loc };
+
+      case "Super":
+        return { kind: "SuperExpression", loc };
+
+      case "SpreadElement":
+        return { kind: "SpreadElement", argument: this.lowerExpression(node.argument), loc };
+
+      case "AwaitExpression":
+        return { kind: "AwaitExpression", argument: this.lowerExpression(node.argument), loc };
+
+      case "YieldExpression":
+        return { kind: "YieldExpression", argument: node.argument ? this.lowerExpression(node.argument) : undefined, delegate: node.delegate, loc };
+
+      case "SequenceExpression":
+        return {
+          kind: "SequenceExpression",
+          expressions: node.expressions.map((expression) => this.lowerExpression(expression)),
+          loc,
+        };
+
+      default:
+        return this.unsupportedExpression(node, `${node.type} is not supported`);
+    }
+  }
+}
+
+function normalizeBinaryOperator(operator: acorn.BinaryOperator): ir.BinaryOperator | null {
+  switch (operator) {
+    // Strict and loose equality collapse: target languages only have one
+    case "===":
+    case "==":
+      return "==";
+    case "!==":
+    case "!=":
+      return "!=";
+    case "+": case "-": case "*": case "/": case "%": case "**":
+    case "<": case "<=": case ">": case ">=":
+    case "&": case "|": case "^": case "<<": case ">>": case ">>>":
+    case "in": case "instanceof":
+      return operator;
+    default:
+      return null;
+  }
+}
+
+// `base`, or `base_2`, `base_3`, ... if the function's source already uses it
+function unusedName(base: string, source: string): string {
+  let name = base;
+  for (let suffix = 2; new RegExp(`\\b${name}\\b`).test(source); suffix++) name = `${base}_${suffix}`;
+  return name;
+}
@@ -0,0 +1,209 @@
+import type * as ir from "../ir";
+import { walk } from "../walk";
+
+/**
+ * Python creates a local variable on first assignment, while most target
+ * languages need an explicit declaration. This pass rewrites the first
+ * assignment to each local into a VariableDeclaration (constant when the name
+ * is never reassigned) and declares names first assigned inside nested
+ * blocks just before the block, so they stay visible after it.
+ *
+ * `globals` maps each function body (and the module body) to the names it
+ * declares `global` or `nonlocal`.
+ */
+export function declareLocals(
+  body: ir.Statement[],
+  params: string[],
+  globals: Map<ir.Statement[], Set<string>>
+): ir.Statement[] {
+  const rebound = new Set<string>();
+  for (const names of Array.from(globals.values())) {
+    for (const name of Array.from(names)) rebound.add(name);
+  }
+  return new ScopeDeclarer(globals, rebound).declare(body, params);
+}
+
+class ScopeDeclarer {
+  constructor(
+    private readonly globals: Map<ir.Statement[], Set<string>>,
+    // Names assigned through `global`/`nonlocal` somewhere, which can never be constant
+    private readonly rebound: Set<string>
+  ) {}
+
+  declare(body: ir.Statement[], params: string[]): ir.Statement[] {
+    const declared = new Set<string>([...params, ...Array.from(this.globals.get(body) ?? [])]);
+    const counts = this.countAssignments(body);
+
+    // Functions, classes and imported names are bindings of their own
+    for (const statement of body) {
+      if (statement.kind === "FunctionDeclaration" || statement.kind === "ClassDeclaration") {
+        declared.add(statement.name);
+      } else if (statement.kind === "ImportDeclaration") {
+        for (const specifier of statement.specifiers) {
+          if (specifier.local) declared.add(specifier.local);
+        }
+      }
+    }
+
+    const result: ir.Statement[] = [];
+    for (const statement of body) {
+      this.declareNested(statement);
+
+      const declaration = this.toDeclaration(statement, declared, counts);
+      if (declaration) {
+        result.push(declaration);
+        continue;
+      }
+
+      if (statement.kind === "VariableDeclaration") {
+        for (const declarator of statement.declarations) {
+          for (const name of patternNames(declarator.target)) declared.add(name);
+        }
+        result.push(statement);
+        continue;
+      }
+
+      // Names first bound inside nested blocks are declared ahead of the block
+      const hoisted = this.assignedNames(statement).filter((name) => !declared.has(name));
+      if (hoisted.length > 0) {
+        result.push({
+          kind: "VariableDeclaration",
+          constant: false,
+          declarations: hoisted.map((name) => ({ target: { kind: "Identifier", name } })),
+          leadingComments: statement.leadingComments,
+          loc: statement.loc && { start: statement.loc.start, end: statement.loc.start },
+        });
+        statement.leadingComments = undefined;
+        for (const name of hoisted) declared.add(name);
+      }
+      result.push(statement);
+    }
+    return result;
+  }
+
+  // `x = value` (or `a = b = value`) binding only new names becomes a declaration
+  private toDeclaration(
+    statement: ir.Statement,
+    declared: Set<string>,
+    counts: Map<string, number>
+  ): ir.VariableDeclaration | null {
+    if (statement.kind !== "ExpressionStatement") return null;
+
+    const chain: ir.Pattern[] = [];
+    let value: ir.Expression = statement.expression;
+    while (value.kind === "AssignmentExpression" && value.operator === "=" && value.target.kind !== "MemberExpression") {
+      if (value.target.kind !== "Identifier" && value.target.kind !== "ArrayPattern" && value.target.kind !== "ObjectPattern") {
+        return null;
+      }
+      chain.push(value.target);
+      value = value.value;
+    }
+    if (chain.length === 0 || value.kind === "AssignmentExpression") return null;
+
+    const names = chain.flatMap((target) => patternNames(target));
+    if (names.some((name) => declared.has(name)) || new Set(names).size !== names.length) return null;
+    for (const name of names) declared.add(name);
+
+    const isConstant = (target: ir.Pattern) =>
+      patternNames(target).every((name) => counts.get(name) === 1 && !this.rebound.has(name));
+
+    // The innermost target is bound to the value, each outer one to the target inside it
+    const declarations: ir.VariableDeclarator[] = [];
+    let init = value;
+    for (let index = chain.length - 1; index >= 0; index--) {
+      declarations.push({ target: chain[index], init, loc: statement.loc });
+      const target = chain[index];
+      if (target.kind !== "Identifier") break;
+      init = { kind: "Identifier", name: target.name, loc: target.loc };
+    }
+
+    return {
+      kind: "VariableDeclaration",
+      constant: chain.every(isConstant),
+      declarations,
+      leadingComments: statement.leadingComments,
+      trailingComments: statement.trailingComments,
+      inlineComment: statement.inlineComment,
+      loc: statement.loc,
+    };
+  }
+
+  // Recurses into functions and methods defined by `statement`, which are separate scopes
+  private declareNested(statement: ir.Statement): void {
+    walk(statement, (node) => {
+      if (node.kind === "FunctionDeclaration") {
+        node.body = this.declare(node.body, node.params.map((param) => param.name));
+        return false;
+      }
+      if (node.kind === "ClassDeclaration") {
+        for (const member of node.members) {
+          if (member.kind === "MethodDefinition") {
+            member.body = this.declare(member.body, member.params.map((param) => param.name));
+          }
+        }
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private countAssignments(body: ir.Statement[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    const add = (pattern: ir.Expression | ir.Pattern) => {
+      for (const name of patternNames(pattern)) counts.set(name, (counts.get(name) ?? 0) + 1);
+    };
+
+    walkScope(body, (node) => {
+      if (node.kind === "AssignmentExpression") add(node.target);
+      if (node.kind === "ForEachStatement") add(node.target);
+      if (node.kind === "UpdateExpression") add(node.argument);
+    });
+    return counts;
+  }
+
+  // Names bound by assignments anywhere in `statement`, excluding loop variables, in source order
+  private assignedNames(statement: ir.Statement): string[] {
+    const names: string[] = [];
+    const loopTargets = new Set<string>();
+
+    walkScope(statement, (node) => {
+      if (node.kind === "ForEachStatement") {
+        for (const name of patternNames(node.target)) loopTargets.add(name);
+      }
+      if (node.kind === "ForStatement" && node.init?.kind === "VariableDeclaration") {
+        for (const declarator of node.init.declarations) {
+          for (const name of patternNames(declarator.target)) loopTargets.add(name);
+        }
+      }
+      if (node.kind === "AssignmentExpression" && (node.operator === "=" || node.target.kind !== "Identifier")) {
+        names.push(...patternNames(node.target));
+      }
+    });
+
+    return Array.from(new Set(names)).filter((name) => !loopTargets.has(name));
+  }
+}
+
+// Visits nodes without entering nested functions or classes
+function walkScope(root: unknown, visitor: (node: ir.Node) => void): void {
+  walk(root, (node) => {
+    if (node.kind === "FunctionDeclaration" || node.kind === "ClassDeclaration" || node.kind === "FunctionExpression") {
+      return false;
+    }
+    visitor(node);
+    return true;
+  });
+}
+
+function patternNames(pattern: ir.Expression | ir.Pattern): string[] {
+  switch (pattern.kind) {
+    case "Identifier":
+      return [pattern.name];
+    case "ArrayPattern":
+      return pattern.elements.flatMap((element) => (element ? patternNames(element) : []));
+    case "ObjectPattern":
+      return pattern.properties.flatMap((property) => patternNames(property.value));
+    default:
+      return [];
+  }
+}
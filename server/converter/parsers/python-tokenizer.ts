@@ -0,0 +1,286 @@
+import type { Position } from "../ir";
+import { SourceParseError } from "../errors";
+
+export type PythonTokenType =
+  | "NAME"
+  | "NUMBER"
+  | "STRING"
+  | "OP"
+  | "NEWLINE"
+  | "INDENT"
+  | "DEDENT"
+  | "ENDMARKER";
+
+export interface PythonToken {
+  type: PythonTokenType;
+  // For STRING tokens this is the decoded value (or the raw body of an f-string)
+  value: string;
+  start: Position;
+  end: Position;
+  // Lower-cased string prefix such as "f", "rb" or "" (STRING tokens only)
+  prefix?: string;
+}
+
+export interface PythonComment {
+  text: string;
+  start: Position;
+  end: Position;
+  // True when nothing but whitespace precedes the comment on its line
+  ownLine: boolean;
+}
+
+export interface TokenizeResult {
+  tokens: PythonToken[];
+  comments: PythonComment[];
+}
+
+// Longest operators first so that e.g. "**=" wins over "**" and "*"
+const OPERATORS = [
+  "**=", "//=", ">>=", "<<=", "...", "->", ":=",
+  "**", "//", ">>", "<<", "<=", ">=", "==", "!=", "+=", "-=", "*=", "/=", "%=", "&=", "|=", "^=", "@=",
+  "+", "-", "*", "/", "%", "@", "&", "|", "^", "~", "<", ">", "(", ")", "[", "]", "{", "}",
+  ",", ":", ".", ";", "=",
+];
+
+const STRING_START = /^([rRbBuUfF]{0,2})('''|"""|'|")/;
+
+/**
+ * Indentation-aware tokenizer following Python's lexical rules: INDENT and
+ * DEDENT tokens frame blocks, and newlines inside brackets or after a
+ * backslash continuation are not logical line ends.
+ */
+export function tokenizePython(source: string): TokenizeResult {
+  return new PythonTokenizer(source).run();
+}
+
+class PythonTokenizer {
+  private offset = 0;
+  private line = 1;
+  private column = 0;
+  private readonly tokens: PythonToken[] = [];
+  private readonly comments: PythonComment[] = [];
+  private readonly indents: number[] = [0];
+  private bracketDepth = 0;
+  private atLineStart = true;
+
+  constructor(private readonly source: string) {}
+
+  run(): TokenizeResult {
+    while (this.offset < this.source.length) {
+      if (this.atLineStart && this.bracketDepth === 0) {
+        if (this.readIndentation()) continue;
+      }
+      this.readToken();
+    }
+
+    const last = this.tokens[this.tokens.length - 1];
+    if (last && last.type !== "NEWLINE" && last.type !== "DEDENT") {
+      this.push("NEWLINE", "", this.position());
+    }
+    while (this.indents.length > 1) {
+      this.indents.pop();
+      this.push("DEDENT", "", this.position());
+    }
+    this.push("ENDMARKER", "", this.position());
+
+    return { tokens: this.tokens, comments: this.comments };
+  }
+
+  private position(): Position {
+    return { line: this.line, column: this.column };
+  }
+
+  private error(message: string): never {
+    throw new SourceParseError(message, "python", this.position());
+  }
+
+  private advance(count: number): string {
+    const text = this.source.slice(this.offset, this.offset + count);
+    for (const char of text) {
+      if (char === "\n") {
+        this.line++;
+        this.column = 0;
+      } else {
+        this.column++;
+      }
+    }
+    this.offset += count;
+    return text;
+  }
+
+  private push(type: PythonTokenType, value: string, start: Position, prefix?: string): void {
+    this.tokens.push({ type, value, start, end: this.position(), prefix });
+  }
+
+  /**
+   * Measures the indentation of a new logical line and emits INDENT/DEDENT.
+   * Returns true when the line was blank or comment-only and has been consumed.
+   */
+  private readIndentation(): boolean {
+    let width = 0;
+    let length = 0;
+    while (this.offset + length < this.source.length) {
+      const char = this.source[this.offset + length];
+      if (char === " ") width++;
+      else if (char === "\t") width = (Math.floor(width / 8) + 1) * 8;
+      else if (char === "\f") width = 0;
+      else break;
+      length++;
+    }
+
+    const next = this.source[this.offset + length];
+    if (next === undefined || next === "\n" || next === "\r" || next === "#") {
+      // Blank and comment-only lines do not affect indentation
+      this.advance(length);
+      if (next === "#") this.readComment();
+      if (this.source[this.offset] === "\r") this.advance(1);
+      if (this.source[this.offset] === "\n") this.advance(1);
+      return true;
+    }
+
+    this.advance(length);
+    this.atLineStart = false;
+
+    const current = this.indents[this.indents.length - 1];
+    if (width > current) {
+      this.indents.push(width);
+      this.push("INDENT", "", this.position());
+    } else if (width < current) {
+      while (this.indents[this.indents.length - 1] > width) {
+        this.indents.pop();
+        this.push("DEDENT", "", this.position());
+      }
+      if (this.indents[this.indents.length - 1] !== width) {
+        this.error("Unindent does not match any outer indentation level");
+      }
+    }
+    return false;
+  }
+
+  private readComment(): void {
+    const start = this.position();
+    const lineStart = this.source.lastIndexOf("\n", this.offset - 1) + 1;
+    const ownLine = this.source.slice(lineStart, this.offset).trim() === "";
+    let end = this.source.indexOf("\n", this.offset);
+    if (end === -1) end = this.source.length;
+    const text = this.advance(end - this.offset).replace(/\r$/, "");
+    this.comments.push({ text: text.slice(1).trim(), start, end: this.position(), ownLine });
+  }
+
+  private readToken(): void {
+    const char = this.source[this.offset];
+    const start = this.position();
+
+    if (char === " " || char === "\t" || char === "\f" || char === "\r") {
+      this.advance(1);
+      return;
+    }
+
+    if (char === "#") {
+      this.readComment();
+      return;
+    }
+
+    if (char === "\\" && /^\\\r?\n/.test(this.source.slice(this.offset, this.offset + 3))) {
+      // Explicit line continuation
+      this.advance(this.source[this.offset + 1] === "\r" ? 3 : 2);
+      return;
+    }
+
+    if (char === "\n") {
+      this.advance(1);
+      if (this.bracketDepth === 0) {
+        this.push("NEWLINE", "", start);
+        this.atLineStart = true;
+      }
+      return;
+    }
+
+    const rest = this.source.slice(this.offset, this.offset + 4);
+    const stringMatch = STRING_START.exec(rest);
+    if (stringMatch && /^[rbuf]*$/i.test(stringMatch[1])) {
+      this.readString(stringMatch[1].toLowerCase(), stringMatch[2], start);
+      return;
+    }
+
+    if (/[A-Za-z_À-￿]/.test(char)) {
+      const match = /^[A-Za-z_0-9À-￿]+/.exec(this.source.slice(this.offset))!;
+      this.push("NAME", this.advance(match[0].length), start);
+      return;
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(this.source[this.offset + 1] ?? ""))) {
+      const match = /^(0[xX][0-9a-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(\d[\d_]*\.?[\d_]*|\.\d[\d_]*)([eE][+-]?\d[\d_]*)?[jJ]?)/.exec(
+        this.source.slice(this.offset)
+      )!;
+      this.push("NUMBER", this.advance(match[0].length), start);
+      return;
+    }
+
+    for (const operator of OPERATORS) {
+      if (this.source.startsWith(operator, this.offset)) {
+        if ("([{".includes(operator)) this.bracketDepth++;
+        if (")]}".includes(operator)) this.bracketDepth = Math.max(0, this.bracketDepth - 1);
+        this.push("OP", this.advance(operator.length), start);
+        return;
+      }
+    }
+
+    this.error(`Unexpected character '${char}'`);
+  }
+
+  private readString(prefix: string, quote: string, start: Position): void {
+    this.advance(prefix.length + quote.length);
+    const isRaw = prefix.includes("r");
+    const isTriple = quote.length === 3;
+    let body = "";
+
+    for (;;) {
+      if (this.offset >= this.source.length) this.error("Unterminated string literal");
+
+      if (this.source.startsWith(quote, this.offset)) {
+        this.advance(quote.length);
+        break;
+      }
+
+      const char = this.source[this.offset];
+      if (char === "\n" && !isTriple) this.error("Unterminated string literal");
+
+      if (char === "\\" && this.offset + 1 < this.source.length) {
+        body += this.advance(2);
+        continue;
+      }
+      body += this.advance(1);
+    }
+
+    // f-strings keep their raw body; the parser splits out the replacement fields
+    const value = prefix.includes("f") ? body : isRaw ? body : decodeEscapes(body);
+    this.push("STRING", value, start, prefix);
+  }
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+  a: "\x07",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+  "0": "\0",
+};
+
+/** Decode Python backslash escapes in a (non-raw) string body. */
+export function decodeEscapes(body: string): string {
+  return body.replace(/\\(\r?\n|x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|[0-7]{1,3}|.)/g, (match, escape: string) => {
+    if (escape === "\n" || escape === "\r\n") return "";
+    if (escape in SIMPLE_ESCAPES && !/^[0-7]{2,3}$/.test(escape)) return SIMPLE_ESCAPES[escape];
+    if (/^[xuU]/.test(escape)) return String.fromCodePoint(parseInt(escape.slice(1), 16));
+    if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    // Unknown escapes are kept verbatim, as Python does
+    return match;
+  });
+}
@@ -0,0 +1,1622 @@
+import type * as ir from "../ir";
+import { SourceParseError } from "../errors";
+import { parseDocstring } from "./doc-comments";
+import { decodeEscapes, tokenizePython, type PythonComment, type PythonToken } from "./python-tokenizer";
+import { declareLocals } from "./python-scope";
+
+/**
+ * Parse Python source into IR. Python-only constructs are lowered on the way:
+ * `self` becomes `this`, `range()` loops become counting loops, class
+ * instantiation becomes `new`, and first assignments become declarations.
+ */
+export function parsePython(source: string): ir.Module {
+  const { tokens, comments } = tokenizePython(source);
+  const parser = new PythonParser(tokens, comments, source);
+  const body = parser.parseModule();
+
+  return {
+    kind: "Module",
+    sourceLanguage: "python",
+    body: declareLocals(body, [], parser.scopeGlobals),
+    loc: { start: { line: 1, column: 0 }, end: tokens[tokens.length - 1].end },
+  };
+}
+
+const KEYWORDS = new Set([
+  "False", "None", "True", "and", "as", "assert", "async", "await", "break", "class", "continue",
+  "def", "del", "elif", "else", "except", "finally", "for", "from", "global", "if", "import", "in",
+  "is", "lambda", "nonlocal", "not", "or", "pass", "raise", "return", "try", "while", "with", "yield",
+]);
+
+const AUGMENTED_ASSIGNMENTS = new Set(["+=", "-=", "*=", "/=", "//=", "%=", "**=", "&=", "|=", "^=", "<<=", ">>="]);
+
+const COMPARISONS: Record<string, ir.BinaryOperator> = {
+  "<": "<",
+  ">": ">",
+  "<=": "<=",
+  ">=": ">=",
+  "==": "==",
+  "!=": "!=",
+  in: "in",
+  is: "==",
+};
+
+// Binary operator levels from loosest to tightest, below comparisons
+const BINARY_LEVELS: string[][] = [["|"], ["^"], ["&"], ["<<", ">>"], ["+", "-"], ["*", "/", "//", "%", "@"]];
+
+interface HandlerContext {
+  clause: ir.CatchClause;
+}
+
+class PythonParser {
+  private pos = 0;
+  private nextComment = 0;
+  private readonly lineOffsets: number[] = [0];
+  private readonly classNames = new Set<string>();
+  // Name bound to the instance (`self`, or `cls` in class methods) in the current method
+  private selfName?: string;
+  // Set while parsing the statements directly inside a class body
+  private inClassBody = false;
+  private readonly handlers: HandlerContext[] = [];
+  // Names declared `global`/`nonlocal`, keyed by the body of the declaring function
+  readonly scopeGlobals = new Map<ir.Statement[], Set<string>>();
+  private currentGlobals = new Set<string>();
+  // Set once the function being parsed yields, which makes it a generator
+  private yields = false;
+
+  constructor(
+    private readonly tokens: PythonToken[],
+    private readonly comments: PythonComment[],
+    private readonly source: string,
+    // Where this token stream starts in the enclosing file (for f-string fields)
+    private readonly origin?: ir.Position
+  ) {
+    for (let index = 0; index < source.length; index++) {
+      if (source[index] === "\n") this.lineOffsets.push(index + 1);
+    }
+    tokens.forEach((token, index) => {
+      const next = tokens[index + 1];
+      if (token.type === "NAME" && token.value === "class" && next?.type === "NAME") {
+        this.classNames.add(next.value);
+      }
+    });
+  }
+
+  parseModule(): ir.Statement[] {
+    const body = this.parseStatements("ENDMARKER", 0);
+    this.scopeGlobals.set(body, this.currentGlobals);
+    // A module docstring is kept as a block comment at the top
+    const docstring = this.takeDocstring(body);
+    if (docstring && body[0]) {
+      body[0].leadingComments = [{ text: docstring.text, block: true, loc: docstring.loc }, ...(body[0].leadingComments ?? [])];
+    }
+    return body;
+  }
+
+  // -------------------------------------------------------------------------
+  // Token helpers
+  // -------------------------------------------------------------------------
+
+  private peek(offset = 0): PythonToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): PythonToken {
+    const token = this.peek();
+    if (this.pos < this.tokens.length - 1) this.pos++;
+    return token;
+  }
+
+  // True if the current token is the operator or keyword `value`
+  private check(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return (token.type === "OP" || token.type === "NAME") && token.value === value;
+  }
+
+  private accept(value: string): boolean {
+    if (!this.check(value)) return false;
+    this.next();
+    return true;
+  }
+
+  private expect(value: string): PythonToken {
+    if (!this.check(value)) this.fail(`Expected '${value}'`);
+    return this.next();
+  }
+
+  private expectType(type: PythonToken["type"]): PythonToken {
+    if (this.peek().type !== type) this.fail(`Expected ${type.toLowerCase()}`);
+    return this.next();
+  }
+
+  private expectName(): string {
+    const token = this.peek();
+    if (token.type !== "NAME" || KEYWORDS.has(token.value)) this.fail("Expected a name");
+    return this.next().value;
+  }
+
+  private fail(message: string, token = this.peek()): never {
+    const found = token.type === "NEWLINE" ? "end of line" : token.type === "ENDMARKER" ? "end of input" : `'${token.value || token.type}'`;
+    throw new SourceParseError(`${message} but found ${found}`, "python", this.position(token.start));
+  }
+
+  private position(position: ir.Position): ir.Position {
+    if (!this.origin) return position;
+    if (position.line === 1) {
+      return { line: this.origin.line, column: this.origin.column + position.column };
+    }
+    return { line: this.origin.line + position.line - 1, column: position.column };
+  }
+
+  // End of the last significant token consumed
+  private lastEnd(): ir.Position {
+    let index = this.pos - 1;
+    while (index > 0 && ["NEWLINE", "INDENT", "DEDENT"].includes(this.tokens[index].type)) index--;
+    return this.tokens[Math.max(index, 0)].end;
+  }
+
+  private loc(start: PythonToken): ir.SourceRange {
+    return { start: this.position(start.start), end: this.position(this.lastEnd()) };
+  }
+
+  private textBetween(start: ir.Position, end: ir.Position): string {
+    const from = this.lineOffsets[start.line - 1] + start.column;
+    const to = this.lineOffsets[end.line - 1] + end.column;
+    return this.source.slice(from, to);
+  }
+
+  private atExpressionEnd(): boolean {
+    const token = this.peek();
+    if (token.type === "NEWLINE" || token.type === "ENDMARKER") return true;
+    return token.type === "OP" && [")", "]", "}", "=", ":", ";"].includes(token.value) || AUGMENTED_ASSIGNMENTS.has(token.value);
+  }
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  // Comments above `line`, stopping at an own-line comment left of `minColumn`
+  private takeComments(line: number, minColumn = 0): ir.Comment[] {
+    const taken: ir.Comment[] = [];
+    while (this.nextComment < this.comments.length && this.comments[this.nextComment].start.line < line) {
+      const comment = this.comments[this.nextComment];
+      if (comment.ownLine && comment.start.column < minColumn) break;
+      this.nextComment++;
+      taken.push(this.toComment(comment));
+    }
+    return taken;
+  }
+
+  // An end-of-line comment on the line where the statement just parsed ends
+  private takeInlineComment(): ir.Comment | undefined {
+    const comment = this.comments[this.nextComment];
+    if (!comment || comment.ownLine || comment.start.line !== this.lastEnd().line) return undefined;
+    this.nextComment++;
+    return this.toComment(comment);
+  }
+
+  private toComment(comment: PythonComment): ir.Comment {
+    return { text: comment.text, block: false, loc: { start: this.position(comment.start), end: this.position(comment.end) } };
+  }
+
+  // Removes a leading docstring from `body` and returns its dedented text
+  private takeDocstring(body: ir.Statement[]): { text: string; loc?: ir.SourceRange } | undefined {
+    const [first] = body;
+    if (first?.kind !== "ExpressionStatement" || first.expression.kind !== "Literal" || typeof first.expression.value !== "string") {
+      return undefined;
+    }
+
+    body.shift();
+    const lines = first.expression.value.trim().split("\n");
+    const indent = Math.min(...lines.slice(1).filter((line) => line.trim()).map((line) => line.search(/\S/)));
+    const text = lines.map((line, index) => (index > 0 && Number.isFinite(indent) ? line.slice(indent) : line).trimEnd()).join("\n");
+    if (body[0] && first.leadingComments) {
+      body[0].leadingComments = [...first.leadingComments, ...(body[0].leadingComments ?? [])];
+    }
+    return { text, loc: first.loc };
+  }
+
+  // Docstrings of functions and classes become their doc comment
+  private attachDocstring(body: ir.Statement[], declaration: ir.Statement): void {
+    const docstring = this.takeDocstring(body);
+    if (docstring) declaration.doc = parseDocstring(docstring.text, docstring.loc);
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private parseStatements(terminator: "DEDENT" | "ENDMARKER", blockColumn: number): ir.Statement[] {
+    const statements: ir.Statement[] = [];
+    let pendingComments: ir.Comment[] = [];
+
+    while (this.peek().type !== terminator && this.peek().type !== "ENDMARKER") {
+      if (this.peek().type === "NEWLINE") {
+        this.next();
+        continue;
+      }
+
+      const leadingComments = [...pendingComments, ...this.takeComments(this.peek().start.line)];
+      const parsed = this.parseStatement();
+      if (parsed.length === 0) {
+        pendingComments = leadingComments;
+        continue;
+      }
+      pendingComments = [];
+      // Comments inside a multi-line expression are moved above the statement
+      const innerComments = this.takeComments(this.lastEnd().line);
+      if (leadingComments.length > 0 || innerComments.length > 0) {
+        parsed[0].leadingComments = [...leadingComments, ...(parsed[0].leadingComments ?? []), ...innerComments];
+      }
+      const inlineComment = this.takeInlineComment();
+      if (inlineComment) parsed[parsed.length - 1].inlineComment = inlineComment;
+      statements.push(...parsed);
+    }
+
+    const trailingComments = [
+      ...pendingComments,
+      ...this.takeComments(terminator === "ENDMARKER" ? Infinity : this.peek().start.line, blockColumn),
+    ];
+    if (trailingComments.length > 0 && statements.length > 0) {
+      const last = statements[statements.length - 1];
+      last.trailingComments = [...(last.trailingComments ?? []), ...trailingComments];
+    }
+    return statements;
+  }
+
+  // `:` followed by an indented block or by simple statements on the same line
+  private parseSuite(): ir.Statement[] {
+    this.expect(":");
+    if (this.peek().type !== "NEWLINE") {
+      return this.parseSimpleStatements();
+    }
+    this.next();
+    const indent = this.expectType("INDENT");
+    const body = this.parseStatements("DEDENT", indent.end.column);
+    if (this.peek().type === "DEDENT") this.next();
+    return body;
+  }
+
+  private parseStatement(): ir.Statement[] {
+    const token = this.peek();
+
+    if (token.type === "INDENT") this.fail("Unexpected indent");
+
+    if (token.type === "OP" && token.value === "@") {
+      return this.parseDecorated();
+    }
+
+    if (token.type === "NAME") {
+      switch (token.value) {
+        case "def":
+          return [this.parseFunction([])];
+        case "class":
+          return this.parseClass([]);
+        case "if":
+          return this.parseIf();
+        case "while":
+          return this.parseWhile();
+        case "for":
+          return this.parseFor();
+        case "try":
+          return [this.parseTry()];
+        case "with":
+          return [this.parseWith()];
+        case "async":
+          if (this.check("def", 1)) return [this.parseFunction([])];
+          if (this.check("for", 1) || this.check("with", 1)) {
+            return [this.skipStatement(token, "`async for` and `async with` are not supported")];
+          }
+          break;
+        case "match":
+          if (this.isMatchStatement()) {
+            return [this.skipStatement(token, "`match` statements are not supported yet")];
+          }
+          break;
+      }
+    }
+
+    return this.parseSimpleStatements();
+  }
+
+  private parseSimpleStatements(): ir.Statement[] {
+    const statements: ir.Statement[] = [];
+    do {
+      if (this.peek().type === "NEWLINE") break;
+      if (this.check("import") || this.check("from")) {
+        statements.push(...(this.check("import") ? this.parseImport() : this.parseFromImport()));
+        continue;
+      }
+      const statement = this.parseSmallStatement();
+      if (statement) statements.push(statement);
+    } while (this.accept(";"));
+
+    if (this.peek().type !== "ENDMARKER") this.expectType("NEWLINE");
+    return statements;
+  }
+
+  // `match` is a soft keyword: only a line shaped like `match subject:` starts a match statement
+  private isMatchStatement(): boolean {
+    let offset = 1;
+    while (this.peek(offset).type !== "NEWLINE" && this.peek(offset).type !== "ENDMARKER") offset++;
+    const second = this.peek(1);
+    return offset > 2 && this.peek(offset - 1).value === ":" && !(second.type === "OP" && ["=", ":", "."].includes(second.value));
+  }
+
+  // Consumes a whole (possibly compound) statement and keeps its text
+  private skipStatement(start: PythonToken, reason: string): ir.UnsupportedStatement {
+    let depth = 0;
+    for (;;) {
+      const token = this.next();
+      if (token.type === "ENDMARKER") break;
+      if (token.type === "INDENT") depth++;
+      if (token.type === "DEDENT" && --depth === 0) break;
+      if (token.type === "NEWLINE" && depth === 0 && this.peek().type !== "INDENT") break;
+    }
+    const loc = this.loc(start);
+    return { kind: "UnsupportedStatement", text: this.textBetween(start.start, this.lastEnd()).trimEnd(), reason, loc };
+  }
+
+  private parseSmallStatement(): ir.Statement | null {
+    const start = this.peek();
+
+    if (start.type === "NAME") {
+      switch (start.value) {
+        case "pass":
+          this.next();
+          return null;
+
+        case "break":
+          this.next();
+          return { kind: "BreakStatement", loc: this.loc(start) };
+
+        case "continue":
+          this.next();
+          return { kind: "ContinueStatement", loc: this.loc(start) };
+
+        case "return": {
+          this.next();
+          const argument = this.atExpressionEnd() ? undefined : this.parseStarExpressions();
+          return { kind: "ReturnStatement", argument, loc: this.loc(start) };
+        }
+
+        case "raise":
+          return this.parseRaise();
+
+        case "global":
+        case "nonlocal":
+          this.next();
+          do {
+            this.currentGlobals.add(this.expectName());
+          } while (this.accept(","));
+          return null;
+
+        case "del": {
+          this.next();
+          const targets: ir.Expression[] = [];
+          do {
+            targets.push(this.parseBitOr());
+          } while (this.accept(",") && !this.atExpressionEnd());
+          const expression: ir.Expression = targets.length === 1
+            ? { kind: "UnaryExpression", operator: "delete", argument: targets[0], loc: this.loc(start) }
+            : { kind: "SequenceExpression", expressions: targets.map((target) => ({ kind: "UnaryExpression", operator: "delete", argument: target, loc: target.loc }) as ir.Expression), loc: this.loc(start) };
+          return { kind: "ExpressionStatement", expression, loc: this.loc(start) };
+        }
+
+        case "assert": {
+          this.next();
+          const test = this.parseExpression();
+          const message = this.accept(",") ? this.parseExpression() : undefined;
+          const loc = this.loc(start);
+          return {
+            kind: "IfStatement",
+            test: { kind: "UnaryExpression", operator: "!", argument: test, loc: test.loc },
+            consequent: [{
+              kind: "ThrowStatement",
+              argument: { kind: "NewExpression", callee: { kind: "Identifier", name: "AssertionError" }, arguments: message ? [message] : [], loc },
+              loc,
+            }],
+            loc,
+          };
+        }
+      }
+    }
+
+    return this.parseExpressionStatement();
+  }
+
+  // `a.b` in an import, as its dotted segments
+  private parseDottedName(): string[] {
+    const path = [this.expectName()];
+    while (this.accept(".")) path.push(this.expectName());
+    return path;
+  }
+
+  // `import a.b as c, d`: one declaration per module; without `as`, `import a.b` binds `a`
+  private parseImport(): ir.ImportDeclaration[] {
+    const start = this.next();
+    const declarations: ir.ImportDeclaration[] = [];
+    do {
+      const path = this.parseDottedName();
+      const local = this.accept("as") ? this.expectName() : path[0];
+      const module = path.length === 1 || local !== path[0] ? path : path.slice(0, 1);
+      declarations.push({
+        kind: "ImportDeclaration",
+        module: { path: module },
+        specifier: module.join("."),
+        specifiers: [{ imported: "*", local }],
+        reexport: false,
+        loc: this.loc(start),
+      });
+    } while (this.accept(","));
+    return declarations;
+  }
+
+  // `from ..pkg.mod import a as b, c`; `from . import mod` imports the submodule mod.py, so
+  // it becomes a namespace import of it (the module graph knows when the package defines mod)
+  private parseFromImport(): ir.ImportDeclaration[] {
+    const start = this.next();
+    let dots = 0;
+    for (;;) {
+      if (this.accept(".")) dots++;
+      else if (this.accept("...")) dots += 3;
+      else break;
+    }
+    const path = dots > 0 && this.check("import") ? [] : this.parseDottedName();
+    const specifierText = ".".repeat(dots) + path.join(".");
+    this.expect("import");
+
+    const specifiers: ir.ImportSpecifier[] = [];
+    if (this.accept("*")) {
+      specifiers.push({ imported: "*" });
+    } else {
+      const parenthesized = this.accept("(");
+      do {
+        if (parenthesized && this.check(")")) break;
+        const imported = this.expectName();
+        specifiers.push({ imported, local: this.accept("as") ? this.expectName() : imported });
+      } while (this.accept(","));
+      if (parenthesized) this.expect(")");
+    }
+
+    const loc = this.loc(start);
+    if (dots > 0 && path.length === 0 && specifiers.every((specifier) => specifier.local)) {
+      return specifiers.map(({ imported, local }) => ({
+        kind: "ImportDeclaration",
+        module: { parents: dots - 1, path: [imported] },
+        specifier: `${specifierText}${imported}`,
+        specifiers: [{ imported: "*", local }],
+        reexport: false,
+        loc,
+      }));
+    }
+    const module: ir.ModuleReference = dots > 0 ? { parents: dots - 1, path } : { path };
+    if (dots > 0 && path.length === 0) module.isPackage = true;
+    return [{ kind: "ImportDeclaration", module, specifier: specifierText, specifiers, reexport: false, loc }];
+  }
+
+  private parseRaise(): ir.Statement {
+    const start = this.next();
+
+    if (this.atExpressionEnd()) {
+      // A bare `raise` re-raises the exception being handled
+      const handler = this.handlers[this.handlers.length - 1]?.clause;
+      if (handler) handler.param ??= "error";
+      const name = handler?.param ?? "error";
+      return { kind: "ThrowStatement", argument: { kind: "Identifier", name, loc: this.loc(start) }, loc: this.loc(start) };
+    }
+
+    let argument = this.parseExpression();
+    if (this.accept("from")) this.parseExpression();
+
+    // `raise ValueError` raises a fresh instance of the class
+    if (argument.kind === "Identifier" && /^[A-Z]/.test(argument.name)) {
+      argument = { kind: "NewExpression", callee: argument, arguments: [], loc: argument.loc };
+    }
+    return { kind: "ThrowStatement", argument, loc: this.loc(start) };
+  }
+
+  private parseExpressionStatement(): ir.Statement | null {
+    const start = this.peek();
+    const first = this.parseStarExpressions();
+
+    if (this.check("=")) {
+      const targets: ir.Expression[] = [first];
+      let value: ir.Expression = first;
+      while (this.accept("=")) {
+        value = this.parseStarExpressions();
+        targets.push(value);
+      }
+      targets.pop();
+
+      // `a = b = 0` assigns right to left
+      for (let index = targets.length - 1; index >= 0; index--) {
+        value = {
+          kind: "AssignmentExpression",
+          operator: "=",
+          target: this.toTarget(targets[index]),
+          value,
+          loc: this.loc(start),
+        };
+      }
+      return { kind: "ExpressionStatement", expression: value, loc: this.loc(start) };
+    }
+
+    const operator = this.peek();
+    if (operator.type === "OP" && AUGMENTED_ASSIGNMENTS.has(operator.value)) {
+      this.next();
+      const value = this.parseStarExpressions();
+      return {
+        kind: "ExpressionStatement",
+        expression: { kind: "AssignmentExpression", operator: operator.value, target: this.toTarget(first), value, loc: this.loc(start) },
+        loc: this.loc(start),
+      };
+    }
+
+    if (this.accept(":")) {
+      // Annotated assignment; the annotation itself is dropped
+      this.parseExpression();
+      if (!this.accept("=")) {
+        if (first.kind !== "Identifier") return null;
+        return {
+          kind: "VariableDeclaration",
+          constant: false,
+          declarations: [{ target: first, loc: first.loc }],
+          loc: this.loc(start),
+        };
+      }
+      const value = this.parseStarExpressions();
+      return {
+        kind: "ExpressionStatement",
+        expression: { kind: "AssignmentExpression", operator: "=", target: this.toTarget(first), value, loc: this.loc(start) },
+        loc: this.loc(start),
+      };
+    }
+
+    // `...` is a placeholder body, like `pass`
+    if (first.kind === "Literal" && first.raw === "...") return null;
+
+    return { kind: "ExpressionStatement", expression: first, loc: this.loc(start) };
+  }
+
+  private toTarget(expression: ir.Expression): ir.Expression | ir.Pattern {
+    if (expression.kind === "ArrayExpression") {
+      const last = expression.elements[expression.elements.length - 1];
+      if (expression.elements.slice(0, -1).some((element) => element.kind === "SpreadElement")) {
+        throw new SourceParseError("A starred target is only supported in the last position", "python", expression.loc?.start);
+      }
+      return {
+        kind: "ArrayPattern",
+        elements: expression.elements.map((element) => this.toPattern(element.kind === "SpreadElement" ? element.argument : element)),
+        rest: last?.kind === "SpreadElement" || undefined,
+        loc: expression.loc,
+      };
+    }
+    return expression;
+  }
+
+  private toPattern(expression: ir.Expression): ir.Pattern {
+    const target = this.toTarget(expression);
+    if (target.kind === "Identifier" || target.kind === "ArrayPattern" || target.kind === "ObjectPattern") {
+      return target;
+    }
+    throw new SourceParseError("Only names and tuples can be bound here", "python", target.loc?.start);
+  }
+
+  private parseDecorated(): ir.Statement[] {
+    const decorators: ir.Expression[] = [];
+    while (this.accept("@")) {
+      decorators.push(this.parseNamedExpression());
+      this.expectType("NEWLINE");
+    }
+
+    if (this.check("class")) return this.parseClass(decorators);
+    if (this.check("def") || (this.check("async") && this.check("def", 1))) return [this.parseFunction(decorators)];
+    this.fail("Expected a function or class after decorators");
+  }
+
+  private parseFunction(decorators: ir.Expression[]): ir.FunctionDeclaration {
+    const start = this.peek();
+    const isAsync = this.accept("async");
+    this.expect("def");
+    const name = this.expectName();
+
+    const isMethod = this.inClassBody;
+    const isStatic = decorators.some((decorator) => decorator.kind === "Identifier" && decorator.name === "staticmethod");
+
+    this.expect("(");
+    const params = this.parseParameters(")");
+    this.expect(")");
+    if (this.accept("->")) this.parseExpression();
+
+    const outerSelf = this.selfName;
+    const outerInClassBody = this.inClassBody;
+    const outerGlobals = this.currentGlobals;
+
+    // Methods receive the instance (or class) as their first parameter
+    if (isMethod && !isStatic && params.length > 0 && !params[0].rest) {
+      this.selfName = params.shift()!.name;
+    } else if (isMethod) {
+      this.selfName = undefined;
+    }
+    const outerYields = this.yields;
+    this.inClassBody = false;
+    this.currentGlobals = new Set();
+    this.yields = false;
+
+    const body = this.parseSuite();
+    this.scopeGlobals.set(body, this.currentGlobals);
+    const isGenerator = this.yields;
+
+    this.selfName = outerSelf;
+    this.inClassBody = outerInClassBody;
+    this.currentGlobals = outerGlobals;
+    this.yields = outerYields;
+
+    const declaration: ir.FunctionDeclaration = {
+      kind: "FunctionDeclaration",
+      name,
+      params,
+      body,
+      isAsync,
+      isGenerator,
+      decorators: decorators.length > 0 ? decorators : undefined,
+      loc: this.loc(start),
+    };
+    this.attachDocstring(body, declaration);
+    return declaration;
+  }
+
+  private parseParameters(closing: string): ir.Parameter[] {
+    const params: ir.Parameter[] = [];
+
+    while (!this.check(closing)) {
+      const start = this.peek();
+
+      if (this.accept("/")) {
+        // Positional-only marker
+      } else if (this.accept("**")) {
+        // Keyword arguments arrive as a trailing options object
+        const name = this.expectName();
+        if (closing === ")" && this.accept(":")) this.parseExpression();
+        params.push({ name, defaultValue: { kind: "ObjectExpression", properties: [] }, keywords: true, loc: this.loc(start) });
+      } else if (this.accept("*")) {
+        if (this.peek().type === "NAME") {
+          const name = this.expectName();
+          if (closing === ")" && this.accept(":")) this.parseExpression();
+          params.push({ name, rest: true, loc: this.loc(start) });
+        }
+      } else {
+        const name = this.expectName();
+        if (closing === ")" && this.accept(":")) this.parseExpression();
+        const defaultValue = this.accept("=") ? this.parseExpression() : undefined;
+        params.push({ name, defaultValue, loc: this.loc(start) });
+      }
+
+      if (!this.accept(",")) break;
+    }
+    return params;
+  }
+
+  private parseClass(decorators: ir.Expression[]): ir.Statement[] {
+    const start = this.expect("class");
+    const name = this.expectName();
+
+    let superClass: ir.Expression | undefined;
+    if (this.accept("(")) {
+      const bases = this.parseArguments().filter((base) => base.kind !== "NamedArgument");
+      this.expect(")");
+      superClass = bases.find((base) => !(base.kind === "Identifier" && base.name === "object"));
+    }
+
+    const outerSelf = this.selfName;
+    const outerInClassBody = this.inClassBody;
+    this.selfName = undefined;
+    this.inClassBody = true;
+    const body = this.parseSuite();
+    this.selfName = outerSelf;
+    this.inClassBody = outerInClassBody;
+
+    const declaration: ir.ClassDeclaration = {
+      kind: "ClassDeclaration",
+      name,
+      superClass,
+      members: [],
+      decorators: decorators.length > 0 ? decorators : undefined,
+      loc: this.loc(start),
+    };
+    this.attachDocstring(body, declaration);
+
+    // Statements that are not members are kept after the class
+    const leftovers: ir.Statement[] = [];
+    for (const statement of body) {
+      const member = this.toClassMember(statement);
+      if (member) declaration.members.push(member);
+      else {
+        leftovers.push({
+          kind: "UnsupportedStatement",
+          text: this.statementText(statement),
+          reason: `Statement in the body of class ${name}`,
+          leadingComments: statement.leadingComments,
+          loc: statement.loc,
+        });
+      }
+    }
+    return [declaration, ...leftovers];
+  }
+
+  private statementText(statement: ir.Statement): string {
+    return statement.loc ? this.textBetween(statement.loc.start, statement.loc.end) : statement.kind;
+  }
+
+  private toClassMember(statement: ir.Statement): ir.ClassMember | null {
+    const comments = {
+      leadingComments: statement.leadingComments,
+      trailingComments: statement.trailingComments,
+      inlineComment: statement.inlineComment,
+      doc: statement.doc,
+    };
+
+    if (statement.kind === "FunctionDeclaration") {
+      let role: ir.MethodDefinition["role"] = statement.name === "__init__" ? "constructor" : "method";
+      let isStatic = false;
+      const decorators: ir.Expression[] = [];
+
+      for (const decorator of statement.decorators ?? []) {
+        if (decorator.kind === "Identifier" && (decorator.name === "staticmethod" || decorator.name === "classmethod")) {
+          isStatic = true;
+        } else if (decorator.kind === "Identifier" && decorator.name === "property") {
+          role = "get";
+        } else if (decorator.kind === "MemberExpression" && !decorator.computed && decorator.property.kind === "Identifier" && decorator.property.name === "setter") {
+          role = "set";
+        } else {
+          decorators.push(decorator);
+        }
+      }
+
+      return {
+        kind: "MethodDefinition",
+        role,
+        name: role === "constructor" ? "constructor" : statement.name,
+        isStatic,
+        isAsync: statement.isAsync,
+        isGenerator: statement.isGenerator,
+        params: statement.params,
+        body: statement.body,
+        decorators: decorators.length > 0 ? decorators : undefined,
+        loc: statement.loc,
+        ...comments,
+      };
+    }
+
+    if (
+      statement.kind === "ExpressionStatement" &&
+      statement.expression.kind === "AssignmentExpression" &&
+      statement.expression.operator === "=" &&
+      statement.expression.target.kind === "Identifier"
+    ) {
+      return {
+        kind: "PropertyDefinition",
+        name: statement.expression.target.name,
+        isStatic: true,
+        value: statement.expression.value,
+        loc: statement.loc,
+        ...comments,
+      };
+    }
+
+    if (statement.kind === "VariableDeclaration" && statement.declarations[0].target.kind === "Identifier") {
+      // Bare annotations (`name: str`) declare instance fields
+      return { kind: "PropertyDefinition", name: statement.declarations[0].target.name, isStatic: false, loc: statement.loc, ...comments };
+    }
+
+    return null;
+  }
+
+  private parseIf(): ir.Statement[] {
+    const start = this.next();
+    const test = this.parseNamedExpression();
+    const consequent = this.parseSuite();
+
+    let alternate: ir.Statement[] | undefined;
+    if (this.check("elif")) {
+      alternate = this.parseIf();
+    } else if (this.accept("else")) {
+      alternate = this.parseSuite();
+    }
+
+    // The script entry-point guard has no meaning outside Python, so its body runs directly
+    if (
+      test.kind === "BinaryExpression" &&
+      test.operator === "==" &&
+      test.left.kind === "Identifier" &&
+      test.left.name === "__name__" &&
+      test.right.kind === "Literal" &&
+      test.right.value === "__main__" &&
+      !alternate
+    ) {
+      return consequent;
+    }
+
+    return [{ kind: "IfStatement", test, consequent, alternate, loc: this.loc(start) }];
+  }
+
+  private parseWhile(): ir.Statement[] {
+    const start = this.next();
+    const test = this.parseNamedExpression();
+    const body = this.parseSuite();
+    const loop: ir.WhileStatement = { kind: "WhileStatement", test, body, loc: this.loc(start) };
+    return [loop, ...this.parseLoopElse()];
+  }
+
+  private parseLoopElse(): ir.Statement[] {
+    if (!this.check("else")) return [];
+    const start = this.next();
+    this.parseSuite();
+    return [{
+      kind: "UnsupportedStatement",
+      text: this.textBetween(start.start, this.lastEnd()),
+      reason: "`else` clauses on loops have no equivalent",
+      loc: this.loc(start),
+    }];
+  }
+
+  private parseFor(): ir.Statement[] {
+    const start = this.next();
+    const target = this.toPattern(this.parseTargetList());
+    this.expect("in");
+    const iterable = this.parseStarExpressions();
+    const body = this.parseSuite();
+    const loc = this.loc(start);
+
+    const counting = target.kind === "Identifier" ? this.rangeLoop(target, iterable, body, loc) : null;
+    const loop: ir.Statement = counting ?? { kind: "ForEachStatement", target, iterable, over: "values", body, loc };
+    return [loop, ...this.parseLoopElse()];
+  }
+
+  // `for i in range(a, b, step)` becomes a counting loop
+  private rangeLoop(target: ir.Identifier, iterable: ir.Expression, body: ir.Statement[], loc: ir.SourceRange): ir.ForStatement | null {
+    if (
+      iterable.kind !== "CallExpression" ||
+      iterable.callee.kind !== "Identifier" ||
+      iterable.callee.name !== "range" ||
+      iterable.arguments.length === 0 ||
+      iterable.arguments.length > 3 ||
+      iterable.arguments.some((argument) => argument.kind === "SpreadElement" || argument.kind === "NamedArgument")
+    ) {
+      return null;
+    }
+
+    const args = iterable.arguments;
+    const begin: ir.Expression = args.length > 1 ? args[0] : { kind: "Literal", value: 0, raw: "0" };
+    const end = args.length > 1 ? args[1] : args[0];
+    let step = args[2];
+    let descending = false;
+
+    if (step?.kind === "UnaryExpression" && step.operator === "-") {
+      descending = true;
+      step = step.argument;
+    } else if (step && !(step.kind === "Literal" && typeof step.value === "number")) {
+      // The direction of a computed step is unknown
+      return null;
+    }
+
+    const variable: ir.Identifier = { kind: "Identifier", name: target.name, loc: target.loc };
+    const isUnit = !step || (step.kind === "Literal" && step.value === 1);
+    const update: ir.Expression = isUnit
+      ? { kind: "UpdateExpression", operator: descending ? "--" : "++", prefix: false, argument: variable }
+      : { kind: "AssignmentExpression", operator: descending ? "-=" : "+=", target: variable, value: step };
+
+    return {
+      kind: "ForStatement",
+      init: { kind: "VariableDeclaration", constant: false, declarations: [{ target: variable, init: begin }] },
+      test: { kind: "BinaryExpression", operator: descending ? ">" : "<", left: variable, right: end },
+      update,
+      body,
+      loc,
+    };
+  }
+
+  private parseTry(): ir.TryStatement {
+    const start = this.next();
+    const block = this.parseSuite();
+    const handlers: ir.CatchClause[] = [];
+
+    while (this.check("except")) {
+      const clauseStart = this.next();
+      this.accept("*");
+      const clause: ir.CatchClause = { body: [] };
+
+      if (!this.check(":")) {
+        const type = this.parseExpression();
+        clause.types = type.kind === "ArrayExpression" ? type.elements : [type];
+        if (this.accept("as")) clause.param = this.expectName();
+      }
+
+      this.handlers.push({ clause });
+      clause.body = this.parseSuite();
+      this.handlers.pop();
+      clause.loc = this.loc(clauseStart);
+      handlers.push(clause);
+    }
+
+    const orelse = this.accept("else") ? this.parseSuite() : undefined;
+    const finalizer = this.accept("finally") ? this.parseSuite() : undefined;
+    if (handlers.length === 0 && !finalizer) this.fail("Expected 'except' or 'finally'");
+
+    return { kind: "TryStatement", block, handlers, orelse, finalizer, loc: this.loc(start) };
+  }
+
+  private parseWith(): ir.WithStatement {
+    const start = this.next();
+    const items: ir.WithItem[] = [];
+
+    do {
+      const itemStart = this.peek();
+      const context = this.parseExpression();
+      const target = this.accept("as") ? this.toPattern(this.parseTargetList()) : undefined;
+      items.push({ context, target, loc: this.loc(itemStart) });
+    } while (this.accept(","));
+
+    const body = this.parseSuite();
+    return { kind: "WithStatement", items, body, loc: this.loc(start) };
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  // Comma-separated expressions; more than one forms a tuple
+  private parseStarExpressions(): ir.Expression {
+    const start = this.peek();
+    const first = this.parseStarOrNamed();
+    if (!this.check(",")) return first;
+
+    const elements = [first];
+    while (this.accept(",")) {
+      if (this.atExpressionEnd()) break;
+      elements.push(this.parseStarOrNamed());
+    }
+    return { kind: "ArrayExpression", elements, loc: this.loc(start) };
+  }
+
+  // Assignment and loop targets stop before `in` and `=`
+  private parseTargetList(): ir.Expression {
+    const start = this.peek();
+    const parseTarget = (): ir.Expression => {
+      const targetStart = this.peek();
+      if (this.accept("*")) return { kind: "SpreadElement", argument: this.parseBitOr(), loc: this.loc(targetStart) };
+      return this.parseBitOr();
+    };
+
+    const first = parseTarget();
+    if (!this.check(",")) return first;
+
+    const elements = [first];
+    while (this.accept(",")) {
+      if (this.check("in") || this.check("=") || this.check(":")) break;
+      elements.push(parseTarget());
+    }
+    return { kind: "ArrayExpression", elements, loc: this.loc(start) };
+  }
+
+  private parseStarOrNamed(): ir.Expression {
+    const start = this.peek();
+    if (this.accept("*")) {
+      return { kind: "SpreadElement", argument: this.parseBitOr(), loc: this.loc(start) };
+    }
+    return this.parseNamedExpression();
+  }
+
+  private parseNamedExpression(): ir.Expression {
+    const start = this.peek();
+    if (start.type === "NAME" && this.check(":=", 1)) {
+      const target = this.parseAtom() as ir.Identifier;
+      this.expect(":=");
+      const value = this.parseExpression();
+      return { kind: "AssignmentExpression", operator: "=", target, value, loc: this.loc(start) };
+    }
+    return this.parseExpression();
+  }
+
+  private parseExpression(): ir.Expression {
+    const start = this.peek();
+    if (this.check("lambda")) return this.parseLambda();
+    if (this.accept("yield")) {
+      this.yields = true;
+      const delegate = this.accept("from");
+      const argument = this.atExpressionEnd() ? undefined : this.parseExpression();
+      return { kind: "YieldExpression", argument, delegate, loc: this.loc(start) };
+    }
+
+    const body = this.parseDisjunction();
+    if (!this.accept("if")) return body;
+
+    const test = this.parseDisjunction();
+    this.expect("else");
+    const alternate = this.parseExpression();
+    return { kind: "ConditionalExpression", test, consequent: body, alternate, loc: this.loc(start) };
+  }
+
+  private parseLambda(): ir.FunctionExpression {
+    const start = this.expect("lambda");
+    const params = this.parseParameters(":");
+    this.expect(":");
+    const body = this.parseExpression();
+    return { kind: "FunctionExpression", params, body: [], expressionBody: body, isArrow: true, isAsync: false, loc: this.loc(start) };
+  }
+
+  private parseDisjunction(): ir.Expression {
+    const start = this.peek();
+    let left = this.parseConjunction();
+    while (this.accept("or")) {
+      left = { kind: "LogicalExpression", operator: "||", left, right: this.parseConjunction(), loc: this.loc(start) };
+    }
+    return left;
+  }
+
+  private parseConjunction(): ir.Expression {
+    const start = this.peek();
+    let left = this.parseInversion();
+    while (this.accept("and")) {
+      left = { kind: "LogicalExpression", operator: "&&", left, right: this.parseInversion(), loc: this.loc(start) };
+    }
+    return left;
+  }
+
+  private parseInversion(): ir.Expression {
+    const start = this.peek();
+    if (this.accept("not")) {
+      return { kind: "UnaryExpression", operator: "!", argument: this.parseInversion(), loc: this.loc(start) };
+    }
+    return this.parseComparison();
+  }
+
+  private comparisonOperator(): string | null {
+    const token = this.peek();
+    if (token.type === "OP" && token.value in COMPARISONS) return token.value;
+    if (this.check("in")) return "in";
+    if (this.check("not") && this.check("in", 1)) return "not in";
+    if (this.check("is")) return this.check("not", 1) ? "is not" : "is";
+    return null;
+  }
+
+  // Chained comparisons (`a < b < c`) become a conjunction of pairwise comparisons
+  private parseComparison(): ir.Expression {
+    const start = this.peek();
+    let left = this.parseBitOr();
+    let result: ir.Expression | null = null;
+
+    for (let operator = this.comparisonOperator(); operator; operator = this.comparisonOperator()) {
+      this.next();
+      if (operator === "not in" || operator === "is not") this.next();
+      const right = this.parseBitOr();
+
+      let comparison: ir.Expression;
+      if (operator === "not in") {
+        comparison = {
+          kind: "UnaryExpression",
+          operator: "!",
+          argument: { kind: "BinaryExpression", operator: "in", left, right, loc: this.loc(start) },
+          loc: this.loc(start),
+        };
+      } else {
+        const normalized = operator === "is not" ? "!=" : COMPARISONS[operator];
+        comparison = { kind: "BinaryExpression", operator: normalized, left, right, loc: this.loc(start) };
+      }
+
+      result = result ? { kind: "LogicalExpression", operator: "&&", left: result, right: comparison, loc: this.loc(start) } : comparison;
+      left = right;
+    }
+    return result ?? left;
+  }
+
+  private parseBitOr(): ir.Expression {
+    return this.parseBinaryLevel(0);
+  }
+
+  private parseBinaryLevel(level: number): ir.Expression {
+    if (level === BINARY_LEVELS.length) return this.parseFactor();
+
+    const start = this.peek();
+    let left = this.parseBinaryLevel(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== "OP" || !BINARY_LEVELS[level].includes(token.value)) return left;
+      this.next();
+      const right = this.parseBinaryLevel(level + 1);
+      if (token.value === "@") {
+        left = { kind: "UnsupportedExpression", text: this.textBetween(start.start, this.lastEnd()), reason: "Matrix multiplication (`@`)", loc: this.loc(start) };
+      } else {
+        left = { kind: "BinaryExpression", operator: token.value as ir.BinaryOperator, left, right, loc: this.loc(start) };
+      }
+    }
+  }
+
+  private parseFactor(): ir.Expression {
+    const start = this.peek();
+    if (start.type === "OP" && (start.value === "-" || start.value === "+" || start.value === "~")) {
+      this.next();
+      const argument = this.parseFactor();
+      return { kind: "UnaryExpression", operator: start.value, argument, loc: this.loc(start) };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ir.Expression {
+    const start = this.peek();
+    let base: ir.Expression;
+    if (this.accept("await")) {
+      base = { kind: "AwaitExpression", argument: this.parsePrimary(), loc: this.loc(start) };
+    } else {
+      base = this.parsePrimary();
+    }
+
+    if (this.accept("**")) {
+      return { kind: "BinaryExpression", operator: "**", left: base, right: this.parseFactor(), loc: this.loc(start) };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ir.Expression {
+    const start = this.peek();
+    let expression = this.parseAtom();
+
+    for (;;) {
+      if (this.accept(".")) {
+        const property = this.peek();
+        if (property.type !== "NAME") this.fail("Expected an attribute name");
+        this.next();
+
+        // super() is the parent class itself
+        const object: ir.Expression = isCallTo(expression, "super") ? { kind: "SuperExpression", loc: expression.loc } : expression;
+        expression = {
+          kind: "MemberExpression",
+          object,
+          property: { kind: "Identifier", name: property.value, loc: this.loc(property) },
+          computed: false,
+          loc: this.loc(start),
+        };
+      } else if (this.accept("(")) {
+        const args = this.parseArguments();
+        this.expect(")");
+        expression = this.makeCall(expression, args, this.loc(start));
+      } else if (this.accept("[")) {
+        expression = this.parseSubscript(expression, start);
+        this.expect("]");
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private makeCall(callee: ir.Expression, args: ir.Expression[], loc: ir.SourceRange): ir.Expression {
+    // super().__init__(...) calls the parent constructor
+    if (
+      callee.kind === "MemberExpression" &&
+      callee.object.kind === "SuperExpression" &&
+      callee.property.kind === "Identifier" &&
+      callee.property.name === "__init__"
+    ) {
+      return { kind: "CallExpression", callee: callee.object, arguments: args, loc };
+    }
+
+    // Calling a class creates an instance; classes are known by definition or by PEP 8 naming,
+    // and `cls(...)` inside a classmethod instantiates the class itself
+    const isClass =
+      (callee.kind === "Identifier" && (this.classNames.has(callee.name) || /^[A-Z]\w*[a-z]/.test(callee.name))) ||
+      callee.kind === "ThisExpression";
+    if (isClass) {
+      return { kind: "NewExpression", callee, arguments: args, loc };
+    }
+    return { kind: "CallExpression", callee, arguments: args, loc };
+  }
+
+  private parseArguments(): ir.Expression[] {
+    const args: ir.Expression[] = [];
+
+    while (!this.check(")")) {
+      const start = this.peek();
+
+      if (this.accept("**")) {
+        this.parseExpression();
+        args.push({
+          kind: "UnsupportedExpression",
+          text: this.textBetween(start.start, this.lastEnd()),
+          reason: "Keyword argument unpacking (`**`)",
+          loc: this.loc(start),
+        });
+      } else if (this.accept("*")) {
+        args.push({ kind: "SpreadElement", argument: this.parseExpression(), loc: this.loc(start) });
+      } else if (start.type === "NAME" && this.check("=", 1)) {
+        this.next();
+        this.next();
+        args.push({ kind: "NamedArgument", name: start.value, value: this.parseExpression(), loc: this.loc(start) });
+      } else {
+        const argument = this.parseNamedExpression();
+        if (this.check("for") || (this.check("async") && this.check("for", 1))) {
+          args.push(this.parseComprehension("generator", argument, undefined, start));
+        } else {
+          args.push(argument);
+        }
+      }
+
+      if (!this.accept(",")) break;
+    }
+    return args;
+  }
+
+  private parseSubscript(object: ir.Expression, start: PythonToken): ir.Expression {
+    const parts: (ir.Expression | undefined)[] = [];
+    let isSlice = false;
+
+    const indexStart = this.peek();
+    let current: ir.Expression | undefined = this.check(":") ? undefined : this.parseNamedExpression();
+    while (this.accept(":")) {
+      isSlice = true;
+      parts.push(current);
+      current = this.check(":") || this.check("]") ? undefined : this.parseExpression();
+    }
+    parts.push(current);
+
+    if (isSlice) {
+      const [sliceStart, end, step] = parts;
+      return { kind: "SliceExpression", object, start: sliceStart, end, step, loc: this.loc(start) };
+    }
+
+    let property = current!;
+    if (this.check(",")) {
+      // `grid[1, 2]` indexes with a tuple
+      const elements = [property];
+      while (this.accept(",") && !this.check("]")) elements.push(this.parseExpression());
+      property = { kind: "ArrayExpression", elements, loc: this.loc(indexStart) };
+    }
+    return { kind: "MemberExpression", object, property, computed: true, loc: this.loc(start) };
+  }
+
+  private parseAtom(): ir.Expression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case "NAME":
+        return this.parseName();
+
+      case "NUMBER":
+        this.next();
+        return this.numberLiteral(token);
+
+      case "STRING":
+        return this.parseStrings();
+
+      case "OP":
+        switch (token.value) {
+          case "(":
+            return this.parseParenthesized();
+          case "[":
+            return this.parseList();
+          case "{":
+            return this.parseBraces();
+          case "...":
+            this.next();
+            return { kind: "Literal", value: null, raw: "...", loc: this.loc(token) };
+        }
+    }
+
+    this.fail("Expected an expression");
+  }
+
+  private parseName(): ir.Expression {
+    const token = this.next();
+    const loc = this.loc(token);
+
+    switch (token.value) {
+      case "True":
+        return { kind: "Literal", value: true, raw: "True", loc };
+      case "False":
+        return { kind: "Literal", value: false, raw: "False", loc };
+      case "None":
+        return { kind: "Literal", value: null, raw: "None", loc };
+    }
+
+    if (KEYWORDS.has(token.value)) this.fail("Expected an expression", token);
+    if (token.value === this.selfName) return { kind: "ThisExpression", loc };
+    return { kind: "Identifier", name: token.value, loc };
+  }
+
+  private numberLiteral(token: PythonToken): ir.Expression {
+    const text = token.value.replace(/_/g, "");
+    const loc = this.loc(token);
+
+    if (/[jJ]$/.test(text)) {
+      return { kind: "UnsupportedExpression", text: token.value, reason: "Complex numbers", loc };
+    }
+
+    const value = /^0[oO]/.test(text) ? parseInt(text.slice(2), 8) : /^0[bB]/.test(text) ? parseInt(text.slice(2), 2) : Number(text);
+    return { kind: "Literal", value, raw: token.value, loc };
+  }
+
+  // Adjacent string literals are concatenated; any f-string makes the result a template
+  private parseStrings(): ir.Expression {
+    const start = this.peek();
+    const quasis: string[] = [""];
+    const expressions: ir.Expression[] = [];
+    let isTemplate = false;
+
+    while (this.peek().type === "STRING") {
+      const token = this.next();
+      const prefix = token.prefix ?? "";
+
+      if (!prefix.includes("f")) {
+        quasis[quasis.length - 1] += token.value;
+        continue;
+      }
+
+      isTemplate = true;
+      const parts = this.parseFString(token);
+      quasis[quasis.length - 1] += parts.quasis[0];
+      for (let index = 0; index < parts.expressions.length; index++) {
+        expressions.push(parts.expressions[index]);
+        quasis.push(parts.quasis[index + 1]);
+      }
+    }
+
+    const loc = this.loc(start);
+    if (!isTemplate || expressions.length === 0) {
+      return { kind: "Literal", value: quasis.join(""), loc };
+    }
+    return { kind: "TemplateLiteral", quasis, expressions, loc };
+  }
+
+  private parseFString(token: PythonToken): { quasis: string[]; expressions: ir.Expression[] } {
+    const body = token.value;
+    const isRaw = token.prefix!.includes("r");
+    const quoteLength = this.source.startsWith('"""', this.offsetOf(token.start) + token.prefix!.length) ||
+      this.source.startsWith("'''", this.offsetOf(token.start) + token.prefix!.length) ? 3 : 1;
+    const bodyOrigin: ir.Position = { line: token.start.line, column: token.start.column + token.prefix!.length + quoteLength };
+
+    const quasis: string[] = [];
+    const expressions: ir.Expression[] = [];
+    let literal = "";
+    let index = 0;
+
+    const flushLiteral = () => {
+      quasis.push(isRaw ? literal : decodeEscapes(literal));
+      literal = "";
+    };
+
+    while (index < body.length) {
+      const char = body[index];
+      if ((char === "{" || char === "}") && body[index + 1] === char) {
+        literal += char;
+        index += 2;
+        continue;
+      }
+      if (char !== "{") {
+        literal += char;
+        index++;
+        continue;
+      }
+
+      // Find the end of the replacement field, skipping nested brackets and strings
+      let depth = 0;
+      let end = index + 1;
+      let quote: string | null = null;
+      let conversionAt = -1;
+      let specAt = -1;
+      for (; end < body.length; end++) {
+        const inner = body[end];
+        if (quote) {
+          if (inner === quote) quote = null;
+          continue;
+        }
+        if (inner === "'" || inner === '"') quote = inner;
+        else if ("([{".includes(inner)) depth++;
+        else if (")]".includes(inner)) depth--;
+        else if (inner === "}") {
+          if (depth === 0) break;
+          depth--;
+        } else if (depth === 0 && inner === "!" && body[end + 1] !== "=" && conversionAt < 0 && specAt < 0) conversionAt = end;
+        else if (depth === 0 && inner === ":" && specAt < 0) specAt = end;
+      }
+      if (end >= body.length) {
+        throw new SourceParseError("Unterminated replacement field in f-string", "python", this.position(token.start));
+      }
+
+      const expressionEnd = conversionAt >= 0 ? conversionAt : specAt >= 0 ? specAt : end;
+      let expressionText = body.slice(index + 1, expressionEnd);
+      const conversion = conversionAt >= 0 ? body.slice(conversionAt + 1, specAt >= 0 ? specAt : end).trim() : "";
+      const spec = specAt >= 0 ? body.slice(specAt + 1, end) : "";
+
+      // `{x=}` prints the expression text before its value
+      const selfDocumenting = /=\s*$/.test(expressionText) && !/[=!<>]=\s*$/.test(expressionText);
+      if (selfDocumenting) {
+        literal += expressionText;
+        expressionText = expressionText.replace(/=\s*$/, "");
+      }
+
+      flushLiteral();
+      const fieldOrigin = offsetPosition(bodyOrigin, body.slice(0, index + 1));
+      let expression = this.parseFieldExpression(expressionText, fieldOrigin);
+
+      if (conversion === "r" || (selfDocumenting && !spec && !conversion)) {
+        expression = { kind: "CallExpression", callee: { kind: "Identifier", name: "repr" }, arguments: [expression], loc: expression.loc };
+      }
+      if (spec) {
+        // `{x:.2f}` is `format(x, ".2f")`
+        expression = {
+          kind: "CallExpression",
+          callee: { kind: "Identifier", name: "format" },
+          arguments: [expression, { kind: "Literal", value: spec }],
+          loc: expression.loc,
+        };
+      }
+      expressions.push(expression);
+      index = end + 1;
+    }
+
+    flushLiteral();
+    return { quasis, expressions };
+  }
+
+  private offsetOf(position: ir.Position): number {
+    return this.lineOffsets[position.line - 1] + position.column;
+  }
+
+  private parseFieldExpression(text: string, origin: ir.Position): ir.Expression {
+    const { tokens, comments } = tokenizePython(text.trim());
+    const parser = new PythonParser(tokens, comments, text.trim(), this.position(origin));
+    parser.selfName = this.selfName;
+    for (const name of Array.from(this.classNames)) parser.classNames.add(name);
+
+    const expression = parser.parseStarExpressions();
+    if (parser.peek().type !== "NEWLINE" && parser.peek().type !== "ENDMARKER") {
+      parser.fail("Unexpected token in f-string field");
+    }
+    return expression;
+  }
+
+  private parseParenthesized(): ir.Expression {
+    const start = this.expect("(");
+    if (this.accept(")")) return { kind: "ArrayExpression", elements: [], loc: this.loc(start) };
+
+    if (this.check("yield")) {
+      const expression = this.parseExpression();
+      this.expect(")");
+      return expression;
+    }
+
+    const first = this.parseStarOrNamed();
+    if (this.check("for") || (this.check("async") && this.check("for", 1))) {
+      const comprehension = this.parseComprehension("generator", first, undefined, start);
+      this.expect(")");
+      return comprehension;
+    }
+
+    if (!this.check(",")) {
+      this.expect(")");
+      return first;
+    }
+
+    const elements = [first];
+    while (this.accept(",") && !this.check(")")) elements.push(this.parseStarOrNamed());
+    this.expect(")");
+    return { kind: "ArrayExpression", elements, loc: this.loc(start) };
+  }
+
+  private parseList(): ir.Expression {
+    const start = this.expect("[");
+    if (this.accept("]")) return { kind: "ArrayExpression", elements: [], loc: this.loc(start) };
+
+    const first = this.parseStarOrNamed();
+    if (this.check("for") || (this.check("async") && this.check("for", 1))) {
+      const comprehension = this.parseComprehension("list", first, undefined, start);
+      this.expect("]");
+      return comprehension;
+    }
+
+    const elements = [first];
+    while (this.accept(",") && !this.check("]")) elements.push(this.parseStarOrNamed());
+    this.expect("]");
+    return { kind: "ArrayExpression", elements, loc: this.loc(start) };
+  }
+
+  private parseBraces(): ir.Expression {
+    const start = this.expect("{");
+    if (this.accept("}")) return { kind: "ObjectExpression", properties: [], loc: this.loc(start) };
+
+    // Dict display or dict comprehension
+    if (this.check("**") || this.isDictEntry()) {
+      const properties: (ir.ObjectProperty | ir.SpreadElement)[] = [];
+      do {
+        if (this.check("}")) break;
+        const entryStart = this.peek();
+        if (this.accept("**")) {
+          properties.push({ kind: "SpreadElement", argument: this.parseBitOr(), loc: this.loc(entryStart) });
+          continue;
+        }
+        const key = this.parseExpression();
+        this.expect(":");
+        const value = this.parseExpression();
+
+        if (properties.length === 0 && (this.check("for") || (this.check("async") && this.check("for", 1)))) {
+          const comprehension = this.parseComprehension("dict", value, key, start);
+          this.expect("}");
+          return comprehension;
+        }
+        properties.push({ key, computed: !(key.kind === "Literal" && typeof key.value === "string"), value, loc: this.loc(entryStart) });
+      } while (this.accept(","));
+      this.expect("}");
+      return { kind: "ObjectExpression", properties, loc: this.loc(start) };
+    }
+
+    // Set display or set comprehension
+    const first = this.parseStarOrNamed();
+    if (this.check("for") || (this.check("async") && this.check("for", 1))) {
+      const comprehension = this.parseComprehension("set", first, undefined, start);
+      this.expect("}");
+      return comprehension;
+    }
+    const elements = [first];
+    while (this.accept(",") && !this.check("}")) elements.push(this.parseStarOrNamed());
+    this.expect("}");
+    return {
+      kind: "NewExpression",
+      callee: { kind: "Identifier", name: "Set" },
+      arguments: [{ kind: "ArrayExpression", elements }],
+      loc: this.loc(start),
+    };
+  }
+
+  // Looks ahead for a top-level `:` before the next `,` or closing brace
+  private isDictEntry(): boolean {
+    let depth = 0;
+    for (let offset = 0; ; offset++) {
+      const token = this.peek(offset);
+      if (token.type === "ENDMARKER") return false;
+      if (token.type !== "OP") {
+        if (depth === 0 && token.type === "NAME" && token.value === "lambda") return false;
+        continue;
+      }
+      if ("([{".includes(token.value)) depth++;
+      else if (")]}".includes(token.value)) {
+        if (depth === 0) return false;
+        depth--;
+      } else if (depth === 0 && token.value === ",") return false;
+      else if (depth === 0 && token.value === ":") return true;
+    }
+  }
+
+  private parseComprehension(
+    collection: ir.ComprehensionExpression["collection"],
+    element: ir.Expression,
+    key: ir.Expression | undefined,
+    start: PythonToken
+  ): ir.ComprehensionExpression {
+    const clauses: ir.ComprehensionClause[] = [];
+
+    while (this.check("for") || (this.check("async") && this.check("for", 1))) {
+      const clauseStart = this.peek();
+      this.accept("async");
+      this.expect("for");
+      const target = this.toPattern(this.parseTargetList());
+      this.expect("in");
+      const iterable = this.parseDisjunction();
+      const conditions: ir.Expression[] = [];
+      while (this.accept("if")) conditions.push(this.parseDisjunction());
+      clauses.push({ target, iterable, conditions, loc: this.loc(clauseStart) });
+    }
+
+    return { kind: "ComprehensionExpression", collection, element, key, clauses, loc: this.loc(start) };
+  }
+}
+
+function isCallTo(expression: ir.Expression, name: string): boolean {
+  return expression.kind === "CallExpression" && expression.callee.kind === "Identifier" && expression.callee.name === name;
+}
+
+// Position reached after `text` starting at `origin`
+function offsetPosition(origin: ir.Position, text: string): ir.Position {
+  const lines = text.split("\n");
+  if (lines.length === 1) return { line: origin.line, column: origin.column + text.length };
+  return { line: origin.line + lines.length - 1, column: lines[lines.length - 1].length };
+}
@@ -0,0 +1,176 @@
+import type { ConversionOptions, ConversionPath, ConverterInfo } from "@shared/schema";
+import type * as ir from "./ir";
+import { withNotes, type ConversionResult, type TransformResult } from "./diagnostics";
+
+/** What a converter can do, reported to clients through GET /api/converters. */
+export interface ConverterCapabilities {
+  // "ast" converters parse the whole program; "line-based" ones pattern-match single lines
+  parsing: "ast" | "line-based";
+  preservesComments: boolean;
+  handlesMultiLineStatements: boolean;
+}
+
+/** A converter for one directed (source, target) language pair. */
+export interface Converter {
+  sourceLanguage: string;
+  targetLanguage: string;
+  version: string;
+  capabilities: ConverterCapabilities;
+  // Source constructs the converter translates, e.g. "classes" or "switch"
+  supportedConstructs: string[];
+  convert(sourceCode: string, options?: ConversionOptions): ConversionResult;
+  // Set for converters built on the IR, whose steps can be run one at a time
+  stages?: ConversionStages;
+}
+
+/** The steps of a conversion through the IR, for callers reporting progress between them. */
+export interface ConversionStages {
+  parse(sourceCode: string): ir.Module;
+  // Rewrites the IR for the target, e.g. into its naming convention
+  transform(module: ir.Module, options?: ConversionOptions): TransformResult;
+  // Emits a module `transform` returned
+  emit(module: ir.Module, options?: ConversionOptions): ConversionResult;
+}
+
+/** Parses one language into the shared IR. */
+export interface FrontEnd {
+  language: string;
+  // Source constructs the parser understands, reported for composed converters
+  supportedConstructs: string[];
+  parse(sourceCode: string): ir.Module;
+}
+
+/** Emits one language from the shared IR. */
+export interface BackEnd {
+  language: string;
+  transform: ConversionStages["transform"];
+  emit: ConversionStages["emit"];
+}
+
+/** A converter together with the route it takes from source to target. */
+export interface ResolvedConverter extends Converter {
+  path: ConversionPath;
+}
+
+// Version reported by converters composed from a front-end and a back-end
+const IR_PIPELINE_VERSION = "1.0.0";
+
+/** Runs every stage of a conversion, as `convert` would. */
+export function convertInStages(stages: ConversionStages, sourceCode: string, options?: ConversionOptions): ConversionResult {
+  const transformed = stages.transform(stages.parse(sourceCode), options);
+  return withNotes(stages.emit(transformed.module, options), transformed.notes);
+}
+
+function pairKey(sourceLanguage: string, targetLanguage: string): string {
+  return `${sourceLanguage}->${targetLanguage}`;
+}
+
+/**
+ * Dedicated converters win for their pair; any other pair with a registered
+ * front-end for the source and back-end for the target is converted by
+ * parsing into the IR and emitting from it.
+ */
+export class ConverterRegistry {
+  private converters: Map<string, Converter>;
+  private frontEnds: Map<string, FrontEnd>;
+  private backEnds: Map<string, BackEnd>;
+
+  constructor() {
+    this.converters = new Map();
+    this.frontEnds = new Map();
+    this.backEnds = new Map();
+  }
+
+  register(converter: Converter): void {
+    const key = pairKey(converter.sourceLanguage, converter.targetLanguage);
+    if (this.converters.has(key)) {
+      throw new Error(`A converter for ${converter.sourceLanguage} to ${converter.targetLanguage} is already registered`);
+    }
+    this.converters.set(key, converter);
+  }
+
+  registerFrontEnd(frontEnd: FrontEnd): void {
+    if (this.frontEnds.has(frontEnd.language)) {
+      throw new Error(`A front-end for ${frontEnd.language} is already registered`);
+    }
+    this.frontEnds.set(frontEnd.language, frontEnd);
+  }
+
+  registerBackEnd(backEnd: BackEnd): void {
+    if (this.backEnds.has(backEnd.language)) {
+      throw new Error(`A back-end for ${backEnd.language} is already registered`);
+    }
+    this.backEnds.set(backEnd.language, backEnd);
+  }
+
+  /** The parser for `language`, for callers working on the IR themselves, e.g. to link a project's modules. */
+  frontEnd(language: string): FrontEnd | undefined {
+    return this.frontEnds.get(language);
+  }
+
+  backEnd(language: string): BackEnd | undefined {
+    return this.backEnds.get(language);
+  }
+
+  get(sourceLanguage: string, targetLanguage: string): ResolvedConverter | undefined {
+    const converter = this.converters.get(pairKey(sourceLanguage, targetLanguage));
+    if (converter) {
+      return {
+        ...converter,
+        path: { kind: "direct", steps: [`${pairKey(sourceLanguage, targetLanguage)} converter`] },
+      };
+    }
+    return this.compose(sourceLanguage, targetLanguage);
+  }
+
+  list(): ConverterInfo[] {
+    const pairs: [string, string][] = Array.from(this.converters.values()).map((converter) => [
+      converter.sourceLanguage,
+      converter.targetLanguage,
+    ]);
+    for (const source of Array.from(this.frontEnds.keys())) {
+      for (const target of Array.from(this.backEnds.keys())) {
+        if (source !== target && !this.converters.has(pairKey(source, target))) {
+          pairs.push([source, target]);
+        }
+      }
+    }
+
+    return pairs.map(([source, target]) => {
+      const converter = this.get(source, target)!;
+      return {
+        sourceLanguage: converter.sourceLanguage,
+        targetLanguage: converter.targetLanguage,
+        version: converter.version,
+        capabilities: converter.capabilities,
+        supportedConstructs: converter.supportedConstructs,
+        path: converter.path,
+      };
+    });
+  }
+
+  // Builds a converter that parses into the IR and emits from it
+  private compose(sourceLanguage: string, targetLanguage: string): ResolvedConverter | undefined {
+    const frontEnd = this.frontEnds.get(sourceLanguage);
+    const backEnd = this.backEnds.get(targetLanguage);
+    if (!frontEnd || !backEnd || sourceLanguage === targetLanguage) {
+      return undefined;
+    }
+
+    const stages: ConversionStages = { parse: frontEnd.parse, transform: backEnd.transform, emit: backEnd.emit };
+    return {
+      sourceLanguage,
+      targetLanguage,
+      version: IR_PIPELINE_VERSION,
+      capabilities: {
+        parsing: "ast",
+        preservesComments: true,
+        handlesMultiLineStatements: true,
+      },
+      supportedConstructs: frontEnd.supportedConstructs,
+      convert: (sourceCode, options) => convertInStages(stages, sourceCode, options),
+      stages,
+      path: { kind: "ir", steps: [`${sourceLanguage} parser`, "IR", `${targetLanguage} emitter`] },
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { GenMapping, addMapping, toEncodedMap } from "@jridgewell/gen-mapping";
+import { TraceMap, decodedMappings, type EncodedSourceMap } from "@jridgewell/trace-mapping";
+import type { SourceMap } from "@shared/schema";
+import type { CodeWriter } from "./emitters/code-writer";
+
+// Every map has a single source: the code submitted for conversion
+export const SOURCE_NAME = "source";
+
+/**
+ * Builds a v3 source map from the origins a writer recorded. Each output line
+ * gets two segments: its first character maps to the start of the source
+ * range it was written for and its end maps to the end of that range, so
+ * clients can recover the whole originating span.
+ */
+export function buildSourceMap(writer: CodeWriter): SourceMap {
+  const map = new GenMapping();
+
+  for (let index = 0; index < writer.lineCount; index++) {
+    const origin = writer.originAt(index);
+    const text = writer.lineAt(index)!;
+    if (!origin) continue;
+
+    const line = index + 1;
+    const indentation = text.length - text.trimStart().length;
+    addMapping(map, { generated: { line, column: indentation }, source: SOURCE_NAME, original: origin.start });
+    addMapping(map, { generated: { line, column: text.length }, source: SOURCE_NAME, original: origin.end });
+  }
+
+  return toEncodedMap(map) as SourceMap;
+}
+
+/** Embeds the submitted code so the map can be used on its own. */
+export function withSourceContent(sourceMap: SourceMap, sourceCode: string): SourceMap {
+  return { ...sourceMap, sourcesContent: sourceMap.sources.map(() => sourceCode) };
+}
+
+/** The 1-based source line each output line of a map starts at; undefined for lines written for no source. */
+export function originLines(sourceMap: SourceMap): (number | undefined)[] {
+  return decodedMappings(new TraceMap(sourceMap as EncodedSourceMap)).map((segments) =>
+    segments[0]?.length === 4 || segments[0]?.length === 5 ? segments[0][2] + 1 : undefined
+  );
+}
@@ -0,0 +1,52 @@
+import type * as ir from "./ir";
+
+function isNode(value: unknown): value is ir.Node {
+  return typeof value === "object" && value !== null && typeof (value as { kind?: unknown }).kind === "string";
+}
+
+/**
+ * Visit every IR node below `root` (including `root`) in source order.
+ * Returning `false` from the visitor skips that node's children.
+ */
+export function walk(root: unknown, visitor: (node: ir.Node) => boolean | void): void {
+  if (Array.isArray(root)) {
+    for (const item of root) walk(item, visitor);
+    return;
+  }
+  if (typeof root !== "object" || root === null) return;
+
+  if (isNode(root) && visitor(root) === false) return;
+
+  for (const [key, value] of Object.entries(root)) {
+    if (key === "loc" || key === "leadingComments" || key === "trailingComments" || key === "inlineComment" || key === "doc") continue;
+    if (typeof value === "object" && value !== null) walk(value, visitor);
+  }
+}
+
+/** True if any node below `root` satisfies `predicate`. */
+export function someNode(root: unknown, predicate: (node: ir.Node) => boolean): boolean {
+  let found = false;
+  walk(root, (node) => {
+    if (found) return false;
+    if (predicate(node)) found = true;
+    return !found;
+  });
+  return found;
+}
+
+/**
+ * Like `someNode`, but does not descend into nested functions or classes, which
+ * have their own `return`, `break` and `this` scopes.
+ */
+export function someNodeInScope(root: unknown, predicate: (node: ir.Node) => boolean): boolean {
+  let found = false;
+  walk(root, (node) => {
+    if (found) return false;
+    if (predicate(node)) {
+      found = true;
+      return false;
+    }
+    return node.kind !== "FunctionExpression" && node.kind !== "FunctionDeclaration" && node.kind !== "ClassDeclaration";
+  });
+  return found;
+}
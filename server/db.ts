@@ -0,0 +1,49 @@
+import { mkdirSync } from "fs";
+import path from "path";
+import pg from "pg";
+import ws from "ws";
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { migrate as migrateNeon } from "drizzle-orm/neon-serverless/migrator";
+import { drizzle as drizzleNodePostgres } from "drizzle-orm/node-postgres";
+import { migrate as migrateNodePostgres } from "drizzle-orm/node-postgres/migrator";
+import { createClient } from "@libsql/client";
+import { drizzle as drizzleLibsql, type LibSQLDatabase } from "drizzle-orm/libsql";
+import { migrate as migrateLibsql } from "drizzle-orm/libsql/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import * as sqliteSchema from "./sqlite-schema";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+export type SqliteDatabase = LibSQLDatabase<typeof sqliteSchema>;
+
+export interface DatabaseConnection<TDatabase = Database> {
+  db: TDatabase;
+  // Applies the migrations that have not run yet
+  migrate(): Promise<void>;
+}
+
+// Generated by `npm run db:generate`; next to both server/ and dist/
+const migrationsRoot = path.resolve(import.meta.dirname, "..", "migrations");
+
+/**
+ * Connects to PostgreSQL at `url`. Neon databases go through Neon's
+ * serverless driver; anything else, such as a local container, through
+ * node-postgres.
+ */
+export function connectDatabase(url: string): DatabaseConnection {
+  if (new URL(url).hostname.endsWith(".neon.tech")) {
+    neonConfig.webSocketConstructor = ws;
+    const db = drizzleNeon({ client: new NeonPool({ connectionString: url }), schema });
+    return { db, migrate: () => migrateNeon(db, { migrationsFolder: path.join(migrationsRoot, "postgres") }) };
+  }
+  const db = drizzleNodePostgres({ client: new pg.Pool({ connectionString: url }), schema });
+  return { db, migrate: () => migrateNodePostgres(db, { migrationsFolder: path.join(migrationsRoot, "postgres") }) };
+}
+
+/** Opens the SQLite database file at `file`, creating it and its directory if needed. */
+export function connectSqlite(file: string): DatabaseConnection<SqliteDatabase> {
+  mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  const db = drizzleLibsql({ client: createClient({ url: `file:${file}` }), schema: sqliteSchema });
+  return { db, migrate: () => migrateLibsql(db, { migrationsFolder: path.join(migrationsRoot, "sqlite") }) };
+}
@@ -1,5 +1,10 @@
 import { ConvertCodeRequest, ConvertCodeResponse } from "@shared/schema";
 import fetch from "node-fetch";
+import { converterRegistry } from "./converter/converters";
+import type { ResolvedConverter } from "./converter/registry";
+import { UnsupportedLanguagePairError } from "./converter/errors";
+import { confidenceScore } from "./converter/diagnostics";
+import { withSourceContent } from "./converter/source-map";
 
 /**
  * Main function to convert code using GitHub API
@@ -8,7 +13,13 @@ import fetch from "node-fetch";
 export async function convertCodeWithGitHub(
   request: ConvertCodeRequest
 ): Promise<ConvertCodeResponse> {
-  const { sourceCode, sourceLanguage, targetLanguage, skillLevel, generateReadme, generateApi } = request;
+  const { sourceCode, sourceLanguage, targetLanguage, skillLevel, generateReadme, generateApi, options } = request;
+
+  // Reject unsupported pairs up front instead of echoing the source back
+  const converter = converterRegistry.get(sourceLanguage, targetLanguage);
+  if (!converter) {
+    throw new UnsupportedLanguagePairError(sourceLanguage, targetLanguage);
+  }
 
   console.log(`Starting code conversion from ${sourceLanguage} to ${targetLanguage} using GitHub API`);
   
@@ -67,452 +78,57 @@ ${generateApi ? '- Include API documentation' : ''}
   } catch (error) {
     console.log("Using local conversion fallback logic");
     
-    // Create a more sophisticated conversion using our local logic
-    let convertedCode = "";
-    
-    if (sourceLanguage === "javascript" && targetLanguage === "python") {
-      // JavaScript to Python conversion
-      convertedCode = convertJavaScriptToPython(sourceCode);
-    } 
-    else if (sourceLanguage === "javascript" && targetLanguage === "swift") {
-      // JavaScript to Swift conversion
-      convertedCode = convertJavaScriptToSwift(sourceCode);
-    }
-    else if (sourceLanguage === "python" && targetLanguage === "javascript") {
-      // Python to JavaScript conversion
-      convertedCode = convertPythonToJavaScript(sourceCode);
-    }
-    else {
-      // For other language pairs, use a simple placeholder
-      convertedCode = `// Converted from ${sourceLanguage} to ${targetLanguage}\n${sourceCode}`;
-    }
-    
-    // Generate a detailed step-by-step explanation
-    const stepByStep = generateDetailedStepByStep(
-      sourceCode, 
-      convertedCode, 
-      sourceLanguage, 
-      targetLanguage, 
-      skillLevel
-    );
+    // Run the registered converter for this language pair
+    const { code: convertedCode, diagnostics, sourceMap } = converter.convert(sourceCode, options);
     
     // Generate the complete response
-    const result: ConvertCodeResponse = {
+    return {
       targetCode: convertedCode,
-      explanation: {
-        stepByStep: stepByStep,
-        highLevel: generateHighLevelExplanation(sourceLanguage, targetLanguage),
-        languageDifferences: getDetailedLanguageDifferences(sourceLanguage, targetLanguage)
-      }
+      ...documentConversion(request, convertedCode),
+      diagnostics,
+      confidence: confidenceScore(diagnostics, sourceCode),
+      sourceMap: withSourceContent(sourceMap, sourceCode),
+      converter: converterSummary(converter)
     };
-    
-    if (generateReadme) {
-      result.readme = generateDetailedReadme(sourceCode, convertedCode, sourceLanguage, targetLanguage);
-    }
-    
-    if (generateApi) {
-      result.apiDocs = generateDetailedApiDocs(sourceCode, convertedCode, sourceLanguage, targetLanguage);
-    }
-    
-    return result;
   }
 }
 
-// Helper conversion functions
-function convertJavaScriptToPython(sourceCode: string): string {
-  // Process the code line by line for better handling of indentation and structure
-  const lines = sourceCode.split("\n");
-  const convertedLines: string[] = [];
-  let indentLevel = 0;
-  let inFunction = false;
-  
-  for (let i = 0; i < lines.length; i++) {
-    let line = lines[i].trim();
-    let convertedLine = line;
-    let newIndentLevel = indentLevel;
-    
-    // Skip empty lines
-    if (line === "") {
-      convertedLines.push("");
-      continue;
-    }
-    
-    // Handle comments
-    if (line.startsWith("//")) {
-      convertedLines.push("    ".repeat(indentLevel) + "# " + line.substring(2));
-      continue;
-    }
-    
-    // Handle function declarations
-    if (line.match(/function\s+(\w+)\s*\((.*?)\)/)) {
-      const match = line.match(/function\s+(\w+)\s*\((.*?)\)(.*)/);
-      if (match) {
-        const functionName = match[1];
-        const params = match[2];
-        
-        inFunction = true;
-        convertedLine = `def ${functionName}(${params}):`;
-        newIndentLevel++;
-      }
-    }
-    // Handle opening braces (increase indent for next line)
-    else if (line === "{") {
-      // In Python, we just increase indentation without the brace
-      convertedLine = "";
-      newIndentLevel++;
-    }
-    // Handle closing braces (decrease indent)
-    else if (line === "}") {
-      // In Python, we just decrease indentation without the brace
-      inFunction = false;
-      convertedLine = "";
-      newIndentLevel = Math.max(0, newIndentLevel - 1);
-    }
-    // Handle variable declarations
-    else if (line.match(/^\s*(var|let|const)\s+(\w+)\s*=\s*(.+);?$/)) {
-      const match = line.match(/^\s*(var|let|const)\s+(\w+)\s*=\s*(.+?);?$/);
-      if (match) {
-        const varName = match[2];
-        let value = match[3];
-        
-        // Convert variable declarations to Python (no keywords needed)
-        convertedLine = `${varName} = ${value}`;
-        
-        // Remove semicolons
-        convertedLine = convertedLine.replace(/;$/, "");
-      }
-    }
-    // Handle if statements
-    else if (line.match(/^\s*if\s*\((.*)\).*{?$/)) {
-      const match = line.match(/^\s*if\s*\((.*)\)(.*)/);
-      if (match) {
-        let condition = match[1].trim();
-        
-        // Convert JavaScript equality operators to Python
-        condition = condition.replace(/===?/g, "==").replace(/!==?/g, "!=");
-        
-        convertedLine = `if ${condition}:`;
-        newIndentLevel++;
-      }
-    }
-    // Handle for loops
-    else if (line.match(/^\s*for\s*\(/)) {
-      const forLoopMatch = line.match(/for\s*\(\s*(let|var|const)?\s*(\w+)\s*=\s*([^;]+);\s*\2\s*(<|<=|>|>=)\s*([^;]+);\s*\2(\+\+|\-\-|.=.*)\)/);
-      if (forLoopMatch) {
-        const varName = forLoopMatch[2];
-        const startVal = forLoopMatch[3];
-        const endVal = forLoopMatch[5];
-        
-        // Simple for loop conversion to Python's range
-        convertedLine = `for ${varName} in range(${startVal}, ${endVal}):`;
-        newIndentLevel++;
-      } else {
-        // Handle other for loop formats
-        convertedLine = `# MANUAL CONVERSION NEEDED: ${line}`;
-      }
-    }
-    // Handle console.log
-    else if (line.match(/console\.log\(/)) {
-      convertedLine = line.replace(/console\.log\((.*)\);?/, "print($1)");
-    }
-    // Handle return statements
-    else if (line.match(/^\s*return\s+/)) {
-      const match = line.match(/return\s+(.+?);?$/);
-      if (match) {
-        convertedLine = `return ${match[1]}`;
-      }
-    }
-    // Remove semicolons from all other lines
-    else {
-      convertedLine = line.replace(/;$/, "");
-    }
-    
-    // Add the proper indentation
-    if (convertedLine !== "") {
-      convertedLines.push("    ".repeat(indentLevel) + convertedLine);
-    }
-    
-    indentLevel = newIndentLevel;
-  }
-  
-  return convertedLines.join("\n");
+/** How a response describes the converter that produced it. */
+export function converterSummary(converter: ResolvedConverter): NonNullable<ConvertCodeResponse["converter"]> {
+  return {
+    sourceLanguage: converter.sourceLanguage,
+    targetLanguage: converter.targetLanguage,
+    version: converter.version,
+    path: converter.path
+  };
 }
 
-function convertJavaScriptToSwift(sourceCode: string): string {
-  // Process the code line by line for better handling of indentation and structure
-  const lines = sourceCode.split("\n");
-  const convertedLines: string[] = [];
-  let indentLevel = 0;
-  
-  for (let i = 0; i < lines.length; i++) {
-    let line = lines[i].trim();
-    let convertedLine = line;
-    
-    // Skip empty lines
-    if (line === "") {
-      convertedLines.push("");
-      continue;
-    }
-    
-    // Handle comments
-    if (line.startsWith("//")) {
-      convertedLines.push("  ".repeat(indentLevel) + line);
-      continue;
-    }
-    
-    // Handle function declarations
-    if (line.match(/function\s+(\w+)\s*\((.*?)\)/)) {
-      const match = line.match(/function\s+(\w+)\s*\((.*?)\)(.*)/);
-      if (match) {
-        const functionName = match[1];
-        let params = match[2];
-        
-        // Convert parameters to Swift format
-        params = params.split(",").map(param => {
-          const trimmedParam = param.trim();
-          if (trimmedParam) {
-            return `${trimmedParam}: Any`;
-          }
-          return trimmedParam;
-        }).join(", ");
-        
-        // Handle opening brace on same line
-        if (match[3] && match[3].includes("{")) {
-          convertedLine = `func ${functionName}(${params}) {`;
-          indentLevel++;
-        } else {
-          convertedLine = `func ${functionName}(${params})`;
-        }
-      }
-    }
-    // Handle opening braces
-    else if (line === "{") {
-      convertedLine = "{";
-      indentLevel++;
-    }
-    // Handle closing braces
-    else if (line === "}") {
-      indentLevel = Math.max(0, indentLevel - 1);
-      convertedLine = "}";
-    }
-    // Handle variable declarations
-    else if (line.match(/^\s*(var|let|const)\s+(\w+)\s*=\s*(.+);?$/)) {
-      const match = line.match(/^\s*(var|let|const)\s+(\w+)\s*=\s*(.+?);?$/);
-      if (match) {
-        const keyword = match[1];
-        const varName = match[2];
-        let value = match[3];
-        
-        // Convert JavaScript array literals to Swift array literals
-        if (value.match(/^\[.*\]$/)) {
-          value = value.replace(/\[([^\]]*)\]/, "[$1]");
-        }
-        
-        // Convert Swift keyword based on JavaScript keyword
-        let swiftKeyword = "var";
-        if (keyword === "const") {
-          swiftKeyword = "let";
-        }
-        
-        convertedLine = `${swiftKeyword} ${varName} = ${value}`;
-      }
-    }
-    // Handle if statements
-    else if (line.match(/^\s*if\s*\((.*)\).*{?$/)) {
-      const match = line.match(/^\s*if\s*\((.*)\)(.*)/);
-      if (match) {
-        let condition = match[1].trim();
-        
-        // Convert JavaScript equality operators to Swift
-        condition = condition.replace(/===?/g, "==").replace(/!==?/g, "!=");
-        
-        // Handle opening brace on same line
-        if (match[2] && match[2].includes("{")) {
-          convertedLine = `if ${condition} {`;
-          indentLevel++;
-        } else {
-          convertedLine = `if ${condition}`;
-        }
-      }
-    }
-    // Handle for loops
-    else if (line.match(/^\s*for\s*\(/)) {
-      const forLoopMatch = line.match(/for\s*\(\s*(let|var|const)?\s*(\w+)\s*=\s*([^;]+);\s*\2\s*(<|<=|>|>=)\s*([^;]+);\s*\2(\+\+|\-\-|.=.*)\)/);
-      if (forLoopMatch) {
-        const varName = forLoopMatch[2];
-        const startVal = forLoopMatch[3];
-        const operator = forLoopMatch[4];
-        const endVal = forLoopMatch[5];
-        
-        if (operator === "<") {
-          convertedLine = `for ${varName} in ${startVal}..<${endVal} {`;
-        } else if (operator === "<=") {
-          convertedLine = `for ${varName} in ${startVal}...${endVal} {`;
-        } else {
-          // For other cases, keep the JavaScript-like format but with Swift syntax
-          convertedLine = `// Note: This for loop might need manual adjustment
-for ${varName} in ${startVal}..<${endVal} { // Original condition was ${varName} ${operator} ${endVal}`;
-        }
-        indentLevel++;
-      } else {
-        // Handle other for loop formats
-        convertedLine = `// MANUAL CONVERSION NEEDED: ${line}`;
-      }
-    }
-    // Handle console.log
-    else if (line.match(/console\.log\(/)) {
-      convertedLine = line.replace(/console\.log\((.*)\);?/, "print($1)");
-    }
-    // Handle return statements
-    else if (line.match(/^\s*return\s+/)) {
-      const match = line.match(/return\s+(.+?);?$/);
-      if (match) {
-        convertedLine = `return ${match[1]}`;
-      }
+/**
+ * The explanation of a finished conversion, plus its README and API docs
+ * when the request asks for them.
+ */
+export function documentConversion(
+  request: ConvertCodeRequest,
+  targetCode: string
+): Pick<ConvertCodeResponse, "explanation" | "readme" | "apiDocs"> {
+  const { sourceCode, sourceLanguage, targetLanguage, skillLevel, generateReadme, generateApi } = request;
+  const docs: Pick<ConvertCodeResponse, "explanation" | "readme" | "apiDocs"> = {
+    explanation: {
+      stepByStep: generateDetailedStepByStep(sourceCode, targetCode, sourceLanguage, targetLanguage, skillLevel),
+      highLevel: generateHighLevelExplanation(sourceLanguage, targetLanguage),
+      languageDifferences: getDetailedLanguageDifferences(sourceLanguage, targetLanguage)
     }
-    
-    // Add the proper indentation
-    convertedLines.push("  ".repeat(indentLevel) + convertedLine);
-  }
-  
-  return convertedLines.join("\n");
-}
-
-function convertPythonToJavaScript(sourceCode: string): string {
-  // Process the code line by line
-  const lines = sourceCode.split("\n");
-  const convertedLines: string[] = [];
-  let indentStack: number[] = [0]; // Stack to track indentation levels
-  let currentIndent = 0;
+  };
   
-  for (let i = 0; i < lines.length; i++) {
-    let line = lines[i];
-    let initialSpaces = line.search(/\S|$/);
-    let trimmedLine = line.trim();
-    let convertedLine = trimmedLine;
-    
-    // Skip empty lines
-    if (trimmedLine === "") {
-      convertedLines.push("");
-      continue;
-    }
-    
-    // Handle comments
-    if (trimmedLine.startsWith("#")) {
-      convertedLines.push("  ".repeat(indentStack.length - 1) + "// " + trimmedLine.substring(1));
-      continue;
-    }
-    
-    // Check for decrease in indentation
-    if (initialSpaces < currentIndent) {
-      // Pop indentation levels that are deeper than the current line
-      while (indentStack.length > 1 && indentStack[indentStack.length - 1] > initialSpaces) {
-        indentStack.pop();
-        // Add closing braces for each unindent
-        convertedLines.push("  ".repeat(indentStack.length - 1) + "}");
-      }
-    }
-    
-    currentIndent = initialSpaces;
-    
-    // Check for new indent level
-    if (initialSpaces > indentStack[indentStack.length - 1]) {
-      indentStack.push(initialSpaces);
-    }
-    
-    // Handle function definitions
-    if (trimmedLine.match(/^def\s+(\w+)\s*\((.*?)\):/)) {
-      const match = trimmedLine.match(/^def\s+(\w+)\s*\((.*?)\):/);
-      if (match) {
-        const functionName = match[1];
-        const params = match[2];
-        
-        convertedLine = `function ${functionName}(${params}) {`;
-      }
-    }
-    // Handle if statements
-    else if (trimmedLine.match(/^if\s+(.+):/)) {
-      const match = trimmedLine.match(/^if\s+(.+):/);
-      if (match) {
-        let condition = match[1].trim();
-        
-        // Convert Python equality operators to JavaScript if needed
-        convertedLine = `if (${condition}) {`;
-      }
-    }
-    // Handle for loops
-    else if (trimmedLine.match(/^for\s+(\w+)\s+in\s+(.+):/)) {
-      const match = trimmedLine.match(/^for\s+(\w+)\s+in\s+(.+):/);
-      if (match) {
-        const varName = match[1];
-        const iterable = match[2];
-        
-        if (iterable.match(/range\((.+)\)/)) {
-          // Handle range-based loops
-          const rangeMatch = iterable.match(/range\((.+)\)/);
-          if (rangeMatch) {
-            const rangeArgs = rangeMatch[1].split(",").map(arg => arg.trim());
-            
-            if (rangeArgs.length === 1) {
-              // range(end)
-              convertedLine = `for (let ${varName} = 0; ${varName} < ${rangeArgs[0]}; ${varName}++) {`;
-            } else if (rangeArgs.length === 2) {
-              // range(start, end)
-              convertedLine = `for (let ${varName} = ${rangeArgs[0]}; ${varName} < ${rangeArgs[1]}; ${varName}++) {`;
-            } else if (rangeArgs.length === 3) {
-              // range(start, end, step)
-              convertedLine = `for (let ${varName} = ${rangeArgs[0]}; ${varName} < ${rangeArgs[1]}; ${varName} += ${rangeArgs[2]}) {`;
-            }
-          }
-        } else {
-          // General iterable
-          convertedLine = `for (let ${varName} of ${iterable}) {`;
-        }
-      }
-    }
-    // Handle print statements
-    else if (trimmedLine.match(/^print\s*\((.*)\)/)) {
-      const match = trimmedLine.match(/^print\s*\((.*)\)/);
-      if (match) {
-        const content = match[1];
-        convertedLine = `console.log(${content});`;
-      }
-    }
-    // Handle variable assignments
-    else if (trimmedLine.match(/^(\w+)\s*=\s*(.+)/)) {
-      const match = trimmedLine.match(/^(\w+)\s*=\s*(.+)/);
-      if (match) {
-        const varName = match[1];
-        const value = match[2];
-        
-        // Use let for variable declarations
-        convertedLine = `let ${varName} = ${value};`;
-      }
-    }
-    // Handle return statements
-    else if (trimmedLine.match(/^return\s+(.+)/)) {
-      const match = trimmedLine.match(/^return\s+(.+)/);
-      if (match) {
-        const value = match[1];
-        convertedLine = `return ${value};`;
-      }
-    }
-    // Add semicolons to statements
-    else if (!trimmedLine.endsWith(":") && !trimmedLine.endsWith("{") && !trimmedLine.endsWith("}")) {
-      convertedLine = trimmedLine + ";";
-    }
-    
-    // Add the proper indentation
-    convertedLines.push("  ".repeat(indentStack.length - 1) + convertedLine);
+  if (generateReadme) {
+    docs.readme = generateDetailedReadme(sourceCode, targetCode, sourceLanguage, targetLanguage);
   }
   
-  // Close any remaining indent levels
-  while (indentStack.length > 1) {
-    indentStack.pop();
-    convertedLines.push("  ".repeat(indentStack.length - 1) + "}");
+  if (generateApi) {
+    docs.apiDocs = generateDetailedApiDocs(sourceCode, targetCode, sourceLanguage, targetLanguage);
   }
   
-  return convertedLines.join("\n");
+  return docs;
 }
 
 // Generate detailed step-by-step explanation
@@ -1,5 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { migrateStorage } from "./storage";
+import { jobQueue } from "./jobs";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +39,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await migrateStorage();
+  // Jobs interrupted by the last shutdown run again
+  await jobQueue.start();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { setTimeout as sleep } from "timers/promises";
+import { after, before, describe, it } from "node:test";
+import { zipSync } from "fflate";
+import type { ConvertCodeRequest, ConvertCodeResponse, PublicJob } from "@shared/schema";
+import { JobQueue } from "./jobs";
+import { storage } from "./storage";
+import { startTestServer, type TestClient, type TestServer } from "./test-server";
+
+let server: TestServer;
+let accounts = 0;
+
+const request: ConvertCodeRequest = {
+  sourceCode: "console.log(1);",
+  sourceLanguage: "javascript",
+  targetLanguage: "python",
+  skillLevel: "beginner",
+};
+
+async function signedInClient(): Promise<TestClient> {
+  const client = server.client();
+  await client.request("POST", "/api/register", { username: `jobs${++accounts}`, password: "correct horse" });
+  return client;
+}
+
+// Polls a job until it has finished
+async function finished(client: TestClient, id: string): Promise<PublicJob> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const job: PublicJob = await (await client.request("GET", `/api/jobs/${id}`)).json();
+    if (job.status !== "queued" && job.status !== "running") return job;
+    await sleep(50);
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+// The status a job run by a JobQueue of its own finished with
+async function settled(id: string): Promise<string> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const job = await storage.getJob(id);
+    if (job && job.status !== "queued" && job.status !== "running") return job.status;
+    await sleep(50);
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+describe("background jobs", () => {
+  it("are accepted at once and hold the conversion once it has run", async () => {
+    const client = await signedInClient();
+    const response = await client.request("POST", "/api/jobs", request);
+    assert.equal(response.status, 202);
+    const job: PublicJob = await response.json();
+    assert.equal(response.headers.get("location"), `/api/jobs/${job.id}`);
+    assert.equal(job.status, "queued");
+
+    const done = await finished(client, job.id);
+    assert.equal(done.status, "succeeded");
+    assert.equal((done.result as ConvertCodeResponse).targetCode, "print(1)");
+    assert.ok(done.finishedAt);
+  });
+
+  it("convert an uploaded project and offer its archive", async () => {
+    const client = await signedInClient();
+    const response = await client.request("POST", "/api/jobs?targetLanguage=javascript", undefined, {
+      "Content-Type": "application/zip",
+    });
+    assert.equal(response.status, 400);
+
+    const upload = await fetch(`${server.url}/api/jobs?targetLanguage=javascript`, {
+      method: "POST",
+      headers: { "Content-Type": "application/zip" },
+      body: zipSync({ "main.py": new TextEncoder().encode("print(1)\n") }),
+    });
+    assert.equal(upload.status, 202);
+    const done = await finished(server.client(), (await upload.json()).id);
+    assert.equal(done.status, "succeeded");
+    const archive = await server.client().request("GET", done.archiveUrl!);
+    assert.equal(archive.status, 200);
+    assert.equal(archive.headers.get("content-type"), "application/zip");
+  });
+
+  it("record why a conversion failed", async () => {
+    const client = await signedInClient();
+    const job: PublicJob = await (await client.request("POST", "/api/jobs", { ...request, targetLanguage: "cobol" })).json();
+    const done = await finished(client, job.id);
+    assert.equal(done.status, "failed");
+    assert.equal(done.failure?.status, 422);
+  });
+
+  it("are only seen and cancelled by their owner, and not once finished", async () => {
+    const owner = await signedInClient();
+    const other = await signedInClient();
+    const job: PublicJob = await (await owner.request("POST", "/api/jobs", request)).json();
+    assert.equal((await other.request("GET", `/api/jobs/${job.id}`)).status, 404);
+    assert.equal((await other.request("DELETE", `/api/jobs/${job.id}`)).status, 404);
+
+    await finished(owner, job.id);
+    const response = await owner.request("DELETE", `/api/jobs/${job.id}`);
+    assert.equal(response.status, 409);
+    assert.equal((await response.json()).status, "succeeded");
+    assert.equal((await owner.request("GET", "/api/jobs/not-a-uuid")).status, 404);
+  });
+});
+
+describe("JobQueue", () => {
+  it("runs at most its concurrency at once, the rest in order", async () => {
+    const queue = new JobQueue(1);
+    const jobs = [];
+    for (let index = 0; index < 3; index++) {
+      jobs.push(await queue.enqueue({ kind: "convert", input: { ...request, sourceCode: `console.log(${index});` }, userId: null }));
+    }
+    assert.deepEqual(queue.size, { queued: 2, running: 1 });
+
+    for (const job of jobs) assert.equal(await settled(job.id), "succeeded");
+    const [first, second, third] = await Promise.all(jobs.map((job) => storage.getJob(job.id)));
+    assert.ok(first!.finishedAt! <= second!.startedAt! && second!.finishedAt! <= third!.startedAt!);
+    assert.deepEqual(queue.size, { queued: 0, running: 0 });
+  });
+
+  it("cancels a queued job before it runs and discards a running one's result", async () => {
+    const queue = new JobQueue(1);
+    const running = await queue.enqueue({ kind: "convert", input: request, userId: null });
+    const queued = await queue.enqueue({ kind: "convert", input: request, userId: null });
+
+    assert.equal((await queue.cancel(queued.id))?.status, "cancelled");
+    assert.equal((await queue.cancel(running.id))?.status, "cancelled");
+    assert.equal(queue.size.queued, 0);
+    // The running conversion still finishes; wait for it before looking at what was recorded
+    for (let attempt = 0; attempt < 200 && queue.size.running > 0; attempt++) await sleep(50);
+
+    const [first, second] = await Promise.all([storage.getJob(running.id), storage.getJob(queued.id)]);
+    assert.deepEqual([first!.status, first!.result], ["cancelled", null]);
+    assert.deepEqual([second!.status, second!.startedAt], ["cancelled", null]);
+    assert.equal(await queue.cancel(queued.id), undefined);
+  });
+
+  it("runs again on start the jobs a restart interrupted", async () => {
+    const interrupted = await storage.createJob({ id: randomUUID(), kind: "convert", input: request, userId: null });
+    await storage.updateJob(interrupted.id, { status: "running", startedAt: new Date() });
+
+    await new JobQueue(1).start();
+    assert.equal(await settled(interrupted.id), "succeeded");
+  });
+});
@@ -0,0 +1,154 @@
+import { randomUUID } from "crypto";
+import type {
+  ConvertCodeRequest,
+  ConvertProjectQuery,
+  Job,
+  JobFailure,
+  PublicJob,
+} from "@shared/schema";
+import { storage, type JobChanges } from "./storage";
+import { conversionErrorResponse, saveConversion } from "./conversion";
+import { conversionPool } from "./conversion-pool";
+
+export const DEFAULT_JOB_CONCURRENCY = 2;
+
+// Finished jobs, and the archives they hold, are kept this long for their owner to collect
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+const JOB_SWEEP_MS = 60 * 60 * 1000;
+
+// A new job, before the queue gives it an id
+export type NewJob = Pick<Job, "kind" | "input" | "userId"> & { inputArchive?: string | null };
+
+export function jobArchiveUrl(id: string): string {
+  return `/api/jobs/${id}/archive`;
+}
+
+export function toPublicJob({ userId, input, inputArchive, outputArchive, ...job }: Job): PublicJob {
+  return outputArchive ? { ...job, archiveUrl: jobArchiveUrl(job.id) } : job;
+}
+
+function jobFailure(error: unknown): JobFailure {
+  const { status, body } = conversionErrorResponse(error);
+  return { status, error: body };
+}
+
+/**
+ * Runs a job to completion and returns what to record for it. A conversion
+ * finished after `isCancelled` turned true is not saved to the history.
+ */
+async function runJob(job: Job, isCancelled: () => boolean): Promise<JobChanges> {
+  switch (job.kind) {
+    case "convert": {
+      const request = job.input as ConvertCodeRequest;
+      // The queue bounds how many jobs run, so they wait for a worker however busy the pool is
+      const result = await conversionPool.run({ kind: "convert", request }, { ignoreQueueLimit: true });
+      if (isCancelled()) return {};
+      return { result: await saveConversion(request, result, job.userId) };
+    }
+    case "project": {
+      const query = job.input as ConvertProjectQuery;
+      const { archive, report } = await conversionPool.run(
+        { kind: "project", data: Buffer.from(job.inputArchive ?? "", "base64"), query },
+        { ignoreQueueLimit: true }
+      );
+      console.log(`Converted project to ${query.targetLanguage}: ${report.converted} converted, ${report.failed} failed`);
+      return { result: report, outputArchive: Buffer.from(archive).toString("base64") };
+    }
+  }
+}
+
+/**
+ * Runs conversions in the background, at most `concurrency` at a time and
+ * the rest in the order they were enqueued. Jobs live in storage, so with a
+ * persistent backend those a restart interrupted are run again by start().
+ */
+export class JobQueue {
+  // Ids of the jobs waiting to run, oldest first
+  private readonly pending: string[] = [];
+  // Ids of the jobs running, each with whether it was cancelled meanwhile
+  private readonly running = new Map<string, { cancelled: boolean }>();
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(private readonly concurrency: number) {}
+
+  /** Requeues the jobs left queued or running by the previous process and starts sweeping old ones. */
+  async start(): Promise<void> {
+    for (const job of await storage.listUnfinishedJobs()) {
+      if (job.status === "running") await storage.updateJob(job.id, { status: "queued", startedAt: null });
+      if (!this.pending.includes(job.id) && !this.running.has(job.id)) this.pending.push(job.id);
+    }
+    if (this.pending.length > 0) console.log(`Resuming ${this.pending.length} unfinished jobs`);
+    this.pump();
+
+    this.sweeper ??= setInterval(() => {
+      storage.deleteFinishedJobs(new Date(Date.now() - JOB_RETENTION_MS)).catch((error) => {
+        console.error("Error deleting finished jobs:", error);
+      });
+    }, JOB_SWEEP_MS);
+    this.sweeper.unref();
+  }
+
+  async enqueue(job: NewJob): Promise<Job> {
+    const created = await storage.createJob({ ...job, id: randomUUID() });
+    this.pending.push(created.id);
+    this.pump();
+    return created;
+  }
+
+  /**
+   * Cancels a queued or running job. A running conversion cannot be
+   * interrupted, so it finishes and its result is discarded. Undefined when
+   * the job is neither, e.g. because it has just finished.
+   */
+  async cancel(id: string): Promise<Job | undefined> {
+    const index = this.pending.indexOf(id);
+    const running = this.running.get(id);
+    if (index === -1 && !running) return undefined;
+    if (index !== -1) this.pending.splice(index, 1);
+    if (running) running.cancelled = true;
+    return storage.updateJob(id, { status: "cancelled", inputArchive: null, finishedAt: new Date() });
+  }
+
+  /** How many jobs are waiting and how many are running. */
+  get size(): { queued: number; running: number } {
+    return { queued: this.pending.length, running: this.running.size };
+  }
+
+  // Starts waiting jobs while there is room
+  private pump(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const state = { cancelled: false };
+      this.running.set(id, state);
+      this.run(id, state)
+        .catch((error) => console.error(`Error running job ${id}:`, error))
+        .finally(() => {
+          this.running.delete(id);
+          this.pump();
+        });
+    }
+  }
+
+  private async run(id: string, state: { cancelled: boolean }): Promise<void> {
+    const job = await storage.updateJob(id, { status: "running", startedAt: new Date() });
+    if (!job || state.cancelled) return;
+
+    let changes: JobChanges;
+    try {
+      changes = { status: "succeeded", ...(await runJob(job, () => state.cancelled)) };
+    } catch (error) {
+      changes = { status: "failed", failure: jobFailure(error) };
+    }
+    // cancel() has already recorded the job as cancelled
+    if (state.cancelled) return;
+    await storage.updateJob(id, { ...changes, inputArchive: null, finishedAt: new Date() });
+  }
+}
+
+// JOB_CONCURRENCY sets how many jobs run at once
+function jobConcurrency(): number {
+  const value = Number(process.env.JOB_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_JOB_CONCURRENCY;
+}
+
+export const jobQueue = new JobQueue(jobConcurrency());
@@ -0,0 +1,70 @@
+import { conversionPool } from "./conversion-pool";
+import { jobQueue } from "./jobs";
+import { runSlots } from "./sandbox";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4";
+
+interface Metric {
+  name: string;
+  type: "gauge" | "counter";
+  help: string;
+  // Value per label set; "" for a metric without labels
+  values: Record<string, number>;
+}
+
+function render({ name, type, help, values }: Metric): string {
+  const samples = Object.entries(values).map(([labels, value]) => `${name}${labels ? `{${labels}}` : ""} ${value}`);
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples].join("\n");
+}
+
+/** The conversion pool's, the job queue's and the sandbox's state in the Prometheus text format. */
+export function renderMetrics(): string {
+  const pool = conversionPool.stats();
+  const jobs = jobQueue.size;
+  const runs = runSlots.stats();
+  const metrics: Metric[] = [
+    {
+      name: "sourcexchange_conversion_queue_depth",
+      type: "gauge",
+      help: "Conversions waiting for a worker",
+      values: { "": pool.queued },
+    },
+    {
+      name: "sourcexchange_conversion_workers",
+      type: "gauge",
+      help: "Conversion workers, by whether they are running a task",
+      values: { 'state="busy"': pool.busy, 'state="idle"': pool.workers - pool.busy },
+    },
+    {
+      name: "sourcexchange_conversion_rejected_total",
+      type: "counter",
+      help: "Conversions refused with a 503 because the queue was full",
+      values: { "": pool.rejected },
+    },
+    {
+      name: "sourcexchange_conversion_limit_exceeded_total",
+      type: "counter",
+      help: "Conversions stopped for running out of time or memory",
+      values: { 'limit="time"': pool.timedOut, 'limit="memory"': pool.outOfMemory },
+    },
+    {
+      name: "sourcexchange_jobs",
+      type: "gauge",
+      help: "Background jobs not finished yet, by status",
+      values: { 'status="queued"': jobs.queued, 'status="running"': jobs.running },
+    },
+    {
+      name: "sourcexchange_runs",
+      type: "gauge",
+      help: "Programs running in the sandbox",
+      values: { "": runs.running },
+    },
+    {
+      name: "sourcexchange_runs_rejected_total",
+      type: "counter",
+      help: "Programs refused with a 503 because too many were running",
+      values: { "": runs.rejected },
+    },
+  ];
+  return `${metrics.map(render).join("\n")}\n`;
+}
@@ -0,0 +1,431 @@
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  codeConversions,
+  conversionDiagnosticSchema,
+  convertBatchItemResultSchema,
+  convertBatchResponseSchema,
+  convertBatchSchema,
+  conversionOptionsSchema,
+  convertCodeResponseSchema,
+  convertCodeSchema,
+  converterInfoSchema,
+  convertProjectQuerySchema,
+  convertStreamEventSchema,
+  convertStreamSchema,
+  JOB_KINDS,
+  JOB_STATUSES,
+  jobFailureSchema,
+  jobs,
+  listConversionsQuerySchema,
+  projectReportSchema,
+  publicUserSchema,
+  runCodeSchema,
+  runResultSchema,
+  verificationReportSchema,
+  verifyConversionSchema,
+} from "@shared/schema";
+
+type JsonSchema = Record<string, unknown>;
+
+// A saved conversion as the history endpoints return it
+const codeConversionSchema = createSelectSchema(codeConversions, {
+  explanation: convertCodeResponseSchema.shape.explanation,
+  options: conversionOptionsSchema,
+  diagnostics: z.array(conversionDiagnosticSchema),
+  createdAt: z.string().datetime(),
+});
+
+const conversionPageSchema = z.object({
+  conversions: z.array(codeConversionSchema),
+  total: z.number().int(),
+  page: z.number().int(),
+  pageSize: z.number().int(),
+});
+
+// A background conversion as the job endpoints return it
+const jobSchema = createSelectSchema(jobs, {
+  kind: z.enum(JOB_KINDS),
+  status: z.enum(JOB_STATUSES),
+  result: z.union([convertCodeResponseSchema, projectReportSchema]).nullable(),
+  failure: jobFailureSchema.nullable(),
+  createdAt: z.string().datetime(),
+  startedAt: z.string().datetime().nullable(),
+  finishedAt: z.string().datetime().nullable(),
+})
+  .omit({ userId: true, input: true, inputArchive: true, outputArchive: true })
+  .extend({ archiveUrl: z.string().optional() });
+
+// Body of every 4xx and 5xx response
+const errorSchema = z.object({
+  message: z.string(),
+  // Underlying cause, when there is one
+  error: z.string().optional(),
+  // Zod issues of a 400 response
+  errors: z.array(z.object({ path: z.array(z.union([z.string(), z.number()])), message: z.string() })).optional(),
+});
+
+// Published under components.schemas and referenced by name
+const components = {
+  ConvertCodeRequest: convertCodeSchema,
+  ConvertCodeResponse: convertCodeResponseSchema,
+  ConvertBatchRequest: convertBatchSchema,
+  ConvertBatchResponse: convertBatchResponseSchema,
+  ConvertBatchItemResult: convertBatchItemResultSchema,
+  ConvertStreamRequest: convertStreamSchema,
+  ConvertStreamEvent: convertStreamEventSchema,
+  ProjectReport: projectReportSchema,
+  Job: jobSchema,
+  CodeConversion: codeConversionSchema,
+  ConversionPage: conversionPageSchema,
+  RunCodeRequest: runCodeSchema,
+  RunResult: runResultSchema,
+  VerifyConversionRequest: verifyConversionSchema,
+  VerificationReport: verificationReportSchema,
+  ConverterInfo: converterInfoSchema,
+  User: publicUserSchema,
+  Error: errorSchema,
+} satisfies Record<string, z.ZodTypeAny>;
+
+type ComponentName = keyof typeof components;
+
+// Schemas that parse a value out of a string, such as JSON in a query parameter, are described by the string
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  return zodToJsonSchema(schema, { target: "openApi3", $refStrategy: "none", pipeStrategy: "input" }) as JsonSchema;
+}
+
+const ref = (name: ComponentName) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (name: ComponentName) => ({ content: { "application/json": { schema: ref(name) } } });
+
+const errorResponse = (description: string) => ({ description, ...jsonContent("Error") });
+
+// Query parameters of an endpoint, one per property of its zod schema
+function queryParameters(schema: z.AnyZodObject) {
+  const { properties, required = [] } = toJsonSchema(schema) as { properties: Record<string, JsonSchema>; required?: string[] };
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: "query",
+    required: required.includes(name),
+    schema: property,
+  }));
+}
+
+// A zip or tarball sent or answered as raw bytes
+const archiveContent = {
+  content: Object.fromEntries(
+    ["application/zip", "application/gzip", "application/x-tar"].map((type) => [type, { schema: { type: "string", format: "binary" } }])
+  ),
+};
+
+// Every conversion worker is busy and too many conversions are waiting
+const busyResponse = {
+  ...errorResponse("The server is busy; retry after the number of seconds in Retry-After"),
+  headers: { "Retry-After": { schema: { type: "integer" }, description: "Seconds to wait before retrying" } },
+};
+
+// As many programs are running as the server allows
+const runBusyResponse = {
+  ...errorResponse("Too many programs are running; retry after the number of seconds in Retry-After"),
+  headers: busyResponse.headers,
+};
+
+const jobIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string", format: "uuid" },
+};
+
+const idParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "integer", minimum: 1 },
+};
+
+function buildDocument() {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "SourceXchange API",
+      version: "1.0.0",
+      description:
+        "Convert, run and verify code between programming languages. Requests from scripts " +
+        "authenticate with a personal API token, created on the settings page, sent as " +
+        "`Authorization: Bearer <token>`. Without one, conversions are not saved to a history.",
+    },
+    servers: [{ url: "/" }],
+    security: [{ bearerAuth: [] }, { cookieAuth: [] }, {}],
+    paths: {
+      "/api/convert": {
+        post: {
+          summary: "Convert code",
+          description: "Converts source code to another language and saves it to the caller's history.",
+          tags: ["Conversion"],
+          requestBody: { required: true, ...jsonContent("ConvertCodeRequest") },
+          responses: {
+            200: { description: "The converted code", ...jsonContent("ConvertCodeResponse") },
+            400: errorResponse("The request body is invalid"),
+            422: errorResponse("The language pair, an option or the source is not supported, or the conversion ran out of time or memory"),
+            500: errorResponse("The conversion failed"),
+            503: busyResponse,
+          },
+        },
+      },
+      "/api/convert/batch": {
+        post: {
+          summary: "Convert many snippets",
+          description:
+            "Converts every item, several at a time, and saves each to the caller's history. A failing " +
+            "item gets the status and error body /api/convert would have answered, without failing the " +
+            "rest. With `Accept: application/x-ndjson` each result is streamed as one JSON line as soon " +
+            "as it finishes, so the lines arrive out of order; use `index` to match them to the items.",
+          tags: ["Conversion"],
+          requestBody: { required: true, ...jsonContent("ConvertBatchRequest") },
+          responses: {
+            200: {
+              description: "The result of every item",
+              content: {
+                "application/json": { schema: ref("ConvertBatchResponse") },
+                "application/x-ndjson": { schema: ref("ConvertBatchItemResult") },
+              },
+            },
+            400: errorResponse("The batch is empty, too large or not a list of items"),
+          },
+        },
+      },
+      "/api/convert/stream": {
+        post: {
+          summary: "Convert code with progress",
+          description:
+            "Converts like POST /api/convert and answers with Server-Sent Events named after their `type`: `start` lists the stages the " +
+            "conversion runs, `stage` reports each one starting and finishing, `partial` sends the next piece " +
+            "of the target code a top-level declaration at a time, and `diagnostic` each problem as it is found. " +
+            "The last event is `result`, with the saved conversion, or `failure`, with the status and body " +
+            "POST /api/convert would have answered. With `verify` set the source and the result are also run " +
+            "and compared, as POST /api/verify does. Other methods are answered 405 with `Allow: POST`.",
+          tags: ["Conversion"],
+          requestBody: { required: true, ...jsonContent("ConvertStreamRequest") },
+          responses: {
+            200: {
+              description: "The conversion's events",
+              content: { "text/event-stream": { schema: ref("ConvertStreamEvent") } },
+            },
+            400: errorResponse("The request body is invalid"),
+            422: errorResponse("The language pair is not supported"),
+            503: busyResponse,
+          },
+        },
+      },
+      "/api/convert/project": {
+        post: {
+          summary: "Convert a project",
+          description:
+            "Converts every JavaScript and Python file of a zip or tarball sent as the request body, rewriting " +
+            "the imports between them for the target's module system. The answer is an archive of the same " +
+            "format with the converted tree, a README and `conversion-report.json`, a ProjectReport listing " +
+            "each file's diagnostics. Files that fail to convert are copied unchanged and reported. Nothing " +
+            "is saved to the history.",
+          tags: ["Conversion"],
+          parameters: queryParameters(convertProjectQuerySchema),
+          requestBody: { required: true, ...archiveContent },
+          responses: {
+            200: { description: "The converted project", ...archiveContent },
+            400: errorResponse("A query parameter is invalid, or the archive is empty, damaged, unsafe or has no source files"),
+            413: errorResponse("The archive has too many files or is too large"),
+            415: errorResponse("The request body is not an archive"),
+            422: errorResponse("The language pair or an option is not supported, or the conversion ran out of time or memory"),
+            503: busyResponse,
+          },
+        },
+      },
+      "/api/jobs": {
+        post: {
+          summary: "Queue a conversion",
+          description:
+            "Queues a conversion to run in the background and answers at once with the job, whose `Location` " +
+            "header is polled for the outcome. A JSON body is converted as POST /api/convert would and saved " +
+            "to the caller's history; an archive body, with the query parameters of POST /api/convert/project, " +
+            "is converted as that endpoint would. A job that fails records the status and error body the " +
+            "endpoint would have answered. Finished jobs are kept for a day.",
+          tags: ["Jobs"],
+          parameters: queryParameters(convertProjectQuerySchema).map((parameter) => ({
+            ...parameter,
+            required: false,
+            description: "Used with an archive body, which needs `targetLanguage`",
+          })),
+          requestBody: {
+            required: true,
+            content: { ...jsonContent("ConvertCodeRequest").content, ...archiveContent.content },
+          },
+          responses: {
+            202: { description: "The queued job", ...jsonContent("Job") },
+            400: errorResponse("The request is invalid, or the archive is empty, damaged or unsafe"),
+            413: errorResponse("The archive has too many files or is too large"),
+          },
+        },
+      },
+      "/api/jobs/{id}": {
+        get: {
+          summary: "Get a job",
+          description:
+            "Reports whether the job is `queued`, `running`, `succeeded`, `failed` or `cancelled`, with the " +
+            "ConvertCodeResponse or ProjectReport of a succeeded job and the failure of a failed one.",
+          tags: ["Jobs"],
+          parameters: [jobIdParameter],
+          responses: {
+            200: { description: "The job", ...jsonContent("Job") },
+            404: errorResponse("The caller has no job with that id"),
+          },
+        },
+        delete: {
+          summary: "Cancel a job",
+          description:
+            "Cancels a queued or running job. A running conversion is discarded when it finishes rather " +
+            "than interrupted, and is not saved to the history.",
+          tags: ["Jobs"],
+          parameters: [jobIdParameter],
+          responses: {
+            200: { description: "The cancelled job", ...jsonContent("Job") },
+            404: errorResponse("The caller has no job with that id"),
+            409: errorResponse("The job has already finished"),
+          },
+        },
+      },
+      "/api/jobs/{id}/archive": {
+        get: {
+          summary: "Download a project job's archive",
+          description: "The converted project of a succeeded project job, as POST /api/convert/project answers it.",
+          tags: ["Jobs"],
+          parameters: [jobIdParameter],
+          responses: {
+            200: { description: "The converted project", ...archiveContent },
+            404: errorResponse("The caller has no succeeded project job with that id"),
+          },
+        },
+      },
+      "/api/converters": {
+        get: {
+          summary: "List converters",
+          description: "Language pairs with a dedicated converter, and what each one supports.",
+          tags: ["Conversion"],
+          responses: {
+            200: {
+              description: "The registered converters",
+              content: { "application/json": { schema: { type: "array", items: ref("ConverterInfo") } } },
+            },
+          },
+        },
+      },
+      "/api/conversions": {
+        get: {
+          summary: "List saved conversions",
+          description: "The caller's history, newest first.",
+          tags: ["History"],
+          parameters: queryParameters(listConversionsQuerySchema),
+          responses: {
+            200: { description: "A page of conversions", ...jsonContent("ConversionPage") },
+            400: errorResponse("A query parameter is invalid"),
+            401: errorResponse("Not signed in, or the token is invalid"),
+          },
+        },
+      },
+      "/api/conversions/{id}": {
+        get: {
+          summary: "Get a saved conversion",
+          tags: ["History"],
+          parameters: [idParameter],
+          responses: {
+            200: { description: "The conversion", ...jsonContent("CodeConversion") },
+            401: errorResponse("Not signed in, or the token is invalid"),
+            404: errorResponse("The caller has no conversion with that id"),
+          },
+        },
+        delete: {
+          summary: "Delete a saved conversion",
+          tags: ["History"],
+          parameters: [idParameter],
+          responses: {
+            204: { description: "The conversion was deleted" },
+            401: errorResponse("Not signed in, or the token is invalid"),
+            404: errorResponse("The caller has no conversion with that id"),
+          },
+        },
+      },
+      "/api/run": {
+        post: {
+          summary: "Run a program",
+          description: "Runs a program in the sandbox with CPU, memory, time and output limits.",
+          tags: ["Sandbox"],
+          requestBody: { required: true, ...jsonContent("RunCodeRequest") },
+          responses: {
+            200: { description: "How the program ended and what it printed", ...jsonContent("RunResult") },
+            400: errorResponse("The request body is invalid"),
+            422: errorResponse("No runtime for the language is installed on the server"),
+            503: runBusyResponse,
+          },
+        },
+      },
+      "/api/verify": {
+        post: {
+          summary: "Verify a conversion",
+          description:
+            "Runs the source and the converted program and compares their output. With `conversionId` the " +
+            "report is also saved on that conversion of the caller's history.",
+          tags: ["Sandbox"],
+          requestBody: { required: true, ...jsonContent("VerifyConversionRequest") },
+          responses: {
+            200: { description: "Where the two programs behaved differently", ...jsonContent("VerificationReport") },
+            400: errorResponse("The request body is invalid"),
+            404: errorResponse("The caller has no conversion with that id"),
+            409: errorResponse("The code sent is not the code of that conversion"),
+            422: errorResponse("No runtime for one of the languages is installed on the server"),
+            503: runBusyResponse,
+          },
+        },
+      },
+      "/api/metrics": {
+        get: {
+          summary: "Get server metrics",
+          description:
+            "The conversion worker pool's queue depth, busy workers, refused and stopped conversions, the " +
+            "number of unfinished jobs, and running and refused programs, in the Prometheus text format.",
+          tags: ["Operations"],
+          responses: {
+            200: { description: "The metrics", content: { "text/plain": { schema: { type: "string" } } } },
+          },
+        },
+      },
+      "/api/me": {
+        get: {
+          summary: "Get the signed-in user",
+          description: "Useful to check which account a token belongs to.",
+          tags: ["Account"],
+          responses: {
+            200: { description: "The user", ...jsonContent("User") },
+            401: errorResponse("Not signed in, or the token is invalid"),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(components).map(([name, schema]) => [name, toJsonSchema(schema)])
+      ),
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "A personal API token" },
+        cookieAuth: { type: "apiKey", in: "cookie", name: "connect.sid", description: "The browser session" },
+      },
+    },
+  };
+}
+
+let document: ReturnType<typeof buildDocument> | undefined;
+
+/** The OpenAPI 3 description of the public REST API, built once from the zod schemas. */
+export function openApiDocument() {
+  document ??= buildDocument();
+  return document;
+}
@@ -0,0 +1,250 @@
+import { gunzipSync, gzipSync } from "zlib";
+import { unzipSync, zipSync } from "fflate";
+import { ArchiveError, ProjectTooLargeError } from "./errors";
+
+export type ArchiveFormat = "zip" | "tar" | "tar.gz";
+
+/** One file of an archive, with a normalized, relative, `/`-separated path. */
+export interface ArchiveEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ArchiveLimits {
+  maxFiles: number;
+  // Total size of the files once unpacked
+  maxBytes: number;
+}
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: "application/zip",
+  tar: "application/x-tar",
+  "tar.gz": "application/gzip",
+};
+
+// Directories a project never needs converted or copied: dependencies, caches and VCS data
+const IGNORED_DIRECTORIES = new Set(["node_modules", "__pycache__", "venv", "site-packages"]);
+
+const BLOCK = 512;
+
+/** The format of an archive, from its leading bytes. */
+export function detectArchiveFormat(data: Uint8Array): ArchiveFormat {
+  if (data[0] === 0x50 && data[1] === 0x4b) return "zip";
+  if (data[0] === 0x1f && data[1] === 0x8b) return "tar.gz";
+  if (data.length >= BLOCK && ascii(data, 257, 5) === "ustar") return "tar";
+  throw new ArchiveError("Upload a .zip, .tar or .tar.gz archive");
+}
+
+/**
+ * Unpacks a zip or (gzipped) tarball. Directories, links, hidden files and
+ * dependency folders are left out. Throws ArchiveError for a damaged archive
+ * or an entry escaping the archive root, and ProjectTooLargeError past `limits`.
+ */
+export function readArchive(data: Uint8Array, limits: ArchiveLimits): { format: ArchiveFormat; entries: ArchiveEntry[] } {
+  const format = detectArchiveFormat(data);
+  const budget = new Budget(limits);
+
+  if (format === "zip") {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(data, {
+        // Sizes are checked before anything is inflated
+        filter: (file) => {
+          if (file.name.endsWith("/") || isIgnored(normalizePath(file.name))) return false;
+          budget.add(file.originalSize);
+          return true;
+        },
+      });
+    } catch (error) {
+      if (error instanceof ArchiveError || error instanceof ProjectTooLargeError) throw error;
+      throw new ArchiveError(`The zip archive could not be read: ${(error as Error).message}`);
+    }
+    return {
+      format,
+      entries: Object.entries(files).map(([name, contents]) => ({ path: normalizePath(name), data: contents })),
+    };
+  }
+
+  let tar = data;
+  if (format === "tar.gz") {
+    try {
+      // Headers and ignored files are unpacked too, hence the headroom
+      tar = gunzipSync(data, { maxOutputLength: limits.maxBytes * 4 });
+    } catch (error) {
+      if (error instanceof RangeError) throw new ProjectTooLargeError("The archive is too large once unpacked");
+      throw new ArchiveError(`The gzip stream could not be read: ${(error as Error).message}`);
+    }
+  }
+  return { format, entries: readTar(tar, budget) };
+}
+
+/** Packs files into an archive of `format`. */
+export function writeArchive(entries: ArchiveEntry[], format: ArchiveFormat): Uint8Array {
+  if (format === "zip") {
+    return zipSync(Object.fromEntries(entries.map((entry) => [entry.path, entry.data])), { level: 6 });
+  }
+  const tar = writeTar(entries);
+  return format === "tar.gz" ? gzipSync(tar) : tar;
+}
+
+// Counts files and bytes as they are unpacked, throwing once either limit is passed
+class Budget {
+  private files = 0;
+  private bytes = 0;
+
+  constructor(private readonly limits: ArchiveLimits) {}
+
+  add(size: number): void {
+    this.files += 1;
+    this.bytes += size;
+    if (this.files > this.limits.maxFiles) {
+      throw new ProjectTooLargeError(`A project may have at most ${this.limits.maxFiles} files`);
+    }
+    if (this.bytes > this.limits.maxBytes) {
+      throw new ProjectTooLargeError(`A project may be at most ${this.limits.maxBytes / (1024 * 1024)} MB unpacked`);
+    }
+  }
+}
+
+// Relative, `/`-separated form of an entry name; rejects names that leave the archive root
+function normalizePath(name: string): string {
+  const segments = name.replace(/\\/g, "/").split("/").filter((segment) => segment !== "" && segment !== ".");
+  if (name.startsWith("/") || /^[A-Za-z]:/.test(name) || segments.includes("..")) {
+    throw new ArchiveError(`The archive entry ${name} points outside the archive`);
+  }
+  return segments.join("/");
+}
+
+function isIgnored(path: string): boolean {
+  return path === "" || path.split("/").some((segment) => segment.startsWith(".") || IGNORED_DIRECTORIES.has(segment));
+}
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  let text = "";
+  for (let i = offset; i < offset + length && data[i] !== 0; i++) text += String.fromCharCode(data[i]);
+  return text;
+}
+
+function utf8(data: Uint8Array, offset: number, length: number): string {
+  const field = data.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function checksum(header: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  return sum;
+}
+
+// Reads ustar entries, with GNU long names and pax `path` records
+function readTar(data: Uint8Array, budget: Budget): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let longName: string | undefined;
+
+  for (let offset = 0; offset + BLOCK <= data.length;) {
+    const header = data.subarray(offset, offset + BLOCK);
+    if (header.every((byte) => byte === 0)) break;
+    if (parseInt(ascii(header, 148, 8).trim(), 8) !== checksum(header)) {
+      throw new ArchiveError("The tar archive is damaged: a header checksum does not match");
+    }
+
+    const size = parseInt(ascii(header, 124, 12).trim() || "0", 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const body = data.subarray(offset + BLOCK, offset + BLOCK + size);
+    if (body.length < size) throw new ArchiveError("The tar archive is truncated");
+    offset += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (type === "L") {
+      longName = utf8(body, 0, size);
+      continue;
+    }
+    if (type === "x") {
+      longName = paxPath(body) ?? longName;
+      continue;
+    }
+
+    const prefix = utf8(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${utf8(header, 0, 100)}` : utf8(header, 0, 100));
+    longName = undefined;
+    // Only regular files; directories are implied by their files' paths
+    if (type !== "0" && type !== "7") continue;
+
+    const path = normalizePath(name);
+    if (isIgnored(path)) continue;
+    budget.add(size);
+    entries.push({ path, data: body.slice() });
+  }
+  return entries;
+}
+
+function paxPath(body: Uint8Array): string | undefined {
+  const records = new TextDecoder().decode(body).split("\n");
+  for (const record of records) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+function writeTar(entries: ArchiveEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const mtime = Math.floor(Date.now() / 1000);
+  const blocks: Uint8Array[] = [];
+
+  const pushFile = (name: Uint8Array, prefix: Uint8Array, type: string, data: Uint8Array) => {
+    const header = new Uint8Array(BLOCK);
+    header.set(name, 0);
+    header.set(encoder.encode("0000644\0"), 100);
+    header.set(encoder.encode("0000000\0"), 108);
+    header.set(encoder.encode("0000000\0"), 116);
+    header.set(encoder.encode(`${data.length.toString(8).padStart(11, "0")}\0`), 124);
+    header.set(encoder.encode(`${mtime.toString(8).padStart(11, "0")}\0`), 136);
+    header[156] = type.charCodeAt(0);
+    header.set(encoder.encode("ustar\0" + "00"), 257);
+    header.set(prefix, 345);
+    header.set(encoder.encode(`${checksum(header).toString(8).padStart(6, "0")}\0 `), 148);
+    blocks.push(header, data, new Uint8Array((BLOCK - (data.length % BLOCK)) % BLOCK));
+  };
+
+  for (const entry of entries) {
+    const path = encoder.encode(entry.path);
+    const split = splitUstarPath(entry.path);
+    if (split) {
+      pushFile(encoder.encode(split.name), encoder.encode(split.prefix), "0", entry.data);
+      continue;
+    }
+    // Too long for the header fields: a pax record carries the full path
+    pushFile(encoder.encode("PaxHeader"), new Uint8Array(0), "x", paxRecord("path", entry.path));
+    pushFile(path.subarray(0, 100), new Uint8Array(0), "0", entry.data);
+  }
+  blocks.push(new Uint8Array(BLOCK * 2));
+
+  const tar = new Uint8Array(blocks.reduce((total, block) => total + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    tar.set(block, offset);
+    offset += block.length;
+  }
+  return tar;
+}
+
+// Splits a path into the ustar prefix and name fields, if it fits them
+function splitUstarPath(path: string): { prefix: string; name: string } | undefined {
+  const length = (text: string) => Buffer.byteLength(text);
+  if (length(path) <= 100) return { prefix: "", name: path };
+  for (let slash = path.indexOf("/"); slash !== -1; slash = path.indexOf("/", slash + 1)) {
+    const prefix = path.slice(0, slash);
+    const name = path.slice(slash + 1);
+    if (length(prefix) <= 155 && length(name) <= 100) return { prefix, name };
+  }
+  return undefined;
+}
+
+// A pax extended header record, whose leading length counts its own digits
+function paxRecord(key: string, value: string): Uint8Array {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body);
+  while (Buffer.byteLength(`${length}${body}`) !== length) length = Buffer.byteLength(`${length}${body}`);
+  return new TextEncoder().encode(`${length}${body}`);
+}
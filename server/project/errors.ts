@@ -0,0 +1,21 @@
+/**
+ * Thrown when an uploaded archive cannot be read, is not a zip or tarball, or
+ * holds an unsafe path. The route layer reports it to the client as a 400.
+ */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+/**
+ * Thrown when an archive holds more files or more bytes than a project may.
+ * The route layer reports it to the client as a 413.
+ */
+export class ProjectTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectTooLargeError";
+  }
+}
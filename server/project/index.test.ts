@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { zipSync } from "fflate";
+import type { ProjectReport } from "@shared/schema";
+import { startTestServer, type TestServer } from "../test-server";
+import { readArchive, writeArchive, type ArchiveEntry, type ArchiveFormat } from "./archive";
+import { ArchiveError, convertProjectArchive, PROJECT_LIMITS, ProjectTooLargeError, REPORT_FILE } from "./index";
+
+let server: TestServer;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function archiveOf(files: Record<string, string>, format: ArchiveFormat = "zip"): Uint8Array {
+  return writeArchive(Object.entries(files).map(([path, text]) => ({ path, data: encoder.encode(text) })), format);
+}
+
+function textsOf(entries: ArchiveEntry[]): Record<string, string> {
+  return Object.fromEntries(entries.map((entry) => [entry.path, decoder.decode(entry.data)]));
+}
+
+const upload = (data: Uint8Array, query: string) =>
+  fetch(`${server.url}/api/convert/project${query}`, { method: "POST", headers: { "Content-Type": "application/zip" }, body: data });
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+describe("project archives", () => {
+  it("read back what was written, in every format", () => {
+    const files = { "app/main.js": "console.log(1);\n", "app/data/notes.txt": "notes\n" };
+    for (const format of ["zip", "tar", "tar.gz"] as const) {
+      const { format: read, entries } = readArchive(archiveOf(files, format), PROJECT_LIMITS);
+      assert.equal(read, format);
+      assert.deepEqual(textsOf(entries), files);
+    }
+  });
+
+  it("leave out hidden files and node_modules", () => {
+    const { entries } = readArchive(
+      archiveOf({ "main.js": "", ".env": "SECRET=1", "node_modules/lib/index.js": "", ".git/config": "" }),
+      PROJECT_LIMITS
+    );
+    assert.deepEqual(entries.map((entry) => entry.path), ["main.js"]);
+  });
+
+  it("refuse an entry pointing outside the archive, and bytes that are no archive", () => {
+    assert.throws(() => readArchive(zipSync({ "../escape.js": encoder.encode("") }), PROJECT_LIMITS), ArchiveError);
+    assert.throws(() => readArchive(encoder.encode("console.log(1);"), PROJECT_LIMITS), ArchiveError);
+  });
+
+  it("refuse more files or bytes than the limits", () => {
+    const data = archiveOf({ "a.js": "1;", "b.js": "2;", "c.js": "3;" });
+    assert.throws(() => readArchive(data, { maxFiles: 2, maxBytes: 1_000 }), ProjectTooLargeError);
+    assert.throws(() => readArchive(data, { maxFiles: 10, maxBytes: 4 }), ProjectTooLargeError);
+  });
+});
+
+describe("convertProjectArchive", () => {
+  it("converts the sources, copies the rest and adds a README and the report", () => {
+    const { format, archive, report } = convertProjectArchive(
+      archiveOf({ "shop/cart.js": "console.log(1 + 2);\n", "shop/logo.txt": "logo\n" }, "tar.gz"),
+      { targetLanguage: "python" }
+    );
+    assert.equal(format, "tar.gz");
+    const files = textsOf(readArchive(archive, PROJECT_LIMITS).entries);
+    assert.deepEqual(Object.keys(files), ["shop/__init__.py", "shop/cart.py", `shop/${REPORT_FILE}`, "shop/logo.txt", "shop/README.md"]);
+    assert.equal(files["shop/cart.py"], "print(1 + 2)\n");
+    assert.equal(files["shop/logo.txt"], "logo\n");
+    assert.deepEqual(JSON.parse(files[`shop/${REPORT_FILE}`]), report);
+    assert.deepEqual([report.converted, report.copied, report.failed], [1, 1, 0]);
+  });
+
+  it("reports a file that does not parse and copies it unchanged", () => {
+    const { archive, report } = convertProjectArchive(archiveOf({ "good.py": "print(1)\n", "bad.py": "def (:\n" }), {
+      targetLanguage: "javascript",
+    });
+    const files = textsOf(readArchive(archive, PROJECT_LIMITS).entries);
+    assert.equal(files["bad.py"], "def (:\n");
+    assert.ok(files["good.js"]);
+    assert.ok(files["package.json"]);
+    const bad = report.files.find((file) => file.path === "bad.py")!;
+    assert.equal(bad.status, "failed");
+    assert.ok(bad.error);
+  });
+
+  it("refuses an archive with nothing to convert", () => {
+    assert.throws(() => convertProjectArchive(archiveOf({ "notes.txt": "" }), { targetLanguage: "python" }), ArchiveError);
+  });
+});
+
+describe("POST /api/convert/project", () => {
+  it("answers with the converted archive in the uploaded format", async () => {
+    const response = await upload(archiveOf({ "main.py": "print(1)\n" }), "?targetLanguage=javascript");
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("content-type"), "application/zip");
+    assert.match(response.headers.get("content-disposition")!, /project-javascript\.zip/);
+
+    const files = textsOf(readArchive(new Uint8Array(await response.arrayBuffer()), PROJECT_LIMITS).entries);
+    const report: ProjectReport = JSON.parse(files[REPORT_FILE]);
+    assert.equal(report.converted, 1);
+    assert.ok(files["main.js"]);
+  });
+
+  it("refuses a missing archive, an unreadable one or a missing target", async () => {
+    const json = await server.client().request("POST", "/api/convert/project?targetLanguage=python", { files: [] });
+    assert.equal(json.status, 415);
+    assert.equal((await upload(new Uint8Array(), "?targetLanguage=python")).status, 400);
+    assert.equal((await upload(encoder.encode("not an archive"), "?targetLanguage=python")).status, 400);
+    assert.equal((await upload(archiveOf({ "main.py": "print(1)\n" }), "")).status, 400);
+  });
+});
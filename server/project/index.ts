@@ -0,0 +1,211 @@
+import {
+  MAX_PROJECT_FILES,
+  type ConvertProjectQuery,
+  type ProjectFileReport,
+  type ProjectReport,
+} from "@shared/schema";
+import { converterRegistry } from "../converter/converters";
+import { confidenceScore, withNotes } from "../converter/diagnostics";
+import { UnsupportedLanguagePairError } from "../converter/errors";
+import type * as ir from "../converter/ir";
+import { linkModules } from "../converter/module-graph";
+import { resolveOptions, supportsVersion } from "../converter/options";
+import type { FrontEnd } from "../converter/registry";
+import { readArchive, writeArchive, type ArchiveEntry, type ArchiveFormat, type ArchiveLimits } from "./archive";
+import { ArchiveError } from "./errors";
+import { outputPathOf, sourceLanguageOf, type SourceLanguage } from "./paths";
+import { projectReadme } from "./readme";
+
+export { ARCHIVE_CONTENT_TYPES, detectArchiveFormat, type ArchiveFormat } from "./archive";
+export { ArchiveError, ProjectTooLargeError } from "./errors";
+
+export const PROJECT_LIMITS: ArchiveLimits = {
+  maxFiles: MAX_PROJECT_FILES,
+  maxBytes: 20 * 1024 * 1024,
+};
+
+export const REPORT_FILE = "conversion-report.json";
+
+export interface ProjectConversion {
+  format: ArchiveFormat;
+  // The converted tree, packed in the format it was uploaded in
+  archive: Uint8Array;
+  report: ProjectReport;
+}
+
+/**
+ * Converts every JavaScript and Python file of an uploaded archive to the
+ * target language and packs the result, with a README and the diagnostics
+ * report, in an archive of the same format. Files that fail to convert are
+ * reported and copied unchanged rather than failing the project.
+ */
+export function convertProjectArchive(data: Uint8Array, query: ConvertProjectQuery): ProjectConversion {
+  const { format, entries } = readArchive(data, PROJECT_LIMITS);
+  const { files, report } = convertProject(entries, query);
+  return { format, archive: writeArchive(files, format), report };
+}
+
+/**
+ * Throws the ArchiveError or ProjectTooLargeError convertProjectArchive would
+ * for an archive it cannot read, without converting anything.
+ */
+export function checkProjectArchive(data: Uint8Array): void {
+  readArchive(data, PROJECT_LIMITS);
+}
+
+// The single directory every entry sits in, as when a folder was archived; "" otherwise
+function commonRoot(entries: ArchiveEntry[]): string {
+  const first = entries[0]?.path.split("/")[0] ?? "";
+  const wrapped = entries.every((entry) => entry.path.startsWith(`${first}/`));
+  return wrapped ? first : "";
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+function joinRoot(root: string, name: string): string {
+  return root ? `${root}/${name}` : name;
+}
+
+/**
+ * Converts the source files among `entries` and returns the output tree with
+ * its report. Throws UnsupportedLanguagePairError or UnsupportedOptionError
+ * before converting anything when the target cannot be reached.
+ */
+export function convertProject(
+  entries: ArchiveEntry[],
+  { targetLanguage, targetVersion }: ConvertProjectQuery
+): { files: ArchiveEntry[]; report: ProjectReport } {
+  const options = targetVersion ? { targetVersion } : {};
+  const settings = resolveOptions(targetLanguage, options);
+  const backEnd = converterRegistry.backEnd(targetLanguage);
+
+  const decoder = new TextDecoder("utf-8", { fatal: true });
+  const encoder = new TextEncoder();
+  const sources = entries.filter((entry) => {
+    const language = sourceLanguageOf(entry.path);
+    return language !== undefined && language !== targetLanguage;
+  });
+  if (sources.length === 0) {
+    throw new ArchiveError(`The archive has no JavaScript or Python files to convert to ${targetLanguage}`);
+  }
+
+  const frontEnds = new Map<SourceLanguage, FrontEnd>();
+  for (const entry of sources) {
+    const language = sourceLanguageOf(entry.path)!;
+    if (frontEnds.has(language)) continue;
+    const frontEnd = converterRegistry.frontEnd(language);
+    if (!frontEnd || !backEnd) throw new UnsupportedLanguagePairError(language, targetLanguage);
+    frontEnds.set(language, frontEnd);
+  }
+
+  const files: ArchiveEntry[] = [];
+  const reports: ProjectFileReport[] = [];
+  // Output paths already taken; copied files keep theirs, so they claim first
+  const claimed = new Set(entries.filter((entry) => !sources.includes(entry)).map((entry) => entry.path));
+  const copy = (entry: ArchiveEntry, report: Omit<ProjectFileReport, "path" | "outputPath" | "diagnostics">) => {
+    files.push(entry);
+    reports.push({ path: entry.path, outputPath: entry.path, diagnostics: [], ...report });
+  };
+
+  for (const entry of entries) {
+    if (!sources.includes(entry)) copy(entry, { status: "copied" });
+  }
+
+  // Every module is parsed before any is emitted, so the module graph can link their imports
+  const modules = new Map<string, ir.Module>();
+  const texts = new Map<string, string>();
+  const outputPaths = new Map<string, string>();
+  for (const entry of sources) {
+    const language = sourceLanguageOf(entry.path)!;
+    let text: string;
+    try {
+      text = decoder.decode(entry.data);
+    } catch {
+      copy(entry, { status: "failed", sourceLanguage: language, error: "The file is not valid UTF-8" });
+      continue;
+    }
+    const outputPath = outputPathOf(entry.path, targetLanguage);
+    if (claimed.has(outputPath)) {
+      copy(entry, { status: "failed", sourceLanguage: language, error: `Its converted file would overwrite ${outputPath}` });
+      continue;
+    }
+    try {
+      modules.set(entry.path, frontEnds.get(language)!.parse(text));
+    } catch (error) {
+      copy(entry, { status: "failed", sourceLanguage: language, error: (error as Error).message });
+      continue;
+    }
+    claimed.add(outputPath);
+    texts.set(entry.path, text);
+    outputPaths.set(entry.path, outputPath);
+  }
+
+  const graphNotes = linkModules(modules);
+  for (const [path, module] of Array.from(modules.entries())) {
+    const language = sourceLanguageOf(path)!;
+    const source = texts.get(path)!;
+    const outputPath = outputPaths.get(path)!;
+    try {
+      const transformed = backEnd!.transform(module, options);
+      const notes = [...(graphNotes.get(path) ?? []), ...transformed.notes];
+      const result = withNotes(backEnd!.emit(transformed.module, options), notes);
+      files.push({ path: outputPath, data: encoder.encode(result.code.endsWith("\n") ? result.code : `${result.code}\n`) });
+      reports.push({
+        path,
+        outputPath,
+        status: "converted",
+        sourceLanguage: language,
+        confidence: confidenceScore(result.diagnostics, source),
+        diagnostics: result.diagnostics,
+      });
+    } catch (error) {
+      claimed.delete(outputPath);
+      copy({ path, data: encoder.encode(source) }, { status: "failed", sourceLanguage: language, error: (error as Error).message });
+    }
+  }
+
+  const root = commonRoot(entries);
+  const converted = reports.filter((report) => report.status === "converted");
+  const addGenerated = (name: string, contents: string) => {
+    const path = claimed.has(name) ? name.replace(/(\.[^.]+)$/, ".converted$1") : name;
+    claimed.add(path);
+    files.push({ path, data: encoder.encode(contents) });
+  };
+
+  if (targetLanguage === "python") {
+    // Relative imports only work inside packages, and climbing out of one needs its parents to be packages too
+    const packages = new Set<string>();
+    for (const report of converted) {
+      for (let directory = dirname(report.outputPath); ; directory = dirname(directory)) {
+        packages.add(directory);
+        if (directory === root || directory === "") break;
+      }
+    }
+    for (const directory of Array.from(packages)) {
+      const init = joinRoot(directory, "__init__.py");
+      if (!claimed.has(init)) addGenerated(init, "");
+    }
+  }
+  if (targetLanguage === "javascript" && !claimed.has(joinRoot(root, "package.json"))) {
+    // ES5 output loads its modules with require()
+    const type = supportsVersion(settings.version, "es2015") ? "module" : "commonjs";
+    addGenerated(joinRoot(root, "package.json"), `${JSON.stringify({ private: true, type }, null, 2)}\n`);
+  }
+
+  reports.sort((a, b) => a.path.localeCompare(b.path));
+  const report: ProjectReport = {
+    targetLanguage,
+    files: reports,
+    converted: converted.length,
+    copied: reports.filter((file) => file.status === "copied").length,
+    failed: reports.filter((file) => file.status === "failed").length,
+  };
+  addGenerated(joinRoot(root, "README.md"), projectReadme(report));
+  addGenerated(joinRoot(root, REPORT_FILE), `${JSON.stringify(report, null, 2)}\n`);
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { files, report };
+}
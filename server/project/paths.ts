@@ -0,0 +1,50 @@
+import { pythonModuleName } from "../converter/modules";
+
+export type SourceLanguage = "javascript" | "python";
+
+// Extensions of the files a project conversion translates; everything else is copied
+const SOURCE_EXTENSIONS: Record<string, SourceLanguage> = {
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".py": "python",
+};
+
+const TARGET_EXTENSIONS: Record<string, string> = {
+  javascript: ".js",
+  python: ".py",
+  swift: ".swift",
+  kotlin: ".kt",
+  go: ".go",
+};
+
+function splitExtension(path: string): { stem: string; extension: string } {
+  const dot = path.lastIndexOf(".");
+  return dot > path.lastIndexOf("/") + 1
+    ? { stem: path.slice(0, dot), extension: path.slice(dot) }
+    : { stem: path, extension: "" };
+}
+
+/** The language of a source file from its extension, if projects convert it. */
+export function sourceLanguageOf(path: string): SourceLanguage | undefined {
+  return SOURCE_EXTENSIONS[splitExtension(path).extension.toLowerCase()];
+}
+
+/**
+ * Where a converted file goes in the output tree. Python targets get
+ * importable names and `__init__.py` for `index.js`; JavaScript targets get
+ * `index.js` for `__init__.py`.
+ */
+export function outputPathOf(path: string, targetLanguage: string): string {
+  const { stem } = splitExtension(path);
+  const extension = TARGET_EXTENSIONS[targetLanguage] ?? `.${targetLanguage}`;
+  const segments = stem.split("/");
+  const base = segments.pop()!;
+
+  if (targetLanguage === "python") {
+    const name = base === "index" ? "__init__" : pythonModuleName(base);
+    return [...segments.map(pythonModuleName), `${name}${extension}`].join("/");
+  }
+  const name = base === "__init__" && targetLanguage === "javascript" ? "index" : base;
+  return [...segments, `${name}${extension}`].join("/");
+}
@@ -0,0 +1,71 @@
+import type { ProjectReport } from "@shared/schema";
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  javascript: "JavaScript",
+  python: "Python",
+  swift: "Swift",
+  kotlin: "Kotlin",
+  go: "Go",
+};
+
+// How to run the converted tree, for targets that need more than compiling the files
+const RUNNING_NOTES: Record<string, string> = {
+  python:
+    "Every directory is a package (it has an `__init__.py`) and files import each other with relative " +
+    "imports, so run entry points as modules from the parent directory, e.g. `python -m project.main`.",
+  javascript:
+    "Files are ES modules importing each other with explicit `.js` extensions (CommonJS modules using " +
+    "`require()` for ES5), and `package.json` sets `\"type\"` so Node.js loads them as such.",
+  swift: "All files belong to one module and see each other's declarations without imports.",
+  kotlin: "All files belong to one package and see each other's declarations without imports.",
+  go: "All files belong to one package and see each other's declarations without imports.",
+};
+
+// Markdown table cells cannot hold pipes or line breaks
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/** The README shipped with a converted project: a summary, how to run it and what to review. */
+export function projectReadme(report: ProjectReport): string {
+  const target = LANGUAGE_NAMES[report.targetLanguage] ?? report.targetLanguage;
+  const lines = [
+    `# Converted to ${target}`,
+    "",
+    `This tree was converted file by file to ${target}. ${report.converted} files were converted, ` +
+      `${report.copied} copied unchanged and ${report.failed} could not be converted and were copied as they were.`,
+    "",
+  ];
+  if (RUNNING_NOTES[report.targetLanguage]) {
+    lines.push("## Running it", "", RUNNING_NOTES[report.targetLanguage], "");
+  }
+
+  lines.push(
+    "## Files",
+    "",
+    "| Source | Converted | Status | Confidence | Diagnostics |",
+    "| --- | --- | --- | --- | --- |",
+    ...report.files.map((file) =>
+      `| ${cell(file.path)} | ${cell(file.outputPath)} | ${file.status} | ` +
+      `${file.confidence === undefined ? "" : `${Math.round(file.confidence * 100)}%`} | ${file.diagnostics.length} |`
+    ),
+    ""
+  );
+
+  const review = report.files.filter((file) => file.error || file.diagnostics.some((diagnostic) => diagnostic.severity !== "info"));
+  if (review.length > 0) {
+    lines.push("## To review", "");
+    for (const file of review) {
+      lines.push(`### ${file.outputPath}`, "");
+      if (file.error) lines.push(`- Not converted: ${file.error}`);
+      for (const diagnostic of file.diagnostics.filter((diagnostic) => diagnostic.severity !== "info")) {
+        const line = diagnostic.sourceRange ? ` (source line ${diagnostic.sourceRange.start.line})` : "";
+        lines.push(`- ${diagnostic.severity}: ${diagnostic.message}${line}`);
+      }
+      lines.push("");
+    }
+  }
+
+  lines.push("Every diagnostic, with its source and target ranges, is listed in `conversion-report.json`.", "");
+  return lines.join("\n");
+}
@@ -1,10 +1,89 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { convertCodeSchema, type ConvertCodeRequest, type ConvertCodeResponse } from "@shared/schema";
+import { requireUser, setupAuth } from "./auth";
+import {
+  convertCodeSchema,
+  convertProjectQuerySchema,
+  convertStreamSchema,
+  CONVERT_STREAM_PATH,
+  listConversionsQuerySchema,
+  MAX_PROJECT_ARCHIVE_BYTES,
+  OPENAPI_PATH,
+  runCodeSchema,
+  verifyConversionSchema,
+  type ConversionPage,
+  type ConvertBatchResponse,
+  type ConvertCodeRequest,
+  type ConvertCodeResponse,
+  type ConvertProjectQuery,
+  type ConvertStreamEvent,
+  type Job,
+} from "@shared/schema";
 import { z } from "zod";
 import fetch from "node-fetch";
-import { convertCodeWithGitHub } from "./github-api";
+import { converterRegistry } from "./converter/converters";
+import { conversionErrorResponse, convertAndSave, saveConversion } from "./conversion";
+import { batchEnvelopeSchema, convertBatch, DEFAULT_BATCH_CONCURRENCY, NDJSON_CONTENT_TYPE } from "./batch";
+import { EVENT_STREAM_CONTENT_TYPE } from "./conversion-stream";
+import { conversionPool } from "./conversion-pool";
+import { runCode, RuntimeUnavailableError, SandboxBusyError } from "./sandbox";
+import { verifyConversion } from "./sandbox/verify";
+import { attachRunSocket } from "./sandbox/socket";
+import { openApiDocument } from "./openapi";
+import {
+  ARCHIVE_CONTENT_TYPES,
+  checkProjectArchive,
+  detectArchiveFormat,
+} from "./project";
+import { jobQueue, toPublicJob } from "./jobs";
+import { METRICS_CONTENT_TYPE, renderMetrics } from "./metrics";
+
+// Route parameter of the conversion history endpoints
+const conversionIdSchema = z.coerce.number().int().positive();
+
+// Whose jobs a request sees: the signed-in user's, or the anonymous ones
+function ownerId(req: Request): number | null {
+  return req.user?.id ?? null;
+}
+
+// Whether the client asked for the streamed, one-JSON-document-per-line response
+function wantsNdjson(req: Request): boolean {
+  return (req.get("Accept") ?? "").split(",").some((type) => type.trim().startsWith(NDJSON_CONTENT_TYPE));
+}
+
+// Writes to a streamed response, waiting while the client is slower than the conversions
+async function write(res: Response, chunk: string): Promise<void> {
+  if (res.write(chunk) || res.destroyed) return;
+  await new Promise<void>((resolve) => {
+    res.once("drain", resolve);
+    res.once("close", resolve);
+  });
+}
+
+// Writes one NDJSON line
+function writeLine(res: Response, value: unknown): Promise<void> {
+  return write(res, `${JSON.stringify(value)}\n`);
+}
+
+// Writes one Server-Sent Event, named after its type
+function writeEvent(res: Response, event: ConvertStreamEvent): Promise<void> {
+  return write(res, `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+// Job ids are random UUIDs
+const jobIdSchema = z.string().uuid();
+
+// Content types POST /api/convert/project and POST /api/jobs read as an archive; the format itself is told from its bytes
+const ARCHIVE_UPLOAD_TYPES = [
+  "application/zip",
+  "application/x-zip-compressed",
+  "application/gzip",
+  "application/x-gzip",
+  "application/x-tar",
+  "application/x-gtar",
+  "application/octet-stream",
+];
 
 // Define constants used for API requests (if needed in the future)
 const apiUrl = "https://api.github.com";
@@ -15,6 +94,8 @@ const headers = {
 };
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+
   // API route for code conversion
   app.post("/api/convert", async (req: Request, res: Response) => {
     try {
@@ -25,8 +106,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const requestId = `request_${Date.now()}`;
       
       try {
-        // Convert code using our GitHub API integration with fallback logic
-        const result = await convertCodeWithGitHub(validatedData);
+        // Convert code using our GitHub API integration with fallback logic, and save it to the history
+        const result = await convertAndSave(validatedData, ownerId(req));
         
         // Log successful conversion
         console.log(`Successfully processed conversion request with ID: ${requestId}`);
@@ -34,11 +115,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Send the response
         res.json(result);
       } catch (conversionError) {
-        console.error("Error in code conversion:", conversionError);
-        res.status(500).json({ 
-          message: "Failed to convert code", 
-          error: (conversionError as Error).message 
-        });
+        const { status, body, headers = {} } = conversionErrorResponse(conversionError);
+        res.status(status).set(headers).json(body);
       }
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -50,403 +128,342 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Enhanced functions for code conversion
-  
-  function convertJavaScriptToSwift(sourceCode: string): string {
-    // Process the code line by line for better handling of indentation and structure
-    const lines = sourceCode.split("\n");
-    const convertedLines: string[] = [];
-    let indentLevel = 0;
-    
-    for (let i = 0; i < lines.length; i++) {
-      let line = lines[i].trim();
-      let convertedLine = line;
-      
-      // Skip empty lines
-      if (line === "") {
-        convertedLines.push("");
-        continue;
+  // API route converting many snippets at once, with per-item results
+  app.post("/api/convert/batch", async (req: Request, res: Response) => {
+    try {
+      const { items, concurrency = DEFAULT_BATCH_CONCURRENCY } = batchEnvelopeSchema.parse(req.body);
+      // Items not started yet are skipped once the client goes away
+      let aborted = false;
+      res.on("close", () => {
+        aborted = !res.writableFinished;
+      });
+      const options = { concurrency, userId: ownerId(req), isCancelled: () => aborted };
+
+      if (wantsNdjson(req)) {
+        // Each item is sent as soon as it finishes, so the lines arrive out of order
+        res.status(200).type(NDJSON_CONTENT_TYPE);
+        res.flushHeaders();
+        await convertBatch(items, { ...options, onResult: (result) => writeLine(res, result) });
+        return res.end();
       }
-      
-      // Handle comments
-      if (line.startsWith("//")) {
-        convertedLines.push("  ".repeat(indentLevel) + line);
-        continue;
+
+      const results = await convertBatch(items, options);
+      const succeeded = results.filter((result) => result.ok).length;
+      console.log(`Processed batch of ${items.length} conversions: ${succeeded} succeeded`);
+      const body: ConvertBatchResponse = { results, succeeded, failed: results.length - succeeded };
+      res.json(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      
-      // Handle function declarations
-      if (line.match(/function\s+(\w+)\s*\((.*?)\)/)) {
-        const match = line.match(/function\s+(\w+)\s*\((.*?)\)(.*)/);
-        if (match) {
-          const functionName = match[1];
-          let params = match[2];
-          
-          // Convert parameters to Swift format
-          params = params.split(",").map(param => {
-            const trimmedParam = param.trim();
-            if (trimmedParam) {
-              return `${trimmedParam}: Any`;
+      console.error("Error in batch conversion:", error);
+      if (res.headersSent) return res.end();
+      res.status(500).json({ message: "Failed to convert batch", error: (error as Error).message });
+    }
+  });
+  
+  // API route converting code one stage at a time, reporting progress as Server-Sent Events
+  app.post(CONVERT_STREAM_PATH, async (req: Request, res: Response) => {
+    // Stages not started yet are skipped once the client goes away
+    const abort = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abort.abort();
+    });
+
+    try {
+      const streamRequest = convertStreamSchema.parse(req.body);
+      const { verify, stdin, ...request } = streamRequest;
+      const result = await conversionPool.run(
+        { kind: "stream", request: streamRequest },
+        {
+          signal: abort.signal,
+          onEvent: (event) => {
+            // The stream opens with the first event, so what fails before it is answered with a plain status
+            if (!res.headersSent) {
+              res.status(200).set({ "Content-Type": EVENT_STREAM_CONTENT_TYPE, "Cache-Control": "no-cache", "X-Accel-Buffering": "no" });
+              res.flushHeaders();
             }
-            return trimmedParam;
-          }).join(", ");
-          
-          // Handle opening brace on same line
-          if (match[3] && match[3].includes("{")) {
-            convertedLine = `func ${functionName}(${params}) {`;
-            indentLevel++;
-          } else {
-            convertedLine = `func ${functionName}(${params})`;
-          }
+            void writeEvent(res, event);
+          },
         }
+      );
+      if (result) {
+        await writeEvent(res, { type: "result", result: await saveConversion(request, result, ownerId(req)) });
       }
-      // Handle opening braces
-      else if (line === "{") {
-        convertedLine = "{";
-        indentLevel++;
-      }
-      // Handle closing braces
-      else if (line === "}") {
-        indentLevel = Math.max(0, indentLevel - 1);
-        convertedLine = "}";
+      res.end();
+    } catch (error) {
+      if (abort.signal.aborted) return;
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      // Handle variable declarations
-      else if (line.match(/^\s*(var|let|const)\s+(\w+)\s*=\s*(.+);?$/)) {
-        const match = line.match(/^\s*(var|let|const)\s+(\w+)\s*=\s*(.+?);?$/);
-        if (match) {
-          const keyword = match[1];
-          const varName = match[2];
-          let value = match[3];
-          
-          // Convert JavaScript array literals to Swift array literals
-          if (value.match(/^\[.*\]$/)) {
-            value = value.replace(/\[([^\]]*)\]/, "[$1]");
-          }
-          
-          // Convert Swift keyword based on JavaScript keyword
-          let swiftKeyword = "var";
-          if (keyword === "const") {
-            swiftKeyword = "let";
-          }
-          
-          convertedLine = `${swiftKeyword} ${varName} = ${value}`;
+      const { status, body, headers = {} } =
+        error instanceof RuntimeUnavailableError
+          ? { status: 422, body: { message: "Language cannot be run", error: error.message, language: error.language } }
+          : conversionErrorResponse(error);
+      if (!res.headersSent) return res.status(status).set(headers).json(body);
+      await writeEvent(res, { type: "failure", status, error: body });
+      res.end();
+    }
+  });
+
+  // The stream takes its source in a POST body; without this a GET would fall through to the client app
+  app.all(CONVERT_STREAM_PATH, (req: Request, res: Response) => {
+    res.status(405).set("Allow", "POST").json({ message: `${req.method} is not supported here; POST the conversion request` });
+  });
+  
+  // API route converting a whole project uploaded as a zip or tarball, answered with the converted archive
+  app.post(
+    "/api/convert/project",
+    express.raw({ type: ARCHIVE_UPLOAD_TYPES, limit: MAX_PROJECT_ARCHIVE_BYTES }),
+    async (req: Request, res: Response) => {
+      try {
+        const query = convertProjectQuerySchema.parse(req.query);
+        if (!Buffer.isBuffer(req.body)) {
+          return res.status(415).json({ message: "Send the archive as the request body, e.g. with Content-Type: application/zip" });
         }
-      }
-      // Handle if statements
-      else if (line.match(/^\s*if\s*\((.*)\).*{?$/)) {
-        const match = line.match(/^\s*if\s*\((.*)\)(.*)/);
-        if (match) {
-          let condition = match[1].trim();
-          
-          // Convert JavaScript equality operators to Swift
-          condition = condition.replace(/===?/g, "==").replace(/!==?/g, "!=");
-          
-          // Handle opening brace on same line
-          if (match[2] && match[2].includes("{")) {
-            convertedLine = `if ${condition} {`;
-            indentLevel++;
-          } else {
-            convertedLine = `if ${condition}`;
-          }
+        if (req.body.length === 0) {
+          return res.status(400).json({ message: "Send the archive as the request body, e.g. with Content-Type: application/zip" });
         }
+
+        const { format, archive, report } = await conversionPool.run({ kind: "project", data: req.body, query });
+        console.log(`Converted project to ${query.targetLanguage}: ${report.converted} converted, ${report.failed} failed`);
+        res
+          .status(200)
+          .type(ARCHIVE_CONTENT_TYPES[format])
+          .attachment(`project-${query.targetLanguage}.${format}`)
+          .send(Buffer.from(archive));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Validation error", errors: error.errors });
+        }
+        const { status, body, headers = {} } = conversionErrorResponse(error);
+        res.status(status).set(headers).json(body);
       }
-      // Handle for loops
-      else if (line.match(/^\s*for\s*\(/)) {
-        const forLoopMatch = line.match(/for\s*\(\s*(let|var|const)?\s*(\w+)\s*=\s*([^;]+);\s*\2\s*(<|<=|>|>=)\s*([^;]+);\s*\2(\+\+|\-\-|.=.*)\)/);
-        if (forLoopMatch) {
-          const varName = forLoopMatch[2];
-          const startVal = forLoopMatch[3];
-          const operator = forLoopMatch[4];
-          const endVal = forLoopMatch[5];
-          
-          if (operator === "<") {
-            convertedLine = `for ${varName} in ${startVal}..<${endVal} {`;
-          } else if (operator === "<=") {
-            convertedLine = `for ${varName} in ${startVal}...${endVal} {`;
-          } else {
-            // For other cases, keep the JavaScript-like format but with Swift syntax
-            convertedLine = `// Note: This for loop might need manual adjustment
-for ${varName} in ${startVal}..<${endVal} { // Original condition was ${varName} ${operator} ${endVal}`;
+    }
+  );
+
+  // API route queueing a conversion to run in the background: a JSON body is converted as
+  // POST /api/convert would, an archive as POST /api/convert/project would
+  app.post(
+    "/api/jobs",
+    express.raw({ type: ARCHIVE_UPLOAD_TYPES, limit: MAX_PROJECT_ARCHIVE_BYTES }),
+    async (req: Request, res: Response) => {
+      try {
+        let job: Job;
+        if (req.is(ARCHIVE_UPLOAD_TYPES)) {
+          const query = convertProjectQuerySchema.parse(req.query);
+          if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+            return res.status(400).json({ message: "Send the archive as the request body, e.g. with Content-Type: application/zip" });
           }
-          indentLevel++;
+          // A damaged or oversized archive is refused now rather than failing the job later
+          checkProjectArchive(req.body);
+          job = await jobQueue.enqueue({
+            kind: "project",
+            input: query,
+            inputArchive: req.body.toString("base64"),
+            userId: ownerId(req),
+          });
         } else {
-          // Handle other for loop formats
-          convertedLine = `// MANUAL CONVERSION NEEDED: ${line}`;
+          const request = convertCodeSchema.parse(req.body);
+          job = await jobQueue.enqueue({ kind: "convert", input: request, userId: ownerId(req) });
         }
-      }
-      // Handle console.log
-      else if (line.match(/console\.log\(/)) {
-        convertedLine = line.replace(/console\.log\((.*)\);?/, "print($1)");
-      }
-      // Handle return statements
-      else if (line.match(/^\s*return\s+/)) {
-        const match = line.match(/return\s+(.+?);?$/);
-        if (match) {
-          convertedLine = `return ${match[1]}`;
+        res.status(202).location(`/api/jobs/${job.id}`).json(toPublicJob(job));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Validation error", errors: error.errors });
         }
+        const { status, body, headers = {} } = conversionErrorResponse(error);
+        res.status(status).set(headers).json(body);
       }
-      
-      // Add the proper indentation
-      convertedLines.push("  ".repeat(indentLevel) + convertedLine);
     }
-    
-    return convertedLines.join("\n");
-  }
-  
-  function convertJavaScriptToPython(sourceCode: string): string {
-    // Process the code line by line for better handling of indentation and structure
-    const lines = sourceCode.split("\n");
-    const convertedLines: string[] = [];
-    let indentLevel = 0;
-    let inFunction = false;
-    
-    for (let i = 0; i < lines.length; i++) {
-      let line = lines[i].trim();
-      let convertedLine = line;
-      let newIndentLevel = indentLevel;
-      
-      // Skip empty lines
-      if (line === "") {
-        convertedLines.push("");
-        continue;
-      }
-      
-      // Handle comments
-      if (line.startsWith("//")) {
-        convertedLines.push("    ".repeat(indentLevel) + "# " + line.substring(2));
-        continue;
-      }
-      
-      // Handle function declarations
-      if (line.match(/function\s+(\w+)\s*\((.*?)\)/)) {
-        const match = line.match(/function\s+(\w+)\s*\((.*?)\)(.*)/);
-        if (match) {
-          const functionName = match[1];
-          const params = match[2];
-          
-          inFunction = true;
-          convertedLine = `def ${functionName}(${params}):`;
-          newIndentLevel++;
-        }
+  );
+
+  app.get("/api/jobs/:id", async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getJob(jobIdSchema.parse(req.params.id));
+      if (!job || job.userId !== ownerId(req)) {
+        return res.status(404).json({ message: "Job not found" });
       }
-      // Handle opening braces (increase indent for next line)
-      else if (line === "{") {
-        // In Python, we just increase indentation without the brace
-        convertedLine = "";
-        newIndentLevel++;
+      res.json(toPublicJob(job));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(404).json({ message: "Job not found" });
       }
-      // Handle closing braces (decrease indent)
-      else if (line === "}") {
-        // In Python, we just decrease indentation without the brace
-        inFunction = false;
-        convertedLine = "";
-        newIndentLevel = Math.max(0, newIndentLevel - 1);
+      console.error("Error loading job:", error);
+      res.status(500).json({ message: "Failed to load job", error: (error as Error).message });
+    }
+  });
+
+  // API route cancelling a job that has not finished
+  app.delete("/api/jobs/:id", async (req: Request, res: Response) => {
+    try {
+      const id = jobIdSchema.parse(req.params.id);
+      const job = await storage.getJob(id);
+      if (!job || job.userId !== ownerId(req)) {
+        return res.status(404).json({ message: "Job not found" });
       }
-      // Handle variable declarations
-      else if (line.match(/^\s*(var|let|const)\s+(\w+)\s*=\s*(.+);?$/)) {
-        const match = line.match(/^\s*(var|let|const)\s+(\w+)\s*=\s*(.+?);?$/);
-        if (match) {
-          const varName = match[2];
-          let value = match[3];
-          
-          // Convert variable declarations to Python (no keywords needed)
-          convertedLine = `${varName} = ${value}`;
-          
-          // Remove semicolons
-          convertedLine = convertedLine.replace(/;$/, "");
-        }
+      const cancelled = await jobQueue.cancel(id);
+      if (!cancelled) {
+        const finished = (await storage.getJob(id)) ?? job;
+        return res.status(409).json({ message: `Job has already ${finished.status}`, status: finished.status });
       }
-      // Handle if statements
-      else if (line.match(/^\s*if\s*\((.*)\).*{?$/)) {
-        const match = line.match(/^\s*if\s*\((.*)\)(.*)/);
-        if (match) {
-          let condition = match[1].trim();
-          
-          // Convert JavaScript equality operators to Python
-          condition = condition.replace(/===?/g, "==").replace(/!==?/g, "!=");
-          
-          convertedLine = `if ${condition}:`;
-          newIndentLevel++;
-        }
+      res.json(toPublicJob(cancelled));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(404).json({ message: "Job not found" });
       }
-      // Handle for loops
-      else if (line.match(/^\s*for\s*\(/)) {
-        const forLoopMatch = line.match(/for\s*\(\s*(let|var|const)?\s*(\w+)\s*=\s*([^;]+);\s*\2\s*(<|<=|>|>=)\s*([^;]+);\s*\2(\+\+|\-\-|.=.*)\)/);
-        if (forLoopMatch) {
-          const varName = forLoopMatch[2];
-          const startVal = forLoopMatch[3];
-          const endVal = forLoopMatch[5];
-          
-          // Simple for loop conversion to Python's range
-          convertedLine = `for ${varName} in range(${startVal}, ${endVal}):`;
-          newIndentLevel++;
-        } else {
-          // Handle other for loop formats
-          convertedLine = `# MANUAL CONVERSION NEEDED: ${line}`;
-        }
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ message: "Failed to cancel job", error: (error as Error).message });
+    }
+  });
+
+  // API route downloading the converted archive of a succeeded project job
+  app.get("/api/jobs/:id/archive", async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getJob(jobIdSchema.parse(req.params.id));
+      if (!job || job.userId !== ownerId(req) || !job.outputArchive) {
+        return res.status(404).json({ message: "Converted archive not found" });
       }
-      // Handle console.log
-      else if (line.match(/console\.log\(/)) {
-        convertedLine = line.replace(/console\.log\((.*)\);?/, "print($1)");
+      const archive = Buffer.from(job.outputArchive, "base64");
+      const format = detectArchiveFormat(archive);
+      const { targetLanguage } = job.input as ConvertProjectQuery;
+      res
+        .status(200)
+        .type(ARCHIVE_CONTENT_TYPES[format])
+        .attachment(`project-${targetLanguage}.${format}`)
+        .send(archive);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(404).json({ message: "Converted archive not found" });
       }
-      // Handle return statements
-      else if (line.match(/^\s*return\s+/)) {
-        const match = line.match(/return\s+(.+?);?$/);
-        if (match) {
-          convertedLine = `return ${match[1]}`;
-        }
+      console.error("Error loading job archive:", error);
+      res.status(500).json({ message: "Failed to load archive", error: (error as Error).message });
+    }
+  });
+
+  // API route listing the caller's saved conversions, newest first
+  app.get("/api/conversions", requireUser, async (req: Request, res: Response) => {
+    try {
+      const { page, pageSize, ...filter } = listConversionsQuerySchema.parse(req.query);
+      const { conversions, total } = await storage.listCodeConversions(
+        { ...filter, userId: ownerId(req) },
+        (page - 1) * pageSize,
+        pageSize
+      );
+      const body: ConversionPage = { conversions, total, page, pageSize };
+      res.json(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      // Remove semicolons from all other lines
-      else {
-        convertedLine = line.replace(/;$/, "");
+      console.error("Error listing conversions:", error);
+      res.status(500).json({ message: "Failed to list conversions", error: (error as Error).message });
+    }
+  });
+  
+  app.get("/api/conversions/:id", requireUser, async (req: Request, res: Response) => {
+    try {
+      const conversion = await storage.getCodeConversion(conversionIdSchema.parse(req.params.id));
+      if (!conversion || conversion.userId !== ownerId(req)) {
+        return res.status(404).json({ message: "Conversion not found" });
       }
-      
-      // Add the proper indentation
-      if (convertedLine !== "") {
-        convertedLines.push("    ".repeat(indentLevel) + convertedLine);
+      res.json(conversion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      
-      indentLevel = newIndentLevel;
+      console.error("Error loading conversion:", error);
+      res.status(500).json({ message: "Failed to load conversion", error: (error as Error).message });
     }
-    
-    return convertedLines.join("\n");
-  }
+  });
   
-  function convertPythonToJavaScript(sourceCode: string): string {
-    // Process the code line by line
-    const lines = sourceCode.split("\n");
-    const convertedLines: string[] = [];
-    let indentStack: number[] = [0]; // Stack to track indentation levels
-    let currentIndent = 0;
-    
-    for (let i = 0; i < lines.length; i++) {
-      let line = lines[i];
-      let initialSpaces = line.search(/\S|$/);
-      let trimmedLine = line.trim();
-      let convertedLine = trimmedLine;
-      
-      // Skip empty lines
-      if (trimmedLine === "") {
-        convertedLines.push("");
-        continue;
-      }
-      
-      // Handle comments
-      if (trimmedLine.startsWith("#")) {
-        convertedLines.push("  ".repeat(indentStack.length - 1) + "// " + trimmedLine.substring(1));
-        continue;
+  app.delete("/api/conversions/:id", requireUser, async (req: Request, res: Response) => {
+    try {
+      const id = conversionIdSchema.parse(req.params.id);
+      const conversion = await storage.getCodeConversion(id);
+      const deleted = conversion?.userId === ownerId(req) && await storage.deleteCodeConversion(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Conversion not found" });
       }
-      
-      // Check for decrease in indentation
-      if (initialSpaces < currentIndent) {
-        // Pop indentation levels that are deeper than the current line
-        while (indentStack.length > 1 && indentStack[indentStack.length - 1] > initialSpaces) {
-          indentStack.pop();
-          // Add closing braces for each unindent
-          convertedLines.push("  ".repeat(indentStack.length - 1) + "}");
-        }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      
-      currentIndent = initialSpaces;
-      
-      // Check for new indent level
-      if (initialSpaces > indentStack[indentStack.length - 1]) {
-        indentStack.push(initialSpaces);
+      console.error("Error deleting conversion:", error);
+      res.status(500).json({ message: "Failed to delete conversion", error: (error as Error).message });
+    }
+  });
+  
+  // API route running a program in the sandbox and returning its output
+  app.post("/api/run", async (req: Request, res: Response) => {
+    try {
+      const request = runCodeSchema.parse(req.body);
+      res.json(await runCode(request));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      
-      // Handle function definitions
-      if (trimmedLine.match(/^def\s+(\w+)\s*\((.*?)\):/)) {
-        const match = trimmedLine.match(/^def\s+(\w+)\s*\((.*?)\):/);
-        if (match) {
-          const functionName = match[1];
-          const params = match[2];
-          
-          convertedLine = `function ${functionName}(${params}) {`;
-        }
+      if (error instanceof RuntimeUnavailableError) {
+        return res.status(422).json({ message: "Language cannot be run", error: error.message, language: error.language });
       }
-      // Handle if statements
-      else if (trimmedLine.match(/^if\s+(.+):/)) {
-        const match = trimmedLine.match(/^if\s+(.+):/);
-        if (match) {
-          let condition = match[1].trim();
-          
-          // Convert Python equality operators to JavaScript if needed
-          convertedLine = `if (${condition}) {`;
-        }
+      if (error instanceof SandboxBusyError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(503).json({ message: "Server busy", error: error.message });
       }
-      // Handle for loops
-      else if (trimmedLine.match(/^for\s+(\w+)\s+in\s+(.+):/)) {
-        const match = trimmedLine.match(/^for\s+(\w+)\s+in\s+(.+):/);
-        if (match) {
-          const varName = match[1];
-          const iterable = match[2];
-          
-          if (iterable.match(/range\((.+)\)/)) {
-            // Handle range-based loops
-            const rangeMatch = iterable.match(/range\((.+)\)/);
-            if (rangeMatch) {
-              const rangeArgs = rangeMatch[1].split(",").map(arg => arg.trim());
-              
-              if (rangeArgs.length === 1) {
-                // range(end)
-                convertedLine = `for (let ${varName} = 0; ${varName} < ${rangeArgs[0]}; ${varName}++) {`;
-              } else if (rangeArgs.length === 2) {
-                // range(start, end)
-                convertedLine = `for (let ${varName} = ${rangeArgs[0]}; ${varName} < ${rangeArgs[1]}; ${varName}++) {`;
-              } else if (rangeArgs.length === 3) {
-                // range(start, end, step)
-                convertedLine = `for (let ${varName} = ${rangeArgs[0]}; ${varName} < ${rangeArgs[1]}; ${varName} += ${rangeArgs[2]}) {`;
-              }
-            }
-          } else {
-            // General iterable
-            convertedLine = `for (let ${varName} of ${iterable}) {`;
-          }
-        }
+      console.error("Error running code:", error);
+      res.status(500).json({ message: "Failed to run code", error: (error as Error).message });
+    }
+  });
+
+  // API route running a conversion's source and target with the same input and comparing what they print
+  app.post("/api/verify", async (req: Request, res: Response) => {
+    try {
+      const { conversionId, ...request } = verifyConversionSchema.parse(req.body);
+      // The report is saved on a conversion of the caller's history, so it has to describe that conversion's code
+      const conversion = conversionId === undefined ? undefined : await storage.getCodeConversion(conversionId);
+      if (conversionId !== undefined && (!conversion || conversion.userId === null || conversion.userId !== ownerId(req))) {
+        return res.status(404).json({ message: "Conversion not found" });
       }
-      // Handle print statements
-      else if (trimmedLine.match(/^print\s*\((.*)\)/)) {
-        const match = trimmedLine.match(/^print\s*\((.*)\)/);
-        if (match) {
-          const content = match[1];
-          convertedLine = `console.log(${content});`;
-        }
+      if (conversion && (conversion.sourceCode !== request.sourceCode || conversion.targetCode !== request.targetCode)) {
+        return res.status(409).json({ message: "The code sent is not the code of the saved conversion" });
       }
-      // Handle variable assignments
-      else if (trimmedLine.match(/^(\w+)\s*=\s*(.+)/)) {
-        const match = trimmedLine.match(/^(\w+)\s*=\s*(.+)/);
-        if (match) {
-          const varName = match[1];
-          const value = match[2];
-          
-          // Use let for variable declarations
-          convertedLine = `let ${varName} = ${value};`;
-        }
+
+      const report = await verifyConversion(request);
+      if (conversion) await storage.updateCodeConversion(conversion.id, { verification: report });
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      // Handle return statements
-      else if (trimmedLine.match(/^return\s+(.+)/)) {
-        const match = trimmedLine.match(/^return\s+(.+)/);
-        if (match) {
-          const value = match[1];
-          convertedLine = `return ${value};`;
-        }
+      if (error instanceof RuntimeUnavailableError) {
+        return res.status(422).json({ message: "Language cannot be run", error: error.message, language: error.language });
       }
-      // Add semicolons to statements
-      else if (!trimmedLine.endsWith(":") && !trimmedLine.endsWith("{") && !trimmedLine.endsWith("}")) {
-        convertedLine = trimmedLine + ";";
+      if (error instanceof SandboxBusyError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(503).json({ message: "Server busy", error: error.message });
       }
-      
-      // Add the proper indentation
-      convertedLines.push("  ".repeat(indentStack.length - 1) + convertedLine);
+      console.error("Error verifying conversion:", error);
+      res.status(500).json({ message: "Failed to verify conversion", error: (error as Error).message });
     }
-    
-    // Close any remaining indent levels
-    while (indentStack.length > 1) {
-      indentStack.pop();
-      convertedLines.push("  ".repeat(indentStack.length - 1) + "}");
-    }
-    
-    return convertedLines.join("\n");
-  }
+  });
+  
+  // API route listing the registered converters and what each one supports
+  app.get("/api/converters", (_req: Request, res: Response) => {
+    res.json(converterRegistry.list());
+  });
+
+  // Gauges and counters of the conversion pool and the job queue, for Prometheus to scrape
+  app.get("/api/metrics", (_req: Request, res: Response) => {
+    res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+  });
+
+  // OpenAPI description of the REST API, rendered by the /docs page
+  app.get(OPENAPI_PATH, (_req: Request, res: Response) => {
+    res.json(openApiDocument());
+  });
+  
+  // Enhanced functions for code conversion
   
   function generateDetailedStepByStep(
     sourceCode: string,
@@ -1120,6 +1137,7 @@ ${generateErrorHandlingInfo(targetCode, toLang)}
 
   // Create HTTP server
   const httpServer = createServer(app);
+  attachRunSocket(httpServer);
 
   return httpServer;
 }
@@ -0,0 +1,24 @@
+/**
+ * Thrown when the server cannot run code in the requested language, e.g.
+ * because no interpreter is installed. The route layer reports it as a 422.
+ */
+export class RuntimeUnavailableError extends Error {
+  constructor(
+    public readonly language: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "RuntimeUnavailableError";
+  }
+}
+
+/**
+ * Thrown when as many programs are running as the server allows. The route
+ * layer reports it as a 503 with Retry-After.
+ */
+export class SandboxBusyError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super("Too many programs are running; try again shortly");
+    this.name = "SandboxBusyError";
+  }
+}
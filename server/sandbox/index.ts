@@ -0,0 +1,84 @@
+import type { RunCodeRequest, RunResult } from "@shared/schema";
+import { RUN_LIMITS, type RunLimits } from "./limits";
+import { runSlots } from "./slots";
+import { startSubprocess } from "./subprocess";
+import type { OutputListener } from "./output";
+import type { RunningProgram } from "./program";
+
+export { RuntimeUnavailableError, SandboxBusyError } from "./errors";
+export { runSlots, type RunSlotStats } from "./slots";
+export { RUN_LIMITS, SESSION_LIMITS, type RunLimits } from "./limits";
+export type { OutputListener, OutputStream } from "./output";
+export type { RunningProgram } from "./program";
+
+/**
+ * Starts a program under `limits` with stdin left open. Output is passed to
+ * `onOutput` as it is produced and collected into the result as well.
+ * RuntimeUnavailableError means the language cannot be run here at all, and
+ * SandboxBusyError that too many programs are running already.
+ */
+export async function startProgram(
+  request: Omit<RunCodeRequest, "stdin">,
+  limits: RunLimits,
+  onOutput?: OutputListener
+): Promise<RunningProgram> {
+  const release = runSlots.acquire();
+  try {
+    const program = await launch(request, limits, onOutput);
+    void program.result.then(release, release);
+    return program;
+  } catch (error) {
+    release();
+    throw error;
+  }
+}
+
+function launch(request: Omit<RunCodeRequest, "stdin">, limits: RunLimits, onOutput?: OutputListener): Promise<RunningProgram> {
+  const { code, language, args = [] } = request;
+  switch (language) {
+    case "javascript":
+      return startSubprocess("javascript", code, args, limits, onOutput);
+    case "typescript":
+      return startTypeScript(code, args, limits, onOutput);
+    case "python":
+    case "bash":
+      return startSubprocess(language, code, args, limits, onOutput);
+  }
+}
+
+// TypeScript is run as JavaScript with its types removed; it is not type-checked
+async function startTypeScript(code: string, args: string[], limits: RunLimits, onOutput?: OutputListener): Promise<RunningProgram> {
+  const compiled = await stripTypes(code);
+  if ("error" in compiled) {
+    onOutput?.("stderr", compiled.error);
+    return finished({ stdout: "", stderr: compiled.error, exitCode: 1, durationMs: 0 });
+  }
+  return startSubprocess("javascript", compiled.code, args, limits, onOutput);
+}
+
+/**
+ * Runs a program under `limits` with all of its stdin up front and reports
+ * its output. Failures of the program itself (syntax errors, exceptions,
+ * limits) are part of the result.
+ */
+export async function runCode(request: RunCodeRequest, limits: RunLimits = RUN_LIMITS): Promise<RunResult> {
+  const program = await startProgram(request, limits);
+  if (request.stdin) program.write(request.stdin);
+  program.end();
+  return program.result;
+}
+
+// A program that never got to start, e.g. because it did not compile
+function finished(result: RunResult): RunningProgram {
+  return { result: Promise.resolve(result), write() {}, end() {}, stop() {} };
+}
+
+async function stripTypes(code: string): Promise<{ code: string } | { error: string }> {
+  const { transform } = await import("esbuild");
+  try {
+    const result = await transform(code, { loader: "ts", sourcefile: "main.ts" });
+    return { code: result.code };
+  } catch (error) {
+    return { error: `${(error as Error).message}\n` };
+  }
+}
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { createServer, type AddressInfo, type Server } from "net";
+import { after, before, describe, it } from "node:test";
+import { RUN_LIMITS, runCode, type RunLimits } from "./index";
+import { isJailAvailable } from "./jail";
+import { SandboxBusyError } from "./errors";
+import { RunSlots } from "./slots";
+
+// Programs only run where they can be jailed: Linux with unshare and root or user namespaces
+const skip = !isJailAvailable() && "programs cannot be jailed here";
+
+const limits = (changes: Partial<RunLimits>): RunLimits => ({ ...RUN_LIMITS, ...changes });
+
+describe("sandbox jail", { skip }, () => {
+  let listener: Server;
+  let port: number;
+
+  before(async () => {
+    listener = createServer((socket) => socket.end("reached"));
+    await new Promise<void>((resolve) => listener.listen(0, "127.0.0.1", resolve));
+    port = (listener.address() as AddressInfo).port;
+  });
+
+  after(() => listener.close());
+
+  it("has no network, not even the host's loopback", async () => {
+    const { stdout } = await runCode({
+      language: "python",
+      code: `import socket\ntry:\n    socket.create_connection(("127.0.0.1", ${port}), timeout=2)\n    print("connected")\nexcept OSError:\n    print("refused")\n`,
+    });
+    assert.equal(stdout, "refused\n");
+  });
+
+  it("sees none of the host's files", async () => {
+    const { stdout } = await runCode({
+      language: "bash",
+      code: 'for path in "$1" /root /etc/passwd /home; do [ -e "$path" ] && echo "$path"; done; echo done',
+      args: [import.meta.filename],
+    });
+    assert.equal(stdout, "done\n");
+  });
+
+  it("may write to /tmp only", async () => {
+    const { stdout } = await runCode({
+      language: "bash",
+      code: "for dir in /sandbox /usr /tmp; do touch $dir/file 2>/dev/null && echo $dir; done",
+    });
+    assert.equal(stdout, "/tmp\n");
+  });
+
+  it("gets none of the server's environment and cannot signal its processes", async () => {
+    process.env.SANDBOX_TEST_SECRET = "secret";
+    try {
+      const { stdout } = await runCode({
+        language: "bash",
+        code: 'env | grep -c SANDBOX_TEST_SECRET; kill -0 "$1" 2>/dev/null && echo signalled; echo done',
+        args: [String(process.pid)],
+      });
+      assert.equal(stdout, "0\ndone\n");
+    } finally {
+      delete process.env.SANDBOX_TEST_SECRET;
+    }
+  });
+});
+
+describe("sandbox limits", { skip }, () => {
+  it("stops a program at the wall-clock limit", async () => {
+    const result = await runCode({ language: "bash", code: "sleep 5" }, limits({ wallClockMs: 500 }));
+    assert.equal(result.limit, "wall-clock");
+    assert.equal(result.exitCode, null);
+  });
+
+  it("stops a program at the CPU limit", async () => {
+    const result = await runCode({ language: "python", code: "while True:\n    pass\n" }, limits({ cpuMs: 1_000 }));
+    assert.equal(result.limit, "cpu");
+  });
+
+  it("stops a JavaScript program that fills its heap", async () => {
+    const result = await runCode(
+      { language: "javascript", code: "const rows = [];\nwhile (true) rows.push(new Array(1e6).fill(rows.length));\n" },
+      limits({ memoryMb: 64 })
+    );
+    assert.equal(result.limit, "memory");
+  });
+
+  it("refuses Python more memory than the limit", async () => {
+    const result = await runCode({ language: "python", code: "data = bytearray(256 * 1024 * 1024)\n" }, limits({ memoryMb: 64 }));
+    assert.equal(result.exitCode, 1);
+    assert.match(result.stderr, /MemoryError/);
+  });
+
+  it("stops a program once its output is over budget, keeping what fit", async () => {
+    const result = await runCode({ language: "bash", code: "yes" }, limits({ outputBytes: 1_000 }));
+    assert.equal(result.limit, "output");
+    assert.equal(result.stdout.length, 1_000);
+  });
+});
+
+describe("RunSlots", () => {
+  it("refuses a run over the limit until a slot is freed", () => {
+    const slots = new RunSlots(1);
+    const release = slots.acquire();
+    assert.throws(() => slots.acquire(), SandboxBusyError);
+    release();
+    release();
+    slots.acquire();
+    assert.deepEqual(slots.stats(), { limit: 1, running: 1, rejected: 1 });
+  });
+});
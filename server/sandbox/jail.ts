@@ -0,0 +1,166 @@
+import { spawn, spawnSync, type ChildProcessWithoutNullStreams } from "child_process";
+import { mkdir, mkdtemp, rm } from "fs/promises";
+import { mkdirSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+// Host paths every jail sees read-only: programs, shared libraries and the loader's cache
+const SYSTEM_PATHS = ["/usr", "/bin", "/sbin", "/lib", "/lib32", "/lib64", "/etc/alternatives", "/etc/ld.so.cache"];
+
+// The uid and gid a jailed program runs as when the server runs as root
+const NOBODY = "65534";
+
+// Runs as root of fresh mount, network, pid, IPC and UTS namespaces. Builds a
+// root of tmpfs holding read-only binds of the system paths and the extra ones
+// (newline-separated), the program's directory at /sandbox and an empty /tmp,
+// then enters it without privileges, applies the CPU, memory and file-size
+// limits and runs the command. The program is not exec'd, so its death by a
+// signal comes out as the exit status 128 + signal. It runs in the background
+// with stdin handed over, so the shell's report of that death goes to
+// /dev/null rather than the program's stderr.
+const JAIL_SCRIPT = `
+set -e
+root=$1 program=$2 binds=$3 drop=$4 cpu=$5 memory=$6 files=$7
+shift 7
+mount --make-rprivate /
+mount -t tmpfs -o size=1m,mode=755 jail "$root"
+IFS='
+'
+for source in $binds; do
+  [ -e "$source" ] || continue
+  if [ -d "$source" ]; then
+    mkdir -p "$root$source"
+  else
+    mkdir -p "$root\${source%/*}"
+    touch "$root$source"
+  fi
+  mount --rbind "$source" "$root$source"
+  mount -o remount,bind,ro "$root$source"
+done
+unset IFS
+mkdir "$root/sandbox" "$root/tmp" "$root/dev" "$root/proc"
+chmod -R a+rX "$program"
+mount --bind "$program" "$root/sandbox"
+mount -o remount,bind,ro "$root/sandbox"
+mount -t tmpfs -o size=16m,nosuid,nodev jail "$root/tmp"
+for device in null zero random urandom; do
+  touch "$root/dev/$device"
+  mount --bind "/dev/$device" "$root/dev/$device"
+done
+mount -t proc proc "$root/proc"
+mount -o remount,bind,ro "$root"
+exec chroot "$root" /usr/bin/setpriv $drop --no-new-privs --bounding-set=-all --inh-caps=-all -- /bin/sh -c '
+  cd /sandbox && ulimit -t "$1" && ulimit -v "$2" && ulimit -f "$3" || exit 125
+  shift 3
+  exec 3>&2 2>/dev/null 4<&0
+  "$@" <&4 2>&3 3>&- 4<&- &
+  wait $!
+' jail "$cpu" "$memory" "$files" "$@"
+`;
+
+// The same user the program runs as may not see or signal other runs, so each gets its own pid namespace
+const NAMESPACES = ["--mount", "--net", "--pid", "--ipc", "--uts", "--fork", "--kill-child"];
+
+function isRoot(): boolean {
+  return process.getuid?.() === 0;
+}
+
+/** Limits the jail applies with ulimit, in the units ulimit takes. */
+export interface JailLimits {
+  cpuSeconds: number;
+  memoryKb: number;
+  fileKb: number;
+}
+
+// The directory a jailed program is given, and the empty one its jail is built on
+export interface JailDirectory {
+  path: string;
+  program: string;
+  root: string;
+}
+
+export async function createJailDirectory(): Promise<JailDirectory> {
+  const directory = await mkdtemp(path.join(tmpdir(), "run-"));
+  const program = path.join(directory, "program");
+  const root = path.join(directory, "root");
+  await mkdir(program);
+  await mkdir(root);
+  return { path: directory, program, root };
+}
+
+export function removeJailDirectory(directory: JailDirectory): Promise<void> {
+  return rm(directory.path, { recursive: true, force: true });
+}
+
+// Arguments of unshare that run `command` in a jail over `directory`
+function jailArgs(directory: JailDirectory, command: string[], binds: string[], limits: JailLimits): string[] {
+  const root = isRoot();
+  // Root jails the program as nobody; anyone else maps itself to root of a new
+  // user namespace to build the jail, and the program keeps that uid with every
+  // capability dropped
+  const namespaces = root ? NAMESPACES : ["--user", "--map-root-user", ...NAMESPACES];
+  const drop = root ? `--reuid=${NOBODY} --regid=${NOBODY} --clear-groups` : "";
+  return [
+    ...namespaces,
+    "/bin/sh",
+    "-c",
+    JAIL_SCRIPT,
+    "jail",
+    directory.root,
+    directory.program,
+    [...SYSTEM_PATHS, ...binds].join("\n"),
+    drop,
+    String(limits.cpuSeconds),
+    String(limits.memoryKb),
+    String(limits.fileKb),
+    ...command,
+  ];
+}
+
+// Only what a program needs to find its tools; nothing of the server's environment
+const JAIL_ENV = { PATH: "/usr/local/bin:/usr/bin:/bin:/usr/sbin:/sbin", HOME: "/tmp", LANG: "C.UTF-8" };
+
+/**
+ * Starts `command` in a jail over `directory`: it sees the system paths and
+ * `binds` read-only, its own files at /sandbox (also its working directory)
+ * and nothing else of the host, and has no network. It runs in its own
+ * process group, so killing the group kills everything it started.
+ */
+export function spawnJailed(
+  directory: JailDirectory,
+  command: string[],
+  binds: string[],
+  limits: JailLimits
+): ChildProcessWithoutNullStreams {
+  return spawn("unshare", jailArgs(directory, command, binds, limits), { env: JAIL_ENV, detached: true });
+}
+
+let jailAvailable: boolean | undefined;
+
+/**
+ * Whether programs can be jailed here at all: needs Linux, util-linux's
+ * unshare and setpriv, and either root or unprivileged user namespaces.
+ * Checked once per process by jailing a shell that looks around.
+ */
+export function isJailAvailable(): boolean {
+  jailAvailable ??= process.platform === "linux" && probeJail();
+  return jailAvailable;
+}
+
+function probeJail(): boolean {
+  const base = mkdtempSync(path.join(tmpdir(), "run-"));
+  const directory = { path: base, program: path.join(base, "program"), root: path.join(base, "root") };
+  try {
+    mkdirSync(directory.program);
+    mkdirSync(directory.root);
+    const command = ["/bin/sh", "-c", "test -d /sandbox && ! test -e /root"];
+    const probe = spawnSync("unshare", jailArgs(directory, command, [], { cpuSeconds: 1, memoryKb: 65_536, fileKb: 1 }), {
+      env: JAIL_ENV,
+      stdio: "ignore",
+      timeout: 10_000,
+    });
+    return !probe.error && probe.status === 0;
+  } finally {
+    rmSync(directory.path, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,39 @@
+// Loaded with --require before a JavaScript program, in the jail with it.
+// Gives the program prompt(), which reads a line of stdin synchronously as in
+// a browser, and reports uncaught errors without Node's own stack frames.
+export const JAVASCRIPT_PRELUDE = `"use strict";
+const fs = require("fs");
+
+const buffer = Buffer.alloc(64 * 1024);
+const decoder = new TextDecoder();
+let pending = "";
+let closed = false;
+
+// The next line of input without its newline, or null at end of input
+const readLine = () => {
+  while (!pending.includes("\\n") && !closed) {
+    const read = fs.readSync(0, buffer, 0, buffer.length, null);
+    if (read === 0) closed = true;
+    else pending += decoder.decode(buffer.subarray(0, read), { stream: true });
+  }
+  if (pending === "") return null;
+  const end = pending.indexOf("\\n");
+  const line = end === -1 ? pending : pending.slice(0, end);
+  pending = end === -1 ? "" : pending.slice(end + 1);
+  return line;
+};
+
+globalThis.prompt = (message) => {
+  if (message) process.stdout.write(String(message));
+  return readLine();
+};
+
+const report = (error) => {
+  const text = (error && error.stack) || String(error);
+  const frames = text.split("\\n").filter((line) => !/^\\s+at .*(node:|prelude\\.cjs)/.test(line));
+  process.stderr.write(frames.join("\\n") + "\\n");
+  process.exitCode = 1;
+};
+process.on("uncaughtException", report);
+process.on("unhandledRejection", report);
+`;
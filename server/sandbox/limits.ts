@@ -0,0 +1,24 @@
+/** Resource limits applied to every run. */
+export interface RunLimits {
+  // CPU time of the program itself
+  cpuMs: number;
+  memoryMb: number;
+  // Real time from start to exit, which also covers programs waiting on timers or I/O
+  wallClockMs: number;
+  // Combined size of stdout and stderr
+  outputBytes: number;
+}
+
+export const RUN_LIMITS: RunLimits = {
+  cpuMs: 5_000,
+  memoryMb: 128,
+  wallClockMs: 10_000,
+  outputBytes: 1_000_000,
+};
+
+// Sessions over the run socket wait on a person typing and can be stopped by them
+export const SESSION_LIMITS: RunLimits = {
+  ...RUN_LIMITS,
+  cpuMs: 60_000,
+  wallClockMs: 600_000,
+};
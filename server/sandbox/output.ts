@@ -0,0 +1,34 @@
+import type { OutputStream } from "@shared/schema";
+
+export type { OutputStream };
+
+// Receives each piece of output as it is collected, e.g. to stream it to a client
+export type OutputListener = (stream: OutputStream, text: string) => void;
+
+/** Collects a run's stdout and stderr up to a combined byte budget. */
+export class OutputCollector {
+  private readonly text: Record<OutputStream, string> = { stdout: "", stderr: "" };
+  private bytes = 0;
+
+  constructor(private readonly maxBytes: number, private readonly listener?: OutputListener) {}
+
+  // False once the budget is spent; whatever did not fit is dropped
+  write(stream: OutputStream, chunk: string): boolean {
+    const size = Buffer.byteLength(chunk);
+    const remaining = this.maxBytes - this.bytes;
+    const fits = size <= remaining;
+    const accepted = fits ? chunk : Buffer.from(chunk).subarray(0, Math.max(0, remaining)).toString();
+    this.text[stream] += accepted;
+    this.bytes = fits ? this.bytes + size : this.maxBytes;
+    if (accepted) this.listener?.(stream, accepted);
+    return fits;
+  }
+
+  get stdout(): string {
+    return this.text.stdout;
+  }
+
+  get stderr(): string {
+    return this.text.stderr;
+  }
+}
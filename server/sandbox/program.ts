@@ -0,0 +1,13 @@
+import type { RunResult } from "@shared/schema";
+
+/** A program started in the sandbox that can still be given input or stopped. */
+export interface RunningProgram {
+  // Settles once the program has exited or was stopped; never rejects for failures of the program
+  result: Promise<RunResult>;
+  // Feeds text to the program's stdin
+  write(text: string): void;
+  // Closes stdin, so reads past the input see end-of-file
+  end(): void;
+  // Kills the program; the result reports it as stopped
+  stop(): void;
+}
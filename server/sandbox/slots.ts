@@ -0,0 +1,61 @@
+import { availableParallelism } from "os";
+import { isMainThread, workerData } from "worker_threads";
+import { SandboxBusyError } from "./errors";
+import { RUN_LIMITS } from "./limits";
+
+// Slots of the shared counts
+const RUNNING = 0;
+const REJECTED = 1;
+
+/** How many programs run at once and how many were refused, as /api/metrics reports them. */
+export interface RunSlotStats {
+  limit: number;
+  running: number;
+  rejected: number;
+}
+
+/**
+ * Caps how many programs run at once across the server: one-shot runs,
+ * verifications and socket sessions alike. The counts live in shared memory,
+ * so conversion workers that verify a stream count against the same cap as
+ * the main thread.
+ */
+export class RunSlots {
+  private readonly counts: Int32Array;
+
+  constructor(
+    private readonly limit: number,
+    readonly buffer: SharedArrayBuffer = new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT)
+  ) {
+    this.counts = new Int32Array(buffer);
+  }
+
+  // Takes a slot, or throws SandboxBusyError when none is free; the returned function frees it
+  acquire(): () => void {
+    if (Atomics.add(this.counts, RUNNING, 1) >= this.limit) {
+      Atomics.sub(this.counts, RUNNING, 1);
+      Atomics.add(this.counts, REJECTED, 1);
+      // A one-shot run frees its slot within its wall-clock limit
+      throw new SandboxBusyError(Math.ceil(RUN_LIMITS.wallClockMs / 1000));
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      Atomics.sub(this.counts, RUNNING, 1);
+    };
+  }
+
+  stats(): RunSlotStats {
+    return { limit: this.limit, running: Atomics.load(this.counts, RUNNING), rejected: Atomics.load(this.counts, REJECTED) };
+  }
+}
+
+// RUN_CONCURRENCY sets how many programs may run at once
+function runConcurrency(): number {
+  const value = Number(process.env.RUN_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : Math.max(2, availableParallelism());
+}
+
+// Conversion workers are started with the main thread's buffer (see ConversionPool)
+export const runSlots = new RunSlots(runConcurrency(), isMainThread ? undefined : workerData?.runSlots);
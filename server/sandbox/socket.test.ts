@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { WebSocket } from "ws";
+import { RUN_SOCKET_PATH, type RunSocketClientMessage, type RunSocketServerMessage } from "@shared/schema";
+import { startTestServer, type TestServer } from "../test-server";
+import { isJailAvailable } from "./jail";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+interface Session {
+  send(message: RunSocketClientMessage): void;
+  // The next message that matches, waiting for it if it has not arrived yet
+  next(matches: (message: RunSocketServerMessage) => boolean): Promise<RunSocketServerMessage>;
+  // Every message, once the server has closed the socket
+  closed: Promise<RunSocketServerMessage[]>;
+}
+
+async function openSession(headers: Record<string, string> = {}): Promise<Session> {
+  const socket = new WebSocket(server.url.replace(/^http/, "ws") + RUN_SOCKET_PATH, { headers });
+  const messages: RunSocketServerMessage[] = [];
+  const waiting = new Set<() => void>();
+  socket.on("message", (data) => {
+    messages.push(JSON.parse(String(data)));
+    waiting.forEach((wake) => wake());
+  });
+  const closed = new Promise<RunSocketServerMessage[]>((resolve) => socket.on("close", () => resolve(messages)));
+  await new Promise((resolve, reject) => socket.once("open", resolve).once("error", reject));
+
+  return {
+    send: (message) => socket.send(JSON.stringify(message)),
+    next: (matches) =>
+      new Promise((resolve) => {
+        const check = () => {
+          const found = messages.find(matches);
+          if (!found) return;
+          waiting.delete(check);
+          resolve(found);
+        };
+        waiting.add(check);
+        check();
+      }),
+    closed,
+  };
+}
+
+const output = (messages: RunSocketServerMessage[], stream: string) =>
+  messages.map((message) => (message.type === "output" && message.stream === stream ? message.text : "")).join("");
+
+describe("run socket", { skip: !isJailAvailable() && "programs cannot be jailed here" }, () => {
+  it("streams stdout and stderr apart and ends with the exit status", async () => {
+    const session = await openSession();
+    session.send({ type: "start", language: "bash", code: "echo out; echo err >&2; exit 3" });
+    const messages = await session.closed;
+    assert.equal(output(messages, "stdout"), "out\n");
+    assert.equal(output(messages, "stderr"), "err\n");
+    const exit = messages.at(-1);
+    assert.equal(exit?.type === "exit" && exit.exit.exitCode, 3);
+  });
+
+  it("feeds stdin to the running program as it is typed", async () => {
+    const session = await openSession();
+    session.send({ type: "start", language: "python", code: "name = input()\nprint('hello ' + name)\nprint(input())\n" });
+    session.send({ type: "stdin", text: "ada\n" });
+    await session.next((message) => message.type === "output" && message.text.includes("hello ada"));
+    session.send({ type: "stdin", text: "bye" });
+    session.send({ type: "eof" });
+    const messages = await session.closed;
+    assert.equal(output(messages, "stdout"), "hello ada\nbye\n");
+  });
+
+  it("stops the program when asked", async () => {
+    const session = await openSession();
+    session.send({ type: "start", language: "bash", code: "echo started; sleep 30" });
+    await session.next((message) => message.type === "output");
+    session.send({ type: "stop" });
+    const exit = (await session.closed).at(-1);
+    assert.ok(exit?.type === "exit" && exit.exit.stopped);
+  });
+
+  it("refuses sockets opened by pages of another site", async () => {
+    await assert.rejects(openSession({ Origin: "https://elsewhere.example" }), /403/);
+  });
+});
@@ -0,0 +1,100 @@
+import type { IncomingMessage, Server } from "http";
+import { WebSocket, WebSocketServer } from "ws";
+import {
+  RUN_SOCKET_PATH,
+  runSocketClientMessageSchema,
+  type RunSocketServerMessage,
+} from "@shared/schema";
+import { startProgram, RuntimeUnavailableError, SandboxBusyError, SESSION_LIMITS, type RunningProgram } from "./index";
+
+// Largest client message; a start message carries the whole program
+const MAX_MESSAGE_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Serves interactive runs on RUN_SOCKET_PATH: one program per connection,
+ * started by a "start" message and stopped when the connection closes.
+ * Connections from pages of another site are refused.
+ */
+export function attachRunSocket(server: Server): void {
+  const sockets = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  server.on("upgrade", (request, socket, head) => {
+    // Other upgrades, like Vite's HMR socket, are left to their own listeners
+    if (new URL(request.url ?? "/", "http://localhost").pathname !== RUN_SOCKET_PATH) return;
+    if (!isSameOrigin(request)) {
+      socket.end("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+      return;
+    }
+    sockets.handleUpgrade(request, socket, head, (connection) => runSession(connection));
+  });
+}
+
+function runSession(socket: WebSocket): void {
+  let program: RunningProgram | undefined;
+  let started = false;
+  // Input and stop requests that arrive while the program is still starting
+  const queued: ((program: RunningProgram) => void)[] = [];
+  const apply = (action: (program: RunningProgram) => void) => {
+    if (program) action(program);
+    else queued.push(action);
+  };
+
+  const send = (message: RunSocketServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+  const fail = (message: string, language?: string) => {
+    send({ type: "error", message, language });
+    socket.close();
+  };
+
+  socket.on("message", async (data) => {
+    const parsed = runSocketClientMessageSchema.safeParse(safeJson(String(data)));
+    if (!parsed.success) return fail("Invalid message");
+    const message = parsed.data;
+
+    if (message.type === "stdin") return apply((running) => running.write(message.text));
+    if (message.type === "eof") return apply((running) => running.end());
+    if (message.type === "stop") return apply((running) => running.stop());
+    if (started) return fail("A program is already running on this connection");
+    started = true;
+
+    try {
+      program = await startProgram(message, SESSION_LIMITS, (stream, text) => send({ type: "output", stream, text }));
+      if (message.stdin !== undefined) {
+        program.write(message.stdin);
+        program.end();
+      }
+      for (const action of queued.splice(0)) action(program);
+      if (socket.readyState !== WebSocket.OPEN) program.stop();
+
+      const { stdout: _stdout, stderr: _stderr, ...exit } = await program.result;
+      send({ type: "exit", exit });
+      socket.close();
+    } catch (error) {
+      if (error instanceof RuntimeUnavailableError) return fail(error.message, error.language);
+      if (error instanceof SandboxBusyError) return fail(error.message);
+      console.error("Error running code:", error);
+      fail("Failed to run code");
+    }
+  });
+
+  socket.on("close", () => program?.stop());
+}
+
+// Browsers send the origin of the page opening a socket; other clients may send none
+function isSameOrigin(request: IncomingMessage): boolean {
+  const origin = request.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === request.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+function safeJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,185 @@
+import { spawnSync } from "child_process";
+import { writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { RunResult } from "@shared/schema";
+import type { RunLimits } from "./limits";
+import { OutputCollector, type OutputListener } from "./output";
+import { RuntimeUnavailableError } from "./errors";
+import { JAVASCRIPT_PRELUDE } from "./javascript";
+import { createJailDirectory, isJailAvailable, removeJailDirectory, spawnJailed } from "./jail";
+import type { RunningProgram } from "./program";
+
+interface Interpreter {
+  // Prints the interpreter's own path, then the directories it loads from when
+  // that is not just the one it sits in. Run outside the jail, which only sees
+  // those and the system paths.
+  locate: [string, ...string[]];
+  // Options placed before the program's file
+  options: (limits: RunLimits) => string[];
+  file: string;
+  // Files written next to the program
+  support?: Record<string, string>;
+  // Address space allowed on top of the memory limit
+  extraAddressSpaceMb?: number;
+  // Exit signals that mean the program ran out of memory
+  outOfMemorySignals?: NodeJS.Signals[];
+}
+
+export const INTERPRETERS = {
+  // The same Node as the server's. V8 reserves about a gigabyte of address
+  // space up front, so the heap is capped by a flag instead, and V8 aborts once
+  // it is full.
+  javascript: {
+    locate: [process.execPath, "-p", "process.execPath"],
+    options: (limits) => [`--max-old-space-size=${limits.memoryMb}`, "--require", "./prelude.cjs"],
+    file: "main.js",
+    support: { "prelude.cjs": JAVASCRIPT_PRELUDE },
+    extraAddressSpaceMb: 1024,
+    outOfMemorySignals: ["SIGABRT", "SIGSEGV", "SIGTRAP"],
+  },
+  // -I ignores PYTHON* variables and the user's site-packages; -u streams output instead of buffering it
+  python: {
+    locate: ["python3", "-I", "-c", "import sys; print(sys.executable); print(sys.base_prefix)"],
+    options: () => ["-I", "-u"],
+    file: "main.py",
+  },
+  bash: { locate: ["bash", "-c", 'echo "$BASH"'], options: () => ["--noprofile", "--norc"], file: "main.sh" },
+} satisfies Record<string, Interpreter>;
+
+export type SubprocessLanguage = keyof typeof INTERPRETERS;
+
+interface Location {
+  executable: string;
+  binds: string[];
+}
+
+const located = new Map<SubprocessLanguage, Location | null>();
+
+// Where the interpreter for `language` is installed, or null if it is not; checked once per process
+function locateInterpreter(language: SubprocessLanguage): Location | null {
+  if (!located.has(language)) {
+    const [command, ...args] = INTERPRETERS[language].locate;
+    const probe = spawnSync(command, args, { encoding: "utf8", stdio: ["ignore", "pipe", "ignore"], timeout: 5_000 });
+    const [executable, ...binds] = probe.error || probe.status !== 0 ? [] : probe.stdout.split("\n").filter(Boolean);
+    located.set(language, executable ? { executable, binds: binds.length ? binds : [path.dirname(executable)] } : null);
+  }
+  return located.get(language)!;
+}
+
+/** Whether the interpreter for `language` is installed; checked once per process. */
+export function isInterpreterAvailable(language: SubprocessLanguage): boolean {
+  return locateInterpreter(language) !== null;
+}
+
+// Names of signals by number; aliases such as SIGIOT come after the usual name
+const SIGNALS = new Map<number, NodeJS.Signals>();
+for (const [name, number] of Object.entries(os.constants.signals)) {
+  if (!SIGNALS.has(number)) SIGNALS.set(number, name as NodeJS.Signals);
+}
+
+/**
+ * Starts a program with a local interpreter in a jail (see spawnJailed) over a
+ * throwaway directory, with an empty environment and ulimit caps. The whole
+ * process group is killed at the wall-clock limit or once the output budget
+ * is spent. Without a jail nothing is run at all.
+ */
+export async function startSubprocess(
+  language: SubprocessLanguage,
+  code: string,
+  args: string[],
+  limits: RunLimits,
+  onOutput?: OutputListener
+): Promise<RunningProgram> {
+  if (!isJailAvailable()) {
+    throw new RuntimeUnavailableError(language, "Code cannot be run on this server: it has no sandbox to run it in");
+  }
+  const location = locateInterpreter(language);
+  if (!location) {
+    throw new RuntimeUnavailableError(language, `No ${language} interpreter is available on this server`);
+  }
+
+  const interpreter: Interpreter = INTERPRETERS[language];
+  const directory = await createJailDirectory();
+  try {
+    const files = { ...interpreter.support, [interpreter.file]: code };
+    for (const [name, content] of Object.entries(files)) await writeFile(path.join(directory.program, name), content);
+  } catch (error) {
+    await removeJailDirectory(directory);
+    throw error;
+  }
+
+  const started = performance.now();
+  const output = new OutputCollector(limits.outputBytes, onOutput);
+  let limit: RunResult["limit"];
+  let stopped = false;
+
+  const child = spawnJailed(
+    directory,
+    [location.executable, ...interpreter.options(limits), interpreter.file, ...args],
+    location.binds,
+    {
+      cpuSeconds: Math.max(1, Math.ceil(limits.cpuMs / 1000)),
+      memoryKb: (limits.memoryMb + (interpreter.extraAddressSpaceMb ?? 0)) * 1024,
+      fileKb: Math.ceil(limits.outputBytes / 1024),
+    }
+  );
+  const kill = () => {
+    try {
+      process.kill(-child.pid!, "SIGKILL");
+    } catch {
+      // The group already exited
+    }
+  };
+  const halt = (reason: NonNullable<RunResult["limit"]>) => {
+    limit ??= reason;
+    kill();
+  };
+  const timer = setTimeout(() => halt("wall-clock"), limits.wallClockMs);
+
+  for (const stream of ["stdout", "stderr"] as const) {
+    child[stream].setEncoding("utf8");
+    child[stream].on("data", (chunk: string) => {
+      if (!output.write(stream, chunk)) halt("output");
+    });
+  }
+  // A program that exits without reading its input closes the pipe early
+  child.stdin.on("error", () => {});
+
+  const result = new Promise<RunResult>((resolve, reject) => {
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (exitCode) => {
+      clearTimeout(timer);
+      // The jail reports the program's death by a signal as 128 + the signal.
+      // Past the CPU limit the kernel sends SIGXCPU, then SIGKILL.
+      const signal = exitCode !== null && exitCode > 128 ? SIGNALS.get(exitCode - 128) : undefined;
+      if (!stopped && (signal === "SIGXCPU" || signal === "SIGKILL")) limit ??= "cpu";
+      if (signal && interpreter.outOfMemorySignals?.includes(signal)) limit ??= "memory";
+      resolve({
+        stdout: output.stdout,
+        stderr: output.stderr,
+        exitCode: limit || stopped ? null : exitCode ?? null,
+        durationMs: Math.round(performance.now() - started),
+        limit,
+        stopped: stopped || undefined,
+      });
+    });
+  }).finally(() => removeJailDirectory(directory));
+
+  return {
+    result,
+    write(text) {
+      if (child.stdin.writable) child.stdin.write(text);
+    },
+    end() {
+      child.stdin.end();
+    },
+    stop() {
+      stopped = !limit;
+      kill();
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { runCode } from "./index";
+import { errorMessages, normalizeOutput, verifyConversion } from "./verify";
+
+describe("normalizeOutput", () => {
+  it("prints the same values the same way in both languages", () => {
+    assert.deepEqual(normalizeOutput("[ 0, 1 ] true\n"), normalizeOutput("[0, 1] True\n"));
+    assert.deepEqual(normalizeOutput("{ a: 1, b: null }"), normalizeOutput("{'a': 1.0, 'b': None}"));
+  });
+
+  it("ignores trailing whitespace and blank lines at the end", () => {
+    assert.deepEqual(normalizeOutput("one  \r\ntwo\n\n"), ["one", "two"]);
+  });
+});
+
+describe("errorMessages", () => {
+  it("keeps the message and drops tracebacks and exception names", async () => {
+    const python = await runCode({ language: "python", code: 'raise ValueError("bad input")\n' });
+    const javascript = await runCode({ language: "javascript", code: 'throw new Error("bad input");\n' });
+    assert.deepEqual(errorMessages(python.stderr), ["bad input"]);
+    assert.deepEqual(errorMessages(javascript.stderr), ["bad input"]);
+  });
+});
+
+describe("verifyConversion", () => {
+  it("passes programs that print the same for the same input", async () => {
+    const report = await verifyConversion({
+      sourceCode: "import sys\nname = sys.stdin.read().strip()\nprint([len(name), True])\n",
+      sourceLanguage: "python",
+      targetCode: 'const name = require("fs").readFileSync(0, "utf8").trim();\nconsole.log([name.length, true]);\n',
+      targetLanguage: "javascript",
+      stdin: "ada\n",
+    });
+    assert.equal(report.passed, true);
+    assert.equal(report.source.stdout, "[3, True]\n");
+    assert.deepEqual(report.mismatches, []);
+  });
+
+  it("reports the first line that differs and a different exit code", async () => {
+    const report = await verifyConversion({
+      sourceCode: "print(1)\nprint(2)\n",
+      sourceLanguage: "python",
+      targetCode: "console.log(1);\nconsole.log(3);\nprocess.exit(2);\n",
+      targetLanguage: "javascript",
+    });
+    assert.equal(report.passed, false);
+    assert.deepEqual(report.mismatches, [
+      { field: "stdout", line: 2, source: "2", target: "3" },
+      { field: "exitCode", source: "0", target: "2" },
+    ]);
+  });
+});
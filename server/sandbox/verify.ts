@@ -0,0 +1,102 @@
+import type {
+  RunResult,
+  VerificationMismatch,
+  VerificationReport,
+  VerifyConversionRequest,
+} from "@shared/schema";
+import { RUN_LIMITS, type RunLimits } from "./limits";
+import { runCode } from "./index";
+
+// Spellings of the same value across the runnable languages
+const LITERALS: Record<string, string> = { True: "true", False: "false", None: "null" };
+
+/**
+ * Puts printed values into one spelling, so that `[0, 1]` and `[0,1]`,
+ * `True` and `true`, `{'a': 1.0}` and `{ a: 1 }` compare equal. Applied to
+ * both programs' output, so it only has to be consistent, not reversible.
+ */
+export function normalizeOutput(text: string): string[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n").map((line) =>
+    line
+      .trimEnd()
+      .replace(/\b(True|False|None)\b/g, (word) => LITERALS[word])
+      // 2.0 and 2 print the same number
+      .replace(/(?<![\w.])(-?\d+)\.0+(?![\w.])/g, "$1")
+      .replace(/'((?:[^'\\]|\\.)*)'/g, '"$1"')
+      .replace(/([[{(,:])\s+/g, "$1")
+      .replace(/\s+([\]}),:])/g, "$1")
+      // Python quotes dictionary keys, JavaScript does not
+      .replace(/([{,])"([A-Za-z_$][\w$]*)":/g, "$1$2:")
+  );
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Keeps the messages a program wrote to stderr and drops what each runtime
+ * adds around them: stack frames, source excerpts, Python's traceback header
+ * and exception class names.
+ */
+export function errorMessages(stderr: string): string[] {
+  const messages: string[] = [];
+  const lines = normalizeOutput(stderr);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    // V8 opens an uncaught error with "main.js:3", the offending line and a caret
+    if (/^main\.\w+:\d+$/.test(line)) {
+      index++;
+      continue;
+    }
+    if (line === "" || /^\s/.test(line) || line.startsWith("Traceback (most recent call last)")) continue;
+    messages.push(line.replace(/^[\w.]*(?:Error|Exception):/, "").trim());
+  }
+  return messages;
+}
+
+// First line where the two outputs differ, or undefined when they match
+function compareLines(
+  field: "stdout" | "stderr",
+  source: string[],
+  target: string[]
+): VerificationMismatch | undefined {
+  const length = Math.max(source.length, target.length);
+  for (let index = 0; index < length; index++) {
+    if (source[index] !== target[index]) {
+      return { field, line: index + 1, source: source[index] ?? "<end of output>", target: target[index] ?? "<end of output>" };
+    }
+  }
+  return undefined;
+}
+
+function compareRuns(source: RunResult, target: RunResult): VerificationMismatch[] {
+  // A run stopped by a limit has incomplete output; comparing it would say nothing
+  if (source.limit || target.limit) {
+    return [{ field: "limit", source: source.limit ?? "none", target: target.limit ?? "none" }];
+  }
+
+  const mismatches: VerificationMismatch[] = [];
+  const stdout = compareLines("stdout", normalizeOutput(source.stdout), normalizeOutput(target.stdout));
+  if (stdout) mismatches.push(stdout);
+  const stderr = compareLines("stderr", errorMessages(source.stderr), errorMessages(target.stderr));
+  if (stderr) mismatches.push(stderr);
+  if (source.exitCode !== target.exitCode) {
+    mismatches.push({ field: "exitCode", source: String(source.exitCode), target: String(target.exitCode) });
+  }
+  return mismatches;
+}
+
+/**
+ * Runs the original program and its conversion with the same stdin and
+ * arguments and reports whether they behaved the same. The runs happen one
+ * after the other so neither competes with the other for the limits.
+ */
+export async function verifyConversion(
+  request: VerifyConversionRequest,
+  limits: RunLimits = RUN_LIMITS
+): Promise<VerificationReport> {
+  const { stdin, args } = request;
+  const source = await runCode({ code: request.sourceCode, language: request.sourceLanguage, stdin, args }, limits);
+  const target = await runCode({ code: request.targetCode, language: request.targetLanguage, stdin, args }, limits);
+  const mismatches = compareRuns(source, target);
+  return { passed: mismatches.length === 0, source, target, mismatches };
+}
@@ -0,0 +1,80 @@
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import type {
+  ConversionDiagnostic,
+  ConversionOptions,
+  ConvertCodeRequest,
+  ConvertCodeResponse,
+  ConvertProjectQuery,
+  JobFailure,
+  JobKind,
+  JobStatus,
+  ProjectReport,
+  VerificationReport,
+} from "@shared/schema";
+
+// The tables of shared/schema.ts in SQLite column types. Rows read back have
+// the same shape as the PostgreSQL ones, so both share the User and
+// CodeConversion types; keep the two in step when a column changes.
+
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  // Base32 TOTP secret; null while two-factor authentication is off
+  totpSecret: text("totp_secret"),
+  // Time step of the last accepted code, so that no code is accepted twice
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // SHA-256 hashes of the recovery codes not used yet
+  recoveryCodes: text("recovery_codes", { mode: "json" }).$type<string[]>().notNull().default([]),
+  // Wrong second factors since the last right one, whichever session sent them
+  twoFactorFailures: integer("two_factor_failures").notNull().default(0),
+  // Second factors are refused until then after too many wrong ones
+  twoFactorLockedUntil: integer("two_factor_locked_until", { mode: "timestamp_ms" }),
+});
+
+export const codeConversions = sqliteTable("code_conversions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  sourceCode: text("source_code").notNull(),
+  targetCode: text("target_code").notNull(),
+  sourceLanguage: text("source_language").notNull(),
+  targetLanguage: text("target_language").notNull(),
+  explanation: text("explanation", { mode: "json" }).$type<ConvertCodeResponse["explanation"]>().notNull(),
+  skillLevel: text("skill_level").notNull(),
+  options: text("options", { mode: "json" }).$type<ConversionOptions>().notNull(),
+  engineVersion: text("engine_version"),
+  diagnostics: text("diagnostics", { mode: "json" }).$type<ConversionDiagnostic[]>().notNull(),
+  verification: text("verification", { mode: "json" }).$type<VerificationReport>(),
+  userId: integer("user_id").references(() => users.id),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  index("code_conversions_user_id_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+export const apiTokens = sqliteTable("api_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  prefix: text("prefix").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  lastUsedAt: integer("last_used_at", { mode: "timestamp_ms" }),
+}, (table) => [
+  index("api_tokens_user_id_idx").on(table.userId),
+]);
+
+export const jobs = sqliteTable("jobs", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  kind: text("kind").$type<JobKind>().notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  input: text("input", { mode: "json" }).$type<ConvertCodeRequest | ConvertProjectQuery>().notNull(),
+  inputArchive: text("input_archive"),
+  result: text("result", { mode: "json" }).$type<ConvertCodeResponse | ProjectReport>(),
+  outputArchive: text("output_archive"),
+  failure: text("failure", { mode: "json" }).$type<JobFailure>(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  startedAt: integer("started_at", { mode: "timestamp_ms" }),
+  finishedAt: integer("finished_at", { mode: "timestamp_ms" }),
+}, (table) => [
+  index("jobs_status_created_at_idx").on(table.status, table.createdAt),
+]);
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import session from "express-session";
+import { after, before, describe, it } from "node:test";
+import type { InsertCodeConversion } from "@shared/schema";
+import { connectDatabase, connectSqlite } from "./db";
+import { DatabaseStorage, SqliteStorage, type IStorage } from "./storage";
+
+// Runs against the database DATABASE_URL names, such as the docker-compose.yml one, and is skipped without it
+const databaseUrl = process.env.DATABASE_URL;
+
+function conversion(changes: Partial<InsertCodeConversion> = {}): InsertCodeConversion {
+  return {
+    sourceCode: "console.log(1);",
+    targetCode: "print(1)",
+    sourceLanguage: "javascript",
+    targetLanguage: "python",
+    explanation: { stepByStep: [], highLevel: "Prints a number", languageDifferences: "" },
+    skillLevel: "beginner",
+    options: { naming: "snake_case" },
+    engineVersion: "1.0.0",
+    diagnostics: [{ severity: "info", code: "idiom", message: "print adds a newline" }],
+    verification: null,
+    userId: null,
+    ...changes,
+  };
+}
+
+// What every database backend must do the same way
+function storageChecks(open: () => Promise<IStorage>): void {
+  let storage: IStorage;
+
+  before(async () => {
+    storage = await open();
+  });
+
+  it("creates users with unique names", async () => {
+    const username = `storage-${randomUUID()}`;
+    const user = await storage.createUser({ username, password: "hash" });
+    assert.deepEqual(await storage.getUserByUsername(username), user);
+    assert.equal((await storage.updateUser(user.id, { password: "new hash" }))?.password, "new hash");
+    await assert.rejects(storage.createUser({ username, password: "hash" }));
+  });
+
+  it("keeps a conversion's JSON columns and timestamp", async () => {
+    const saved = await storage.createCodeConversion(conversion());
+    assert.ok(saved.createdAt instanceof Date);
+    assert.deepEqual(await storage.getCodeConversion(saved.id), saved);
+    assert.deepEqual(saved.options, { naming: "snake_case" });
+    assert.equal(saved.diagnostics[0].message, "print adds a newline");
+  });
+
+  it("lists a user's conversions newest first, filtered and counted", async () => {
+    const { id: userId } = await storage.createUser({ username: `storage-${randomUUID()}`, password: "hash" });
+    const first = await storage.createCodeConversion(conversion({ userId }));
+    const second = await storage.createCodeConversion(conversion({ userId, targetLanguage: "go" }));
+    await storage.createCodeConversion(conversion({ userId, targetLanguage: "go" }));
+
+    const { conversions, total } = await storage.listCodeConversions({ userId, targetLanguage: "go" }, 1, 10);
+    assert.equal(total, 2);
+    assert.deepEqual(conversions.map((saved) => saved.id), [second.id]);
+    assert.deepEqual((await storage.getCodeConversionsByUserId(userId)).map((saved) => saved.id).at(-1), first.id);
+
+    assert.equal(await storage.deleteCodeConversion(first.id), true);
+    assert.equal(await storage.deleteCodeConversion(first.id), false);
+  });
+}
+
+describe("DatabaseStorage", { skip: !databaseUrl && "DATABASE_URL is not set" }, () => {
+  storageChecks(async () => {
+    const database = connectDatabase(databaseUrl!);
+    await database.migrate();
+    return new DatabaseStorage(database.db, new session.MemoryStore());
+  });
+});
+
+describe("SqliteStorage", () => {
+  const directory = mkdtempSync(path.join(tmpdir(), "storage-"));
+  const file = path.join(directory, "test.db");
+
+  async function open(): Promise<SqliteStorage> {
+    const database = connectSqlite(file);
+    await database.migrate();
+    return new SqliteStorage(database.db);
+  }
+
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  storageChecks(open);
+
+  it("keeps what was saved once the file is opened again", async () => {
+    const username = `storage-${randomUUID()}`;
+    const { id } = await (await open()).createUser({ username, password: "hash" });
+    assert.equal((await (await open()).getUserByUsername(username))?.id, id);
+  });
+});
@@ -1,30 +1,111 @@
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, count, desc, eq, gte, inArray, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
 import { 
   users, type User, type InsertUser,
-  codeConversions, type CodeConversion, type InsertCodeConversion
+  codeConversions, type CodeConversion, type InsertCodeConversion,
+  apiTokens, type ApiToken, type InsertApiToken,
+  jobs, type Job, type InsertJob, type JobStatus
 } from "@shared/schema";
+import * as sqlite from "./sqlite-schema";
+import { connectDatabase, connectSqlite, type Database, type SqliteDatabase } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Expired sessions are swept from memory once a day
+const SESSION_SWEEP_MS = 24 * 60 * 60 * 1000;
+
+// Which saved conversions to list; every field narrows the result
+export interface ConversionFilter {
+  // null lists the conversions made without an account
+  userId?: number | null;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  // Created at or after `from` and before `to`
+  from?: Date;
+  to?: Date;
+}
+
+// Columns of a user that can change after registration
+export type UserChanges = Partial<Omit<User, "id">>;
+
+// Columns of a saved conversion that can change after it was saved
+export type CodeConversionChanges = Partial<Pick<CodeConversion, "verification">>;
+
+// Columns of a job that change as it runs
+export type JobChanges = Partial<Omit<Job, "id" | "userId" | "kind" | "input" | "createdAt">>;
+
+const UNFINISHED_JOB_STATUSES: JobStatus[] = ["queued", "running"];
+const FINISHED_JOB_STATUSES: JobStatus[] = ["succeeded", "failed", "cancelled"];
 
 // Interface for storage operations
 export interface IStorage {
+  // Where login sessions are kept
+  readonly sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  // Undefined when there was no user with that id
+  updateUser(id: number, changes: UserChanges): Promise<User | undefined>;
+  // Adds one to the user's wrong second factors in a single step, so parallel requests all count;
+  // undefined when the account is locked at `now` or there was no user with that id
+  countTwoFactorAttempt(id: number, now: Date): Promise<User | undefined>;
+  // Records a TOTP step as used in a single step; undefined when it or a later one already was
+  claimTotpStep(id: number, step: number): Promise<User | undefined>;
   
   getCodeConversion(id: number): Promise<CodeConversion | undefined>;
   createCodeConversion(conversion: InsertCodeConversion): Promise<CodeConversion>;
+  // Undefined when there was no conversion with that id
+  updateCodeConversion(id: number, changes: CodeConversionChanges): Promise<CodeConversion | undefined>;
   getCodeConversionsByUserId(userId: number): Promise<CodeConversion[]>;
+  // Newest first, with the number of matches before `offset` and `limit` are applied
+  listCodeConversions(
+    filter: ConversionFilter,
+    offset: number,
+    limit: number
+  ): Promise<{ conversions: CodeConversion[]; total: number }>;
+  // False when there was no conversion with that id
+  deleteCodeConversion(id: number): Promise<boolean>;
+
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  // Newest first
+  listApiTokens(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  markApiTokenUsed(id: number, usedAt: Date): Promise<void>;
+  // False when the user has no token with that id
+  deleteApiToken(id: number, userId: number): Promise<boolean>;
+
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  // Undefined when there was no job with that id
+  updateJob(id: string, changes: JobChanges): Promise<Job | undefined>;
+  // Queued and running jobs, oldest first
+  listUnfinishedJobs(): Promise<Job[]>;
+  // Removes the jobs that finished before `before`, returning how many there were
+  deleteFinishedJobs(before: Date): Promise<number>;
 }
 
 export class MemStorage implements IStorage {
+  readonly sessionStore: session.Store = new MemoryStore({ checkPeriod: SESSION_SWEEP_MS });
   private users: Map<number, User>;
   private codeConversions: Map<number, CodeConversion>;
+  private apiTokens: Map<number, ApiToken>;
+  private jobs: Map<string, Job>;
   private userIdCounter: number;
   private conversionIdCounter: number;
+  private apiTokenIdCounter: number;
 
   constructor() {
     this.users = new Map();
     this.codeConversions = new Map();
+    this.apiTokens = new Map();
+    this.jobs = new Map();
     this.userIdCounter = 1;
     this.conversionIdCounter = 1;
+    this.apiTokenIdCounter = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -39,27 +120,541 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      totpSecret: null,
+      totpLastUsedStep: null,
+      recoveryCodes: [],
+      twoFactorFailures: 0,
+      twoFactorLockedUntil: null,
+    };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUser(id: number, changes: UserChanges): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, ...changes };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async countTwoFactorAttempt(id: number, now: Date): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user || (user.twoFactorLockedUntil && user.twoFactorLockedUntil > now)) return undefined;
+    return this.updateUser(id, { twoFactorFailures: user.twoFactorFailures + 1 });
+  }
+
+  async claimTotpStep(id: number, step: number): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user || (user.totpLastUsedStep !== null && user.totpLastUsedStep >= step)) return undefined;
+    return this.updateUser(id, { totpLastUsedStep: step });
+  }
+
   async getCodeConversion(id: number): Promise<CodeConversion | undefined> {
     return this.codeConversions.get(id);
   }
 
   async createCodeConversion(insertConversion: InsertCodeConversion): Promise<CodeConversion> {
     const id = this.conversionIdCounter++;
-    const conversion: CodeConversion = { ...insertConversion, id };
+    const conversion: CodeConversion = {
+      ...insertConversion,
+      id,
+      engineVersion: insertConversion.engineVersion ?? null,
+      verification: insertConversion.verification ?? null,
+      userId: insertConversion.userId ?? null,
+      createdAt: new Date(),
+    };
     this.codeConversions.set(id, conversion);
     return conversion;
   }
 
+  async updateCodeConversion(id: number, changes: CodeConversionChanges): Promise<CodeConversion | undefined> {
+    const conversion = this.codeConversions.get(id);
+    if (!conversion) return undefined;
+    const updated = { ...conversion, ...changes };
+    this.codeConversions.set(id, updated);
+    return updated;
+  }
+
   async getCodeConversionsByUserId(userId: number): Promise<CodeConversion[]> {
     return Array.from(this.codeConversions.values()).filter(
       (conversion) => conversion.userId === userId
     );
   }
+
+  async listCodeConversions(
+    filter: ConversionFilter,
+    offset: number,
+    limit: number
+  ): Promise<{ conversions: CodeConversion[]; total: number }> {
+    const matches = Array.from(this.codeConversions.values())
+      .filter((conversion) =>
+        (filter.userId === undefined || conversion.userId === filter.userId) &&
+        (filter.sourceLanguage === undefined || conversion.sourceLanguage === filter.sourceLanguage) &&
+        (filter.targetLanguage === undefined || conversion.targetLanguage === filter.targetLanguage) &&
+        (filter.from === undefined || conversion.createdAt >= filter.from) &&
+        (filter.to === undefined || conversion.createdAt < filter.to)
+      )
+      // Ids grow with time, so the highest id is the newest
+      .sort((a, b) => b.id - a.id);
+    return { conversions: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  async deleteCodeConversion(id: number): Promise<boolean> {
+    return this.codeConversions.delete(id);
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenIdCounter++;
+    const token: ApiToken = { ...insertToken, id, createdAt: new Date(), lastUsedAt: null };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async listApiTokens(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter((token) => token.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async markApiTokenUsed(id: number, usedAt: Date): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) this.apiTokens.set(id, { ...token, lastUsedAt: usedAt });
+  }
+
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    if (this.apiTokens.get(id)?.userId !== userId) return false;
+    return this.apiTokens.delete(id);
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const job: Job = {
+      ...insertJob,
+      userId: insertJob.userId ?? null,
+      inputArchive: insertJob.inputArchive ?? null,
+      status: "queued",
+      result: null,
+      outputArchive: null,
+      failure: null,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async updateJob(id: string, changes: JobChanges): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...changes };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async listUnfinishedJobs(): Promise<Job[]> {
+    // Maps iterate in insertion order, which is creation order
+    return Array.from(this.jobs.values()).filter((job) => UNFINISHED_JOB_STATUSES.includes(job.status));
+  }
+
+  async deleteFinishedJobs(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.finishedAt && job.finishedAt < before && this.jobs.delete(job.id)) deleted++;
+    }
+    return deleted;
+  }
 }
 
-export const storage = new MemStorage();
+export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database, readonly sessionStore: session.Store) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, changes: UserChanges): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async countTwoFactorAttempt(id: number, now: Date): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ twoFactorFailures: sql`${users.twoFactorFailures} + 1` })
+      .where(and(eq(users.id, id), or(isNull(users.twoFactorLockedUntil), lte(users.twoFactorLockedUntil, now))))
+      .returning();
+    return user;
+  }
+
+  async claimTotpStep(id: number, step: number): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(eq(users.id, id), or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))))
+      .returning();
+    return user;
+  }
+
+  async getCodeConversion(id: number): Promise<CodeConversion | undefined> {
+    const [conversion] = await this.db.select().from(codeConversions).where(eq(codeConversions.id, id));
+    return conversion;
+  }
+
+  async createCodeConversion(insertConversion: InsertCodeConversion): Promise<CodeConversion> {
+    const [conversion] = await this.db.insert(codeConversions).values(insertConversion).returning();
+    return conversion;
+  }
+
+  async updateCodeConversion(id: number, changes: CodeConversionChanges): Promise<CodeConversion | undefined> {
+    const [conversion] = await this.db.update(codeConversions).set(changes).where(eq(codeConversions.id, id)).returning();
+    return conversion;
+  }
+
+  async getCodeConversionsByUserId(userId: number): Promise<CodeConversion[]> {
+    return this.db
+      .select()
+      .from(codeConversions)
+      .where(eq(codeConversions.userId, userId))
+      .orderBy(desc(codeConversions.createdAt), desc(codeConversions.id));
+  }
+
+  async listCodeConversions(
+    filter: ConversionFilter,
+    offset: number,
+    limit: number
+  ): Promise<{ conversions: CodeConversion[]; total: number }> {
+    const where = conversionFilter(codeConversions, filter);
+
+    const [conversions, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(codeConversions)
+        .where(where)
+        .orderBy(desc(codeConversions.createdAt), desc(codeConversions.id))
+        .offset(offset)
+        .limit(limit),
+      this.db.select({ total: count() }).from(codeConversions).where(where),
+    ]);
+    return { conversions, total };
+  }
+
+  async deleteCodeConversion(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(codeConversions)
+      .where(eq(codeConversions.id, id))
+      .returning({ id: codeConversions.id });
+    return deleted.length > 0;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db.insert(apiTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async listApiTokens(userId: number): Promise<ApiToken[]> {
+    return this.db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt), desc(apiTokens.id));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async markApiTokenUsed(id: number, usedAt: Date): Promise<void> {
+    await this.db.update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async updateJob(id: string, changes: JobChanges): Promise<Job | undefined> {
+    const [job] = await this.db.update(jobs).set(changes).where(eq(jobs.id, id)).returning();
+    return job;
+  }
+
+  async listUnfinishedJobs(): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(inArray(jobs.status, UNFINISHED_JOB_STATUSES))
+      .orderBy(asc(jobs.createdAt));
+  }
+
+  async deleteFinishedJobs(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(jobs)
+      .where(and(inArray(jobs.status, FINISHED_JOB_STATUSES), lt(jobs.finishedAt, before)))
+      .returning({ id: jobs.id });
+    return deleted.length;
+  }
+}
+
+/** IStorage over a local SQLite file, for single-node deployments without PostgreSQL. */
+export class SqliteStorage implements IStorage {
+  // Sessions stay in memory, so a restart signs everyone out
+  readonly sessionStore: session.Store = new MemoryStore({ checkPeriod: SESSION_SWEEP_MS });
+
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(sqlite.users).where(eq(sqlite.users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(sqlite.users).where(eq(sqlite.users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(sqlite.users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, changes: UserChanges): Promise<User | undefined> {
+    const [user] = await this.db.update(sqlite.users).set(changes).where(eq(sqlite.users.id, id)).returning();
+    return user;
+  }
+
+  async countTwoFactorAttempt(id: number, now: Date): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(sqlite.users)
+      .set({ twoFactorFailures: sql`${sqlite.users.twoFactorFailures} + 1` })
+      .where(and(
+        eq(sqlite.users.id, id),
+        or(isNull(sqlite.users.twoFactorLockedUntil), lte(sqlite.users.twoFactorLockedUntil, now)),
+      ))
+      .returning();
+    return user;
+  }
+
+  async claimTotpStep(id: number, step: number): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(sqlite.users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(sqlite.users.id, id),
+        or(isNull(sqlite.users.totpLastUsedStep), lt(sqlite.users.totpLastUsedStep, step)),
+      ))
+      .returning();
+    return user;
+  }
+
+  async getCodeConversion(id: number): Promise<CodeConversion | undefined> {
+    const [conversion] = await this.db
+      .select()
+      .from(sqlite.codeConversions)
+      .where(eq(sqlite.codeConversions.id, id));
+    return conversion;
+  }
+
+  async createCodeConversion(insertConversion: InsertCodeConversion): Promise<CodeConversion> {
+    const [conversion] = await this.db.insert(sqlite.codeConversions).values(insertConversion).returning();
+    return conversion;
+  }
+
+  async updateCodeConversion(id: number, changes: CodeConversionChanges): Promise<CodeConversion | undefined> {
+    const [conversion] = await this.db
+      .update(sqlite.codeConversions)
+      .set(changes)
+      .where(eq(sqlite.codeConversions.id, id))
+      .returning();
+    return conversion;
+  }
+
+  async getCodeConversionsByUserId(userId: number): Promise<CodeConversion[]> {
+    return this.db
+      .select()
+      .from(sqlite.codeConversions)
+      .where(eq(sqlite.codeConversions.userId, userId))
+      .orderBy(desc(sqlite.codeConversions.createdAt), desc(sqlite.codeConversions.id));
+  }
+
+  async listCodeConversions(
+    filter: ConversionFilter,
+    offset: number,
+    limit: number
+  ): Promise<{ conversions: CodeConversion[]; total: number }> {
+    const where = conversionFilter(sqlite.codeConversions, filter);
+    const [conversions, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(sqlite.codeConversions)
+        .where(where)
+        .orderBy(desc(sqlite.codeConversions.createdAt), desc(sqlite.codeConversions.id))
+        .offset(offset)
+        .limit(limit),
+      this.db.select({ total: count() }).from(sqlite.codeConversions).where(where),
+    ]);
+    return { conversions, total };
+  }
+
+  async deleteCodeConversion(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(sqlite.codeConversions)
+      .where(eq(sqlite.codeConversions.id, id))
+      .returning({ id: sqlite.codeConversions.id });
+    return deleted.length > 0;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db.insert(sqlite.apiTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async listApiTokens(userId: number): Promise<ApiToken[]> {
+    return this.db
+      .select()
+      .from(sqlite.apiTokens)
+      .where(eq(sqlite.apiTokens.userId, userId))
+      .orderBy(desc(sqlite.apiTokens.createdAt), desc(sqlite.apiTokens.id));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(sqlite.apiTokens)
+      .where(eq(sqlite.apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async markApiTokenUsed(id: number, usedAt: Date): Promise<void> {
+    await this.db.update(sqlite.apiTokens).set({ lastUsedAt: usedAt }).where(eq(sqlite.apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(sqlite.apiTokens)
+      .where(and(eq(sqlite.apiTokens.id, id), eq(sqlite.apiTokens.userId, userId)))
+      .returning({ id: sqlite.apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(sqlite.jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(sqlite.jobs).where(eq(sqlite.jobs.id, id));
+    return job;
+  }
+
+  async updateJob(id: string, changes: JobChanges): Promise<Job | undefined> {
+    const [job] = await this.db.update(sqlite.jobs).set(changes).where(eq(sqlite.jobs.id, id)).returning();
+    return job;
+  }
+
+  async listUnfinishedJobs(): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(sqlite.jobs)
+      .where(inArray(sqlite.jobs.status, UNFINISHED_JOB_STATUSES))
+      .orderBy(asc(sqlite.jobs.createdAt));
+  }
+
+  async deleteFinishedJobs(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(sqlite.jobs)
+      .where(and(inArray(sqlite.jobs.status, FINISHED_JOB_STATUSES), lt(sqlite.jobs.finishedAt, before)))
+      .returning({ id: sqlite.jobs.id });
+    return deleted.length;
+  }
+}
+
+// WHERE clause of a history query, for either dialect's table
+function conversionFilter(
+  table: typeof codeConversions | typeof sqlite.codeConversions,
+  filter: ConversionFilter
+): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (filter.userId === null) conditions.push(isNull(table.userId));
+  else if (filter.userId !== undefined) conditions.push(eq(table.userId, filter.userId));
+  if (filter.sourceLanguage !== undefined) conditions.push(eq(table.sourceLanguage, filter.sourceLanguage));
+  if (filter.targetLanguage !== undefined) conditions.push(eq(table.targetLanguage, filter.targetLanguage));
+  if (filter.from !== undefined) conditions.push(gte(table.createdAt, filter.from));
+  if (filter.to !== undefined) conditions.push(lt(table.createdAt, filter.to));
+  return and(...conditions);
+}
+
+const DEFAULT_SQLITE_PATH = "data/sourcexchange.db";
+
+/**
+ * Opens the backend named by STORAGE: "postgres" (needs DATABASE_URL),
+ * "sqlite" (file at SQLITE_PATH) or "memory", which loses everything on
+ * restart and is meant for tests. Without STORAGE, PostgreSQL is used when
+ * DATABASE_URL is set and SQLite otherwise.
+ */
+function openStorage(): { storage: IStorage; migrate: () => Promise<void> } {
+  const backend = process.env.STORAGE ?? (process.env.DATABASE_URL ? "postgres" : "sqlite");
+  switch (backend) {
+    case "postgres": {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE=postgres needs DATABASE_URL to be set");
+      }
+      const database = connectDatabase(process.env.DATABASE_URL);
+      const sessionStore = new PostgresSessionStore({
+        conString: process.env.DATABASE_URL,
+        createTableIfMissing: true,
+      });
+      return { storage: new DatabaseStorage(database.db, sessionStore), migrate: database.migrate };
+    }
+    case "sqlite": {
+      const database = connectSqlite(process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+      return { storage: new SqliteStorage(database.db), migrate: database.migrate };
+    }
+    case "memory":
+      return { storage: new MemStorage(), migrate: async () => {} };
+    default:
+      throw new Error(`Unknown STORAGE "${backend}"; expected postgres, sqlite or memory`);
+  }
+}
+
+const opened = openStorage();
+
+export const storage: IStorage = opened.storage;
+
+// Brings the database schema up to date; the server awaits it before serving
+export const migrateStorage = opened.migrate;
@@ -0,0 +1,52 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import { migrateStorage } from "./storage";
+
+/** A user agent for the behaviour tests that keeps its session cookie between requests. */
+export interface TestClient {
+  request(method: string, path: string, body?: unknown, headers?: Record<string, string>): Promise<globalThis.Response>;
+}
+
+export interface TestServer {
+  // e.g. http://127.0.0.1:41234, for clients other than TestClient such as WebSockets
+  url: string;
+  client(): TestClient;
+  close(): Promise<void>;
+}
+
+/** Serves the API on a free port, the way server/index.ts does, for the behaviour tests. */
+export async function startTestServer(): Promise<TestServer> {
+  await migrateStorage();
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    client() {
+      let cookie: string | undefined;
+      return {
+        async request(method, path, body, headers = {}) {
+          const response = await fetch(baseUrl + path, {
+            method,
+            headers: {
+              ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+              ...(cookie ? { Cookie: cookie } : {}),
+              ...headers,
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+          });
+          cookie = response.headers.get("set-cookie")?.split(";")[0] ?? cookie;
+          return response;
+        },
+      };
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { consumeRecoveryCode, generateRecoveryCodes, verifyTotp } from "./totp";
+
+// The RFC 6238 test secret, "12345678901234567890", in base32
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+// RFC 6238 appendix B: at 59 seconds the SHA-1 code is 94287082, of which six digits are used
+const AT_59_SECONDS = 59_000;
+const STEP_AT_59_SECONDS = 1;
+
+describe("verifyTotp", () => {
+  it("accepts the code of the current step and returns the step", () => {
+    assert.equal(verifyTotp(SECRET, "287082", null, AT_59_SECONDS), STEP_AT_59_SECONDS);
+  });
+
+  it("accepts a code one step away for clock drift, but not two", () => {
+    assert.equal(verifyTotp(SECRET, "287082", null, AT_59_SECONDS + 30_000), STEP_AT_59_SECONDS);
+    assert.equal(verifyTotp(SECRET, "287082", null, AT_59_SECONDS + 60_000), null);
+  });
+
+  it("rejects a wrong or malformed code", () => {
+    assert.equal(verifyTotp(SECRET, "287083", null, AT_59_SECONDS), null);
+    assert.equal(verifyTotp(SECRET, "28708", null, AT_59_SECONDS), null);
+    assert.equal(verifyTotp(SECRET, "2870821", null, AT_59_SECONDS), null);
+  });
+
+  it("rejects a code replayed at or before the last used step", () => {
+    assert.equal(verifyTotp(SECRET, "287082", STEP_AT_59_SECONDS, AT_59_SECONDS), null);
+    assert.equal(verifyTotp(SECRET, "287082", STEP_AT_59_SECONDS + 1, AT_59_SECONDS), null);
+    assert.equal(verifyTotp(SECRET, "287082", STEP_AT_59_SECONDS - 1, AT_59_SECONDS), STEP_AT_59_SECONDS);
+  });
+});
+
+describe("recovery codes", () => {
+  it("are used up one at a time, in any case and without the dash", () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    const remaining = consumeRecoveryCode(hashes, codes[0].replace("-", "").toUpperCase());
+    assert.equal(remaining?.length, hashes.length - 1);
+    assert.equal(consumeRecoveryCode(remaining!, codes[0]), null);
+  });
+});
@@ -0,0 +1,123 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// RFC 6238 defaults, which every authenticator app supports
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from the neighbouring steps are accepted too, for clock drift
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const RECOVERY_CODE_COUNT = 10;
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(text: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of text.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character '${char}'`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** A new random secret, base32 encoded as authenticator apps expect. */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/** The otpauth:// URI an authenticator app enrolls from, usually shown as a QR code. */
+export function totpUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+function codeAt(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac("sha1", secret).update(counter).digest();
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/**
+ * Checks a TOTP code against the secret and returns the time step it
+ * belongs to, or null when it does not match. Steps at or before
+ * `lastUsedStep` are rejected so that a code cannot be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null = null,
+  now = Date.now()
+): number | null {
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) return null;
+  const key = base32Decode(secret);
+  const current = Math.floor(now / 1000 / STEP_SECONDS);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(codeAt(key, step)), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+// Recovery codes are random, so a plain SHA-256 is enough to keep them unreadable at rest
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Users may type recovery codes in either case and without the dash
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+/** Fresh single-use recovery codes, as shown to the user and as stored. */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Looks `code` up among the stored recovery code hashes and returns the
+ * hashes left once it is used, or null when it is not one of them.
+ */
+export function consumeRecoveryCode(hashes: string[], code: string): string[] | null {
+  const hash = hashRecoveryCode(code);
+  const index = hashes.indexOf(hash);
+  if (index === -1) return null;
+  return hashes.filter((_, i) => i !== index);
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,6 +6,16 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Base32 TOTP secret; null while two-factor authentication is off
+  totpSecret: text("totp_secret"),
+  // Time step of the last accepted code, so that no code is accepted twice
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // SHA-256 hashes of the recovery codes not used yet
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default([]),
+  // Wrong second factors since the last right one, whichever session sent them
+  twoFactorFailures: integer("two_factor_failures").notNull().default(0),
+  // Second factors are refused until then after too many wrong ones
+  twoFactorLockedUntil: timestamp("two_factor_locked_until", { withTimezone: true }),
 });
 
 export const codeConversions = pgTable("code_conversions", {
@@ -14,32 +24,185 @@ export const codeConversions = pgTable("code_conversions", {
   targetCode: text("target_code").notNull(),
   sourceLanguage: text("source_language").notNull(),
   targetLanguage: text("target_language").notNull(),
-  explanation: text("explanation").notNull(),
+  explanation: jsonb("explanation").$type<ConvertCodeResponse["explanation"]>().notNull(),
+  skillLevel: text("skill_level").notNull(),
+  options: jsonb("options").$type<ConversionOptions>().notNull(),
+  // Version of the converter that produced it; null when no registered converter was used
+  engineVersion: text("engine_version"),
+  diagnostics: jsonb("diagnostics").$type<ConversionDiagnostic[]>().notNull(),
+  // What running both programs showed; null until the conversion is verified
+  verification: jsonb("verification").$type<VerificationReport>(),
   userId: integer("user_id").references(() => users.id),
-  createdAt: text("created_at").notNull()
-});
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  // The history lists newest first, optionally per user
+  index("code_conversions_user_id_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+// Personal access tokens for scripts and CI; only a hash of each token is kept
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // SHA-256 of the whole token, which is looked up on every request
+  tokenHash: text("token_hash").notNull().unique(),
+  // Start of the token, so that it can be recognised in the list
+  prefix: text("prefix").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+}, (table) => [
+  index("api_tokens_user_id_idx").on(table.userId),
+]);
+
+export const JOB_KINDS = ["convert", "project"] as const;
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+
+export type JobKind = (typeof JOB_KINDS)[number];
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// Conversions run in the background by POST /api/jobs; unfinished ones are picked up again after a restart
+export const jobs = pgTable("jobs", {
+  // Random, so that the id of an anonymous job is as good as a password
+  id: text("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  kind: text("kind").$type<JobKind>().notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  // The ConvertCodeRequest of a "convert" job, the ConvertProjectQuery of a "project" job
+  input: jsonb("input").$type<ConvertCodeRequest | ConvertProjectQuery>().notNull(),
+  // Base64 of a project job's uploaded archive, dropped once the job ends
+  inputArchive: text("input_archive"),
+  // The ConvertCodeResponse or ProjectReport of a succeeded job
+  result: jsonb("result").$type<ConvertCodeResponse | ProjectReport>(),
+  // Base64 of a succeeded project job's converted archive
+  outputArchive: text("output_archive"),
+  // Why a failed job failed, as the synchronous endpoint would have answered
+  failure: jsonb("failure").$type<JobFailure>(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  startedAt: timestamp("started_at", { withTimezone: true }),
+  finishedAt: timestamp("finished_at", { withTimezone: true }),
+}, (table) => [
+  // Unfinished jobs are requeued oldest first on startup
+  index("jobs_status_created_at_idx").on(table.status, table.createdAt),
+]);
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
-export const insertCodeConversionSchema = createInsertSchema(codeConversions).pick({
-  sourceCode: true,
-  targetCode: true,
-  sourceLanguage: true,
-  targetLanguage: true,
-  explanation: true,
-  userId: true,
-  createdAt: true,
-});
-
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
-export type InsertCodeConversion = z.infer<typeof insertCodeConversionSchema>;
+// What the account routes accept; the password is only ever stored hashed
+export const credentialsSchema = z.object({
+  username: z.string().trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[A-Za-z0-9_.-]+$/, "Username may only contain letters, digits, '.', '_' and '-'"),
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be at most 128 characters"),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+// The signed-in user as the API returns it, without any secrets
+export const publicUserSchema = z.object({
+  id: z.number().int(),
+  username: z.string(),
+  twoFactorEnabled: z.boolean(),
+});
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
+// A code from the authenticator app, or one of the recovery codes
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code").max(32),
+});
+
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+
+// What POST /api/login answers: the user, or a request for the second factor
+export type LoginResult = PublicUser | { twoFactorRequired: true };
+
+// A pending enrollment, confirmed with a first code
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  // PNG data URL of otpauthUri
+  qrCode: string;
+}
+
+// Shown once when two-factor authentication is enabled or the codes are replaced
+export interface RecoveryCodes {
+  recoveryCodes: string[];
+}
+
 export type CodeConversion = typeof codeConversions.$inferSelect;
 
+export const insertApiTokenSchema = createInsertSchema(apiTokens).pick({
+  userId: true,
+  name: true,
+  tokenHash: true,
+  prefix: true,
+});
+
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+// A token as listed to its owner, without the hash
+export type PublicApiToken = Omit<ApiToken, "userId" | "tokenHash">;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(64, "Name must be at most 64 characters"),
+});
+
+export type InsertJob = Pick<typeof jobs.$inferInsert, "id" | "userId" | "kind" | "input" | "inputArchive">;
+export type Job = typeof jobs.$inferSelect;
+
+export const jobFailureSchema = z.object({
+  status: z.number().int(),
+  error: z.object({ message: z.string(), error: z.string().optional() }).passthrough(),
+});
+
+export type JobFailure = z.infer<typeof jobFailureSchema>;
+
+// A job as GET /api/jobs/:id reports it, without its input
+export type PublicJob = Omit<Job, "userId" | "input" | "inputArchive" | "outputArchive"> & {
+  // Where a succeeded project job's converted archive is downloaded from
+  archiveUrl?: string;
+};
+
+// The full token is only ever returned here, when it is created
+export interface CreatedApiToken {
+  apiToken: PublicApiToken;
+  token: string;
+}
+
+// Runtime versions each target can be converted for, oldest first; the last is the default
+export const TARGET_VERSIONS: Record<string, string[]> = {
+  javascript: ["es5", "es2015", "es2022"],
+  python: ["3.8", "3.12"],
+  swift: ["5.0", "5.5", "5.9"],
+};
+
+// Formatting and naming choices for the converted code; anything left out uses the target's defaults
+export const conversionOptionsSchema = z.object({
+  targetVersion: z.string().optional(),
+  indent: z.object({
+    style: z.enum(["spaces", "tabs"]),
+    width: z.number().int().min(1).max(8),
+  }).optional(),
+  // Only JavaScript and Python have a choice of string quotes
+  quotes: z.enum(["double", "single"]).optional(),
+  // Only applies to JavaScript
+  semicolons: z.boolean().optional(),
+  // "target" follows the target language's convention (snake_case for Python, camelCase otherwise)
+  naming: z.enum(["preserve", "target", "camelCase", "snake_case"]).optional(),
+});
+
+export type ConversionOptions = z.infer<typeof conversionOptionsSchema>;
+
 export const convertCodeSchema = z.object({
   sourceCode: z.string().min(1, "Source code is required"),
   sourceLanguage: z.string().min(1, "Source language is required"),
@@ -47,10 +210,151 @@ export const convertCodeSchema = z.object({
   skillLevel: z.enum(["beginner", "intermediate", "advanced"]),
   generateReadme: z.boolean().optional(),
   generateApi: z.boolean().optional(),
+  options: conversionOptionsSchema.optional(),
 });
 
 export type ConvertCodeRequest = z.infer<typeof convertCodeSchema>;
 
+// How a conversion was produced: a dedicated converter for the pair, or a
+// parser and an emitter composed through the shared intermediate representation
+export const conversionPathSchema = z.object({
+  kind: z.enum(["direct", "ir"]),
+  steps: z.array(z.string()),
+});
+
+export type ConversionPath = z.infer<typeof conversionPathSchema>;
+
+// Lines are 1-based and columns 0-based, matching the converter's parsers
+export const sourcePositionSchema = z.object({
+  line: z.number().int(),
+  column: z.number().int(),
+});
+
+export const sourceRangeSchema = z.object({
+  start: sourcePositionSchema,
+  end: sourcePositionSchema,
+});
+
+export type SourceRange = z.infer<typeof sourceRangeSchema>;
+
+// A spot in the converted code that needs a human to review or finish it
+export const conversionDiagnosticSchema = z.object({
+  severity: z.enum(["error", "warning", "info"]),
+  code: z.string(),
+  message: z.string(),
+  sourceRange: sourceRangeSchema.optional(),
+  targetRange: sourceRangeSchema.optional(),
+});
+
+export type ConversionDiagnostic = z.infer<typeof conversionDiagnosticSchema>;
+export type DiagnosticSeverity = ConversionDiagnostic["severity"];
+
+// Standard v3 source map from the converted code back to the submitted code
+export const sourceMapSchema = z.object({
+  version: z.literal(3),
+  file: z.string().nullish(),
+  sourceRoot: z.string().optional(),
+  sources: z.array(z.string().nullable()),
+  sourcesContent: z.array(z.string().nullable()).optional(),
+  names: z.array(z.string()),
+  mappings: z.string(),
+});
+
+export type SourceMap = z.infer<typeof sourceMapSchema>;
+
+// Languages POST /api/run can execute; Python and Bash also need an interpreter on the server
+export const RUNNABLE_LANGUAGES = ["javascript", "typescript", "python", "bash"] as const;
+
+export const runCodeSchema = z.object({
+  code: z.string().min(1, "Code is required"),
+  language: z.enum(RUNNABLE_LANGUAGES),
+  stdin: z.string().optional(),
+  // Command-line arguments: process.argv in JavaScript, sys.argv in Python, $1… in Bash
+  args: z.array(z.string()).optional(),
+});
+
+export type RunCodeRequest = z.infer<typeof runCodeSchema>;
+
+export const runResultSchema = z.object({
+  stdout: z.string(),
+  stderr: z.string(),
+  // null when the run was stopped before it exited
+  exitCode: z.number().int().nullable(),
+  durationMs: z.number(),
+  // Limit that stopped the run, if any
+  limit: z.enum(["cpu", "memory", "wall-clock", "output"]).optional(),
+  // Stopped on request before it exited
+  stopped: z.boolean().optional(),
+});
+
+export type RunResult = z.infer<typeof runResultSchema>;
+
+// WebSocket endpoint running a program interactively, streaming its output as it is written
+export const RUN_SOCKET_PATH = "/api/run/socket";
+
+export const runSocketClientMessageSchema = z.discriminatedUnion("type", [
+  // Starts the program; stdin given here is its whole input, otherwise stdin stays open for "stdin" messages
+  runCodeSchema.extend({ type: z.literal("start") }),
+  z.object({ type: z.literal("stdin"), text: z.string() }),
+  // Closes stdin
+  z.object({ type: z.literal("eof") }),
+  z.object({ type: z.literal("stop") }),
+]);
+
+export type RunSocketClientMessage = z.infer<typeof runSocketClientMessageSchema>;
+
+// How a run ended, without the output that was already streamed
+export const runExitSchema = runResultSchema.omit({ stdout: true, stderr: true });
+
+export type RunExit = z.infer<typeof runExitSchema>;
+
+export const outputStreamSchema = z.enum(["stdout", "stderr"]);
+
+export type OutputStream = z.infer<typeof outputStreamSchema>;
+
+export const runSocketServerMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("output"), stream: outputStreamSchema, text: z.string() }),
+  // Sent once, after which the server closes the socket
+  z.object({ type: z.literal("exit"), exit: runExitSchema }),
+  z.object({ type: z.literal("error"), message: z.string(), language: z.string().optional() }),
+]);
+
+export type RunSocketServerMessage = z.infer<typeof runSocketServerMessageSchema>;
+
+export const verifyConversionSchema = z.object({
+  sourceCode: z.string().min(1, "Source code is required"),
+  sourceLanguage: z.enum(RUNNABLE_LANGUAGES),
+  targetCode: z.string().min(1, "Target code is required"),
+  targetLanguage: z.enum(RUNNABLE_LANGUAGES),
+  // Given to both programs
+  stdin: z.string().optional(),
+  args: z.array(z.string()).optional(),
+  // Conversion of the caller's history to save the report on; its code must be the code sent
+  conversionId: z.number().int().positive().optional(),
+});
+
+export type VerifyConversionRequest = z.infer<typeof verifyConversionSchema>;
+
+export const verificationMismatchSchema = z.object({
+  field: z.enum(["stdout", "stderr", "exitCode", "limit"]),
+  // 1-based line of the first difference, for stdout and stderr
+  line: z.number().int().optional(),
+  // What each program produced there, after normalisation
+  source: z.string(),
+  target: z.string(),
+});
+
+export type VerificationMismatch = z.infer<typeof verificationMismatchSchema>;
+
+export const verificationReportSchema = z.object({
+  passed: z.boolean(),
+  source: runResultSchema,
+  target: runResultSchema,
+  mismatches: z.array(verificationMismatchSchema),
+});
+
+export type VerificationReport = z.infer<typeof verificationReportSchema>;
+
 export const convertCodeResponseSchema = z.object({
   targetCode: z.string(),
   explanation: z.object({
@@ -63,8 +367,209 @@ export const convertCodeResponseSchema = z.object({
     highLevel: z.string(),
     languageDifferences: z.string(),
   }),
+  diagnostics: z.array(conversionDiagnosticSchema),
+  // 0 to 1; lowered by each diagnostic in proportion to the source it covers
+  confidence: z.number().min(0).max(1),
+  sourceMap: sourceMapSchema,
   readme: z.string().optional(),
   apiDocs: z.string().optional(),
+  // Attached once the user verifies the conversion by running both programs
+  verification: verificationReportSchema.optional(),
+  // Id of the saved conversion in the history; absent for anonymous conversions, which are not saved
+  conversionId: z.number().int().optional(),
+  converter: z.object({
+    sourceLanguage: z.string(),
+    targetLanguage: z.string(),
+    version: z.string(),
+    path: conversionPathSchema,
+  }).optional(),
 });
 
 export type ConvertCodeResponse = z.infer<typeof convertCodeResponseSchema>;
+
+// Server-Sent Events endpoint converting code one stage at a time
+export const CONVERT_STREAM_PATH = "/api/convert/stream";
+
+// Steps of a streamed conversion, in the order they run
+export const CONVERSION_STAGES = ["parse", "transform", "emit", "verify", "docs"] as const;
+
+export type ConversionStage = (typeof CONVERSION_STAGES)[number];
+
+// Body of POST /api/convert/stream: a ConvertCodeRequest, and whether to verify the result
+export const convertStreamSchema = convertCodeSchema
+  .extend({
+    // Runs the source and the result with `stdin` and compares their output, as POST /api/verify does
+    verify: z.boolean().optional(),
+    stdin: z.string().optional(),
+  })
+  .refine(
+    ({ verify, sourceLanguage, targetLanguage }) =>
+      !verify || [sourceLanguage, targetLanguage].every((language) => (RUNNABLE_LANGUAGES as readonly string[]).includes(language)),
+    { message: "Only conversions between languages the sandbox runs can be verified", path: ["verify"] }
+  );
+
+export type ConvertStreamRequest = z.infer<typeof convertStreamSchema>;
+
+// One event of the stream; its `type` is also the SSE event name
+export const convertStreamEventSchema = z.discriminatedUnion("type", [
+  // Sent first, with the stages this conversion will run
+  z.object({ type: z.literal("start"), stages: z.array(z.enum(CONVERSION_STAGES)) }),
+  z.object({ type: z.literal("stage"), stage: z.enum(CONVERSION_STAGES), status: z.enum(["started", "finished"]) }),
+  // The next piece of the target code, up to the `index`th of `total` top-level declarations; the pieces join into the whole code
+  z.object({
+    type: z.literal("partial"),
+    index: z.number().int(),
+    total: z.number().int(),
+    // What the declaration declares, when it declares something
+    name: z.string().optional(),
+    code: z.string(),
+  }),
+  z.object({ type: z.literal("diagnostic"), diagnostic: conversionDiagnosticSchema }),
+  // Sent last on success, once the conversion is saved to the history
+  z.object({ type: z.literal("result"), result: convertCodeResponseSchema }),
+  // Sent last on failure, with the status and body POST /api/convert would have answered
+  z.object({
+    type: z.literal("failure"),
+    status: z.number().int(),
+    error: z.object({ message: z.string(), error: z.string().optional() }).passthrough(),
+  }),
+]);
+
+export type ConvertStreamEvent = z.infer<typeof convertStreamEventSchema>;
+
+export const MAX_BATCH_ITEMS = 100;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+// Body of POST /api/convert/batch; each item is validated on its own, so one bad item only fails itself
+export const convertBatchSchema = z.object({
+  items: z.array(convertCodeSchema).min(1, "At least one item is required").max(MAX_BATCH_ITEMS),
+  // How many items convert at the same time
+  concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).optional(),
+});
+
+export type ConvertBatchRequest = z.infer<typeof convertBatchSchema>;
+
+// Outcome of one item, with the status and body /api/convert would have answered on failure
+export const convertBatchItemResultSchema = z.discriminatedUnion("ok", [
+  z.object({
+    index: z.number().int(),
+    ok: z.literal(true),
+    result: convertCodeResponseSchema,
+  }),
+  z.object({
+    index: z.number().int(),
+    ok: z.literal(false),
+    status: z.number().int(),
+    error: z.object({ message: z.string(), error: z.string().optional() }).passthrough(),
+  }),
+]);
+
+export type ConvertBatchItemResult = z.infer<typeof convertBatchItemResultSchema>;
+
+// The whole batch in item order; streamed responses send the items alone, as they finish
+export const convertBatchResponseSchema = z.object({
+  results: z.array(convertBatchItemResultSchema),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+});
+
+export type ConvertBatchResponse = z.infer<typeof convertBatchResponseSchema>;
+
+export const MAX_PROJECT_FILES = 200;
+// Largest archive POST /api/convert/project accepts, in bytes
+export const MAX_PROJECT_ARCHIVE_BYTES = 10 * 1024 * 1024;
+
+// Query string of POST /api/convert/project, whose body is the archive itself
+export const convertProjectQuerySchema = z.object({
+  targetLanguage: z.string().min(1, "Target language is required"),
+  targetVersion: z.string().optional(),
+});
+
+export type ConvertProjectQuery = z.infer<typeof convertProjectQuerySchema>;
+
+// What happened to one file of an uploaded project
+export const projectFileReportSchema = z.object({
+  path: z.string(),
+  outputPath: z.string(),
+  // "copied" files are not source code, or already in the target language
+  status: z.enum(["converted", "copied", "failed"]),
+  sourceLanguage: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  diagnostics: z.array(conversionDiagnosticSchema),
+  // Why a failed file could not be converted; it is copied unchanged
+  error: z.string().optional(),
+});
+
+export type ProjectFileReport = z.infer<typeof projectFileReportSchema>;
+
+// The diagnostics report shipped inside a converted project's archive
+export const projectReportSchema = z.object({
+  targetLanguage: z.string(),
+  files: z.array(projectFileReportSchema),
+  converted: z.number().int(),
+  copied: z.number().int(),
+  failed: z.number().int(),
+});
+
+export type ProjectReport = z.infer<typeof projectReportSchema>;
+
+// Declared after the schemas of its JSON columns, which drizzle-zod cannot derive
+export const insertCodeConversionSchema = createInsertSchema(codeConversions, {
+  explanation: convertCodeResponseSchema.shape.explanation,
+  options: conversionOptionsSchema,
+  diagnostics: z.array(conversionDiagnosticSchema),
+  verification: verificationReportSchema.nullable(),
+}).pick({
+  sourceCode: true,
+  targetCode: true,
+  sourceLanguage: true,
+  targetLanguage: true,
+  explanation: true,
+  skillLevel: true,
+  options: true,
+  engineVersion: true,
+  diagnostics: true,
+  verification: true,
+  userId: true,
+});
+
+export type InsertCodeConversion = z.infer<typeof insertCodeConversionSchema>;
+
+export const converterInfoSchema = z.object({
+  sourceLanguage: z.string(),
+  targetLanguage: z.string(),
+  version: z.string(),
+  capabilities: z.object({
+    parsing: z.enum(["ast", "line-based"]),
+    preservesComments: z.boolean(),
+    handlesMultiLineStatements: z.boolean(),
+  }),
+  supportedConstructs: z.array(z.string()),
+  path: conversionPathSchema,
+});
+
+export type ConverterInfo = z.infer<typeof converterInfoSchema>;
+
+// Query string of GET /api/conversions
+export const listConversionsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  sourceLanguage: z.string().optional(),
+  targetLanguage: z.string().optional(),
+  // Created at or after `from` and before `to`
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type ListConversionsQuery = z.infer<typeof listConversionsQuerySchema>;
+
+// Where the OpenAPI 3 description of the REST API is served
+export const OPENAPI_PATH = "/api/openapi.json";
+
+// A page of saved conversions, newest first
+export interface ConversionPage {
+  conversions: CodeConversion[];
+  total: number;
+  page: number;
+  pageSize: number;
+}